@@ -12,6 +12,7 @@ import Employees from "./pages/Employees";
 import DeactivatedStaff from "./pages/DeactivatedStaff";
 import Compliance from "./pages/Compliance";
 import Leave from "./pages/Leave";
+import Timesheets from "./pages/Timesheets";
 import Recruitment from "./pages/Recruitment";
 import Contracts from "./pages/Contracts";
 import Documents from "./pages/Documents";
@@ -21,6 +22,7 @@ import Performance from "./pages/Performance";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 import HRCases from "./pages/HRCases";
+import Rostering from "./pages/Rostering";
 // Portal pages
 import PortalDashboard from "./pages/portal/PortalDashboard";
 import MyDocuments from "./pages/portal/MyDocuments";
@@ -41,6 +43,8 @@ import PlatformUsers from "./pages/platform/PlatformUsers";
 import AuditLogs from "./pages/platform/AuditLogs";
 import PlatformSettings from "./pages/platform/PlatformSettings";
 import AuditExports from "./pages/AuditExports";
+import WhistleblowerPortal from "./pages/WhistleblowerPortal";
+import ContractSigning from "./pages/ContractSigning";
 
 const queryClient = new QueryClient();
 
@@ -60,6 +64,9 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
+          {/* Public, no sign-in: anonymous reporting */}
+          <Route path="/whistleblower/:organisationId" element={<WhistleblowerPortal />} />
+          <Route path="/sign/:token" element={<ContractSigning />} />
           <Route
             path="/employees"
             element={
@@ -96,10 +103,7 @@ const App = () => (
             path="/timesheets"
             element={
               <ProtectedPageWithLayout>
-                <div className="text-center py-12">
-                  <h1 className="text-2xl font-bold">Timesheets</h1>
-                  <p className="text-muted-foreground mt-2">Coming soon...</p>
-                </div>
+                <Timesheets />
               </ProtectedPageWithLayout>
             }
           />
@@ -162,6 +166,14 @@ const App = () => (
               </ProtectedPageWithLayout>
             }
           />
+          <Route
+            path="/rostering"
+            element={
+              <ProtectedPageWithLayout>
+                <Rostering />
+              </ProtectedPageWithLayout>
+            }
+          />
           <Route
             path="/hr-cases"
             element={
@@ -36,6 +36,7 @@ export function AuditPackBuilder() {
   const [dateRangeEnd, setDateRangeEnd] = useState<Date | undefined>();
   const [includeRestricted, setIncludeRestricted] = useState(false);
   const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [includeComplianceHistory, setIncludeComplianceHistory] = useState(false);
   const [confirmedRestricted, setConfirmedRestricted] = useState(false);
 
   const { employees, isLoading: employeesLoading } = useSupabaseEmployees();
@@ -84,6 +85,7 @@ export function AuditPackBuilder() {
       date_range_end: dateRangeEnd ? format(dateRangeEnd, 'yyyy-MM-dd') : null,
       include_restricted_content: includeRestricted,
       include_attachments: includeAttachments,
+      include_compliance_history: packType === 'organisation_compliance' && includeComplianceHistory,
     });
   };
 
@@ -249,6 +251,25 @@ export function AuditPackBuilder() {
               />
             </div>
 
+            {packType === 'organisation_compliance' && (
+              <>
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Include Compliance History</Label>
+                    <div className="text-sm text-muted-foreground">
+                      Daily compliance snapshots and status changes for each employee in the date range
+                    </div>
+                  </div>
+                  <Switch
+                    checked={includeComplianceHistory}
+                    onCheckedChange={setIncludeComplianceHistory}
+                  />
+                </div>
+              </>
+            )}
+
             <Separator />
 
             <div className="flex items-center justify-between">
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { GraduationCap, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCourses } from '@/hooks/useLMS';
+
+interface AssignRenewalCourseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeCount: number;
+  onAssign: (courseId: string, dueDate: string | null) => Promise<void>;
+}
+
+export function AssignRenewalCourseDialog({
+  open,
+  onOpenChange,
+  employeeCount,
+  onAssign,
+}: AssignRenewalCourseDialogProps) {
+  const { courses, loading } = useCourses();
+  const [courseId, setCourseId] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCourseId('');
+      setDueDate('');
+    }
+  }, [open]);
+
+  const publishedCourses = courses.filter(c => c.is_published);
+
+  const handleAssign = async () => {
+    if (!courseId) return;
+    setIsSubmitting(true);
+    try {
+      await onAssign(courseId, dueDate || null);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GraduationCap className="h-5 w-5" />
+            Assign Renewal Course
+          </DialogTitle>
+          <DialogDescription>
+            Assign a course to {employeeCount} selected {employeeCount === 1 ? 'employee' : 'employees'}.
+            Anyone already enrolled in it is skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Course *</Label>
+            <Select value={courseId} onValueChange={setCourseId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder={loading ? 'Loading courses...' : 'Select a course'} />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                {publishedCourses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!loading && publishedCourses.length === 0 && (
+              <p className="text-xs text-muted-foreground">No published courses yet</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="renewal-due-date">Due Date</Label>
+            <Input
+              id="renewal-due-date"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={!courseId || isSubmitting} className="gradient-primary">
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Assign Course
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
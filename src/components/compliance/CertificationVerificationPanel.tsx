@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { VerifyCertificationDialog } from '@/components/compliance/VerifyCertificationDialog';
+import { complianceService } from '@/services/complianceService';
+import { useUserRole } from '@/hooks/useUserRole';
+import { VERIFICATION_METHOD_LABELS, type VerificationMethod } from '@/lib/certificationVerification';
+import type { EmployeeCertificationDB } from '@/types/database';
+
+interface CertificationVerificationPanelProps {
+  employeeId: string;
+  certifications: EmployeeCertificationDB[];
+  documents: Array<{ id: string; file_name: string }>;
+  getCertTypeLabel: (type: string) => string;
+}
+
+/**
+ * Each certification's verification status and the checks recorded for it.
+ */
+export function CertificationVerificationPanel({
+  employeeId,
+  certifications,
+  documents,
+  getCertTypeLabel,
+}: CertificationVerificationPanelProps) {
+  const queryClient = useQueryClient();
+  const { isManager } = useUserRole();
+  const [verifying, setVerifying] = useState<EmployeeCertificationDB | null>(null);
+
+  const { data: verifications = [] } = useQuery({
+    queryKey: ['certification-verifications', employeeId],
+    queryFn: () => complianceService.getCertificationVerifications(employeeId),
+  });
+
+  if (certifications.length === 0) return null;
+
+  const handleVerified = () => {
+    queryClient.invalidateQueries({ queryKey: ['certification-verifications', employeeId] });
+    queryClient.invalidateQueries({ queryKey: ['employee-certifications'] });
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4" />
+        Certificate Verification
+      </p>
+      <div className="divide-y">
+        {certifications.map((cert) => {
+          const trail = verifications.filter(v => v.certification_id === cert.id);
+          return (
+            <div key={cert.id} className="py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm truncate">{cert.name || getCertTypeLabel(cert.type)}</span>
+                  {cert.verification_id ? (
+                    <Badge variant="secondary" className="text-xs">Verified</Badge>
+                  ) : (
+                    <Badge variant="destructive" className="text-xs">
+                      <ShieldQuestion className="h-3 w-3 mr-1" />
+                      Not verified
+                    </Badge>
+                  )}
+                </div>
+                {isManager && (
+                  <Button
+                    size="sm"
+                    variant={cert.verification_id ? 'ghost' : 'outline'}
+                    onClick={() => setVerifying(cert)}
+                  >
+                    {cert.verification_id ? 'Re-verify' : 'Verify'}
+                  </Button>
+                )}
+              </div>
+              {trail.map((v) => (
+                <p
+                  key={v.id}
+                  className={v.id === cert.verification_id ? 'text-xs' : 'text-xs text-muted-foreground line-through'}
+                >
+                  {VERIFICATION_METHOD_LABELS[v.method as VerificationMethod] || v.method}
+                  {v.reference_number && <> · Ref {v.reference_number}</>}
+                  {' · '}
+                  {format(parseISO(v.verified_on), 'dd MMM yyyy')} by {v.verified_by_name}
+                  {v.document?.file_name && <> · {v.document.file_name}</>}
+                </p>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <VerifyCertificationDialog
+        open={!!verifying}
+        onOpenChange={(open) => !open && setVerifying(null)}
+        certification={verifying}
+        certificationLabel={verifying ? verifying.name || getCertTypeLabel(verifying.type) : ''}
+        documents={documents}
+        onVerified={handleVerified}
+      />
+    </div>
+  );
+}
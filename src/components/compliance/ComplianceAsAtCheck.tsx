@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { complianceService } from '@/services/complianceService';
+import { SNAPSHOT_STATUS_LABELS } from '@/lib/complianceHistory';
+
+interface ComplianceAsAtCheckProps {
+  employeeId: string;
+}
+
+/**
+ * Answers "was this worker compliant on that day?" from the recorded
+ * compliance history.
+ */
+export function ComplianceAsAtCheck({ employeeId }: ComplianceAsAtCheckProps) {
+  const [date, setDate] = useState('');
+
+  const { data: record, isFetching } = useQuery({
+    queryKey: ['compliance-at', employeeId, date],
+    queryFn: () => complianceService.getComplianceAt(employeeId, date),
+    enabled: !!date,
+  });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="compliance-as-at" className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Compliance on date
+          </Label>
+          <Input
+            id="compliance-as-at"
+            type="date"
+            value={date}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full sm:w-48"
+          />
+        </div>
+        {date && !isFetching && (
+          record ? (
+            <div className="flex items-center gap-2 flex-wrap text-sm">
+              <Badge variant={record.status === 'non_compliant' ? 'destructive' : 'secondary'}>
+                {SNAPSHOT_STATUS_LABELS[record.status]}
+              </Badge>
+              {record.overrideActive && <Badge variant="outline">Override active</Badge>}
+              <span className="text-muted-foreground">
+                as recorded {format(parseISO(record.recordedAt), 'dd MMM yyyy HH:mm')}
+              </span>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No compliance history recorded by this date</p>
+          )
+        )}
+      </div>
+      {date && record && record.blockingReasons.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {record.blockingReasons.map((reason) => (
+            <Badge key={reason.type} variant="outline" className="text-xs">
+              {complianceService.getCertificationDisplayName(reason.type)}:{' '}
+              {complianceService.getStatusDisplay(reason.status).label}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
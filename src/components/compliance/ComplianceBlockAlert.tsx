@@ -87,7 +87,8 @@ export function ComplianceBlockAlert({
               )}
               {hasBlockingIssues && result.overrideActive && (
                 <p className="mt-1 text-muted-foreground">
-                  Override in effect until {new Date(result.overrideDetails!.expiresAt).toLocaleDateString()}.
+                  Override in effect until {new Date(result.overrideDetails!.expiresAt).toLocaleDateString()}
+                  {result.overrideDetails!.approvedBy && <>, approved by {result.overrideDetails!.approvedBy}</>}.
                   Reason: {result.overrideDetails!.reason}
                 </p>
               )}
@@ -139,10 +140,10 @@ export function ComplianceBlockAlert({
                     onClick={() => setOverrideDialogOpen(true)}
                   >
                     <ShieldAlert className="h-4 w-4 mr-2" />
-                    Create Override
+                    Request Override
                   </Button>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Only Admin or Director can override compliance blocks.
+                    Overrides take effect once approved by a second admin.
                   </p>
                 </div>
               )}
@@ -10,6 +10,8 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { StatusBadge } from '@/components/ui/status-badge';
+import { ComplianceAsAtCheck } from '@/components/compliance/ComplianceAsAtCheck';
+import { CertificationVerificationPanel } from '@/components/compliance/CertificationVerificationPanel';
 import { ComplianceStatus } from '@/types/hrms';
 import type { EmployeeCertificationDB, EmployeeDB } from '@/types/database';
 
@@ -166,6 +168,15 @@ export function ComplianceEmployeeDetailDialog({
               </TableBody>
             </Table>
           </div>
+
+          <CertificationVerificationPanel
+            employeeId={employee.id}
+            certifications={employee.certifications}
+            documents={documents}
+            getCertTypeLabel={(type) => getCertTypeLabel(type)}
+          />
+
+          <ComplianceAsAtCheck employeeId={employee.id} />
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,407 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Download, FileSpreadsheet, GraduationCap, Grid3X3, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AssignRenewalCourseDialog } from '@/components/compliance/AssignRenewalCourseDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { complianceService } from '@/services/complianceService';
+import { useUserRole } from '@/hooks/useUserRole';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  DOCUMENT_REQUEST_STATUSES,
+  MATRIX_STATUS_LABELS,
+  buildComplianceMatrix,
+  matrixExportRows,
+  visibleRowRange,
+  type ComplianceMatrix as Matrix,
+  type MatrixCellStatus,
+} from '@/lib/complianceMatrix';
+import { buildXlsx } from '@/lib/xlsx';
+import type { ComplianceRule } from '@/types/portal';
+import type { EmployeeCertificationDB, EmployeeDB } from '@/types/database';
+
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 560;
+const NAME_WIDTH = 240;
+const CELL_WIDTH = 116;
+const SELECT_WIDTH = 40;
+
+const STATUS_CLASSES: Record<MatrixCellStatus, string> = {
+  valid: 'bg-success/15 text-success',
+  expiring: 'bg-warning/15 text-warning',
+  unverified: 'bg-info/15 text-info',
+  pending: 'bg-muted text-muted-foreground',
+  expired: 'bg-destructive/15 text-destructive',
+  missing: 'bg-destructive/15 text-destructive',
+};
+
+const GAP_FILTER = 'gaps';
+
+interface ComplianceMatrixProps {
+  employees: Array<EmployeeDB & { certifications: EmployeeCertificationDB[] }>;
+  rules: ComplianceRule[];
+  searchQuery: string;
+  department: string;
+}
+
+function download(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+const toCsv = (rows: string[][]) =>
+  rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+
+/**
+ * Every employee against every certificate required of them. Rows are
+ * virtualised so organisations with hundreds of staff stay responsive.
+ */
+export function ComplianceMatrix({ employees, rules, searchQuery, department }: ComplianceMatrixProps) {
+  const { isManager } = useUserRole();
+  const [filterPosition, setFilterPosition] = useState('all');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [courseDialogOpen, setCourseDialogOpen] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ['departments', 'names'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('departments').select('id, name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const matrix = useMemo(
+    () =>
+      buildComplianceMatrix(
+        employees,
+        rules,
+        departments,
+        employees.flatMap(e => e.certifications),
+        format(new Date(), 'yyyy-MM-dd')
+      ),
+    [employees, rules, departments]
+  );
+
+  const positions = useMemo(
+    () => [...new Set(employees.map(e => e.position).filter(Boolean))].sort() as string[],
+    [employees]
+  );
+
+  const rows = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return matrix.rows.filter(row => {
+      if (query && !row.name.toLowerCase().includes(query)) return false;
+      if (department !== 'all' && row.department !== department) return false;
+      if (filterPosition !== 'all' && row.position !== filterPosition) return false;
+      if (filterStatus === GAP_FILTER) {
+        return Object.values(row.cells).some(cell => cell.status !== 'valid');
+      }
+      if (filterStatus !== 'all') {
+        return Object.values(row.cells).some(cell => cell.status === filterStatus);
+      }
+      return true;
+    });
+  }, [matrix, searchQuery, department, filterPosition, filterStatus]);
+
+  const organisationByEmployee = useMemo(
+    () => new Map(employees.map(e => [e.id, e.organisation_id])),
+    [employees]
+  );
+
+  const selectedRows = rows.filter(row => selected.has(row.employeeId));
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+  const bodyScroll = Math.max(0, scrollTop - HEADER_HEIGHT);
+  const { start, end } = visibleRowRange(bodyScroll, VIEWPORT_HEIGHT, ROW_HEIGHT, rows.length);
+  const totalWidth = SELECT_WIDTH + NAME_WIDTH + matrix.columns.length * CELL_WIDTH;
+
+  const toggleRow = (employeeId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(employeeId);
+    else next.delete(employeeId);
+    setSelected(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(rows.map(r => r.employeeId)) : new Set());
+  };
+
+  // Exports cover the selection, or every row shown when nothing is selected
+  const exportMatrix = (): Matrix => ({
+    columns: matrix.columns,
+    rows: selectedRows.length > 0 ? selectedRows : rows,
+  });
+
+  const handleExportCsv = () => {
+    const data = exportMatrix();
+    download(
+      new Blob([toCsv(matrixExportRows(data))], { type: 'text/csv;charset=utf-8;' }),
+      `compliance-matrix-${format(new Date(), 'yyyy-MM-dd')}.csv`
+    );
+    toast({ title: 'Matrix Exported', description: `Exported ${data.rows.length} employees to CSV.` });
+  };
+
+  const handleExportXlsx = () => {
+    const data = exportMatrix();
+    download(
+      new Blob([buildXlsx(matrixExportRows(data), 'Compliance Matrix')], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      }),
+      `compliance-matrix-${format(new Date(), 'yyyy-MM-dd')}.xlsx`
+    );
+    toast({ title: 'Matrix Exported', description: `Exported ${data.rows.length} employees to Excel.` });
+  };
+
+  const handleRequestDocuments = async () => {
+    const requests = selectedRows.map(row => ({
+      employeeId: row.employeeId,
+      organisationId: organisationByEmployee.get(row.employeeId)!,
+      certificates: matrix.columns
+        .filter(column => {
+          const cell = row.cells[column.type];
+          return cell && DOCUMENT_REQUEST_STATUSES.includes(cell.status);
+        })
+        .map(column => column.name),
+    }));
+
+    if (!requests.some(r => r.certificates.length > 0)) {
+      toast({ title: 'Nothing to request', description: 'The selected employees have no missing or expiring documents.' });
+      return;
+    }
+
+    setIsRequesting(true);
+    try {
+      const { notified, withoutLogin } = await complianceService.requestComplianceDocuments(requests);
+      toast({
+        title: 'Documents Requested',
+        description:
+          `Notified ${notified} ${notified === 1 ? 'employee' : 'employees'}.` +
+          (withoutLogin.length > 0 ? ` ${withoutLogin.length} without a login could not be notified.` : ''),
+      });
+    } catch (error) {
+      toast({
+        title: 'Request failed',
+        description: error instanceof Error ? error.message : 'Unable to request documents.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const handleAssignCourse = async (courseId: string, dueDate: string | null) => {
+    try {
+      const { assigned, alreadyAssigned, withoutLogin } = await complianceService.assignRenewalCourse(
+        selectedRows.map(row => ({
+          employeeId: row.employeeId,
+          organisationId: organisationByEmployee.get(row.employeeId)!,
+        })),
+        courseId,
+        dueDate
+      );
+      toast({
+        title: 'Course Assigned',
+        description:
+          `Assigned to ${assigned} ${assigned === 1 ? 'employee' : 'employees'}.` +
+          (alreadyAssigned > 0 ? ` ${alreadyAssigned} already enrolled.` : '') +
+          (withoutLogin.length > 0 ? ` ${withoutLogin.length} without a login skipped.` : ''),
+      });
+    } catch (error) {
+      toast({
+        title: 'Assignment failed',
+        description: error instanceof Error ? error.message : 'Unable to assign the course.',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="flex flex-wrap gap-3">
+          <Select value={filterPosition} onValueChange={setFilterPosition}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue placeholder="Position" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              <SelectItem value="all">All Positions</SelectItem>
+              {positions.map((position) => (
+                <SelectItem key={position} value={position}>
+                  {position}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filterStatus} onValueChange={setFilterStatus}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              <SelectItem value="all">All Employees</SelectItem>
+              <SelectItem value={GAP_FILTER}>Any gap</SelectItem>
+              {(Object.keys(MATRIX_STATUS_LABELS) as MatrixCellStatus[])
+                .filter(status => status !== 'valid')
+                .map((status) => (
+                  <SelectItem key={status} value={status}>
+                    Any {MATRIX_STATUS_LABELS[status].toLowerCase()}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+          <span className="text-sm text-muted-foreground">
+            {selectedRows.length > 0 ? `${selectedRows.length} selected` : `${rows.length} employees`}
+          </span>
+          {isManager && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedRows.length === 0 || isRequesting}
+                onClick={handleRequestDocuments}
+              >
+                {isRequesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Request Documents
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedRows.length === 0}
+                onClick={() => setCourseDialogOpen(true)}
+              >
+                <GraduationCap className="h-4 w-4 mr-2" />
+                Assign Course
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={rows.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportXlsx} disabled={rows.length === 0}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Excel
+          </Button>
+        </div>
+      </div>
+
+      {matrix.columns.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Grid3X3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No compliance requirements apply to these employees</p>
+        </div>
+      ) : (
+        <div
+          className="rounded-lg border overflow-auto"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div style={{ width: totalWidth, minWidth: '100%' }}>
+            {/* Header */}
+            <div
+              className="sticky top-0 z-20 flex bg-muted border-b text-xs font-medium"
+              style={{ height: HEADER_HEIGHT }}
+            >
+              <div
+                className="sticky left-0 z-10 flex items-center bg-muted pl-3"
+                style={{ width: SELECT_WIDTH + NAME_WIDTH }}
+              >
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="Select all employees"
+                />
+                <span className="ml-4">Employee</span>
+              </div>
+              {matrix.columns.map((column) => (
+                <div
+                  key={column.type}
+                  className="flex items-center justify-center px-2 text-center leading-tight"
+                  style={{ width: CELL_WIDTH }}
+                  title={column.name}
+                >
+                  <span className="line-clamp-2">{column.name}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Rows */}
+            <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+              {rows.slice(start, end).map((row, index) => (
+                <div
+                  key={row.employeeId}
+                  className="absolute left-0 flex border-b text-sm"
+                  style={{ top: (start + index) * ROW_HEIGHT, height: ROW_HEIGHT, width: totalWidth }}
+                >
+                  <div
+                    className="sticky left-0 z-10 flex items-center bg-background pl-3"
+                    style={{ width: SELECT_WIDTH + NAME_WIDTH }}
+                  >
+                    <Checkbox
+                      checked={selected.has(row.employeeId)}
+                      onCheckedChange={(checked) => toggleRow(row.employeeId, checked === true)}
+                      aria-label={`Select ${row.name}`}
+                    />
+                    <div className="ml-4 min-w-0">
+                      <p className="truncate font-medium leading-tight">{row.name}</p>
+                      <p className="truncate text-xs text-muted-foreground leading-tight">
+                        {[row.position, row.department].filter(Boolean).join(' · ') || '—'}
+                      </p>
+                    </div>
+                  </div>
+                  {matrix.columns.map((column) => {
+                    const cell = row.cells[column.type];
+                    return (
+                      <div key={column.type} className="flex items-center justify-center p-1" style={{ width: CELL_WIDTH }}>
+                        {cell ? (
+                          <span
+                            className={cn(
+                              'w-full rounded px-1 py-1 text-center text-xs font-medium truncate',
+                              STATUS_CLASSES[cell.status]
+                            )}
+                            title={cell.expiryDate ? `Expires ${format(new Date(cell.expiryDate), 'dd MMM yyyy')}` : undefined}
+                          >
+                            {MATRIX_STATUS_LABELS[cell.status]}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <AssignRenewalCourseDialog
+        open={courseDialogOpen}
+        onOpenChange={setCourseDialogOpen}
+        employeeCount={selectedRows.length}
+        onAssign={handleAssignCourse}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState } from 'react';
-import { format, addDays } from 'date-fns';
-import { CalendarIcon, ShieldAlert } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, addDays, parseISO } from 'date-fns';
+import { CalendarIcon, Clock, ShieldAlert } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -23,6 +24,9 @@ import { cn } from '@/lib/utils';
 import { CertificationStatus } from '@/services/complianceService';
 import { complianceService } from '@/services/complianceService';
 import { useComplianceEnforcement } from '@/hooks/useComplianceEnforcement';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { DEFAULT_MAX_OVERRIDE_DAYS, overrideReviewBlocker } from '@/lib/complianceOverrides';
 
 interface ComplianceOverrideDialogProps {
   open: boolean;
@@ -47,12 +51,47 @@ export function ComplianceOverrideDialog({
 }: ComplianceOverrideDialogProps) {
   const [reason, setReason] = useState('');
   const [expiresAt, setExpiresAt] = useState<Date | undefined>(addDays(new Date(), 7));
+  const [reviewNotes, setReviewNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
-  const { createOverride } = useComplianceEnforcement();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { createOverride, reviewOverride } = useComplianceEnforcement();
+
+  const requestKey = ['compliance-override-request', employeeId, contextType, contextId];
+  const { data: pendingRequest, isLoading: requestLoading } = useQuery({
+    queryKey: requestKey,
+    queryFn: () => complianceService.getOverrideRequest(employeeId, contextType, contextId),
+    enabled: open,
+  });
+
+  const blockedTypes = blockingReasons.map(c => c.type);
+  const { data: maxDays = DEFAULT_MAX_OVERRIDE_DAYS } = useQuery({
+    queryKey: ['compliance-override-max-days', employeeId, blockedTypes],
+    queryFn: () => complianceService.getMaxOverrideDays(employeeId, blockedTypes),
+    enabled: open,
+  });
 
   const minDate = new Date();
-  const maxDate = addDays(new Date(), 14);
+  const maxDate = addDays(new Date(), maxDays);
+
+  // Some certificate types allow a shorter override than the default pick
+  useEffect(() => {
+    setExpiresAt(current => {
+      const limit = addDays(new Date(), maxDays);
+      return current && current > limit ? limit : current;
+    });
+  }, [maxDays]);
+
+  const reviewBlocker = pendingRequest && user
+    ? overrideReviewBlocker(pendingRequest, { userId: user.id, isAdmin })
+    : null;
+
+  const refreshRequests = () => {
+    queryClient.invalidateQueries({ queryKey: requestKey });
+    queryClient.invalidateQueries({ queryKey: ['compliance-overrides-pending'] });
+  };
 
   const handleSubmit = async () => {
     if (!reason.trim()) return;
@@ -71,25 +110,127 @@ export function ComplianceOverrideDialog({
 
       if (success) {
         setReason('');
-        setExpiresAt(addDays(new Date(), 7));
-        onSuccess();
+        setExpiresAt(addDays(new Date(), Math.min(7, maxDays)));
+        refreshRequests();
       }
     } finally {
       setSubmitting(false);
     }
   };
 
+  const handleReview = async (decision: 'approved' | 'rejected') => {
+    if (!pendingRequest) return;
+
+    setSubmitting(true);
+    try {
+      const success = await reviewOverride(pendingRequest.id, decision, reviewNotes);
+      if (success) {
+        setReviewNotes('');
+        refreshRequests();
+        if (decision === 'approved') onSuccess();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (pendingRequest) {
+    const isPending = pendingRequest.approval_status === 'pending';
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-warning" />
+              {isPending ? 'Override Pending Approval' : 'Override Approved'}
+            </DialogTitle>
+            <DialogDescription>
+              {isPending ? (
+                <>
+                  An override for <strong>{employeeName}</strong> has been requested. It takes effect
+                  once a second admin approves it.
+                </>
+              ) : (
+                <>
+                  The override for <strong>{employeeName}</strong> is in effect.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-4 text-sm">
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Requested by</span>
+              <span className="font-medium text-right">
+                {pendingRequest.override_by_name} · {format(parseISO(pendingRequest.created_at), 'PPp')}
+              </span>
+            </div>
+            {pendingRequest.reviewed_by_name && (
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Approved by</span>
+                <span className="font-medium text-right">{pendingRequest.reviewed_by_name}</span>
+              </div>
+            )}
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Expires</span>
+              <span className="font-medium">{format(parseISO(pendingRequest.expires_at), 'PPP')}</span>
+            </div>
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Reason</span>
+              <p className="rounded-md bg-muted/50 p-2">{pendingRequest.reason}</p>
+            </div>
+
+            {isPending && !reviewBlocker && (
+              <div className="space-y-2 pt-2">
+                <Label htmlFor="review-notes">Approval notes</Label>
+                <Textarea
+                  id="review-notes"
+                  placeholder="Optional notes for the audit trail..."
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            )}
+            {isPending && reviewBlocker && (
+              <p className="rounded-md bg-warning/10 p-3 text-muted-foreground">{reviewBlocker}.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            {isPending && !reviewBlocker && (
+              <>
+                <Button variant="outline" onClick={() => handleReview('rejected')} disabled={submitting}>
+                  Reject
+                </Button>
+                <Button variant="destructive" onClick={() => handleReview('approved')} disabled={submitting}>
+                  {submitting ? 'Saving...' : 'Approve Override'}
+                </Button>
+              </>
+            )}
+            {!isPending && (
+              <Button onClick={onSuccess}>Continue</Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ShieldAlert className="h-5 w-5 text-destructive" />
-            Create Compliance Override
+            Request Compliance Override
           </DialogTitle>
           <DialogDescription>
-            Override compliance requirements for <strong>{employeeName}</strong>.
-            This action will be logged for audit purposes.
+            Request an override of compliance requirements for <strong>{employeeName}</strong>.
+            A second admin must approve it before it takes effect.
           </DialogDescription>
         </DialogHeader>
 
@@ -157,7 +298,7 @@ export function ComplianceOverrideDialog({
               </PopoverContent>
             </Popover>
             <p className="text-xs text-muted-foreground">
-              Maximum override duration is 14 days. Override will automatically expire.
+              Maximum override duration for these certifications is {maxDays} days. Override will automatically expire.
             </p>
           </div>
 
@@ -165,7 +306,8 @@ export function ComplianceOverrideDialog({
           <div className="rounded-md bg-destructive/10 p-3 text-sm">
             <p className="font-medium text-destructive">Important:</p>
             <ul className="list-disc list-inside mt-1 text-muted-foreground">
-              <li>This override will be recorded in the audit trail</li>
+              <li>This request and its approval will be recorded in the audit trail</li>
+              <li>Assignment stays blocked until a different admin approves it</li>
               <li>Assignment will be blocked again after expiry</li>
               <li>You remain responsible for ensuring safety compliance</li>
             </ul>
@@ -178,10 +320,10 @@ export function ComplianceOverrideDialog({
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={!reason.trim() || !expiresAt || submitting}
+            disabled={!reason.trim() || !expiresAt || submitting || requestLoading}
             variant="destructive"
           >
-            {submitting ? 'Creating...' : 'Create Override'}
+            {submitting ? 'Requesting...' : 'Request Override'}
           </Button>
         </DialogFooter>
       </DialogContent>
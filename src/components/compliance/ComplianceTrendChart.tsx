@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO, subDays } from 'date-fns';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { complianceService } from '@/services/complianceService';
+import { buildDepartmentTrend } from '@/lib/complianceHistory';
+
+const LINE_COLOURS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+];
+
+const RANGE_OPTIONS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+];
+
+interface ComplianceTrendChartProps {
+  // Department filter from the page; 'all' shows every department
+  department: string;
+}
+
+/**
+ * Share of each department's workers who were compliant on each day,
+ * from the nightly compliance snapshots.
+ */
+export function ComplianceTrendChart({ department }: ComplianceTrendChartProps) {
+  const [rangeDays, setRangeDays] = useState('90');
+
+  const to = format(new Date(), 'yyyy-MM-dd');
+  const from = format(subDays(new Date(), Number(rangeDays)), 'yyyy-MM-dd');
+
+  const { data: snapshots = [], isLoading } = useQuery({
+    queryKey: ['compliance-trend', from, to],
+    queryFn: () => complianceService.getComplianceTrend(from, to),
+  });
+
+  const trend = useMemo(
+    () => buildDepartmentTrend(
+      department === 'all' ? snapshots : snapshots.filter((s) => s.department === department)
+    ),
+    [snapshots, department]
+  );
+
+  const data = trend.points.map((point) => ({
+    ...point,
+    label: format(parseISO(point.date), 'd MMM'),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Compliance Trend</CardTitle>
+            <CardDescription>Percentage of workers compliant each day, by department</CardDescription>
+          </div>
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+            Loading history...
+          </div>
+        ) : data.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+            No compliance history recorded for this period yet
+          </div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis
+                  dataKey="label"
+                  className="text-xs fill-muted-foreground"
+                  tick={{ fontSize: 12 }}
+                  minTickGap={24}
+                />
+                <YAxis
+                  className="text-xs fill-muted-foreground"
+                  tick={{ fontSize: 12 }}
+                  domain={[0, 100]}
+                  unit="%"
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value: number, name: string) => [`${value}%`, name]}
+                />
+                <Legend />
+                {trend.departments.map((name, index) => (
+                  <Line
+                    key={name}
+                    type="monotone"
+                    dataKey={name}
+                    name={name}
+                    stroke={LINE_COLOURS[index % LINE_COLOURS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Mail, Bell } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { complianceService } from '@/services/complianceService';
+import { ALERT_STAGE_LABELS, type ComplianceAlertStage } from '@/lib/complianceAlerts';
+
+interface ExpiryAlertLogProps {
+  searchQuery: string;
+  department: string;
+}
+
+/**
+ * Alerts sent by the nightly expiry digest, so admins can see who was
+ * chased about what and when.
+ */
+export function ExpiryAlertLog({ searchQuery, department }: ExpiryAlertLogProps) {
+  const { data: alerts = [], isLoading } = useQuery({
+    queryKey: ['compliance-expiry-alerts'],
+    queryFn: () => complianceService.getExpiryAlerts(),
+  });
+
+  const filtered = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return alerts.filter((alert) => {
+      const name = alert.employee ? `${alert.employee.first_name} ${alert.employee.last_name}` : '';
+      const certName = complianceService.getCertificationDisplayName(alert.certification_type);
+      const matchesSearch =
+        !query || name.toLowerCase().includes(query) || certName.toLowerCase().includes(query);
+      const matchesDepartment = department === 'all' || alert.employee?.department === department;
+      return matchesSearch && matchesDepartment;
+    });
+  }, [alerts, searchQuery, department]);
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead>Sent</TableHead>
+            <TableHead>Employee</TableHead>
+            <TableHead>Certification</TableHead>
+            <TableHead>Expiry</TableHead>
+            <TableHead>Stage</TableHead>
+            <TableHead>Delivered</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                Loading alerts...
+              </TableCell>
+            </TableRow>
+          ) : filtered.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                No expiry alerts have been sent
+              </TableCell>
+            </TableRow>
+          ) : (
+            filtered.map((alert) => (
+              <TableRow key={alert.id}>
+                <TableCell className="text-muted-foreground">
+                  {format(parseISO(alert.sent_at), 'dd MMM yyyy')}
+                </TableCell>
+                <TableCell className="font-medium">
+                  {alert.employee ? `${alert.employee.first_name} ${alert.employee.last_name}` : 'Unknown'}
+                </TableCell>
+                <TableCell>{complianceService.getCertificationDisplayName(alert.certification_type)}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {format(parseISO(alert.expiry_date), 'dd MMM yyyy')}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={alert.stage === 'expired' ? 'destructive' : 'outline'}>
+                    {ALERT_STAGE_LABELS[alert.stage as ComplianceAlertStage] || alert.stage}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Bell className="h-3.5 w-3.5" />
+                      {alert.notified_user_ids.length}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Mail className="h-3.5 w-3.5" />
+                      {alert.emailed_addresses.length}
+                    </span>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
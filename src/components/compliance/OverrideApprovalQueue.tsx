@@ -0,0 +1,94 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Check, ShieldAlert, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { complianceService, type CertificationStatus } from '@/services/complianceService';
+import { useComplianceEnforcement } from '@/hooks/useComplianceEnforcement';
+import { useAuth } from '@/hooks/useAuth';
+import { overrideReviewBlocker } from '@/lib/complianceOverrides';
+
+/**
+ * Override requests waiting for a second admin. Hidden when there are none.
+ */
+export function OverrideApprovalQueue() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { reviewOverride } = useComplianceEnforcement();
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ['compliance-overrides-pending'],
+    queryFn: () => complianceService.getPendingOverrides(),
+  });
+
+  if (requests.length === 0) return null;
+
+  const handleReview = async (overrideId: string, decision: 'approved' | 'rejected') => {
+    const success = await reviewOverride(overrideId, decision);
+    if (success) {
+      queryClient.invalidateQueries({ queryKey: ['compliance-overrides-pending'] });
+      queryClient.invalidateQueries({ queryKey: ['compliance-override-request'] });
+    }
+  };
+
+  return (
+    <Card className="border-warning/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-warning" />
+          Overrides Awaiting Approval ({requests.length})
+        </CardTitle>
+        <CardDescription>
+          Each override needs a second admin, other than the requester, before it takes effect.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => {
+          const blocker = user ? overrideReviewBlocker(request, { userId: user.id, isAdmin: true }) : null;
+          const blocked = (request.blocked_certifications as unknown as CertificationStatus[]) || [];
+          return (
+            <div
+              key={request.id}
+              className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 p-3 rounded-lg border border-border"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium">
+                  {request.employee ? `${request.employee.first_name} ${request.employee.last_name}` : 'Unknown'}
+                  <span className="text-muted-foreground font-normal">
+                    {' · '}until {format(parseISO(request.expires_at), 'd MMM yyyy')}
+                  </span>
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {blocked.map((cert) => (
+                    <Badge key={cert.type} variant="outline" className="text-xs">
+                      {complianceService.getCertificationDisplayName(cert.type)}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm">{request.reason}</p>
+                <p className="text-xs text-muted-foreground">
+                  Requested by {request.override_by_name} on {format(parseISO(request.created_at), 'd MMM yyyy, HH:mm')}
+                </p>
+              </div>
+              {blocker ? (
+                <p className="text-xs text-muted-foreground sm:max-w-48">{blocker}</p>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleReview(request.id, 'rejected')}>
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button size="sm" onClick={() => handleReview(request.id, 'approved')}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { complianceService } from '@/services/complianceService';
+import {
+  VERIFICATION_METHOD_LABELS,
+  defaultVerificationMethod,
+  verificationProblem,
+  verificationReferenceRequired,
+  type VerificationMethod,
+} from '@/lib/certificationVerification';
+import type { EmployeeCertificationDB } from '@/types/database';
+
+const NO_DOCUMENT = '__none__';
+
+interface VerifyCertificationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  certification: EmployeeCertificationDB | null;
+  certificationLabel: string;
+  documents: Array<{ id: string; file_name: string }>;
+  onVerified?: () => void;
+}
+
+export function VerifyCertificationDialog({
+  open,
+  onOpenChange,
+  certification,
+  certificationLabel,
+  documents,
+  onVerified,
+}: VerifyCertificationDialogProps) {
+  const [method, setMethod] = useState<VerificationMethod>('sighted_original');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [verifiedOn, setVerifiedOn] = useState('');
+  const [documentId, setDocumentId] = useState(NO_DOCUMENT);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !certification) return;
+    setMethod(defaultVerificationMethod(certification.type));
+    setReferenceNumber('');
+    setVerifiedOn(format(new Date(), 'yyyy-MM-dd'));
+    setDocumentId(
+      certification.document_id && documents.some(d => d.id === certification.document_id)
+        ? certification.document_id
+        : NO_DOCUMENT
+    );
+    setNotes('');
+    setError(null);
+  }, [open, certification, documents]);
+
+  if (!certification) return null;
+
+  const handleSubmit = async () => {
+    const input = { method, referenceNumber, verifiedOn };
+    const problem = verificationProblem(input, format(new Date(), 'yyyy-MM-dd'));
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await complianceService.verifyCertification({
+      ...input,
+      certificationId: certification.id,
+      documentId: documentId === NO_DOCUMENT ? null : documentId,
+      notes,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to verify certification');
+      return;
+    }
+
+    toast({
+      title: 'Certification verified',
+      description: `${certificationLabel} now counts towards compliance.`,
+    });
+    onVerified?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Verify {certificationLabel}
+          </DialogTitle>
+          <DialogDescription>
+            Record how this certificate was checked. It won't count towards compliance until it has been verified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Verification Method *</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as VerificationMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                {(Object.keys(VERIFICATION_METHOD_LABELS) as VerificationMethod[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {VERIFICATION_METHOD_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="verification-reference">
+              Reference Number {verificationReferenceRequired(method) && '*'}
+            </Label>
+            <Input
+              id="verification-reference"
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+              placeholder="e.g., clearance or check number"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="verification-date">Verification Date *</Label>
+            <Input
+              id="verification-date"
+              type="date"
+              value={verifiedOn}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setVerifiedOn(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Supporting Document</Label>
+            <Select value={documentId} onValueChange={setDocumentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                <SelectItem value={NO_DOCUMENT}>None</SelectItem>
+                {documents.map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>
+                    {doc.file_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="verification-notes">Notes</Label>
+            <Textarea
+              id="verification-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting} className="gradient-primary">
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Verification
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { History, FileText, Pen, Eye, Send, CheckCircle, XCircle } from 'lucide-react';
+import { History, FileText, Pen, Eye, Send, CheckCircle, XCircle, Bell, Clock } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ContractAuditLog } from '@/types/contracts';
@@ -13,6 +13,11 @@ const actionIcons: Record<string, typeof FileText> = {
   viewed: Eye,
   sent: Send,
   signed: Pen,
+  countersigned: Pen,
+  witnessed: Pen,
+  completed: CheckCircle,
+  reminder_sent: Bell,
+  expired: Clock,
   approved: CheckCircle,
   rejected: XCircle,
   voided: XCircle,
@@ -23,6 +28,11 @@ const actionColors: Record<string, string> = {
   viewed: 'text-gray-500 bg-gray-500/10',
   sent: 'text-purple-500 bg-purple-500/10',
   signed: 'text-green-500 bg-green-500/10',
+  countersigned: 'text-green-500 bg-green-500/10',
+  witnessed: 'text-green-500 bg-green-500/10',
+  completed: 'text-green-500 bg-green-500/10',
+  reminder_sent: 'text-purple-500 bg-purple-500/10',
+  expired: 'text-red-500 bg-red-500/10',
   approved: 'text-green-500 bg-green-500/10',
   rejected: 'text-red-500 bg-red-500/10',
   voided: 'text-red-500 bg-red-500/10',
@@ -77,7 +87,7 @@ export function ContractAuditTrail({ auditLogs }: ContractAuditTrailProps) {
                   {/* Content */}
                   <div className="flex-1 pb-4">
                     <div className="flex items-center justify-between gap-2">
-                      <p className="text-sm font-medium capitalize">{log.action}</p>
+                      <p className="text-sm font-medium capitalize">{log.action.replace(/_/g, ' ')}</p>
                       <time className="text-xs text-muted-foreground">
                         {format(new Date(log.created_at), 'MMM d, yyyy h:mm a')}
                       </time>
@@ -84,6 +84,9 @@ export function ContractCard({ contract, onView, onSign }: ContractCardProps) {
           {contract.signed_at && (
             <> • Signed {format(new Date(contract.signed_at), 'MMM d, yyyy')}</>
           )}
+          {contract.status === 'pending_signature' && contract.expires_at && (
+            <> • Sign by {format(new Date(contract.expires_at), 'MMM d, yyyy')}</>
+          )}
         </p>
       </CardContent>
     </Card>
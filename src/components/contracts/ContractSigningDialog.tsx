@@ -14,11 +14,13 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SignaturePad } from './SignaturePad';
-import { Contract } from '@/types/contracts';
+import { Contract, ContractSigner, SIGNER_ROLE_LABELS } from '@/types/contracts';
 import { format } from 'date-fns';
 
 interface ContractSigningDialogProps {
   contract: Contract | null;
+  // Whose turn it is; the employee when not known
+  signer?: ContractSigner | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSign: (contractId: string, signatureData: string, signatureType: 'drawn' | 'typed') => Promise<void>;
@@ -26,6 +28,7 @@ interface ContractSigningDialogProps {
 
 export function ContractSigningDialog({ 
   contract, 
+  signer,
   open, 
   onOpenChange,
   onSign 
@@ -37,6 +40,9 @@ export function ContractSigningDialog({
 
   if (!contract) return null;
 
+  const signerName = signer?.name ?? contract.employee_name;
+  const isEmployee = !signer || signer.role === 'employee';
+
   const handleSignatureChange = (data: string, type: 'drawn' | 'typed') => {
     setSignatureData(data);
     setSignatureType(type);
@@ -67,10 +73,12 @@ export function ContractSigningDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileSignature className="h-5 w-5 text-primary" />
-            Sign Employment Contract
+            {isEmployee ? 'Sign Employment Contract' : `${SIGNER_ROLE_LABELS[signer.role]} Signature`}
           </DialogTitle>
           <DialogDescription>
-            Review and sign your employment contract with {contract.title}
+            {isEmployee
+              ? `Review and sign your employment contract with ${contract.title}`
+              : `Review and sign ${contract.title} for ${contract.employee_name} as ${signerName}`}
           </DialogDescription>
         </DialogHeader>
 
@@ -114,7 +122,7 @@ export function ContractSigningDialog({
             <Label className="text-sm font-medium">Your Signature</Label>
             <SignaturePad 
               onSignatureChange={handleSignatureChange}
-              signerName={contract.employee_name}
+              signerName={signerName}
             />
           </div>
 
@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { diffLines } from '@/lib/contractTemplates';
+import { cn } from '@/lib/utils';
+import type { ContractTemplateVersion } from '@/types/contracts';
+
+interface ContractTemplateDiffProps {
+  from: ContractTemplateVersion;
+  to: ContractTemplateVersion;
+}
+
+const LINE_STYLES = {
+  same: 'text-muted-foreground',
+  added: 'bg-success/10 text-success',
+  removed: 'bg-destructive/10 text-destructive line-through',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+export function ContractTemplateDiff({ from, to }: ContractTemplateDiffProps) {
+  const lines = useMemo(() => diffLines(from.content, to.content), [from.content, to.content]);
+  const added = lines.filter(l => l.type === 'added').length;
+  const removed = lines.filter(l => l.type === 'removed').length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        v{from.version_number} → v{to.version_number}: {added} line{added === 1 ? '' : 's'} added,{' '}
+        {removed} line{removed === 1 ? '' : 's'} removed
+      </p>
+      <ScrollArea className="h-96 border border-border rounded-lg">
+        <pre className="p-3 text-xs font-mono whitespace-pre-wrap">
+          {lines.map((line, index) => (
+            <div key={index} className={cn('px-1', LINE_STYLES[line.type])}>
+              <span className="select-none mr-2">{LINE_MARKERS[line.type]}</span>
+              {line.text || ' '}
+            </div>
+          ))}
+        </pre>
+      </ScrollArea>
+    </div>
+  );
+}
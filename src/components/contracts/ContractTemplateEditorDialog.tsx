@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { Braces, Loader2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MERGE_FIELDS, unknownMergeFields } from '@/lib/contractTemplates';
+import type { ContractTemplate } from '@/types/contracts';
+
+const starterContent = `EMPLOYMENT CONTRACT
+
+This Employment Agreement ("Agreement") is entered into between {{organisation.name}} ("Employer") and {{employee.full_name}} ("Employee").
+
+1. POSITION AND DUTIES
+   The Employee is employed as {{position}} on a {{employee.employment_type}} basis, starting on {{employee.start_date}}.
+
+2. COMPENSATION
+   The Employee will be paid {{pay_rate}} per hour, classified under {{award_classification}}.
+
+3. CONFIDENTIALITY
+   The Employee agrees to maintain strict confidentiality of all client information, business operations, and proprietary information.
+
+4. TERMINATION
+   Either party may terminate this agreement with appropriate notice as required by the relevant Award or legislation.`;
+
+interface ContractTemplateEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Publishing a new version of this template; a new template when absent
+  template?: ContractTemplate | null;
+  initialContent?: string;
+  isSaving: boolean;
+  onCreate: (input: { name: string; description?: string; content: string }) => Promise<unknown>;
+  onPublish: (input: { template: ContractTemplate; content: string; changeNote?: string }) => Promise<unknown>;
+}
+
+export function ContractTemplateEditorDialog({
+  open,
+  onOpenChange,
+  template,
+  initialContent,
+  isSaving,
+  onCreate,
+  onPublish,
+}: ContractTemplateEditorDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [content, setContent] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setDescription('');
+    setChangeNote('');
+    setContent(initialContent ?? starterContent);
+  }, [open, initialContent]);
+
+  const unknownFields = unknownMergeFields(content);
+  const unchanged = !!template && content.trim() === (initialContent ?? '').trim();
+  const canSave =
+    !isSaving &&
+    content.trim().length >= 10 &&
+    unknownFields.length === 0 &&
+    (template ? !unchanged && !!changeNote.trim() : !!name.trim());
+
+  const handleSave = async () => {
+    try {
+      if (template) {
+        await onPublish({ template, content, changeNote });
+      } else {
+        await onCreate({ name, description, content });
+      }
+      onOpenChange(false);
+    } catch {
+      // The hook has already shown the error
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {template ? `Publish ${template.name} v${template.current_version + 1}` : 'New Contract Template'}
+          </DialogTitle>
+          <DialogDescription>
+            {template
+              ? 'Contracts already generated keep the version they were made from.'
+              : 'Merge fields are filled in from the employee, position and award when a contract is created.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!template && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template_name">Name *</Label>
+                <Input
+                  id="template_name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Casual Support Worker"
+                  maxLength={200}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template_description">Description</Label>
+                <Input
+                  id="template_description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Standard casual contract under SCHADS"
+                  maxLength={500}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Braces className="h-4 w-4" />
+              Merge Fields
+            </Label>
+            <div className="flex flex-wrap gap-1">
+              {MERGE_FIELDS.map((field) => (
+                <Badge
+                  key={field.key}
+                  variant="outline"
+                  className="cursor-pointer font-mono text-xs"
+                  title={`Insert ${field.label.toLowerCase()}`}
+                  onClick={() => setContent(`${content}{{${field.key}}}`)}
+                >
+                  {`{{${field.key}}}`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template_content">Content *</Label>
+            <Textarea
+              id="template_content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="min-h-[300px] font-mono text-xs"
+              maxLength={50000}
+            />
+            {unknownFields.length > 0 && (
+              <p className="text-xs text-destructive">
+                Unknown merge fields: {unknownFields.map(f => `{{${f}}}`).join(', ')}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {content.length.toLocaleString()} / 50,000 characters
+            </p>
+          </div>
+
+          {template && (
+            <div className="space-y-2">
+              <Label htmlFor="change_note">What changed *</Label>
+              <Input
+                id="change_note"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder="Updated the confidentiality clause"
+                maxLength={500}
+              />
+              {unchanged && (
+                <p className="text-xs text-muted-foreground">Edit the content to publish a new version.</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button className="gradient-primary" onClick={handleSave} disabled={!canSave}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              {template ? 'Publish Version' : 'Create Template'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Archive, FileText, GitCompare, Loader2, Plus, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ContractTemplateDiff } from '@/components/contracts/ContractTemplateDiff';
+import { ContractTemplateEditorDialog } from '@/components/contracts/ContractTemplateEditorDialog';
+import { useContractTemplates, useContractTemplateVersions } from '@/hooks/useContractTemplates';
+import { cn } from '@/lib/utils';
+
+interface ContractTemplateLibraryProps {
+  // Managers can read the library; only admins change it
+  canEdit: boolean;
+}
+
+/**
+ * The organisation's contract templates, their published versions and a
+ * comparison between any two versions.
+ */
+export function ContractTemplateLibrary({ canEdit }: ContractTemplateLibraryProps) {
+  const { templates, isLoading, isSaving, createTemplate, publishVersion, archiveTemplate } = useContractTemplates();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [viewedVersion, setViewedVersion] = useState<number | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+
+  const selected = templates.find(t => t.id === selectedId) ?? null;
+  const { versions, isLoading: versionsLoading } = useContractTemplateVersions(selected?.id);
+  const latest = versions[0] ?? null;
+
+  useEffect(() => {
+    if (!selectedId && templates.length > 0) setSelectedId(templates[0].id);
+  }, [templates, selectedId]);
+
+  // Default to the latest version, compared with the one before it
+  useEffect(() => {
+    setViewedVersion(versions[0]?.version_number ?? null);
+    setCompareTo(versions[0]?.version_number ?? null);
+    setCompareFrom(versions[1]?.version_number ?? null);
+  }, [versions]);
+
+  const viewed = versions.find(v => v.version_number === viewedVersion) ?? latest;
+  const from = versions.find(v => v.version_number === compareFrom);
+  const to = versions.find(v => v.version_number === compareTo);
+
+  const openEditor = (asNewVersion: boolean) => {
+    setPublishing(asNewVersion);
+    setEditorOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Templates</CardTitle>
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={() => openEditor(false)}>
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {templates.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">No templates yet</p>
+          )}
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => setSelectedId(template.id)}
+              className={cn(
+                'w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted',
+                template.id === selectedId && 'bg-muted'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className={cn('flex-1 truncate', template.is_archived && 'text-muted-foreground')}>
+                  {template.name}
+                </span>
+                <Badge variant="outline" className="text-xs">v{template.current_version}</Badge>
+              </div>
+              {template.is_archived && <p className="text-xs text-muted-foreground ml-6">Archived</p>}
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selected ? (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div>
+                  <CardTitle className="text-base">{selected.name}</CardTitle>
+                  <CardDescription>
+                    {selected.description || 'No description'} • Current version v{selected.current_version}
+                  </CardDescription>
+                </div>
+                {canEdit && !selected.is_archived && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => archiveTemplate(selected)} disabled={isSaving}>
+                      <Archive className="h-4 w-4 mr-1" />
+                      Archive
+                    </Button>
+                    <Button size="sm" onClick={() => openEditor(true)} disabled={!latest}>
+                      <Upload className="h-4 w-4 mr-1" />
+                      New Version
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {versionsLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              ) : (
+                <div className="space-y-1">
+                  {versions.map((version) => (
+                    <button
+                      key={version.id}
+                      type="button"
+                      onClick={() => setViewedVersion(version.version_number)}
+                      className={cn(
+                        'w-full flex items-center gap-3 rounded-md px-3 py-2 text-left text-sm hover:bg-muted',
+                        version.id === viewed?.id && 'bg-muted'
+                      )}
+                    >
+                      <Badge variant="secondary" className="text-xs">v{version.version_number}</Badge>
+                      <span className="flex-1 truncate">{version.change_note || 'No note'}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {version.created_by_name ? `${version.created_by_name} • ` : ''}
+                        {format(new Date(version.created_at), 'dd MMM yyyy')}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {viewed && (
+                <ScrollArea className="h-72 border border-border rounded-lg bg-muted/30">
+                  <div className="p-4 text-sm font-mono whitespace-pre-wrap">{viewed.content}</div>
+                </ScrollArea>
+              )}
+            </CardContent>
+          </Card>
+
+          {versions.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <GitCompare className="h-4 w-4" />
+                  Compare Versions
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {([
+                    ['From', compareFrom, setCompareFrom],
+                    ['To', compareTo, setCompareTo],
+                  ] as const).map(([label, value, setValue]) => (
+                    <div key={label} className="space-y-2">
+                      <Label>{label}</Label>
+                      <Select value={value ? String(value) : undefined} onValueChange={(v) => setValue(Number(v))}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Version" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover">
+                          {versions.map((version) => (
+                            <SelectItem key={version.id} value={String(version.version_number)}>
+                              v{version.version_number}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {from && to && <ContractTemplateDiff from={from} to={to} />}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            {canEdit ? 'Create a template to start your contract library' : 'No contract templates have been set up'}
+          </CardContent>
+        </Card>
+      )}
+
+      <ContractTemplateEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        template={publishing ? selected : null}
+        initialContent={publishing ? latest?.content : undefined}
+        isSaving={isSaving}
+        onCreate={async (input) => {
+          const template = await createTemplate(input);
+          setSelectedId(template.id);
+        }}
+        onPublish={publishVersion}
+      />
+    </div>
+  );
+}
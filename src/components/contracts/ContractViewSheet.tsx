@@ -1,4 +1,5 @@
-import { FileText, Download, Mail, Clock, CheckCircle } from 'lucide-react';
+import { useState } from 'react';
+import { FileText, Download, Mail, Clock, CheckCircle, Circle, CalendarClock } from 'lucide-react';
 import {
   Sheet,
   SheetContent,
@@ -11,15 +12,26 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ContractAuditTrail } from './ContractAuditTrail';
-import { Contract, Signature, ContractAuditLog, ContractStatus } from '@/types/contracts';
+import {
+  Contract,
+  Signature,
+  ContractAuditLog,
+  ContractSigner,
+  ContractStatus,
+  SIGNER_ROLE_LABELS,
+} from '@/types/contracts';
+import { currentSigner } from '@/lib/contractSigning';
 import { format } from 'date-fns';
 
 interface ContractViewSheetProps {
   contract: Contract | null;
-  signature: Signature | null;
+  signers: ContractSigner[];
+  signatures: Signature[];
   auditLogs: ContractAuditLog[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Omitted for users who can't chase signers
+  onRemind?: (contract: Contract) => Promise<void>;
 }
 
 const statusConfig: Record<ContractStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
@@ -32,14 +44,29 @@ const statusConfig: Record<ContractStatus, { label: string; variant: 'default' |
 
 export function ContractViewSheet({ 
   contract, 
-  signature, 
+  signers,
+  signatures,
   auditLogs, 
   open, 
-  onOpenChange 
+  onOpenChange,
+  onRemind,
 }: ContractViewSheetProps) {
+  const [isReminding, setIsReminding] = useState(false);
+
   if (!contract) return null;
 
   const config = statusConfig[contract.status];
+  const next = contract.status === 'pending_signature' ? currentSigner(signers) : null;
+
+  const handleRemind = async () => {
+    if (!onRemind) return;
+    setIsReminding(true);
+    try {
+      await onRemind(contract);
+    } finally {
+      setIsReminding(false);
+    }
+  };
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -95,6 +122,14 @@ export function ContractViewSheet({
                     <p className="font-medium">${contract.pay_rate}/hr</p>
                   </div>
                 )}
+                {contract.template_version?.template && (
+                  <div>
+                    <p className="text-muted-foreground">Template</p>
+                    <p className="font-medium">
+                      {contract.template_version.template.name} v{contract.template_version.version_number}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -108,50 +143,89 @@ export function ContractViewSheet({
               </div>
             </div>
 
-            {/* Signature Section */}
-            {signature && (
-              <>
-                <Separator />
-                <div className="space-y-3">
-                  <h3 className="font-semibold text-sm flex items-center gap-2">
-                    <CheckCircle className="h-4 w-4 text-primary" />
-                    Signature
-                  </h3>
-                  <div className="p-4 rounded-lg border border-border bg-background">
-                    <div className="space-y-3">
-                      <div className="flex justify-center">
-                        <img 
-                          src={signature.signature_data} 
-                          alt="Signature" 
-                          className="max-h-20 object-contain"
-                        />
-                      </div>
-                      <Separator />
-                      <div className="grid grid-cols-2 gap-2 text-xs">
-                        <div>
-                          <p className="text-muted-foreground">Signer</p>
-                          <p className="font-medium">{signature.signer_name}</p>
-                        </div>
-                        <div>
-                          <p className="text-muted-foreground">Date Signed</p>
-                          <p className="font-medium">{format(new Date(signature.signed_at), 'MMM d, yyyy h:mm a')}</p>
-                        </div>
-                        <div>
-                          <p className="text-muted-foreground">Signature Type</p>
-                          <p className="font-medium capitalize">{signature.signature_type}</p>
-                        </div>
-                        {signature.ip_address && (
-                          <div>
-                            <p className="text-muted-foreground">IP Address</p>
-                            <p className="font-medium">{signature.ip_address}</p>
+            <Separator />
+
+            {/* Signing Order */}
+            <div className="space-y-3">
+              <h3 className="font-semibold text-sm">Signing Order</h3>
+              {contract.expires_at && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <CalendarClock className="h-3 w-3" />
+                  Must be signed by {format(new Date(contract.expires_at), 'MMM d, yyyy h:mm a')}
+                </p>
+              )}
+              {signers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No signers have been added</p>
+              ) : (
+                <div className="space-y-2">
+                  {signers.map((signer) => {
+                    const signature = signatures.find((s) => s.signer_id === signer.id);
+                    const isNext = next?.id === signer.id;
+
+                    return (
+                      <div key={signer.id} className="p-3 rounded-lg border border-border bg-background space-y-3">
+                        <div className="flex items-start gap-3">
+                          {signer.status === 'signed' ? (
+                            <CheckCircle className="h-4 w-4 mt-0.5 text-primary" />
+                          ) : (
+                            <Circle className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium">
+                              {signer.signing_order}. {signer.name}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">{signer.email}</p>
+                            {isNext && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {signer.notified_at
+                                  ? `Link sent ${format(new Date(signer.notified_at), 'MMM d')}`
+                                  : 'Link not sent yet'}
+                                {signer.reminder_count > 0 && signer.last_reminded_at && (
+                                  <> • {signer.reminder_count} reminder{signer.reminder_count === 1 ? '' : 's'}, last {format(new Date(signer.last_reminded_at), 'MMM d')}</>
+                                )}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex flex-col items-end gap-1">
+                            <Badge variant="outline" className="text-xs">{SIGNER_ROLE_LABELS[signer.role]}</Badge>
+                            {isNext && <Badge className="text-xs">Awaiting signature</Badge>}
                           </div>
+                        </div>
+
+                        {signature && (
+                          <>
+                            <Separator />
+                            <div className="flex justify-center">
+                              <img 
+                                src={signature.signature_data} 
+                                alt={`Signature of ${signature.signer_name}`} 
+                                className="max-h-20 object-contain"
+                              />
+                            </div>
+                            <div className="grid grid-cols-2 gap-2 text-xs">
+                              <div>
+                                <p className="text-muted-foreground">Date Signed</p>
+                                <p className="font-medium">{format(new Date(signature.signed_at), 'MMM d, yyyy h:mm a')}</p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Signature Type</p>
+                                <p className="font-medium capitalize">{signature.signature_type}</p>
+                              </div>
+                              {signature.ip_address && (
+                                <div>
+                                  <p className="text-muted-foreground">IP Address</p>
+                                  <p className="font-medium">{signature.ip_address}</p>
+                                </div>
+                              )}
+                            </div>
+                          </>
                         )}
                       </div>
-                    </div>
-                  </div>
+                    );
+                  })}
                 </div>
-              </>
-            )}
+              )}
+            </div>
 
             <Separator />
 
@@ -180,10 +254,10 @@ export function ContractViewSheet({
             <Download className="h-4 w-4 mr-2" />
             Download PDF
           </Button>
-          {contract.status === 'pending_signature' && (
-            <Button variant="outline" className="flex-1">
+          {onRemind && next && (
+            <Button variant="outline" className="flex-1" onClick={handleRemind} disabled={isReminding}>
               <Mail className="h-4 w-4 mr-2" />
-              Resend
+              {isReminding ? 'Sending...' : `Remind ${next.name}`}
             </Button>
           )}
         </div>
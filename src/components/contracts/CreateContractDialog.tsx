@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { FilePlus, Send } from 'lucide-react';
+import { FilePlus, Loader2, Plus, RefreshCw, Send, Trash2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -21,6 +21,16 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { toast } from '@/hooks/use-toast';
 import { contractSchema, type ContractFormData } from '@/lib/validation-schemas';
+import { validateSigners } from '@/lib/contractSigning';
+import { buildMergeValues, findMergeFields, renderTemplate } from '@/lib/contractTemplates';
+import { useContractTemplates } from '@/hooks/useContractTemplates';
+import { contractTemplateService } from '@/services/contractTemplateService';
+import {
+  SIGNER_ROLE_LABELS,
+  type ContractSignerInput,
+  type ContractTemplate,
+  type ContractTemplateVersion,
+} from '@/types/contracts';
 
 interface CreateContractDialogProps {
   open: boolean;
@@ -36,9 +46,15 @@ interface CreateContractDialogProps {
     start_date?: string;
     pay_rate?: number;
     employment_type?: string;
-  }) => Promise<void>;
+    expires_at?: string;
+    template_version_id?: string;
+  }, countersigners: ContractSignerInput[]) => Promise<void>;
 }
 
+const NO_TEMPLATE = 'none';
+
+const newCountersigner = (): ContractSignerInput => ({ role: 'countersigner', name: '', email: '' });
+
 const defaultContractContent = `EMPLOYMENT CONTRACT
 
 This Employment Agreement ("Agreement") is entered into between Social Plus Support Work ("Employer") and the Employee named below.
@@ -86,10 +102,22 @@ export function CreateContractDialog({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState<ContractFormData>(initialFormData);
   const [errors, setErrors] = useState<Partial<Record<keyof ContractFormData, string>>>({});
+  // The employee always signs first; these sign after them, in this order
+  const [countersigners, setCountersigners] = useState<ContractSignerInput[]>([newCountersigner()]);
+  const [signingDeadline, setSigningDeadline] = useState('');
+  const [signingError, setSigningError] = useState<string | null>(null);
+  // The template version the content was generated from, if any
+  const [template, setTemplate] = useState<{ template: ContractTemplate; version: ContractTemplateVersion } | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const { orgId, activeTemplates } = useContractTemplates(open);
   useEffect(() => {
     if (!open) {
       setFormData(initialFormData);
       setErrors({});
+      setCountersigners([newCountersigner()]);
+      setSigningDeadline('');
+      setSigningError(null);
+      setTemplate(null);
       return;
     }
 
@@ -119,9 +147,88 @@ export function CreateContractDialog({
     }
     
     setErrors({});
+
+    const unfilled = findMergeFields(formData.content);
+    if (unfilled.length > 0) {
+      setErrors({ content: `Fill in or remove ${unfilled.map(f => `{{${f}}}`).join(', ')} before sending` });
+      return false;
+    }
+
+    const signerError = validateSigners([
+      { name: formData.employee_name, email: formData.employee_email },
+      ...countersigners,
+    ]);
+    if (signerError) {
+      setSigningError(signerError);
+      return false;
+    }
+    if (signingDeadline && signingDeadline <= new Date().toISOString().slice(0, 10)) {
+      setSigningError('The signing deadline must be after today');
+      return false;
+    }
+    setSigningError(null);
     return true;
   };
 
+  const updateCountersigner = (index: number, changes: Partial<ContractSignerInput>) => {
+    setCountersigners(countersigners.map((signer, i) => (i === index ? { ...signer, ...changes } : signer)));
+    setSigningError(null);
+  };
+
+  /**
+   * Fills the content from a template version using the details entered
+   * above, so they should be filled in first.
+   */
+  const applyTemplate = async (chosen: ContractTemplate, version?: ContractTemplateVersion) => {
+    if (!orgId) return;
+    setIsMerging(true);
+    try {
+      const [latest, context] = await Promise.all([
+        version ?? contractTemplateService.getLatestVersion(chosen),
+        contractTemplateService.getMergeContext(orgId, formData.employee_email, formData.position),
+      ]);
+      const { content, missing } = renderTemplate(latest.content, buildMergeValues({
+        ...context,
+        contract: {
+          employee_name: formData.employee_name,
+          employee_email: formData.employee_email,
+          position: formData.position,
+          department: formData.department || undefined,
+          employment_type: formData.employment_type,
+          start_date: formData.start_date || undefined,
+          pay_rate: formData.pay_rate ? parseFloat(formData.pay_rate) : undefined,
+        },
+      }));
+      setTemplate({ template: chosen, version: latest });
+      setFormData({ ...formData, content });
+      setErrors({ ...errors, content: undefined });
+      if (missing.length > 0) {
+        toast({
+          title: 'Some merge fields are empty',
+          description: `No value for ${missing.map(f => `{{${f}}}`).join(', ')}. Fill them in before sending.`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to apply contract template:', error);
+      toast({
+        title: 'Could not apply template',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleTemplateChange = (templateId: string) => {
+    const chosen = activeTemplates.find(t => t.id === templateId);
+    if (!chosen) {
+      setTemplate(null);
+      return;
+    }
+    void applyTemplate(chosen);
+  };
+
   const handleSubmit = async (asDraft: boolean) => {
     if (!validateForm()) {
       toast({
@@ -144,7 +251,10 @@ export function CreateContractDialog({
         start_date: formData.start_date || undefined,
         pay_rate: formData.pay_rate ? parseFloat(formData.pay_rate) : undefined,
         employment_type: formData.employment_type,
-      });
+        // The end of the chosen day, local time
+        expires_at: signingDeadline ? new Date(`${signingDeadline}T23:59:59`).toISOString() : undefined,
+        template_version_id: template?.version.id,
+      }, countersigners);
       onOpenChange(false);
       // Reset form
       setFormData(initialFormData);
@@ -312,8 +422,129 @@ export function CreateContractDialog({
 
           <Separator />
 
+          {/* Signers */}
+          <div className="space-y-4">
+            <div>
+              <h3 className="font-semibold text-sm">Signing Order</h3>
+              <p className="text-xs text-muted-foreground">
+                The employee signs first. Each person below is sent their signing link once the one before them has signed.
+              </p>
+            </div>
+            <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50 text-sm">
+              <span className="font-medium">1.</span>
+              <span className="flex-1">{formData.employee_name || 'Employee'}</span>
+              <span className="text-xs text-muted-foreground">{SIGNER_ROLE_LABELS.employee}</span>
+            </div>
+            {countersigners.map((signer, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_10rem_auto] gap-2 items-center">
+                <span className="text-sm font-medium">{index + 2}.</span>
+                <Input
+                  value={signer.name}
+                  onChange={(e) => updateCountersigner(index, { name: e.target.value })}
+                  placeholder="Full name"
+                  aria-label={`Signer ${index + 2} name`}
+                  maxLength={100}
+                />
+                <Input
+                  type="email"
+                  value={signer.email}
+                  onChange={(e) => updateCountersigner(index, { email: e.target.value })}
+                  placeholder="ceo@example.com"
+                  aria-label={`Signer ${index + 2} email`}
+                  maxLength={255}
+                />
+                <Select
+                  value={signer.role}
+                  onValueChange={(v) => updateCountersigner(index, { role: v as ContractSignerInput['role'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    <SelectItem value="countersigner">{SIGNER_ROLE_LABELS.countersigner}</SelectItem>
+                    <SelectItem value="witness">{SIGNER_ROLE_LABELS.witness}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setCountersigners(countersigners.filter((_, i) => i !== index))}
+                  aria-label={`Remove signer ${index + 2}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setCountersigners([...countersigners, newCountersigner()])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Signer
+            </Button>
+            <div className="space-y-2 md:w-1/2">
+              <Label htmlFor="signing_deadline">Sign By</Label>
+              <Input
+                id="signing_deadline"
+                type="date"
+                value={signingDeadline}
+                onChange={(e) => {
+                  setSigningDeadline(e.target.value);
+                  setSigningError(null);
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                The contract expires if it isn't fully signed by the end of this day. Leave empty for no deadline.
+              </p>
+            </div>
+            {signingError && (
+              <p className="text-xs text-destructive">{signingError}</p>
+            )}
+          </div>
+
+          <Separator />
+
           {/* Contract Content */}
           <div className="space-y-2">
+            {activeTemplates.length > 0 && (
+              <div className="space-y-2 pb-2">
+                <Label htmlFor="template">Template</Label>
+                <div className="flex gap-2">
+                  <Select value={template?.template.id ?? NO_TEMPLATE} onValueChange={handleTemplateChange}>
+                    <SelectTrigger id="template" className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover">
+                      <SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+                      {activeTemplates.map((t) => (
+                        <SelectItem key={t.id} value={t.id}>
+                          {t.name} (v{t.current_version})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {template && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => applyTemplate(template.template, template.version)}
+                      disabled={isMerging}
+                      title="Fill the merge fields again from the details above"
+                    >
+                      {isMerging ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {template
+                    ? `Generated from ${template.template.name} v${template.version.version_number}. Refilling replaces any edits below.`
+                    : 'Fill in the details above, then pick a template to generate the contract from them.'}
+                </p>
+              </div>
+            )}
             <Label htmlFor="content">Contract Content *</Label>
             <Textarea
               id="content"
@@ -442,8 +442,8 @@ export function CertificationDialog({
             {isRequirementMode
               ? 'Upload a document for a compliance requirement.'
               : isEditing 
-              ? 'Update the certification details and upload a new document if needed.'
-              : 'Add a new compliance certification with document upload.'}
+              ? 'Update the certification details and upload a new document if needed. Changed details must be verified again.'
+              : 'Add a new compliance certification with document upload. It counts towards compliance once verified.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Landmark, Edit2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useEmployeeBankAccount } from '@/hooks/useEmployeeBankAccount';
+import { formatBsb, isValidAccountNumber, isValidBsb } from '@/lib/abaFile';
+import type { SaveEmployeeBankAccountInput } from '@/types/payroll';
+
+interface EmployeeBankDetailsProps {
+  employeeId: string;
+}
+
+/**
+ * Payment account used for the payslips bank file. Only rendered for admins;
+ * account numbers are masked until edited.
+ */
+export function EmployeeBankDetails({ employeeId }: EmployeeBankDetailsProps) {
+  const { bankAccount, isLoading, saveBankAccount, isSaving } = useEmployeeBankAccount(employeeId);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<SaveEmployeeBankAccountInput>({
+    account_name: '',
+    bsb: '',
+    account_number: '',
+  });
+
+  const handleEdit = () => {
+    setFormData({
+      account_name: bankAccount?.account_name || '',
+      bsb: bankAccount ? formatBsb(bankAccount.bsb) : '',
+      account_number: bankAccount?.account_number || '',
+    });
+    setIsEditing(true);
+  };
+
+  const isValid =
+    formData.account_name.trim() !== '' &&
+    isValidBsb(formData.bsb) &&
+    isValidAccountNumber(formData.account_number);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    await saveBankAccount(formData);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          <Landmark className="h-4 w-4" />
+          Bank Details
+        </h3>
+        {!isEditing && (
+          <Button variant="outline" size="sm" onClick={handleEdit} disabled={isLoading}>
+            <Edit2 className="h-3 w-3 mr-1" />
+            {bankAccount ? 'Edit' : 'Add'}
+          </Button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="bank-account-name">Account Name</Label>
+            <Input
+              id="bank-account-name"
+              value={formData.account_name}
+              onChange={(e) => setFormData({ ...formData, account_name: e.target.value })}
+              maxLength={32}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="bank-bsb">BSB</Label>
+              <Input
+                id="bank-bsb"
+                value={formData.bsb}
+                onChange={(e) => setFormData({ ...formData, bsb: e.target.value })}
+                placeholder="000-000"
+                maxLength={7}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-account-number">Account Number</Label>
+              <Input
+                id="bank-account-number"
+                value={formData.account_number}
+                onChange={(e) => setFormData({ ...formData, account_number: e.target.value })}
+                maxLength={9}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!isValid || isSaving}>
+              {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : bankAccount ? (
+        <div className="text-sm space-y-1">
+          <p className="font-medium">{bankAccount.account_name}</p>
+          <p className="text-muted-foreground">
+            BSB {formatBsb(bankAccount.bsb)} · Account ***{bankAccount.account_number.slice(-3)}
+          </p>
+        </div>
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          {isLoading ? 'Loading...' : 'No bank account on file. Needed for payslip exports.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { CertificationDialog } from '@/components/employees/CertificationDialog';
+import { EmployeeBankDetails } from '@/components/employees/EmployeeBankDetails';
+import { EmployeeDisciplinaryHistory } from '@/components/employees/EmployeeDisciplinaryHistory';
 import { CreateContractDialog } from '@/components/contracts/CreateContractDialog';
 import { ContractSigningDialog } from '@/components/contracts/ContractSigningDialog';
 import { ContractViewSheet } from '@/components/contracts/ContractViewSheet';
@@ -36,7 +38,10 @@ import { useComplianceRules, useDocumentTypes } from '@/hooks/useDocuments';
 import { useContracts } from '@/hooks/useContracts';
 import { useUserRole } from '@/hooks/useUserRole';
 import { supabase } from '@/integrations/supabase/client';
-import type { Contract, ContractAuditLog, Signature } from '@/types/contracts';
+import type { Contract, ContractAuditLog, ContractSigner, Signature } from '@/types/contracts';
+import { currentSigner } from '@/lib/contractSigning';
+import { HOLIDAY_REGIONS, HOLIDAY_REGION_LABELS } from '@/types/publicHolidays';
+import { EMPLOYEE_GENDER_LABELS } from '@/types/rostering';
 
 interface EmployeeDetailSheetProps {
   employee: Employee | null;
@@ -97,6 +102,7 @@ export function EmployeeDetailSheet({
   onUploadDocument,
 }: EmployeeDetailSheetProps) {
   const NO_AWARD_VALUE = '__none__';
+  const NO_STATE_VALUE = '__no_state__';
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<Partial<Employee>>({});
   const [isUploadingDocument, setIsUploadingDocument] = useState(false);
@@ -139,10 +145,20 @@ export function EmployeeDetailSheet({
   const [signingDialogOpen, setSigningDialogOpen] = useState(false);
   const [viewSheetOpen, setViewSheetOpen] = useState(false);
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
-  const [selectedSignature, setSelectedSignature] = useState<Signature | null>(null);
+  const [selectedSigners, setSelectedSigners] = useState<ContractSigner[]>([]);
+  const [selectedSignatures, setSelectedSignatures] = useState<Signature[]>([]);
   const [selectedAuditLogs, setSelectedAuditLogs] = useState<ContractAuditLog[]>([]);
 
-  const { contracts, createContract, signContract, getSignature, getAuditLogs, logAuditEvent } = useContracts();
+  const {
+    contracts,
+    createContract,
+    signContract,
+    remindSigner,
+    getSigners,
+    getSignatures,
+    getAuditLogs,
+    logAuditEvent,
+  } = useContracts();
   const { isAdmin, isManager } = useUserRole();
   const canManageContracts = !!(isAdmin || isManager);
   const employeeContracts = useMemo(() => {
@@ -156,11 +172,13 @@ export function EmployeeDetailSheet({
     setViewSheetOpen(true);
 
     try {
-      const [signature, logs] = await Promise.all([
-        getSignature(contract.id),
+      const [signers, signatures, logs] = await Promise.all([
+        getSigners(contract.id),
+        getSignatures(contract.id),
         getAuditLogs(contract.id),
       ]);
-      setSelectedSignature(signature);
+      setSelectedSigners(signers);
+      setSelectedSignatures(signatures);
       setSelectedAuditLogs(logs);
       await logAuditEvent(contract.id, 'viewed');
     } catch (error) {
@@ -168,9 +186,22 @@ export function EmployeeDetailSheet({
     }
   };
 
-  const handleSignContract = (contract: Contract) => {
+  const handleSignContract = async (contract: Contract) => {
     setSelectedContract(contract);
-    setSigningDialogOpen(true);
+
+    try {
+      setSelectedSigners(await getSigners(contract.id));
+      setSigningDialogOpen(true);
+    } catch (error) {
+      console.error('Failed to load contract signers:', error);
+    }
+  };
+
+  const handleRemindSigner = async (contract: Contract) => {
+    await remindSigner(contract.id);
+    const [signers, logs] = await Promise.all([getSigners(contract.id), getAuditLogs(contract.id)]);
+    setSelectedSigners(signers);
+    setSelectedAuditLogs(logs);
   };
 
   useEffect(() => {
@@ -763,6 +794,8 @@ export function EmployeeDetailSheet({
     employmentType: emp.employmentType,
     payRate: emp.payRate,
     awardClassification: emp.awardClassification,
+    workState: emp.workState,
+    gender: emp.gender,
     emergencyContact: emp.emergencyContact,
   });
 
@@ -1104,6 +1137,57 @@ export function EmployeeDetailSheet({
                       </SelectContent>
                     </Select>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-work-state">Work State</Label>
+                    <Select
+                      value={editData.workState ?? NO_STATE_VALUE}
+                      onValueChange={(value) =>
+                        setEditData({
+                          ...editData,
+                          workState: value === NO_STATE_VALUE ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger id="edit-work-state">
+                        <SelectValue placeholder="Select state" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover">
+                        <SelectItem value={NO_STATE_VALUE}>Not set (national holidays only)</SelectItem>
+                        {HOLIDAY_REGIONS.map((region) => (
+                          <SelectItem key={region} value={region}>
+                            {HOLIDAY_REGION_LABELS[region]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-gender">Gender</Label>
+                    <Select
+                      value={editData.gender ?? NO_AWARD_VALUE}
+                      onValueChange={(value) =>
+                        setEditData({
+                          ...editData,
+                          gender: value === NO_AWARD_VALUE ? undefined : value as Employee['gender'],
+                        })
+                      }
+                    >
+                      <SelectTrigger id="edit-gender">
+                        <SelectValue placeholder="Select gender" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover">
+                        <SelectItem value={NO_AWARD_VALUE}>Not set</SelectItem>
+                        {Object.entries(EMPLOYEE_GENDER_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Used for participants who need a worker of a particular gender.
+                    </p>
+                  </div>
                 </div>
               ) : (
                 <div className="grid grid-cols-2 gap-3 text-sm">
@@ -1123,6 +1207,16 @@ export function EmployeeDetailSheet({
                     <p className="text-muted-foreground">Award Classification</p>
                     <p className="font-medium">{awardLabel}</p>
                   </div>
+                  <div>
+                    <p className="text-muted-foreground">Work State</p>
+                    <p className="font-medium">{employee.workState || 'Not set'}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Gender</p>
+                    <p className="font-medium">
+                      {employee.gender ? EMPLOYEE_GENDER_LABELS[employee.gender] : 'Not set'}
+                    </p>
+                  </div>
                   <div>
                     <p className="text-muted-foreground">Status</p>
                     <Badge variant={employee.status === 'active' ? 'default' : 'secondary'} className="mt-1">
@@ -1501,6 +1595,22 @@ export function EmployeeDetailSheet({
                   </>
                 )}
 
+                {/* Bank Details - Admin only */}
+                {isAdmin && (
+                  <>
+                    <Separator />
+                    <EmployeeBankDetails employeeId={employee.id} />
+                  </>
+                )}
+
+                {/* Disciplinary History - Admins and managers */}
+                {(isAdmin || isManager) && (
+                  <>
+                    <Separator />
+                    <EmployeeDisciplinaryHistory employeeId={employee.id} />
+                  </>
+                )}
+
                 <Separator />
 
                 {/* Contracts */}
@@ -1672,7 +1782,7 @@ export function EmployeeDetailSheet({
           start_date: employee?.startDate || '',
           pay_rate: employee?.payRate ? employee.payRate.toFixed(2) : '',
         }}
-        onCreate={async (contract) => {
+        onCreate={async (contract, countersigners) => {
           if (!canManageContracts) {
             toast({
               title: 'Access restricted',
@@ -1681,7 +1791,7 @@ export function EmployeeDetailSheet({
             });
             return;
           }
-          await createContract(contract);
+          await createContract(contract, countersigners);
         }}
       />
 
@@ -1689,15 +1799,10 @@ export function EmployeeDetailSheet({
         open={signingDialogOpen}
         onOpenChange={setSigningDialogOpen}
         contract={selectedContract}
+        signer={currentSigner(selectedSigners)}
         onSign={async (contractId, signatureData, signatureType) => {
           if (!selectedContract) return;
-          await signContract(
-            contractId,
-            signatureData,
-            signatureType,
-            selectedContract.employee_name,
-            selectedContract.employee_email
-          );
+          await signContract(contractId, signatureData, signatureType);
         }}
       />
 
@@ -1705,8 +1810,10 @@ export function EmployeeDetailSheet({
         open={viewSheetOpen}
         onOpenChange={setViewSheetOpen}
         contract={selectedContract}
-        signature={selectedSignature}
+        signers={selectedSigners}
+        signatures={selectedSignatures}
         auditLogs={selectedAuditLogs}
+        onRemind={canManageContracts ? handleRemindSigner : undefined}
       />
     </Sheet>
   );
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Gavel, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CreateCaseDialog } from '@/components/hrCases/CreateCaseDialog';
+import { useEmployeeDisciplinaryHistory } from '@/hooks/useEmployeeDisciplinaryHistory';
+import { cn } from '@/lib/utils';
+import type { WarningStanding } from '@/lib/disciplinaryHistory';
+import { ACTION_STATUS_LABELS, ACTION_TYPE_LABELS, CASE_TYPE_LABELS } from '@/types/hrCases';
+
+interface EmployeeDisciplinaryHistoryProps {
+  employeeId: string;
+}
+
+const STANDING_LABELS: Record<WarningStanding, string> = {
+  live: 'Live',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+  pending: 'Pending',
+};
+
+const STANDING_CLASSES: Record<WarningStanding, string> = {
+  live: 'bg-orange-500 text-white',
+  expired: 'bg-muted text-muted-foreground',
+  withdrawn: 'bg-muted text-muted-foreground',
+  pending: 'bg-blue-500 text-white',
+};
+
+const formatDate = (date: string) => format(new Date(date), 'dd MMM yyyy');
+
+/**
+ * Every action issued to the employee across their HR cases, with where
+ * each warning stands. Only rendered for admins and managers.
+ */
+export function EmployeeDisciplinaryHistory({ employeeId }: EmployeeDisciplinaryHistoryProps) {
+  const { organisationId, timeline, liveFinalWarning, isLoading, createCase } =
+    useEmployeeDisciplinaryHistory(employeeId);
+  const [createOpen, setCreateOpen] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          <Gavel className="h-4 w-4" />
+          Disciplinary History
+        </h3>
+        {organisationId && (
+          <Button variant="outline" size="sm" onClick={() => setCreateOpen(true)}>
+            <Plus className="h-3 w-3 mr-1" />
+            New HR Case
+          </Button>
+        )}
+      </div>
+
+      {liveFinalWarning && (
+        <div className="flex items-center gap-2 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+          <AlertTriangle className="h-4 w-4 text-orange-600 shrink-0" />
+          Final warning live until {formatDate(liveFinalWarning.expiry_date!)}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-xs text-muted-foreground">Loading disciplinary history...</div>
+      ) : timeline.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No disciplinary actions recorded.</div>
+      ) : (
+        <div className="relative space-y-3 border-l pl-4">
+          {timeline.map((action) => (
+            <div key={action.id} className="relative">
+              <span
+                className={cn(
+                  'absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background',
+                  action.standing === 'live' ? 'bg-orange-500' : 'bg-muted-foreground/40'
+                )}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">{ACTION_TYPE_LABELS[action.action_type]}</span>
+                {action.standing ? (
+                  <Badge className={cn('text-xs', STANDING_CLASSES[action.standing])}>
+                    {STANDING_LABELS[action.standing]}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-xs">
+                    {ACTION_STATUS_LABELS[action.status]}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {formatDate(action.effective_date)}
+                {action.expiry_date &&
+                  ` · ${action.standing === 'expired' ? 'Expired' : 'Expires'} ${formatDate(action.expiry_date)}`}
+                {` · ${action.hr_case.case_number} (${CASE_TYPE_LABELS[action.hr_case.case_type]})`}
+              </p>
+              <p className="text-sm mt-1">{action.description}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {organisationId && (
+        <CreateCaseDialog
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          onSubmit={createCase}
+          organisationId={organisationId}
+          employeeId={employeeId}
+        />
+      )}
+    </div>
+  );
+}
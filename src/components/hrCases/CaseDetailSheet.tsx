@@ -26,6 +26,10 @@ import { CaseEvidenceTab } from './tabs/CaseEvidenceTab';
 import { CaseFindingsTab } from './tabs/CaseFindingsTab';
 import { CaseActionsTab } from './tabs/CaseActionsTab';
 import { CaseAuditTab } from './tabs/CaseAuditTab';
+import { ReportableIncidentBadges } from './ReportableIncidentBadges';
+import { ReportableIncidentCard } from './ReportableIncidentCard';
+import { CaseSlaBadge, CaseStatusTimeline } from './CaseStatusTimeline';
+import { CaseStatusControl } from './CaseStatusControl';
 import {
   CASE_TYPE_LABELS,
   CASE_SEVERITY_LABELS,
@@ -47,16 +51,26 @@ export function CaseDetailSheet({ caseId, open, onOpenChange, onUpdate }: CaseDe
     triage,
     notes,
     evidence,
+    custodyEvents,
     findings,
     actions,
     auditLog,
+    statusHistory,
+    reporterMessages,
+    sla,
     loading,
+    transitionStatus,
     createTriage,
     addNote,
+    sendReporterMessage,
     uploadEvidence,
+    openEvidence,
+    verifyEvidence,
     recordFindings,
     addAction,
     updateAction,
+    recordNdisNotification,
+    recordNdisReport,
   } = useHRCaseDetail(open ? caseId : null);
 
   if (!hrCase) {
@@ -122,6 +136,13 @@ export function CaseDetailSheet({ caseId, open, onOpenChange, onUpdate }: CaseDe
             </div>
           </div>
           
+          {(hrCase.ndis_reportable || sla) && (
+            <div className="mt-2 flex flex-wrap items-center gap-1">
+              <CaseSlaBadge sla={sla} />
+              <ReportableIncidentBadges hrCase={hrCase} />
+            </div>
+          )}
+
           {hrCase.employee && (
             <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
               <User className="h-4 w-4" />
@@ -182,8 +203,24 @@ export function CaseDetailSheet({ caseId, open, onOpenChange, onUpdate }: CaseDe
 
           <ScrollArea className="flex-1">
             <div className="p-6">
-              <TabsContent value="overview" className="mt-0">
+              <TabsContent value="overview" className="mt-0 space-y-6">
+                <CaseStatusControl
+                  hrCase={hrCase}
+                  triage={triage}
+                  findings={findings}
+                  actions={actions}
+                  onTransition={transitionStatus}
+                />
+                <ReportableIncidentCard
+                  hrCase={hrCase}
+                  triage={triage}
+                  evidence={evidence}
+                  actions={actions}
+                  onRecordNotification={recordNdisNotification}
+                  onRecordReport={recordNdisReport}
+                />
                 <CaseOverviewTab hrCase={hrCase} />
+                <CaseStatusTimeline history={statusHistory} sla={sla} />
               </TabsContent>
               
               <TabsContent value="triage" className="mt-0">
@@ -196,15 +233,21 @@ export function CaseDetailSheet({ caseId, open, onOpenChange, onUpdate }: CaseDe
               
               <TabsContent value="notes" className="mt-0">
                 <CaseNotesTab 
+                  hrCase={hrCase}
                   notes={notes}
+                  reporterMessages={reporterMessages}
                   onAddNote={addNote}
+                  onSendReporterMessage={sendReporterMessage}
                 />
               </TabsContent>
               
               <TabsContent value="evidence" className="mt-0">
                 <CaseEvidenceTab 
                   evidence={evidence}
+                  custodyEvents={custodyEvents}
                   onUploadEvidence={uploadEvidence}
+                  onOpenEvidence={openEvidence}
+                  onVerifyEvidence={verifyEvidence}
                 />
               </TabsContent>
               
@@ -218,6 +261,7 @@ export function CaseDetailSheet({ caseId, open, onOpenChange, onUpdate }: CaseDe
               
               <TabsContent value="actions" className="mt-0">
                 <CaseActionsTab 
+                  organisationId={hrCase.organisation_id}
                   actions={actions}
                   onAddAction={addAction}
                   onUpdateAction={updateAction}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ArrowRight, GitBranch, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ARTEFACT_STATUSES, CASE_TRANSITIONS, missingForTransition } from '@/lib/hrCaseTransitions';
+import {
+  CASE_STATUS_LABELS,
+  type HRCase,
+  type HRCaseAction,
+  type HRCaseFindings,
+  type HRCaseStatus,
+  type HRCaseTriage,
+} from '@/types/hrCases';
+
+// Where the work for a status reached by recording something is done
+const ARTEFACT_HINTS: Partial<Record<HRCaseStatus, string>> = {
+  triaged: 'Complete the triage assessment to move this case to Triaged.',
+  decision_made: 'Record findings to move this case to Decision Made.',
+};
+
+interface CaseStatusControlProps {
+  hrCase: HRCase;
+  triage: HRCaseTriage | null;
+  findings: HRCaseFindings | null;
+  actions: HRCaseAction[];
+  onTransition: (toStatus: HRCaseStatus, closureNotes?: string) => Promise<boolean>;
+}
+
+/**
+ * The statuses a case can move to next, and what each still needs.
+ */
+export function CaseStatusControl({ hrCase, triage, findings, actions, onTransition }: CaseStatusControlProps) {
+  const [closureNotes, setClosureNotes] = useState('');
+  const [saving, setSaving] = useState<HRCaseStatus | null>(null);
+
+  const next = CASE_TRANSITIONS[hrCase.status];
+  if (next.length === 0) return null;
+
+  const handleTransition = async (toStatus: HRCaseStatus) => {
+    setSaving(toStatus);
+    try {
+      const moved = await onTransition(toStatus, toStatus === 'closed' ? closureNotes : undefined);
+      if (moved) setClosureNotes('');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <GitBranch className="h-4 w-4" />
+          Case Progress
+        </CardTitle>
+        <CardDescription>Currently {CASE_STATUS_LABELS[hrCase.status]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {next.map((toStatus) => {
+          if (ARTEFACT_STATUSES.includes(toStatus)) {
+            return (
+              <p key={toStatus} className="text-sm text-muted-foreground">
+                {ARTEFACT_HINTS[toStatus]}
+              </p>
+            );
+          }
+
+          const missing = missingForTransition(toStatus, {
+            hasTriage: !!triage,
+            hasFindings: !!findings,
+            actions,
+            closureNotes,
+          });
+          // Closure notes are typed here, so they don't block the form itself
+          const blocking = missing.filter(m => m !== 'closure notes');
+
+          return (
+            <div key={toStatus} className="space-y-2">
+              {toStatus === 'closed' && blocking.length === 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="closure_notes">Closure Notes *</Label>
+                  <Textarea
+                    id="closure_notes"
+                    value={closureNotes}
+                    onChange={(e) => setClosureNotes(e.target.value)}
+                    placeholder="Outcome and reasons for closing the case"
+                    rows={3}
+                  />
+                </div>
+              )}
+              <Button
+                variant={toStatus === 'closed' ? 'default' : 'outline'}
+                disabled={missing.length > 0 || saving !== null}
+                onClick={() => handleTransition(toStatus)}
+              >
+                {saving === toStatus ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ArrowRight className="h-4 w-4 mr-2" />
+                )}
+                {toStatus === 'closed' ? 'Close Case' : `Move to ${CASE_STATUS_LABELS[toStatus]}`}
+              </Button>
+              {blocking.length > 0 && (
+                <p className="text-sm text-muted-foreground">Still needs: {blocking.join('; ')}</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
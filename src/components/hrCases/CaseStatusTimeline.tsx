@@ -0,0 +1,99 @@
+import { format, formatDistanceStrict } from 'date-fns';
+import { ArrowRight, Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { SLA_STAGE_LABELS, timeInStatus, type CaseSla } from '@/lib/hrCaseSla';
+import { CASE_STATUS_LABELS, type HRCaseStatus, type HRCaseStatusChange } from '@/types/hrCases';
+
+const formatDuration = (ms: number) => formatDistanceStrict(0, ms);
+
+/**
+ * The current status's SLA: when it falls due, or that it has been breached.
+ */
+export function CaseSlaBadge({ sla }: { sla: CaseSla | null }) {
+  if (!sla) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'whitespace-nowrap',
+        sla.breached ? 'bg-red-600 text-white border-transparent' : 'border-muted-foreground/40'
+      )}
+      title={`${sla.targetBusinessDays} business day target`}
+    >
+      <Timer className="h-3 w-3 mr-1" />
+      {sla.breached
+        ? `${SLA_STAGE_LABELS[sla.status]} overdue`
+        : `${SLA_STAGE_LABELS[sla.status]} due ${format(new Date(sla.dueAt), 'dd MMM HH:mm')}`}
+    </Badge>
+  );
+}
+
+interface CaseStatusTimelineProps {
+  history: HRCaseStatusChange[];
+  sla: CaseSla | null;
+}
+
+export function CaseStatusTimeline({ history, sla }: CaseStatusTimelineProps) {
+  if (history.length === 0) return null;
+
+  const totals = timeInStatus(history, new Date());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Timer className="h-4 w-4" />
+          Status History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sla && (
+          <div
+            className={cn(
+              'rounded-lg border p-3 text-sm',
+              sla.breached ? 'border-red-200 bg-red-50 text-red-800' : 'bg-muted/50'
+            )}
+          >
+            <span className="font-medium">{SLA_STAGE_LABELS[sla.status]}</span>
+            {' within '}
+            {sla.targetBusinessDays} business day{sla.targetBusinessDays === 1 ? '' : 's'}
+            {sla.breached ? ' — overdue since ' : ' — due '}
+            {format(new Date(sla.dueAt), 'dd MMM yyyy HH:mm')}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {history.map((change) => (
+            <div key={change.id} className="flex items-center justify-between gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                {change.from_status && (
+                  <>
+                    <span className="text-muted-foreground">{CASE_STATUS_LABELS[change.from_status]}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  </>
+                )}
+                <span className="font-medium">{CASE_STATUS_LABELS[change.to_status]}</span>
+              </div>
+              <span className="text-muted-foreground">
+                {format(new Date(change.changed_at), 'dd MMM yyyy HH:mm')}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2 pt-2 border-t">
+          {(Object.entries(totals) as [HRCaseStatus, number][])
+            .filter(([status]) => status !== 'closed')
+            .map(([status, ms]) => (
+              <Badge key={status} variant="secondary">
+                {CASE_STATUS_LABELS[status]}: {formatDuration(ms)}
+              </Badge>
+            ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,22 +12,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { useEmployees } from '@/hooks/useEmployees';
+import { findLiveFinalWarning } from '@/lib/disciplinaryHistory';
+import { hrCasesService } from '@/services/hrCasesService';
 import type { 
   CreateHRCaseInput, 
   HRCaseType, 
   HRCaseSeverity, 
   HRCaseReporterType,
   HRCaseConfidentiality,
+  NdisIncidentCategory,
   CASE_TYPE_LABELS,
   CASE_SEVERITY_LABELS,
   REPORTER_TYPE_LABELS,
 } from '@/types/hrCases';
+import { NDIS_INCIDENT_CATEGORY_LABELS } from '@/types/hrCases';
 
 interface CreateCaseDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSubmit: (input: CreateHRCaseInput) => Promise<unknown>;
   organisationId: string;
+  // Opens the dialog for this employee
+  employeeId?: string;
 }
 
 const CASE_TYPES: { value: HRCaseType; label: string }[] = [
@@ -49,14 +58,20 @@ const REPORTER_TYPES: { value: HRCaseReporterType; label: string }[] = [
   { value: 'anonymous', label: 'Anonymous' },
 ];
 
-export function CreateCaseDialog({ open, onOpenChange, onSubmit, organisationId }: CreateCaseDialogProps) {
+const currentDateTime = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export function CreateCaseDialog({ open, onOpenChange, onSubmit, organisationId, employeeId }: CreateCaseDialogProps) {
   const [loading, setLoading] = useState(false);
+  const [reportable, setReportable] = useState(false);
+  const [ndisCategory, setNdisCategory] = useState<NdisIncidentCategory | ''>('');
+  const [awareAt, setAwareAt] = useState(currentDateTime);
   const { employees } = useEmployees();
   const { toast } = useToast();
 
   const { register, handleSubmit, watch, setValue, reset, formState: { errors } } = useForm<CreateHRCaseInput>({
     defaultValues: {
       organisation_id: organisationId,
+      employee_id: employeeId,
       case_type: 'incident',
       reported_by: 'manager',
       severity: 'medium',
@@ -67,12 +82,45 @@ export function CreateCaseDialog({ open, onOpenChange, onSubmit, organisationId
 
   const reportedBy = watch('reported_by');
   const safeguardingFlag = watch('safeguarding_flag');
+  const selectedEmployeeId = watch('employee_id');
+
+  useEffect(() => {
+    if (open) {
+      setValue('organisation_id', organisationId);
+      if (employeeId) setValue('employee_id', employeeId);
+    }
+  }, [open, organisationId, employeeId, setValue]);
+
+  const { data: history = [] } = useQuery({
+    queryKey: ['employee-disciplinary-history', selectedEmployeeId],
+    queryFn: () => hrCasesService.getEmployeeDisciplinaryHistory(selectedEmployeeId!),
+    enabled: open && !!selectedEmployeeId,
+  });
+  const liveFinalWarning = selectedEmployeeId ? findLiveFinalWarning(history) : null;
 
   const handleFormSubmit = async (data: CreateHRCaseInput) => {
+    if (reportable && (!ndisCategory || !awareAt)) {
+      toast({
+        title: 'Reportable incident incomplete',
+        description: 'Choose the incident category and when you became aware of it.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setLoading(true);
     try {
-      await onSubmit(data);
+      await onSubmit({
+        ...data,
+        reportable_incident:
+          reportable && ndisCategory
+            ? { category: ndisCategory, aware_at: new Date(awareAt).toISOString() }
+            : undefined,
+      });
       reset();
+      setReportable(false);
+      setNdisCategory('');
+      setAwareAt(currentDateTime());
       onOpenChange(false);
     } catch (error) {
       console.error('Error creating case:', error);
@@ -157,6 +205,20 @@ export function CreateCaseDialog({ open, onOpenChange, onSubmit, organisationId
                   ))}
               </SelectContent>
             </Select>
+            {liveFinalWarning && (
+              <div className="rounded-lg border border-orange-200 bg-orange-50 p-3">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-orange-600" />
+                  <span className="font-medium text-orange-800">Live Final Warning</span>
+                </div>
+                <p className="text-sm text-orange-700 mt-1">
+                  This employee has a final warning from case {liveFinalWarning.hr_case.case_number}
+                  {liveFinalWarning.expiry_date &&
+                    `, live until ${format(new Date(liveFinalWarning.expiry_date), 'dd MMM yyyy')}`}
+                  . Take it into account when deciding the outcome.
+                </p>
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -249,6 +311,55 @@ export function CreateCaseDialog({ open, onOpenChange, onSubmit, organisationId
                 onCheckedChange={(checked) => setValue('safeguarding_flag', checked)}
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="ndis_reportable" className="text-destructive font-medium">
+                  NDIS Reportable Incident
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Starts the 24-hour Commission notification and 5-day report clocks
+                </p>
+              </div>
+              <Switch
+                id="ndis_reportable"
+                checked={reportable}
+                onCheckedChange={setReportable}
+              />
+            </div>
+
+            {reportable && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Incident Category *</Label>
+                  <Select
+                    value={ndisCategory}
+                    onValueChange={(value) => setNdisCategory(value as NdisIncidentCategory)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(NDIS_INCIDENT_CATEGORY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ndis_aware_at">Became Aware At *</Label>
+                  <Input
+                    id="ndis_aware_at"
+                    type="datetime-local"
+                    value={awareAt}
+                    max={currentDateTime()}
+                    onChange={(e) => setAwareAt(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlarmClock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { deadlineCountdown, type DeadlineState } from '@/lib/reportableIncidents';
+import type { HRCase } from '@/types/hrCases';
+
+const STATE_CLASSES: Record<DeadlineState, string> = {
+  met: 'border-green-500 text-green-700',
+  pending: 'border-amber-500 text-amber-700',
+  due_soon: 'bg-orange-500 text-white border-transparent',
+  overdue: 'bg-red-600 text-white border-transparent',
+};
+
+/**
+ * Current time, refreshed every minute so countdowns stay live.
+ */
+function useNow(intervalMs = 60000): Date {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+interface ReportableIncidentBadgesProps {
+  hrCase: HRCase;
+  compact?: boolean;
+}
+
+/**
+ * Countdown badges for the Commission notification and the 5-day report.
+ */
+export function ReportableIncidentBadges({ hrCase, compact = false }: ReportableIncidentBadgesProps) {
+  const now = useNow();
+
+  if (!hrCase.ndis_reportable || !hrCase.ndis_notification_due_at || !hrCase.ndis_report_due_at) {
+    return null;
+  }
+
+  const deadlines = [
+    {
+      key: 'notification',
+      label: compact ? 'Notify' : 'Notification',
+      dueAt: hrCase.ndis_notification_due_at,
+      countdown: deadlineCountdown(hrCase.ndis_notification_due_at, hrCase.ndis_notified_at, now, 6),
+    },
+    {
+      key: 'report',
+      label: compact ? '5-day' : '5-day report',
+      dueAt: hrCase.ndis_report_due_at,
+      countdown: deadlineCountdown(hrCase.ndis_report_due_at, hrCase.ndis_report_submitted_at, now, 24),
+    },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {deadlines
+        // Once met, the list only needs the deadline still running
+        .filter(d => !compact || d.countdown.state !== 'met')
+        .map(d => (
+          <Badge
+            key={d.key}
+            variant="outline"
+            className={cn('whitespace-nowrap', STATE_CLASSES[d.countdown.state])}
+            title={`Due ${format(new Date(d.dueAt), 'dd MMM yyyy HH:mm')}`}
+          >
+            <AlarmClock className="h-3 w-3 mr-1" />
+            {d.label}: {d.countdown.label}
+          </Badge>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FileDown, FileJson, Loader2, ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { buildNdisNotificationPack, renderNdisNotificationPdf } from '@/lib/reportableIncidents';
+import { ReportableIncidentBadges } from './ReportableIncidentBadges';
+import {
+  NDIS_INCIDENT_CATEGORY_LABELS,
+  type HRCase,
+  type HRCaseAction,
+  type HRCaseEvidence,
+  type HRCaseTriage,
+} from '@/types/hrCases';
+
+interface ReportableIncidentCardProps {
+  hrCase: HRCase;
+  triage: HRCaseTriage | null;
+  evidence: HRCaseEvidence[];
+  actions: HRCaseAction[];
+  onRecordNotification: (reference: string) => Promise<boolean>;
+  onRecordReport: () => Promise<boolean>;
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const formatTimestamp = (value: string | null) =>
+  value ? format(new Date(value), 'dd MMM yyyy HH:mm') : '—';
+
+export function ReportableIncidentCard({
+  hrCase,
+  triage,
+  evidence,
+  actions,
+  onRecordNotification,
+  onRecordReport,
+}: ReportableIncidentCardProps) {
+  const { user } = useAuth();
+  const [reference, setReference] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  if (!hrCase.ndis_reportable || !hrCase.ndis_incident_category) {
+    return null;
+  }
+
+  const handleRecordNotification = async () => {
+    setSaving(true);
+    try {
+      if (await onRecordNotification(reference)) setReference('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecordReport = async () => {
+    setSaving(true);
+    try {
+      await onRecordReport();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGeneratePack = async (kind: 'pdf' | 'json') => {
+    setGenerating(true);
+    try {
+      const { data: provider, error } = await supabase
+        .from('organisations')
+        .select('legal_name, trading_name')
+        .eq('id', hrCase.organisation_id)
+        .single();
+      if (error) throw error;
+
+      const pack = buildNdisNotificationPack({
+        hrCase,
+        triage,
+        evidence,
+        actions,
+        provider,
+        preparedBy: user?.email || 'Unknown',
+        generatedAt: new Date().toISOString(),
+      });
+
+      const filename = `${hrCase.case_number}-ndis-notification`;
+      if (kind === 'pdf') {
+        download(renderNdisNotificationPdf(pack), `${filename}.pdf`);
+      } else {
+        download(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }), `${filename}.json`);
+      }
+    } catch (error) {
+      console.error('Error generating NDIS notification pack:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to generate the notification pack',
+        variant: 'destructive',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2 text-red-700">
+          <ShieldAlert className="h-4 w-4" />
+          NDIS Reportable Incident
+        </CardTitle>
+        <CardDescription>{NDIS_INCIDENT_CATEGORY_LABELS[hrCase.ndis_incident_category]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ReportableIncidentBadges hrCase={hrCase} />
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Provider Became Aware</p>
+            <p className="font-medium">{formatTimestamp(hrCase.ndis_aware_at)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Commission Reference</p>
+            <p className="font-medium">{hrCase.ndis_commission_reference || '—'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Notification Due</p>
+            <p className="font-medium">{formatTimestamp(hrCase.ndis_notification_due_at)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Notified</p>
+            <p className="font-medium">{formatTimestamp(hrCase.ndis_notified_at)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">5-Day Report Due</p>
+            <p className="font-medium">{formatTimestamp(hrCase.ndis_report_due_at)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">5-Day Report Submitted</p>
+            <p className="font-medium">{formatTimestamp(hrCase.ndis_report_submitted_at)}</p>
+          </div>
+        </div>
+
+        {!hrCase.ndis_notified_at ? (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label htmlFor="ndis_reference">Commission Reference</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="ndis_reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Reference issued on notification"
+                />
+                <Button onClick={handleRecordNotification} disabled={saving}>
+                  Record Notification
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : !hrCase.ndis_report_submitted_at ? (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Submit the 5-day report to the Commission, then record it here.
+              </p>
+              <Button onClick={handleRecordReport} disabled={saving}>
+                Record 5-Day Report
+              </Button>
+            </div>
+          </>
+        ) : null}
+
+        <Separator />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleGeneratePack('pdf')} disabled={generating}>
+            {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+            Notification Pack (PDF)
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleGeneratePack('json')} disabled={generating}>
+            <FileJson className="h-4 w-4 mr-2" />
+            Notification Pack (JSON)
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Lock, Send, UserX } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { cn } from '@/lib/utils';
+import type { HRCase, HRCaseReporterMessage } from '@/types/hrCases';
+
+interface ReporterThreadProps {
+  hrCase: HRCase;
+  messages: HRCaseReporterMessage[];
+  onSend: (body: string) => Promise<boolean>;
+}
+
+/**
+ * Two-way thread with the anonymous reporter of a whistleblower portal case.
+ * Restricted to admins and the assigned investigator.
+ */
+export function ReporterThread({ hrCase, messages, onSend }: ReporterThreadProps) {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const canView = isAdmin || (!!user && hrCase.assigned_investigator_user_id === user.id);
+  if (!hrCase.submitted_via_portal || !canView) return null;
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      if (await onSend(body.trim())) setBody('');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <UserX className="h-4 w-4" />
+          Anonymous Reporter
+          <Badge variant="outline" className="border-red-500 text-red-500">
+            <Lock className="h-3 w-3 mr-1" />
+            Restricted
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          The reporter reads and replies through the whistleblower portal with their case key.
+          They see your messages but not your name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {messages.length === 0 && (
+          <p className="text-sm text-muted-foreground">No messages yet</p>
+        )}
+
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn(
+              'rounded-lg p-3 text-sm max-w-[85%]',
+              message.sender === 'reporter' ? 'bg-muted' : 'bg-primary/10 ml-auto'
+            )}
+          >
+            <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+              <span className="font-medium">
+                {message.sender === 'reporter' ? 'Reporter' : message.sender_name || 'Investigator'}
+              </span>
+              <span>{format(new Date(message.created_at), 'dd MMM yyyy HH:mm')}</span>
+            </div>
+            <p className="whitespace-pre-wrap">{message.body}</p>
+          </div>
+        ))}
+
+        {hrCase.status !== 'closed' && (
+          <div className="flex gap-2 pt-2">
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Message the reporter..."
+              rows={2}
+            />
+            <Button onClick={handleSend} disabled={!body.trim() || sending} className="self-end">
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
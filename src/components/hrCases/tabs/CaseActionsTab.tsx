@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,7 +9,10 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Gavel, Plus, Clock, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { Gavel, Plus, Clock, CheckCircle, XCircle, AlertTriangle, Hourglass } from 'lucide-react';
+import { isWarningAction, resolveValidityMonths, warningExpiryDate } from '@/lib/disciplinaryHistory';
+import { SETTLED_ACTION_STATUSES } from '@/lib/hrCaseTransitions';
+import { hrCasesService } from '@/services/hrCasesService';
 import type { 
   HRCaseAction, 
   CreateActionInput, 
@@ -20,6 +24,7 @@ import type {
 } from '@/types/hrCases';
 
 interface CaseActionsTabProps {
+  organisationId: string;
   actions: HRCaseAction[];
   onAddAction: (input: Omit<CreateActionInput, 'hr_case_id'>) => Promise<boolean>;
   onUpdateAction: (actionId: string, input: UpdateActionInput) => Promise<boolean>;
@@ -36,9 +41,7 @@ const ACTION_TYPES: { value: HRActionType; label: string }[] = [
   { value: 'other', label: 'Other' },
 ];
 
-const WARNING_TYPES: HRActionType[] = ['verbal_warning', 'written_warning', 'final_warning'];
-
-export function CaseActionsTab({ actions, onAddAction, onUpdateAction }: CaseActionsTabProps) {
+export function CaseActionsTab({ organisationId, actions, onAddAction, onUpdateAction }: CaseActionsTabProps) {
   const [adding, setAdding] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -51,7 +54,23 @@ export function CaseActionsTab({ actions, onAddAction, onUpdateAction }: CaseAct
   });
 
   const actionType = watch('action_type');
-  const isWarning = WARNING_TYPES.includes(actionType);
+  const effectiveDate = watch('effective_date');
+  const isWarning = isWarningAction(actionType);
+
+  const { data: validityPeriods = [] } = useQuery({
+    queryKey: ['hr-warning-validity', organisationId],
+    queryFn: () => hrCasesService.getWarningValidityPeriods(organisationId),
+  });
+  const validityMonths = isWarningAction(actionType) ? resolveValidityMonths(validityPeriods, actionType) : null;
+
+  // Suggest the expiry from the warning's validity period; only warnings expire
+  useEffect(() => {
+    if (!validityMonths) {
+      setValue('expiry_date', undefined);
+    } else if (effectiveDate) {
+      setValue('expiry_date', warningExpiryDate(effectiveDate, validityMonths));
+    }
+  }, [validityMonths, effectiveDate, setValue]);
 
   const handleFormSubmit = async (data: Omit<CreateActionInput, 'hr_case_id'>) => {
     setLoading(true);
@@ -89,6 +108,7 @@ export function CaseActionsTab({ actions, onAddAction, onUpdateAction }: CaseAct
       case 'active': return <AlertTriangle className="h-3 w-3" />;
       case 'completed': return <CheckCircle className="h-3 w-3" />;
       case 'withdrawn': return <XCircle className="h-3 w-3" />;
+      case 'expired': return <Hourglass className="h-3 w-3" />;
     }
   };
 
@@ -163,8 +183,12 @@ export function CaseActionsTab({ actions, onAddAction, onUpdateAction }: CaseAct
                         required: isWarning ? 'Warnings must have an expiry date' : false 
                       })}
                     />
-                    {errors.expiry_date && (
+                    {errors.expiry_date ? (
                       <p className="text-sm text-destructive">{errors.expiry_date.message}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Live for {validityMonths} months by default
+                      </p>
                     )}
                   </div>
                 )}
@@ -233,7 +257,7 @@ export function CaseActionsTab({ actions, onAddAction, onUpdateAction }: CaseAct
                 </div>
               </div>
 
-              {action.status !== 'completed' && action.status !== 'withdrawn' && (
+              {!SETTLED_ACTION_STATUSES.includes(action.status) && (
                 <Select
                   value={action.status}
                   onValueChange={(value) => handleStatusChange(action.id, value as HRActionStatus)}
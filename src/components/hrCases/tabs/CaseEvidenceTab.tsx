@@ -7,21 +7,64 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { FileText, Plus, Upload, Lock, ExternalLink, User } from 'lucide-react';
-import type { HRCaseEvidence, HRAccessLevel } from '@/types/hrCases';
+import {
+  FileText,
+  Plus,
+  Lock,
+  ExternalLink,
+  User,
+  Download,
+  ShieldCheck,
+  ShieldAlert,
+  Fingerprint,
+  History,
+  Loader2,
+} from 'lucide-react';
+import { shortHash } from '@/lib/evidenceIntegrity';
+import {
+  CUSTODY_EVENT_LABELS,
+  type EvidenceIntegrityCheck,
+  type HRCaseEvidence,
+  type HRCaseEvidenceCustodyEvent,
+  type HRAccessLevel,
+} from '@/types/hrCases';
 
 interface CaseEvidenceTabProps {
   evidence: HRCaseEvidence[];
+  custodyEvents: HRCaseEvidenceCustodyEvent[];
   onUploadEvidence: (file: File, description?: string, accessLevel?: HRAccessLevel) => Promise<boolean>;
+  onOpenEvidence: (evidenceId: string, disposition: 'view' | 'download') => Promise<boolean>;
+  onVerifyEvidence: (evidenceId: string) => Promise<EvidenceIntegrityCheck | null>;
 }
 
-export function CaseEvidenceTab({ evidence, onUploadEvidence }: CaseEvidenceTabProps) {
+const CHECK_EVENTS = ['verified', 'verification_failed'];
+
+export function CaseEvidenceTab({
+  evidence,
+  custodyEvents,
+  onUploadEvidence,
+  onOpenEvidence,
+  onVerifyEvidence,
+}: CaseEvidenceTabProps) {
   const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [description, setDescription] = useState('');
   const [accessLevel, setAccessLevel] = useState<HRAccessLevel>('normal');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [custodyOpenId, setCustodyOpenId] = useState<string | null>(null);
+
+  const eventsFor = (evidenceId: string) => custodyEvents.filter(e => e.evidence_id === evidenceId);
+
+  const withBusy = async (evidenceId: string, work: () => Promise<unknown>) => {
+    setBusyId(evidenceId);
+    try {
+      await work();
+    } finally {
+      setBusyId(null);
+    }
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -132,44 +175,121 @@ export function CaseEvidenceTab({ evidence, onUploadEvidence }: CaseEvidenceTabP
         </Card>
       )}
 
-      {evidence.map((item) => (
-        <Card key={item.id} className={item.access_level === 'restricted' ? 'border-red-200' : ''}>
-          <CardContent className="py-4">
-            <div className="flex items-start justify-between gap-4">
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-1">
-                  <FileText className="h-4 w-4 text-muted-foreground" />
-                  <span className="font-medium">{item.file_name}</span>
-                  {item.access_level === 'restricted' && (
-                    <Badge variant="outline" className="border-red-500 text-red-500">
-                      <Lock className="h-3 w-3 mr-1" />
-                      Restricted
-                    </Badge>
+      {evidence.map((item) => {
+        const events = eventsFor(item.id);
+        const lastCheck = [...events].reverse().find(e => CHECK_EVENTS.includes(e.event_type));
+        const busy = busyId === item.id;
+
+        return (
+          <Card key={item.id} className={item.access_level === 'restricted' ? 'border-red-200' : ''}>
+            <CardContent className="py-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{item.file_name}</span>
+                    {item.access_level === 'restricted' && (
+                      <Badge variant="outline" className="border-red-500 text-red-500">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Restricted
+                      </Badge>
+                    )}
+                    {lastCheck?.event_type === 'verified' && (
+                      <Badge variant="outline" className="border-green-500 text-green-600">
+                        <ShieldCheck className="h-3 w-3 mr-1" />
+                        Verified {format(new Date(lastCheck.occurred_at), 'dd MMM yyyy')}
+                      </Badge>
+                    )}
+                    {lastCheck?.event_type === 'verification_failed' && (
+                      <Badge variant="destructive">
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                        Failed verification
+                      </Badge>
+                    )}
+                  </div>
+                  {item.description && (
+                    <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
                   )}
+                  <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <User className="h-3 w-3" />
+                      {item.uploaded_by_name || 'Unknown'}
+                    </span>
+                    <span>
+                      {format(new Date(item.uploaded_at), 'dd MMM yyyy HH:mm')}
+                    </span>
+                    <span className="flex items-center gap-1 font-mono" title={item.sha256 ?? undefined}>
+                      <Fingerprint className="h-3 w-3" />
+                      {item.sha256 ? `SHA-256 ${shortHash(item.sha256)}` : 'Not hashed'}
+                    </span>
+                  </div>
                 </div>
-                {item.description && (
-                  <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
-                )}
-                <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                  <span className="flex items-center gap-1">
-                    <User className="h-3 w-3" />
-                    {item.uploaded_by_name || 'Unknown'}
-                  </span>
-                  <span>
-                    {format(new Date(item.uploaded_at), 'dd MMM yyyy HH:mm')}
-                  </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => withBusy(item.id, () => onOpenEvidence(item.id, 'view'))}
+                  >
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    View
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9"
+                    title="Download"
+                    disabled={busy}
+                    onClick={() => withBusy(item.id, () => onOpenEvidence(item.id, 'download'))}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy || !item.sha256}
+                    onClick={() => withBusy(item.id, () => onVerifyEvidence(item.id))}
+                  >
+                    {busy ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                    )}
+                    Verify
+                  </Button>
                 </div>
               </div>
-              <Button variant="outline" size="sm" asChild>
-                <a href={item.file_url} target="_blank" rel="noopener noreferrer">
-                  <ExternalLink className="h-4 w-4 mr-1" />
-                  View
-                </a>
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+
+              <div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground"
+                  onClick={() => setCustodyOpenId(custodyOpenId === item.id ? null : item.id)}
+                >
+                  <History className="h-3 w-3 mr-1" />
+                  Chain of custody ({events.length})
+                </Button>
+                {custodyOpenId === item.id && (
+                  <div className="mt-2 space-y-1 border-l pl-3">
+                    {events.map((event) => (
+                      <div key={event.id} className="text-xs">
+                        <span className={event.event_type === 'verification_failed' ? 'font-medium text-destructive' : 'font-medium'}>
+                          {CUSTODY_EVENT_LABELS[event.event_type]}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {' '}by {event.actor_name || 'Unknown'} on {format(new Date(event.occurred_at), 'dd MMM yyyy HH:mm')}
+                        </span>
+                        {event.note && <p className="text-destructive">{event.note}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 }
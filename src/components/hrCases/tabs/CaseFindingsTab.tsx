@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Scale, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { canTransition } from '@/lib/hrCaseTransitions';
 import type { HRCase, HRCaseFindings, CreateFindingsInput, HRCaseSubstantiation, SUBSTANTIATION_LABELS } from '@/types/hrCases';
 
 interface CaseFindingsTabProps {
@@ -123,9 +124,13 @@ export function CaseFindingsTab({ hrCase, findings, onRecordFindings }: CaseFind
                   Record findings once the investigation is complete.
                 </p>
               </div>
-              <Button onClick={() => setEditing(true)}>
-                Record Findings
-              </Button>
+              {canTransition(hrCase.status, 'decision_made') ? (
+                <Button onClick={() => setEditing(true)}>
+                  Record Findings
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">Move the case to Investigating first</p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -8,14 +8,30 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { MessageSquare, Plus, Lock, User } from 'lucide-react';
-import type { HRCaseNote, CreateNoteInput, HRNoteVisibility } from '@/types/hrCases';
+import { ReporterThread } from '../ReporterThread';
+import type {
+  HRCase,
+  HRCaseNote,
+  HRCaseReporterMessage,
+  CreateNoteInput,
+  HRNoteVisibility,
+} from '@/types/hrCases';
 
 interface CaseNotesTabProps {
+  hrCase: HRCase;
   notes: HRCaseNote[];
+  reporterMessages: HRCaseReporterMessage[];
   onAddNote: (input: Omit<CreateNoteInput, 'hr_case_id'>) => Promise<boolean>;
+  onSendReporterMessage: (body: string) => Promise<boolean>;
 }
 
-export function CaseNotesTab({ notes, onAddNote }: CaseNotesTabProps) {
+export function CaseNotesTab({
+  hrCase,
+  notes,
+  reporterMessages,
+  onAddNote,
+  onSendReporterMessage,
+}: CaseNotesTabProps) {
   const [adding, setAdding] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -41,6 +57,8 @@ export function CaseNotesTab({ notes, onAddNote }: CaseNotesTabProps) {
 
   return (
     <div className="space-y-4">
+      <ReporterThread hrCase={hrCase} messages={reporterMessages} onSend={onSendReporterMessage} />
+
       <div className="flex items-center justify-between">
         <h3 className="font-medium">Case Notes</h3>
         {!adding && (
@@ -8,8 +8,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertTriangle, CheckCircle, Clock } from 'lucide-react';
-import type { HRCase, HRCaseTriage, CreateTriageInput } from '@/types/hrCases';
+import type { HRCase, HRCaseTriage, CreateTriageInput, NdisIncidentCategory } from '@/types/hrCases';
+import { NDIS_INCIDENT_CATEGORY_LABELS } from '@/types/hrCases';
 
 interface CaseTriageTabProps {
   hrCase: HRCase;
@@ -20,6 +22,9 @@ interface CaseTriageTabProps {
 export function CaseTriageTab({ hrCase, triage, onCreateTriage }: CaseTriageTabProps) {
   const [editing, setEditing] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [reportable, setReportable] = useState(false);
+  const [ndisCategory, setNdisCategory] = useState<NdisIncidentCategory | ''>('');
+  const [awareAt, setAwareAt] = useState(() => format(new Date(), "yyyy-MM-dd'T'HH:mm"));
 
   const { register, handleSubmit, watch, setValue, reset } = useForm<Omit<CreateTriageInput, 'hr_case_id'>>({
     defaultValues: {
@@ -32,14 +37,23 @@ export function CaseTriageTab({ hrCase, triage, onCreateTriage }: CaseTriageTabP
 
   const escalationRequired = watch('escalation_required');
 
-  const requiresTriage = hrCase.case_type === 'misconduct' || 
+  const requiresTriage = hrCase.ndis_reportable ||
+                         hrCase.case_type === 'misconduct' || 
                          hrCase.severity === 'high' || 
                          hrCase.severity === 'critical';
 
   const handleFormSubmit = async (data: Omit<CreateTriageInput, 'hr_case_id'>) => {
+    if (reportable && (!ndisCategory || !awareAt)) return;
+
     setLoading(true);
     try {
-      const success = await onCreateTriage(data);
+      const success = await onCreateTriage({
+        ...data,
+        reportable_incident:
+          reportable && ndisCategory
+            ? { category: ndisCategory, aware_at: new Date(awareAt).toISOString() }
+            : undefined,
+      });
       if (success) {
         setEditing(false);
         reset();
@@ -192,11 +206,61 @@ export function CaseTriageTab({ hrCase, triage, onCreateTriage }: CaseTriageTabP
             )}
           </div>
 
+          {!hrCase.ndis_reportable && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="ndis_reportable">NDIS Reportable Incident</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Classifying the case starts the Commission notification and 5-day report clocks.
+                  </p>
+                </div>
+                <Switch
+                  id="ndis_reportable"
+                  checked={reportable}
+                  onCheckedChange={setReportable}
+                />
+              </div>
+
+              {reportable && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Incident Category *</Label>
+                    <Select
+                      value={ndisCategory}
+                      onValueChange={(value) => setNdisCategory(value as NdisIncidentCategory)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(NDIS_INCIDENT_CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ndis_aware_at">Became Aware At *</Label>
+                    <Input
+                      id="ndis_aware_at"
+                      type="datetime-local"
+                      value={awareAt}
+                      onChange={(e) => setAwareAt(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={() => setEditing(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading}>
+            <Button type="submit" disabled={loading || (reportable && !ndisCategory)}>
               {loading ? 'Saving...' : 'Complete Triage'}
             </Button>
           </div>
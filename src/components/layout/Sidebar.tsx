@@ -22,6 +22,8 @@ import {
   BookOpen,
   AlertTriangle,
   FileArchive,
+  Clock,
+  CalendarClock,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
@@ -49,6 +51,8 @@ const allNavItems: NavItem[] = [
   { label: 'Performance', icon: Target, href: '/performance', moduleKey: 'performance' },
   { label: 'HR Cases', icon: AlertTriangle, href: '/hr-cases', moduleKey: 'hr-cases' },
   { label: 'LMS Admin', icon: BookOpen, href: '/lms', moduleKey: 'lms' },
+  { label: 'Rostering', icon: CalendarClock, href: '/rostering', moduleKey: 'rostering' },
+  { label: 'Timesheets', icon: Clock, href: '/timesheets', moduleKey: 'timesheets' },
   { label: 'Payroll', icon: DollarSign, href: '/payroll', moduleKey: 'payroll' },
   { label: 'Payroll Export', icon: FileArchive, href: '/payroll-export', moduleKey: 'payroll-export' },
   { label: 'Audit & Exports', icon: FileArchive, href: '/audit-exports', moduleKey: 'audit-exports' },
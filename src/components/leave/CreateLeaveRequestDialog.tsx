@@ -27,9 +27,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useLeave } from '@/hooks/useLeave';
+import { useLeave, useLeaveProjection } from '@/hooks/useLeave';
 import { useSupabaseEmployees } from '@/hooks/useSupabaseEmployees';
-import { differenceInBusinessDays, parseISO } from 'date-fns';
+import { usePublicHolidays } from '@/hooks/usePublicHolidays';
+import { countLeaveDays } from '@/lib/publicHolidays';
+import { format, parseISO } from 'date-fns';
+import { LeaveForecastChart } from './LeaveForecastChart';
 
 const formSchema = z.object({
   employeeId: z.string().min(1, 'Employee is required'),
@@ -63,6 +66,7 @@ export function CreateLeaveRequestDialog({
 }: CreateLeaveRequestDialogProps) {
   const { leaveTypes, createRequest, isCreatingRequest } = useLeave();
   const { employees } = useSupabaseEmployees();
+  const { holidays } = usePublicHolidays();
   const activeEmployees = employees.filter(e => e.status === 'active');
 
   const form = useForm<FormData>({
@@ -79,13 +83,31 @@ export function CreateLeaveRequestDialog({
 
   const startDate = form.watch('startDate');
   const endDate = form.watch('endDate');
+  const employeeId = form.watch('employeeId');
+  const leaveTypeId = form.watch('leaveTypeId');
+  const hours = form.watch('hours');
+
+  // Balance on the start date, after accruals and other pending requests
+  const { projection, isLoading: projectionLoading } = useLeaveProjection(
+    employeeId || undefined,
+    leaveTypeId || undefined,
+    startDate || undefined,
+  );
+  const projectedAfter = projection ? projection.projected_balance - (hours || 0) : null;
+
+  // Public holidays in the employee's state don't come off the leave balance
+  const getLeaveDays = (start: string, end: string, forEmployeeId: string) => {
+    const employee = employees.find(e => e.id === forEmployeeId);
+    return countLeaveDays(start, end, holidays, employee?.work_state);
+  };
 
   // Auto-calculate hours based on dates
   const calculateHours = () => {
-    if (startDate && endDate) {
+    const { startDate: start, endDate: end, employeeId: empId } = form.getValues();
+    if (start && end) {
       try {
-        const days = differenceInBusinessDays(parseISO(endDate), parseISO(startDate)) + 1;
-        return Math.max(days * 8, 0);
+        const { workingDays } = getLeaveDays(start, end, empId);
+        return Math.max(workingDays * 8, 0);
       } catch {
         return 8;
       }
@@ -93,6 +115,11 @@ export function CreateLeaveRequestDialog({
     return 8;
   };
 
+  const holidayDays =
+    startDate && endDate && parseISO(endDate) >= parseISO(startDate)
+      ? getLeaveDays(startDate, endDate, employeeId).holidayDays
+      : 0;
+
   const onSubmit = (data: FormData) => {
     createRequest({
       employeeId: data.employeeId,
@@ -128,7 +155,14 @@ export function CreateLeaveRequestDialog({
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Employee</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Holidays depend on the employee's state
+                        form.setValue('hours', calculateHours());
+                      }}
+                      value={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select employee" />
@@ -239,11 +273,45 @@ export function CreateLeaveRequestDialog({
                       onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                     />
                   </FormControl>
+                  {holidayDays > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Excludes {holidayDays} public holiday{holidayDays === 1 ? '' : 's'}
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {startDate && leaveTypeId && employeeId && (
+              <div className="rounded-lg border border-border p-3 space-y-2">
+                {projectionLoading || !projection ? (
+                  <p className="text-sm text-muted-foreground">Forecasting balance...</p>
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        Projected on {format(parseISO(startDate), 'd MMM yyyy')}
+                      </span>
+                      <span className="font-mono">{projection.projected_balance.toFixed(1)}h</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">After this request</span>
+                      <span className={`font-mono font-medium ${projectedAfter < 0 ? 'text-destructive' : ''}`}>
+                        {projectedAfter.toFixed(1)}h
+                      </span>
+                    </div>
+                    <LeaveForecastChart projection={projection} requestHours={hours} height={120} />
+                    <p className="text-xs text-muted-foreground">
+                      Current balance {projection.current_balance.toFixed(1)}h
+                      {projection.accrued_hours > 0 && ` · +${projection.accrued_hours.toFixed(1)}h expected accruals`}
+                      {projection.booked_hours > 0 && ` · −${projection.booked_hours.toFixed(1)}h other pending requests`}
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="reason"
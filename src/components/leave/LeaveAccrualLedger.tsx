@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { BookOpen } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useLeaveAccruals } from '@/hooks/useLeave';
+
+interface LeaveAccrualLedgerProps {
+  organisationId?: string;
+}
+
+/**
+ * Every balance credited by an accrual run, with the figures it was
+ * calculated from, so any balance can be traced back to source hours.
+ */
+export function LeaveAccrualLedger({ organisationId }: LeaveAccrualLedgerProps) {
+  const [runId, setRunId] = useState<string>('all');
+  const { runs, ledger, isLoading } = useLeaveAccruals(
+    organisationId,
+    runId === 'all' ? undefined : runId,
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Accrual Ledger
+          </CardTitle>
+          <CardDescription className="mt-1.5">
+            {runs[0]
+              ? `Last run ${format(parseISO(runs[0].started_at), 'PPp')} updated ${runs[0].balances_updated} balance(s).`
+              : 'No accrual runs yet.'}
+          </CardDescription>
+        </div>
+        <Select value={runId} onValueChange={setRunId}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All runs</SelectItem>
+            {runs.map((run) => (
+              <SelectItem key={run.id} value={run.id}>
+                {format(parseISO(run.started_at), 'd MMM yyyy, h:mm a')} · {run.triggered_by === 'schedule' ? 'Scheduled' : 'Manual'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading ledger...
+          </div>
+        ) : ledger.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <BookOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No accruals recorded</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Leave Type</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Basis</TableHead>
+                <TableHead className="text-right">Accrued</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">
+                    {entry.employee ? `${entry.employee.first_name} ${entry.employee.last_name}` : '—'}
+                  </TableCell>
+                  <TableCell>{entry.leave_type?.name ?? '—'}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(parseISO(entry.period_start), 'd MMM')} – {format(parseISO(entry.period_end), 'd MMM yyyy')}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {entry.accrual_basis === 'hours_worked'
+                      ? `${entry.hours_worked}h worked`
+                      : entry.pro_rata_factor !== null && entry.pro_rata_factor < 1
+                        ? `Pro-rata ${Math.round(entry.pro_rata_factor * 100)}%`
+                        : 'Full period'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    +{entry.accrued_hours.toFixed(2)}h
+                    {entry.capped && (
+                      <Badge variant="outline" className="ml-2 text-warning border-warning/40">
+                        Capped
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-muted-foreground">
+                    {entry.balance_before.toFixed(2)} → {entry.balance_after.toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
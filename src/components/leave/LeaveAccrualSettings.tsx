@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Edit2, Loader2, Settings2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ACCRUAL_BASIS_LABELS,
+  ACCRUAL_FREQUENCY_LABELS,
+  type AccrualBasis,
+  type AccrualFrequency,
+  type LeaveType,
+  type LeaveTypeAccrualSettings,
+} from '@/types/leave';
+
+interface LeaveAccrualSettingsProps {
+  leaveTypes: LeaveType[];
+  onSave: (leaveTypeId: string, settings: LeaveTypeAccrualSettings) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+function describeAccrual(leaveType: LeaveType): string {
+  if (leaveType.accrual_basis === 'hours_worked') {
+    return `${leaveType.accrual_rate_per_hour ?? 0}h per hour worked`;
+  }
+  return `${leaveType.accrual_rate_hours}h ${ACCRUAL_FREQUENCY_LABELS[leaveType.accrual_frequency].toLowerCase()}`;
+}
+
+/**
+ * How each accruing leave type builds up. Hours-worked accrual suits casual
+ * and part-time staff, e.g. 0.0769h per hour for four weeks' annual leave.
+ */
+export function LeaveAccrualSettings({ leaveTypes, onSave, isSaving }: LeaveAccrualSettingsProps) {
+  const [editing, setEditing] = useState<LeaveType | null>(null);
+  const [formData, setFormData] = useState<LeaveTypeAccrualSettings | null>(null);
+
+  const accruingTypes = leaveTypes.filter(lt => lt.accrues);
+
+  const handleEdit = (leaveType: LeaveType) => {
+    setEditing(leaveType);
+    setFormData({
+      accrual_basis: leaveType.accrual_basis,
+      accrual_rate_hours: leaveType.accrual_rate_hours,
+      accrual_rate_per_hour: leaveType.accrual_rate_per_hour,
+      accrual_frequency: leaveType.accrual_frequency,
+      max_balance_hours: leaveType.max_balance_hours,
+    });
+  };
+
+  const isValid = !!formData && (
+    formData.accrual_basis === 'hours_worked'
+      ? (formData.accrual_rate_per_hour ?? 0) > 0
+      : formData.accrual_rate_hours >= 0
+  );
+
+  const handleSave = async () => {
+    if (!editing || !formData || !isValid) return;
+    await onSave(editing.id, formData);
+    setEditing(null);
+  };
+
+  const parseOptional = (value: string) => (value === '' ? null : Number(value));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Settings2 className="h-5 w-5" />
+          Accrual Settings
+        </CardTitle>
+        <CardDescription>
+          Accruals run nightly. Fixed accruals are pro-rated for staff who start part way through a period.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {accruingTypes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No leave types accrue.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {accruingTypes.map((leaveType) => (
+              <div
+                key={leaveType.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{leaveType.name}</span>
+                    <Badge variant="secondary">{ACCRUAL_BASIS_LABELS[leaveType.accrual_basis]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {describeAccrual(leaveType)}
+                    {leaveType.max_balance_hours !== null && ` · capped at ${leaveType.max_balance_hours}h`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleEdit(leaveType)}>
+                  <Edit2 className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing?.name} Accrual</DialogTitle>
+            <DialogDescription>Changes apply from the next accrual run.</DialogDescription>
+          </DialogHeader>
+
+          {formData && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Accrual Basis</Label>
+                <Select
+                  value={formData.accrual_basis}
+                  onValueChange={(value) => setFormData({ ...formData, accrual_basis: value as AccrualBasis })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACCRUAL_BASIS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.accrual_basis === 'hours_worked' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="accrual-rate-per-hour">Hours Accrued per Hour Worked</Label>
+                  <Input
+                    id="accrual-rate-per-hour"
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={formData.accrual_rate_per_hour ?? ''}
+                    onChange={(e) => setFormData({ ...formData, accrual_rate_per_hour: parseOptional(e.target.value) })}
+                    placeholder="0.0769"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Counted from approved timesheets since the employee's start date.
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="accrual-rate-hours">Hours per Period</Label>
+                    <Input
+                      id="accrual-rate-hours"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.accrual_rate_hours}
+                      onChange={(e) => setFormData({ ...formData, accrual_rate_hours: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Frequency</Label>
+                    <Select
+                      value={formData.accrual_frequency}
+                      onValueChange={(value) => setFormData({ ...formData, accrual_frequency: value as AccrualFrequency })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ACCRUAL_FREQUENCY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="max-balance-hours">Maximum Balance (hours)</Label>
+                <Input
+                  id="max-balance-hours"
+                  type="number"
+                  min="0"
+                  value={formData.max_balance_hours ?? ''}
+                  onChange={(e) => setFormData({ ...formData, max_balance_hours: parseOptional(e.target.value) })}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!isValid || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -4,10 +4,11 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Search, Plus, TrendingUp } from 'lucide-react';
+import { Search, Plus, TrendingUp, LineChart } from 'lucide-react';
 import { useLeave } from '@/hooks/useLeave';
 import { useSupabaseEmployees } from '@/hooks/useSupabaseEmployees';
 import { AdjustBalanceDialog } from './AdjustBalanceDialog';
+import { LeaveForecastDialog } from './LeaveForecastDialog';
 
 interface LeaveBalancesGridProps {
   onViewEmployee?: (employeeId: string) => void;
@@ -23,6 +24,11 @@ export function LeaveBalancesGrid({ onViewEmployee }: LeaveBalancesGridProps) {
     employeeId: string | null;
     employeeName: string;
   }>({ open: false, employeeId: null, employeeName: '' });
+  const [forecastDialog, setForecastDialog] = useState<{
+    open: boolean;
+    employeeId: string | null;
+    employeeName: string;
+  }>({ open: false, employeeId: null, employeeName: '' });
 
   // Group balances by employee
   const employeeBalances = activeEmployees.map(emp => {
@@ -103,18 +109,33 @@ export function LeaveBalancesGrid({ onViewEmployee }: LeaveBalancesGridProps) {
                         </p>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => setAdjustDialog({
-                        open: true,
-                        employeeId: employee.id,
-                        employeeName: `${employee.first_name} ${employee.last_name}`,
-                      })}
-                    >
-                      <Plus className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Forecast"
+                        onClick={() => setForecastDialog({
+                          open: true,
+                          employeeId: employee.id,
+                          employeeName: `${employee.first_name} ${employee.last_name}`,
+                        })}
+                      >
+                        <LineChart className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setAdjustDialog({
+                          open: true,
+                          employeeId: employee.id,
+                          employeeName: `${employee.first_name} ${employee.last_name}`,
+                        })}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
 
                   <div className="space-y-2">
@@ -153,6 +174,14 @@ export function LeaveBalancesGrid({ onViewEmployee }: LeaveBalancesGridProps) {
         employeeId={adjustDialog.employeeId}
         employeeName={adjustDialog.employeeName}
       />
+
+      <LeaveForecastDialog
+        open={forecastDialog.open}
+        onOpenChange={(open) => setForecastDialog(prev => ({ ...prev, open }))}
+        employeeId={forecastDialog.employeeId}
+        employeeName={forecastDialog.employeeName}
+        leaveTypes={leaveTypes}
+      />
     </>
   );
 }
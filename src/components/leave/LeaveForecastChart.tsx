@@ -0,0 +1,75 @@
+import { format, parseISO } from 'date-fns';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { LeaveBalanceProjection } from '@/types/leave';
+
+interface LeaveForecastChartProps {
+  projection: LeaveBalanceProjection;
+  // Hours of a request being booked; shown as a drop on the target date
+  requestHours?: number;
+  height?: number;
+}
+
+export function LeaveForecastChart({ projection, requestHours, height = 160 }: LeaveForecastChartProps) {
+  const data = projection.points.map(point => ({
+    ...point,
+    label: format(parseISO(point.date), 'd MMM'),
+  }));
+
+  if (requestHours) {
+    data.push({
+      date: projection.target_date,
+      balance: Math.round((projection.projected_balance - requestHours) * 100) / 100,
+      accrued: 0,
+      booked: requestHours,
+      label: format(parseISO(projection.target_date), 'd MMM'),
+    });
+  }
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+          <XAxis
+            dataKey="label"
+            className="text-xs fill-muted-foreground"
+            tick={{ fontSize: 11 }}
+            minTickGap={24}
+          />
+          <YAxis
+            className="text-xs fill-muted-foreground"
+            tick={{ fontSize: 11 }}
+            allowDecimals={false}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--background))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: 12,
+            }}
+            formatter={(value: number) => [`${value.toFixed(1)}h`, 'Balance']}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+          <Area
+            type="stepAfter"
+            dataKey="balance"
+            stroke="hsl(var(--primary))"
+            fill="hsl(var(--primary))"
+            fillOpacity={0.15}
+            strokeWidth={2}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { addMonths, format, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useLeaveProjection } from '@/hooks/useLeave';
+import type { LeaveType } from '@/types/leave';
+import { LeaveForecastChart } from './LeaveForecastChart';
+
+interface LeaveForecastDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string | null;
+  employeeName: string;
+  leaveTypes: LeaveType[];
+}
+
+const HORIZONS = [3, 6, 12];
+
+export function LeaveForecastDialog({
+  open,
+  onOpenChange,
+  employeeId,
+  employeeName,
+  leaveTypes,
+}: LeaveForecastDialogProps) {
+  const [leaveTypeId, setLeaveTypeId] = useState('');
+  const [months, setMonths] = useState(6);
+
+  useEffect(() => {
+    if (open && !leaveTypeId) {
+      setLeaveTypeId((leaveTypes.find(lt => lt.accrues) || leaveTypes[0])?.id || '');
+    }
+  }, [open, leaveTypeId, leaveTypes]);
+
+  const targetDate = format(addMonths(new Date(), months), 'yyyy-MM-dd');
+  const { projection, isLoading } = useLeaveProjection(
+    open && employeeId ? employeeId : undefined,
+    leaveTypeId || undefined,
+    targetDate,
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Balance Forecast</DialogTitle>
+          <DialogDescription>{employeeName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Select value={leaveTypeId} onValueChange={setLeaveTypeId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Leave type" />
+            </SelectTrigger>
+            <SelectContent>
+              {leaveTypes.map((lt) => (
+                <SelectItem key={lt.id} value={lt.id}>{lt.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HORIZONS.map((m) => (
+                <SelectItem key={m} value={String(m)}>Next {m} months</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !projection ? (
+          <div className="text-center py-12 text-sm text-muted-foreground">
+            {leaveTypeId ? 'Forecasting balance...' : 'Select a leave type'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <LeaveForecastChart projection={projection} height={220} />
+
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Current</p>
+                <p className="font-mono font-medium">{projection.current_balance.toFixed(1)}h</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Expected accruals</p>
+                <p className="font-mono font-medium">+{projection.accrued_hours.toFixed(1)}h</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">
+                  On {format(parseISO(projection.target_date), 'd MMM yyyy')}
+                </p>
+                <p className="font-mono font-medium">{projection.projected_balance.toFixed(1)}h</p>
+              </div>
+            </div>
+
+            {projection.average_weekly_hours !== null && (
+              <p className="text-xs text-muted-foreground">
+                Assumes {projection.average_weekly_hours.toFixed(1)} hours worked per week, the recent average.
+              </p>
+            )}
+
+            {projection.commitments.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Upcoming leave</p>
+                {projection.commitments.map((c) => (
+                  <div key={c.request_id} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {format(parseISO(c.start_date), 'd MMM')} – {format(parseISO(c.end_date), 'd MMM yyyy')}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={c.status === 'approved' ? 'secondary' : 'outline'} className="capitalize">
+                        {c.status}
+                      </Badge>
+                      <span className="font-mono">{c.hours.toFixed(1)}h</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { format, parseISO } from 'date-fns';
-import { CheckCircle, XCircle, Ban, AlertTriangle } from 'lucide-react';
+import { CheckCircle, XCircle, Ban, AlertTriangle, Users } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -17,7 +17,8 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { useLeave } from '@/hooks/useLeave';
+import { useLeave, useLeaveProjection, useLeaveStaffingCheck } from '@/hooks/useLeave';
+import { describeStaffingRule } from '@/lib/leaveStaffing';
 import type { LeaveRequest } from '@/types/leave';
 
 interface LeaveRequestListProps {
@@ -25,7 +26,7 @@ interface LeaveRequestListProps {
 }
 
 export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
-  const { leaveRequests, stats, processDecision, isProcessingDecision, getEmployeeBalances } = useLeave();
+  const { leaveRequests, stats, processDecision, isProcessingDecision, getEmployeeBalances, organisationId } = useLeave();
   const [activeTab, setActiveTab] = useState('pending');
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
   const [actionDialog, setActionDialog] = useState<{
@@ -42,6 +43,26 @@ export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
     insufficientBalance: false,
   });
 
+  // Balance on the start date once this request is taken, for approvers
+  const isApproving = actionDialog.open && actionDialog.action === 'approve';
+  const { projection, isLoading: projectionLoading } = useLeaveProjection(
+    isApproving ? selectedRequest?.employee_id : undefined,
+    selectedRequest?.leave_type_id || undefined,
+    selectedRequest?.start_date,
+    { excludeRequestId: selectedRequest?.id },
+  );
+  const projectedAfter = projection && selectedRequest
+    ? projection.projected_balance - selectedRequest.hours
+    : null;
+
+  // Who else is away, and whether approving breaks minimum staffing
+  const { staffingCheck, isLoading: staffingLoading } = useLeaveStaffingCheck(
+    organisationId,
+    isApproving ? selectedRequest : null,
+  );
+  const [staffingOverride, setStaffingOverride] = useState({ override: false, reason: '' });
+  const needsStaffingOverride = isApproving && !!staffingCheck?.requires_override;
+
   const filteredRequests = activeTab === 'all' 
     ? leaveRequests 
     : leaveRequests.filter(r => r.status === activeTab);
@@ -56,6 +77,7 @@ export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
     }
 
     setSelectedRequest(request);
+    setStaffingOverride({ override: false, reason: '' });
     setActionDialog({
       open: true,
       action,
@@ -73,6 +95,8 @@ export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
       action: actionDialog.action,
       reason: actionDialog.reason || undefined,
       override_insufficient_balance: actionDialog.override,
+      override_staffing_rules: staffingOverride.override,
+      staffing_override_reason: staffingOverride.reason || undefined,
     }, {
       onSuccess: () => {
         setActionDialog({ open: false, action: null, reason: '', override: false, insufficientBalance: false });
@@ -158,7 +182,7 @@ export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
                         </p>
                         <p className="text-sm text-muted-foreground">
                           {request.hours} hours
-                          {request.override_reason && (
+                          {(request.override_reason || request.staffing_override_reason) && (
                             <span className="ml-2 text-warning">
                               <AlertTriangle className="inline h-3 w-3 mr-1" />
                               Override applied
@@ -241,6 +265,94 @@ export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
           </DialogHeader>
 
           <div className="space-y-4 py-4">
+            {isApproving && selectedRequest?.leave_type_id && (
+              <div className="p-3 rounded-lg border border-border text-sm space-y-1">
+                {projectionLoading || !projection ? (
+                  <p className="text-muted-foreground">Forecasting balance...</p>
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">
+                        Projected balance on {format(parseISO(selectedRequest.start_date), 'd MMM yyyy')}
+                      </span>
+                      <span className="font-mono">{projection.projected_balance.toFixed(1)}h</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Projected balance after this request</span>
+                      <span className={`font-mono font-medium ${projectedAfter < 0 ? 'text-destructive' : ''}`}>
+                        {projectedAfter.toFixed(1)}h
+                      </span>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {isApproving && (staffingLoading ? (
+              <p className="text-sm text-muted-foreground">Checking staffing...</p>
+            ) : staffingCheck && (staffingCheck.breaches.length > 0 || staffingCheck.clashes.length > 0) && (
+              <div
+                className={`p-3 rounded-lg border ${
+                  staffingCheck.breaches.length > 0
+                    ? 'bg-warning/10 border-warning/20'
+                    : 'border-border'
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  <Users className={`h-5 w-5 flex-shrink-0 mt-0.5 ${staffingCheck.breaches.length > 0 ? 'text-warning' : 'text-muted-foreground'}`} />
+                  <div className="space-y-2 text-sm min-w-0">
+                    {staffingCheck.breaches.map((breach) => (
+                      <div key={breach.rule.id}>
+                        <p className="font-medium text-warning">
+                          Below minimum staffing: {describeStaffingRule(breach.rule)}
+                        </p>
+                        <p className="text-muted-foreground">
+                          {breach.min_available} of {breach.headcount} available, minimum {breach.rule.min_staff}, on{' '}
+                          {breach.dates.slice(0, 3).map(d => format(parseISO(d), 'd MMM')).join(', ')}
+                          {breach.dates.length > 3 && ` and ${breach.dates.length - 3} more day(s)`}
+                        </p>
+                      </div>
+                    ))}
+                    {staffingCheck.clashes.length > 0 && (
+                      <div>
+                        <p className="font-medium">Also away from this department</p>
+                        {staffingCheck.clashes.map((clash) => (
+                          <p key={clash.request_id} className="text-muted-foreground">
+                            {clash.employee_name} · {format(parseISO(clash.start_date), 'd MMM')} –{' '}
+                            {format(parseISO(clash.end_date), 'd MMM')}
+                            {clash.status === 'pending' && ' (pending)'}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {needsStaffingOverride && (
+                      <div className="space-y-2 pt-1">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="staffing-override"
+                            checked={staffingOverride.override}
+                            onCheckedChange={(checked) =>
+                              setStaffingOverride(prev => ({ ...prev, override: !!checked }))
+                            }
+                          />
+                          <Label htmlFor="staffing-override" className="text-sm">
+                            Override minimum staffing (requires reason)
+                          </Label>
+                        </div>
+                        {staffingOverride.override && (
+                          <Textarea
+                            value={staffingOverride.reason}
+                            onChange={(e) => setStaffingOverride(prev => ({ ...prev, reason: e.target.value }))}
+                            placeholder="How will the shifts be covered?"
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+
             {actionDialog.insufficientBalance && actionDialog.action === 'approve' && (
               <div className="p-3 rounded-lg bg-warning/10 border border-warning/20">
                 <div className="flex items-start gap-2">
@@ -299,7 +411,8 @@ export function LeaveRequestList({ onViewEmployee }: LeaveRequestListProps) {
               disabled={
                 isProcessingDecision ||
                 (actionDialog.insufficientBalance && actionDialog.action === 'approve' && !actionDialog.override) ||
-                (actionDialog.override && !actionDialog.reason.trim())
+                (actionDialog.override && !actionDialog.reason.trim()) ||
+                (needsStaffingOverride && (!staffingOverride.override || !staffingOverride.reason.trim()))
               }
               className={
                 actionDialog.action === 'approve' 
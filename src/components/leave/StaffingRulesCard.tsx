@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLeaveStaffing } from '@/hooks/useLeave';
+import { useSupabaseEmployees } from '@/hooks/useSupabaseEmployees';
+import { describeStaffingRule } from '@/lib/leaveStaffing';
+import {
+  STAFFING_ENFORCEMENT_LABELS,
+  type CreateLeaveStaffingRuleInput,
+  type StaffingEnforcement,
+} from '@/types/leave';
+
+interface StaffingRulesCardProps {
+  organisationId?: string;
+}
+
+const ANY = 'any';
+
+const EMPTY_RULE: CreateLeaveStaffingRuleInput = {
+  department: null,
+  position: null,
+  min_staff: 1,
+  enforcement: 'warn',
+};
+
+export function StaffingRulesCard({ organisationId }: StaffingRulesCardProps) {
+  const { rules, createRule, updateRule, deleteRule, isCreatingRule } = useLeaveStaffing(organisationId);
+  const { employees } = useSupabaseEmployees();
+  const [formData, setFormData] = useState<CreateLeaveStaffingRuleInput>(EMPTY_RULE);
+
+  const departments = [...new Set(employees.map(e => e.department).filter(Boolean) as string[])].sort();
+  const positions = [...new Set(
+    employees
+      .filter(e => !formData.department || e.department === formData.department)
+      .map(e => e.position)
+      .filter(Boolean) as string[]
+  )].sort();
+
+  const isValid = (!!formData.department || !!formData.position) && formData.min_staff >= 1;
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+    await createRule(formData);
+    setFormData(EMPTY_RULE);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Minimum Staffing
+        </CardTitle>
+        <CardDescription>
+          Checked when leave is approved. Rules set to require an override can only be broken with a recorded reason.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length > 0 && (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">{describeStaffingRule(rule)}</p>
+                  <p className="text-sm text-muted-foreground">At least {rule.min_staff} working</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Select
+                    value={rule.enforcement}
+                    onValueChange={(value) => updateRule({
+                      ruleId: rule.id,
+                      updates: { enforcement: value as StaffingEnforcement },
+                    })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STAFFING_ENFORCEMENT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) => updateRule({ ruleId: rule.id, updates: { is_active: checked } })}
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteRule(rule.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select
+              value={formData.department ?? ANY}
+              onValueChange={(value) => setFormData({ ...formData, department: value === ANY ? null : value, position: null })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {departments.map((d) => (
+                  <SelectItem key={d} value={d}>{d}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Position</Label>
+            <Select
+              value={formData.position ?? ANY}
+              onValueChange={(value) => setFormData({ ...formData, position: value === ANY ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {positions.map((p) => (
+                  <SelectItem key={p} value={p}>{p}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="min-staff">Minimum Staff</Label>
+            <Input
+              id="min-staff"
+              type="number"
+              min="1"
+              value={formData.min_staff}
+              onChange={(e) => setFormData({ ...formData, min_staff: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>When Broken</Label>
+            <Select
+              value={formData.enforcement}
+              onValueChange={(value) => setFormData({ ...formData, enforcement: value as StaffingEnforcement })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STAFFING_ENFORCEMENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAdd} disabled={!isValid || isCreatingRule}>
+            {isCreatingRule ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
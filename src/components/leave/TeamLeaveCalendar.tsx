@@ -0,0 +1,185 @@
+import { useMemo, useState } from 'react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { useLeave, useLeaveStaffing } from '@/hooks/useLeave';
+import { useSupabaseEmployees } from '@/hooks/useSupabaseEmployees';
+import { coversDate, describeStaffingRule, getStaffingShortfalls } from '@/lib/leaveStaffing';
+import { cn } from '@/lib/utils';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MAX_VISIBLE = 3;
+
+/**
+ * Approved and pending leave by day, filterable by department. Days where
+ * approved leave already takes a team below its minimum are shaded.
+ */
+export function TeamLeaveCalendar() {
+  const { leaveRequests, organisationId } = useLeave();
+  const { employees } = useSupabaseEmployees();
+  const { rules } = useLeaveStaffing(organisationId);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [department, setDepartment] = useState('all');
+
+  const departments = useMemo(
+    () => [...new Set(employees.map(e => e.department).filter(Boolean) as string[])].sort(),
+    [employees]
+  );
+
+  const days = useMemo(
+    () => eachDayOfInterval({
+      start: startOfWeek(month, { weekStartsOn: 1 }),
+      end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+    }),
+    [month]
+  );
+  const dayKeys = days.map(d => format(d, 'yyyy-MM-dd'));
+
+  const bookings = leaveRequests.filter(r =>
+    (r.status === 'approved' || r.status === 'pending') &&
+    r.end_date >= dayKeys[0] &&
+    r.start_date <= dayKeys[dayKeys.length - 1]
+  );
+
+  const visibleBookings = bookings.filter(r =>
+    department === 'all' || r.employee?.department === department
+  );
+
+  const visibleRules = rules.filter(r =>
+    department === 'all' || !r.department || r.department === department
+  );
+  const shortfalls = getStaffingShortfalls(visibleRules, employees, bookings, dayKeys);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Team Calendar
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All departments</SelectItem>
+              {departments.map((d) => (
+                <SelectItem key={d} value={d}>{d}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => setMonth(subMonths(month, 1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-32 text-center font-medium">{format(month, 'MMMM yyyy')}</span>
+          <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 gap-px rounded-lg border border-border bg-border overflow-hidden">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="bg-muted/50 px-2 py-1.5 text-xs font-medium text-muted-foreground">
+              {day}
+            </div>
+          ))}
+          {days.map((day, index) => {
+            const key = dayKeys[index];
+            const away = visibleBookings.filter(b => coversDate(b, key));
+            const dayShortfalls = shortfalls.get(key) || [];
+
+            return (
+              <div
+                key={key}
+                className={cn(
+                  'bg-card min-h-24 p-1.5 space-y-1',
+                  !isSameMonth(day, month) && 'bg-muted/30 text-muted-foreground',
+                  dayShortfalls.length > 0 && 'bg-destructive/5'
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span
+                    className={cn(
+                      'text-xs',
+                      isToday(day) && 'rounded-full bg-primary text-primary-foreground px-1.5 font-medium'
+                    )}
+                  >
+                    {format(day, 'd')}
+                  </span>
+                  {dayShortfalls.length > 0 && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Users className="h-3.5 w-3.5 text-destructive" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {dayShortfalls.map(({ rule, available }) => (
+                          <p key={rule.id}>
+                            {describeStaffingRule(rule)}: {available} available, minimum {rule.min_staff}
+                          </p>
+                        ))}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                </div>
+                {away.slice(0, MAX_VISIBLE).map((booking) => (
+                  <div
+                    key={booking.id}
+                    className={cn(
+                      'truncate rounded px-1 text-xs',
+                      booking.status === 'approved'
+                        ? 'bg-primary/15 text-primary'
+                        : 'border border-dashed border-primary/40 text-muted-foreground'
+                    )}
+                    title={`${booking.employee?.first_name} ${booking.employee?.last_name} · ${booking.leave_type?.name ?? booking.type} (${booking.status})`}
+                  >
+                    {booking.employee?.first_name} {booking.employee?.last_name?.[0]}
+                  </div>
+                ))}
+                {away.length > MAX_VISIBLE && (
+                  <p className="text-xs text-muted-foreground px-1">+{away.length - MAX_VISIBLE} more</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <span className="h-3 w-3 rounded bg-primary/15" /> Approved
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-3 w-3 rounded border border-dashed border-primary/40" /> Pending
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-3 w-3 rounded bg-destructive/10" /> Below minimum staffing
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
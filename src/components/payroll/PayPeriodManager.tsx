@@ -165,6 +165,15 @@ export function PayPeriodManager({
                           Select
                         </Button>
                       )}
+                      {period.status === 'exported' && (
+                        <Button
+                          size="sm"
+                          variant={selectedPayPeriodId === period.id ? 'default' : 'outline'}
+                          onClick={() => onSelectPayPeriod(period)}
+                        >
+                          Adjust
+                        </Button>
+                      )}
                       {period.status === 'exported' && (
                         <Button
                           size="sm"
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Landmark, Loader2 } from 'lucide-react';
+import { isValidAccountNumber, isValidBsb } from '@/lib/abaFile';
+import type { PayrollBankSettings, SavePayrollBankSettingsInput } from '@/types/payroll';
+
+interface PayrollBankSettingsCardProps {
+  settings: PayrollBankSettings | null;
+  onSave: (input: SavePayrollBankSettingsInput) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+const EMPTY_SETTINGS: SavePayrollBankSettingsInput = {
+  financial_institution: '',
+  apca_user_id: '',
+  user_name: '',
+  remitter_name: '',
+  bsb: '',
+  account_number: '',
+  account_name: '',
+};
+
+export function PayrollBankSettingsCard({ settings, onSave, isSaving }: PayrollBankSettingsCardProps) {
+  const [formData, setFormData] = useState<SavePayrollBankSettingsInput>(EMPTY_SETTINGS);
+
+  useEffect(() => {
+    if (settings) {
+      setFormData({
+        financial_institution: settings.financial_institution,
+        apca_user_id: settings.apca_user_id,
+        user_name: settings.user_name,
+        remitter_name: settings.remitter_name,
+        bsb: settings.bsb,
+        account_number: settings.account_number,
+        account_name: settings.account_name,
+      });
+    }
+  }, [settings]);
+
+  const isValid =
+    /^[A-Za-z]{3}$/.test(formData.financial_institution) &&
+    /^\d{6}$/.test(formData.apca_user_id) &&
+    formData.user_name.trim() !== '' &&
+    formData.remitter_name.trim() !== '' &&
+    formData.account_name.trim() !== '' &&
+    isValidBsb(formData.bsb) &&
+    isValidAccountNumber(formData.account_number);
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    await onSave(formData);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Bank File Settings
+        </CardTitle>
+        <CardDescription>
+          Direct entry details for the ABA file generated with payslips. Your bank provides the
+          user ID and institution code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="aba-institution">Financial Institution</Label>
+            <Input
+              id="aba-institution"
+              value={formData.financial_institution}
+              onChange={(e) => setFormData({ ...formData, financial_institution: e.target.value.toUpperCase() })}
+              placeholder="e.g., CBA"
+              maxLength={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="aba-user-id">Direct Entry User ID</Label>
+            <Input
+              id="aba-user-id"
+              value={formData.apca_user_id}
+              onChange={(e) => setFormData({ ...formData, apca_user_id: e.target.value })}
+              placeholder="6 digits"
+              maxLength={6}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="aba-user-name">User Name</Label>
+            <Input
+              id="aba-user-name"
+              value={formData.user_name}
+              onChange={(e) => setFormData({ ...formData, user_name: e.target.value })}
+              placeholder="As registered with your bank"
+              maxLength={26}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="aba-bsb">Funding BSB</Label>
+            <Input
+              id="aba-bsb"
+              value={formData.bsb}
+              onChange={(e) => setFormData({ ...formData, bsb: e.target.value })}
+              placeholder="000-000"
+              maxLength={7}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="aba-account-number">Funding Account Number</Label>
+            <Input
+              id="aba-account-number"
+              value={formData.account_number}
+              onChange={(e) => setFormData({ ...formData, account_number: e.target.value })}
+              maxLength={9}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="aba-account-name">Funding Account Name</Label>
+            <Input
+              id="aba-account-name"
+              value={formData.account_name}
+              onChange={(e) => setFormData({ ...formData, account_name: e.target.value })}
+              maxLength={32}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2 md:w-1/3">
+          <Label htmlFor="aba-remitter">Remitter Name</Label>
+          <Input
+            id="aba-remitter"
+            value={formData.remitter_name}
+            onChange={(e) => setFormData({ ...formData, remitter_name: e.target.value })}
+            placeholder="Shown on employees' statements"
+            maxLength={16}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSubmit} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
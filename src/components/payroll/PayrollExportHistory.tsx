@@ -14,6 +14,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Table,
   TableBody,
@@ -24,7 +30,7 @@ import {
 } from '@/components/ui/table';
 import { Download, XCircle, History, Loader2, FileSpreadsheet } from 'lucide-react';
 import type { PayrollExport } from '@/types/payroll';
-import { PROVIDER_LABELS } from '@/types/payroll';
+import { PAYROLL_EXPORT_TYPE_LABELS, PROVIDER_LABELS } from '@/types/payroll';
 
 interface PayrollExportHistoryProps {
   exports: PayrollExport[];
@@ -119,10 +125,19 @@ export function PayrollExportHistory({
                         </span>
                       )}
                     </TableCell>
-                    <TableCell>{PROVIDER_LABELS[exp.provider]}</TableCell>
+                    <TableCell>
+                      {PROVIDER_LABELS[exp.provider]}
+                      {exp.export_type === 'adjustment' && (
+                        <Badge variant="outline" className="ml-2">
+                          {PAYROLL_EXPORT_TYPE_LABELS[exp.export_type]}
+                        </Badge>
+                      )}
+                    </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
                       {exp.totals_summary.linesCount} lines, {exp.totals_summary.totalHours.toFixed(1)}h,{' '}
                       {exp.totals_summary.employeesCount} employees
+                      {exp.totals_summary.totalEarnings !== undefined &&
+                        `, $${exp.totals_summary.totalEarnings.toFixed(2)} gross`}
                     </TableCell>
                     <TableCell>{getStatusBadge(exp.status)}</TableCell>
                     <TableCell className="text-sm text-muted-foreground">
@@ -130,7 +145,27 @@ export function PayrollExportHistory({
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-1">
-                        {exp.file_urls.length > 0 && (
+                        {exp.file_urls.length > 1 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button size="icon" variant="ghost" disabled={isDownloading}>
+                                {isDownloading ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Download className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="max-h-72 overflow-auto">
+                              {exp.file_urls.map((filePath) => (
+                                <DropdownMenuItem key={filePath} onClick={() => handleDownload(filePath)}>
+                                  {filePath.split('/').pop()}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        {exp.file_urls.length === 1 && (
                           <Button
                             size="icon"
                             variant="ghost"
@@ -170,7 +205,8 @@ export function PayrollExportHistory({
           <DialogHeader>
             <DialogTitle>Void Export</DialogTitle>
             <DialogDescription>
-              This will mark the export as voided. The file will remain but won't be considered valid.
+              This will mark the export as voided. The file will remain but won't be considered valid,
+              and the timesheets it paid will be unlocked so they can be corrected and exported again.
               A reason is required for audit purposes.
             </DialogDescription>
           </DialogHeader>
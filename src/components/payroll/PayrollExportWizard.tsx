@@ -30,14 +30,15 @@ import type {
   ExportValidationResult,
   TimesheetForExport,
 } from '@/types/payroll';
-import { PROVIDER_LABELS, PROVIDER_DESCRIPTIONS } from '@/types/payroll';
+import { PAYROLL_EXPORT_TYPE_LABELS, PROVIDER_LABELS, PROVIDER_DESCRIPTIONS } from '@/types/payroll';
+import { PayrollReconciliationReport } from '@/components/payroll/PayrollReconciliationReport';
 
 interface PayrollExportWizardProps {
   selectedPayPeriod: PayPeriod | null;
   validationResult: ExportValidationResult | null;
   isValidating: boolean;
   isGenerating: boolean;
-  onValidate: (payPeriodId: string) => Promise<ExportValidationResult>;
+  onValidate: (payPeriodId: string, provider: PayrollProvider) => Promise<ExportValidationResult>;
   onGenerate: (payPeriodId: string, provider: PayrollProvider, timesheets: TimesheetForExport[]) => Promise<void>;
   onDownload: (filePath: string) => Promise<string>;
 }
@@ -60,7 +61,7 @@ export function PayrollExportWizard({
 
   const handleValidate = async () => {
     if (!selectedPayPeriod) return;
-    await onValidate(selectedPayPeriod.id);
+    await onValidate(selectedPayPeriod.id, selectedProvider);
     setStep('validation');
   };
 
@@ -85,6 +86,17 @@ export function PayrollExportWizard({
         </p>
       </div>
 
+      {selectedPayPeriod?.status === 'exported' && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Adjustment Export</AlertTitle>
+          <AlertDescription>
+            This pay period has already been exported. This export will only include hours on
+            timesheets changed or added since, and will be linked to the previous export.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <RadioGroup
         value={selectedProvider}
         onValueChange={(value) => setSelectedProvider(value as PayrollProvider)}
@@ -188,6 +200,7 @@ export function PayrollExportWizard({
                   <TableHead>Employee</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Hours</TableHead>
+                  <TableHead>Earning Lines</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -196,11 +209,17 @@ export function PayrollExportWizard({
                     <TableCell className="font-medium">{ts.employee_name}</TableCell>
                     <TableCell>{format(new Date(ts.date), 'dd MMM yyyy')}</TableCell>
                     <TableCell>{ts.total_hours?.toFixed(2) || '-'}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {validationResult.lines
+                        .filter(line => line.timesheet_id === ts.id)
+                        .map(line => `${line.earning_code} ${line.hours.toFixed(2)}h`)
+                        .join(', ')}
+                    </TableCell>
                   </TableRow>
                 ))}
                 {validationResult.timesheets.length > 10 && (
                   <TableRow>
-                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
                       ...and {validationResult.timesheets.length - 10} more timesheets
                     </TableCell>
                   </TableRow>
@@ -211,6 +230,16 @@ export function PayrollExportWizard({
         </div>
       )}
 
+      {validationResult?.exportType === 'adjustment' && validationResult.timesheets.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No timesheets have changed since the previous export for this pay period.
+        </p>
+      )}
+
+      {validationResult && (
+        <PayrollReconciliationReport issues={validationResult.reconciliation} />
+      )}
+
       <div className="flex justify-between">
         <Button variant="outline" onClick={() => setStep('provider')}>
           <ArrowLeft className="h-4 w-4 mr-2" />
@@ -241,6 +270,12 @@ export function PayrollExportWizard({
           <span className="text-muted-foreground">Format</span>
           <span className="font-medium">{PROVIDER_LABELS[selectedProvider]}</span>
         </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Export Type</span>
+          <span className="font-medium">
+            {PAYROLL_EXPORT_TYPE_LABELS[validationResult?.exportType || 'full']}
+          </span>
+        </div>
         <div className="flex justify-between">
           <span className="text-muted-foreground">Pay Period</span>
           <span className="font-medium">
@@ -253,13 +288,33 @@ export function PayrollExportWizard({
           <span className="font-medium">{validationResult?.timesheets.length || 0}</span>
         </div>
         <div className="flex justify-between">
-          <span className="text-muted-foreground">Total Hours</span>
+          <span className="text-muted-foreground">Earning Lines</span>
+          <span className="font-medium">{validationResult?.lines.length || 0}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            {validationResult?.exportType === 'adjustment' ? 'Net Hours Change' : 'Total Hours'}
+          </span>
           <span className="font-medium">
-            {validationResult?.timesheets
-              .reduce((sum, t) => sum + (t.total_hours || 0), 0)
-              .toFixed(2) || '0'}
+            {validationResult?.exportType === 'adjustment'
+              ? validationResult.lines.reduce((sum, l) => sum + l.hours, 0).toFixed(2)
+              : validationResult?.timesheets
+                  .reduce((sum, t) => sum + (t.total_hours || 0), 0)
+                  .toFixed(2) || '0'}
           </span>
         </div>
+        {selectedProvider === 'internal_payslips' && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Files</span>
+            <span className="font-medium">
+              ABA bank file + {new Set(validationResult?.timesheets.map(t => t.employee_id)).size || 0} payslips
+            </span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Reconciliation Issues</span>
+          <span className="font-medium">{validationResult?.reconciliation.length || 0}</span>
+        </div>
         <div className="flex justify-between">
           <span className="text-muted-foreground">Employees</span>
           <span className="font-medium">
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarOff, CheckCircle2, ShieldAlert, UserX, FileQuestion } from 'lucide-react';
+import type { ReconciliationIssue, ReconciliationIssueType } from '@/types/payroll';
+import { RECONCILIATION_ISSUE_LABELS } from '@/types/payroll';
+
+interface PayrollReconciliationReportProps {
+  issues: ReconciliationIssue[];
+}
+
+const ISSUE_ICONS: Record<ReconciliationIssueType, typeof CalendarOff> = {
+  leave_overlap: CalendarOff,
+  no_timesheets: FileQuestion,
+  inactive_employee: UserX,
+  non_compliant_shift: ShieldAlert,
+};
+
+export function PayrollReconciliationReport({ issues }: PayrollReconciliationReportProps) {
+  const [typeFilter, setTypeFilter] = useState<ReconciliationIssueType | 'all'>('all');
+
+  const counts = (Object.keys(RECONCILIATION_ISSUE_LABELS) as ReconciliationIssueType[]).map(type => ({
+    type,
+    count: issues.filter(issue => issue.type === type).length,
+  }));
+
+  const visibleIssues =
+    typeFilter === 'all' ? issues : issues.filter(issue => issue.type === typeFilter);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium">Reconciliation ({issues.length})</h4>
+        {issues.length === 0 && (
+          <span className="flex items-center gap-1 text-sm text-green-700">
+            <CheckCircle2 className="h-4 w-4" />
+            No reconciliation issues
+          </span>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <>
+          <p className="text-sm text-muted-foreground mb-3">
+            These don't block the export, but should be resolved before the pay run to avoid reversals.
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-3">
+            <Button
+              variant={typeFilter === 'all' ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setTypeFilter('all')}
+            >
+              All
+              <Badge variant="outline" className="ml-2">{issues.length}</Badge>
+            </Button>
+            {counts
+              .filter(({ count }) => count > 0)
+              .map(({ type, count }) => {
+                const Icon = ISSUE_ICONS[type];
+                return (
+                  <Button
+                    key={type}
+                    variant={typeFilter === type ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setTypeFilter(type)}
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {RECONCILIATION_ISSUE_LABELS[type]}
+                    <Badge variant="outline" className="ml-2">{count}</Badge>
+                  </Button>
+                );
+              })}
+          </div>
+
+          <div className="border rounded-lg max-h-64 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Issue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleIssues.map((issue, i) => (
+                  <TableRow key={`${issue.type}-${issue.employeeId}-${issue.timesheetId ?? i}`}>
+                    <TableCell className="font-medium whitespace-nowrap">{issue.employeeName}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {issue.date ? format(new Date(issue.date), 'dd MMM yyyy') : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <Badge variant="outline" className="mb-1">
+                        {RECONCILIATION_ISSUE_LABELS[issue.type]}
+                      </Badge>
+                      <p className="text-muted-foreground">{issue.message}</p>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
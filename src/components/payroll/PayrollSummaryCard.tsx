@@ -123,6 +123,15 @@ export function PayrollSummaryCard({ summary, selectedAward, formatCurrency }: P
                 <span>{formatCurrency(summary.overtimePay)}</span>
               </div>
             )}
+
+            {summary.overtimeDoublePay > 0 && (
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-muted-foreground">
+                  Overtime ({selectedAward?.overtime_tier2_multiplier}x)
+                </span>
+                <span>{formatCurrency(summary.overtimeDoublePay)}</span>
+              </div>
+            )}
             
             <Separator />
             
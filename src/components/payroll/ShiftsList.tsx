@@ -79,10 +79,12 @@ export function ShiftsList({ shifts, calculations, onRemoveShift, formatCurrency
                 </TableCell>
                 <TableCell>
                   <div className="flex flex-wrap gap-1">
-                    {shift.isPublicHoliday && (
-                      <Badge variant="destructive" className="text-xs">Public Holiday</Badge>
+                    {(shift.isPublicHoliday || calc?.publicHolidayName) && (
+                      <Badge variant="destructive" className="text-xs">
+                        {calc?.publicHolidayName || 'Public Holiday'}
+                      </Badge>
                     )}
-                    {shift.isOvertime && (
+                    {(shift.isOvertime || (calc && calc.overtimeHours + calc.overtimeDoubleHours > 0)) && (
                       <Badge variant="secondary" className="text-xs">Overtime</Badge>
                     )}
                     {calc && calc.saturdayHours > 0 && (
@@ -97,7 +99,7 @@ export function ShiftsList({ shifts, calculations, onRemoveShift, formatCurrency
                     {calc && calc.nightHours > 0 && !shift.isOvertime && (
                       <Badge variant="outline" className="text-xs">Night</Badge>
                     )}
-                    {calc && calc.baseHours > 0 && !shift.isPublicHoliday && !shift.isOvertime && (
+                    {calc && calc.baseHours > 0 && (
                       <Badge variant="outline" className="text-xs">Base</Badge>
                     )}
                   </div>
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ComplianceBlockAlert } from '@/components/compliance/ComplianceBlockAlert';
+import { useUserRole } from '@/hooks/useUserRole';
+import type { ComplianceResult } from '@/services/complianceService';
+import type { AssignmentOutcome } from '@/services/rosteringService';
+
+interface AssignWorkerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  contextType: 'shift' | 'client';
+  contextId: string;
+  employees: { id: string; first_name: string; last_name: string }[];
+  onAssign: (employeeId: string) => Promise<AssignmentOutcome>;
+}
+
+/**
+ * Picks a worker for a shift or participant. A compliance block is shown
+ * inline; a coordinator can request an override for this shift/participant,
+ * and once a second admin approves it the assignment is retried.
+ */
+export function AssignWorkerDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  contextType,
+  contextId,
+  employees,
+  onAssign,
+}: AssignWorkerDialogProps) {
+  const { isManager } = useUserRole();
+  const [employeeId, setEmployeeId] = useState('');
+  const [blocked, setBlocked] = useState<ComplianceResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEmployeeId('');
+    setBlocked(null);
+  }, [open]);
+
+  const employee = employees.find(e => e.id === employeeId);
+
+  const handleAssign = async () => {
+    if (!employeeId) return;
+    setSubmitting(true);
+    try {
+      const outcome = await onAssign(employeeId);
+      if (outcome.assigned) {
+        onOpenChange(false);
+      } else {
+        setBlocked(outcome.compliance);
+      }
+    } catch {
+      // Already reported by the mutation
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Label>Worker</Label>
+          <Select
+            value={employeeId}
+            onValueChange={(value) => {
+              setEmployeeId(value);
+              setBlocked(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a worker" />
+            </SelectTrigger>
+            <SelectContent>
+              {employees.map((e) => (
+                <SelectItem key={e.id} value={e.id}>
+                  {e.first_name} {e.last_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {blocked && employee && (
+          <ComplianceBlockAlert
+            result={blocked}
+            employeeId={employee.id}
+            employeeName={`${employee.first_name} ${employee.last_name}`}
+            contextType={contextType}
+            contextId={contextId}
+            canOverride={isManager}
+            onOverrideSuccess={handleAssign}
+          />
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={!employeeId || submitting}>
+            {submitting ? 'Checking compliance...' : 'Assign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RequirementsInput } from './RequirementsInput';
+import {
+  WORKER_GENDER_LABELS,
+  type CreateParticipantInput,
+  type Participant,
+  type WorkerGender,
+} from '@/types/rostering';
+
+interface ParticipantDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  participant?: Participant | null;
+  onSave: (input: CreateParticipantInput) => void;
+  saving?: boolean;
+}
+
+const ANY = 'any';
+
+const EMPTY_PARTICIPANT: CreateParticipantInput = {
+  first_name: '',
+  last_name: '',
+  ndis_number: '',
+  phone: '',
+  address: '',
+  worker_gender: null,
+  required_certifications: [],
+  requirement_notes: '',
+};
+
+export function ParticipantDialog({
+  open,
+  onOpenChange,
+  participant,
+  onSave,
+  saving,
+}: ParticipantDialogProps) {
+  const [formData, setFormData] = useState<CreateParticipantInput>(EMPTY_PARTICIPANT);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(participant ? {
+      first_name: participant.first_name,
+      last_name: participant.last_name,
+      ndis_number: participant.ndis_number || '',
+      phone: participant.phone || '',
+      address: participant.address || '',
+      worker_gender: participant.worker_gender,
+      required_certifications: participant.required_certifications,
+      requirement_notes: participant.requirement_notes || '',
+    } : EMPTY_PARTICIPANT);
+  }, [open, participant]);
+
+  const isValid = formData.first_name.trim() && formData.last_name.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{participant ? 'Edit Participant' : 'Add Participant'}</DialogTitle>
+          <DialogDescription>
+            Worker requirements are checked whenever someone is rostered to this participant.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="participant-first-name">First Name *</Label>
+              <Input
+                id="participant-first-name"
+                value={formData.first_name}
+                onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="participant-last-name">Last Name *</Label>
+              <Input
+                id="participant-last-name"
+                value={formData.last_name}
+                onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="participant-ndis">NDIS Number</Label>
+              <Input
+                id="participant-ndis"
+                value={formData.ndis_number}
+                onChange={(e) => setFormData({ ...formData, ndis_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="participant-phone">Phone</Label>
+              <Input
+                id="participant-phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="participant-address">Address</Label>
+            <Input
+              id="participant-address"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Worker Gender</Label>
+            <Select
+              value={formData.worker_gender ?? ANY}
+              onValueChange={(value) => setFormData({
+                ...formData,
+                worker_gender: value === ANY ? null : value as WorkerGender,
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>No preference</SelectItem>
+                {Object.entries(WORKER_GENDER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Required Training & Certificates</Label>
+            <RequirementsInput
+              value={formData.required_certifications || []}
+              onChange={(required_certifications) => setFormData({ ...formData, required_certifications })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="participant-notes">Support Notes</Label>
+            <Textarea
+              id="participant-notes"
+              rows={2}
+              value={formData.requirement_notes}
+              onChange={(e) => setFormData({ ...formData, requirement_notes: e.target.value })}
+              placeholder="Anything workers should know before a shift"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(formData)} disabled={!isValid || saving}>
+            {saving ? 'Saving...' : participant ? 'Save Changes' : 'Add Participant'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { Pencil, ShieldAlert, UserPlus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { complianceService } from '@/services/complianceService';
+import { WORKER_GENDER_LABELS, type Participant, type ParticipantWorker } from '@/types/rostering';
+
+interface ParticipantListProps {
+  participants: Participant[];
+  onEdit: (participant: Participant) => void;
+  onAddWorker: (participant: Participant) => void;
+  onRemoveWorker: (worker: ParticipantWorker) => void;
+}
+
+export function ParticipantList({ participants, onEdit, onAddWorker, onRemoveWorker }: ParticipantListProps) {
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead>Participant</TableHead>
+            <TableHead>Worker Requirements</TableHead>
+            <TableHead>Support Team</TableHead>
+            <TableHead className="w-[140px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {participants.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                No participants yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            participants.map((participant) => (
+              <TableRow key={participant.id} className={participant.status === 'inactive' ? 'opacity-60' : ''}>
+                <TableCell>
+                  <p className="font-medium">{participant.first_name} {participant.last_name}</p>
+                  {participant.ndis_number && (
+                    <p className="text-xs text-muted-foreground">NDIS {participant.ndis_number}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {participant.worker_gender && (
+                      <Badge variant="secondary" className="text-xs">
+                        {WORKER_GENDER_LABELS[participant.worker_gender]}
+                      </Badge>
+                    )}
+                    {participant.required_certifications.map((code) => (
+                      <Badge key={code} variant="secondary" className="text-xs">
+                        {complianceService.getCertificationDisplayName(code)}
+                      </Badge>
+                    ))}
+                    {!participant.worker_gender && participant.required_certifications.length === 0 && (
+                      <span className="text-sm text-muted-foreground">Organisation rules only</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {(participant.workers || []).map((worker) => (
+                      <Badge key={worker.id} variant="outline" className="gap-1">
+                        {worker.compliance_override_id && <ShieldAlert className="h-3 w-3 text-warning" />}
+                        {worker.employee ? `${worker.employee.first_name} ${worker.employee.last_name}` : 'Unknown'}
+                        <X className="h-3 w-3 cursor-pointer" onClick={() => onRemoveWorker(worker)} />
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center justify-end gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onAddWorker(participant)}>
+                      <UserPlus className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(participant)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
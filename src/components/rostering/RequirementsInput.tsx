@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CERTIFICATION_TYPE_OPTIONS } from '@/lib/complianceRules';
+import { toRequirementCode } from '@/lib/rostering';
+import { complianceService } from '@/services/complianceService';
+
+interface RequirementsInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+/**
+ * Certificate/training requirements as codes. Known certificate types can be
+ * picked; anything else (e.g. "PEG feeding") is typed and matched on the
+ * certificate's name.
+ */
+export function RequirementsInput({ value, onChange }: RequirementsInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const add = (requirement: string) => {
+    const code = toRequirementCode(requirement);
+    if (code && !value.includes(code)) onChange([...value, code]);
+  };
+
+  const suggestions = CERTIFICATION_TYPE_OPTIONS.filter(o => !value.includes(o.value));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((code) => (
+            <Badge key={code} variant="secondary" className="gap-1">
+              {complianceService.getCertificationDisplayName(code)}
+              <X
+                className="h-3 w-3 cursor-pointer"
+                onClick={() => onChange(value.filter(v => v !== code))}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              add(draft);
+              setDraft('');
+            }
+          }}
+          placeholder="e.g. Manual handling, PEG feeding"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          disabled={!draft.trim()}
+          onClick={() => {
+            add(draft);
+            setDraft('');
+          }}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map((option) => (
+            <Badge
+              key={option.value}
+              variant="outline"
+              className="cursor-pointer text-xs font-normal"
+              onClick={() => add(option.value)}
+            >
+              + {option.label}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RequirementsInput } from './RequirementsInput';
+import type { CreateShiftInput, Participant } from '@/types/rostering';
+
+interface ShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  participants: Participant[];
+  defaultDate?: Date;
+  onSave: (input: CreateShiftInput) => void;
+  saving?: boolean;
+}
+
+const NO_PARTICIPANT = 'none';
+
+export function ShiftDialog({
+  open,
+  onOpenChange,
+  participants,
+  defaultDate,
+  onSave,
+  saving,
+}: ShiftDialogProps) {
+  const [participantId, setParticipantId] = useState(NO_PARTICIPANT);
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [location, setLocation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [requiresDriving, setRequiresDriving] = useState(false);
+  const [requirements, setRequirements] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setParticipantId(NO_PARTICIPANT);
+    setDate(format(defaultDate || new Date(), 'yyyy-MM-dd'));
+    setStartTime('09:00');
+    setEndTime('13:00');
+    setLocation('');
+    setNotes('');
+    setRequiresDriving(false);
+    setRequirements([]);
+  }, [open, defaultDate]);
+
+  const activeParticipants = participants.filter(p => p.status === 'active');
+
+  const handleSave = () => {
+    const start = new Date(`${date}T${startTime}`);
+    let end = new Date(`${date}T${endTime}`);
+    // Overnight shifts finish the next day
+    if (end <= start) end = addDays(end, 1);
+
+    onSave({
+      participant_id: participantId === NO_PARTICIPANT ? null : participantId,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      location,
+      notes,
+      requires_driving: requiresDriving,
+      required_certifications: requirements,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Shift</DialogTitle>
+          <DialogDescription>
+            Create an open shift, then assign a worker who meets its requirements.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Participant</Label>
+            <Select value={participantId} onValueChange={setParticipantId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARTICIPANT}>No participant</SelectItem>
+                {activeParticipants.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.first_name} {p.last_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shift-date">Date</Label>
+              <Input id="shift-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift-start">Start</Label>
+              <Input id="shift-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift-end">End</Label>
+              <Input id="shift-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shift-location">Location</Label>
+            <Input id="shift-location" value={location} onChange={(e) => setLocation(e.target.value)} />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">Involves driving</p>
+              <p className="text-xs text-muted-foreground">The worker will need a current driver's licence.</p>
+            </div>
+            <Switch checked={requiresDriving} onCheckedChange={setRequiresDriving} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Extra Requirements for This Shift</Label>
+            <RequirementsInput value={requirements} onChange={setRequirements} />
+            <p className="text-xs text-muted-foreground">
+              The participant's own requirements always apply.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shift-notes">Notes</Label>
+            <Textarea id="shift-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!date || !startTime || !endTime || saving}>
+            {saving ? 'Creating...' : 'Create Shift'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import { addDays, format, isSameDay, parseISO } from 'date-fns';
+import { Car, MoreHorizontal, ShieldAlert, UserPlus } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { complianceService } from '@/services/complianceService';
+import { shiftDurationHours } from '@/lib/rostering';
+import { SHIFT_STATUS_LABELS, WORKER_GENDER_LABELS, type Shift } from '@/types/rostering';
+
+interface ShiftRosterProps {
+  weekStart: Date;
+  shifts: Shift[];
+  onAssign: (shift: Shift) => void;
+  onUnassign: (shift: Shift) => void;
+  onCancel: (shift: Shift) => void;
+}
+
+const STATUS_VARIANTS: Record<Shift['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  open: 'outline',
+  assigned: 'default',
+  completed: 'secondary',
+  cancelled: 'destructive',
+};
+
+export function ShiftRoster({ weekStart, shifts, onAssign, onUnassign, onCancel }: ShiftRosterProps) {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <div className="space-y-4">
+      {days.map((day) => {
+        const dayShifts = shifts.filter(s => isSameDay(parseISO(s.start_time), day));
+        return (
+          <Card key={day.toISOString()}>
+            <CardContent className="pt-4 space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">{format(day, 'EEEE d MMM')}</p>
+              {dayShifts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No shifts</p>
+              ) : (
+                dayShifts.map((shift) => {
+                  const requirements = [
+                    ...(shift.participant?.required_certifications || []),
+                    ...shift.required_certifications,
+                  ];
+                  const isLive = shift.status === 'open' || shift.status === 'assigned';
+                  return (
+                    <div
+                      key={shift.id}
+                      className="flex items-start justify-between gap-4 p-3 rounded-lg border border-border"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono text-sm">
+                            {format(parseISO(shift.start_time), 'HH:mm')}–{format(parseISO(shift.end_time), 'HH:mm')}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {shiftDurationHours(shift).toFixed(1)}h
+                          </span>
+                          <Badge variant={STATUS_VARIANTS[shift.status]}>{SHIFT_STATUS_LABELS[shift.status]}</Badge>
+                          {shift.compliance_override_id && (
+                            <Badge variant="outline" className="gap-1 text-warning border-warning/50">
+                              <ShieldAlert className="h-3 w-3" />
+                              Compliance override
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="font-medium">
+                          {shift.participant
+                            ? `${shift.participant.first_name} ${shift.participant.last_name}`
+                            : 'No participant'}
+                          <span className="text-muted-foreground font-normal">
+                            {' · '}
+                            {shift.employee ? `${shift.employee.first_name} ${shift.employee.last_name}` : 'Unassigned'}
+                          </span>
+                        </p>
+                        {shift.location && <p className="text-sm text-muted-foreground">{shift.location}</p>}
+                        {(requirements.length > 0 || shift.requires_driving || shift.participant?.worker_gender) && (
+                          <div className="flex flex-wrap gap-1">
+                            {shift.participant?.worker_gender && (
+                              <Badge variant="secondary" className="text-xs">
+                                {WORKER_GENDER_LABELS[shift.participant.worker_gender]}
+                              </Badge>
+                            )}
+                            {shift.requires_driving && (
+                              <Badge variant="secondary" className="text-xs gap-1">
+                                <Car className="h-3 w-3" />
+                                Driving
+                              </Badge>
+                            )}
+                            {[...new Set(requirements)].map((code) => (
+                              <Badge key={code} variant="secondary" className="text-xs">
+                                {complianceService.getCertificationDisplayName(code)}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      {isLive && (
+                        <div className="flex items-center gap-2">
+                          {shift.status === 'open' && (
+                            <Button size="sm" variant="outline" onClick={() => onAssign(shift)}>
+                              <UserPlus className="h-4 w-4 mr-2" />
+                              Assign
+                            </Button>
+                          )}
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {shift.status === 'assigned' && (
+                                <DropdownMenuItem onClick={() => onUnassign(shift)}>
+                                  Unassign worker
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem className="text-destructive" onClick={() => onCancel(shift)}>
+                                Cancel shift
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
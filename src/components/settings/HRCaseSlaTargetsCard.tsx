@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { hrCasesService } from '@/services/hrCasesService';
+import { DEFAULT_SLA_TARGETS, SLA_STATUSES, type SlaStatus } from '@/lib/hrCaseSla';
+import {
+  CASE_SEVERITY_LABELS,
+  CASE_STATUS_LABELS,
+  CASE_TYPE_LABELS,
+  type HRCaseSeverity,
+  type HRCaseSlaTarget,
+  type HRCaseType,
+} from '@/types/hrCases';
+
+const SEVERITIES: HRCaseSeverity[] = ['critical', 'high', 'medium', 'low'];
+const MAX_TARGET_DAYS = 90;
+
+const cellKey = (status: SlaStatus, severity: HRCaseSeverity) => `${status}:${severity}`;
+
+function savedValue(
+  targets: HRCaseSlaTarget[] | undefined,
+  caseType: HRCaseType,
+  status: SlaStatus,
+  severity: HRCaseSeverity
+): string {
+  const target = targets?.find(
+    t => t.case_type === caseType && t.status === status && t.severity === severity
+  );
+  return target ? String(target.target_business_days) : '';
+}
+
+interface HRCaseSlaTargetsCardProps {
+  organisationId?: string;
+}
+
+/**
+ * Business days a case may sit in each status before it is escalated, per
+ * case type and severity. Blank uses the default.
+ */
+export function HRCaseSlaTargetsCard({ organisationId }: HRCaseSlaTargetsCardProps) {
+  const queryClient = useQueryClient();
+  const [caseType, setCaseType] = useState<HRCaseType>('incident');
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const { data: targets, isLoading } = useQuery({
+    queryKey: ['hr-case-sla-targets', organisationId],
+    queryFn: () => hrCasesService.getSlaTargets(organisationId!),
+    enabled: !!organisationId,
+  });
+
+  useEffect(() => {
+    if (!targets) return;
+    const next: Record<string, string> = {};
+    SLA_STATUSES.forEach(status =>
+      SEVERITIES.forEach(severity => {
+        next[cellKey(status, severity)] = savedValue(targets, caseType, status, severity);
+      })
+    );
+    setDraft(next);
+  }, [targets, caseType]);
+
+  const changed = SLA_STATUSES.flatMap(status =>
+    SEVERITIES.map(severity => ({ status, severity, value: (draft[cellKey(status, severity)] ?? '').trim() }))
+      .filter(({ severity, value }) => value !== savedValue(targets, caseType, status, severity))
+  );
+
+  const handleSave = async () => {
+    if (!organisationId) return;
+    const invalid = changed.some(({ value }) => {
+      if (value === '') return false;
+      const days = Number(value);
+      return !Number.isInteger(days) || days < 1 || days > MAX_TARGET_DAYS;
+    });
+    if (invalid) {
+      toast({
+        title: 'Invalid target',
+        description: `Enter a whole number of business days between 1 and ${MAX_TARGET_DAYS}, or leave it blank.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const { status, severity, value } of changed) {
+        await hrCasesService.setSlaTarget(
+          organisationId,
+          caseType,
+          severity,
+          status,
+          value === '' ? null : Number(value)
+        );
+      }
+      toast({ title: 'SLA targets saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save SLA targets',
+        variant: 'destructive',
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['hr-case-sla-targets', organisationId] });
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Case SLA Targets
+          </CardTitle>
+          <CardDescription>
+            Business days a case may stay in each status before the investigator and admins are
+            notified. Leave blank to use the default shown.
+          </CardDescription>
+        </div>
+        <Select value={caseType} onValueChange={(value) => setCaseType(value as HRCaseType)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CASE_TYPE_LABELS) as HRCaseType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {CASE_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {!organisationId ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Select an organisation to manage SLA targets
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Status</TableHead>
+                  {SEVERITIES.map((severity) => (
+                    <TableHead key={severity} className="w-28">
+                      {CASE_SEVERITY_LABELS[severity]}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {SLA_STATUSES.map((status) => (
+                  <TableRow key={status}>
+                    <TableCell className="font-medium">{CASE_STATUS_LABELS[status]}</TableCell>
+                    {SEVERITIES.map((severity) => (
+                      <TableCell key={severity}>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_TARGET_DAYS}
+                          placeholder={String(DEFAULT_SLA_TARGETS[status][severity])}
+                          value={draft[cellKey(status, severity)] ?? ''}
+                          onChange={(e) => setDraft({ ...draft, [cellKey(status, severity)]: e.target.value })}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={changed.length === 0 || saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Targets
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
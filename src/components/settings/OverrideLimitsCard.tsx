@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { complianceService } from '@/services/complianceService';
+import { CERTIFICATION_TYPE_OPTIONS } from '@/lib/complianceRules';
+import { DEFAULT_MAX_OVERRIDE_DAYS } from '@/lib/complianceOverrides';
+
+interface OverrideLimitsCardProps {
+  organisationId?: string;
+}
+
+/**
+ * Maximum override length per certificate type. Blank uses the overall limit.
+ */
+export function OverrideLimitsCard({ organisationId }: OverrideLimitsCardProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const { data: limits, isLoading } = useQuery({
+    queryKey: ['compliance-override-limits', organisationId],
+    queryFn: () => complianceService.getOverrideLimits(organisationId!),
+    enabled: !!organisationId,
+  });
+
+  useEffect(() => {
+    if (!limits) return;
+    setDraft(Object.fromEntries(Object.entries(limits).map(([type, days]) => [type, String(days)])));
+  }, [limits]);
+
+  const handleSave = async (type: string) => {
+    if (!organisationId) return;
+    const value = (draft[type] || '').trim();
+    const maxDays = value === '' ? null : Number(value);
+    if (maxDays !== null && (!Number.isInteger(maxDays) || maxDays < 1 || maxDays > DEFAULT_MAX_OVERRIDE_DAYS)) {
+      toast({
+        title: 'Invalid limit',
+        description: `Enter a whole number of days between 1 and ${DEFAULT_MAX_OVERRIDE_DAYS}, or leave it blank.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(type);
+    try {
+      await complianceService.setOverrideLimit(organisationId, type, maxDays);
+      queryClient.invalidateQueries({ queryKey: ['compliance-override-limits', organisationId] });
+      toast({ title: 'Override limit saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save override limit',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Override Limits
+        </CardTitle>
+        <CardDescription>
+          The longest compliance override that can be requested for each certificate.
+          Leave blank to allow up to {DEFAULT_MAX_OVERRIDE_DAYS} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!organisationId ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Select an organisation to manage override limits
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Certificate</TableHead>
+                <TableHead className="w-40">Max days</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {CERTIFICATION_TYPE_OPTIONS.map((option) => {
+                const saved = limits?.[option.value];
+                const current = draft[option.value] ?? '';
+                const dirty = current !== (saved === undefined ? '' : String(saved));
+                return (
+                  <TableRow key={option.value}>
+                    <TableCell className="font-medium">{option.label}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={DEFAULT_MAX_OVERRIDE_DAYS}
+                        placeholder={String(DEFAULT_MAX_OVERRIDE_DAYS)}
+                        value={current}
+                        onChange={(e) => setDraft({ ...draft, [option.value]: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!dirty || saving === option.value}
+                        onClick={() => handleSave(option.value)}
+                      >
+                        {saving === option.value && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Save
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
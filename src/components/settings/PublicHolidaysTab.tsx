@@ -0,0 +1,390 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { usePublicHolidays } from '@/hooks/usePublicHolidays';
+import { parseHolidayCsv, parseHolidayIcal } from '@/lib/publicHolidays';
+import {
+  HOLIDAY_REGIONS,
+  HOLIDAY_REGION_LABELS,
+  PUBLIC_HOLIDAY_SOURCE_LABELS,
+  type PublicHolidayImportResult,
+} from '@/types/publicHolidays';
+
+interface PublicHolidaysTabProps {
+  organisationId?: string;
+  canManage: boolean;
+}
+
+function RegionPicker({
+  value,
+  onChange,
+  idPrefix,
+}: {
+  value: string[];
+  onChange: (regions: string[]) => void;
+  idPrefix: string;
+}) {
+  const toggle = (region: string, checked: boolean) => {
+    onChange(checked ? [...value, region].sort() : value.filter(r => r !== region));
+  };
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {HOLIDAY_REGIONS.map(region => (
+        <div key={region} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${region}`}
+            checked={value.includes(region)}
+            onCheckedChange={checked => toggle(region, checked === true)}
+          />
+          <Label
+            htmlFor={`${idPrefix}-${region}`}
+            className="text-sm font-normal cursor-pointer"
+            title={HOLIDAY_REGION_LABELS[region]}
+          >
+            {region}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function PublicHolidaysTab({ organisationId, canManage }: PublicHolidaysTabProps) {
+  const {
+    holidays,
+    isLoading,
+    createHoliday,
+    deleteHoliday,
+    importHolidays,
+    isCreating,
+    isImporting,
+  } = usePublicHolidays(organisationId);
+
+  const currentYear = new Date().getFullYear().toString();
+  const [year, setYear] = useState(currentYear);
+  const [regionFilter, setRegionFilter] = useState('all');
+
+  const [addOpen, setAddOpen] = useState(false);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [holidayRegions, setHolidayRegions] = useState<string[]>([]);
+
+  const [importOpen, setImportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importRegions, setImportRegions] = useState<string[]>([]);
+  const [importPreview, setImportPreview] = useState<PublicHolidayImportResult | null>(null);
+
+  const years = useMemo(() => {
+    const set = new Set([currentYear, ...holidays.map(h => h.holiday_date.slice(0, 4))]);
+    return [...set].sort();
+  }, [holidays, currentYear]);
+
+  const filteredHolidays = useMemo(
+    () =>
+      holidays.filter(h => {
+        if (!h.holiday_date.startsWith(year)) return false;
+        if (regionFilter === 'all') return true;
+        return h.regions.length === 0 || h.regions.includes(regionFilter);
+      }),
+    [holidays, year, regionFilter]
+  );
+
+  const openAddDialog = () => {
+    setHolidayDate('');
+    setHolidayName('');
+    setHolidayRegions([]);
+    setAddOpen(true);
+  };
+
+  const handleAdd = async () => {
+    if (!holidayDate || !holidayName.trim()) return;
+    await createHoliday({
+      holiday_date: holidayDate,
+      name: holidayName.trim(),
+      regions: holidayRegions,
+    });
+    setAddOpen(false);
+  };
+
+  const openImportDialog = () => {
+    setImportFile(null);
+    setImportRegions([]);
+    setImportPreview(null);
+    setImportOpen(true);
+  };
+
+  const isIcal = (file: File) => /\.(ics|ical)$/i.test(file.name);
+
+  const parseImportFile = async (file: File | null, regions: string[]) => {
+    if (!file) {
+      setImportPreview(null);
+      return;
+    }
+    const text = await file.text();
+    setImportPreview(isIcal(file) ? parseHolidayIcal(text, regions) : parseHolidayCsv(text, regions));
+  };
+
+  const handleImport = async () => {
+    if (!importFile || !importPreview || importPreview.holidays.length === 0) return;
+    await importHolidays(importPreview.holidays, isIcal(importFile) ? 'ical' : 'csv');
+    setImportOpen(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <div>
+          <CardTitle className="text-lg">Public Holidays</CardTitle>
+          <CardDescription>
+            Holidays are paid at the public holiday rate and don't count against leave balances
+          </CardDescription>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={openImportDialog} disabled={!organisationId}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button size="sm" onClick={openAddDialog} disabled={!organisationId}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Holiday
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select value={year} onValueChange={setYear}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(y => (
+                <SelectItem key={y} value={y}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={regionFilter} onValueChange={setRegionFilter}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All States</SelectItem>
+              {HOLIDAY_REGIONS.map(region => (
+                <SelectItem key={region} value={region}>{HOLIDAY_REGION_LABELS[region]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!organisationId ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarDays className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>Select an organisation to view public holidays</p>
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : filteredHolidays.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarDays className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No public holidays for {year}</p>
+            {canManage && (
+              <p className="text-sm mt-1">Add holidays manually or import a CSV / iCal file</p>
+            )}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Holiday</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Source</TableHead>
+                {canManage && <TableHead className="w-[60px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredHolidays.map(holiday => (
+                <TableRow key={holiday.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(parseISO(holiday.holiday_date), 'EEE, dd MMM yyyy')}
+                  </TableCell>
+                  <TableCell className="font-medium">{holiday.name}</TableCell>
+                  <TableCell>
+                    {holiday.regions.length === 0 ? (
+                      <Badge variant="secondary">National</Badge>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {holiday.regions.map(region => (
+                          <Badge key={region} variant="outline">{region}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {PUBLIC_HOLIDAY_SOURCE_LABELS[holiday.source]}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => deleteHoliday(holiday)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add Holiday Dialog */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Public Holiday</DialogTitle>
+            <DialogDescription>
+              Leave all states unticked for a national holiday
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="holiday-date">Date *</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  value={holidayDate}
+                  onChange={e => setHolidayDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holiday-name">Name *</Label>
+                <Input
+                  id="holiday-name"
+                  value={holidayName}
+                  onChange={e => setHolidayName(e.target.value)}
+                  placeholder="e.g., Melbourne Cup Day"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>States</Label>
+              <RegionPicker value={holidayRegions} onChange={setHolidayRegions} idPrefix="holiday-region" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={!holidayDate || !holidayName.trim() || isCreating}>
+              {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Holiday
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Dialog */}
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Public Holidays</DialogTitle>
+            <DialogDescription>
+              CSV files need date and name columns, with an optional state/jurisdiction column.
+              iCal (.ics) events are tagged with the states selected below.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="holiday-import-file">File</Label>
+              <Input
+                id="holiday-import-file"
+                type="file"
+                accept=".csv,.ics,.ical,text/csv,text/calendar"
+                onChange={e => {
+                  const file = e.target.files?.[0] || null;
+                  setImportFile(file);
+                  parseImportFile(file, importRegions);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>States</Label>
+              <p className="text-xs text-muted-foreground">
+                Used for iCal events and CSV rows without a state. Leave unticked for national.
+              </p>
+              <RegionPicker
+                value={importRegions}
+                onChange={regions => {
+                  setImportRegions(regions);
+                  parseImportFile(importFile, regions);
+                }}
+                idPrefix="holiday-import-region"
+              />
+            </div>
+            {importPreview && (
+              <div className="rounded-lg border p-3 text-sm space-y-1">
+                <p className="font-medium">
+                  {importPreview.holidays.length} holiday{importPreview.holidays.length === 1 ? '' : 's'} found
+                </p>
+                {importPreview.errors.slice(0, 5).map(error => (
+                  <p key={error} className="text-destructive text-xs">{error}</p>
+                ))}
+                {importPreview.errors.length > 5 && (
+                  <p className="text-xs text-muted-foreground">
+                    and {importPreview.errors.length - 5} more issues
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!importPreview || importPreview.holidays.length === 0 || isImporting}
+            >
+              {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
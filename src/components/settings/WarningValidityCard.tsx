@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Hourglass, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { hrCasesService } from '@/services/hrCasesService';
+import { DEFAULT_WARNING_VALIDITY_MONTHS, WARNING_ACTION_TYPES } from '@/lib/disciplinaryHistory';
+import {
+  ACTION_TYPE_LABELS,
+  type HRWarningValidityPeriod,
+  type WarningActionType,
+} from '@/types/hrCases';
+
+const MAX_VALIDITY_MONTHS = 60;
+
+function savedValue(periods: HRWarningValidityPeriod[] | undefined, actionType: WarningActionType): string {
+  const period = periods?.find(p => p.action_type === actionType);
+  return period ? String(period.validity_months) : '';
+}
+
+interface WarningValidityCardProps {
+  organisationId?: string;
+}
+
+/**
+ * Months each kind of warning stays live on an employee's record before it
+ * expires. Blank uses the default.
+ */
+export function WarningValidityCard({ organisationId }: WarningValidityCardProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Partial<Record<WarningActionType, string>>>({});
+  const [saving, setSaving] = useState(false);
+
+  const { data: periods, isLoading } = useQuery({
+    queryKey: ['hr-warning-validity', organisationId],
+    queryFn: () => hrCasesService.getWarningValidityPeriods(organisationId!),
+    enabled: !!organisationId,
+  });
+
+  useEffect(() => {
+    if (!periods) return;
+    setDraft(Object.fromEntries(WARNING_ACTION_TYPES.map(type => [type, savedValue(periods, type)])));
+  }, [periods]);
+
+  const changed = WARNING_ACTION_TYPES
+    .map(actionType => ({ actionType, value: (draft[actionType] ?? '').trim() }))
+    .filter(({ actionType, value }) => value !== savedValue(periods, actionType));
+
+  const handleSave = async () => {
+    if (!organisationId) return;
+    const invalid = changed.some(({ value }) => {
+      if (value === '') return false;
+      const months = Number(value);
+      return !Number.isInteger(months) || months < 1 || months > MAX_VALIDITY_MONTHS;
+    });
+    if (invalid) {
+      toast({
+        title: 'Invalid validity period',
+        description: `Enter a whole number of months between 1 and ${MAX_VALIDITY_MONTHS}, or leave it blank.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const { actionType, value } of changed) {
+        await hrCasesService.setWarningValidityPeriod(organisationId, actionType, value === '' ? null : Number(value));
+      }
+      toast({ title: 'Warning validity saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save warning validity',
+        variant: 'destructive',
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['hr-warning-validity', organisationId] });
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Hourglass className="h-5 w-5" />
+          Warning Validity
+        </CardTitle>
+        <CardDescription>
+          Months a warning stays live after it takes effect. Warnings expire automatically the
+          day after. Changes apply to warnings issued from now on. Leave blank to use the default shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!organisationId ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Select an organisation to manage warning validity
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              {WARNING_ACTION_TYPES.map((actionType) => (
+                <div key={actionType} className="space-y-2">
+                  <Label htmlFor={`validity_${actionType}`}>{ACTION_TYPE_LABELS[actionType]}</Label>
+                  <Input
+                    id={`validity_${actionType}`}
+                    type="number"
+                    min={1}
+                    max={MAX_VALIDITY_MONTHS}
+                    placeholder={String(DEFAULT_WARNING_VALIDITY_MONTHS[actionType])}
+                    value={draft[actionType] ?? ''}
+                    onChange={(e) => setDraft({ ...draft, [actionType]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={changed.length === 0 || saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Validity
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/hooks/use-toast';
+import { whistleblowerService } from '@/services/whistleblowerService';
+
+interface WhistleblowerPortalCardProps {
+  organisationId?: string;
+}
+
+/**
+ * Turns the public whistleblower portal on or off and shares its link.
+ */
+export function WhistleblowerPortalCard({ organisationId }: WhistleblowerPortalCardProps) {
+  const queryClient = useQueryClient();
+
+  const { data: enabled, isLoading } = useQuery({
+    queryKey: ['hr-case-intake-settings', organisationId],
+    queryFn: () => whistleblowerService.isPortalEnabled(organisationId!),
+    enabled: !!organisationId,
+  });
+
+  const portalUrl = organisationId ? `${window.location.origin}/whistleblower/${organisationId}` : '';
+
+  const handleToggle = async (value: boolean) => {
+    if (!organisationId) return;
+    try {
+      await whistleblowerService.setPortalEnabled(organisationId, value);
+      queryClient.invalidateQueries({ queryKey: ['hr-case-intake-settings', organisationId] });
+      toast({ title: value ? 'Whistleblower portal enabled' : 'Whistleblower portal disabled' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update the portal',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Whistleblower Portal
+        </CardTitle>
+        <CardDescription>
+          A public form where anyone can report a concern without signing in. Reports open as
+          restricted HR cases, and reporters use a case key and passphrase to follow up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!organisationId ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Select an organisation to manage the whistleblower portal
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="portal_enabled">Accept anonymous reports</Label>
+              <Switch id="portal_enabled" checked={!!enabled} onCheckedChange={handleToggle} />
+            </div>
+            {enabled && (
+              <div className="space-y-2">
+                <Label>Portal link</Label>
+                <div className="flex gap-2">
+                  <Input readOnly value={portalUrl} />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => {
+                      navigator.clipboard.writeText(portalUrl);
+                      toast({ title: 'Link copied' });
+                    }}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
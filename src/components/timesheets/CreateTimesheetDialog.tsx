@@ -0,0 +1,234 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CreateTimesheetInput, EmployeeDB } from '@/types/database';
+
+const formSchema = z
+  .object({
+    employeeId: z.string().min(1, 'Employee is required'),
+    date: z.string().min(1, 'Date is required'),
+    clockIn: z.string().min(1, 'Start time is required'),
+    clockOut: z.string().min(1, 'End time is required'),
+    breakMinutes: z.number().min(0, 'Break cannot be negative'),
+    notes: z.string().optional(),
+  })
+  .refine(data => data.clockOut > data.clockIn, {
+    message: 'End time must be after start time',
+    path: ['clockOut'],
+  });
+
+type FormData = z.infer<typeof formSchema>;
+
+interface CreateTimesheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organisationId?: string;
+  employees: EmployeeDB[];
+  defaultDate?: Date;
+  onCreate: (input: CreateTimesheetInput) => Promise<unknown>;
+  isCreating: boolean;
+}
+
+export function CreateTimesheetDialog({
+  open,
+  onOpenChange,
+  organisationId,
+  employees,
+  defaultDate,
+  onCreate,
+  isCreating,
+}: CreateTimesheetDialogProps) {
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      employeeId: '',
+      date: format(defaultDate || new Date(), 'yyyy-MM-dd'),
+      clockIn: '09:00',
+      clockOut: '17:00',
+      breakMinutes: 30,
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.setValue('date', format(defaultDate || new Date(), 'yyyy-MM-dd'));
+    }
+  }, [open, defaultDate, form]);
+
+  const onSubmit = async (data: FormData) => {
+    if (!organisationId) return;
+
+    try {
+      await onCreate({
+        organisation_id: organisationId,
+        employee_id: data.employeeId,
+        date: data.date,
+        clock_in: data.clockIn,
+        clock_out: data.clockOut,
+        break_minutes: data.breakMinutes,
+        notes: data.notes || undefined,
+      });
+    } catch {
+      // The mutation reports the failure; keep the form so it can be resubmitted
+      return;
+    }
+    form.reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Timesheet Entry</DialogTitle>
+          <DialogDescription>
+            Record worked hours for an employee. New entries start as pending approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="employeeId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Employee</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select employee" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {employees.map((emp) => (
+                        <SelectItem key={emp.id} value={emp.id}>
+                          {emp.first_name} {emp.last_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="clockIn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clockOut"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="breakMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Break (min)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={5}
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Shift notes..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || !organisationId}>
+                {isCreating ? 'Saving...' : 'Add Entry'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, XCircle, Lock, Unlock, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { StatusBadge } from '@/components/ui/status-badge';
+import type { TimesheetDB } from '@/types/database';
+
+interface TimesheetDetailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  timesheet: TimesheetDB | null;
+  employeeName: string;
+  canApprove: boolean;
+  canUnlock: boolean;
+  onApprove: (id: string) => Promise<unknown>;
+  onReject: (id: string) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+  onRequestUnlock: (timesheet: TimesheetDB) => void;
+  isProcessing: boolean;
+}
+
+export function TimesheetDetailDialog({
+  open,
+  onOpenChange,
+  timesheet,
+  employeeName,
+  canApprove,
+  canUnlock,
+  onApprove,
+  onReject,
+  onDelete,
+  onRequestUnlock,
+  isProcessing,
+}: TimesheetDetailDialogProps) {
+  if (!timesheet) return null;
+
+  const handleAction = async (action: (id: string) => Promise<unknown>) => {
+    try {
+      await action(timesheet.id);
+    } catch {
+      // The mutation reports the failure; keep the dialog open
+      return;
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {employeeName}
+            <StatusBadge status={timesheet.status} size="sm" />
+          </DialogTitle>
+          <DialogDescription>
+            {format(parseISO(timesheet.date), 'EEEE, dd MMMM yyyy')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Start</p>
+            <p className="font-medium">{timesheet.clock_in.slice(0, 5)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">End</p>
+            <p className="font-medium">{timesheet.clock_out?.slice(0, 5) || 'Not clocked out'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Break</p>
+            <p className="font-medium">{timesheet.break_minutes} min</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Total Hours</p>
+            <p className="font-medium">{(timesheet.total_hours ?? 0).toFixed(2)}h</p>
+          </div>
+          {timesheet.approved_at && (
+            <div className="col-span-2">
+              <p className="text-muted-foreground">Approved</p>
+              <p className="font-medium">
+                {format(parseISO(timesheet.approved_at), 'dd MMM yyyy, HH:mm')}
+              </p>
+            </div>
+          )}
+          {timesheet.notes && (
+            <div className="col-span-2">
+              <p className="text-muted-foreground">Notes</p>
+              <p className="italic">"{timesheet.notes}"</p>
+            </div>
+          )}
+        </div>
+
+        {timesheet.is_locked ? (
+          <div className="p-3 rounded-lg bg-muted border flex items-start gap-2">
+            <Lock className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium">Locked</p>
+              <p className="text-muted-foreground">
+                {timesheet.locked_reason || 'Exported in pay period'}
+                {timesheet.exported_at &&
+                  ` on ${format(parseISO(timesheet.exported_at), 'dd MMM yyyy')}`}
+              </p>
+            </div>
+          </div>
+        ) : (
+          timesheet.unlocked_at && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="outline">Unlocked</Badge>
+              <span>
+                {format(parseISO(timesheet.unlocked_at), 'dd MMM yyyy')}
+                {timesheet.unlocked_reason && ` · ${timesheet.unlocked_reason}`}
+              </span>
+            </div>
+          )
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {timesheet.is_locked ? (
+            <Button
+              variant="outline"
+              onClick={() => onRequestUnlock(timesheet)}
+              disabled={!canUnlock}
+              title={canUnlock ? undefined : 'Only administrators can unlock exported timesheets'}
+            >
+              <Unlock className="h-4 w-4 mr-2" />
+              Unlock
+            </Button>
+          ) : (
+            canApprove && (
+              <>
+                <Button
+                  variant="ghost"
+                  className="text-destructive"
+                  onClick={() => handleAction(onDelete)}
+                  disabled={isProcessing}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+                {timesheet.status !== 'rejected' && (
+                  <Button
+                    variant="outline"
+                    className="text-destructive border-destructive hover:bg-destructive/10"
+                    onClick={() => handleAction(onReject)}
+                    disabled={isProcessing}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                )}
+                {timesheet.status !== 'approved' && (
+                  <Button
+                    className="bg-success hover:bg-success/90"
+                    onClick={() => handleAction(onApprove)}
+                    disabled={isProcessing}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                )}
+              </>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
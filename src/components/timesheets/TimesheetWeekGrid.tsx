@@ -0,0 +1,176 @@
+import { format, isSameDay, isToday, parseISO } from 'date-fns';
+import { Lock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { EmployeeDB, TimesheetDB, TimesheetStatus } from '@/types/database';
+
+interface TimesheetWeekGridProps {
+  employees: EmployeeDB[];
+  timesheets: TimesheetDB[];
+  weekDays: Date[];
+  selectedIds: Set<string>;
+  canApprove: boolean;
+  onToggleSelection: (ids: string[], selected: boolean) => void;
+  onSelectTimesheet: (timesheet: TimesheetDB) => void;
+}
+
+const statusStyles: Record<TimesheetStatus, string> = {
+  pending: 'bg-warning/10 text-warning border-warning/20',
+  approved: 'bg-success/10 text-success border-success/20',
+  rejected: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+export function TimesheetWeekGrid({
+  employees,
+  timesheets,
+  weekDays,
+  selectedIds,
+  canApprove,
+  onToggleSelection,
+  onSelectTimesheet,
+}: TimesheetWeekGridProps) {
+  const getEmployeeTimesheets = (employeeId: string) =>
+    timesheets.filter(t => t.employee_id === employeeId);
+
+  // Only unlocked pending timesheets can be bulk approved/rejected
+  const getSelectableIds = (entries: TimesheetDB[]) =>
+    entries.filter(t => !t.is_locked && t.status === 'pending').map(t => t.id);
+
+  const allSelectableIds = getSelectableIds(timesheets);
+  const allSelected =
+    allSelectableIds.length > 0 && allSelectableIds.every(id => selectedIds.has(id));
+
+  if (employees.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <p>No employees match the current filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {canApprove && (
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  disabled={allSelectableIds.length === 0}
+                  onCheckedChange={(checked) => onToggleSelection(allSelectableIds, !!checked)}
+                  aria-label="Select all pending timesheets"
+                />
+              </TableHead>
+            )}
+            <TableHead className="min-w-[200px]">Employee</TableHead>
+            {weekDays.map(day => (
+              <TableHead
+                key={day.toISOString()}
+                className={cn('text-center min-w-[90px]', isToday(day) && 'text-primary')}
+              >
+                <div>{format(day, 'EEE')}</div>
+                <div className="text-xs font-normal">{format(day, 'dd MMM')}</div>
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {employees.map(employee => {
+            const entries = getEmployeeTimesheets(employee.id);
+            const selectableIds = getSelectableIds(entries);
+            const rowSelected =
+              selectableIds.length > 0 && selectableIds.every(id => selectedIds.has(id));
+            const totalHours = entries.reduce((sum, t) => sum + (t.total_hours || 0), 0);
+
+            return (
+              <TableRow key={employee.id}>
+                {canApprove && (
+                  <TableCell>
+                    <Checkbox
+                      checked={rowSelected}
+                      disabled={selectableIds.length === 0}
+                      onCheckedChange={(checked) => onToggleSelection(selectableIds, !!checked)}
+                      aria-label={`Select pending timesheets for ${employee.first_name} ${employee.last_name}`}
+                    />
+                  </TableCell>
+                )}
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                        {employee.first_name[0]}
+                        {employee.last_name[0]}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {employee.first_name} {employee.last_name}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {employee.position || employee.department || '—'}
+                      </p>
+                    </div>
+                  </div>
+                </TableCell>
+                {weekDays.map(day => {
+                  const dayEntries = entries.filter(t => isSameDay(parseISO(t.date), day));
+                  return (
+                    <TableCell key={day.toISOString()} className="text-center align-top">
+                      <div className="flex flex-col items-center gap-1">
+                        {dayEntries.map(entry => (
+                          <Tooltip key={entry.id}>
+                            <TooltipTrigger asChild>
+                              <button
+                                type="button"
+                                onClick={() => onSelectTimesheet(entry)}
+                                className={cn(
+                                  'inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium transition-colors hover:opacity-80',
+                                  statusStyles[entry.status],
+                                  selectedIds.has(entry.id) && 'ring-2 ring-primary'
+                                )}
+                              >
+                                {entry.is_locked && <Lock className="h-3 w-3" />}
+                                {(entry.total_hours ?? 0).toFixed(1)}h
+                              </button>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>
+                                {entry.clock_in.slice(0, 5)} – {entry.clock_out?.slice(0, 5) || 'open'}
+                                {' · '}
+                                <span className="capitalize">{entry.status}</span>
+                              </p>
+                              {entry.is_locked && entry.exported_at && (
+                                <p className="text-xs">
+                                  Exported {format(parseISO(entry.exported_at), 'dd MMM yyyy')}
+                                </p>
+                              )}
+                            </TooltipContent>
+                          </Tooltip>
+                        ))}
+                      </div>
+                    </TableCell>
+                  );
+                })}
+                <TableCell className="text-right font-medium">
+                  {totalHours.toFixed(1)}h
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Loader2, Unlock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { TimesheetDB } from '@/types/database';
+
+const MIN_REASON_LENGTH = 10;
+
+interface UnlockTimesheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  timesheet: TimesheetDB | null;
+  employeeName: string;
+  onUnlock: (timesheetId: string, reason: string) => Promise<unknown>;
+  isUnlocking: boolean;
+}
+
+export function UnlockTimesheetDialog({
+  open,
+  onOpenChange,
+  timesheet,
+  employeeName,
+  onUnlock,
+  isUnlocking,
+}: UnlockTimesheetDialogProps) {
+  const [reason, setReason] = useState('');
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setReason('');
+    onOpenChange(next);
+  };
+
+  const handleConfirm = async () => {
+    if (!timesheet || reason.trim().length < MIN_REASON_LENGTH) return;
+    try {
+      await onUnlock(timesheet.id, reason.trim());
+    } catch {
+      // The mutation reports the failure; keep the dialog open with the reason
+      return;
+    }
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Unlock className="h-5 w-5" />
+            Unlock Timesheet
+          </DialogTitle>
+          <DialogDescription>
+            {timesheet && (
+              <>
+                {employeeName} · {format(parseISO(timesheet.date), 'EEE, dd MMM yyyy')}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="p-3 rounded-lg bg-warning/10 border border-warning/20 flex items-start gap-2">
+          <AlertTriangle className="h-5 w-5 text-warning flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            This timesheet has already been exported to payroll
+            {timesheet?.exported_at && ` on ${format(parseISO(timesheet.exported_at), 'dd MMM yyyy')}`}.
+            Unlocking is recorded in the unlock log and any changes must be reconciled with the payroll provider.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="unlock-reason">Reason (Required)</Label>
+          <Textarea
+            id="unlock-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g., Clock-out time recorded incorrectly, employee worked until 17:30"
+          />
+          <p className="text-xs text-muted-foreground">
+            Minimum {MIN_REASON_LENGTH} characters.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isUnlocking || reason.trim().length < MIN_REASON_LENGTH}
+          >
+            {isUnlocking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Unlock Timesheet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ interface UseComplianceEnforcementReturn {
   
   // Override management
   createOverride: (request: OverrideRequest) => Promise<boolean>;
+  reviewOverride: (overrideId: string, decision: 'approved' | 'rejected', notes?: string) => Promise<boolean>;
   revokeOverride: (overrideId: string) => Promise<boolean>;
   
   // Helpers
@@ -65,11 +66,11 @@ export function useComplianceEnforcement(): UseComplianceEnforcementReturn {
     const { success, error } = await complianceService.createOverride(request);
     
     if (success) {
-      toast.success('Compliance override created', {
-        description: `Override active until ${request.expiresAt.toLocaleDateString()}`,
+      toast.success('Compliance override requested', {
+        description: 'It takes effect once a second admin approves it',
       });
     } else {
-      toast.error('Failed to create override', {
+      toast.error('Failed to request override', {
         description: error,
       });
     }
@@ -77,6 +78,24 @@ export function useComplianceEnforcement(): UseComplianceEnforcementReturn {
     return success;
   }, []);
 
+  const reviewOverride = useCallback(async (
+    overrideId: string,
+    decision: 'approved' | 'rejected',
+    notes?: string
+  ): Promise<boolean> => {
+    const { success, error } = await complianceService.reviewOverride(overrideId, decision, notes);
+
+    if (success) {
+      toast.success(decision === 'approved' ? 'Override approved' : 'Override rejected');
+    } else {
+      toast.error(`Failed to ${decision === 'approved' ? 'approve' : 'reject'} override`, {
+        description: error,
+      });
+    }
+
+    return success;
+  }, []);
+
   const revokeOverride = useCallback(async (overrideId: string): Promise<boolean> => {
     const { success, error } = await complianceService.revokeOverride(overrideId);
     
@@ -109,6 +128,7 @@ export function useComplianceEnforcement(): UseComplianceEnforcementReturn {
     evaluateCompliance,
     canAssign,
     createOverride,
+    reviewOverride,
     revokeOverride,
     getBlockingMessage,
     getCertificationDisplayName: complianceService.getCertificationDisplayName,
@@ -0,0 +1,105 @@
+/**
+ * Hook for the contract template library and its versions
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { contractTemplateService } from '@/services/contractTemplateService';
+import { toast } from '@/hooks/use-toast';
+import type { ContractTemplate } from '@/types/contracts';
+
+export function useContractTemplates(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const { data: defaultOrg } = useQuery({
+    queryKey: ['default-organisation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organisations')
+        .select('id')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+  });
+
+  const orgId = defaultOrg?.id;
+
+  const {
+    data: templates = [],
+    isLoading,
+  } = useQuery({
+    queryKey: ['contract-templates', orgId],
+    queryFn: () => contractTemplateService.listTemplates(orgId!),
+    enabled: enabled && !!orgId,
+  });
+
+  const invalidate = (templateId?: string) => {
+    queryClient.invalidateQueries({ queryKey: ['contract-templates', orgId] });
+    if (templateId) {
+      queryClient.invalidateQueries({ queryKey: ['contract-template-versions', templateId] });
+    }
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    console.error(`[useContractTemplates] ${title}:`, error);
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const createTemplateMutation = useMutation({
+    mutationFn: async (input: { name: string; description?: string; content: string }) => {
+      if (!orgId) throw new Error('Organisation not found');
+      return contractTemplateService.createTemplate(orgId, input);
+    },
+    onSuccess: (template) => {
+      invalidate(template.id);
+      toast({ title: 'Template Created', description: `${template.name} v1 is ready to use.` });
+    },
+    onError: showError('Could not create template'),
+  });
+
+  const publishVersionMutation = useMutation({
+    mutationFn: ({ template, content, changeNote }: { template: ContractTemplate; content: string; changeNote?: string }) =>
+      contractTemplateService.publishVersion(template, content, changeNote),
+    onSuccess: (version, { template }) => {
+      invalidate(template.id);
+      toast({
+        title: 'Version Published',
+        description: `New contracts from ${template.name} will use v${version.version_number}.`,
+      });
+    },
+    onError: showError('Could not publish version'),
+  });
+
+  const archiveTemplateMutation = useMutation({
+    mutationFn: (template: ContractTemplate) => contractTemplateService.archiveTemplate(template),
+    onSuccess: (_, template) => {
+      invalidate(template.id);
+      toast({ title: 'Template Archived', description: `${template.name} can no longer be used for new contracts.` });
+    },
+    onError: showError('Could not archive template'),
+  });
+
+  return {
+    orgId,
+    templates,
+    activeTemplates: templates.filter(t => !t.is_archived && t.current_version > 0),
+    isLoading,
+    createTemplate: createTemplateMutation.mutateAsync,
+    publishVersion: publishVersionMutation.mutateAsync,
+    archiveTemplate: archiveTemplateMutation.mutateAsync,
+    isSaving: createTemplateMutation.isPending || publishVersionMutation.isPending || archiveTemplateMutation.isPending,
+  };
+}
+
+export function useContractTemplateVersions(templateId?: string) {
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['contract-template-versions', templateId],
+    queryFn: () => contractTemplateService.getVersions(templateId!),
+    enabled: !!templateId,
+  });
+
+  return { versions, isLoading };
+}
@@ -1,7 +1,22 @@
 import { useState, useEffect } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { Contract, Signature, ContractAuditLog } from '@/types/contracts';
+import {
+  Contract,
+  Signature,
+  ContractAuditLog,
+  ContractSigner,
+  ContractSignerInput,
+} from '@/types/contracts';
 import { toast } from '@/hooks/use-toast';
+import { buildSigningOrder, currentSigner, isFullySigned, signingAuditAction } from '@/lib/contractSigning';
+
+interface SigningLinkResult {
+  sent: boolean;
+  kind?: 'invitation' | 'reminder';
+  signerName?: string;
+  signerEmail?: string;
+}
 
 export function useContracts() {
   const [contracts, setContracts] = useState<Contract[]>([]);
@@ -43,9 +58,10 @@ export function useContracts() {
         return;
       }
 
+      // Employees can't read templates, so template_version is null for them
       const { data, error } = await supabase
         .from('contracts')
-        .select('*')
+        .select('*, template_version:contract_template_versions(version_number, template:contract_templates(name))')
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -63,13 +79,45 @@ export function useContracts() {
     }
   };
 
-  const createContract = async (contract: Omit<Contract, 'id' | 'created_at' | 'updated_at' | 'status'>) => {
+  /**
+   * Sends the signing link to whoever's turn it is (the contract-signing
+   * function emails it; links never reach the app) and logs the send.
+   */
+  const requestSigningLink = async (contractId: string): Promise<SigningLinkResult> => {
+    const { data, error } = await supabase.functions.invoke('contract-signing', {
+      body: { action: 'send', contractId },
+    });
+
+    if (error) {
+      const detail = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      throw new Error(detail?.error || 'Failed to send the signing link');
+    }
+
+    const result = data as SigningLinkResult;
+    if (result.sent) {
+      await logAuditEvent(
+        contractId,
+        result.kind === 'reminder' ? 'reminder_sent' : 'sent',
+        undefined,
+        { signer_name: result.signerName ?? '', signer_email: result.signerEmail ?? '' }
+      );
+    }
+    return result;
+  };
+
+  const createContract = async (
+    contract: Omit<Contract, 'id' | 'created_at' | 'updated_at' | 'status' | 'template_version'>,
+    countersigners: ContractSignerInput[] = []
+  ) => {
     try {
+      // Created as a draft; it is sent once its signers are in place
       const { data, error } = await supabase
         .from('contracts')
         .insert({
           ...contract,
-          status: 'pending_signature',
+          status: 'draft',
           // created_by and organisation_id are set by DB trigger
         })
         .select()
@@ -85,18 +133,58 @@ export function useContracts() {
         throw error;
       }
 
+      const created = data as Contract;
+      const signers = buildSigningOrder(
+        { name: contract.employee_name, email: contract.employee_email },
+        countersigners
+      );
+
+      const { error: signerError } = await supabase
+        .from('contract_signers')
+        .insert(signers.map(signer => ({ ...signer, contract_id: created.id })));
+
+      if (signerError) {
+        console.error('Supabase contract_signers INSERT error:', signerError);
+        toast({
+          title: 'Saved as draft',
+          description: `The contract was saved but its signers could not be added: ${signerError.message}`,
+          variant: 'destructive',
+        });
+        throw signerError;
+      }
+
+      const { error: sendError } = await supabase
+        .from('contracts')
+        .update({ status: 'pending_signature' })
+        .eq('id', created.id);
+
+      if (sendError) {
+        console.error('Supabase contracts UPDATE error:', sendError);
+        throw sendError;
+      }
+
       // Log creation
-      await logAuditEvent((data as Contract).id, 'created', 'Contract created and sent for signature');
+      await logAuditEvent(created.id, 'created', undefined, {
+        description: 'Contract created and sent for signature',
+        signing_order: signers.map(s => `${s.signing_order}. ${s.name} (${s.role})`).join(', '),
+      });
+
+      try {
+        await requestSigningLink(created.id);
+      } catch (linkError) {
+        // The daily reminder run sends it if this fails
+        console.error('Error sending signing link:', linkError);
+      }
 
-      setContracts(prev => [data as Contract, ...prev]);
+      setContracts(prev => [{ ...created, status: 'pending_signature' }, ...prev]);
       await fetchContracts();
       
       toast({
         title: 'Contract Created',
-        description: 'Contract has been created and sent for signature',
+        description: `Contract has been created and sent to ${signers[0].name} to sign`,
       });
 
-      return data as Contract;
+      return created;
     } catch (error: any) {
       console.error('Error creating contract:', error);
 
@@ -113,21 +201,35 @@ export function useContracts() {
     }
   };
 
+  /**
+   * Signs as the signed-in user, who must be the signer whose turn it is.
+   * Only the final signature moves the contract to signed (the database
+   * does this); otherwise the next signer is sent their link.
+   */
   const signContract = async (
     contractId: string, 
     signatureData: string, 
-    signatureType: 'drawn' | 'typed',
-    signerName: string,
-    signerEmail: string
+    signatureType: 'drawn' | 'typed'
   ) => {
     try {
+      const { data: userData } = await supabase.auth.getUser();
+      const signer = currentSigner(await getSigners(contractId));
+
+      if (!signer) {
+        throw new Error('Everyone has already signed this contract');
+      }
+      if (signer.email.toLowerCase() !== userData.user?.email?.toLowerCase()) {
+        throw new Error(`This contract is waiting for ${signer.name} to sign`);
+      }
+
       // Create signature record
       const { error: sigError } = await supabase
         .from('signatures')
         .insert({
           contract_id: contractId,
-          signer_name: signerName,
-          signer_email: signerEmail,
+          signer_id: signer.id,
+          signer_name: signer.name,
+          signer_email: signer.email,
           signature_data: signatureData,
           signature_type: signatureType,
           user_agent: navigator.userAgent,
@@ -135,57 +237,91 @@ export function useContracts() {
 
       if (sigError) throw sigError;
 
-      // Update contract status
-      const { error: contractError } = await supabase
-        .from('contracts')
-        .update({
-          status: 'signed',
-          signed_at: new Date().toISOString(),
-        })
-        .eq('id', contractId);
-
-      if (contractError) {
-        console.error('Supabase contracts UPDATE error:', contractError);
-        throw contractError;
-      }
-
       // Log signing event
-      await logAuditEvent(contractId, 'signed', 'Contract signed by employee', {
-        signer_name: signerName,
+      await logAuditEvent(contractId, signingAuditAction(signer.role), undefined, {
+        signer_name: signer.name,
+        signer_role: signer.role,
         signature_type: signatureType,
       });
 
+      const remaining = await getSigners(contractId);
+      const next = currentSigner(remaining);
+
+      if (isFullySigned(remaining)) {
+        await logAuditEvent(contractId, 'completed', 'All signers have signed');
+      } else {
+        try {
+          await requestSigningLink(contractId);
+        } catch (linkError) {
+          // The daily reminder run sends it if this fails
+          console.error('Error sending signing link:', linkError);
+        }
+      }
+
       // Refresh contracts
       await fetchContracts();
 
       toast({
         title: 'Contract Signed',
-        description: 'The contract has been successfully signed',
+        description: next
+          ? `Your signature has been recorded. ${next.name} has been asked to sign next.`
+          : 'The contract has been signed by everyone',
       });
     } catch (error) {
       console.error('Error signing contract:', error);
       toast({
         title: 'Error',
-        description: 'Failed to sign contract',
+        description: error instanceof Error ? error.message : 'Failed to sign contract',
         variant: 'destructive',
       });
       throw error;
     }
   };
 
-  const getSignature = async (contractId: string): Promise<Signature | null> => {
+  /**
+   * Chases the signer whose turn it is with a fresh copy of their link.
+   */
+  const remindSigner = async (contractId: string) => {
+    try {
+      const result = await requestSigningLink(contractId);
+      toast({
+        title: result.kind === 'invitation' ? 'Signing link sent' : 'Reminder sent',
+        description: `${result.signerName} has been emailed their signing link`,
+      });
+    } catch (error) {
+      console.error('Error sending reminder:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send reminder',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getSigners = async (contractId: string): Promise<ContractSigner[]> => {
+    const { data, error } = await supabase
+      .from('contract_signers')
+      .select('*')
+      .eq('contract_id', contractId)
+      .order('signing_order');
+
+    if (error) throw error;
+    return (data || []) as ContractSigner[];
+  };
+
+  const getSignatures = async (contractId: string): Promise<Signature[]> => {
     try {
       const { data, error } = await supabase
         .from('signatures')
         .select('*')
         .eq('contract_id', contractId)
-        .single();
+        .order('signed_at');
 
-      if (error && error.code !== 'PGRST116') throw error;
-      return data as Signature | null;
+      if (error) throw error;
+      return (data || []) as Signature[];
     } catch (error) {
-      console.error('Error fetching signature:', error);
-      return null;
+      console.error('Error fetching signatures:', error);
+      return [];
     }
   };
 
@@ -214,7 +350,9 @@ export function useContracts() {
     try {
       const { data: userData } = await supabase.auth.getUser();
       
-      const logDetails = details || (description ? { description } : null);
+      const logDetails = details
+        ? { ...(description ? { description } : {}), ...details }
+        : (description ? { description } : null);
       
       await supabase.from('contract_audit_log').insert([{
         contract_id: contractId,
@@ -238,7 +376,9 @@ export function useContracts() {
     isLoading,
     createContract,
     signContract,
-    getSignature,
+    remindSigner,
+    getSigners,
+    getSignatures,
     getAuditLogs,
     logAuditEvent,
     refetch: fetchContracts,
@@ -0,0 +1,72 @@
+/**
+ * Hook for an employee's payment bank account (admin only)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { payrollExportService } from '@/services/payrollExportService';
+import { toast } from '@/hooks/use-toast';
+import type { SaveEmployeeBankAccountInput } from '@/types/payroll';
+
+export function useEmployeeBankAccount(employeeId?: string, enabled = true) {
+  const queryClient = useQueryClient();
+
+  const { data: defaultOrg } = useQuery({
+    queryKey: ['default-organisation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organisations')
+        .select('id')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+  });
+
+  const orgId = defaultOrg?.id;
+
+  const {
+    data: bankAccount = null,
+    isLoading,
+  } = useQuery({
+    queryKey: ['employee-bank-account', employeeId],
+    queryFn: async () => {
+      if (!employeeId) return null;
+      const [account] = await payrollExportService.getBankAccounts([employeeId]);
+      return account || null;
+    },
+    enabled: enabled && !!employeeId,
+  });
+
+  const saveBankAccountMutation = useMutation({
+    mutationFn: async (input: SaveEmployeeBankAccountInput) => {
+      if (!orgId) throw new Error('Organisation not found');
+      if (!employeeId) throw new Error('Employee not found');
+      return payrollExportService.saveBankAccount(orgId, employeeId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['employee-bank-account', employeeId] });
+      toast({
+        title: 'Bank Details Saved',
+        description: 'Payment details have been updated.',
+      });
+    },
+    onError: (error) => {
+      console.error('[useEmployeeBankAccount] Save bank account failed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save bank details.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    bankAccount,
+    isLoading,
+    saveBankAccount: saveBankAccountMutation.mutateAsync,
+    isSaving: saveBankAccountMutation.isPending,
+  };
+}
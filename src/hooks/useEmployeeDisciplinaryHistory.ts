@@ -0,0 +1,61 @@
+/**
+ * Hook for an employee's disciplinary record across their HR cases
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { hrCasesService } from '@/services/hrCasesService';
+import { buildDisciplinaryTimeline, findLiveFinalWarning } from '@/lib/disciplinaryHistory';
+import { toast } from '@/hooks/use-toast';
+import type { CreateHRCaseInput } from '@/types/hrCases';
+
+export function useEmployeeDisciplinaryHistory(employeeId?: string, enabled = true) {
+  const queryClient = useQueryClient();
+
+  const { data: defaultOrg } = useQuery({
+    queryKey: ['default-organisation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organisations')
+        .select('id')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+  });
+
+  const {
+    data: history = [],
+    isLoading,
+  } = useQuery({
+    queryKey: ['employee-disciplinary-history', employeeId],
+    queryFn: () => hrCasesService.getEmployeeDisciplinaryHistory(employeeId!),
+    enabled: enabled && !!employeeId,
+  });
+
+  const timeline = useMemo(() => buildDisciplinaryTimeline(history), [history]);
+  const liveFinalWarning = useMemo(() => findLiveFinalWarning(history), [history]);
+
+  // Errors are reported by CreateCaseDialog
+  const createCaseMutation = useMutation({
+    mutationFn: (input: CreateHRCaseInput) => hrCasesService.createCase(input),
+    onSuccess: (hrCase) => {
+      queryClient.invalidateQueries({ queryKey: ['employee-disciplinary-history', employeeId] });
+      toast({
+        title: 'Case Created',
+        description: `Case ${hrCase.case_number} has been created`,
+      });
+    },
+  });
+
+  return {
+    organisationId: defaultOrg?.id,
+    timeline,
+    liveFinalWarning,
+    isLoading,
+    createCase: createCaseMutation.mutateAsync,
+  };
+}
@@ -1,14 +1,20 @@
 import { useState, useEffect, useCallback } from 'react';
 import { hrCasesService } from '@/services/hrCasesService';
 import { useToast } from '@/hooks/use-toast';
+import type { CaseSla } from '@/lib/hrCaseSla';
+import { CASE_STATUS_LABELS } from '@/types/hrCases';
 import type {
   HRCase,
   HRCaseTriage,
   HRCaseEvidence,
+  HRCaseEvidenceCustodyEvent,
+  EvidenceIntegrityCheck,
   HRCaseNote,
   HRCaseFindings,
   HRCaseAction,
   HRCaseStats,
+  HRCaseStatusChange,
+  HRCaseReporterMessage,
   CreateHRCaseInput,
   UpdateHRCaseInput,
   CreateTriageInput,
@@ -100,7 +106,7 @@ export function useHRCases(filters?: UseHRCasesFilters) {
     }
   };
 
-  const closeCase = async (caseId: string, closureNotes?: string): Promise<boolean> => {
+  const closeCase = async (caseId: string, closureNotes: string): Promise<boolean> => {
     try {
       await hrCasesService.closeCase(caseId, closureNotes);
       toast({
@@ -137,9 +143,13 @@ export function useHRCaseDetail(caseId: string | null) {
   const [triage, setTriage] = useState<HRCaseTriage | null>(null);
   const [notes, setNotes] = useState<HRCaseNote[]>([]);
   const [evidence, setEvidence] = useState<HRCaseEvidence[]>([]);
+  const [custodyEvents, setCustodyEvents] = useState<HRCaseEvidenceCustodyEvent[]>([]);
   const [findings, setFindings] = useState<HRCaseFindings | null>(null);
   const [actions, setActions] = useState<HRCaseAction[]>([]);
   const [auditLog, setAuditLog] = useState<unknown[]>([]);
+  const [statusHistory, setStatusHistory] = useState<HRCaseStatusChange[]>([]);
+  const [reporterMessages, setReporterMessages] = useState<HRCaseReporterMessage[]>([]);
+  const [sla, setSla] = useState<CaseSla | null>(null);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
@@ -153,26 +163,36 @@ export function useHRCaseDetail(caseId: string | null) {
         triageData,
         notesData,
         evidenceData,
+        custodyData,
         findingsData,
         actionsData,
         auditData,
+        historyData,
+        reporterMessagesData,
       ] = await Promise.all([
         hrCasesService.getCaseById(caseId),
         hrCasesService.getTriage(caseId),
         hrCasesService.getNotes(caseId),
         hrCasesService.getEvidence(caseId),
+        hrCasesService.getCustodyEvents(caseId),
         hrCasesService.getFindings(caseId),
         hrCasesService.getActions(caseId),
         hrCasesService.getCaseAuditLog(caseId),
+        hrCasesService.getStatusHistory(caseId),
+        hrCasesService.getReporterMessages(caseId),
       ]);
 
       setHRCase(caseData);
       setTriage(triageData);
       setNotes(notesData);
       setEvidence(evidenceData);
+      setCustodyEvents(custodyData);
       setFindings(findingsData);
       setActions(actionsData);
       setAuditLog(auditData);
+      setStatusHistory(historyData);
+      setReporterMessages(reporterMessagesData);
+      setSla(caseData ? await hrCasesService.getCaseSla(caseData, historyData) : null);
     } catch (error) {
       console.error('Error fetching case detail:', error);
       toast({
@@ -199,11 +219,11 @@ export function useHRCaseDetail(caseId: string | null) {
       });
       await fetchAll();
       return true;
-    } catch (error) {
+    } catch (error: unknown) {
       console.error('Error creating triage:', error);
       toast({
         title: 'Error',
-        description: 'Failed to save triage',
+        description: error instanceof Error ? error.message : 'Failed to save triage',
         variant: 'destructive',
       });
       return false;
@@ -231,6 +251,27 @@ export function useHRCaseDetail(caseId: string | null) {
     }
   };
 
+  const sendReporterMessage = async (body: string): Promise<boolean> => {
+    if (!hrCase) return false;
+    try {
+      await hrCasesService.sendReporterMessage(hrCase, body);
+      toast({
+        title: 'Message Sent',
+        description: 'The reporter will see it when they next check their report',
+      });
+      await fetchAll();
+      return true;
+    } catch (error) {
+      console.error('Error sending reporter message:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send message',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
   const uploadEvidence = async (
     file: File,
     description?: string,
@@ -256,6 +297,65 @@ export function useHRCaseDetail(caseId: string | null) {
     }
   };
 
+  const refreshCustodyEvents = async () => {
+    if (!caseId) return;
+    try {
+      setCustodyEvents(await hrCasesService.getCustodyEvents(caseId));
+    } catch (error) {
+      console.error('Error refreshing custody events:', error);
+    }
+  };
+
+  const openEvidence = async (evidenceId: string, disposition: 'view' | 'download'): Promise<boolean> => {
+    try {
+      const url = await hrCasesService.openEvidence(evidenceId, disposition);
+      window.open(url, '_blank');
+      await refreshCustodyEvents();
+      return true;
+    } catch (error: unknown) {
+      console.error('Error opening evidence:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to open evidence',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const verifyEvidence = async (evidenceId: string): Promise<EvidenceIntegrityCheck | null> => {
+    try {
+      const check = await hrCasesService.verifyEvidence(evidenceId);
+      if (check.result === 'intact') {
+        toast({
+          title: 'Evidence Verified',
+          description: 'The stored file matches the hash recorded at upload',
+        });
+      } else {
+        toast({
+          title: check.result === 'unhashed' ? 'Cannot Verify' : 'Verification Failed',
+          description:
+            check.result === 'unhashed'
+              ? 'This file was uploaded before hashing was introduced'
+              : check.result === 'missing'
+                ? 'The stored file is missing'
+                : 'The stored file does not match the hash recorded at upload',
+          variant: 'destructive',
+        });
+      }
+      await refreshCustodyEvents();
+      return check;
+    } catch (error: unknown) {
+      console.error('Error verifying evidence:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to verify evidence',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
   const recordFindings = async (input: Omit<CreateFindingsInput, 'hr_case_id'>): Promise<boolean> => {
     if (!caseId) return false;
     try {
@@ -266,11 +366,32 @@ export function useHRCaseDetail(caseId: string | null) {
       });
       await fetchAll();
       return true;
-    } catch (error) {
+    } catch (error: unknown) {
       console.error('Error recording findings:', error);
       toast({
         title: 'Error',
-        description: 'Failed to record findings',
+        description: error instanceof Error ? error.message : 'Failed to record findings',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const transitionStatus = async (toStatus: HRCaseStatus, closureNotes?: string): Promise<boolean> => {
+    if (!caseId) return false;
+    try {
+      await hrCasesService.transitionCase(caseId, toStatus, closureNotes);
+      toast({
+        title: 'Status Updated',
+        description: `Case moved to ${CASE_STATUS_LABELS[toStatus]}`,
+      });
+      await fetchAll();
+      return true;
+    } catch (error: unknown) {
+      console.error('Error moving case status:', error);
+      toast({
+        title: 'Cannot Change Status',
+        description: error instanceof Error ? error.message : 'Failed to update case status',
         variant: 'destructive',
       });
       return false;
@@ -318,21 +439,73 @@ export function useHRCaseDetail(caseId: string | null) {
     }
   };
 
+  const recordNdisNotification = async (reference: string, notifiedAt?: string): Promise<boolean> => {
+    if (!caseId) return false;
+    try {
+      await hrCasesService.recordNdisNotification(caseId, reference, notifiedAt);
+      toast({
+        title: 'Notification Recorded',
+        description: 'The Commission notification has been recorded',
+      });
+      await fetchAll();
+      return true;
+    } catch (error) {
+      console.error('Error recording NDIS notification:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to record the notification',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const recordNdisReport = async (submittedAt?: string): Promise<boolean> => {
+    if (!caseId) return false;
+    try {
+      await hrCasesService.recordNdisReport(caseId, submittedAt);
+      toast({
+        title: 'Report Recorded',
+        description: 'The 5-day report has been recorded',
+      });
+      await fetchAll();
+      return true;
+    } catch (error: unknown) {
+      console.error('Error recording NDIS report:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record the report',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
   return {
     hrCase,
     triage,
     notes,
     evidence,
+    custodyEvents,
     findings,
     actions,
     auditLog,
+    statusHistory,
+    reporterMessages,
+    sla,
     loading,
     refetch: fetchAll,
+    transitionStatus,
     createTriage,
     addNote,
+    sendReporterMessage,
     uploadEvidence,
+    openEvidence,
+    verifyEvidence,
     recordFindings,
     addAction,
     updateAction,
+    recordNdisNotification,
+    recordNdisReport,
   };
 }
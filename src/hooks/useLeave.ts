@@ -2,7 +2,14 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { leaveService } from '@/services/leaveService';
 import { useToast } from '@/hooks/use-toast';
-import type { LeaveApprovalPayload, LeaveAdjustmentPayload } from '@/types/leave';
+import type {
+  LeaveApprovalPayload,
+  LeaveAdjustmentPayload,
+  LeaveTypeAccrualSettings,
+  LeaveRequest,
+  LeaveStaffingRule,
+  CreateLeaveStaffingRuleInput,
+} from '@/types/leave';
 
 export function useLeave(
   organisationId?: string,
@@ -93,6 +100,7 @@ export function useLeave(
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['leaveRequests'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveProjection'] });
       toast({
         title: 'Leave request submitted',
         description: 'Your request is pending approval.',
@@ -116,6 +124,8 @@ export function useLeave(
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['leaveRequests'] });
       queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveProjection'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveStaffingCheck'] });
       
       const actionLabels = {
         approved: 'approved',
@@ -149,6 +159,7 @@ export function useLeave(
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveProjection'] });
       queryClient.invalidateQueries({ queryKey: ['leaveAdjustments'] });
       toast({
         title: 'Balance adjusted',
@@ -172,6 +183,9 @@ export function useLeave(
     },
     onSuccess: (count) => {
       queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveProjection'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveAccrualRuns'] });
+      queryClient.invalidateQueries({ queryKey: ['leaveAccrualLedger'] });
       toast({
         title: 'Accruals processed',
         description: `${count} balance(s) updated.`,
@@ -260,3 +274,174 @@ export function useEmployeeLeave(employeeId: string) {
     isLoading: balancesLoading,
   };
 }
+
+export function useLeaveProjection(
+  employeeId?: string,
+  leaveTypeId?: string,
+  targetDate?: string,
+  options?: { excludeRequestId?: string },
+) {
+  const {
+    data: projection = null,
+    isLoading,
+  } = useQuery({
+    queryKey: ['leaveProjection', employeeId, leaveTypeId, targetDate, options?.excludeRequestId],
+    queryFn: () => leaveService.getBalanceProjection(employeeId!, leaveTypeId!, targetDate!, options),
+    enabled: !!employeeId && !!leaveTypeId && !!targetDate,
+  });
+
+  return {
+    projection,
+    isLoading: isLoading && !!employeeId && !!leaveTypeId && !!targetDate,
+  };
+}
+
+export function useLeaveAccruals(organisationId?: string, runId?: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const {
+    data: runs = [],
+    isLoading: runsLoading,
+  } = useQuery({
+    queryKey: ['leaveAccrualRuns', organisationId],
+    queryFn: () => leaveService.getAccrualRuns(organisationId!),
+    enabled: !!organisationId,
+  });
+
+  const {
+    data: ledger = [],
+    isLoading: ledgerLoading,
+  } = useQuery({
+    queryKey: ['leaveAccrualLedger', organisationId, runId],
+    queryFn: () => leaveService.getAccrualLedger(organisationId!, { runId }),
+    enabled: !!organisationId,
+  });
+
+  const updateAccrualMutation = useMutation({
+    mutationFn: async ({ leaveTypeId, settings }: { leaveTypeId: string; settings: LeaveTypeAccrualSettings }) => {
+      if (!organisationId) throw new Error('No organisation ID');
+      return leaveService.updateLeaveTypeAccrual(leaveTypeId, settings, organisationId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leaveTypes'] });
+      toast({
+        title: 'Accrual settings saved',
+        description: 'Changes apply from the next accrual run.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to save accrual settings',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    runs,
+    ledger,
+    isLoading: runsLoading || ledgerLoading,
+    updateLeaveTypeAccrual: updateAccrualMutation.mutateAsync,
+    isUpdatingAccrual: updateAccrualMutation.isPending,
+  };
+}
+
+export function useLeaveStaffing(organisationId?: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const {
+    data: rules = [],
+    isLoading,
+  } = useQuery({
+    queryKey: ['leaveStaffingRules', organisationId],
+    queryFn: () => leaveService.getStaffingRules(organisationId!),
+    enabled: !!organisationId,
+  });
+
+  const onRulesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['leaveStaffingRules'] });
+    queryClient.invalidateQueries({ queryKey: ['leaveStaffingCheck'] });
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (input: CreateLeaveStaffingRuleInput) => {
+      if (!organisationId) throw new Error('No organisation ID');
+      return leaveService.createStaffingRule(organisationId, input);
+    },
+    onSuccess: () => {
+      onRulesChanged();
+      toast({ title: 'Staffing rule added' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to add staffing rule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ ruleId, updates }: {
+      ruleId: string;
+      updates: Partial<Pick<LeaveStaffingRule, 'min_staff' | 'enforcement' | 'is_active'>>;
+    }) => {
+      if (!organisationId) throw new Error('No organisation ID');
+      return leaveService.updateStaffingRule(ruleId, updates, organisationId);
+    },
+    onSuccess: onRulesChanged,
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to update staffing rule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      if (!organisationId) throw new Error('No organisation ID');
+      return leaveService.deleteStaffingRule(ruleId, organisationId);
+    },
+    onSuccess: () => {
+      onRulesChanged();
+      toast({ title: 'Staffing rule removed' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to remove staffing rule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    rules,
+    isLoading,
+    createRule: createRuleMutation.mutateAsync,
+    updateRule: updateRuleMutation.mutate,
+    deleteRule: deleteRuleMutation.mutate,
+    isCreatingRule: createRuleMutation.isPending,
+  };
+}
+
+export function useLeaveStaffingCheck(organisationId?: string, request?: LeaveRequest | null) {
+  const {
+    data: staffingCheck = null,
+    isLoading,
+  } = useQuery({
+    queryKey: ['leaveStaffingCheck', request?.id, request?.start_date, request?.end_date],
+    queryFn: () => leaveService.checkStaffing(organisationId!, request!),
+    enabled: !!organisationId && !!request,
+  });
+
+  return {
+    staffingCheck,
+    isLoading: isLoading && !!organisationId && !!request,
+  };
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { AwardClassification } from '@/hooks/useSettings';
+import { interpretShifts, calculateBucketPay, ShiftInterpretation } from '@/lib/awardInterpretation';
+import { holidayAppliesTo } from '@/lib/publicHolidays';
+import type { PublicHoliday } from '@/types/publicHolidays';
 
 export interface ShiftEntry {
   id: string;
@@ -27,6 +30,7 @@ export interface ShiftCalculation {
   sundayHours: number;
   publicHolidayHours: number;
   overtimeHours: number;
+  overtimeDoubleHours: number;
   basePay: number;
   eveningPay: number;
   nightPay: number;
@@ -34,7 +38,9 @@ export interface ShiftCalculation {
   sundayPay: number;
   publicHolidayPay: number;
   overtimePay: number;
+  overtimeDoublePay: number;
   totalPay: number;
+  publicHolidayName: string | null;
 }
 
 export interface PayrollSummary {
@@ -49,20 +55,18 @@ export interface PayrollSummary {
   sundayPay: number;
   publicHolidayPay: number;
   overtimePay: number;
+  overtimeDoublePay: number;
   totalPenaltyPay: number;
   grossPay: number;
 }
 
-// Time ranges for penalty rates (in 24h format)
-const EVENING_START = 18; // 6 PM
-const EVENING_END = 23;   // 11 PM
-const NIGHT_START = 23;   // 11 PM
-const NIGHT_END = 6;      // 6 AM
-
 export function usePayrollCalculator() {
   const [awardClassifications, setAwardClassifications] = useState<AwardClassification[]>([]);
   const [selectedAward, setSelectedAward] = useState<AwardClassification | null>(null);
   const [shifts, setShifts] = useState<ShiftEntry[]>([]);
+  const [publicHolidays, setPublicHolidays] = useState<PublicHoliday[]>([]);
+  // State whose regional holidays apply; null = national holidays only
+  const [holidayRegion, setHolidayRegion] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -82,9 +86,28 @@ export function usePayrollCalculator() {
       setLoading(false);
     };
 
+    const fetchPublicHolidays = async () => {
+      const { data, error } = await supabase
+        .from('public_holidays')
+        .select('*')
+        .order('holiday_date');
+
+      if (!error && data) {
+        setPublicHolidays(data as PublicHoliday[]);
+      }
+    };
+
     fetchAwards();
+    fetchPublicHolidays();
   }, []);
 
+  const getPublicHolidayName = (date: string): string | null => {
+    const holiday = publicHolidays.find(
+      h => h.holiday_date === date && holidayAppliesTo(h, holidayRegion)
+    );
+    return holiday?.name || null;
+  };
+
   const addShift = (shift: Omit<ShiftEntry, 'id'>) => {
     const newShift: ShiftEntry = {
       ...shift,
@@ -105,117 +128,17 @@ export function usePayrollCalculator() {
     setShifts([]);
   };
 
-  const calculateHoursInRange = (
-    startHour: number,
-    startMinute: number,
-    endHour: number,
-    endMinute: number,
-    rangeStart: number,
-    rangeEnd: number
-  ): number => {
-    const startDecimal = startHour + startMinute / 60;
-    const endDecimal = endHour + endMinute / 60;
-
-    // Handle overnight ranges (like night shift 23:00 - 06:00)
-    if (rangeStart > rangeEnd) {
-      // Split into two ranges: rangeStart-24 and 0-rangeEnd
-      const firstPartHours = calculateHoursInRange(
-        startHour, startMinute, endHour, endMinute,
-        rangeStart, 24
-      );
-      const secondPartHours = calculateHoursInRange(
-        startHour, startMinute, endHour, endMinute,
-        0, rangeEnd
-      );
-      return firstPartHours + secondPartHours;
-    }
-
-    // Normal range
-    const overlapStart = Math.max(startDecimal, rangeStart);
-    const overlapEnd = Math.min(endDecimal, rangeEnd);
-
-    if (overlapEnd > overlapStart) {
-      return overlapEnd - overlapStart;
-    }
-
-    return 0;
-  };
-
-  const calculateShift = (shift: ShiftEntry): ShiftCalculation | null => {
+  const calculateShift = (
+    shift: ShiftEntry,
+    interpretation: ShiftInterpretation,
+    publicHolidayName: string | null
+  ): ShiftCalculation | null => {
     if (!selectedAward) return null;
 
-    const [startHour, startMinute] = shift.startTime.split(':').map(Number);
-    const [endHour, endMinute] = shift.endTime.split(':').map(Number);
-    
-    // Calculate total hours (handle overnight shifts)
-    let totalMinutes = (endHour * 60 + endMinute) - (startHour * 60 + startMinute);
-    if (totalMinutes < 0) {
-      totalMinutes += 24 * 60; // Add 24 hours for overnight
-    }
-    
-    const totalHours = totalMinutes / 60;
-    const breakHours = shift.breakMinutes / 60;
-    const workedHours = Math.max(0, totalHours - breakHours);
-
-    // Get day of week (0 = Sunday, 6 = Saturday)
-    const shiftDate = new Date(shift.date);
-    const dayOfWeek = shiftDate.getDay();
-    const isSaturday = dayOfWeek === 6;
-    const isSunday = dayOfWeek === 0;
-
-    let baseHours = 0;
-    let eveningHours = 0;
-    let nightHours = 0;
-    let saturdayHours = 0;
-    let sundayHours = 0;
-    let publicHolidayHours = 0;
-    let overtimeHours = 0;
-
-    // Calculate hours by time period
-    if (shift.isPublicHoliday) {
-      publicHolidayHours = workedHours;
-    } else if (isSaturday) {
-      saturdayHours = workedHours;
-    } else if (isSunday) {
-      sundayHours = workedHours;
-    } else {
-      // Calculate evening hours (6 PM - 11 PM)
-      eveningHours = calculateHoursInRange(
-        startHour, startMinute, endHour, endMinute,
-        EVENING_START, EVENING_END
-      );
-      
-      // Calculate night hours (11 PM - 6 AM)
-      nightHours = calculateHoursInRange(
-        startHour, startMinute, endHour, endMinute,
-        NIGHT_START, NIGHT_END
-      );
-      
-      // Base hours are the remaining
-      baseHours = Math.max(0, workedHours - eveningHours - nightHours);
-    }
-
-    // Handle overtime (if marked as overtime, apply multiplier to all hours)
-    if (shift.isOvertime) {
-      overtimeHours = workedHours;
-      // Reset other categories when overtime
-      baseHours = 0;
-      eveningHours = 0;
-      nightHours = 0;
-    }
-
-    // Calculate pay
-    const baseRate = selectedAward.base_hourly_rate;
-    
-    const basePay = baseHours * baseRate;
-    const eveningPay = eveningHours * baseRate * selectedAward.evening_multiplier;
-    const nightPay = nightHours * baseRate * selectedAward.night_multiplier;
-    const saturdayPay = saturdayHours * baseRate * selectedAward.saturday_multiplier;
-    const sundayPay = sundayHours * baseRate * selectedAward.sunday_multiplier;
-    const publicHolidayPay = publicHolidayHours * baseRate * selectedAward.public_holiday_multiplier;
-    const overtimePay = overtimeHours * baseRate * selectedAward.overtime_multiplier;
+    const { totalHours, breakHours, workedHours, hours } = interpretation;
+    const pay = calculateBucketPay(hours, selectedAward);
 
-    const totalPay = basePay + eveningPay + nightPay + saturdayPay + sundayPay + publicHolidayPay + overtimePay;
+    const totalPay = Object.values(pay).reduce((sum, amount) => sum + amount, 0);
 
     return {
       shiftId: shift.id,
@@ -225,29 +148,42 @@ export function usePayrollCalculator() {
       totalHours,
       breakHours,
       workedHours,
-      baseHours,
-      eveningHours,
-      nightHours,
-      saturdayHours,
-      sundayHours,
-      publicHolidayHours,
-      overtimeHours,
-      basePay,
-      eveningPay,
-      nightPay,
-      saturdayPay,
-      sundayPay,
-      publicHolidayPay,
-      overtimePay,
+      baseHours: hours.standard,
+      eveningHours: hours.evening,
+      nightHours: hours.night,
+      saturdayHours: hours.weekend,
+      sundayHours: hours.sunday,
+      publicHolidayHours: hours.public_holiday,
+      overtimeHours: hours.overtime,
+      overtimeDoubleHours: hours.overtime_double,
+      basePay: pay.standard,
+      eveningPay: pay.evening,
+      nightPay: pay.night,
+      saturdayPay: pay.weekend,
+      sundayPay: pay.sunday,
+      publicHolidayPay: pay.public_holiday,
+      overtimePay: pay.overtime,
+      overtimeDoublePay: pay.overtime_double,
       totalPay,
+      publicHolidayName,
     };
   };
 
+  // Overtime thresholds apply across every shift in the period, not per shift.
+  // Shifts on a calendar public holiday get the holiday rate automatically.
   const calculations = useMemo<ShiftCalculation[]>(() => {
+    const holidayNames = shifts.map(shift => getPublicHolidayName(shift.date));
+    const interpretations = interpretShifts(
+      shifts.map((shift, index) => ({
+        ...shift,
+        isPublicHoliday: shift.isPublicHoliday || holidayNames[index] !== null,
+      })),
+      selectedAward
+    );
     return shifts
-      .map(calculateShift)
+      .map((shift, index) => calculateShift(shift, interpretations[index], holidayNames[index]))
       .filter((calc): calc is ShiftCalculation => calc !== null);
-  }, [shifts, selectedAward]);
+  }, [shifts, selectedAward, publicHolidays, holidayRegion]);
 
   const summary = useMemo<PayrollSummary>(() => {
     const initial: PayrollSummary = {
@@ -262,6 +198,7 @@ export function usePayrollCalculator() {
       sundayPay: 0,
       publicHolidayPay: 0,
       overtimePay: 0,
+      overtimeDoublePay: 0,
       totalPenaltyPay: 0,
       grossPay: 0,
     };
@@ -270,7 +207,7 @@ export function usePayrollCalculator() {
       acc.totalHours += calc.totalHours;
       acc.totalWorkedHours += calc.workedHours;
       acc.baseHours += calc.baseHours;
-      acc.penaltyHours += calc.eveningHours + calc.nightHours + calc.saturdayHours + calc.sundayHours + calc.publicHolidayHours + calc.overtimeHours;
+      acc.penaltyHours += calc.eveningHours + calc.nightHours + calc.saturdayHours + calc.sundayHours + calc.publicHolidayHours + calc.overtimeHours + calc.overtimeDoubleHours;
       acc.basePay += calc.basePay;
       acc.eveningPay += calc.eveningPay;
       acc.nightPay += calc.nightPay;
@@ -278,7 +215,8 @@ export function usePayrollCalculator() {
       acc.sundayPay += calc.sundayPay;
       acc.publicHolidayPay += calc.publicHolidayPay;
       acc.overtimePay += calc.overtimePay;
-      acc.totalPenaltyPay += calc.eveningPay + calc.nightPay + calc.saturdayPay + calc.sundayPay + calc.publicHolidayPay + calc.overtimePay;
+      acc.overtimeDoublePay += calc.overtimeDoublePay;
+      acc.totalPenaltyPay += calc.eveningPay + calc.nightPay + calc.saturdayPay + calc.sundayPay + calc.publicHolidayPay + calc.overtimePay + calc.overtimeDoublePay;
       acc.grossPay += calc.totalPay;
       return acc;
     }, initial);
@@ -293,6 +231,8 @@ export function usePayrollCalculator() {
     updateShift,
     removeShift,
     clearShifts,
+    holidayRegion,
+    setHolidayRegion,
     calculations,
     summary,
     loading,
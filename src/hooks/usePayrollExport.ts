@@ -15,6 +15,7 @@ import type {
   CreatePayrollMappingInput,
   ExportValidationResult,
   TimesheetForExport,
+  SavePayrollBankSettingsInput,
 } from '@/types/payroll';
 
 export function usePayrollExport(organisationId?: string) {
@@ -181,9 +182,9 @@ export function usePayrollExport(organisationId?: string) {
   // =====================================================
 
   const validateExportMutation = useMutation({
-    mutationFn: async (payPeriodId: string) => {
+    mutationFn: async ({ payPeriodId, provider }: { payPeriodId: string; provider: PayrollProvider }) => {
       if (!orgId) throw new Error('Organisation not found');
-      return payrollExportService.validateExport(orgId, payPeriodId, mappings);
+      return payrollExportService.validateExport(orgId, payPeriodId, mappings, provider);
     },
   });
 
@@ -250,16 +251,18 @@ export function usePayrollExport(organisationId?: string) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payroll-exports', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['pay-periods', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets', orgId] });
       toast({
         title: 'Export Voided',
-        description: 'The export has been voided.',
+        description: 'The export has been voided and its timesheets unlocked.',
       });
     },
     onError: (error) => {
       console.error('[usePayrollExport] Void export failed:', error);
       toast({
         title: 'Error',
-        description: 'Failed to void export.',
+        description: error instanceof Error ? error.message : 'Failed to void export.',
         variant: 'destructive',
       });
     },
@@ -279,6 +282,44 @@ export function usePayrollExport(organisationId?: string) {
     },
   });
 
+  // =====================================================
+  // Bank File Settings
+  // =====================================================
+
+  const {
+    data: bankSettings = null,
+    isLoading: isLoadingBankSettings,
+  } = useQuery({
+    queryKey: ['payroll-bank-settings', orgId],
+    queryFn: async () => {
+      if (!orgId) return null;
+      return payrollExportService.getBankSettings(orgId);
+    },
+    enabled: !!orgId,
+  });
+
+  const saveBankSettingsMutation = useMutation({
+    mutationFn: async (input: SavePayrollBankSettingsInput) => {
+      if (!orgId) throw new Error('Organisation not found');
+      return payrollExportService.saveBankSettings(orgId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-bank-settings', orgId] });
+      toast({
+        title: 'Bank Settings Saved',
+        description: 'Bank file settings have been updated.',
+      });
+    },
+    onError: (error) => {
+      console.error('[usePayrollExport] Save bank settings failed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save bank file settings.',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // =====================================================
   // Timesheet Unlock
   // =====================================================
@@ -346,7 +387,8 @@ export function usePayrollExport(organisationId?: string) {
     isCreatingMapping: createMappingMutation.isPending,
 
     // Validation
-    validateExport: validateExportMutation.mutateAsync,
+    validateExport: (payPeriodId: string, provider: PayrollProvider) =>
+      validateExportMutation.mutateAsync({ payPeriodId, provider }),
     isValidating: validateExportMutation.isPending,
     validationResult: validateExportMutation.data,
 
@@ -359,6 +401,12 @@ export function usePayrollExport(organisationId?: string) {
     isVoiding: voidExportMutation.isPending,
     isDownloading: getDownloadUrlMutation.isPending,
 
+    // Bank File Settings
+    bankSettings,
+    isLoadingBankSettings,
+    saveBankSettings: saveBankSettingsMutation.mutateAsync,
+    isSavingBankSettings: saveBankSettingsMutation.isPending,
+
     // Timesheet Actions
     unlockTimesheet: (timesheetId: string, reason: string) =>
       unlockTimesheetMutation.mutateAsync({ timesheetId, reason }),
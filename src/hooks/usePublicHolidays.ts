@@ -0,0 +1,132 @@
+/**
+ * Hook for the organisation's public holiday calendar
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { publicHolidayService } from '@/services/publicHolidayService';
+import { toast } from '@/hooks/use-toast';
+import type {
+  CreatePublicHolidayInput,
+  ParsedPublicHoliday,
+  PublicHoliday,
+  PublicHolidaySource,
+} from '@/types/publicHolidays';
+
+export function usePublicHolidays(organisationId?: string) {
+  const queryClient = useQueryClient();
+
+  // Get default organisation if not provided
+  const { data: defaultOrg } = useQuery({
+    queryKey: ['default-organisation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organisations')
+        .select('id')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !organisationId,
+  });
+
+  const orgId = organisationId || defaultOrg?.id;
+
+  const {
+    data: holidays = [],
+    isLoading,
+  } = useQuery({
+    queryKey: ['public-holidays', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+      return publicHolidayService.getHolidays(orgId);
+    },
+    enabled: !!orgId,
+  });
+
+  const createHolidayMutation = useMutation({
+    mutationFn: async (input: CreatePublicHolidayInput) => {
+      if (!orgId) throw new Error('Organisation not found');
+      return publicHolidayService.createHoliday(orgId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['public-holidays', orgId] });
+      toast({
+        title: 'Holiday Added',
+        description: 'The public holiday has been added to the calendar.',
+      });
+    },
+    onError: (error) => {
+      console.error('[usePublicHolidays] Create holiday failed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add public holiday. It may already exist.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (holiday: PublicHoliday) => {
+      return publicHolidayService.deleteHoliday(holiday);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['public-holidays', orgId] });
+      toast({
+        title: 'Holiday Removed',
+        description: 'The public holiday has been removed.',
+      });
+    },
+    onError: (error) => {
+      console.error('[usePublicHolidays] Delete holiday failed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove public holiday.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const importHolidaysMutation = useMutation({
+    mutationFn: async ({
+      holidays,
+      source,
+    }: {
+      holidays: ParsedPublicHoliday[];
+      source: Exclude<PublicHolidaySource, 'manual'>;
+    }) => {
+      if (!orgId) throw new Error('Organisation not found');
+      return publicHolidayService.importHolidays(orgId, holidays, source);
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['public-holidays', orgId] });
+      toast({
+        title: 'Holidays Imported',
+        description: `${count} public holiday${count === 1 ? '' : 's'} imported.`,
+      });
+    },
+    onError: (error) => {
+      console.error('[usePublicHolidays] Import failed:', error);
+      toast({
+        title: 'Import Failed',
+        description: 'Failed to import public holidays. Please check the file and try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    organisationId: orgId,
+    holidays,
+    isLoading,
+
+    createHoliday: createHolidayMutation.mutateAsync,
+    deleteHoliday: deleteHolidayMutation.mutateAsync,
+    importHolidays: (holidays: ParsedPublicHoliday[], source: Exclude<PublicHolidaySource, 'manual'>) =>
+      importHolidaysMutation.mutateAsync({ holidays, source }),
+    isCreating: createHolidayMutation.isPending,
+    isDeleting: deleteHolidayMutation.isPending,
+    isImporting: importHolidaysMutation.isPending,
+  };
+}
@@ -0,0 +1,184 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { rosteringService } from '@/services/rosteringService';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  CreateParticipantInput,
+  CreateShiftInput,
+  Participant,
+  ParticipantWorker,
+  Shift,
+} from '@/types/rostering';
+
+export function useRostering(rangeStart: Date, rangeEnd: Date, organisationId?: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Get organisation ID if not provided
+  const { data: orgData } = useQuery({
+    queryKey: ['organisation'],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from('organisations')
+        .select('id')
+        .limit(1)
+        .single();
+      return data;
+    },
+    enabled: !organisationId,
+  });
+
+  const effectiveOrgId = organisationId || orgData?.id;
+
+  const {
+    data: participants = [],
+    isLoading: participantsLoading,
+  } = useQuery({
+    queryKey: ['participants', effectiveOrgId],
+    queryFn: () => rosteringService.getParticipants(effectiveOrgId!),
+    enabled: !!effectiveOrgId,
+  });
+
+  const {
+    data: shifts = [],
+    isLoading: shiftsLoading,
+  } = useQuery({
+    queryKey: ['shifts', effectiveOrgId, rangeStart.toISOString(), rangeEnd.toISOString()],
+    queryFn: () => rosteringService.getShifts(effectiveOrgId!, rangeStart, rangeEnd),
+    enabled: !!effectiveOrgId,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const createParticipantMutation = useMutation({
+    mutationFn: async (input: CreateParticipantInput) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.createParticipant(effectiveOrgId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['participants'] });
+      toast({ title: 'Participant added' });
+    },
+    onError: onError('Failed to add participant'),
+  });
+
+  const updateParticipantMutation = useMutation({
+    mutationFn: async ({ participantId, updates }: {
+      participantId: string;
+      updates: Partial<CreateParticipantInput> & { status?: Participant['status'] };
+    }) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.updateParticipant(participantId, updates, effectiveOrgId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['participants'] });
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast({ title: 'Participant updated' });
+    },
+    onError: onError('Failed to update participant'),
+  });
+
+  // Resolves with the compliance outcome; a blocked worker isn't an error
+  const assignWorkerMutation = useMutation({
+    mutationFn: async ({ participantId, employeeId }: { participantId: string; employeeId: string }) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.assignWorker(participantId, employeeId, effectiveOrgId);
+    },
+    onSuccess: (outcome) => {
+      if (!outcome.assigned) return;
+      queryClient.invalidateQueries({ queryKey: ['participants'] });
+      toast({ title: 'Worker added to support team' });
+    },
+    onError: onError('Failed to add worker'),
+  });
+
+  const removeWorkerMutation = useMutation({
+    mutationFn: async (worker: ParticipantWorker) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.removeWorker(worker, effectiveOrgId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['participants'] });
+    },
+    onError: onError('Failed to remove worker'),
+  });
+
+  const createShiftMutation = useMutation({
+    mutationFn: async (input: CreateShiftInput) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.createShift(effectiveOrgId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast({ title: 'Shift created' });
+    },
+    onError: onError('Failed to create shift'),
+  });
+
+  const assignShiftMutation = useMutation({
+    mutationFn: async ({ shiftId, employeeId }: { shiftId: string; employeeId: string }) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.assignShift(shiftId, employeeId, effectiveOrgId);
+    },
+    onSuccess: (outcome) => {
+      if (!outcome.assigned) return;
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast({ title: 'Shift assigned' });
+    },
+    onError: onError('Failed to assign shift'),
+  });
+
+  const unassignShiftMutation = useMutation({
+    mutationFn: async (shift: Shift) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.unassignShift(shift, effectiveOrgId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast({ title: 'Shift reopened' });
+    },
+    onError: onError('Failed to unassign shift'),
+  });
+
+  const cancelShiftMutation = useMutation({
+    mutationFn: async (shift: Shift) => {
+      if (!effectiveOrgId) throw new Error('No organisation ID');
+      return rosteringService.cancelShift(shift, effectiveOrgId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast({ title: 'Shift cancelled' });
+    },
+    onError: onError('Failed to cancel shift'),
+  });
+
+  return {
+    // Data
+    participants,
+    shifts,
+    organisationId: effectiveOrgId,
+
+    // Loading states
+    isLoading: participantsLoading || shiftsLoading,
+    participantsLoading,
+    shiftsLoading,
+
+    // Mutations
+    createParticipant: createParticipantMutation.mutate,
+    updateParticipant: updateParticipantMutation.mutate,
+    assignWorker: assignWorkerMutation.mutateAsync,
+    removeWorker: removeWorkerMutation.mutate,
+    createShift: createShiftMutation.mutate,
+    assignShift: assignShiftMutation.mutateAsync,
+    unassignShift: unassignShiftMutation.mutate,
+    cancelShift: cancelShiftMutation.mutate,
+
+    // Mutation states
+    isSavingParticipant: createParticipantMutation.isPending || updateParticipantMutation.isPending,
+    isAssigningWorker: assignWorkerMutation.isPending,
+    isCreatingShift: createShiftMutation.isPending,
+    isAssigningShift: assignShiftMutation.isPending,
+  };
+}
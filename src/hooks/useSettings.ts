@@ -32,6 +32,10 @@ export interface AwardClassification {
   evening_multiplier: number;
   night_multiplier: number;
   overtime_multiplier: number;
+  overtime_tier2_multiplier: number;
+  overtime_tier1_hours: number;
+  daily_overtime_threshold_hours: number | null;
+  weekly_overtime_threshold_hours: number | null;
   organisation_id?: string | null;
   created_at: string;
   updated_at: string;
@@ -47,6 +51,10 @@ export interface AwardClassificationInput {
   evening_multiplier?: number;
   night_multiplier?: number;
   overtime_multiplier?: number;
+  overtime_tier2_multiplier?: number;
+  overtime_tier1_hours?: number;
+  daily_overtime_threshold_hours?: number | null;
+  weekly_overtime_threshold_hours?: number | null;
 }
 
 export function useSettings(
@@ -337,6 +345,10 @@ export function useSettings(
         evening_multiplier: input.evening_multiplier ?? 1.15,
         night_multiplier: input.night_multiplier ?? 1.25,
         overtime_multiplier: input.overtime_multiplier ?? 1.5,
+        overtime_tier2_multiplier: input.overtime_tier2_multiplier ?? 2.0,
+        overtime_tier1_hours: input.overtime_tier1_hours ?? 2,
+        daily_overtime_threshold_hours: input.daily_overtime_threshold_hours ?? null,
+        weekly_overtime_threshold_hours: input.weekly_overtime_threshold_hours ?? null,
         ...(organisationId ? { organisation_id: organisationId } : {}),
       })
       .select()
@@ -380,6 +392,10 @@ export function useSettings(
         evening_multiplier: input.evening_multiplier,
         night_multiplier: input.night_multiplier,
         overtime_multiplier: input.overtime_multiplier,
+        overtime_tier2_multiplier: input.overtime_tier2_multiplier,
+        overtime_tier1_hours: input.overtime_tier1_hours,
+        daily_overtime_threshold_hours: input.daily_overtime_threshold_hours,
+        weekly_overtime_threshold_hours: input.weekly_overtime_threshold_hours,
       })
       .eq('id', id)
       .select()
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { auditService } from '@/services/auditService';
+import { payrollExportService } from '@/services/payrollExportService';
 import { toast } from '@/hooks/use-toast';
 import type { TimesheetDB, CreateTimesheetInput } from '@/types/database';
 
@@ -250,6 +251,96 @@ export function useSupabaseTimesheets(organisationId?: string) {
     },
   });
 
+  // Bulk approve/reject mutation - locked (exported) timesheets are skipped
+  const bulkStatusMutation = useMutation({
+    mutationFn: async ({ ids, status }: { ids: string[]; status: 'approved' | 'rejected' }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: beforeStates, error: fetchError } = await supabase
+        .from('timesheets')
+        .select('id, status, is_locked')
+        .in('id', ids);
+
+      if (fetchError) throw fetchError;
+
+      const editableIds = (beforeStates || [])
+        .filter(t => !t.is_locked && t.status !== status)
+        .map(t => t.id);
+
+      if (editableIds.length === 0) {
+        return { timesheets: [] as TimesheetDB[], beforeStates: beforeStates || [], status };
+      }
+
+      const updates = status === 'approved'
+        ? { status, approved_by: user?.id, approved_at: new Date().toISOString() }
+        : { status };
+
+      const { data, error } = await supabase
+        .from('timesheets')
+        .update(updates)
+        .in('id', editableIds)
+        .select();
+
+      if (error) throw error;
+      return { timesheets: (data || []) as TimesheetDB[], beforeStates: beforeStates || [], status };
+    },
+    onSuccess: async ({ timesheets: updated, beforeStates, status }) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', orgId] });
+
+      const beforeMap = new Map(beforeStates.map(b => [b.id, b.status]));
+      await Promise.all(
+        updated.map(timesheet =>
+          auditService.logTimesheetAction(
+            status === 'approved' ? 'approve' : 'reject',
+            timesheet.id,
+            orgId,
+            { status: beforeMap.get(timesheet.id) },
+            status === 'approved'
+              ? { status, approved_at: timesheet.approved_at, bulk: true }
+              : { status, bulk: true }
+          )
+        )
+      );
+
+      const skipped = beforeStates.length - updated.length;
+      toast({
+        title: status === 'approved' ? 'Timesheets Approved' : 'Timesheets Rejected',
+        description: `${updated.length} timesheet${updated.length === 1 ? '' : 's'} ${status}.` +
+          (skipped > 0 ? ` ${skipped} skipped (locked or unchanged).` : ''),
+      });
+    },
+    onError: (error) => {
+      console.error('[useSupabaseTimesheets] Bulk status update failed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update timesheets. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Unlock exported timesheet - writes to timesheet_unlock_log via the unlock_timesheet RPC
+  const unlockMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return payrollExportService.unlockTimesheet(id, reason);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', orgId] });
+      toast({
+        title: 'Timesheet Unlocked',
+        description: 'The timesheet has been unlocked for editing.',
+      });
+    },
+    onError: (error) => {
+      console.error('[useSupabaseTimesheets] Unlock failed:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to unlock timesheet. Only administrators can unlock exported timesheets.',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Delete timesheet mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -318,7 +409,13 @@ export function useSupabaseTimesheets(organisationId?: string) {
       updateMutation.mutateAsync({ id, updates }),
     approveTimesheet: approveMutation.mutateAsync,
     rejectTimesheet: rejectMutation.mutateAsync,
+    bulkApproveTimesheets: (ids: string[]) =>
+      bulkStatusMutation.mutateAsync({ ids, status: 'approved' }),
+    bulkRejectTimesheets: (ids: string[]) =>
+      bulkStatusMutation.mutateAsync({ ids, status: 'rejected' }),
     deleteTimesheet: deleteMutation.mutateAsync,
+    unlockTimesheet: (id: string, reason: string) =>
+      unlockMutation.mutateAsync({ id, reason }),
     refetch,
     
     // Mutation states
@@ -326,6 +423,8 @@ export function useSupabaseTimesheets(organisationId?: string) {
     isUpdating: updateMutation.isPending,
     isApproving: approveMutation.isPending,
     isRejecting: rejectMutation.isPending,
+    isBulkUpdating: bulkStatusMutation.isPending,
     isDeleting: deleteMutation.isPending,
+    isUnlocking: unlockMutation.isPending,
   };
 }
@@ -85,6 +85,7 @@ export type Database = {
           generated_by_name: string | null
           id: string
           include_attachments: boolean
+          include_compliance_history: boolean
           include_restricted_content: boolean
           organisation_id: string
           pack_type: Database["public"]["Enums"]["audit_pack_type"]
@@ -108,6 +109,7 @@ export type Database = {
           generated_by_name?: string | null
           id?: string
           include_attachments?: boolean
+          include_compliance_history?: boolean
           include_restricted_content?: boolean
           organisation_id: string
           pack_type: Database["public"]["Enums"]["audit_pack_type"]
@@ -131,6 +133,7 @@ export type Database = {
           generated_by_name?: string | null
           id?: string
           include_attachments?: boolean
+          include_compliance_history?: boolean
           include_restricted_content?: boolean
           organisation_id?: string
           pack_type?: Database["public"]["Enums"]["audit_pack_type"]
@@ -161,6 +164,7 @@ export type Database = {
         Row: {
           base_hourly_rate: number
           created_at: string
+          daily_overtime_threshold_hours: number | null
           description: string | null
           evening_multiplier: number | null
           id: string
@@ -168,14 +172,18 @@ export type Database = {
           night_multiplier: number | null
           organisation_id: string | null
           overtime_multiplier: number | null
+          overtime_tier1_hours: number
+          overtime_tier2_multiplier: number
           public_holiday_multiplier: number | null
           saturday_multiplier: number | null
           sunday_multiplier: number | null
           updated_at: string
+          weekly_overtime_threshold_hours: number | null
         }
         Insert: {
           base_hourly_rate: number
           created_at?: string
+          daily_overtime_threshold_hours?: number | null
           description?: string | null
           evening_multiplier?: number | null
           id?: string
@@ -183,14 +191,18 @@ export type Database = {
           night_multiplier?: number | null
           organisation_id?: string | null
           overtime_multiplier?: number | null
+          overtime_tier1_hours?: number
+          overtime_tier2_multiplier?: number
           public_holiday_multiplier?: number | null
           saturday_multiplier?: number | null
           sunday_multiplier?: number | null
           updated_at?: string
+          weekly_overtime_threshold_hours?: number | null
         }
         Update: {
           base_hourly_rate?: number
           created_at?: string
+          daily_overtime_threshold_hours?: number | null
           description?: string | null
           evening_multiplier?: number | null
           id?: string
@@ -198,10 +210,13 @@ export type Database = {
           night_multiplier?: number | null
           organisation_id?: string | null
           overtime_multiplier?: number | null
+          overtime_tier1_hours?: number
+          overtime_tier2_multiplier?: number
           public_holiday_multiplier?: number | null
           saturday_multiplier?: number | null
           sunday_multiplier?: number | null
           updated_at?: string
+          weekly_overtime_threshold_hours?: number | null
         }
         Relationships: [
           {
@@ -213,6 +228,80 @@ export type Database = {
           },
         ]
       }
+      certification_verifications: {
+        Row: {
+          certification_id: string
+          created_at: string
+          document_id: string | null
+          employee_id: string
+          id: string
+          method: string
+          notes: string | null
+          organisation_id: string
+          reference_number: string | null
+          verified_by: string
+          verified_by_name: string
+          verified_on: string
+        }
+        Insert: {
+          certification_id: string
+          created_at?: string
+          document_id?: string | null
+          employee_id: string
+          id?: string
+          method: string
+          notes?: string | null
+          organisation_id: string
+          reference_number?: string | null
+          verified_by: string
+          verified_by_name: string
+          verified_on: string
+        }
+        Update: {
+          certification_id?: string
+          created_at?: string
+          document_id?: string | null
+          employee_id?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          organisation_id?: string
+          reference_number?: string | null
+          verified_by?: string
+          verified_by_name?: string
+          verified_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_verifications_certification_id_fkey"
+            columns: ["certification_id"]
+            isOneToOne: false
+            referencedRelation: "employee_certifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certification_verifications_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "employee_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certification_verifications_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certification_verifications_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       competencies: {
         Row: {
           category: string | null
@@ -291,8 +380,108 @@ export type Database = {
           },
         ]
       }
+      compliance_alert_log: {
+        Row: {
+          certification_id: string
+          certification_type: string
+          days_until_expiry: number
+          emailed_addresses: string[]
+          employee_id: string
+          expiry_date: string
+          id: string
+          notified_user_ids: string[]
+          organisation_id: string
+          sent_at: string
+          stage: string
+        }
+        Insert: {
+          certification_id: string
+          certification_type: string
+          days_until_expiry: number
+          emailed_addresses?: string[]
+          employee_id: string
+          expiry_date: string
+          id?: string
+          notified_user_ids?: string[]
+          organisation_id: string
+          sent_at?: string
+          stage: string
+        }
+        Update: {
+          certification_id?: string
+          certification_type?: string
+          days_until_expiry?: number
+          emailed_addresses?: string[]
+          employee_id?: string
+          expiry_date?: string
+          id?: string
+          notified_user_ids?: string[]
+          organisation_id?: string
+          sent_at?: string
+          stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_alert_log_certification_id_fkey"
+            columns: ["certification_id"]
+            isOneToOne: false
+            referencedRelation: "employee_certifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_alert_log_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_alert_log_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_override_limits: {
+        Row: {
+          certification_type: string
+          created_at: string
+          id: string
+          max_days: number
+          organisation_id: string
+          updated_at: string
+        }
+        Insert: {
+          certification_type: string
+          created_at?: string
+          id?: string
+          max_days: number
+          organisation_id: string
+          updated_at?: string
+        }
+        Update: {
+          certification_type?: string
+          created_at?: string
+          id?: string
+          max_days?: number
+          organisation_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_override_limits_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       compliance_overrides: {
         Row: {
+          approval_status: string
           blocked_certifications: Json
           context_id: string | null
           context_type: string
@@ -306,9 +495,15 @@ export type Database = {
           override_by_email: string
           override_by_name: string
           reason: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_email: string | null
+          reviewed_by_name: string | null
           updated_at: string
         }
         Insert: {
+          approval_status?: string
           blocked_certifications?: Json
           context_id?: string | null
           context_type: string
@@ -322,9 +517,15 @@ export type Database = {
           override_by_email: string
           override_by_name: string
           reason: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_email?: string | null
+          reviewed_by_name?: string | null
           updated_at?: string
         }
         Update: {
+          approval_status?: string
           blocked_certifications?: Json
           context_id?: string | null
           context_type?: string
@@ -338,6 +539,11 @@ export type Database = {
           override_by_email?: string
           override_by_name?: string
           reason?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_email?: string | null
+          reviewed_by_name?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -359,34 +565,43 @@ export type Database = {
       }
       compliance_rules: {
         Row: {
-          organisation_id: string
+          certification_type: string | null
           created_at: string
           document_type_id: string
+          employment_types: string[] | null
           id: string
           is_required: boolean | null
+          organisation_id: string
           target_type: Database["public"]["Enums"]["assignment_target_type"]
           target_value: string | null
           updated_at: string
+          warning_days: number
         }
         Insert: {
-          organisation_id: string
+          certification_type?: string | null
           created_at?: string
           document_type_id: string
+          employment_types?: string[] | null
           id?: string
           is_required?: boolean | null
+          organisation_id: string
           target_type: Database["public"]["Enums"]["assignment_target_type"]
           target_value?: string | null
           updated_at?: string
+          warning_days?: number
         }
         Update: {
-          organisation_id?: string
+          certification_type?: string | null
           created_at?: string
           document_type_id?: string
+          employment_types?: string[] | null
           id?: string
           is_required?: boolean | null
+          organisation_id?: string
           target_type?: Database["public"]["Enums"]["assignment_target_type"]
           target_value?: string | null
           updated_at?: string
+          warning_days?: number
         }
         Relationships: [
           {
@@ -398,6 +613,120 @@ export type Database = {
           },
         ]
       }
+      compliance_snapshots: {
+        Row: {
+          blocking_reasons: Json
+          compliant: boolean
+          employee_id: string
+          evaluated_at: string
+          expiring_soon: Json
+          id: string
+          organisation_id: string
+          override_active: boolean
+          snapshot_date: string
+          source: string
+          status: string
+        }
+        Insert: {
+          blocking_reasons?: Json
+          compliant: boolean
+          employee_id: string
+          evaluated_at?: string
+          expiring_soon?: Json
+          id?: string
+          organisation_id: string
+          override_active?: boolean
+          snapshot_date: string
+          source: string
+          status: string
+        }
+        Update: {
+          blocking_reasons?: Json
+          compliant?: boolean
+          employee_id?: string
+          evaluated_at?: string
+          expiring_soon?: Json
+          id?: string
+          organisation_id?: string
+          override_active?: boolean
+          snapshot_date?: string
+          source?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_snapshots_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_snapshots_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_status_events: {
+        Row: {
+          blocking_reasons: Json
+          compliant: boolean
+          employee_id: string
+          expiring_soon: Json
+          id: string
+          occurred_at: string
+          organisation_id: string
+          override_active: boolean
+          previous_status: string | null
+          source: string
+          status: string
+        }
+        Insert: {
+          blocking_reasons?: Json
+          compliant: boolean
+          employee_id: string
+          expiring_soon?: Json
+          id?: string
+          occurred_at?: string
+          organisation_id: string
+          override_active?: boolean
+          previous_status?: string | null
+          source: string
+          status: string
+        }
+        Update: {
+          blocking_reasons?: Json
+          compliant?: boolean
+          employee_id?: string
+          expiring_soon?: Json
+          id?: string
+          occurred_at?: string
+          organisation_id?: string
+          override_active?: boolean
+          previous_status?: string | null
+          source?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_status_events_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_status_events_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contract_audit_log: {
         Row: {
           action: string
@@ -442,6 +771,183 @@ export type Database = {
           },
         ]
       }
+      contract_signers: {
+        Row: {
+          contract_id: string
+          created_at: string
+          email: string
+          id: string
+          last_reminded_at: string | null
+          name: string
+          notified_at: string | null
+          reminder_count: number
+          role: Database["public"]["Enums"]["contract_signer_role"]
+          signed_at: string | null
+          signing_order: number
+          status: Database["public"]["Enums"]["contract_signer_status"]
+          updated_at: string
+        }
+        Insert: {
+          contract_id: string
+          created_at?: string
+          email: string
+          id?: string
+          last_reminded_at?: string | null
+          name: string
+          notified_at?: string | null
+          reminder_count?: number
+          role: Database["public"]["Enums"]["contract_signer_role"]
+          signed_at?: string | null
+          signing_order: number
+          status?: Database["public"]["Enums"]["contract_signer_status"]
+          updated_at?: string
+        }
+        Update: {
+          contract_id?: string
+          created_at?: string
+          email?: string
+          id?: string
+          last_reminded_at?: string | null
+          name?: string
+          notified_at?: string | null
+          reminder_count?: number
+          role?: Database["public"]["Enums"]["contract_signer_role"]
+          signed_at?: string | null
+          signing_order?: number
+          status?: Database["public"]["Enums"]["contract_signer_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_signers_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_signing_tokens: {
+        Row: {
+          created_at: string
+          signer_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          signer_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          signer_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_signing_tokens_signer_id_fkey"
+            columns: ["signer_id"]
+            isOneToOne: true
+            referencedRelation: "contract_signers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_template_versions: {
+        Row: {
+          change_note: string | null
+          content: string
+          created_at: string
+          created_by_name: string | null
+          created_by_user_id: string | null
+          id: string
+          organisation_id: string
+          template_id: string
+          version_number: number
+        }
+        Insert: {
+          change_note?: string | null
+          content: string
+          created_at?: string
+          created_by_name?: string | null
+          created_by_user_id?: string | null
+          id?: string
+          organisation_id: string
+          template_id: string
+          version_number?: number
+        }
+        Update: {
+          change_note?: string | null
+          content?: string
+          created_at?: string
+          created_by_name?: string | null
+          created_by_user_id?: string | null
+          id?: string
+          organisation_id?: string
+          template_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_template_versions_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "contract_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_templates: {
+        Row: {
+          created_at: string
+          created_by_user_id: string | null
+          current_version: number
+          description: string | null
+          id: string
+          is_archived: boolean
+          name: string
+          organisation_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by_user_id?: string | null
+          current_version?: number
+          description?: string | null
+          id?: string
+          is_archived?: boolean
+          name: string
+          organisation_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by_user_id?: string | null
+          current_version?: number
+          description?: string | null
+          id?: string
+          is_archived?: boolean
+          name?: string
+          organisation_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_templates_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contracts: {
         Row: {
           content: string
@@ -459,6 +965,7 @@ export type Database = {
           signed_at: string | null
           start_date: string | null
           status: Database["public"]["Enums"]["contract_status"]
+          template_version_id: string | null
           title: string
           updated_at: string
         }
@@ -478,6 +985,7 @@ export type Database = {
           signed_at?: string | null
           start_date?: string | null
           status?: Database["public"]["Enums"]["contract_status"]
+          template_version_id?: string | null
           title: string
           updated_at?: string
         }
@@ -497,10 +1005,19 @@ export type Database = {
           signed_at?: string | null
           start_date?: string | null
           status?: Database["public"]["Enums"]["contract_status"]
+          template_version_id?: string | null
           title?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "contracts_template_version_id_fkey"
+            columns: ["template_version_id"]
+            isOneToOne: false
+            referencedRelation: "contract_template_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       course_assignments: {
         Row: {
@@ -853,15 +1370,66 @@ export type Database = {
           file_name?: string
           file_url?: string
           id?: string
-          uploaded_by?: string
-          version_number?: number
+          uploaded_by?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "employee_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_bank_accounts: {
+        Row: {
+          account_name: string
+          account_number: string
+          bsb: string
+          created_at: string
+          employee_id: string
+          id: string
+          organisation_id: string
+          updated_at: string
+          updated_by_user_id: string | null
+        }
+        Insert: {
+          account_name: string
+          account_number: string
+          bsb: string
+          created_at?: string
+          employee_id: string
+          id?: string
+          organisation_id: string
+          updated_at?: string
+          updated_by_user_id?: string | null
+        }
+        Update: {
+          account_name?: string
+          account_number?: string
+          bsb?: string
+          created_at?: string
+          employee_id?: string
+          id?: string
+          organisation_id?: string
+          updated_at?: string
+          updated_by_user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "document_versions_document_id_fkey"
-            columns: ["document_id"]
+            foreignKeyName: "employee_bank_accounts_employee_id_fkey"
+            columns: ["employee_id"]
             isOneToOne: false
-            referencedRelation: "employee_documents"
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_bank_accounts_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
         ]
@@ -879,6 +1447,7 @@ export type Database = {
           status: Database["public"]["Enums"]["compliance_status"]
           type: string
           updated_at: string
+          verification_id: string | null
         }
         Insert: {
           created_at?: string
@@ -892,6 +1461,7 @@ export type Database = {
           status?: Database["public"]["Enums"]["compliance_status"]
           type: string
           updated_at?: string
+          verification_id?: string | null
         }
         Update: {
           created_at?: string
@@ -905,6 +1475,7 @@ export type Database = {
           status?: Database["public"]["Enums"]["compliance_status"]
           type?: string
           updated_at?: string
+          verification_id?: string | null
         }
         Relationships: [
           {
@@ -921,6 +1492,13 @@ export type Database = {
             referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "employee_certifications_verification_id_fkey"
+            columns: ["verification_id"]
+            isOneToOne: false
+            referencedRelation: "certification_verifications"
+            referencedColumns: ["id"]
+          },
         ]
       }
       employee_documents: {
@@ -1096,6 +1674,7 @@ export type Database = {
           employment_type: Database["public"]["Enums"]["employment_type"]
           end_date: string | null
           first_name: string
+          gender: string | null
           id: string
           last_name: string
           organisation_id: string
@@ -1105,6 +1684,7 @@ export type Database = {
           start_date: string | null
           status: Database["public"]["Enums"]["employee_status"]
           updated_at: string
+          work_state: string | null
         }
         Insert: {
           avatar_url?: string | null
@@ -1119,6 +1699,7 @@ export type Database = {
           employment_type?: Database["public"]["Enums"]["employment_type"]
           end_date?: string | null
           first_name: string
+          gender?: string | null
           id?: string
           last_name: string
           organisation_id: string
@@ -1128,6 +1709,7 @@ export type Database = {
           start_date?: string | null
           status?: Database["public"]["Enums"]["employee_status"]
           updated_at?: string
+          work_state?: string | null
         }
         Update: {
           avatar_url?: string | null
@@ -1142,6 +1724,7 @@ export type Database = {
           employment_type?: Database["public"]["Enums"]["employment_type"]
           end_date?: string | null
           first_name?: string
+          gender?: string | null
           id?: string
           last_name?: string
           organisation_id?: string
@@ -1151,6 +1734,7 @@ export type Database = {
           start_date?: string | null
           status?: Database["public"]["Enums"]["employee_status"]
           updated_at?: string
+          work_state?: string | null
         }
         Relationships: [
           {
@@ -1231,9 +1815,12 @@ export type Database = {
           created_at: string
           description: string | null
           file_name: string
+          file_size: number | null
           file_url: string
           hr_case_id: string
           id: string
+          sha256: string | null
+          storage_path: string | null
           uploaded_at: string
           uploaded_by_name: string | null
           uploaded_by_user_id: string
@@ -1243,9 +1830,12 @@ export type Database = {
           created_at?: string
           description?: string | null
           file_name: string
+          file_size?: number | null
           file_url: string
           hr_case_id: string
           id?: string
+          sha256?: string | null
+          storage_path?: string | null
           uploaded_at?: string
           uploaded_by_name?: string | null
           uploaded_by_user_id: string
@@ -1255,9 +1845,12 @@ export type Database = {
           created_at?: string
           description?: string | null
           file_name?: string
+          file_size?: number | null
           file_url?: string
           hr_case_id?: string
           id?: string
+          sha256?: string | null
+          storage_path?: string | null
           uploaded_at?: string
           uploaded_by_name?: string | null
           uploaded_by_user_id?: string
@@ -1272,6 +1865,57 @@ export type Database = {
           },
         ]
       }
+      hr_case_evidence_custody_events: {
+        Row: {
+          actor_name: string | null
+          actor_user_id: string | null
+          event_type: Database["public"]["Enums"]["hr_evidence_custody_event"]
+          evidence_id: string
+          hr_case_id: string
+          id: string
+          note: string | null
+          occurred_at: string
+          sha256: string | null
+        }
+        Insert: {
+          actor_name?: string | null
+          actor_user_id?: string | null
+          event_type: Database["public"]["Enums"]["hr_evidence_custody_event"]
+          evidence_id: string
+          hr_case_id: string
+          id?: string
+          note?: string | null
+          occurred_at?: string
+          sha256?: string | null
+        }
+        Update: {
+          actor_name?: string | null
+          actor_user_id?: string | null
+          event_type?: Database["public"]["Enums"]["hr_evidence_custody_event"]
+          evidence_id?: string
+          hr_case_id?: string
+          id?: string
+          note?: string | null
+          occurred_at?: string
+          sha256?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_evidence_custody_events_evidence_id_fkey"
+            columns: ["evidence_id"]
+            isOneToOne: false
+            referencedRelation: "hr_case_evidence"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_case_evidence_custody_events_hr_case_id_fkey"
+            columns: ["hr_case_id"]
+            isOneToOne: false
+            referencedRelation: "hr_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hr_case_findings: {
         Row: {
           contributing_factors: string | null
@@ -1300,61 +1944,323 @@ export type Database = {
         Update: {
           contributing_factors?: string | null
           created_at?: string
-          decision_date?: string
-          decision_maker_name?: string | null
-          decision_maker_user_id?: string
-          findings_summary?: string
-          hr_case_id?: string
+          decision_date?: string
+          decision_maker_name?: string | null
+          decision_maker_user_id?: string
+          findings_summary?: string
+          hr_case_id?: string
+          id?: string
+          substantiated?: Database["public"]["Enums"]["hr_case_substantiation"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_findings_hr_case_id_fkey"
+            columns: ["hr_case_id"]
+            isOneToOne: false
+            referencedRelation: "hr_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_case_intake_settings: {
+        Row: {
+          created_at: string
+          organisation_id: string
+          portal_enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          organisation_id: string
+          portal_enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          organisation_id?: string
+          portal_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_intake_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: true
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_case_notes: {
+        Row: {
+          created_at: string
+          created_by_name: string | null
+          created_by_user_id: string
+          hr_case_id: string
+          id: string
+          note_text: string
+          visibility: Database["public"]["Enums"]["hr_note_visibility"]
+        }
+        Insert: {
+          created_at?: string
+          created_by_name?: string | null
+          created_by_user_id: string
+          hr_case_id: string
+          id?: string
+          note_text: string
+          visibility?: Database["public"]["Enums"]["hr_note_visibility"]
+        }
+        Update: {
+          created_at?: string
+          created_by_name?: string | null
+          created_by_user_id?: string
+          hr_case_id?: string
+          id?: string
+          note_text?: string
+          visibility?: Database["public"]["Enums"]["hr_note_visibility"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_notes_hr_case_id_fkey"
+            columns: ["hr_case_id"]
+            isOneToOne: false
+            referencedRelation: "hr_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_case_reporter_channels: {
+        Row: {
+          case_key: string
+          created_at: string
+          failed_attempts: number
+          hr_case_id: string
+          id: string
+          locked_until: string | null
+          organisation_id: string
+          passphrase_hash: string
+        }
+        Insert: {
+          case_key: string
+          created_at?: string
+          failed_attempts?: number
+          hr_case_id: string
+          id?: string
+          locked_until?: string | null
+          organisation_id: string
+          passphrase_hash: string
+        }
+        Update: {
+          case_key?: string
+          created_at?: string
+          failed_attempts?: number
+          hr_case_id?: string
+          id?: string
+          locked_until?: string | null
+          organisation_id?: string
+          passphrase_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_reporter_channels_hr_case_id_fkey"
+            columns: ["hr_case_id"]
+            isOneToOne: true
+            referencedRelation: "hr_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_case_reporter_channels_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_case_reporter_messages: {
+        Row: {
+          body: string
+          created_at: string
+          hr_case_id: string
+          id: string
+          organisation_id: string
+          sender: string
+          sender_name: string | null
+          sender_user_id: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          hr_case_id: string
+          id?: string
+          organisation_id: string
+          sender: string
+          sender_name?: string | null
+          sender_user_id?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          hr_case_id?: string
+          id?: string
+          organisation_id?: string
+          sender?: string
+          sender_name?: string | null
+          sender_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_reporter_messages_hr_case_id_fkey"
+            columns: ["hr_case_id"]
+            isOneToOne: false
+            referencedRelation: "hr_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_case_reporter_messages_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_case_sla_escalations: {
+        Row: {
+          created_at: string
+          due_at: string
+          entered_status_at: string
+          hr_case_id: string
+          id: string
+          notified_user_ids: string[]
+          organisation_id: string
+          status: Database["public"]["Enums"]["hr_case_status"]
+          target_business_days: number
+        }
+        Insert: {
+          created_at?: string
+          due_at: string
+          entered_status_at: string
+          hr_case_id: string
+          id?: string
+          notified_user_ids?: string[]
+          organisation_id: string
+          status: Database["public"]["Enums"]["hr_case_status"]
+          target_business_days: number
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          entered_status_at?: string
+          hr_case_id?: string
+          id?: string
+          notified_user_ids?: string[]
+          organisation_id?: string
+          status?: Database["public"]["Enums"]["hr_case_status"]
+          target_business_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_case_sla_escalations_hr_case_id_fkey"
+            columns: ["hr_case_id"]
+            isOneToOne: false
+            referencedRelation: "hr_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_case_sla_escalations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hr_case_sla_targets: {
+        Row: {
+          case_type: Database["public"]["Enums"]["hr_case_type"]
+          created_at: string
+          id: string
+          organisation_id: string
+          severity: Database["public"]["Enums"]["hr_case_severity"]
+          status: Database["public"]["Enums"]["hr_case_status"]
+          target_business_days: number
+          updated_at: string
+        }
+        Insert: {
+          case_type: Database["public"]["Enums"]["hr_case_type"]
+          created_at?: string
+          id?: string
+          organisation_id: string
+          severity: Database["public"]["Enums"]["hr_case_severity"]
+          status: Database["public"]["Enums"]["hr_case_status"]
+          target_business_days: number
+          updated_at?: string
+        }
+        Update: {
+          case_type?: Database["public"]["Enums"]["hr_case_type"]
+          created_at?: string
           id?: string
-          substantiated?: Database["public"]["Enums"]["hr_case_substantiation"]
+          organisation_id?: string
+          severity?: Database["public"]["Enums"]["hr_case_severity"]
+          status?: Database["public"]["Enums"]["hr_case_status"]
+          target_business_days?: number
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "hr_case_findings_hr_case_id_fkey"
-            columns: ["hr_case_id"]
+            foreignKeyName: "hr_case_sla_targets_organisation_id_fkey"
+            columns: ["organisation_id"]
             isOneToOne: false
-            referencedRelation: "hr_cases"
+            referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
         ]
       }
-      hr_case_notes: {
+      hr_case_status_history: {
         Row: {
-          created_at: string
-          created_by_name: string | null
-          created_by_user_id: string
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["hr_case_status"] | null
           hr_case_id: string
           id: string
-          note_text: string
-          visibility: Database["public"]["Enums"]["hr_note_visibility"]
+          organisation_id: string
+          to_status: Database["public"]["Enums"]["hr_case_status"]
         }
         Insert: {
-          created_at?: string
-          created_by_name?: string | null
-          created_by_user_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["hr_case_status"] | null
           hr_case_id: string
           id?: string
-          note_text: string
-          visibility?: Database["public"]["Enums"]["hr_note_visibility"]
+          organisation_id: string
+          to_status: Database["public"]["Enums"]["hr_case_status"]
         }
         Update: {
-          created_at?: string
-          created_by_name?: string | null
-          created_by_user_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["hr_case_status"] | null
           hr_case_id?: string
           id?: string
-          note_text?: string
-          visibility?: Database["public"]["Enums"]["hr_note_visibility"]
+          organisation_id?: string
+          to_status?: Database["public"]["Enums"]["hr_case_status"]
         }
         Relationships: [
           {
-            foreignKeyName: "hr_case_notes_hr_case_id_fkey"
+            foreignKeyName: "hr_case_status_history_hr_case_id_fkey"
             columns: ["hr_case_id"]
             isOneToOne: false
             referencedRelation: "hr_cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "hr_case_status_history_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       hr_case_triage: {
@@ -1418,6 +2324,14 @@ export type Database = {
           detailed_description: string | null
           employee_id: string | null
           id: string
+          ndis_aware_at: string | null
+          ndis_commission_reference: string | null
+          ndis_incident_category: string | null
+          ndis_notification_due_at: string | null
+          ndis_notified_at: string | null
+          ndis_report_due_at: string | null
+          ndis_report_submitted_at: string | null
+          ndis_reportable: boolean
           organisation_id: string
           reported_by: Database["public"]["Enums"]["hr_case_reporter_type"]
           reporter_contact: string | null
@@ -1425,6 +2339,7 @@ export type Database = {
           safeguarding_flag: boolean
           severity: Database["public"]["Enums"]["hr_case_severity"]
           status: Database["public"]["Enums"]["hr_case_status"]
+          submitted_via_portal: boolean
           summary: string
           updated_at: string
         }
@@ -1441,6 +2356,14 @@ export type Database = {
           detailed_description?: string | null
           employee_id?: string | null
           id?: string
+          ndis_aware_at?: string | null
+          ndis_commission_reference?: string | null
+          ndis_incident_category?: string | null
+          ndis_notification_due_at?: string | null
+          ndis_notified_at?: string | null
+          ndis_report_due_at?: string | null
+          ndis_report_submitted_at?: string | null
+          ndis_reportable?: boolean
           organisation_id: string
           reported_by: Database["public"]["Enums"]["hr_case_reporter_type"]
           reporter_contact?: string | null
@@ -1448,6 +2371,7 @@ export type Database = {
           safeguarding_flag?: boolean
           severity?: Database["public"]["Enums"]["hr_case_severity"]
           status?: Database["public"]["Enums"]["hr_case_status"]
+          submitted_via_portal?: boolean
           summary: string
           updated_at?: string
         }
@@ -1464,6 +2388,14 @@ export type Database = {
           detailed_description?: string | null
           employee_id?: string | null
           id?: string
+          ndis_aware_at?: string | null
+          ndis_commission_reference?: string | null
+          ndis_incident_category?: string | null
+          ndis_notification_due_at?: string | null
+          ndis_notified_at?: string | null
+          ndis_report_due_at?: string | null
+          ndis_report_submitted_at?: string | null
+          ndis_reportable?: boolean
           organisation_id?: string
           reported_by?: Database["public"]["Enums"]["hr_case_reporter_type"]
           reporter_contact?: string | null
@@ -1471,6 +2403,7 @@ export type Database = {
           safeguarding_flag?: boolean
           severity?: Database["public"]["Enums"]["hr_case_severity"]
           status?: Database["public"]["Enums"]["hr_case_status"]
+          submitted_via_portal?: boolean
           summary?: string
           updated_at?: string
         }
@@ -1491,6 +2424,168 @@ export type Database = {
           },
         ]
       }
+      hr_warning_validity_periods: {
+        Row: {
+          action_type: Database["public"]["Enums"]["hr_action_type"]
+          created_at: string
+          id: string
+          organisation_id: string
+          updated_at: string
+          validity_months: number
+        }
+        Insert: {
+          action_type: Database["public"]["Enums"]["hr_action_type"]
+          created_at?: string
+          id?: string
+          organisation_id: string
+          updated_at?: string
+          validity_months: number
+        }
+        Update: {
+          action_type?: Database["public"]["Enums"]["hr_action_type"]
+          created_at?: string
+          id?: string
+          organisation_id?: string
+          updated_at?: string
+          validity_months?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_warning_validity_periods_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_accrual_ledger: {
+        Row: {
+          accrual_basis: string
+          accrued_hours: number
+          balance_after: number
+          balance_before: number
+          calculated_hours: number
+          capped: boolean
+          created_at: string
+          employee_id: string
+          hours_worked: number | null
+          id: string
+          leave_type_id: string
+          organisation_id: string
+          period_end: string
+          period_start: string
+          pro_rata_factor: number | null
+          run_id: string
+        }
+        Insert: {
+          accrual_basis: string
+          accrued_hours: number
+          balance_after: number
+          balance_before: number
+          calculated_hours: number
+          capped?: boolean
+          created_at?: string
+          employee_id: string
+          hours_worked?: number | null
+          id?: string
+          leave_type_id: string
+          organisation_id: string
+          period_end: string
+          period_start: string
+          pro_rata_factor?: number | null
+          run_id: string
+        }
+        Update: {
+          accrual_basis?: string
+          accrued_hours?: number
+          balance_after?: number
+          balance_before?: number
+          calculated_hours?: number
+          capped?: boolean
+          created_at?: string
+          employee_id?: string
+          hours_worked?: number | null
+          id?: string
+          leave_type_id?: string
+          organisation_id?: string
+          period_end?: string
+          period_start?: string
+          pro_rata_factor?: number | null
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_accrual_ledger_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_accrual_ledger_leave_type_id_fkey"
+            columns: ["leave_type_id"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_accrual_ledger_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_accrual_ledger_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "leave_accrual_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_accrual_runs: {
+        Row: {
+          balances_updated: number
+          completed_at: string | null
+          id: string
+          organisation_id: string
+          started_at: string
+          total_hours_accrued: number
+          triggered_by: string
+          triggered_by_user_id: string | null
+        }
+        Insert: {
+          balances_updated?: number
+          completed_at?: string | null
+          id?: string
+          organisation_id: string
+          started_at?: string
+          total_hours_accrued?: number
+          triggered_by: string
+          triggered_by_user_id?: string | null
+        }
+        Update: {
+          balances_updated?: number
+          completed_at?: string | null
+          id?: string
+          organisation_id?: string
+          started_at?: string
+          total_hours_accrued?: number
+          triggered_by?: string
+          triggered_by_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_accrual_runs_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leave_adjustments: {
         Row: {
           adjusted_by_email: string | null
@@ -1625,6 +2720,7 @@ export type Database = {
           organisation_id: string
           override_reason: string | null
           reason: string | null
+          staffing_override_reason: string | null
           start_date: string
           status: string
           type: string
@@ -1647,6 +2743,7 @@ export type Database = {
           organisation_id: string
           override_reason?: string | null
           reason?: string | null
+          staffing_override_reason?: string | null
           start_date: string
           status?: string
           type: string
@@ -1669,6 +2766,7 @@ export type Database = {
           organisation_id?: string
           override_reason?: string | null
           reason?: string | null
+          staffing_override_reason?: string | null
           start_date?: string
           status?: string
           type?: string
@@ -1698,12 +2796,61 @@ export type Database = {
           },
         ]
       }
+      leave_staffing_rules: {
+        Row: {
+          created_at: string
+          created_by_user_id: string | null
+          department: string | null
+          enforcement: string
+          id: string
+          is_active: boolean
+          min_staff: number
+          organisation_id: string
+          position: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by_user_id?: string | null
+          department?: string | null
+          enforcement?: string
+          id?: string
+          is_active?: boolean
+          min_staff: number
+          organisation_id: string
+          position?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by_user_id?: string | null
+          department?: string | null
+          enforcement?: string
+          id?: string
+          is_active?: boolean
+          min_staff?: number
+          organisation_id?: string
+          position?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_staffing_rules_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leave_types: {
         Row: {
+          accrual_basis: string
           accrual_frequency:
             | Database["public"]["Enums"]["accrual_frequency"]
             | null
           accrual_rate_hours: number | null
+          accrual_rate_per_hour: number | null
           accrues: boolean
           applicable_employment_types: string[] | null
           created_at: string
@@ -1718,10 +2865,12 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          accrual_basis?: string
           accrual_frequency?:
             | Database["public"]["Enums"]["accrual_frequency"]
             | null
           accrual_rate_hours?: number | null
+          accrual_rate_per_hour?: number | null
           accrues?: boolean
           applicable_employment_types?: string[] | null
           created_at?: string
@@ -1736,10 +2885,12 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          accrual_basis?: string
           accrual_frequency?:
             | Database["public"]["Enums"]["accrual_frequency"]
             | null
           accrual_rate_hours?: number | null
+          accrual_rate_per_hour?: number | null
           accrues?: boolean
           applicable_employment_types?: string[] | null
           created_at?: string
@@ -2007,24 +3158,142 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
-          legal_name: string
-          logo_url?: string | null
-          status?: Database["public"]["Enums"]["org_status"]
-          timezone?: string | null
-          trading_name?: string | null
+          legal_name: string
+          logo_url?: string | null
+          status?: Database["public"]["Enums"]["org_status"]
+          timezone?: string | null
+          trading_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          legal_name?: string
+          logo_url?: string | null
+          status?: Database["public"]["Enums"]["org_status"]
+          timezone?: string | null
+          trading_name?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      participant_workers: {
+        Row: {
+          assigned_by_user_id: string | null
+          compliance_override_id: string | null
+          created_at: string
+          employee_id: string
+          id: string
+          organisation_id: string
+          participant_id: string
+        }
+        Insert: {
+          assigned_by_user_id?: string | null
+          compliance_override_id?: string | null
+          created_at?: string
+          employee_id: string
+          id?: string
+          organisation_id: string
+          participant_id: string
+        }
+        Update: {
+          assigned_by_user_id?: string | null
+          compliance_override_id?: string | null
+          created_at?: string
+          employee_id?: string
+          id?: string
+          organisation_id?: string
+          participant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "participant_workers_compliance_override_id_fkey"
+            columns: ["compliance_override_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_overrides"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "participant_workers_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "participant_workers_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "participant_workers_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      participants: {
+        Row: {
+          address: string | null
+          created_at: string
+          created_by_user_id: string | null
+          first_name: string
+          id: string
+          last_name: string
+          ndis_number: string | null
+          organisation_id: string
+          phone: string | null
+          required_certifications: string[]
+          requirement_notes: string | null
+          status: string
+          updated_at: string
+          worker_gender: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          created_by_user_id?: string | null
+          first_name: string
+          id?: string
+          last_name: string
+          ndis_number?: string | null
+          organisation_id: string
+          phone?: string | null
+          required_certifications?: string[]
+          requirement_notes?: string | null
+          status?: string
           updated_at?: string
+          worker_gender?: string | null
         }
         Update: {
+          address?: string | null
           created_at?: string
+          created_by_user_id?: string | null
+          first_name?: string
           id?: string
-          legal_name?: string
-          logo_url?: string | null
-          status?: Database["public"]["Enums"]["org_status"]
-          timezone?: string | null
-          trading_name?: string | null
+          last_name?: string
+          ndis_number?: string | null
+          organisation_id?: string
+          phone?: string | null
+          required_certifications?: string[]
+          requirement_notes?: string | null
+          status?: string
           updated_at?: string
+          worker_gender?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "participants_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       pay_periods: {
         Row: {
@@ -2079,16 +3348,132 @@ export type Database = {
           },
         ]
       }
+      payroll_bank_settings: {
+        Row: {
+          account_name: string
+          account_number: string
+          apca_user_id: string
+          bsb: string
+          created_at: string
+          financial_institution: string
+          id: string
+          organisation_id: string
+          remitter_name: string
+          updated_at: string
+          user_name: string
+        }
+        Insert: {
+          account_name: string
+          account_number: string
+          apca_user_id: string
+          bsb: string
+          created_at?: string
+          financial_institution: string
+          id?: string
+          organisation_id: string
+          remitter_name: string
+          updated_at?: string
+          user_name: string
+        }
+        Update: {
+          account_name?: string
+          account_number?: string
+          apca_user_id?: string
+          bsb?: string
+          created_at?: string
+          financial_institution?: string
+          id?: string
+          organisation_id?: string
+          remitter_name?: string
+          updated_at?: string
+          user_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_bank_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_export_timesheets: {
+        Row: {
+          break_minutes: number
+          bucket_hours: Json
+          clock_in: string
+          clock_out: string | null
+          created_at: string
+          employee_id: string
+          id: string
+          organisation_id: string
+          payroll_export_id: string
+          timesheet_id: string
+          work_date: string
+        }
+        Insert: {
+          break_minutes?: number
+          bucket_hours?: Json
+          clock_in: string
+          clock_out?: string | null
+          created_at?: string
+          employee_id: string
+          id?: string
+          organisation_id: string
+          payroll_export_id: string
+          timesheet_id: string
+          work_date: string
+        }
+        Update: {
+          break_minutes?: number
+          bucket_hours?: Json
+          clock_in?: string
+          clock_out?: string | null
+          created_at?: string
+          employee_id?: string
+          id?: string
+          organisation_id?: string
+          payroll_export_id?: string
+          timesheet_id?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_export_timesheets_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_export_timesheets_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_export_timesheets_payroll_export_id_fkey"
+            columns: ["payroll_export_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_exports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payroll_exports: {
         Row: {
           created_at: string
           created_by_email: string | null
           created_by_name: string | null
           created_by_user_id: string
+          export_type: string
           file_urls: Json
           id: string
           organisation_id: string
           pay_period_id: string
+          previous_export_id: string | null
           provider: Database["public"]["Enums"]["payroll_provider"]
           status: Database["public"]["Enums"]["payroll_export_status"]
           totals_summary: Json
@@ -2103,10 +3488,12 @@ export type Database = {
           created_by_email?: string | null
           created_by_name?: string | null
           created_by_user_id: string
+          export_type?: string
           file_urls?: Json
           id?: string
           organisation_id: string
           pay_period_id: string
+          previous_export_id?: string | null
           provider: Database["public"]["Enums"]["payroll_provider"]
           status?: Database["public"]["Enums"]["payroll_export_status"]
           totals_summary?: Json
@@ -2121,10 +3508,12 @@ export type Database = {
           created_by_email?: string | null
           created_by_name?: string | null
           created_by_user_id?: string
+          export_type?: string
           file_urls?: Json
           id?: string
           organisation_id?: string
           pay_period_id?: string
+          previous_export_id?: string | null
           provider?: Database["public"]["Enums"]["payroll_provider"]
           status?: Database["public"]["Enums"]["payroll_export_status"]
           totals_summary?: Json
@@ -2149,6 +3538,13 @@ export type Database = {
             referencedRelation: "pay_periods"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payroll_exports_previous_export_id_fkey"
+            columns: ["previous_export_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_exports"
+            referencedColumns: ["id"]
+          },
         ]
       }
       payroll_mappings: {
@@ -2481,6 +3877,50 @@ export type Database = {
         }
         Relationships: []
       }
+      public_holidays: {
+        Row: {
+          created_at: string
+          created_by_user_id: string | null
+          holiday_date: string
+          id: string
+          name: string
+          organisation_id: string
+          regions: string[]
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by_user_id?: string | null
+          holiday_date: string
+          id?: string
+          name: string
+          organisation_id: string
+          regions?: string[]
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by_user_id?: string | null
+          holiday_date?: string
+          id?: string
+          name?: string
+          organisation_id?: string
+          regions?: string[]
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_holidays_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_attempts: {
         Row: {
           answers: Json | null
@@ -2706,6 +4146,95 @@ export type Database = {
           },
         ]
       }
+      shifts: {
+        Row: {
+          assigned_at: string | null
+          assigned_by_user_id: string | null
+          compliance_override_id: string | null
+          created_at: string
+          created_by_user_id: string | null
+          employee_id: string | null
+          end_time: string
+          id: string
+          location: string | null
+          notes: string | null
+          organisation_id: string
+          participant_id: string | null
+          required_certifications: string[]
+          requires_driving: boolean
+          start_time: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by_user_id?: string | null
+          compliance_override_id?: string | null
+          created_at?: string
+          created_by_user_id?: string | null
+          employee_id?: string | null
+          end_time: string
+          id?: string
+          location?: string | null
+          notes?: string | null
+          organisation_id: string
+          participant_id?: string | null
+          required_certifications?: string[]
+          requires_driving?: boolean
+          start_time: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by_user_id?: string | null
+          compliance_override_id?: string | null
+          created_at?: string
+          created_by_user_id?: string | null
+          employee_id?: string | null
+          end_time?: string
+          id?: string
+          location?: string | null
+          notes?: string | null
+          organisation_id?: string
+          participant_id?: string | null
+          required_certifications?: string[]
+          requires_driving?: boolean
+          start_time?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shifts_compliance_override_id_fkey"
+            columns: ["compliance_override_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_overrides"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shifts_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shifts_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shifts_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sidebar_settings: {
         Row: {
           created_at: string
@@ -2745,6 +4274,7 @@ export type Database = {
           signature_type: string
           signed_at: string
           signer_email: string
+          signer_id: string
           signer_name: string
           user_agent: string | null
         }
@@ -2756,6 +4286,7 @@ export type Database = {
           signature_type?: string
           signed_at?: string
           signer_email: string
+          signer_id: string
           signer_name: string
           user_agent?: string | null
         }
@@ -2767,6 +4298,7 @@ export type Database = {
           signature_type?: string
           signed_at?: string
           signer_email?: string
+          signer_id?: string
           signer_name?: string
           user_agent?: string | null
         }
@@ -2774,10 +4306,17 @@ export type Database = {
           {
             foreignKeyName: "signatures_contract_id_fkey"
             columns: ["contract_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "contracts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "signatures_signer_id_fkey"
+            columns: ["signer_id"]
+            isOneToOne: true
+            referencedRelation: "contract_signers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       supervision_sessions: {
@@ -3161,6 +4700,10 @@ export type Database = {
         Args: { _case_id: string; _user_id: string }
         Returns: boolean
       }
+      can_access_reporter_thread: {
+        Args: { _case_id: string; _user_id: string }
+        Returns: boolean
+      }
       can_access_restricted_hr_content: {
         Args: { _user_id: string }
         Returns: boolean
@@ -3180,6 +4723,15 @@ export type Database = {
       }
       expire_audit_packs: { Args: never; Returns: undefined }
       expire_compliance_overrides: { Args: never; Returns: undefined }
+      expire_contracts: { Args: never; Returns: number }
+      expire_hr_warnings: { Args: never; Returns: number }
+      get_employee_user_ids: {
+        Args: { _employee_ids: string[] }
+        Returns: {
+          employee_id: string
+          user_id: string
+        }[]
+      }
       get_platform_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["platform_role"]
@@ -3207,19 +4759,70 @@ export type Database = {
         }
         Returns: boolean
       }
+      hr_case_status_label: {
+        Args: { _status: Database["public"]["Enums"]["hr_case_status"] }
+        Returns: string
+      }
+      is_contract_signer: {
+        Args: { _contract_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_platform_user: { Args: { _user_id: string }; Returns: boolean }
       lock_timesheets_for_export: {
         Args: { _pay_period_id: string; _timesheet_ids: string[] }
         Returns: number
       }
+      release_export_timesheet_locks: {
+        Args: { _export_id: string }
+        Returns: number
+      }
       restore_leave_balance: {
         Args: { _employee_id: string; _hours: number; _leave_type_id: string }
         Returns: boolean
       }
       run_leave_accruals: {
-        Args: { _organisation_id: string }
+        Args: { _organisation_id: string; _triggered_by?: string }
         Returns: number
       }
+      transition_hr_case: {
+        Args: {
+          _case_id: string
+          _closure_notes?: string
+          _to_status: Database["public"]["Enums"]["hr_case_status"]
+        }
+        Returns: {
+          assigned_investigator_user_id: string | null
+          case_number: string
+          case_type: Database["public"]["Enums"]["hr_case_type"]
+          closed_at: string | null
+          closure_notes: string | null
+          confidentiality_level: Database["public"]["Enums"]["hr_case_confidentiality"]
+          created_at: string
+          created_by_user_id: string | null
+          date_reported: string
+          detailed_description: string | null
+          employee_id: string | null
+          id: string
+          ndis_aware_at: string | null
+          ndis_commission_reference: string | null
+          ndis_incident_category: string | null
+          ndis_notification_due_at: string | null
+          ndis_notified_at: string | null
+          ndis_report_due_at: string | null
+          ndis_report_submitted_at: string | null
+          ndis_reportable: boolean
+          organisation_id: string
+          reported_by: Database["public"]["Enums"]["hr_case_reporter_type"]
+          reporter_contact: string | null
+          reporter_name: string | null
+          safeguarding_flag: boolean
+          severity: Database["public"]["Enums"]["hr_case_severity"]
+          status: Database["public"]["Enums"]["hr_case_status"]
+          submitted_via_portal: boolean
+          summary: string
+          updated_at: string
+        }
+      }
       unlock_timesheet: {
         Args: {
           _reason: string
@@ -3258,6 +4861,8 @@ export type Database = {
         | "hr_incidents"
         | "payroll_verification"
       compliance_status: "compliant" | "expiring" | "expired" | "pending"
+      contract_signer_role: "employee" | "countersigner" | "witness"
+      contract_signer_status: "pending" | "signed"
       contract_status:
         | "draft"
         | "pending_signature"
@@ -3281,7 +4886,12 @@ export type Database = {
       employment_type: "casual" | "part_time" | "full_time" | "contractor"
       feedback_type: "self" | "manager" | "peer" | "direct_report"
       hr_access_level: "normal" | "restricted"
-      hr_action_status: "planned" | "active" | "completed" | "withdrawn"
+      hr_action_status:
+        | "planned"
+        | "active"
+        | "completed"
+        | "withdrawn"
+        | "expired"
       hr_action_type:
         | "verbal_warning"
         | "written_warning"
@@ -3308,6 +4918,12 @@ export type Database = {
         | "grievance"
         | "performance"
         | "complaint"
+      hr_evidence_custody_event:
+        | "uploaded"
+        | "viewed"
+        | "downloaded"
+        | "verified"
+        | "verification_failed"
       hr_note_visibility: "standard" | "restricted"
       interaction_type: "email" | "call" | "text" | "note"
       module_type: "video" | "pdf" | "policy" | "quiz"
@@ -3321,7 +4937,12 @@ export type Database = {
       org_status: "trial" | "active" | "suspended" | "readonly"
       pay_period_status: "open" | "exported" | "closed"
       payroll_export_status: "generated" | "voided"
-      payroll_provider: "generic_csv" | "keypay" | "xero" | "myob"
+      payroll_provider:
+        | "generic_csv"
+        | "keypay"
+        | "xero"
+        | "myob"
+        | "internal_payslips"
       platform_role: "owner" | "admin" | "support_readonly"
       recurrence_type: "none" | "annual" | "biannual" | "quarterly" | "monthly"
       review_status: "draft" | "in_progress" | "pending_approval" | "completed"
@@ -3480,6 +5101,8 @@ export const Constants = {
         "payroll_verification",
       ],
       compliance_status: ["compliant", "expiring", "expired", "pending"],
+      contract_signer_role: ["employee", "countersigner", "witness"],
+      contract_signer_status: ["pending", "signed"],
       contract_status: [
         "draft",
         "pending_signature",
@@ -3506,7 +5129,13 @@ export const Constants = {
       employment_type: ["casual", "part_time", "full_time", "contractor"],
       feedback_type: ["self", "manager", "peer", "direct_report"],
       hr_access_level: ["normal", "restricted"],
-      hr_action_status: ["planned", "active", "completed", "withdrawn"],
+      hr_action_status: [
+        "planned",
+        "active",
+        "completed",
+        "withdrawn",
+        "expired",
+      ],
       hr_action_type: [
         "verbal_warning",
         "written_warning",
@@ -3536,6 +5165,13 @@ export const Constants = {
         "performance",
         "complaint",
       ],
+      hr_evidence_custody_event: [
+        "uploaded",
+        "viewed",
+        "downloaded",
+        "verified",
+        "verification_failed",
+      ],
       hr_note_visibility: ["standard", "restricted"],
       module_type: ["video", "pdf", "policy", "quiz"],
       org_document_category: [
@@ -3549,7 +5185,13 @@ export const Constants = {
       org_status: ["trial", "active", "suspended", "readonly"],
       pay_period_status: ["open", "exported", "closed"],
       payroll_export_status: ["generated", "voided"],
-      payroll_provider: ["generic_csv", "keypay", "xero", "myob"],
+      payroll_provider: [
+        "generic_csv",
+        "keypay",
+        "xero",
+        "myob",
+        "internal_payslips",
+      ],
       platform_role: ["owner", "admin", "support_readonly"],
       recurrence_type: ["none", "annual", "biannual", "quarterly", "monthly"],
       review_status: ["draft", "in_progress", "pending_approval", "completed"],
@@ -0,0 +1,180 @@
+/**
+ * ABA (Cemtex) direct entry file writer.
+ *
+ * The format is fixed width: every record is 120 characters, terminated with
+ * CRLF. A file has one descriptive record (type 0), one detail record (type 1)
+ * per payment and a file total record (type 7). Files written here are
+ * self-balancing - the last detail record debits the funding account for the
+ * total of the credits, so the net total is zero.
+ */
+
+const RECORD_LENGTH = 120;
+
+/** Transaction code for salary/wage credits. */
+const TRANSACTION_CODE_PAY = '53';
+/** Transaction code for the balancing debit from the funding account. */
+const TRANSACTION_CODE_DEBIT = '13';
+
+export interface AbaHeader {
+  /** Three letter APCA abbreviation of the funding bank, e.g. CBA */
+  financialInstitution: string;
+  userName: string;
+  /** Six digit direct entry user ID issued by the bank */
+  apcaUserId: string;
+  description: string;
+  /** yyyy-MM-dd */
+  processingDate: string;
+}
+
+export interface AbaAccount {
+  /** Six digits, with or without the dash */
+  bsb: string;
+  accountNumber: string;
+  accountName: string;
+}
+
+export interface AbaPayment extends AbaAccount {
+  amountCents: number;
+  lodgementReference: string;
+}
+
+export interface AbaFileInput {
+  header: AbaHeader;
+  payments: AbaPayment[];
+  /** Funding account - trace account for returns and the balancing debit */
+  funding: AbaAccount;
+  remitterName: string;
+}
+
+/**
+ * Reduces text to the BECS character set and upper case. Anything else is
+ * dropped so a stray character doesn't shift the fixed-width fields.
+ */
+function sanitize(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9 &'()*+,\-./#]/g, '');
+}
+
+function left(value: string, width: number): string {
+  return sanitize(value).slice(0, width).padEnd(width, ' ');
+}
+
+function rightBlank(value: string, width: number): string {
+  return value.slice(-width).padStart(width, ' ');
+}
+
+function rightZero(value: number | string, width: number): string {
+  return String(value).slice(-width).padStart(width, '0');
+}
+
+function blank(width: number): string {
+  return ' '.repeat(width);
+}
+
+export function formatBsb(bsb: string): string {
+  const digits = bsb.replace(/\D/g, '');
+  return `${digits.slice(0, 3)}-${digits.slice(3, 6)}`;
+}
+
+export function isValidBsb(bsb: string): boolean {
+  return /^\d{3}-?\d{3}$/.test(bsb.trim());
+}
+
+export function isValidAccountNumber(accountNumber: string): boolean {
+  return /^\d{1,9}$/.test(accountNumber.trim());
+}
+
+function formatProcessingDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}${month}${year.slice(2)}`;
+}
+
+function descriptiveRecord(header: AbaHeader): string {
+  return [
+    '0',
+    blank(17),
+    '01', // Reel sequence number
+    left(header.financialInstitution, 3),
+    blank(7),
+    left(header.userName, 26),
+    rightZero(header.apcaUserId, 6),
+    left(header.description, 12),
+    formatProcessingDate(header.processingDate),
+    blank(40),
+  ].join('');
+}
+
+function detailRecord(
+  account: AbaAccount,
+  transactionCode: string,
+  amountCents: number,
+  lodgementReference: string,
+  funding: AbaAccount,
+  remitterName: string
+): string {
+  return [
+    '1',
+    formatBsb(account.bsb),
+    rightBlank(account.accountNumber, 9),
+    ' ', // Indicator
+    transactionCode,
+    rightZero(amountCents, 10),
+    left(account.accountName, 32),
+    left(lodgementReference, 18),
+    formatBsb(funding.bsb),
+    rightBlank(funding.accountNumber, 9),
+    left(remitterName, 16),
+    rightZero(0, 8), // Withholding tax
+  ].join('');
+}
+
+function fileTotalRecord(creditCents: number, debitCents: number, detailCount: number): string {
+  return [
+    '7',
+    '999-999',
+    blank(12),
+    rightZero(Math.abs(creditCents - debitCents), 10),
+    rightZero(creditCents, 10),
+    rightZero(debitCents, 10),
+    blank(24),
+    rightZero(detailCount, 6),
+    blank(40),
+  ].join('');
+}
+
+/**
+ * Builds a balanced ABA file paying each amount into the given accounts.
+ * Zero amounts are skipped. A negative amount can't be paid, so it is an
+ * error rather than being left out.
+ */
+export function buildAbaFile(input: AbaFileInput): string {
+  const negative = input.payments.find(p => p.amountCents < 0);
+  if (negative) {
+    throw new Error(`Cannot pay a negative amount to ${negative.accountName}`);
+  }
+  const payments = input.payments.filter(p => p.amountCents > 0);
+  const creditCents = payments.reduce((sum, p) => sum + p.amountCents, 0);
+
+  const records = [
+    descriptiveRecord(input.header),
+    ...payments.map(p =>
+      detailRecord(p, TRANSACTION_CODE_PAY, p.amountCents, p.lodgementReference, input.funding, input.remitterName)
+    ),
+    detailRecord(
+      input.funding,
+      TRANSACTION_CODE_DEBIT,
+      creditCents,
+      input.header.description,
+      input.funding,
+      input.remitterName
+    ),
+    fileTotalRecord(creditCents, creditCents, payments.length + 1),
+  ];
+
+  for (const record of records) {
+    if (record.length !== RECORD_LENGTH) {
+      throw new Error(`ABA record is ${record.length} characters, expected ${RECORD_LENGTH}`);
+    }
+  }
+
+  return records.join('\r\n') + '\r\n';
+}
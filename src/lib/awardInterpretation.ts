@@ -0,0 +1,438 @@
+/**
+ * Award Interpretation
+ * Pure functions that split worked time into award penalty buckets.
+ * Shared by the payroll calculator and the payroll export line builder so
+ * both produce the same hours per bucket for the same shift.
+ */
+
+import { format, parseISO, startOfWeek } from 'date-fns';
+import type {
+  OvertimeRules,
+  PayrollMapping,
+  PayrollExportLine,
+  PenaltyBucket,
+  TimesheetForExport,
+} from '@/types/payroll';
+
+export interface InterpretableShift {
+  date: string;
+  startTime: string;
+  endTime: string | null;
+  breakMinutes: number;
+  isPublicHoliday?: boolean;
+  isOvertime?: boolean;
+}
+
+export type BucketHours = Record<PenaltyBucket, number>;
+
+export interface ShiftInterpretation {
+  totalHours: number;
+  breakHours: number;
+  workedHours: number;
+  hours: BucketHours;
+}
+
+export interface AwardRates {
+  base_hourly_rate: number;
+  saturday_multiplier: number;
+  sunday_multiplier: number;
+  public_holiday_multiplier: number;
+  evening_multiplier: number;
+  night_multiplier: number;
+  overtime_multiplier: number;
+  overtime_tier2_multiplier: number;
+}
+
+// Time ranges for penalty rates (decimal hours, 24h clock).
+// Night wraps past midnight so it is expressed as 23:00 -> 30:00 (06:00 next day).
+export const EVENING_RANGE: [number, number] = [18, 23];
+export const NIGHT_RANGE: [number, number] = [23, 30];
+
+// Overtime hours per day paid at the first overtime tier when an award doesn't say
+export const DEFAULT_OVERTIME_TIER1_HOURS = 2;
+
+// Fallback earning codes when an organisation has no mapping for a bucket
+const DEFAULT_EARNING_CODES: Record<PenaltyBucket, string> = {
+  standard: 'ORD',
+  evening: 'EVE',
+  night: 'NIGHT',
+  weekend: 'SAT',
+  sunday: 'SUN',
+  public_holiday: 'PH',
+  overtime: 'OT1.5',
+  overtime_double: 'OT2.0',
+};
+
+export function emptyBucketHours(): BucketHours {
+  return {
+    standard: 0,
+    evening: 0,
+    night: 0,
+    weekend: 0,
+    sunday: 0,
+    public_holiday: 0,
+    overtime: 0,
+    overtime_double: 0,
+  };
+}
+
+function toDecimalHours(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + (minutes || 0) / 60;
+}
+
+/**
+ * Hours of the span [start, end) that fall inside a daily range. The range is
+ * checked on the previous, same and next day so overnight shifts are handled.
+ */
+function overlapWithDailyRange(start: number, end: number, range: [number, number]): number {
+  let total = 0;
+  for (const offset of [-24, 0, 24]) {
+    const overlapStart = Math.max(start, range[0] + offset);
+    const overlapEnd = Math.min(end, range[1] + offset);
+    if (overlapEnd > overlapStart) {
+      total += overlapEnd - overlapStart;
+    }
+  }
+  return total;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface ShiftSpan {
+  start: number;
+  end: number;
+  totalHours: number;
+  breakHours: number;
+  workedHours: number;
+}
+
+function getShiftSpan(shift: InterpretableShift): ShiftSpan | null {
+  if (!shift.endTime) return null;
+
+  const start = toDecimalHours(shift.startTime);
+  let end = toDecimalHours(shift.endTime);
+  if (end <= start) {
+    end += 24; // Overnight shift
+  }
+
+  const totalHours = end - start;
+  const breakHours = shift.breakMinutes / 60;
+  const workedHours = Math.max(0, totalHours - breakHours);
+
+  return { start, end, totalHours, breakHours, workedHours };
+}
+
+/**
+ * Splits [start, end) into penalty buckets. Public holiday and weekend shifts
+ * are paid entirely at that rate; weekday shifts are split into evening/night
+ * with the remainder as ordinary hours.
+ */
+function splitIntoBuckets(
+  shift: InterpretableShift,
+  start: number,
+  end: number,
+  workedHours: number
+): BucketHours {
+  const hours = emptyBucketHours();
+  if (workedHours <= 0) return hours;
+
+  // Day of week from the shift start date (0 = Sunday, 6 = Saturday)
+  const dayOfWeek = new Date(`${shift.date}T00:00:00`).getDay();
+
+  if (shift.isPublicHoliday) {
+    hours.public_holiday = workedHours;
+  } else if (dayOfWeek === 6) {
+    hours.weekend = workedHours;
+  } else if (dayOfWeek === 0) {
+    hours.sunday = workedHours;
+  } else {
+    hours.evening = Math.min(workedHours, overlapWithDailyRange(start, end, EVENING_RANGE));
+    hours.night = Math.min(
+      workedHours - hours.evening,
+      overlapWithDailyRange(start, end, NIGHT_RANGE)
+    );
+    // Breaks are taken out of ordinary time first
+    hours.standard = Math.max(0, workedHours - hours.evening - hours.night);
+  }
+
+  return hours;
+}
+
+/**
+ * Monday of the award week (Monday to Sunday) the date falls in.
+ */
+export function getWeekStart(date: string): string {
+  return format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Interprets every shift in a pay period for one employee, applying the
+ * award's overtime thresholds across the period rather than shift by shift.
+ *
+ * Shifts are walked in chronological order. Hours worked past the daily
+ * threshold are overtime, then ordinary hours past the weekly (Monday to
+ * Sunday) threshold are overtime. Overtime is taken from the end of the
+ * shift, so the earlier part keeps its evening/night/weekend split. Each
+ * day, the first overtime_tier1_hours of overtime go to the overtime bucket
+ * and the rest to overtime_double. A shift flagged as overtime is overtime
+ * in full and tiered the same way.
+ *
+ * Results are returned in the same order as the input shifts.
+ */
+export function interpretShifts(
+  shifts: InterpretableShift[],
+  rules?: OvertimeRules | null
+): ShiftInterpretation[] {
+  const results: ShiftInterpretation[] = new Array(shifts.length);
+  const tier1Hours = rules?.overtime_tier1_hours ?? DEFAULT_OVERTIME_TIER1_HOURS;
+  const dailyThreshold = rules?.daily_overtime_threshold_hours || null;
+  const weeklyThreshold = rules?.weekly_overtime_threshold_hours || null;
+
+  const workedByDay = new Map<string, number>();
+  const overtimeByDay = new Map<string, number>();
+  const ordinaryByWeek = new Map<string, number>();
+
+  const order = shifts
+    .map((_, index) => index)
+    .sort((a, b) => {
+      const x = shifts[a];
+      const y = shifts[b];
+      return x.date === y.date
+        ? x.startTime.localeCompare(y.startTime)
+        : x.date.localeCompare(y.date);
+    });
+
+  for (const index of order) {
+    const shift = shifts[index];
+    const span = getShiftSpan(shift);
+
+    if (!span) {
+      results[index] = { totalHours: 0, breakHours: 0, workedHours: 0, hours: emptyBucketHours() };
+      continue;
+    }
+
+    const { workedHours } = span;
+    const week = getWeekStart(shift.date);
+    const workedToday = workedByDay.get(shift.date) || 0;
+    const ordinaryThisWeek = ordinaryByWeek.get(week) || 0;
+
+    let overtime = 0;
+    if (shift.isOvertime) {
+      overtime = workedHours;
+    } else {
+      if (dailyThreshold) {
+        overtime = clamp(workedToday + workedHours - dailyThreshold, 0, workedHours);
+      }
+      if (weeklyThreshold) {
+        const ordinary = workedHours - overtime;
+        overtime += clamp(ordinaryThisWeek + ordinary - weeklyThreshold, 0, ordinary);
+      }
+    }
+
+    workedByDay.set(shift.date, workedToday + workedHours);
+    ordinaryByWeek.set(week, ordinaryThisWeek + workedHours - overtime);
+
+    const hours = splitIntoBuckets(shift, span.start, span.end - overtime, workedHours - overtime);
+
+    const overtimeToday = overtimeByDay.get(shift.date) || 0;
+    hours.overtime = Math.min(overtime, Math.max(0, tier1Hours - overtimeToday));
+    hours.overtime_double = overtime - hours.overtime;
+    overtimeByDay.set(shift.date, overtimeToday + overtime);
+
+    results[index] = {
+      totalHours: span.totalHours,
+      breakHours: span.breakHours,
+      workedHours,
+      hours,
+    };
+  }
+
+  return results;
+}
+
+/**
+ * Splits a single shift into penalty buckets with no overtime thresholds.
+ * A shift flagged as overtime is paid entirely at the overtime tiers.
+ */
+export function interpretShift(shift: InterpretableShift): ShiftInterpretation {
+  return interpretShifts([shift])[0];
+}
+
+/**
+ * Award multiplier applied to each penalty bucket.
+ */
+export function getAwardMultipliers(award: AwardRates): Record<PenaltyBucket, number> {
+  return {
+    standard: 1,
+    evening: award.evening_multiplier,
+    night: award.night_multiplier,
+    weekend: award.saturday_multiplier,
+    sunday: award.sunday_multiplier,
+    public_holiday: award.public_holiday_multiplier,
+    overtime: award.overtime_multiplier,
+    overtime_double: award.overtime_tier2_multiplier,
+  };
+}
+
+/**
+ * Pay per bucket for the given hours at the award's base rate and multipliers.
+ */
+export function calculateBucketPay(hours: BucketHours, award: AwardRates): BucketHours {
+  const multipliers = getAwardMultipliers(award);
+  const pay = emptyBucketHours();
+  for (const bucket of Object.keys(hours) as PenaltyBucket[]) {
+    pay[bucket] = hours[bucket] * award.base_hourly_rate * multipliers[bucket];
+  }
+  return pay;
+}
+
+/**
+ * Adapts an exported timesheet to the interpreter's shift shape.
+ */
+export function timesheetToShift(timesheet: TimesheetForExport): InterpretableShift {
+  return {
+    date: timesheet.date,
+    startTime: timesheet.clock_in,
+    endTime: timesheet.clock_out,
+    breakMinutes: timesheet.break_minutes || 0,
+    isPublicHoliday: timesheet.is_public_holiday,
+  };
+}
+
+/**
+ * Builds export earning lines for one employee's approved timesheets in a pay
+ * period - one per penalty bucket with hours per timesheet, each carrying the
+ * mapping's earning code and the award's multiplier (the mapping's when the
+ * employee has no award). Overtime thresholds are applied across all of the
+ * timesheets passed in.
+ *
+ * When the pay period starts mid-week, earlierTimesheets are the approved
+ * shifts from the start of that week: they count towards the weekly
+ * threshold but produce no lines.
+ *
+ * If the interpreted hours don't reconcile with the stored total_hours (e.g.
+ * the total was edited by hand), ordinary hours absorb the difference so the
+ * export always matches the approved timesheet.
+ */
+export function buildEarningLines(
+  timesheets: TimesheetForExport[],
+  mappings: PayrollMapping[],
+  rules?: OvertimeRules | null,
+  earlierTimesheets: TimesheetForExport[] = []
+): PayrollExportLine[] {
+  const interpretations = interpretShifts(
+    [...earlierTimesheets, ...timesheets].map(timesheetToShift),
+    rules
+  ).slice(earlierTimesheets.length);
+  const activeMappings = new Map(
+    mappings.filter(m => m.is_active !== false).map(m => [m.shift_type, m])
+  );
+
+  return timesheets.flatMap((timesheet, index) => {
+    const { hours, workedHours } = interpretations[index];
+
+    if (timesheet.total_hours !== null && timesheet.total_hours !== undefined) {
+      const difference = timesheet.total_hours - workedHours;
+      if (Math.abs(difference) >= 0.01) {
+        hours.standard = Math.max(0, hours.standard + difference);
+      }
+    }
+
+    return (Object.keys(hours) as PenaltyBucket[])
+      .filter(bucket => round(hours[bucket]) > 0)
+      .map(bucket => {
+        const mapping = activeMappings.get(bucket);
+        return {
+          timesheet_id: timesheet.id,
+          employee_id: timesheet.employee_id,
+          employee_name: timesheet.employee_name,
+          employee_email: timesheet.employee_email,
+          date: timesheet.date,
+          clock_in: timesheet.clock_in,
+          clock_out: timesheet.clock_out,
+          break_minutes: timesheet.break_minutes,
+          shift_type: bucket,
+          earning_code: mapping?.earning_code || DEFAULT_EARNING_CODES[bucket],
+          hours: round(hours[bucket]),
+          multiplier: timesheet.award_multipliers?.[bucket] ?? mapping?.multiplier ?? 1,
+          notes: timesheet.notes,
+        };
+      });
+  });
+}
+
+/**
+ * Hours per penalty bucket for each timesheet in a set of export lines.
+ */
+export function sumBucketHoursByTimesheet(lines: PayrollExportLine[]): Map<string, BucketHours> {
+  const totals = new Map<string, BucketHours>();
+  for (const line of lines) {
+    if (!totals.has(line.timesheet_id)) {
+      totals.set(line.timesheet_id, emptyBucketHours());
+    }
+    totals.get(line.timesheet_id)![line.shift_type] += line.hours;
+  }
+  return totals;
+}
+
+/**
+ * The shift an earlier export paid a timesheet for, kept so the payment
+ * can be reversed once the timesheet is no longer approved or is deleted.
+ */
+export type ExportedShift = Omit<PayrollExportLine, 'shift_type' | 'earning_code' | 'hours' | 'multiplier'>;
+
+/**
+ * Builds the lines for an adjustment export: for each timesheet, the
+ * difference between its current bucket hours and what earlier exports
+ * already paid. Timesheets with no difference produce no lines; reduced
+ * hours come out as negative lines, and a paid timesheet that is no longer
+ * payable is reversed in full. Lines carry the employee's award multipliers
+ * where given, otherwise the mapping's.
+ */
+export function buildAdjustmentLines(
+  currentLines: PayrollExportLine[],
+  exportedHours: Map<string, Partial<BucketHours>>,
+  mappings: PayrollMapping[],
+  exportedShifts: Map<string, ExportedShift> = new Map(),
+  awardMultipliers: Map<string, Record<PenaltyBucket, number>> = new Map()
+): PayrollExportLine[] {
+  const activeMappings = new Map(
+    mappings.filter(m => m.is_active !== false).map(m => [m.shift_type, m])
+  );
+  const currentHours = sumBucketHoursByTimesheet(currentLines);
+  const adjustments: PayrollExportLine[] = [];
+  const timesheetIds = new Set([...currentHours.keys(), ...exportedHours.keys()]);
+
+  for (const timesheetId of timesheetIds) {
+    const hours = currentHours.get(timesheetId) || emptyBucketHours();
+    const exported = exportedHours.get(timesheetId) || {};
+    const template = currentLines.find(l => l.timesheet_id === timesheetId) || exportedShifts.get(timesheetId);
+    const buckets = new Set([...Object.keys(hours), ...Object.keys(exported)] as PenaltyBucket[]);
+
+    for (const bucket of buckets) {
+      const difference = round((hours[bucket] || 0) - (exported[bucket] || 0));
+      if (difference === 0) continue;
+      if (!template) {
+        throw new Error(`No shift details to reverse the payment for timesheet ${timesheetId}`);
+      }
+
+      const mapping = activeMappings.get(bucket);
+      adjustments.push({
+        ...template,
+        shift_type: bucket,
+        earning_code: mapping?.earning_code || DEFAULT_EARNING_CODES[bucket],
+        hours: difference,
+        multiplier: awardMultipliers.get(template.employee_id)?.[bucket] ?? mapping?.multiplier ?? 1,
+      });
+    }
+  }
+
+  return adjustments;
+}
@@ -0,0 +1,48 @@
+/**
+ * Certification Verification
+ * How a certificate was checked at its source. The database keeps one
+ * record per check (certification_verifications); a certificate only counts
+ * towards compliance once it has a current one.
+ */
+
+export type VerificationMethod = 'ndis_screening_database' | 'wwcc_portal' | 'sighted_original';
+
+export const VERIFICATION_METHOD_LABELS: Record<VerificationMethod, string> = {
+  ndis_screening_database: 'NDIS Worker Screening Database check',
+  wwcc_portal: 'WWCC portal lookup',
+  sighted_original: 'Sighted original',
+};
+
+/**
+ * The method to offer first for a certificate type. Screening checks and
+ * WWCCs can be looked up online; anything else has to be sighted.
+ */
+export function defaultVerificationMethod(certificationType: string): VerificationMethod {
+  const type = certificationType.toLowerCase();
+  if (type === 'ndis_screening') return 'ndis_screening_database';
+  if (type.startsWith('wwcc')) return 'wwcc_portal';
+  return 'sighted_original';
+}
+
+/**
+ * Lookups return a reference number; sighting an original may not.
+ */
+export function verificationReferenceRequired(method: VerificationMethod): boolean {
+  return method !== 'sighted_original';
+}
+
+/**
+ * What's wrong with a verification before it's saved, or null if nothing.
+ * The prepare_certification_verification trigger checks the same things.
+ */
+export function verificationProblem(
+  input: { method: VerificationMethod; referenceNumber?: string | null; verifiedOn: string },
+  today: string
+): string | null {
+  if (verificationReferenceRequired(input.method) && !input.referenceNumber?.trim()) {
+    return `A reference number is required for a ${VERIFICATION_METHOD_LABELS[input.method]}`;
+  }
+  if (!input.verifiedOn) return 'Verification date is required';
+  if (input.verifiedOn > today) return 'Verification date cannot be in the future';
+  return null;
+}
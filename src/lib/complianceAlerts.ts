@@ -0,0 +1,53 @@
+/**
+ * Compliance Expiry Alerts
+ * The escalation ladder used by the nightly compliance-expiry-digest job.
+ * The edge function carries a copy of this logic; keep the two in step.
+ */
+
+export type ComplianceAlertStage = '60_days' | '30_days' | '14_days' | '7_days' | 'expired';
+
+export type ComplianceAlertAudience = 'employee' | 'managers' | 'admins';
+
+// Reminder stages before expiry, widest first
+export const REMINDER_STAGES: { stage: ComplianceAlertStage; days: number }[] = [
+  { stage: '60_days', days: 60 },
+  { stage: '30_days', days: 30 },
+  { stage: '14_days', days: 14 },
+  { stage: '7_days', days: 7 },
+];
+
+// A missed run still raises the expiry alert for this many days afterwards
+export const EXPIRED_ALERT_GRACE_DAYS = 7;
+
+export const ALERT_STAGE_LABELS: Record<ComplianceAlertStage, string> = {
+  '60_days': '60 days',
+  '30_days': '30 days',
+  '14_days': '14 days',
+  '7_days': '7 days',
+  expired: 'Expired',
+};
+
+export const ALERT_STAGE_AUDIENCES: Record<ComplianceAlertStage, ComplianceAlertAudience[]> = {
+  '60_days': ['employee'],
+  '30_days': ['employee'],
+  '14_days': ['employee', 'managers'],
+  '7_days': ['employee'],
+  expired: ['admins'],
+};
+
+/**
+ * The stage a certificate is in for the given days until expiry, or null
+ * when it is outside the ladder. Only the current stage is returned, so a
+ * certificate added 10 days out gets the 14 day alert rather than all of
+ * the earlier ones at once.
+ */
+export function alertStageFor(daysUntilExpiry: number): ComplianceAlertStage | null {
+  if (daysUntilExpiry <= 0) {
+    return daysUntilExpiry >= -EXPIRED_ALERT_GRACE_DAYS ? 'expired' : null;
+  }
+  let current: ComplianceAlertStage | null = null;
+  for (const { stage, days } of REMINDER_STAGES) {
+    if (daysUntilExpiry <= days) current = stage;
+  }
+  return current;
+}
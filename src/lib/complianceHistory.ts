@@ -0,0 +1,84 @@
+/**
+ * Compliance History
+ * Helpers over the daily compliance snapshots and status change events.
+ * snapshotStatus is also carried by the edge functions; keep them in step.
+ */
+
+export type ComplianceSnapshotStatus = 'compliant' | 'expiring' | 'non_compliant';
+
+export const SNAPSHOT_STATUS_LABELS: Record<ComplianceSnapshotStatus, string> = {
+  compliant: 'Compliant',
+  expiring: 'Expiring',
+  non_compliant: 'Non-compliant',
+};
+
+export function snapshotStatus(result: {
+  blockingReasons: unknown[];
+  expiringSoon: unknown[];
+}): ComplianceSnapshotStatus {
+  if (result.blockingReasons.length > 0) return 'non_compliant';
+  if (result.expiringSoon.length > 0) return 'expiring';
+  return 'compliant';
+}
+
+export interface HistoryRecord {
+  recordedAt: string;
+}
+
+/**
+ * Whichever of the snapshot and the status event was recorded last. Both
+ * must already be limited to records made at or before the moment asked
+ * about.
+ */
+export function latestRecord<S extends HistoryRecord, E extends HistoryRecord>(
+  snapshot: S | null,
+  event: E | null
+): S | E | null {
+  if (!snapshot) return event;
+  if (!event) return snapshot;
+  return new Date(event.recordedAt) > new Date(snapshot.recordedAt) ? event : snapshot;
+}
+
+export interface TrendSnapshot {
+  snapshot_date: string;
+  status: ComplianceSnapshotStatus;
+  department: string | null;
+}
+
+export interface DepartmentTrend {
+  departments: string[];
+  // One point per date; each department key holds the percentage compliant
+  points: Array<{ date: string } & Record<string, number | string>>;
+}
+
+export const UNASSIGNED_DEPARTMENT = 'Unassigned';
+
+/**
+ * Percentage of each department's employees who were not non-compliant on
+ * each snapshot date. Expiring still counts as compliant.
+ */
+export function buildDepartmentTrend(snapshots: TrendSnapshot[]): DepartmentTrend {
+  const byDate = new Map<string, Map<string, { compliant: number; total: number }>>();
+  const departments = new Set<string>();
+
+  for (const snapshot of snapshots) {
+    const department = snapshot.department || UNASSIGNED_DEPARTMENT;
+    departments.add(department);
+    if (!byDate.has(snapshot.snapshot_date)) byDate.set(snapshot.snapshot_date, new Map());
+    const counts = byDate.get(snapshot.snapshot_date)!;
+    const current = counts.get(department) || { compliant: 0, total: 0 };
+    current.total++;
+    if (snapshot.status !== 'non_compliant') current.compliant++;
+    counts.set(department, current);
+  }
+
+  const points = [...byDate.keys()].sort().map((date) => {
+    const point: { date: string } & Record<string, number | string> = { date };
+    for (const [department, { compliant, total }] of byDate.get(date)!) {
+      point[department] = Math.round((compliant / total) * 1000) / 10;
+    }
+    return point;
+  });
+
+  return { departments: [...departments].sort(), points };
+}
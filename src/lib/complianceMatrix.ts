@@ -0,0 +1,192 @@
+/**
+ * Compliance Matrix
+ * Every employee against every certificate their organisation's rules ask
+ * of them. Cell statuses follow evaluate-compliance: a certificate has to be
+ * approved, current and verified to count.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  certificationCodes,
+  resolveRequirements,
+  type ResolvedRequirement,
+  type RuleSubject,
+} from '@/lib/complianceRules';
+
+export type MatrixCellStatus =
+  | 'valid'
+  | 'expiring'
+  | 'unverified'
+  | 'pending'
+  | 'expired'
+  | 'missing';
+
+export const MATRIX_STATUS_LABELS: Record<MatrixCellStatus, string> = {
+  valid: 'Valid',
+  expiring: 'Expiring',
+  unverified: 'Not verified',
+  pending: 'Pending',
+  expired: 'Expired',
+  missing: 'Missing',
+};
+
+// Statuses the employee has to act on by supplying a document
+export const DOCUMENT_REQUEST_STATUSES: MatrixCellStatus[] = ['missing', 'expired', 'expiring'];
+
+export interface MatrixCertification {
+  id: string;
+  employee_id: string;
+  type: string;
+  name: string | null;
+  status: string;
+  expiry_date: string | null;
+  verification_id: string | null;
+}
+
+export interface MatrixEmployee extends RuleSubject {
+  first_name: string;
+  last_name: string;
+}
+
+export interface MatrixCell {
+  status: MatrixCellStatus;
+  expiryDate: string | null;
+  certificationId: string | null;
+}
+
+export interface MatrixRow {
+  employeeId: string;
+  name: string;
+  department: string | null;
+  position: string | null;
+  // Only the certificates required of this employee have a cell
+  cells: Record<string, MatrixCell>;
+}
+
+export interface MatrixColumn {
+  type: string;
+  name: string;
+}
+
+export interface ComplianceMatrix {
+  columns: MatrixColumn[];
+  rows: MatrixRow[];
+}
+
+const rank = (cert: MatrixCertification) => {
+  if (cert.status === 'pending') return 0;
+  if (!cert.verification_id) return 1;
+  return 2;
+};
+
+/**
+ * The status of one required certificate, from the best of the employee's
+ * certificates for it. Rejected certificates never count, so an employee
+ * with only a rejected one is missing it.
+ */
+export function matrixCell(
+  certifications: MatrixCertification[],
+  requirement: Pick<ResolvedRequirement, 'warningDays'>,
+  today: string
+): MatrixCell {
+  const best = certifications.filter(c => c.status !== 'rejected').sort(
+    (a, b) => rank(b) - rank(a) || (b.expiry_date ?? '9999').localeCompare(a.expiry_date ?? '9999')
+  )[0];
+
+  if (!best) return { status: 'missing', expiryDate: null, certificationId: null };
+
+  const cell = { expiryDate: best.expiry_date, certificationId: best.id };
+  if (best.status === 'pending') return { ...cell, status: 'pending' };
+  if (best.expiry_date && best.expiry_date < today) return { ...cell, status: 'expired' };
+  if (!best.verification_id) return { ...cell, status: 'unverified' };
+  if (
+    best.expiry_date &&
+    differenceInCalendarDays(parseISO(best.expiry_date), parseISO(today)) < requirement.warningDays
+  ) {
+    return { ...cell, status: 'expiring' };
+  }
+  return { ...cell, status: 'valid' };
+}
+
+/**
+ * Build the matrix. Columns are every certificate required of at least one
+ * of the employees, ordered by name.
+ */
+export function buildComplianceMatrix(
+  employees: MatrixEmployee[],
+  rules: Parameters<typeof resolveRequirements>[0],
+  departments: { id: string; name: string }[],
+  certifications: MatrixCertification[],
+  today: string
+): ComplianceMatrix {
+  const certsByEmployee = new Map<string, Map<string, MatrixCertification[]>>();
+  for (const cert of certifications) {
+    const byType = certsByEmployee.get(cert.employee_id) ?? new Map<string, MatrixCertification[]>();
+    for (const code of certificationCodes(cert)) {
+      byType.set(code, [...(byType.get(code) ?? []), cert]);
+    }
+    certsByEmployee.set(cert.employee_id, byType);
+  }
+
+  const columns = new Map<string, MatrixColumn>();
+  const rows = employees.map((employee): MatrixRow => {
+    const held = certsByEmployee.get(employee.id);
+    const cells: Record<string, MatrixCell> = {};
+    for (const requirement of resolveRequirements(rules, employee, departments)) {
+      if (!columns.has(requirement.type)) {
+        columns.set(requirement.type, { type: requirement.type, name: requirement.name });
+      }
+      cells[requirement.type] = matrixCell(held?.get(requirement.type) ?? [], requirement, today);
+    }
+    return {
+      employeeId: employee.id,
+      name: `${employee.first_name} ${employee.last_name}`.trim(),
+      department: employee.department,
+      position: employee.position,
+      cells,
+    };
+  });
+
+  return {
+    columns: [...columns.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    rows: rows.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * The matrix as a grid of text for CSV or spreadsheet export. Certificates
+ * that aren't required of an employee are left blank.
+ */
+export function matrixExportRows(matrix: ComplianceMatrix): string[][] {
+  const header = ['Employee', 'Department', 'Position', ...matrix.columns.map(c => c.name)];
+  return [
+    header,
+    ...matrix.rows.map(row => [
+      row.name,
+      row.department || '',
+      row.position || '',
+      ...matrix.columns.map(column => {
+        const cell = row.cells[column.type];
+        if (!cell) return '';
+        const label = MATRIX_STATUS_LABELS[cell.status];
+        return cell.expiryDate ? `${label} (${cell.expiryDate})` : label;
+      }),
+    ]),
+  ];
+}
+
+/**
+ * The rows to render for a scroll position, with a few either side so
+ * scrolling doesn't show gaps.
+ */
+export function visibleRowRange(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan = 5
+): { start: number; end: number } {
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { start, end };
+}
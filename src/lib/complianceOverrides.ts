@@ -0,0 +1,46 @@
+/**
+ * Compliance Overrides
+ * Rules for the two-person override workflow. The database trigger
+ * enforce_compliance_override_approval applies the same rules server-side.
+ */
+
+export const DEFAULT_MAX_OVERRIDE_DAYS = 14;
+
+export type OverrideApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export const OVERRIDE_APPROVAL_LABELS: Record<OverrideApprovalStatus, string> = {
+  pending: 'Pending approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/**
+ * The longest an override may run: the shortest limit set for any of the
+ * certificates it covers, or the default when none has a limit.
+ */
+export function maxOverrideDays(
+  blockedTypes: string[],
+  limits: Record<string, number>
+): number {
+  return blockedTypes.reduce(
+    (max, type) => Math.min(max, limits[type.toLowerCase()] ?? DEFAULT_MAX_OVERRIDE_DAYS),
+    DEFAULT_MAX_OVERRIDE_DAYS
+  );
+}
+
+/**
+ * Why the user can't approve or reject the request, or null if they can.
+ */
+export function overrideReviewBlocker(
+  override: { override_by: string; approval_status: string; is_active: boolean; expires_at: string },
+  reviewer: { userId: string; isAdmin: boolean },
+  now = new Date()
+): string | null {
+  if (override.approval_status !== 'pending') return `This request has already been ${override.approval_status}`;
+  if (!reviewer.isAdmin) return 'Only an admin can approve compliance overrides';
+  if (override.override_by === reviewer.userId) {
+    return 'A different admin must approve an override you requested';
+  }
+  if (!override.is_active || new Date(override.expires_at) <= now) return 'This request is no longer active';
+  return null;
+}
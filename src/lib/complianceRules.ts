@@ -0,0 +1,159 @@
+/**
+ * Compliance Rules
+ * Pure helpers that turn an organisation's compliance_rules into the
+ * certificates a particular employee must hold. The evaluate-compliance
+ * edge function carries a copy of this logic; keep the two in step.
+ */
+
+import type { ComplianceRule } from '@/types/portal';
+
+export const DEFAULT_WARNING_DAYS = 30;
+
+// Extra certificate needed when the work involves driving
+export const DRIVING_CERTIFICATION = 'drivers_license';
+
+// Certificate types recorded against employees that a rule can ask for
+export const CERTIFICATION_TYPE_OPTIONS = [
+  { value: 'police_check', label: 'Police Check' },
+  { value: 'ndis_screening', label: 'NDIS Worker Screening' },
+  { value: 'first_aid', label: 'First Aid Certificate' },
+  { value: 'cpr', label: 'CPR Certificate' },
+  { value: 'wwcc_vic', label: 'WWCC Victoria' },
+  { value: 'wwcc_nsw', label: 'WWCC NSW' },
+  { value: 'drivers_license', label: "Driver's License" },
+] as const;
+
+export interface RuleSubject {
+  id: string;
+  position: string | null;
+  department: string | null;
+  work_state: string | null;
+  employment_type: string | null;
+}
+
+export interface RequirementContext {
+  requiresDriving?: boolean;
+  additionalRequirements?: string[];
+}
+
+export interface ResolvedRequirement {
+  type: string;
+  name: string;
+  warningDays: number;
+  ruleIds: string[];
+}
+
+type RuleWithDocumentType = Pick<
+  ComplianceRule,
+  'id' | 'target_type' | 'target_value' | 'is_required' | 'certification_type' | 'employment_types' | 'warning_days'
+> & {
+  document_type?: { name: string; is_active?: boolean | null } | null;
+};
+
+const sameValue = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * The certificate code for a name, e.g. "PEG Feeding" -> peg_feeding, so a
+ * rule can ask for a training certificate by its name.
+ */
+export const certificationCode = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * The employee_certifications type that satisfies a rule, or null for a
+ * rule that only lists a required document.
+ */
+export function requirementType(rule: RuleWithDocumentType): string | null {
+  return rule.certification_type ? rule.certification_type.toLowerCase() : null;
+}
+
+/**
+ * The requirement types a certification can satisfy: its type, and for
+ * training certificates also its name, e.g. "PEG Feeding".
+ */
+export function certificationCodes(cert: { type: string; name?: string | null }): string[] {
+  const codes = new Set([cert.type.toLowerCase()]);
+  if (cert.name) codes.add(certificationCode(cert.name));
+  return [...codes];
+}
+
+/**
+ * Whether a rule covers an employee. Department rules may hold either the
+ * department's id or its name, so both are accepted.
+ */
+export function ruleAppliesToEmployee(
+  rule: RuleWithDocumentType,
+  employee: RuleSubject,
+  departments: { id: string; name: string }[] = []
+): boolean {
+  if (rule.employment_types && rule.employment_types.length > 0) {
+    if (!rule.employment_types.some(t => sameValue(t, employee.employment_type))) return false;
+  }
+
+  switch (rule.target_type) {
+    case 'all':
+      return true;
+    case 'role':
+      return sameValue(rule.target_value, employee.position);
+    case 'department':
+    case 'team': {
+      if (sameValue(rule.target_value, employee.department)) return true;
+      const department = departments.find(d => d.id === rule.target_value);
+      return !!department && sameValue(department.name, employee.department);
+    }
+    case 'location':
+      return sameValue(rule.target_value, employee.work_state);
+    case 'individual':
+      return rule.target_value === employee.id;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Certificates an employee must hold. Several rules can ask for the same
+ * certificate; the widest warning window wins.
+ */
+export function resolveRequirements(
+  rules: RuleWithDocumentType[],
+  employee: RuleSubject,
+  departments: { id: string; name: string }[] = [],
+  context: RequirementContext = {}
+): ResolvedRequirement[] {
+  const requirements = new Map<string, ResolvedRequirement>();
+
+  const add = (type: string, name: string, warningDays: number, ruleId?: string) => {
+    const existing = requirements.get(type);
+    if (existing) {
+      existing.warningDays = Math.max(existing.warningDays, warningDays);
+      if (ruleId) existing.ruleIds.push(ruleId);
+      return;
+    }
+    requirements.set(type, { type, name, warningDays, ruleIds: ruleId ? [ruleId] : [] });
+  };
+
+  for (const rule of rules) {
+    if (rule.is_required === false) continue;
+    if (rule.document_type?.is_active === false) continue;
+    const type = requirementType(rule);
+    if (!type) continue;
+    if (!ruleAppliesToEmployee(rule, employee, departments)) continue;
+
+    add(
+      type,
+      rule.document_type?.name || type,
+      rule.warning_days ?? DEFAULT_WARNING_DAYS,
+      rule.id
+    );
+  }
+
+  if (context.requiresDriving) {
+    add(DRIVING_CERTIFICATION, DRIVING_CERTIFICATION, DEFAULT_WARNING_DAYS);
+  }
+  for (const extra of context.additionalRequirements || []) {
+    add(extra.toLowerCase(), extra, DEFAULT_WARNING_DAYS);
+  }
+
+  return [...requirements.values()];
+}
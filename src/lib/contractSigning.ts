@@ -0,0 +1,70 @@
+/**
+ * Contract Signing
+ * Who signs a contract and in what order. The database holds the same
+ * rules (enforce_contract_signing_order): only the first signer still
+ * pending may sign, and the last signature makes the contract signed.
+ */
+
+import type { ContractSigner, ContractSignerInput, ContractSignerRole } from '@/types/contracts';
+
+type SignerLike = Pick<ContractSigner, 'signing_order' | 'status'>;
+
+/**
+ * The signer whose turn it is, or null once everyone has signed.
+ */
+export function currentSigner<T extends SignerLike>(signers: T[]): T | null {
+  return [...signers]
+    .sort((a, b) => a.signing_order - b.signing_order)
+    .find(s => s.status === 'pending') ?? null;
+}
+
+export function isFullySigned(signers: SignerLike[]): boolean {
+  return signers.length > 0 && signers.every(s => s.status === 'signed');
+}
+
+/**
+ * The employee always signs first; everyone else follows in the order given.
+ */
+export function buildSigningOrder(
+  employee: { name: string; email: string },
+  others: ContractSignerInput[]
+): (ContractSignerInput & { signing_order: number })[] {
+  return [{ role: 'employee' as const, name: employee.name, email: employee.email }, ...others].map((signer, index) => ({
+    role: signer.role,
+    name: signer.name.trim(),
+    email: signer.email.trim(),
+    signing_order: index + 1,
+  }));
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A message for the first problem with the signers, or null if they're fine.
+ */
+export function validateSigners(signers: Pick<ContractSignerInput, 'name' | 'email'>[]): string | null {
+  const seen = new Set<string>();
+  for (const signer of signers) {
+    if (!signer.name.trim()) return 'Every signer needs a name';
+    const email = signer.email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) return `${signer.name.trim()} needs a valid email address`;
+    if (seen.has(email)) return `${email} is listed as a signer more than once`;
+    seen.add(email);
+  }
+  return null;
+}
+
+/**
+ * The contract audit log action for a signature, so a countersignature
+ * reads differently from the employee's own.
+ */
+export function signingAuditAction(role: ContractSignerRole): 'signed' | 'countersigned' | 'witnessed' {
+  switch (role) {
+    case 'countersigner':
+      return 'countersigned';
+    case 'witness':
+      return 'witnessed';
+    default:
+      return 'signed';
+  }
+}
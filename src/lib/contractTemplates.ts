@@ -0,0 +1,177 @@
+/**
+ * Contract Templates
+ * Merge fields such as {{employee.first_name}} or {{pay_rate}} in a template
+ * version are filled from the employee's record, the position, their award
+ * classification and the organisation when a contract is generated.
+ */
+
+import { format, parseISO } from 'date-fns';
+
+export const MERGE_FIELDS = [
+  { key: 'employee.first_name', label: 'First name' },
+  { key: 'employee.last_name', label: 'Last name' },
+  { key: 'employee.full_name', label: 'Full name' },
+  { key: 'employee.email', label: 'Email' },
+  { key: 'employee.department', label: 'Department' },
+  { key: 'employee.employment_type', label: 'Employment type' },
+  { key: 'employee.start_date', label: 'Start date' },
+  { key: 'position', label: 'Position' },
+  { key: 'position.description', label: 'Position description' },
+  { key: 'pay_rate', label: 'Pay rate' },
+  { key: 'award_classification', label: 'Award classification' },
+  { key: 'award_classification.base_hourly_rate', label: 'Award base hourly rate' },
+  { key: 'organisation.name', label: 'Organisation name' },
+  { key: 'today', label: "Today's date" },
+] as const;
+
+export type MergeFieldKey = (typeof MERGE_FIELDS)[number]['key'];
+export type MergeValues = Partial<Record<MergeFieldKey, string>>;
+
+const MERGE_FIELD_KEYS = new Set<string>(MERGE_FIELDS.map(f => f.key));
+
+// {{ field }}, spaces inside the braces allowed
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const EMPLOYMENT_TYPE_LABELS: Record<string, string> = {
+  casual: 'Casual',
+  part_time: 'Part-time',
+  full_time: 'Full-time',
+  contractor: 'Contractor',
+};
+
+/**
+ * What a contract is generated from. The contract's own terms (position,
+ * pay rate, start date...) are used over the employee record so the
+ * contract body always agrees with the terms it is issued with.
+ */
+export interface MergeSource {
+  contract: {
+    employee_name: string;
+    employee_email: string;
+    position: string;
+    department?: string;
+    employment_type?: string;
+    start_date?: string;
+    pay_rate?: number;
+  };
+  employee: {
+    first_name: string;
+    last_name: string;
+    department?: string | null;
+    employment_type?: string | null;
+    start_date?: string | null;
+    pay_rate?: number | null;
+  } | null;
+  position: { description: string | null } | null;
+  award: { name: string; base_hourly_rate: number } | null;
+  organisationName: string | null;
+  today?: Date;
+}
+
+/**
+ * Every distinct merge field used in the content, in order of first use.
+ */
+export function findMergeFields(content: string): string[] {
+  const fields: string[] = [];
+  for (const match of content.matchAll(PLACEHOLDER)) {
+    if (!fields.includes(match[1])) fields.push(match[1]);
+  }
+  return fields;
+}
+
+/**
+ * Merge fields in the content that aren't ones we know how to fill.
+ */
+export function unknownMergeFields(content: string): string[] {
+  return findMergeFields(content).filter(field => !MERGE_FIELD_KEYS.has(field));
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+const longDate = (value: string) => format(parseISO(value), 'd MMMM yyyy');
+
+export function buildMergeValues(source: MergeSource): MergeValues {
+  const { contract, employee } = source;
+  // People not yet in employees only have the name typed on the contract
+  const [first, ...rest] = contract.employee_name.trim().split(/\s+/);
+  const firstName = employee?.first_name ?? first;
+  const lastName = employee?.last_name ?? rest.join(' ');
+  const employmentType = contract.employment_type || employee?.employment_type;
+  const startDate = contract.start_date || employee?.start_date;
+  const payRate = contract.pay_rate ?? employee?.pay_rate;
+
+  const values: MergeValues = {
+    'employee.first_name': firstName,
+    'employee.last_name': lastName,
+    'employee.full_name': [firstName, lastName].filter(Boolean).join(' '),
+    'employee.email': contract.employee_email.trim(),
+    'employee.department': contract.department || employee?.department || undefined,
+    'employee.employment_type': employmentType
+      ? EMPLOYMENT_TYPE_LABELS[employmentType] ?? employmentType
+      : undefined,
+    'employee.start_date': startDate ? longDate(startDate) : undefined,
+    position: contract.position.trim(),
+    'position.description': source.position?.description || undefined,
+    pay_rate: payRate != null ? money(payRate) : undefined,
+    award_classification: source.award?.name,
+    'award_classification.base_hourly_rate': source.award ? money(source.award.base_hourly_rate) : undefined,
+    'organisation.name': source.organisationName || undefined,
+    today: format(source.today ?? new Date(), 'd MMMM yyyy'),
+  };
+
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value)) as MergeValues;
+}
+
+/**
+ * Fills in the merge fields. Any without a value are left in place, and
+ * listed in `missing`, so they can't slip through unnoticed.
+ */
+export function renderTemplate(content: string, values: MergeValues): { content: string; missing: string[] } {
+  const missing: string[] = [];
+  const rendered = content.replace(PLACEHOLDER, (placeholder, field: string) => {
+    const value = values[field as MergeFieldKey];
+    if (value) return value;
+    if (!missing.includes(field)) missing.push(field);
+    return placeholder;
+  });
+  return { content: rendered, missing };
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line-by-line difference between two versions, from the longest common
+ * subsequence of lines. Removed lines come before the lines replacing them.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j]: common lines between a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
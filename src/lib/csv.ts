@@ -0,0 +1,71 @@
+/**
+ * CSV helpers shared by the bulk import screens.
+ */
+
+export function normalizeHeader(h: string) {
+  return h.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+// Simple CSV parser that supports quoted fields and commas inside quotes.
+// Returns an array of rows, each row is an array of string cells.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (inQuotes) {
+      if (ch === '"' && next === '"') {
+        // Escaped quote
+        cell += '"';
+        i++;
+        continue;
+      }
+      if (ch === '"') {
+        inQuotes = false;
+        continue;
+      }
+      cell += ch;
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+      continue;
+    }
+
+    if (ch === ',') {
+      row.push(cell);
+      cell = '';
+      continue;
+    }
+
+    if (ch === '\n') {
+      row.push(cell);
+      cell = '';
+      // Ignore completely empty trailing row
+      const isEmpty = row.every((c) => c.trim() === '');
+      if (!isEmpty) rows.push(row);
+      row = [];
+      continue;
+    }
+
+    if (ch === '\r') {
+      // ignore CR (Windows line endings)
+      continue;
+    }
+
+    cell += ch;
+  }
+
+  // Last cell/row
+  row.push(cell);
+  const isEmpty = row.every((c) => c.trim() === '');
+  if (!isEmpty) rows.push(row);
+
+  return rows;
+}
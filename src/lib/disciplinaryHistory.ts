@@ -0,0 +1,85 @@
+/**
+ * Disciplinary History
+ * How long warnings stay live and where each one stands on an employee's
+ * record. The database fills in expiry dates (default_hr_warning_expiry) and
+ * lapses warnings hourly (expire_hr_warnings) using the same rules.
+ */
+
+import { addMonths, format, parseISO } from 'date-fns';
+import type {
+  HRActionType,
+  HRCaseAction,
+  HRWarningValidityPeriod,
+  WarningActionType,
+} from '@/types/hrCases';
+
+export const WARNING_ACTION_TYPES: WarningActionType[] = ['verbal_warning', 'written_warning', 'final_warning'];
+
+/**
+ * Months a warning stays live when an organisation hasn't set its own.
+ */
+export const DEFAULT_WARNING_VALIDITY_MONTHS: Record<WarningActionType, number> = {
+  verbal_warning: 6,
+  written_warning: 12,
+  final_warning: 12,
+};
+
+export function isWarningAction(actionType: HRActionType): actionType is WarningActionType {
+  return (WARNING_ACTION_TYPES as HRActionType[]).includes(actionType);
+}
+
+type PeriodLike = Pick<HRWarningValidityPeriod, 'action_type' | 'validity_months'>;
+
+export function resolveValidityMonths(periods: PeriodLike[], actionType: WarningActionType): number {
+  const configured = periods.find(p => p.action_type === actionType);
+  return configured?.validity_months ?? DEFAULT_WARNING_VALIDITY_MONTHS[actionType];
+}
+
+/**
+ * The last day a warning is live, as yyyy-MM-dd.
+ */
+export function warningExpiryDate(effectiveDate: string, validityMonths: number): string {
+  return format(addMonths(parseISO(effectiveDate), validityMonths), 'yyyy-MM-dd');
+}
+
+// Pending: planned but not yet issued
+export type WarningStanding = 'live' | 'expired' | 'withdrawn' | 'pending';
+
+type ActionLike = Pick<HRCaseAction, 'action_type' | 'status' | 'effective_date' | 'expiry_date' | 'created_at'>;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * Where a warning stands on a day. Warnings stay live after the action is
+ * completed, until the day after their expiry date. Null for actions that
+ * aren't warnings.
+ */
+export function warningStanding(action: ActionLike, on: string = today()): WarningStanding | null {
+  if (!isWarningAction(action.action_type)) return null;
+  if (action.status === 'withdrawn') return 'withdrawn';
+  if (action.status === 'planned') return 'pending';
+  // The hourly job may not have caught up yet
+  if (action.status === 'expired' || (action.expiry_date && action.expiry_date < on)) return 'expired';
+  return 'live';
+}
+
+/**
+ * An employee's actions, most recent first, with where each warning stands.
+ */
+export function buildDisciplinaryTimeline<T extends ActionLike>(
+  actions: T[],
+  on: string = today()
+): (T & { standing: WarningStanding | null })[] {
+  return [...actions]
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date) || b.created_at.localeCompare(a.created_at))
+    .map(action => ({ ...action, standing: warningStanding(action, on) }));
+}
+
+/**
+ * The live final warning that runs longest, if there is one.
+ */
+export function findLiveFinalWarning<T extends ActionLike>(actions: T[], on: string = today()): T | null {
+  return actions
+    .filter(a => a.action_type === 'final_warning' && warningStanding(a, on) === 'live')
+    .reduce<T | null>((latest, a) => (!latest || (a.expiry_date ?? '') > (latest.expiry_date ?? '') ? a : latest), null);
+}
@@ -0,0 +1,17 @@
+/**
+ * Evidence Integrity
+ * The SHA-256 fingerprint taken when HR case evidence is uploaded. The
+ * hr-evidence-custody function re-hashes stored files the same way.
+ */
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * A hash short enough to read aloud or compare by eye, e.g. "3a7bd3e2…c0f1".
+ */
+export function shortHash(sha256: string): string {
+  return `${sha256.slice(0, 8)}…${sha256.slice(-4)}`;
+}
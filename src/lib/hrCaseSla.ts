@@ -0,0 +1,119 @@
+/**
+ * HR Case SLAs
+ * Business-day targets for how long a case may sit in each status, and the
+ * time-in-status arithmetic over a case's status history. The hourly
+ * hr-case-sla-escalations job mirrors these rules.
+ */
+
+import { parseISO } from 'date-fns';
+import { addBusinessDays } from '@/lib/publicHolidays';
+import type {
+  HRCaseSeverity,
+  HRCaseSlaTarget,
+  HRCaseStatus,
+  HRCaseStatusChange,
+  HRCaseType,
+} from '@/types/hrCases';
+
+export type SlaStatus = Exclude<HRCaseStatus, 'closed'>;
+
+export const SLA_STATUSES: SlaStatus[] = ['new', 'triaged', 'investigating', 'awaiting_response', 'decision_made'];
+
+// What has to happen for a case to leave each status
+export const SLA_STAGE_LABELS: Record<SlaStatus, string> = {
+  new: 'Triage',
+  triaged: 'Start investigation',
+  investigating: 'Complete investigation',
+  awaiting_response: 'Receive response',
+  decision_made: 'Close case',
+};
+
+/**
+ * Targets used when an organisation hasn't set its own, by severity.
+ */
+export const DEFAULT_SLA_TARGETS: Record<SlaStatus, Record<HRCaseSeverity, number>> = {
+  new: { critical: 1, high: 2, medium: 3, low: 5 },
+  triaged: { critical: 1, high: 3, medium: 5, low: 10 },
+  investigating: { critical: 10, high: 15, medium: 20, low: 30 },
+  awaiting_response: { critical: 3, high: 5, medium: 7, low: 10 },
+  decision_made: { critical: 3, high: 5, medium: 5, low: 10 },
+};
+
+type TargetLike = Pick<HRCaseSlaTarget, 'case_type' | 'severity' | 'status' | 'target_business_days'>;
+
+export function resolveSlaTarget(
+  targets: TargetLike[],
+  caseType: HRCaseType,
+  severity: HRCaseSeverity,
+  status: SlaStatus
+): number {
+  const configured = targets.find(
+    t => t.case_type === caseType && t.severity === severity && t.status === status
+  );
+  return configured?.target_business_days ?? DEFAULT_SLA_TARGETS[status][severity];
+}
+
+type ChangeLike = Pick<HRCaseStatusChange, 'to_status' | 'changed_at'>;
+
+const byChangedAt = (a: ChangeLike, b: ChangeLike) => a.changed_at.localeCompare(b.changed_at);
+
+/**
+ * Total time (ms) the case has spent in each status. A status entered more
+ * than once, e.g. a reopened investigation, adds up across its stints.
+ */
+export function timeInStatus(history: ChangeLike[], now: Date): Partial<Record<HRCaseStatus, number>> {
+  const sorted = [...history].sort(byChangedAt);
+  const totals: Partial<Record<HRCaseStatus, number>> = {};
+  sorted.forEach((change, index) => {
+    const next = sorted[index + 1];
+    const end = next ? parseISO(next.changed_at) : now;
+    const duration = Math.max(0, end.getTime() - parseISO(change.changed_at).getTime());
+    totals[change.to_status] = (totals[change.to_status] ?? 0) + duration;
+  });
+  return totals;
+}
+
+export interface CaseSla {
+  status: SlaStatus;
+  enteredAt: string;
+  dueAt: string;
+  targetBusinessDays: number;
+  breached: boolean;
+}
+
+interface SlaCase {
+  status: HRCaseStatus;
+  case_type: HRCaseType;
+  severity: HRCaseSeverity;
+  created_at: string;
+}
+
+/**
+ * Where an open case stands against the target for its current status.
+ * Closed cases have no SLA.
+ */
+export function evaluateCaseSla(
+  hrCase: SlaCase,
+  history: ChangeLike[],
+  targets: TargetLike[],
+  holidayDates: Set<string>,
+  now: Date
+): CaseSla | null {
+  if (hrCase.status === 'closed') return null;
+  const status = hrCase.status;
+
+  // The latest move into the current status starts its clock
+  const entered = [...history].sort(byChangedAt).reverse().find(c => c.to_status === status);
+  const enteredAt = entered?.changed_at ?? hrCase.created_at;
+
+  const targetBusinessDays = resolveSlaTarget(targets, hrCase.case_type, hrCase.severity, status);
+  const dueAt = addBusinessDays(parseISO(enteredAt), targetBusinessDays, holidayDates);
+
+  return {
+    status,
+    enteredAt,
+    dueAt: dueAt.toISOString(),
+    targetBusinessDays,
+    breached: now > dueAt,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * HR Case Transitions
+ * The case lifecycle and what each step needs. The database enforces these
+ * rules (enforce_hr_case_transition); this copy lets the UI show what is
+ * missing before asking.
+ */
+
+import type { HRActionStatus, HRCaseAction, HRCaseStatus } from '@/types/hrCases';
+
+export const CASE_TRANSITIONS: Record<HRCaseStatus, HRCaseStatus[]> = {
+  new: ['triaged'],
+  triaged: ['investigating'],
+  investigating: ['awaiting_response', 'decision_made'],
+  awaiting_response: ['investigating', 'decision_made'],
+  decision_made: ['closed'],
+  closed: [],
+};
+
+// Reached by completing triage or recording findings rather than directly
+export const ARTEFACT_STATUSES: HRCaseStatus[] = ['triaged', 'decision_made'];
+
+// Actions in these statuses no longer hold a case open
+export const SETTLED_ACTION_STATUSES: HRActionStatus[] = ['completed', 'withdrawn', 'expired'];
+
+export function canTransition(from: HRCaseStatus, to: HRCaseStatus): boolean {
+  return CASE_TRANSITIONS[from].includes(to);
+}
+
+export interface TransitionArtefacts {
+  hasTriage: boolean;
+  hasFindings: boolean;
+  actions: Pick<HRCaseAction, 'status'>[];
+  closureNotes?: string | null;
+}
+
+/**
+ * What the case still needs before it can move to a status, worded as the
+ * database reports it.
+ */
+export function missingForTransition(to: HRCaseStatus, artefacts: TransitionArtefacts): string[] {
+  const missing: string[] = [];
+
+  if (['triaged', 'investigating', 'awaiting_response'].includes(to) && !artefacts.hasTriage) {
+    missing.push('a triage assessment');
+  }
+
+  if (['decision_made', 'closed'].includes(to) && !artefacts.hasFindings) {
+    missing.push('recorded findings');
+  }
+
+  if (to === 'closed') {
+    const open = artefacts.actions.filter(a => !SETTLED_ACTION_STATUSES.includes(a.status)).length;
+    if (open > 0) {
+      missing.push(
+        `${open} action${open === 1 ? '' : 's'} still planned or active (complete or withdraw ${open === 1 ? 'it' : 'them'})`
+      );
+    }
+    if (!artefacts.closureNotes?.trim()) {
+      missing.push('closure notes');
+    }
+  }
+
+  return missing;
+}
@@ -0,0 +1,107 @@
+/**
+ * Leave Accruals
+ * What run_leave_accruals credits to a balance on each run, as pure
+ * helpers. The SQL function is what actually runs; keep the two in step.
+ */
+
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import type { AccrualFrequency } from '@/types/leave';
+
+export const ACCRUAL_INTERVAL_DAYS: Record<AccrualFrequency, number> = {
+  weekly: 7,
+  fortnightly: 14,
+  monthly: 30,
+  annually: 365,
+};
+
+export interface AccrualCalculation {
+  periodStart: string;
+  // Hours-worked accruals only: approved hours not counted by earlier runs
+  hoursWorked: number | null;
+  // Fixed accruals only: share of the period the employee was employed for
+  proRataFactor: number | null;
+  // Before the max balance cap
+  calculatedHours: number;
+}
+
+export interface FixedAccrualInput {
+  rateHours: number | null;
+  frequency: AccrualFrequency;
+  lastAccrualAt: string | null;
+  employeeStartDate: string | null;
+  today: string;
+}
+
+export interface HoursWorkedAccrualInput {
+  ratePerHour: number | null;
+  // Approved timesheet hours since the employee started
+  workedToDate: number;
+  // Sums of hours_worked and calculated_hours over the balance's ledger rows
+  countedToDate: number;
+  calculatedToDate: number;
+  lastAccrualAt: string | null;
+  employeeStartDate: string | null;
+  today: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * A fixed accrual, due once a full interval has passed since the last one.
+ * Pro-rated when employment started part way through the period. Null when
+ * nothing is due.
+ */
+export function calculateFixedAccrual(input: FixedAccrualInput): AccrualCalculation | null {
+  const { rateHours, lastAccrualAt, employeeStartDate, today } = input;
+  const interval = ACCRUAL_INTERVAL_DAYS[input.frequency] || 14;
+  const lastAccrual = lastAccrualAt?.slice(0, 10) ?? null;
+
+  if (lastAccrual && differenceInCalendarDays(parseISO(today), parseISO(lastAccrual)) < interval) {
+    return null;
+  }
+
+  let periodStart = lastAccrual ?? format(subDays(parseISO(today), interval), 'yyyy-MM-dd');
+  let proRataFactor = 1;
+  if (employeeStartDate && employeeStartDate > periodStart) {
+    proRataFactor = Math.min(1, differenceInCalendarDays(parseISO(today), parseISO(employeeStartDate)) / interval);
+    periodStart = employeeStartDate;
+  }
+
+  const calculatedHours = round2((rateHours || 0) * proRataFactor);
+  if (calculatedHours <= 0) return null;
+
+  return { periodStart, hoursWorked: null, proRataFactor, calculatedHours };
+}
+
+/**
+ * An hours-worked accrual for the approved hours no earlier run has counted,
+ * so timesheets approved late are picked up without double counting. The
+ * accrual is rounded on the running total so repeated runs don't drift.
+ * Null when nothing is due.
+ */
+export function calculateHoursWorkedAccrual(input: HoursWorkedAccrualInput): AccrualCalculation | null {
+  const ratePerHour = input.ratePerHour || 0;
+  if (ratePerHour <= 0) return null;
+
+  const hoursWorked = round2(input.workedToDate - input.countedToDate);
+  if (hoursWorked <= 0) return null;
+
+  const calculatedHours = round2(round2(input.workedToDate * ratePerHour) - input.calculatedToDate);
+  if (calculatedHours <= 0) return null;
+
+  return {
+    periodStart: input.lastAccrualAt?.slice(0, 10) ?? input.employeeStartDate ?? input.today,
+    hoursWorked,
+    proRataFactor: null,
+    calculatedHours,
+  };
+}
+
+/**
+ * The hours actually credited under max_balance_hours. A balance already
+ * over the cap isn't reduced.
+ */
+export function capAccrual(calculatedHours: number, balance: number, maxBalanceHours: number | null | undefined): number {
+  if (maxBalanceHours === null || maxBalanceHours === undefined) return calculatedHours;
+  return Math.max(0, Math.min(calculatedHours, maxBalanceHours - balance));
+}
@@ -0,0 +1,133 @@
+/**
+ * Leave Projection
+ * Pure helpers for forecasting a leave balance forward, mirroring how
+ * run_leave_accruals credits balances and approvals deduct them.
+ */
+
+import { addDays, differenceInCalendarDays, format, max, parseISO } from 'date-fns';
+import { ACCRUAL_INTERVAL_DAYS, capAccrual } from '@/lib/leaveAccruals';
+import type {
+  LeaveProjectionCommitment,
+  LeaveProjectionPoint,
+  LeaveType,
+} from '@/types/leave';
+
+export type ProjectableLeaveType = Pick<
+  LeaveType,
+  'accrues' | 'accrual_basis' | 'accrual_rate_hours' | 'accrual_rate_per_hour' | 'accrual_frequency' | 'max_balance_hours'
+>;
+
+export interface LeaveProjectionInput {
+  currentBalance: number;
+  leaveType: ProjectableLeaveType;
+  lastAccrualAt: string | null;
+  asOf: string;
+  targetDate: string;
+  // Used for hours-worked accruals
+  averageWeeklyHours?: number;
+  commitments?: LeaveProjectionCommitment[];
+}
+
+export interface LeaveProjectionResult {
+  projectedBalance: number;
+  accruedHours: number;
+  bookedHours: number;
+  points: LeaveProjectionPoint[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Dates (yyyy-MM-dd) and hours of the accruals expected after asOf, up to
+ * and including targetDate. Fixed accruals land one interval after the
+ * last; hours-worked accruals are spread weekly at the average rate.
+ */
+export function getAccrualSchedule(input: LeaveProjectionInput): Array<{ date: string; hours: number }> {
+  const { leaveType, lastAccrualAt, asOf, targetDate } = input;
+  if (!leaveType.accrues) return [];
+
+  const start = parseISO(asOf);
+  const end = parseISO(targetDate);
+  const schedule: Array<{ date: string; hours: number }> = [];
+
+  if (leaveType.accrual_basis === 'hours_worked') {
+    const weekly = round2((input.averageWeeklyHours || 0) * (leaveType.accrual_rate_per_hour || 0));
+    if (weekly <= 0) return [];
+    for (let date = addDays(start, 7); date <= end; date = addDays(date, 7)) {
+      schedule.push({ date: format(date, 'yyyy-MM-dd'), hours: weekly });
+    }
+    return schedule;
+  }
+
+  const interval = ACCRUAL_INTERVAL_DAYS[leaveType.accrual_frequency] || 14;
+  const hours = leaveType.accrual_rate_hours || 0;
+  if (hours <= 0) return [];
+
+  // A balance that has never accrued is picked up by the next nightly run
+  let date = lastAccrualAt
+    ? max([addDays(parseISO(lastAccrualAt.slice(0, 10)), interval), addDays(start, 1)])
+    : addDays(start, 1);
+  for (; date <= end; date = addDays(date, interval)) {
+    schedule.push({ date: format(date, 'yyyy-MM-dd'), hours });
+  }
+  return schedule;
+}
+
+/**
+ * Project a balance to targetDate. Accruals respect max_balance_hours the
+ * same way the accrual run does; requests not yet deducted come off on
+ * their start date (or immediately if it has passed).
+ */
+export function projectLeaveBalance(input: LeaveProjectionInput): LeaveProjectionResult {
+  const { currentBalance, leaveType, asOf, targetDate } = input;
+  const cap = leaveType.max_balance_hours;
+
+  type Event = { date: string; accrual: number; booking: number };
+  const events = new Map<string, Event>();
+  const eventFor = (date: string) => {
+    if (!events.has(date)) events.set(date, { date, accrual: 0, booking: 0 });
+    return events.get(date)!;
+  };
+
+  for (const accrual of getAccrualSchedule(input)) {
+    eventFor(accrual.date).accrual += accrual.hours;
+  }
+  for (const commitment of input.commitments || []) {
+    if (commitment.deducted || commitment.start_date > targetDate) continue;
+    eventFor(commitment.start_date < asOf ? asOf : commitment.start_date).booking += commitment.hours;
+  }
+
+  let balance = currentBalance;
+  let accruedHours = 0;
+  let bookedHours = 0;
+  const points: LeaveProjectionPoint[] = [];
+
+  const sorted = [...events.values()].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted[0]?.date !== asOf) {
+    points.push({ date: asOf, balance: round2(balance), accrued: 0, booked: 0 });
+  }
+
+  for (const event of sorted) {
+    const accrued = capAccrual(event.accrual, balance, cap);
+    balance += accrued - event.booking;
+    accruedHours += accrued;
+    bookedHours += event.booking;
+    points.push({
+      date: event.date,
+      balance: round2(balance),
+      accrued: round2(accrued),
+      booked: round2(event.booking),
+    });
+  }
+
+  if (points[points.length - 1].date !== targetDate && differenceInCalendarDays(parseISO(targetDate), parseISO(asOf)) > 0) {
+    points.push({ date: targetDate, balance: round2(balance), accrued: 0, booked: 0 });
+  }
+
+  return {
+    projectedBalance: round2(balance),
+    accruedHours: round2(accruedHours),
+    bookedHours: round2(bookedHours),
+    points,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Leave Staffing
+ * Pure helpers for minimum-staffing rules and leave clashes. A team's
+ * headcount is its active employees; anyone on approved leave that day
+ * is unavailable.
+ */
+
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import type {
+  LeaveClash,
+  LeaveRequest,
+  LeaveStaffingCheck,
+  LeaveStaffingRule,
+  StaffingBreach,
+} from '@/types/leave';
+
+export interface StaffMember {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department: string | null;
+  position: string | null;
+  status: string;
+}
+
+export type LeaveBooking = Pick<LeaveRequest, 'id' | 'employee_id' | 'start_date' | 'end_date' | 'status'>;
+
+const sameValue = (a: string | null, b: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Whether a rule covers an employee. A rule with both a department and a
+ * position only covers that position within the department.
+ */
+export function ruleAppliesTo(
+  rule: Pick<LeaveStaffingRule, 'department' | 'position'>,
+  employee: Pick<StaffMember, 'department' | 'position'>
+): boolean {
+  if (rule.department && !sameValue(rule.department, employee.department)) return false;
+  if (rule.position && !sameValue(rule.position, employee.position)) return false;
+  return !!(rule.department || rule.position);
+}
+
+export function describeStaffingRule(rule: Pick<LeaveStaffingRule, 'department' | 'position'>): string {
+  return [rule.department, rule.position].filter(Boolean).join(' · ');
+}
+
+export function coversDate(booking: Pick<LeaveBooking, 'start_date' | 'end_date'>, date: string): boolean {
+  return booking.start_date <= date && booking.end_date >= date;
+}
+
+/**
+ * Staff in a rule's scope who are available on a date, given approved
+ * leave and anyone else assumed to be away.
+ */
+export function countAvailableStaff(
+  rule: LeaveStaffingRule,
+  employees: StaffMember[],
+  bookings: LeaveBooking[],
+  date: string,
+  alsoAway: string[] = []
+): { headcount: number; available: number } {
+  const scope = employees.filter(e => e.status === 'active' && ruleAppliesTo(rule, e));
+  const away = new Set(alsoAway);
+  for (const booking of bookings) {
+    if (booking.status === 'approved' && coversDate(booking, date)) away.add(booking.employee_id);
+  }
+  const headcount = scope.length;
+  return { headcount, available: scope.filter(e => !away.has(e.id)).length };
+}
+
+/**
+ * Rules broken on each date, for shading a calendar.
+ */
+export function getStaffingShortfalls(
+  rules: LeaveStaffingRule[],
+  employees: StaffMember[],
+  bookings: LeaveBooking[],
+  dates: string[]
+): Map<string, Array<{ rule: LeaveStaffingRule; available: number }>> {
+  const shortfalls = new Map<string, Array<{ rule: LeaveStaffingRule; available: number }>>();
+  for (const date of dates) {
+    for (const rule of rules.filter(r => r.is_active)) {
+      const { available } = countAvailableStaff(rule, employees, bookings, date);
+      if (available < rule.min_staff) {
+        shortfalls.set(date, [...(shortfalls.get(date) || []), { rule, available }]);
+      }
+    }
+  }
+  return shortfalls;
+}
+
+/**
+ * What approving a request would do: the staffing rules it would break
+ * and other leave in the same department over the same dates.
+ */
+export function checkLeaveStaffing(
+  request: Pick<LeaveBooking, 'id' | 'employee_id' | 'start_date' | 'end_date'>,
+  employees: StaffMember[],
+  bookings: LeaveBooking[],
+  rules: LeaveStaffingRule[]
+): LeaveStaffingCheck {
+  const employee = employees.find(e => e.id === request.employee_id);
+  const others = bookings.filter(b => b.id !== request.id);
+
+  const breaches: StaffingBreach[] = [];
+  if (employee) {
+    const dates = eachDayOfInterval({
+      start: parseISO(request.start_date),
+      end: parseISO(request.end_date),
+    }).map(d => format(d, 'yyyy-MM-dd'));
+
+    for (const rule of rules.filter(r => r.is_active && ruleAppliesTo(r, employee))) {
+      const breachDates: string[] = [];
+      let headcount = 0;
+      let minAvailable = Infinity;
+      for (const date of dates) {
+        const counts = countAvailableStaff(rule, employees, others, date, [employee.id]);
+        headcount = counts.headcount;
+        minAvailable = Math.min(minAvailable, counts.available);
+        if (counts.available < rule.min_staff) breachDates.push(date);
+      }
+      if (breachDates.length > 0) {
+        breaches.push({ rule, dates: breachDates, headcount, min_available: minAvailable });
+      }
+    }
+  }
+
+  const clashes: LeaveClash[] = [];
+  if (employee?.department) {
+    for (const booking of others) {
+      if (booking.employee_id === request.employee_id) continue;
+      if (booking.status !== 'approved' && booking.status !== 'pending') continue;
+      if (booking.start_date > request.end_date || booking.end_date < request.start_date) continue;
+      const colleague = employees.find(e => e.id === booking.employee_id);
+      if (!colleague || !sameValue(colleague.department, employee.department)) continue;
+      clashes.push({
+        request_id: booking.id,
+        employee_id: booking.employee_id,
+        employee_name: `${colleague.first_name} ${colleague.last_name}`,
+        status: booking.status,
+        start_date: booking.start_date,
+        end_date: booking.end_date,
+      });
+    }
+  }
+
+  return {
+    breaches,
+    clashes,
+    requires_override: breaches.some(b => b.rule.enforcement === 'block'),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Payroll Export Void
+ * Whether an export can be voided, what happens to its pay period, and
+ * which timesheets release_export_timesheet_locks unlocks. The SQL function
+ * is what actually unlocks them; keep the two in step.
+ */
+
+import type { PayrollExportStatus } from '@/types/payroll';
+
+export interface PeriodExport {
+  id: string;
+  status: PayrollExportStatus;
+  previous_export_id: string | null;
+}
+
+export interface ExportVoidPlan {
+  // Why the export can't be voided, if it can't
+  blockedReason: string | null;
+  // No other export is in force, so the period goes back to open
+  reopenPeriod: boolean;
+}
+
+/**
+ * Checks a void against every export for the same pay period. Adjustments
+ * build on the export before them, so they have to be voided first.
+ */
+export function planExportVoid(exportId: string, periodExports: PeriodExport[]): ExportVoidPlan {
+  const target = periodExports.find(e => e.id === exportId);
+  const others = periodExports.filter(e => e.id !== exportId && e.status === 'generated');
+  const reopenPeriod = others.length === 0;
+
+  if (!target) return { blockedReason: 'Export not found', reopenPeriod };
+  if (target.status !== 'generated') {
+    return { blockedReason: 'This export has already been voided', reopenPeriod };
+  }
+  if (others.some(e => e.previous_export_id === exportId)) {
+    return { blockedReason: 'Void the adjustment exports made after this one first', reopenPeriod };
+  }
+  return { blockedReason: null, reopenPeriod };
+}
+
+/**
+ * The timesheets a void unlocks: the ones the export recorded paying, or for
+ * an export made before those were recorded, every timesheet locked to the
+ * period once no other export for it is in force.
+ */
+export function getTimesheetsReleasedOnVoid(
+  exportId: string,
+  periodExports: PeriodExport[],
+  exportedTimesheetIds: string[],
+  periodLockedTimesheetIds: string[]
+): string[] {
+  if (exportedTimesheetIds.length > 0) return exportedTimesheetIds;
+  const othersInForce = periodExports.some(e => e.id !== exportId && e.status === 'generated');
+  return othersInForce ? [] : periodLockedTimesheetIds;
+}
@@ -0,0 +1,95 @@
+/**
+ * Payroll Reconciliation
+ * Pure checks behind the pay period reconciliation shown before an export.
+ * None of them block the export; they flag what otherwise comes back as a
+ * reversal after the pay run.
+ */
+
+import type { ReconciliationIssue, TimesheetForExport } from '@/types/payroll';
+
+export interface ApprovedLeave {
+  employee_id: string;
+  type: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface ReconciliationEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+  status: string;
+  start_date?: string | null;
+  end_date?: string | null;
+}
+
+/**
+ * Timesheets worked on a day the employee was on approved leave.
+ */
+export function findLeaveOverlaps(timesheets: TimesheetForExport[], leave: ApprovedLeave[]): ReconciliationIssue[] {
+  return timesheets.flatMap(ts => {
+    const overlapping = leave.find(
+      l => l.employee_id === ts.employee_id && l.start_date <= ts.date && l.end_date >= ts.date
+    );
+    if (!overlapping) return [];
+    return [{
+      type: 'leave_overlap' as const,
+      message: `${ts.employee_name} worked on ${ts.date} during approved ${overlapping.type} leave (${overlapping.start_date} to ${overlapping.end_date})`,
+      employeeId: ts.employee_id,
+      employeeName: ts.employee_name || 'Unknown',
+      date: ts.date,
+      timesheetId: ts.id,
+    }];
+  });
+}
+
+/**
+ * Active employees who had started by the end of the period but have no
+ * timesheets in it.
+ */
+export function findMissingTimesheets(
+  activeEmployees: ReconciliationEmployee[],
+  periodTimesheets: { employee_id: string }[],
+  periodEnd: string
+): ReconciliationIssue[] {
+  const employeesWithTimesheets = new Set(periodTimesheets.map(t => t.employee_id));
+  return activeEmployees
+    .filter(emp => !employeesWithTimesheets.has(emp.id))
+    .filter(emp => !emp.start_date || emp.start_date <= periodEnd)
+    .map(emp => {
+      const name = `${emp.first_name} ${emp.last_name}`;
+      return {
+        type: 'no_timesheets' as const,
+        message: `${name} is active but has no timesheets in this pay period`,
+        employeeId: emp.id,
+        employeeName: name,
+      };
+    });
+}
+
+/**
+ * Timesheets dated after the employee's end date, or for an employee made
+ * inactive without one.
+ */
+export function findInactiveEmployeeTimesheets(
+  timesheets: TimesheetForExport[],
+  employees: ReconciliationEmployee[]
+): ReconciliationIssue[] {
+  const employeeMap = new Map(employees.map(e => [e.id, e]));
+  return timesheets.flatMap(ts => {
+    const emp = employeeMap.get(ts.employee_id);
+    if (!emp) return [];
+    const endedBefore = !!emp.end_date && emp.end_date < ts.date;
+    if (!endedBefore && !(emp.status === 'inactive' && !emp.end_date)) return [];
+    return [{
+      type: 'inactive_employee' as const,
+      message: endedBefore
+        ? `${ts.employee_name} has a timesheet on ${ts.date} after their end date (${emp.end_date})`
+        : `${ts.employee_name} is inactive but has a timesheet on ${ts.date}`,
+      employeeId: ts.employee_id,
+      employeeName: `${emp.first_name} ${emp.last_name}`,
+      date: ts.date,
+      timesheetId: ts.id,
+    }];
+  });
+}
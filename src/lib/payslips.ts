@@ -0,0 +1,147 @@
+/**
+ * Payslips for the internal payslips provider.
+ *
+ * Earnings are priced from the same penalty bucket hours as the export lines,
+ * using the employee's award rates - the same breakdown the payroll
+ * calculator shows.
+ */
+
+import { format, parseISO } from 'date-fns';
+import {
+  calculateBucketPay,
+  emptyBucketHours,
+  getAwardMultipliers,
+  type AwardRates,
+} from '@/lib/awardInterpretation';
+import { PdfDocument } from '@/lib/pdf';
+import { formatBsb } from '@/lib/abaFile';
+import { PENALTY_BUCKETS, PENALTY_BUCKET_LABELS } from '@/types/payroll';
+import type { PayrollExportLine, Payslip, PayslipEarning } from '@/types/payroll';
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Prices one employee's export lines. Lines are expected to belong to a
+ * single employee.
+ */
+export function buildPayslip(lines: PayrollExportLine[], award: AwardRates): Payslip {
+  const hours = emptyBucketHours();
+  const earningCodes = new Map<string, string>();
+  for (const line of lines) {
+    hours[line.shift_type] += line.hours;
+    earningCodes.set(line.shift_type, line.earning_code);
+  }
+
+  const pay = calculateBucketPay(hours, award);
+  const multipliers = getAwardMultipliers(award);
+
+  // Adjustments can take hours back; those stay on the payslip as negative
+  // earnings so they net against the rest of the pay
+  const earnings: PayslipEarning[] = PENALTY_BUCKETS.filter(bucket => roundCents(hours[bucket]) !== 0).map(bucket => ({
+    bucket,
+    earning_code: earningCodes.get(bucket) || bucket,
+    hours: roundCents(hours[bucket]),
+    rate: roundCents(award.base_hourly_rate * multipliers[bucket]),
+    amount: roundCents(pay[bucket]),
+  }));
+
+  const first = lines[0];
+  return {
+    employee_id: first?.employee_id || '',
+    employee_name: first?.employee_name || 'Unknown',
+    employee_email: first?.employee_email,
+    earnings,
+    total_hours: roundCents(earnings.reduce((sum, e) => sum + e.hours, 0)),
+    gross_pay: roundCents(earnings.reduce((sum, e) => sum + e.amount, 0)),
+  };
+}
+
+function formatCurrency(value: number): string {
+  const amount = Math.abs(value).toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value < 0 ? '-' : ''}$${amount}`;
+}
+
+function formatDate(date: string): string {
+  return format(parseISO(date), 'dd MMM yyyy');
+}
+
+export interface PayslipContext {
+  organisationName: string;
+  periodStart: string;
+  periodEnd: string;
+  paymentDate: string;
+  account: { bsb: string; account_number: string } | null;
+}
+
+/**
+ * Renders a payslip as a single-page PDF.
+ */
+export function renderPayslipPdf(payslip: Payslip, context: PayslipContext): Blob {
+  const pdf = new PdfDocument();
+  const marginX = 50;
+  const rightX = pdf.pageWidth - marginX;
+  const columns = { hours: 330, rate: 420, amount: rightX };
+  let y = 60;
+
+  pdf.text(marginX, y, context.organisationName, { size: 16, font: 'bold' });
+  pdf.text(rightX, y, 'PAYSLIP', { size: 16, font: 'bold', align: 'right' });
+  y += 30;
+
+  pdf.text(marginX, y, payslip.employee_name, { size: 11, font: 'bold' });
+  pdf.text(rightX, y, `Pay period: ${formatDate(context.periodStart)} - ${formatDate(context.periodEnd)}`, {
+    align: 'right',
+  });
+  y += 15;
+  if (payslip.employee_email) {
+    pdf.text(marginX, y, payslip.employee_email);
+  }
+  pdf.text(rightX, y, `Payment date: ${formatDate(context.paymentDate)}`, { align: 'right' });
+  y += 30;
+
+  pdf.text(marginX, y, 'Earnings', { font: 'bold' });
+  pdf.text(columns.hours, y, 'Hours', { font: 'bold', align: 'right' });
+  pdf.text(columns.rate, y, 'Rate', { font: 'bold', align: 'right' });
+  pdf.text(columns.amount, y, 'Amount', { font: 'bold', align: 'right' });
+  y += 6;
+  pdf.line(marginX, y, rightX);
+  y += 16;
+
+  for (const earning of payslip.earnings) {
+    pdf.text(marginX, y, `${PENALTY_BUCKET_LABELS[earning.bucket]} (${earning.earning_code})`);
+    pdf.text(columns.hours, y, earning.hours.toFixed(2), { align: 'right' });
+    pdf.text(columns.rate, y, formatCurrency(earning.rate), { align: 'right' });
+    pdf.text(columns.amount, y, formatCurrency(earning.amount), { align: 'right' });
+    y += 16;
+  }
+
+  pdf.line(marginX, y - 8, rightX);
+  y += 8;
+  pdf.text(marginX, y, 'Gross Pay', { font: 'bold' });
+  pdf.text(columns.hours, y, payslip.total_hours.toFixed(2), { font: 'bold', align: 'right' });
+  pdf.text(columns.amount, y, formatCurrency(payslip.gross_pay), { font: 'bold', align: 'right' });
+  y += 40;
+
+  pdf.text(marginX, y, 'Payment', { font: 'bold' });
+  y += 6;
+  pdf.line(marginX, y, rightX);
+  y += 16;
+  if (context.account) {
+    const maskedAccount = `***${context.account.account_number.slice(-3)}`;
+    pdf.text(marginX, y, `BSB ${formatBsb(context.account.bsb)}  Account ${maskedAccount}`);
+  } else {
+    pdf.text(marginX, y, 'No bank account on file');
+  }
+  pdf.text(columns.amount, y, formatCurrency(payslip.gross_pay), { align: 'right' });
+  y += 40;
+
+  pdf.text(
+    marginX,
+    y,
+    'Amounts are gross. PAYG withholding and superannuation are not calculated on this payslip.',
+    { size: 8 }
+  );
+
+  return pdf.toBlob();
+}
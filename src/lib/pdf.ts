@@ -0,0 +1,147 @@
+/**
+ * Minimal PDF writer for generated documents (payslips).
+ *
+ * Supports A4 pages with Helvetica text and horizontal rules - enough for
+ * tabular documents without pulling in a PDF library. Coordinates are in
+ * points from the top-left corner of the page.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+type PdfFont = 'regular' | 'bold';
+
+interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'right';
+}
+
+// Helvetica advance widths (1/1000 em) for the characters that appear in
+// right-aligned figures. Everything else is measured at the average width.
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278,
+  '.': 278,
+  ',': 278,
+  '-': 333,
+  '$': 556,
+  '%': 889,
+  '(': 333,
+  ')': 333,
+  h: 556,
+  x: 500,
+};
+const DIGIT_WIDTH = 556;
+const DEFAULT_WIDTH = 556;
+
+export function measureText(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += /\d/.test(char) ? DIGIT_WIDTH : CHAR_WIDTHS[char] ?? DEFAULT_WIDTH;
+  }
+  return (width / 1000) * size;
+}
+
+/**
+ * Keeps text within the WinAnsi range the standard fonts can draw, and
+ * escapes PDF string delimiters.
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageWidth(): number {
+    return PAGE_WIDTH;
+  }
+
+  get pageHeight(): number {
+    return PAGE_HEIGHT;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.font === 'bold' ? 'F2' : 'F1';
+    const drawX = options.align === 'right' ? x - measureText(text, size) : x;
+    this.currentPage.push(
+      `BT /${font} ${num(size)} Tf ${num(drawX)} ${num(PAGE_HEIGHT - y)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y: number, x2: number, width = 0.5): void {
+    const pdfY = num(PAGE_HEIGHT - y);
+    this.currentPage.push(`${num(width)} w ${num(x1)} ${pdfY} m ${num(x2)} ${pdfY} l S`);
+  }
+
+  /**
+   * Serialises the document. Every character is a single byte, so the
+   * string can be written out as latin1.
+   */
+  output(): string {
+    const objects: string[] = [];
+    const pageRefs: string[] = [];
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page + content pair per page
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(''); // Page tree, filled in once page numbers are known
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    for (const operations of this.pages) {
+      const content = operations.join('\n');
+      const pageNumber = objects.length + 1;
+      pageRefs.push(`${pageNumber} 0 R`);
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageNumber + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    }
+
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`;
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(body.length);
+      body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = body.length;
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return body;
+  }
+
+  toBlob(): Blob {
+    const output = this.output();
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Public Holidays
+ * Pure helpers for matching dates against an organisation's holiday calendar
+ * and for parsing CSV / iCal holiday imports.
+ */
+
+import { addDays, eachDayOfInterval, isWeekend, parseISO } from 'date-fns';
+import { normalizeHeader, parseCsv } from '@/lib/csv';
+import {
+  HOLIDAY_REGIONS,
+  type ParsedPublicHoliday,
+  type PublicHoliday,
+  type PublicHolidayImportResult,
+} from '@/types/publicHolidays';
+
+type HolidayLike = Pick<PublicHoliday, 'holiday_date' | 'regions'>;
+
+/**
+ * Whether a holiday applies in a region. Holidays with no regions are
+ * national; an employee with no region only gets national holidays.
+ */
+export function holidayAppliesTo(holiday: HolidayLike, region?: string | null): boolean {
+  if (holiday.regions.length === 0) return true;
+  if (!region) return false;
+  return holiday.regions.includes(region.toUpperCase());
+}
+
+/**
+ * Set of holiday dates (yyyy-MM-dd) that apply in a region.
+ */
+export function getHolidayDates(holidays: HolidayLike[], region?: string | null): Set<string> {
+  return new Set(
+    holidays.filter(h => holidayAppliesTo(h, region)).map(h => h.holiday_date)
+  );
+}
+
+export function isPublicHoliday(
+  date: string,
+  holidays: HolidayLike[],
+  region?: string | null
+): boolean {
+  return holidays.some(h => h.holiday_date === date && holidayAppliesTo(h, region));
+}
+
+/**
+ * Weekdays between two dates (inclusive) that are not public holidays.
+ * Used to work out leave hours so holidays don't come off the balance.
+ */
+export function countLeaveDays(
+  startDate: string,
+  endDate: string,
+  holidays: HolidayLike[],
+  region?: string | null
+): { workingDays: number; holidayDays: number } {
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+  if (end < start) return { workingDays: 0, holidayDays: 0 };
+
+  const holidayDates = getHolidayDates(holidays, region);
+  let workingDays = 0;
+  let holidayDays = 0;
+
+  for (const day of eachDayOfInterval({ start, end })) {
+    if (isWeekend(day)) continue;
+    const key = toDateKey(day);
+    if (holidayDates.has(key)) {
+      holidayDays++;
+    } else {
+      workingDays++;
+    }
+  }
+
+  return { workingDays, holidayDays };
+}
+
+/**
+ * Moves forward a number of business days, skipping weekends and the given
+ * holiday dates (yyyy-MM-dd). The time of day is kept.
+ */
+export function addBusinessDays(from: Date, days: number, holidayDates: Set<string>): Date {
+  let date = from;
+  let remaining = days;
+  while (remaining > 0) {
+    date = addDays(date, 1);
+    if (!isWeekend(date) && !holidayDates.has(toDateKey(date))) {
+      remaining--;
+    }
+  }
+  return date;
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// =====================================================
+// Import parsing
+// =====================================================
+
+/**
+ * Accepts yyyy-MM-dd, yyyyMMdd (data.gov.au / iCal) and dd/MM/yyyy.
+ */
+function parseHolidayDate(value: string): string | null {
+  const trimmed = value.trim();
+
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+
+  return null;
+}
+
+/**
+ * Normalises a region cell ("NSW; VIC", "nsw", "national") into region codes.
+ * Unknown codes are returned separately so the caller can report them.
+ */
+function parseRegions(value: string): { regions: string[]; unknown: string[] } {
+  const parts = value
+    .split(/[;|,/]/)
+    .map(p => p.trim().toUpperCase())
+    .filter(p => p && p !== 'NATIONAL' && p !== 'ALL' && p !== 'AUS');
+
+  const known = HOLIDAY_REGIONS as string[];
+  return {
+    regions: [...new Set(parts.filter(p => known.includes(p)))],
+    unknown: parts.filter(p => !known.includes(p)),
+  };
+}
+
+const DATE_HEADERS = ['date', 'holiday_date'];
+const NAME_HEADERS = ['name', 'holiday_name', 'holiday'];
+const REGION_HEADERS = ['regions', 'region', 'state', 'states', 'jurisdiction'];
+
+/**
+ * Parses a holiday CSV. Needs a date and name column; an optional region
+ * column (region/state/jurisdiction) tags the holiday to states. The
+ * data.gov.au Australian public holidays dataset imports as-is.
+ */
+export function parseHolidayCsv(text: string, defaultRegions: string[] = []): PublicHolidayImportResult {
+  const rows = parseCsv(text);
+  const errors: string[] = [];
+
+  if (rows.length < 2) {
+    return { holidays: [], errors: ['The CSV must include a header row and at least one data row.'] };
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const dateIndex = headers.findIndex(h => DATE_HEADERS.includes(h));
+  const nameIndex = headers.findIndex(h => NAME_HEADERS.includes(h));
+  const regionIndex = headers.findIndex(h => REGION_HEADERS.includes(h));
+
+  if (dateIndex === -1 || nameIndex === -1) {
+    return { holidays: [], errors: ['CSV must have "date" and "name" columns.'] };
+  }
+
+  const holidays: ParsedPublicHoliday[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const date = parseHolidayDate(row[dateIndex] || '');
+    const name = (row[nameIndex] || '').trim();
+
+    if (!date || !name) {
+      errors.push(`Row ${line}: missing or invalid date/name`);
+      return;
+    }
+
+    let regions = defaultRegions;
+    if (regionIndex !== -1 && row[regionIndex]?.trim()) {
+      const parsed = parseRegions(row[regionIndex]);
+      if (parsed.unknown.length > 0) {
+        errors.push(`Row ${line}: unknown region ${parsed.unknown.join(', ')}`);
+      }
+      regions = parsed.regions;
+    }
+
+    holidays.push({ holiday_date: date, name, regions });
+  });
+
+  return { holidays: mergeDuplicates(holidays), errors };
+}
+
+/**
+ * Parses VEVENTs from an iCal (.ics) feed. Every event is tagged with the
+ * given regions since calendar feeds are usually published per state.
+ */
+export function parseHolidayIcal(text: string, regions: string[] = []): PublicHolidayImportResult {
+  // Unfold folded lines (RFC 5545: continuation lines start with a space or tab)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const holidays: ParsedPublicHoliday[] = [];
+  const errors: string[] = [];
+
+  let inEvent = false;
+  let date: string | null = null;
+  let name = '';
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      inEvent = true;
+      date = null;
+      name = '';
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (date && name) {
+        holidays.push({ holiday_date: date, name, regions });
+      } else {
+        errors.push(`Skipped event without a date or summary${name ? `: ${name}` : ''}`);
+      }
+      inEvent = false;
+      continue;
+    }
+
+    if (!inEvent) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (key === 'DTSTART') {
+      date = parseHolidayDate(value);
+    } else if (key === 'SUMMARY') {
+      name = value.replace(/\\,/g, ',').replace(/\\;/g, ';').trim();
+    }
+  }
+
+  if (holidays.length === 0 && errors.length === 0) {
+    errors.push('No events found in the calendar file.');
+  }
+
+  return { holidays: mergeDuplicates(holidays), errors };
+}
+
+/**
+ * Collapses rows for the same holiday in different states into one holiday
+ * tagged with all of those states (the data.gov.au dataset has a row per
+ * jurisdiction).
+ */
+function mergeDuplicates(holidays: ParsedPublicHoliday[]): ParsedPublicHoliday[] {
+  const merged = new Map<string, ParsedPublicHoliday>();
+
+  for (const holiday of holidays) {
+    const key = `${holiday.holiday_date}|${holiday.name.toLowerCase()}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...holiday, regions: [...holiday.regions].sort() });
+    } else if (existing.regions.length > 0) {
+      // An untagged row makes the holiday national
+      existing.regions =
+        holiday.regions.length === 0
+          ? []
+          : [...new Set([...existing.regions, ...holiday.regions])].sort();
+    }
+  }
+
+  return [...merged.values()];
+}
@@ -0,0 +1,367 @@
+/**
+ * NDIS Reportable Incidents
+ * Deadline arithmetic for the Commission's notification clock and the
+ * notification pack built from an HR case.
+ */
+
+import { addHours, format, parseISO } from 'date-fns';
+import { PdfDocument } from '@/lib/pdf';
+import { addBusinessDays } from '@/lib/publicHolidays';
+import {
+  ACTION_STATUS_LABELS,
+  ACTION_TYPE_LABELS,
+  CASE_SEVERITY_LABELS,
+  NDIS_INCIDENT_CATEGORY_LABELS,
+  REPORTER_TYPE_LABELS,
+  type HRCase,
+  type HRCaseAction,
+  type HRCaseEvidence,
+  type HRCaseTriage,
+  type NdisIncidentCategory,
+} from '@/types/hrCases';
+
+const REPORT_BUSINESS_DAYS = 5;
+
+/**
+ * When the notification and the 5-day report are due, counted from when the
+ * provider became aware of the incident. An unauthorised restrictive practice
+ * that caused no harm gets 5 business days for the notification rather than
+ * 24 hours.
+ */
+export function reportableIncidentDeadlines(
+  category: NdisIncidentCategory,
+  awareAt: string,
+  holidayDates: Set<string> = new Set()
+): { notificationDueAt: string; reportDueAt: string } {
+  const aware = parseISO(awareAt);
+  const reportDue = addBusinessDays(aware, REPORT_BUSINESS_DAYS, holidayDates);
+  const notificationDue = category === 'restrictive_practice' ? reportDue : addHours(aware, 24);
+  return {
+    notificationDueAt: notificationDue.toISOString(),
+    reportDueAt: reportDue.toISOString(),
+  };
+}
+
+export type DeadlineState = 'met' | 'pending' | 'due_soon' | 'overdue';
+
+export interface DeadlineCountdown {
+  state: DeadlineState;
+  label: string;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Where a deadline stands at a moment in time. A deadline is "due soon"
+ * within the warning window before it falls due.
+ */
+export function deadlineCountdown(
+  dueAt: string,
+  completedAt: string | null,
+  now: Date,
+  warnWithinHours: number
+): DeadlineCountdown {
+  if (completedAt) {
+    const late = parseISO(completedAt) > parseISO(dueAt);
+    return { state: 'met', label: late ? 'Submitted late' : 'Submitted' };
+  }
+  const remaining = parseISO(dueAt).getTime() - now.getTime();
+  if (remaining <= 0) {
+    return { state: 'overdue', label: `Overdue ${formatDuration(-remaining)}` };
+  }
+  return {
+    state: remaining <= warnWithinHours * 3600000 ? 'due_soon' : 'pending',
+    label: `${formatDuration(remaining)} left`,
+  };
+}
+
+// =====================================================
+// Notification pack
+// =====================================================
+
+export interface NdisNotificationPackInput {
+  hrCase: HRCase;
+  triage: HRCaseTriage | null;
+  evidence: HRCaseEvidence[];
+  actions: HRCaseAction[];
+  provider: { legal_name: string; trading_name: string | null };
+  preparedBy: string;
+  generatedAt: string;
+}
+
+/**
+ * Case details laid out in the sections of the Commission's reportable
+ * incident forms. Fields the case doesn't record are left null for the
+ * person lodging the notification to complete.
+ */
+export interface NdisNotificationPack {
+  pack_version: 1;
+  generated_at: string;
+  prepared_by: string;
+  provider: {
+    legal_name: string;
+    trading_name: string | null;
+    registration_number: null;
+  };
+  notification: {
+    incident_category: NdisIncidentCategory;
+    incident_category_label: string;
+    provider_aware_at: string;
+    notification_due_at: string;
+    notified_at: string | null;
+    commission_reference: string | null;
+    five_day_report_due_at: string;
+    five_day_report_submitted_at: string | null;
+  };
+  incident: {
+    case_number: string;
+    date_reported: string;
+    summary: string;
+    description: string | null;
+    severity: string;
+    safeguarding_concern: boolean;
+    location: null;
+  };
+  impacted_persons: null;
+  subject_of_allegation: {
+    name: string;
+    position: string | null;
+    department: string | null;
+  } | null;
+  reporter: {
+    type: string;
+    name: string | null;
+    contact: string | null;
+  };
+  immediate_response: {
+    risk_assessment: string | null;
+    actions_taken: string | null;
+    escalation_required: boolean;
+    escalated_to: string | null;
+    assessed_at: string | null;
+  };
+  evidence: {
+    file_name: string;
+    description: string | null;
+    uploaded_by: string | null;
+    uploaded_at: string;
+  }[];
+  actions: {
+    action_type: string;
+    description: string;
+    effective_date: string;
+    status: string;
+  }[];
+}
+
+export function buildNdisNotificationPack(input: NdisNotificationPackInput): NdisNotificationPack {
+  const { hrCase, triage } = input;
+  if (!hrCase.ndis_reportable || !hrCase.ndis_incident_category) {
+    throw new Error(`Case ${hrCase.case_number} is not classified as a reportable incident`);
+  }
+
+  return {
+    pack_version: 1,
+    generated_at: input.generatedAt,
+    prepared_by: input.preparedBy,
+    provider: {
+      legal_name: input.provider.legal_name,
+      trading_name: input.provider.trading_name,
+      registration_number: null,
+    },
+    notification: {
+      incident_category: hrCase.ndis_incident_category,
+      incident_category_label: NDIS_INCIDENT_CATEGORY_LABELS[hrCase.ndis_incident_category],
+      provider_aware_at: hrCase.ndis_aware_at!,
+      notification_due_at: hrCase.ndis_notification_due_at!,
+      notified_at: hrCase.ndis_notified_at,
+      commission_reference: hrCase.ndis_commission_reference,
+      five_day_report_due_at: hrCase.ndis_report_due_at!,
+      five_day_report_submitted_at: hrCase.ndis_report_submitted_at,
+    },
+    incident: {
+      case_number: hrCase.case_number,
+      date_reported: hrCase.date_reported,
+      summary: hrCase.summary,
+      description: hrCase.detailed_description,
+      severity: hrCase.severity,
+      safeguarding_concern: hrCase.safeguarding_flag,
+      location: null,
+    },
+    impacted_persons: null,
+    subject_of_allegation: hrCase.employee
+      ? {
+          name: `${hrCase.employee.first_name} ${hrCase.employee.last_name}`,
+          position: hrCase.employee.position,
+          department: hrCase.employee.department,
+        }
+      : null,
+    reporter: {
+      type: hrCase.reported_by,
+      // Anonymous reporters stay anonymous in the pack
+      name: hrCase.reported_by === 'anonymous' ? null : hrCase.reporter_name,
+      contact: hrCase.reported_by === 'anonymous' ? null : hrCase.reporter_contact,
+    },
+    immediate_response: {
+      risk_assessment: triage?.initial_risk_assessment ?? null,
+      actions_taken: triage?.immediate_actions_taken ?? null,
+      escalation_required: triage?.escalation_required ?? false,
+      escalated_to: triage?.escalated_to ?? null,
+      assessed_at: triage?.triaged_at ?? null,
+    },
+    evidence: input.evidence.map(e => ({
+      file_name: e.file_name,
+      description: e.description,
+      uploaded_by: e.uploaded_by_name,
+      uploaded_at: e.uploaded_at,
+    })),
+    actions: input.actions.map(a => ({
+      action_type: a.action_type,
+      description: a.description,
+      effective_date: a.effective_date,
+      status: a.status,
+    })),
+  };
+}
+
+function formatTimestamp(value: string | null): string {
+  return value ? format(parseISO(value), 'dd MMM yyyy HH:mm') : 'Not yet';
+}
+
+// Wraps text to the page width at the writer's average character width
+function wrap(text: string, size: number, width: number): string[] {
+  const maxChars = Math.floor(width / (size * 0.556));
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Renders the pack as a PDF for the case file and for copying into the
+ * Commission portal.
+ */
+export function renderNdisNotificationPdf(pack: NdisNotificationPack): Blob {
+  const pdf = new PdfDocument();
+  const marginX = 50;
+  const rightX = pdf.pageWidth - marginX;
+  const labelWidth = 170;
+  let y = 60;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pdf.pageHeight - 50) {
+      pdf.addPage();
+      y = 60;
+    }
+  };
+
+  const section = (title: string) => {
+    ensureSpace(40);
+    y += 14;
+    pdf.text(marginX, y, title, { size: 12, font: 'bold' });
+    y += 6;
+    pdf.line(marginX, y, rightX);
+    y += 16;
+  };
+
+  const field = (label: string, value: string | null) => {
+    const lines = wrap(value || '-', 10, rightX - marginX - labelWidth);
+    ensureSpace(lines.length * 14);
+    pdf.text(marginX, y, label, { font: 'bold' });
+    for (const line of lines) {
+      pdf.text(marginX + labelWidth, y, line);
+      y += 14;
+    }
+  };
+
+  pdf.text(marginX, y, 'NDIS Reportable Incident - Notification Pack', { size: 16, font: 'bold' });
+  y += 20;
+  pdf.text(marginX, y, `${pack.incident.case_number}  |  Generated ${formatTimestamp(pack.generated_at)} by ${pack.prepared_by}`, {
+    size: 9,
+  });
+  y += 10;
+
+  section('Provider');
+  field('Legal name', pack.provider.legal_name);
+  field('Trading name', pack.provider.trading_name);
+  field('Registration number', 'To be completed');
+
+  section('Notification');
+  field('Incident category', pack.notification.incident_category_label);
+  field('Provider became aware', formatTimestamp(pack.notification.provider_aware_at));
+  field('Notification due', formatTimestamp(pack.notification.notification_due_at));
+  field('Notified', formatTimestamp(pack.notification.notified_at));
+  field('Commission reference', pack.notification.commission_reference);
+  field('5-day report due', formatTimestamp(pack.notification.five_day_report_due_at));
+  field('5-day report submitted', formatTimestamp(pack.notification.five_day_report_submitted_at));
+
+  section('Incident');
+  field('Date reported', format(parseISO(pack.incident.date_reported), 'dd MMM yyyy'));
+  field('Severity', CASE_SEVERITY_LABELS[pack.incident.severity as keyof typeof CASE_SEVERITY_LABELS]);
+  field('Safeguarding concern', pack.incident.safeguarding_concern ? 'Yes' : 'No');
+  field('Summary', pack.incident.summary);
+  field('Description', pack.incident.description);
+  field('Location', 'To be completed');
+  field('Impacted persons', 'To be completed');
+
+  section('Subject of allegation');
+  if (pack.subject_of_allegation) {
+    field('Worker', pack.subject_of_allegation.name);
+    field('Position', pack.subject_of_allegation.position);
+    field('Department', pack.subject_of_allegation.department);
+  } else {
+    field('Worker', 'No worker recorded on the case');
+  }
+
+  section('Reporter');
+  field('Reported by', REPORTER_TYPE_LABELS[pack.reporter.type as keyof typeof REPORTER_TYPE_LABELS]);
+  field('Name', pack.reporter.name);
+  field('Contact', pack.reporter.contact);
+
+  section('Immediate response');
+  field('Risk assessment', pack.immediate_response.risk_assessment);
+  field('Actions taken', pack.immediate_response.actions_taken);
+  field('Escalated to', pack.immediate_response.escalation_required ? pack.immediate_response.escalated_to : 'Not escalated');
+  field('Assessed', formatTimestamp(pack.immediate_response.assessed_at));
+
+  section(`Evidence (${pack.evidence.length})`);
+  if (pack.evidence.length === 0) field('', 'None recorded');
+  pack.evidence.forEach((item, index) => {
+    field(
+      `${index + 1}.`,
+      [item.file_name, item.description, `${item.uploaded_by || 'Unknown'}, ${formatTimestamp(item.uploaded_at)}`]
+        .filter(Boolean)
+        .join(' - ')
+    );
+  });
+
+  section(`Actions (${pack.actions.length})`);
+  if (pack.actions.length === 0) field('', 'None recorded');
+  for (const action of pack.actions) {
+    field(
+      ACTION_TYPE_LABELS[action.action_type as keyof typeof ACTION_TYPE_LABELS] ?? action.action_type,
+      `${action.description} (from ${format(parseISO(action.effective_date), 'dd MMM yyyy')}, ${
+        ACTION_STATUS_LABELS[action.status as keyof typeof ACTION_STATUS_LABELS] ?? action.status
+      })`
+    );
+  }
+
+  return pdf.toBlob();
+}
@@ -0,0 +1,54 @@
+/**
+ * Rostering
+ * Pure helpers for shifts and participant requirements. Requirements are
+ * stored as certificate type codes (e.g. first_aid, peg_feeding) so the
+ * compliance check can match them against employee certifications.
+ */
+
+import type { Shift } from '@/types/rostering';
+
+export type ShiftWindow = Pick<Shift, 'id' | 'employee_id' | 'start_time' | 'end_time' | 'status'>;
+
+/**
+ * Requirement code for free text, e.g. "PEG feeding training" becomes
+ * peg_feeding_training. Certificates are matched on their type or on
+ * their name converted the same way.
+ */
+export function toRequirementCode(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+export function requirementCodeLabel(code: string): string {
+  const words = code.split('_').filter(Boolean);
+  if (words.length === 0) return code;
+  return words.map((w, i) => (i === 0 ? w.charAt(0).toUpperCase() + w.slice(1) : w)).join(' ');
+}
+
+export function shiftsOverlap(
+  a: Pick<Shift, 'start_time' | 'end_time'>,
+  b: Pick<Shift, 'start_time' | 'end_time'>
+): boolean {
+  return new Date(a.start_time) < new Date(b.end_time) && new Date(b.start_time) < new Date(a.end_time);
+}
+
+/**
+ * Other live shifts the employee already works that overlap this one.
+ */
+export function findShiftClashes(
+  shift: Pick<Shift, 'id' | 'start_time' | 'end_time'>,
+  employeeId: string,
+  shifts: ShiftWindow[]
+): ShiftWindow[] {
+  return shifts.filter(
+    s =>
+      s.id !== shift.id &&
+      s.employee_id === employeeId &&
+      s.status !== 'cancelled' &&
+      shiftsOverlap(s, shift)
+  );
+}
+
+export function shiftDurationHours(shift: Pick<Shift, 'start_time' | 'end_time'>): number {
+  const ms = new Date(shift.end_time).getTime() - new Date(shift.start_time).getTime();
+  return Math.max(ms / (60 * 60 * 1000), 0);
+}
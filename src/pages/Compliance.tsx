@@ -1,5 +1,5 @@
 import { useState, useMemo, useEffect } from 'react';
-import { Search, AlertTriangle, CheckCircle, XCircle, Clock, Download, Users, FileCheck, ChevronDown, X, Loader2 } from 'lucide-react';
+import { Search, AlertTriangle, CheckCircle, XCircle, Clock, Download, Users, FileCheck, ChevronDown, X, Loader2, BellRing, Grid3X3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -37,6 +37,11 @@ import { toast } from '@/hooks/use-toast';
 import { ComplianceStatus } from '@/types/hrms';
 import { supabase } from '@/integrations/supabase/client';
 import { ComplianceEmployeeDetailDialog } from '@/components/compliance/ComplianceEmployeeDetailDialog';
+import { ExpiryAlertLog } from '@/components/compliance/ExpiryAlertLog';
+import { ComplianceTrendChart } from '@/components/compliance/ComplianceTrendChart';
+import { ComplianceMatrix } from '@/components/compliance/ComplianceMatrix';
+import { OverrideApprovalQueue } from '@/components/compliance/OverrideApprovalQueue';
+import { useUserRole } from '@/hooks/useUserRole';
 import type { ComplianceRule } from '@/types/portal';
 import type { EmployeeDB, EmployeeCertificationDB, ComplianceStatusDB } from '@/types/database';
 
@@ -56,6 +61,8 @@ function isUuid(value?: string | null) {
   );
 }
 
+type ComplianceView = 'employees' | 'requirements' | 'matrix' | 'alerts';
+
 // Transform DB employee with certifications for display
 interface EmployeeWithCerts extends EmployeeDB {
   certifications: EmployeeCertificationDB[];
@@ -74,7 +81,7 @@ export default function Compliance() {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterDepartment, setFilterDepartment] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
-  const [activeView, setActiveView] = useState<'employees' | 'requirements'>('employees');
+  const [activeView, setActiveView] = useState<ComplianceView>('employees');
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
   const [selectedEmployeeDocs, setSelectedEmployeeDocs] = useState<Array<{
     id: string;
@@ -95,6 +102,7 @@ export default function Compliance() {
     error 
   } = useSupabaseEmployees();
   const { rules: complianceRules, loading: complianceRulesLoading } = useComplianceRules();
+  const { isAdmin } = useUserRole();
   const { documentTypes } = useDocumentTypes();
 
   const complianceDocumentTypeIds = useMemo(
@@ -395,6 +403,8 @@ export default function Compliance() {
         </div>
       </div>
 
+      {isAdmin && <OverrideApprovalQueue />}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
         <Card 
@@ -547,6 +557,8 @@ export default function Compliance() {
         </Card>
       </div>
 
+      <ComplianceTrendChart department={filterDepartment} />
+
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
@@ -581,18 +593,20 @@ export default function Compliance() {
                       ))}
                     </SelectContent>
                   </Select>
-                  <Select value={filterStatus} onValueChange={setFilterStatus}>
-                    <SelectTrigger className="w-full sm:w-40">
-                      <SelectValue placeholder="Status" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-popover">
-                      <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="compliant">Compliant</SelectItem>
-                      <SelectItem value="expiring">Expiring</SelectItem>
-                      <SelectItem value="expired">Expired</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {activeView === 'employees' && (
+                    <Select value={filterStatus} onValueChange={setFilterStatus}>
+                      <SelectTrigger className="w-full sm:w-40">
+                        <SelectValue placeholder="Status" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover">
+                        <SelectItem value="all">All Status</SelectItem>
+                        <SelectItem value="compliant">Compliant</SelectItem>
+                        <SelectItem value="expiring">Expiring</SelectItem>
+                        <SelectItem value="expired">Expired</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
                 </>
               )}
             </div>
@@ -612,7 +626,7 @@ export default function Compliance() {
                     <X className="h-3 w-3 cursor-pointer" onClick={() => setFilterDepartment('all')} />
                   </Badge>
                 )}
-                {activeView !== 'requirements' && filterStatus !== 'all' && (
+                {activeView === 'employees' && filterStatus !== 'all' && (
                   <Badge variant="secondary" className="gap-1 capitalize">
                     {filterStatus}
                     <X className="h-3 w-3 cursor-pointer" onClick={() => setFilterStatus('all')} />
@@ -632,7 +646,7 @@ export default function Compliance() {
         <CardHeader>
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
             <CardTitle className="text-lg">Compliance Details</CardTitle>
-            <Tabs value={activeView} onValueChange={(v) => setActiveView(v as 'employees' | 'requirements')}>
+            <Tabs value={activeView} onValueChange={(v) => setActiveView(v as ComplianceView)}>
               <TabsList>
                 <TabsTrigger value="employees" className="gap-2">
                   <Users className="h-4 w-4" />
@@ -642,6 +656,14 @@ export default function Compliance() {
                   <FileCheck className="h-4 w-4" />
                   Requirements ({filteredRequirements.length})
                 </TabsTrigger>
+                <TabsTrigger value="matrix" className="gap-2">
+                  <Grid3X3 className="h-4 w-4" />
+                  Matrix
+                </TabsTrigger>
+                <TabsTrigger value="alerts" className="gap-2">
+                  <BellRing className="h-4 w-4" />
+                  Expiry Alerts
+                </TabsTrigger>
               </TabsList>
             </Tabs>
           </div>
@@ -669,8 +691,17 @@ export default function Compliance() {
                 complianceDocumentTypes={complianceDocumentTypes}
               />
             </>
-          ) : (
+          ) : activeView === 'requirements' ? (
             <RequirementsTable requirements={filteredRequirements} loading={complianceRulesLoading} />
+          ) : activeView === 'matrix' ? (
+            <ComplianceMatrix
+              employees={activeEmployees}
+              rules={complianceRules}
+              searchQuery={searchQuery}
+              department={filterDepartment}
+            />
+          ) : (
+            <ExpiryAlertLog searchQuery={searchQuery} department={filterDepartment} />
           )}
         </CardContent>
       </Card>
@@ -837,19 +868,20 @@ function RequirementsTable({
             <TableHead>Document Name</TableHead>
             <TableHead>Category</TableHead>
             <TableHead>Applies To</TableHead>
+            <TableHead>Warning</TableHead>
             <TableHead>Required</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {loading ? (
             <TableRow>
-              <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+              <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
                 Loading requirements...
               </TableCell>
             </TableRow>
           ) : requirements.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+              <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
                 No compliance requirements found
               </TableCell>
             </TableRow>
@@ -867,6 +899,9 @@ function RequirementsTable({
                 <TableCell className="text-muted-foreground">
                   {getRequirementTargetLabel(rule)}
                 </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {rule.warning_days} days before expiry
+                </TableCell>
                 <TableCell>
                   <Badge variant={rule.is_required ? 'default' : 'secondary'}>
                     {rule.is_required ? 'Required' : 'Optional'}
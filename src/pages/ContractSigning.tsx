@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Check, CheckCircle, Circle, FileSignature, Loader2, Shield } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { SignaturePad } from '@/components/contracts/SignaturePad';
+import { toast } from '@/hooks/use-toast';
+import { contractSigningService } from '@/services/contractSigningService';
+import { SIGNER_ROLE_LABELS, type SigningRequest } from '@/types/contracts';
+
+const STATE_MESSAGES: Record<Exclude<SigningRequest['state'], 'ready'>, string> = {
+  waiting: "It isn't your turn to sign yet. We'll email you again once the people before you have signed.",
+  signed: 'You have signed this contract. Thank you.',
+  closed: 'This contract is no longer open for signing. Contact the person who sent it if you think this is wrong.',
+};
+
+/**
+ * Public, unauthenticated signing page. The token in the link emailed to a
+ * signer is all that identifies them.
+ */
+export default function ContractSigning() {
+  const { token = '' } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const [signatureData, setSignatureData] = useState('');
+  const [signatureType, setSignatureType] = useState<'drawn' | 'typed'>('drawn');
+  const [agreedToTerms, setAgreedToTerms] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const { data: request, isLoading, error } = useQuery({
+    queryKey: ['contract-signing', token],
+    queryFn: () => contractSigningService.loadSigningRequest(token),
+    retry: false,
+  });
+
+  const handleSign = async () => {
+    setBusy(true);
+    try {
+      const updated = await contractSigningService.sign(token, signatureData, signatureType);
+      queryClient.setQueryData(['contract-signing', token], updated);
+    } catch (err) {
+      toast({
+        title: 'Could not sign',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !request) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {error instanceof Error ? error.message : 'This signing link is not valid.'}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { contract, signer, signers, state } = request;
+
+  return (
+    <div className="min-h-screen bg-muted py-10 px-4">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="text-center space-y-2">
+          <FileSignature className="h-10 w-10 mx-auto text-primary" />
+          <h1 className="text-2xl font-bold">{contract.title}</h1>
+          <p className="text-muted-foreground">
+            {signer.name}, you are signing as {SIGNER_ROLE_LABELS[signer.role].toLowerCase()}
+            {contract.expires_at && <> • Sign by {format(new Date(contract.expires_at), 'dd MMM yyyy h:mm a')}</>}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Signing Order</CardTitle>
+            <CardDescription>Each person signs once the one before them has signed</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {signers.map((s) => (
+              <div key={s.signing_order} className="flex items-center gap-3 text-sm">
+                {s.status === 'signed' ? (
+                  <CheckCircle className="h-4 w-4 text-primary" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground" />
+                )}
+                <span className="flex-1">
+                  {s.signing_order}. {s.name}
+                </span>
+                <Badge variant="outline" className="text-xs">{SIGNER_ROLE_LABELS[s.role]}</Badge>
+                {s.signed_at && (
+                  <span className="text-xs text-muted-foreground">{format(new Date(s.signed_at), 'dd MMM yyyy')}</span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <ScrollArea className="h-80 border border-border rounded-lg bg-muted/30">
+              <div className="p-4 space-y-4 text-sm">
+                <div className="space-y-2">
+                  <p><strong>Employee:</strong> {contract.employee_name}</p>
+                  <p><strong>Position:</strong> {contract.position}</p>
+                  {contract.department && (
+                    <p><strong>Department:</strong> {contract.department}</p>
+                  )}
+                  {contract.employment_type && (
+                    <p><strong>Employment Type:</strong> {contract.employment_type}</p>
+                  )}
+                  {contract.start_date && (
+                    <p><strong>Start Date:</strong> {format(new Date(contract.start_date), 'MMMM d, yyyy')}</p>
+                  )}
+                  {contract.pay_rate && (
+                    <p><strong>Pay Rate:</strong> ${contract.pay_rate.toFixed(2)}/hr</p>
+                  )}
+                </div>
+                <Separator />
+                <div className="whitespace-pre-wrap">{contract.content}</div>
+              </div>
+            </ScrollArea>
+
+            {state === 'ready' ? (
+              <>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Your Signature</Label>
+                  <SignaturePad
+                    signerName={signer.name}
+                    onSignatureChange={(data, type) => {
+                      setSignatureData(data);
+                      setSignatureType(type);
+                    }}
+                  />
+                </div>
+
+                <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
+                  <Checkbox
+                    id="agree-terms"
+                    checked={agreedToTerms}
+                    onCheckedChange={(checked) => setAgreedToTerms(checked === true)}
+                  />
+                  <Label htmlFor="agree-terms" className="text-sm leading-relaxed cursor-pointer">
+                    I have read this contract and agree to sign it as {signer.name}
+                  </Label>
+                </div>
+
+                <Alert>
+                  <Shield className="h-4 w-4" />
+                  <AlertDescription className="text-xs">
+                    Your signature will be recorded along with the time, your IP address and browser information.
+                  </AlertDescription>
+                </Alert>
+
+                <Button
+                  className="w-full gradient-primary"
+                  onClick={handleSign}
+                  disabled={busy || !signatureData || !agreedToTerms}
+                >
+                  {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                  Sign Contract
+                </Button>
+              </>
+            ) : (
+              <Alert>
+                <AlertDescription>{STATE_MESSAGES[state]}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Plus, FileText, Search, FileSignature, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { Plus, FileText, Files, Search, FileSignature, Clock, CheckCircle, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -16,14 +17,27 @@ import { ContractCard } from '@/components/contracts/ContractCard';
 import { CreateContractDialog } from '@/components/contracts/CreateContractDialog';
 import { ContractSigningDialog } from '@/components/contracts/ContractSigningDialog';
 import { ContractViewSheet } from '@/components/contracts/ContractViewSheet';
+import { ContractTemplateLibrary } from '@/components/contracts/ContractTemplateLibrary';
 import { useContracts } from '@/hooks/useContracts';
 import { useUserRole } from '@/hooks/useUserRole';
 import { toast } from '@/hooks/use-toast';
-import { Contract, Signature, ContractAuditLog } from '@/types/contracts';
+import { Contract, Signature, ContractAuditLog, ContractSigner } from '@/types/contracts';
+import { currentSigner } from '@/lib/contractSigning';
 import { accessDeniedMessage, isAccessDeniedError } from '@/lib/errorMessages';
 
 export default function Contracts() {
-  const { contracts, isLoading, createContract, signContract, getSignature, getAuditLogs, logAuditEvent } = useContracts();
+  const {
+    contracts,
+    isLoading,
+    createContract,
+    signContract,
+    remindSigner,
+    getSigners,
+    getSignatures,
+    getAuditLogs,
+    logAuditEvent,
+    refetch,
+  } = useContracts();
   const safeContracts = contracts ?? [];
   const { isAdmin, isManager } = useUserRole();
   const canManageContracts = !!(isAdmin || isManager);
@@ -33,7 +47,8 @@ export default function Contracts() {
   const [signingDialogOpen, setSigningDialogOpen] = useState(false);
   const [viewSheetOpen, setViewSheetOpen] = useState(false);
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
-  const [selectedSignature, setSelectedSignature] = useState<Signature | null>(null);
+  const [selectedSigners, setSelectedSigners] = useState<ContractSigner[]>([]);
+  const [selectedSignatures, setSelectedSignatures] = useState<Signature[]>([]);
   const [selectedAuditLogs, setSelectedAuditLogs] = useState<ContractAuditLog[]>([]);
 
   // Pre-flight organisation check (prevents RLS hard failure)
@@ -105,13 +120,15 @@ export default function Contracts() {
     setSelectedContract(contract);
 
     try {
-      // Fetch signature and audit logs
-      const [signature, logs] = await Promise.all([
-        getSignature(contract.id),
+      // Fetch signers, signatures and audit logs
+      const [signers, signatures, logs] = await Promise.all([
+        getSigners(contract.id),
+        getSignatures(contract.id),
         getAuditLogs(contract.id),
       ]);
 
-      setSelectedSignature(signature);
+      setSelectedSigners(signers);
+      setSelectedSignatures(signatures);
       setSelectedAuditLogs(logs);
 
       // Log view event (best-effort)
@@ -132,9 +149,27 @@ export default function Contracts() {
     }
   };
 
-  const handleSignContract = (contract: Contract) => {
+  const handleSignContract = async (contract: Contract) => {
     setSelectedContract(contract);
-    setSigningDialogOpen(true);
+
+    try {
+      setSelectedSigners(await getSigners(contract.id));
+      setSigningDialogOpen(true);
+    } catch (err) {
+      console.error('Failed to load contract signers:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to load contract details. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemind = async (contract: Contract) => {
+    await remindSigner(contract.id);
+    const [signers, logs] = await Promise.all([getSigners(contract.id), getAuditLogs(contract.id)]);
+    setSelectedSigners(signers);
+    setSelectedAuditLogs(logs);
   };
 
   const handleSign = async (
@@ -145,24 +180,18 @@ export default function Contracts() {
     if (!selectedContract) return;
 
     try {
-      await signContract(
-        contractId,
-        signatureData,
-        signatureType,
-        selectedContract.employee_name,
-        selectedContract.employee_email
-      );
-    } catch (err: any) {
+      await signContract(contractId, signatureData, signatureType);
+    } catch (err) {
+      // signContract has already explained the failure
       console.error('Failed to sign contract:', err);
-      toast({
-        title: 'Error',
-        description: 'Failed to sign contract. Please try again.',
-        variant: 'destructive',
-      });
+      await refetch();
     }
   };
 
-  const handleCreate = async (contract: Parameters<typeof createContract>[0]) => {
+  const handleCreate = async (
+    contract: Parameters<typeof createContract>[0],
+    countersigners: Parameters<typeof createContract>[1]
+  ) => {
     if (!canManageContracts) {
       toast({
         title: 'Access restricted',
@@ -173,7 +202,7 @@ export default function Contracts() {
     }
 
     try {
-      await createContract(contract);
+      await createContract(contract, countersigners);
       toast({
         title: 'Contract created',
         description: 'The contract was created successfully.',
@@ -241,91 +270,114 @@ export default function Contracts() {
         />
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardContent className="pt-4">
-          <div className="flex flex-col sm:flex-row gap-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                type="search"
-                placeholder="Search contracts..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger className="w-full sm:w-48">
-                <SelectValue placeholder="Filter by status" />
-              </SelectTrigger>
-              <SelectContent className="bg-popover">
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="draft">Draft</SelectItem>
-                <SelectItem value="pending_signature">Pending Signature</SelectItem>
-                <SelectItem value="signed">Signed</SelectItem>
-                <SelectItem value="expired">Expired</SelectItem>
-                <SelectItem value="voided">Voided</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Contracts Grid */}
-      {(isLoading || hasOrg === null) && (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {[1, 2, 3].map((i) => (
-            <Card key={i} className="animate-pulse">
-              <CardContent className="pt-6 h-48" />
-            </Card>
-          ))}
-        </div>
-      )}
-
-      {!isLoading && hasOrg === false && (
-        <Card>
-          <CardContent className="py-12 text-center">
-            <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="font-semibold mb-2">No organisation assigned</h3>
-            <p className="text-sm text-muted-foreground">
-              You must be assigned to an organisation before viewing contracts.
-            </p>
-          </CardContent>
-        </Card>
-      )}
-      {hasOrg === true && (
-        filteredContracts.length === 0 ? (
+      <Tabs defaultValue="contracts" className="space-y-4">
+        {canManageContracts && (
+          <TabsList>
+            <TabsTrigger value="contracts" className="flex items-center gap-2">
+              <FileSignature className="h-4 w-4" />
+              Contracts
+            </TabsTrigger>
+            <TabsTrigger value="templates" className="flex items-center gap-2">
+              <Files className="h-4 w-4" />
+              Templates
+            </TabsTrigger>
+          </TabsList>
+        )}
+
+        <TabsContent value="contracts" className="space-y-6">
+          {/* Filters */}
           <Card>
-            <CardContent className="py-12 text-center">
-              <FileSignature className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="font-semibold mb-2">No contracts found</h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                {searchQuery || statusFilter !== 'all' 
-                  ? 'Try adjusting your search or filters'
-                  : 'Create your first employment contract'}
-              </p>
-              {!searchQuery && statusFilter === 'all' && canManageContracts && (
-                <Button onClick={() => setCreateDialogOpen(true)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Create Contract
-                </Button>
-              )}
+            <CardContent className="pt-4">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="search"
+                    placeholder="Search contracts..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-full sm:w-48">
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    <SelectItem value="all">All Status</SelectItem>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="pending_signature">Pending Signature</SelectItem>
+                    <SelectItem value="signed">Signed</SelectItem>
+                    <SelectItem value="expired">Expired</SelectItem>
+                    <SelectItem value="voided">Voided</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </CardContent>
           </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredContracts.map(contract => (
-              <ContractCard
-                key={contract.id}
-                contract={contract}
-                onView={handleViewContract}
-                onSign={handleSignContract}
-              />
-            ))}
-          </div>
-        )
-      )}
+
+          {/* Contracts Grid */}
+          {(isLoading || hasOrg === null) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {[1, 2, 3].map((i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="pt-6 h-48" />
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {!isLoading && hasOrg === false && (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="font-semibold mb-2">No organisation assigned</h3>
+                <p className="text-sm text-muted-foreground">
+                  You must be assigned to an organisation before viewing contracts.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+          {hasOrg === true && (
+            filteredContracts.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <FileSignature className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="font-semibold mb-2">No contracts found</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    {searchQuery || statusFilter !== 'all' 
+                      ? 'Try adjusting your search or filters'
+                      : 'Create your first employment contract'}
+                  </p>
+                  {!searchQuery && statusFilter === 'all' && canManageContracts && (
+                    <Button onClick={() => setCreateDialogOpen(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create Contract
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {filteredContracts.map(contract => (
+                  <ContractCard
+                    key={contract.id}
+                    contract={contract}
+                    onView={handleViewContract}
+                    onSign={handleSignContract}
+                  />
+                ))}
+              </div>
+            )
+          )}
+        </TabsContent>
+
+        {canManageContracts && (
+          <TabsContent value="templates">
+            <ContractTemplateLibrary canEdit={!!isAdmin} />
+          </TabsContent>
+        )}
+      </Tabs>
 
       {/* Dialogs */}
       <CreateContractDialog
@@ -336,6 +388,7 @@ export default function Contracts() {
 
       <ContractSigningDialog
         contract={selectedContract}
+        signer={currentSigner(selectedSigners)}
         open={signingDialogOpen}
         onOpenChange={setSigningDialogOpen}
         onSign={handleSign}
@@ -343,10 +396,12 @@ export default function Contracts() {
 
       <ContractViewSheet
         contract={selectedContract}
-        signature={selectedSignature}
+        signers={selectedSigners}
+        signatures={selectedSignatures}
         auditLogs={selectedAuditLogs}
         open={viewSheetOpen}
         onOpenChange={setViewSheetOpen}
+        onRemind={canManageContracts ? handleRemind : undefined}
       />
     </div>
   );
@@ -48,6 +48,7 @@ import { AddEmployeeDialog } from '@/components/employees/AddEmployeeDialog';
 import { EmployeeDetailSheet } from '@/components/employees/EmployeeDetailSheet';
 import { toast } from '@/hooks/use-toast';
 import { accessDeniedMessage, friendlyErrorMessage, isAccessDeniedError } from '@/lib/errorMessages';
+import { normalizeHeader, parseCsv } from '@/lib/csv';
 import { Link } from 'react-router-dom';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useAuth } from '@/hooks/useAuth';
@@ -159,6 +160,8 @@ function dbToLegacyEmployee(
     complianceStatus: deriveComplianceStatus(certs),
     payRate: emp.pay_rate || 0,
     awardClassification: emp.award_classification_id || undefined,
+    workState: emp.work_state || undefined,
+    gender: (emp.gender as Employee['gender']) || undefined,
     emergencyContact: emp.emergency_contact_name
       ? {
           name: emp.emergency_contact_name,
@@ -178,74 +181,6 @@ function friendlySupabaseError(err: any) {
   return friendlyErrorMessage(err, 'You may not have permission to do that.');
 }
 
-function normalizeHeader(h: string) {
-  return h.trim().toLowerCase().replace(/\s+/g, '_');
-}
-
-// Simple CSV parser that supports quoted fields and commas inside quotes.
-// Returns an array of rows, each row is an array of string cells.
-function parseCsv(text: string): string[][] {
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let cell = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i];
-    const next = text[i + 1];
-
-    if (inQuotes) {
-      if (ch === '"' && next === '"') {
-        // Escaped quote
-        cell += '"';
-        i++;
-        continue;
-      }
-      if (ch === '"') {
-        inQuotes = false;
-        continue;
-      }
-      cell += ch;
-      continue;
-    }
-
-    if (ch === '"') {
-      inQuotes = true;
-      continue;
-    }
-
-    if (ch === ',') {
-      row.push(cell);
-      cell = '';
-      continue;
-    }
-
-    if (ch === '\n') {
-      row.push(cell);
-      cell = '';
-      // Ignore completely empty trailing row
-      const isEmpty = row.every((c) => c.trim() === '');
-      if (!isEmpty) rows.push(row);
-      row = [];
-      continue;
-    }
-
-    if (ch === '\r') {
-      // ignore CR (Windows line endings)
-      continue;
-    }
-
-    cell += ch;
-  }
-
-  // Last cell/row
-  row.push(cell);
-  const isEmpty = row.every((c) => c.trim() === '');
-  if (!isEmpty) rows.push(row);
-
-  return rows;
-}
-
 function toNumberOrUndefined(v: string): number | undefined {
   const trimmed = v.trim();
   if (!trimmed) return undefined;
@@ -522,6 +457,8 @@ export default function Employees() {
         employment_type: updatedEmployee.employmentType as EmploymentTypeDB,
       pay_rate: updatedEmployee.payRate || null,
       award_classification_id: updatedEmployee.awardClassification || null,
+      work_state: updatedEmployee.workState || null,
+      gender: updatedEmployee.gender || null,
       status: updatedEmployee.status as EmployeeStatusDB,
       compliance_status: updatedEmployee.complianceStatus as ComplianceStatusDB,
       emergency_contact_name: updatedEmployee.emergencyContact?.name || null,
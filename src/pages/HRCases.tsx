@@ -22,9 +22,13 @@ import {
   Scale,
   Clock,
   CheckCircle,
+  AlarmClock,
+  Timer,
 } from 'lucide-react';
 import { CreateCaseDialog } from '@/components/hrCases/CreateCaseDialog';
 import { CaseDetailSheet } from '@/components/hrCases/CaseDetailSheet';
+import { ReportableIncidentBadges } from '@/components/hrCases/ReportableIncidentBadges';
+import { SLA_STAGE_LABELS, type SlaStatus } from '@/lib/hrCaseSla';
 import type { 
   HRCase, 
   HRCaseType, 
@@ -152,7 +156,7 @@ export default function HRCases() {
 
       {/* Stats Overview */}
       {stats && (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-7">
           <MetricCard
             title="Total Cases"
             value={stats.total}
@@ -179,6 +183,21 @@ export default function HRCases() {
             value={stats.activeWarnings}
             icon={AlertTriangle}
           />
+          <MetricCard
+            title="Reportable Incidents Due"
+            value={stats.reportableOutstanding}
+            icon={AlarmClock}
+            className={stats.reportableOutstanding > 0 ? 'border-destructive' : ''}
+          />
+          <MetricCard
+            title="SLA Breaches"
+            value={stats.slaBreaches}
+            description={(Object.entries(stats.slaBreachesByStatus) as [SlaStatus, number][])
+              .map(([status, count]) => `${count} ${SLA_STAGE_LABELS[status]}`)
+              .join(', ') || undefined}
+            icon={Timer}
+            className={stats.slaBreaches > 0 ? 'border-destructive' : ''}
+          />
         </div>
       )}
 
@@ -327,9 +346,12 @@ export default function HRCases() {
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={getStatusVariant(hrCase.status)}>
-                        {hrCase.status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                      </Badge>
+                      <div className="flex flex-col items-start gap-1">
+                        <Badge variant={getStatusVariant(hrCase.status)}>
+                          {hrCase.status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                        </Badge>
+                        <ReportableIncidentBadges hrCase={hrCase} compact />
+                      </div>
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       {format(new Date(hrCase.date_reported), 'dd MMM yyyy')}
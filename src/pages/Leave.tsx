@@ -1,19 +1,26 @@
 import { useState } from 'react';
-import { Calendar, Plus, Clock, CheckCircle, XCircle, TrendingUp, History } from 'lucide-react';
+import { Calendar, Plus, Clock, CheckCircle, XCircle, TrendingUp, History, BookOpen, CalendarDays } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
-import { useLeave } from '@/hooks/useLeave';
+import { useLeave, useLeaveAccruals } from '@/hooks/useLeave';
+import { useUserRole } from '@/hooks/useUserRole';
 import { CreateLeaveRequestDialog } from '@/components/leave/CreateLeaveRequestDialog';
 import { LeaveRequestList } from '@/components/leave/LeaveRequestList';
 import { LeaveBalancesGrid } from '@/components/leave/LeaveBalancesGrid';
 import { LeaveAdjustmentsHistory } from '@/components/leave/LeaveAdjustmentsHistory';
+import { LeaveAccrualLedger } from '@/components/leave/LeaveAccrualLedger';
+import { LeaveAccrualSettings } from '@/components/leave/LeaveAccrualSettings';
+import { TeamLeaveCalendar } from '@/components/leave/TeamLeaveCalendar';
+import { StaffingRulesCard } from '@/components/leave/StaffingRulesCard';
 
 export default function Leave() {
   const [activeTab, setActiveTab] = useState('requests');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
-  const { stats, isLoading } = useLeave();
+  const { stats, isLoading, leaveTypes, organisationId } = useLeave();
+  const { isAdmin, isManager } = useUserRole();
+  const { updateLeaveTypeAccrual, isUpdatingAccrual } = useLeaveAccruals(organisationId);
 
   if (isLoading) {
     return (
@@ -111,6 +118,12 @@ export default function Leave() {
             <Calendar className="h-4 w-4 mr-2" />
             Requests
           </TabsTrigger>
+          {isManager && (
+            <TabsTrigger value="calendar">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendar
+            </TabsTrigger>
+          )}
           <TabsTrigger value="balances">
             <TrendingUp className="h-4 w-4 mr-2" />
             Balances
@@ -119,12 +132,25 @@ export default function Leave() {
             <History className="h-4 w-4 mr-2" />
             Adjustments
           </TabsTrigger>
+          {isManager && (
+            <TabsTrigger value="accruals">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Accruals
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="requests" className="mt-6">
           <LeaveRequestList />
         </TabsContent>
 
+        {isManager && (
+          <TabsContent value="calendar" className="mt-6 space-y-6">
+            <TeamLeaveCalendar />
+            {isAdmin && <StaffingRulesCard organisationId={organisationId} />}
+          </TabsContent>
+        )}
+
         <TabsContent value="balances" className="mt-6">
           <LeaveBalancesGrid />
         </TabsContent>
@@ -132,6 +158,19 @@ export default function Leave() {
         <TabsContent value="adjustments" className="mt-6">
           <LeaveAdjustmentsHistory />
         </TabsContent>
+
+        {isManager && (
+          <TabsContent value="accruals" className="mt-6 space-y-6">
+            {isAdmin && (
+              <LeaveAccrualSettings
+                leaveTypes={leaveTypes}
+                onSave={(leaveTypeId, settings) => updateLeaveTypeAccrual({ leaveTypeId, settings })}
+                isSaving={isUpdatingAccrual}
+              />
+            )}
+            <LeaveAccrualLedger organisationId={organisationId} />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Create Dialog */}
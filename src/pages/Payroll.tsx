@@ -15,6 +15,9 @@ import { ShiftsList } from '@/components/payroll/ShiftsList';
 import { PayrollSummaryCard } from '@/components/payroll/PayrollSummaryCard';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AwardClassification } from '@/hooks/useSettings';
+import { HOLIDAY_REGIONS, HOLIDAY_REGION_LABELS } from '@/types/publicHolidays';
+
+const NATIONAL_HOLIDAYS_VALUE = '__national__';
 
 export default function Payroll() {
   const {
@@ -25,6 +28,8 @@ export default function Payroll() {
     addShift,
     removeShift,
     clearShifts,
+    holidayRegion,
+    setHolidayRegion,
     calculations,
     summary,
     loading,
@@ -119,6 +124,28 @@ export default function Payroll() {
               </Select>
             </div>
 
+            <div className="space-y-2 w-full sm:w-56">
+              <Label>Public Holidays</Label>
+              <Select
+                value={holidayRegion || NATIONAL_HOLIDAYS_VALUE}
+                onValueChange={(value) =>
+                  setHolidayRegion(value === NATIONAL_HOLIDAYS_VALUE ? null : value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NATIONAL_HOLIDAYS_VALUE}>National only</SelectItem>
+                  {HOLIDAY_REGIONS.map((region) => (
+                    <SelectItem key={region} value={region}>
+                      {HOLIDAY_REGION_LABELS[region]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {selectedAward && (
               <div className="text-sm text-muted-foreground bg-muted/50 p-3 rounded-md flex-1">
                 <p className="font-medium text-foreground mb-1">Penalty Rates:</p>
@@ -128,7 +155,18 @@ export default function Payroll() {
                   <span>Public Holiday: {selectedAward.public_holiday_multiplier}x</span>
                   <span>Evening: {selectedAward.evening_multiplier}x</span>
                   <span>Night: {selectedAward.night_multiplier}x</span>
-                  <span>Overtime: {selectedAward.overtime_multiplier}x</span>
+                  <span>
+                    Overtime: {selectedAward.overtime_multiplier}x / {selectedAward.overtime_tier2_multiplier}x
+                  </span>
+                  {(selectedAward.daily_overtime_threshold_hours || selectedAward.weekly_overtime_threshold_hours) && (
+                    <span>
+                      OT after:{' '}
+                      {[
+                        selectedAward.daily_overtime_threshold_hours && `${selectedAward.daily_overtime_threshold_hours}h/day`,
+                        selectedAward.weekly_overtime_threshold_hours && `${selectedAward.weekly_overtime_threshold_hours}h/week`,
+                      ].filter(Boolean).join(', ')}
+                    </span>
+                  )}
                 </div>
               </div>
             )}
@@ -142,7 +180,7 @@ export default function Payroll() {
           <div>
             <CardTitle className="text-lg">Add Shifts</CardTitle>
             <CardDescription>
-              Enter shift details to calculate pay. Evening: 6pm-11pm, Night: 11pm-6am
+              Enter shift details to calculate pay. Evening: 6pm-11pm, Night: 11pm-6am. Public holidays come from the holiday calendar in Settings
             </CardDescription>
           </div>
           {shifts.length > 0 && (
@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, FileSpreadsheet, Calendar, Link, History } from 'lucide-react';
+import { Loader2, FileSpreadsheet, Calendar, Link, History, Landmark } from 'lucide-react';
 import { usePayrollExport } from '@/hooks/usePayrollExport';
 import { PayPeriodManager } from '@/components/payroll/PayPeriodManager';
 import { PayrollMappingsManager } from '@/components/payroll/PayrollMappingsManager';
 import { PayrollExportWizard } from '@/components/payroll/PayrollExportWizard';
 import { PayrollExportHistory } from '@/components/payroll/PayrollExportHistory';
+import { PayrollBankSettingsCard } from '@/components/payroll/PayrollBankSettingsCard';
 import type { PayPeriod } from '@/types/payroll';
 
 export default function PayrollExport() {
@@ -33,6 +34,9 @@ export default function PayrollExport() {
     isVoiding,
     getDownloadUrl,
     isDownloading,
+    bankSettings,
+    saveBankSettings,
+    isSavingBankSettings,
   } = usePayrollExport();
 
   if (isLoading) {
@@ -48,7 +52,7 @@ export default function PayrollExport() {
       <div>
         <h1 className="text-3xl font-bold">Payroll Export</h1>
         <p className="text-muted-foreground mt-1">
-          Generate payroll-ready CSV exports from approved timesheets
+          Generate payroll-ready CSV exports, or payslips and a bank file, from approved timesheets
         </p>
       </div>
 
@@ -66,6 +70,10 @@ export default function PayrollExport() {
             <Link className="h-4 w-4" />
             Mappings
           </TabsTrigger>
+          <TabsTrigger value="bank" className="flex items-center gap-2">
+            <Landmark className="h-4 w-4" />
+            Bank File
+          </TabsTrigger>
           <TabsTrigger value="history" className="flex items-center gap-2">
             <History className="h-4 w-4" />
             History
@@ -74,7 +82,7 @@ export default function PayrollExport() {
 
         <TabsContent value="export" className="space-y-6">
           <PayPeriodManager
-            payPeriods={payPeriods.filter(p => p.status === 'open')}
+            payPeriods={payPeriods.filter(p => p.status !== 'closed')}
             onCreatePayPeriod={createPayPeriod}
             onClosePayPeriod={closePayPeriod}
             onSelectPayPeriod={setSelectedPayPeriod}
@@ -102,7 +110,7 @@ export default function PayrollExport() {
             onCreatePayPeriod={createPayPeriod}
             onClosePayPeriod={closePayPeriod}
             onSelectPayPeriod={(p) => {
-              if (p.status === 'open') {
+              if (p.status !== 'closed') {
                 setSelectedPayPeriod(p);
                 setActiveTab('export');
               }
@@ -122,6 +130,14 @@ export default function PayrollExport() {
           />
         </TabsContent>
 
+        <TabsContent value="bank">
+          <PayrollBankSettingsCard
+            settings={bankSettings}
+            onSave={saveBankSettings}
+            isSaving={isSavingBankSettings}
+          />
+        </TabsContent>
+
         <TabsContent value="history">
           <PayrollExportHistory
             exports={exports}
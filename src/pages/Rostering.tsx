@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react';
+import { addDays, addWeeks, endOfWeek, format, startOfWeek, subWeeks } from 'date-fns';
+import { CalendarClock, ChevronLeft, ChevronRight, HeartHandshake, Plus, UserCheck, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useRostering } from '@/hooks/useRostering';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useSupabaseEmployees } from '@/hooks/useSupabaseEmployees';
+import { ShiftRoster } from '@/components/rostering/ShiftRoster';
+import { ParticipantList } from '@/components/rostering/ParticipantList';
+import { ShiftDialog } from '@/components/rostering/ShiftDialog';
+import { ParticipantDialog } from '@/components/rostering/ParticipantDialog';
+import { AssignWorkerDialog } from '@/components/rostering/AssignWorkerDialog';
+import type { Participant, Shift } from '@/types/rostering';
+
+export default function Rostering() {
+  const [activeTab, setActiveTab] = useState('shifts');
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [shiftDialogOpen, setShiftDialogOpen] = useState(false);
+  const [participantDialogOpen, setParticipantDialogOpen] = useState(false);
+  const [editingParticipant, setEditingParticipant] = useState<Participant | null>(null);
+  const [assigningShift, setAssigningShift] = useState<Shift | null>(null);
+  const [staffingParticipant, setStaffingParticipant] = useState<Participant | null>(null);
+
+  const { isManager, loading: roleLoading } = useUserRole();
+  const { employees } = useSupabaseEmployees();
+  const weekEnd = useMemo(() => addDays(endOfWeek(weekStart, { weekStartsOn: 1 }), 1), [weekStart]);
+  const {
+    participants,
+    shifts,
+    isLoading,
+    createParticipant,
+    updateParticipant,
+    assignWorker,
+    removeWorker,
+    createShift,
+    assignShift,
+    unassignShift,
+    cancelShift,
+    isSavingParticipant,
+    isCreatingShift,
+  } = useRostering(weekStart, weekEnd);
+
+  const activeEmployees = employees.filter(e => e.status === 'active');
+  const openShifts = shifts.filter(s => s.status === 'open').length;
+  const assignedShifts = shifts.filter(s => s.status === 'assigned').length;
+
+  if (isLoading || roleLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-24" />
+          ))}
+        </div>
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  if (!isManager) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Rostering</h1>
+        <p className="text-muted-foreground">Rosters are managed by your managers.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Rostering</h1>
+          <p className="text-muted-foreground mt-1">
+            Shifts and participants. Workers are checked against compliance before every assignment.
+          </p>
+        </div>
+        {activeTab === 'shifts' ? (
+          <Button className="gradient-primary" onClick={() => setShiftDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Shift
+          </Button>
+        ) : (
+          <Button
+            className="gradient-primary"
+            onClick={() => {
+              setEditingParticipant(null);
+              setParticipantDialogOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Participant
+          </Button>
+        )}
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card className="card-interactive">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-warning/10">
+                <UserX className="h-5 w-5 text-warning" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{openShifts}</p>
+                <p className="text-sm text-muted-foreground">Open shifts this week</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="card-interactive">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-success/10">
+                <UserCheck className="h-5 w-5 text-success" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{assignedShifts}</p>
+                <p className="text-sm text-muted-foreground">Assigned shifts this week</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="card-interactive">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <HeartHandshake className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{participants.filter(p => p.status === 'active').length}</p>
+                <p className="text-sm text-muted-foreground">Active participants</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="shifts">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Shifts
+          </TabsTrigger>
+          <TabsTrigger value="participants">
+            <HeartHandshake className="h-4 w-4 mr-2" />
+            Participants
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="shifts" className="mt-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(subWeeks(weekStart, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="font-medium min-w-48 text-center">
+              {format(weekStart, 'd MMM')} – {format(addDays(weekStart, 6), 'd MMM yyyy')}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+            >
+              This week
+            </Button>
+          </div>
+          <ShiftRoster
+            weekStart={weekStart}
+            shifts={shifts}
+            onAssign={setAssigningShift}
+            onUnassign={unassignShift}
+            onCancel={cancelShift}
+          />
+        </TabsContent>
+
+        <TabsContent value="participants" className="mt-6">
+          <ParticipantList
+            participants={participants}
+            onEdit={(participant) => {
+              setEditingParticipant(participant);
+              setParticipantDialogOpen(true);
+            }}
+            onAddWorker={setStaffingParticipant}
+            onRemoveWorker={removeWorker}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <ShiftDialog
+        open={shiftDialogOpen}
+        onOpenChange={setShiftDialogOpen}
+        participants={participants}
+        defaultDate={weekStart}
+        saving={isCreatingShift}
+        onSave={(input) => createShift(input, { onSuccess: () => setShiftDialogOpen(false) })}
+      />
+
+      <ParticipantDialog
+        open={participantDialogOpen}
+        onOpenChange={setParticipantDialogOpen}
+        participant={editingParticipant}
+        saving={isSavingParticipant}
+        onSave={(input) => {
+          const onSuccess = () => setParticipantDialogOpen(false);
+          if (editingParticipant) {
+            updateParticipant({ participantId: editingParticipant.id, updates: input }, { onSuccess });
+          } else {
+            createParticipant(input, { onSuccess });
+          }
+        }}
+      />
+
+      {assigningShift && (
+        <AssignWorkerDialog
+          open={!!assigningShift}
+          onOpenChange={(open) => !open && setAssigningShift(null)}
+          title="Assign Shift"
+          description={`${format(new Date(assigningShift.start_time), 'EEE d MMM, HH:mm')}–${format(new Date(assigningShift.end_time), 'HH:mm')}${
+            assigningShift.participant
+              ? ` with ${assigningShift.participant.first_name} ${assigningShift.participant.last_name}`
+              : ''
+          }`}
+          contextType="shift"
+          contextId={assigningShift.id}
+          employees={activeEmployees}
+          onAssign={(employeeId) => assignShift({ shiftId: assigningShift.id, employeeId })}
+        />
+      )}
+
+      {staffingParticipant && (
+        <AssignWorkerDialog
+          open={!!staffingParticipant}
+          onOpenChange={(open) => !open && setStaffingParticipant(null)}
+          title="Add to Support Team"
+          description={`Allocate a worker to ${staffingParticipant.first_name} ${staffingParticipant.last_name}.`}
+          contextType="client"
+          contextId={staffingParticipant.id}
+          employees={activeEmployees.filter(
+            e => !(staffingParticipant.workers || []).some(w => w.employee_id === e.id)
+          )}
+          onAssign={(employeeId) => assignWorker({ participantId: staffingParticipant.id, employeeId })}
+        />
+      )}
+    </div>
+  );
+}
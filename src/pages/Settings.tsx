@@ -79,17 +79,26 @@ import {
   Download,
   Building,
   FileCheck,
+  CalendarDays,
+  Timer,
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { accessDeniedMessage } from '@/lib/errorMessages';
 import { SidebarSettingsTab } from '@/components/settings/SidebarSettingsTab';
+import { PublicHolidaysTab } from '@/components/settings/PublicHolidaysTab';
 import { CreateUserDialog } from '@/components/settings/CreateUserDialog';
+import { OverrideLimitsCard } from '@/components/settings/OverrideLimitsCard';
+import { HRCaseSlaTargetsCard } from '@/components/settings/HRCaseSlaTargetsCard';
+import { WhistleblowerPortalCard } from '@/components/settings/WhistleblowerPortalCard';
+import { WarningValidityCard } from '@/components/settings/WarningValidityCard';
 import {
   useOrganisationsManagement,
   Organisation,
 } from '@/hooks/useOrganisationsManagement';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
+import { CERTIFICATION_TYPE_OPTIONS, DEFAULT_WARNING_DAYS, certificationCode } from '@/lib/complianceRules';
+import { HOLIDAY_REGIONS } from '@/types/publicHolidays';
 
 const ROLE_CONFIG: Record<
   AppRole,
@@ -104,6 +113,19 @@ const ROLE_CONFIG: Record<
   employee: { label: 'Employee', icon: User, variant: 'outline' },
 };
 
+const complianceEmploymentTypeLabels: Record<string, string> = {
+  full_time: 'Full-Time',
+  part_time: 'Part-Time',
+  casual: 'Casual',
+  contractor: 'Contractor',
+};
+
+// Overtime thresholds must be positive; anything else switches the trigger off
+const parseThreshold = (value: string): number | null => {
+  const hours = parseFloat(value);
+  return hours > 0 ? hours : null;
+};
+
 export default function Settings() {
   const { user } = useAuth();
   const {
@@ -311,6 +333,12 @@ export default function Settings() {
   const [awardEveningMult, setAwardEveningMult] = useState('1.15');
   const [awardNightMult, setAwardNightMult] = useState('1.25');
   const [awardOvertimeMult, setAwardOvertimeMult] = useState('1.5');
+  const [awardOvertimeTier2Mult, setAwardOvertimeTier2Mult] = useState('2.0');
+  const [awardOvertimeTier1Hours, setAwardOvertimeTier1Hours] = useState('2');
+  const [awardDailyOvertimeThreshold, setAwardDailyOvertimeThreshold] =
+    useState('');
+  const [awardWeeklyOvertimeThreshold, setAwardWeeklyOvertimeThreshold] =
+    useState('');
   const [awardSubmitting, setAwardSubmitting] = useState(false);
 
   // Compliance rules state
@@ -325,6 +353,16 @@ export default function Settings() {
     useState(true);
   const [complianceRequirementCategory, setComplianceRequirementCategory] =
     useState<'Compliance' | 'Document'>('Compliance');
+  const [complianceTargetType, setComplianceTargetType] =
+    useState<'all' | 'role' | 'department' | 'location'>('all');
+  const [complianceTargetValue, setComplianceTargetValue] = useState('');
+  const [complianceCertificationType, setComplianceCertificationType] =
+    useState<string>('none');
+  const [complianceWarningDays, setComplianceWarningDays] = useState(
+    String(DEFAULT_WARNING_DAYS),
+  );
+  const [complianceEmploymentTypes, setComplianceEmploymentTypes] =
+    useState<string[]>([]);
   const [complianceSubmitting, setComplianceSubmitting] = useState(false);
 
   // Create User state
@@ -561,6 +599,14 @@ export default function Settings() {
       setAwardEveningMult(award.evening_multiplier.toString());
       setAwardNightMult(award.night_multiplier.toString());
       setAwardOvertimeMult(award.overtime_multiplier.toString());
+      setAwardOvertimeTier2Mult(award.overtime_tier2_multiplier.toString());
+      setAwardOvertimeTier1Hours(award.overtime_tier1_hours.toString());
+      setAwardDailyOvertimeThreshold(
+        award.daily_overtime_threshold_hours?.toString() || '',
+      );
+      setAwardWeeklyOvertimeThreshold(
+        award.weekly_overtime_threshold_hours?.toString() || '',
+      );
     } else {
       setEditingAward(null);
       setAwardName('');
@@ -572,6 +618,10 @@ export default function Settings() {
       setAwardEveningMult('1.15');
       setAwardNightMult('1.25');
       setAwardOvertimeMult('1.5');
+      setAwardOvertimeTier2Mult('2.0');
+      setAwardOvertimeTier1Hours('2');
+      setAwardDailyOvertimeThreshold('');
+      setAwardWeeklyOvertimeThreshold('');
     }
     setAwardDialogOpen(true);
   };
@@ -589,6 +639,11 @@ export default function Settings() {
       evening_multiplier: parseFloat(awardEveningMult),
       night_multiplier: parseFloat(awardNightMult),
       overtime_multiplier: parseFloat(awardOvertimeMult),
+      overtime_tier2_multiplier: parseFloat(awardOvertimeTier2Mult),
+      overtime_tier1_hours: Math.max(parseFloat(awardOvertimeTier1Hours) || 0, 0),
+      // Blank or zero thresholds disable that overtime trigger
+      daily_overtime_threshold_hours: parseThreshold(awardDailyOvertimeThreshold),
+      weekly_overtime_threshold_hours: parseThreshold(awardWeeklyOvertimeThreshold),
     };
 
     setAwardSubmitting(true);
@@ -612,7 +667,6 @@ export default function Settings() {
     if (!complianceRequirementName.trim()) return;
     setComplianceSubmitting(true);
 
-    const isAllRoles = selectedCompliancePosition === 'all';
     const createdDocType = await createDocumentType({
       name: complianceRequirementName.trim(),
       description: complianceRequirementDescription.trim() || null,
@@ -629,11 +683,25 @@ export default function Settings() {
       return;
     }
 
+    const targetValue =
+      complianceTargetType === 'role'
+        ? selectedCompliancePosition
+        : complianceTargetValue;
     await createComplianceRule({
       document_type_id: createdDocType.id,
-      target_type: isAllRoles ? 'all' : 'role',
-      target_value: isAllRoles ? null : selectedCompliancePosition,
-      is_required: true,
+      target_type: complianceTargetType,
+      target_value: complianceTargetType === 'all' ? null : targetValue,
+      is_required: complianceRequirementRequired,
+      // 'none' only lists the document; it isn't a certificate anyone must hold
+      certification_type:
+        complianceCertificationType === 'none'
+          ? null
+          : complianceCertificationType === 'training'
+            ? certificationCode(complianceRequirementName)
+            : complianceCertificationType,
+      employment_types:
+        complianceEmploymentTypes.length > 0 ? complianceEmploymentTypes : null,
+      warning_days: parseInt(complianceWarningDays) || 0,
       organisation_id: effectiveOrgId,
     });
 
@@ -644,8 +712,18 @@ export default function Settings() {
     setComplianceRequirementRequired(true);
     setComplianceRequirementCategory('Compliance');
     setSelectedCompliancePosition('all');
+    setComplianceTargetType('all');
+    setComplianceTargetValue('');
+    setComplianceCertificationType('none');
+    setComplianceWarningDays(String(DEFAULT_WARNING_DAYS));
+    setComplianceEmploymentTypes([]);
   };
 
+  const isComplianceTargetIncomplete =
+    (complianceTargetType === 'role' && selectedCompliancePosition === 'all') ||
+    ((complianceTargetType === 'department' || complianceTargetType === 'location') &&
+      !complianceTargetValue);
+
   const handleComplianceDelete = async (ruleId: string) => {
     await deleteComplianceRule(ruleId);
   };
@@ -830,12 +908,22 @@ export default function Settings() {
               <DollarSign className="h-4 w-4" />
               Award Classifications
             </TabsTrigger>
+            <TabsTrigger value="holidays" className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              Public Holidays
+            </TabsTrigger>
             {isAdmin && (
               <TabsTrigger value="compliance" className="flex items-center gap-2">
                 <FileCheck className="h-4 w-4" />
                 Requirements
               </TabsTrigger>
             )}
+            {isAdmin && (
+              <TabsTrigger value="hr-cases" className="flex items-center gap-2">
+                <Timer className="h-4 w-4" />
+                HR Cases
+              </TabsTrigger>
+            )}
             {isAdmin && (
               <TabsTrigger value="roles" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
@@ -1068,6 +1156,7 @@ export default function Settings() {
                         <TableHead>Eve</TableHead>
                         <TableHead>Night</TableHead>
                         <TableHead>OT</TableHead>
+                        <TableHead>OT Triggers</TableHead>
                         <TableHead className="w-[100px]">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -1101,7 +1190,21 @@ export default function Settings() {
                             ×{award.night_multiplier}
                           </TableCell>
                           <TableCell className="font-mono text-muted-foreground">
-                            ×{award.overtime_multiplier}
+                            ×{award.overtime_multiplier} / ×{award.overtime_tier2_multiplier}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {award.daily_overtime_threshold_hours || award.weekly_overtime_threshold_hours ? (
+                              <div>
+                                {award.daily_overtime_threshold_hours && (
+                                  <p>&gt;{award.daily_overtime_threshold_hours}h/day</p>
+                                )}
+                                {award.weekly_overtime_threshold_hours && (
+                                  <p>&gt;{award.weekly_overtime_threshold_hours}h/week</p>
+                                )}
+                              </div>
+                            ) : (
+                              'Manual only'
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-2">
@@ -1326,6 +1429,7 @@ export default function Settings() {
                             <TableHead>Document Name</TableHead>
                             <TableHead>Category</TableHead>
                             <TableHead>Applies To</TableHead>
+                            <TableHead>Warning</TableHead>
                             <TableHead>Required</TableHead>
                             <TableHead className="w-[100px]">Actions</TableHead>
                           </TableRow>
@@ -1341,6 +1445,16 @@ export default function Settings() {
                               </TableCell>
                               <TableCell className="text-muted-foreground">
                                 {getComplianceTargetLabel(rule.target_type, rule.target_value)}
+                                {rule.employment_types && rule.employment_types.length > 0 && (
+                                  <span className="block text-xs">
+                                    {rule.employment_types
+                                      .map((t) => complianceEmploymentTypeLabels[t] || t)
+                                      .join(', ')}
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-muted-foreground">
+                                {rule.warning_days} days
                               </TableCell>
                               <TableCell>
                                 <Badge variant={rule.is_required ? 'default' : 'secondary'}>
@@ -1367,6 +1481,16 @@ export default function Settings() {
                 )}
               </CardContent>
             </Card>
+            <OverrideLimitsCard organisationId={effectiveOrgId} />
+          </TabsContent>
+        )}
+
+        {/* HR Cases Tab - Admin Only */}
+        {isAdmin && (
+          <TabsContent value="hr-cases">
+            <HRCaseSlaTargetsCard organisationId={effectiveOrgId} />
+            <WarningValidityCard organisationId={effectiveOrgId} />
+            <WhistleblowerPortalCard organisationId={effectiveOrgId} />
           </TabsContent>
         )}
 
@@ -1575,6 +1699,11 @@ export default function Settings() {
           </TabsContent>
         )}
 
+        {/* Public Holidays Tab */}
+        <TabsContent value="holidays">
+          <PublicHolidaysTab organisationId={effectiveOrgId} canManage={isAdmin} />
+        </TabsContent>
+
         {/* Navigation Tab - Admin only */}
         {isAdmin && (
           <TabsContent value="navigation">
@@ -2087,6 +2216,75 @@ export default function Settings() {
                 </div>
               </div>
             </div>
+
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">
+                Overtime Rules
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Hours past either threshold in a pay period are paid as
+                overtime. Leave a threshold blank or 0 to disable it.
+              </p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="award-ot-daily">Daily Threshold (hrs)</Label>
+                  <Input
+                    id="award-ot-daily"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    value={awardDailyOvertimeThreshold}
+                    onChange={(e) =>
+                      setAwardDailyOvertimeThreshold(e.target.value)
+                    }
+                    placeholder="e.g., 10"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="award-ot-weekly">Weekly Threshold (hrs)</Label>
+                  <Input
+                    id="award-ot-weekly"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    value={awardWeeklyOvertimeThreshold}
+                    onChange={(e) =>
+                      setAwardWeeklyOvertimeThreshold(e.target.value)
+                    }
+                    placeholder="e.g., 38"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="award-ot-tier1">
+                    Hours at Overtime Rate (per day)
+                  </Label>
+                  <Input
+                    id="award-ot-tier1"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    value={awardOvertimeTier1Hours}
+                    onChange={(e) =>
+                      setAwardOvertimeTier1Hours(e.target.value)
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="award-ot-tier2">Then Multiplier</Label>
+                  <Input
+                    id="award-ot-tier2"
+                    type="number"
+                    step="0.01"
+                    min="1"
+                    value={awardOvertimeTier2Mult}
+                    onChange={(e) =>
+                      setAwardOvertimeTier2Mult(e.target.value)
+                    }
+                  />
+                </div>
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -2125,33 +2323,123 @@ export default function Settings() {
           <DialogHeader>
             <DialogTitle>Add Requirement</DialogTitle>
             <DialogDescription>
-              Assign a required document to a job title
+              Require a document by role, department or location
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label>Job Title</Label>
-              <Select
-                value={selectedCompliancePosition}
-                onValueChange={(val) => setSelectedCompliancePosition(val)}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a job title" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Roles</SelectItem>
-                  {positions.map((pos) => (
-                    <SelectItem key={pos.id} value={pos.name}>
-                      {pos.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {positions.length === 0 && (
-                <p className="text-xs text-muted-foreground">
-                  Add positions in the Positions tab to assign role-specific requirements.
-                </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={complianceTargetType}
+                  onValueChange={(value) => {
+                    setComplianceTargetType(value as typeof complianceTargetType);
+                    setComplianceTargetValue('');
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    <SelectItem value="role">Job Title</SelectItem>
+                    <SelectItem value="department">Department</SelectItem>
+                    <SelectItem value="location">Location</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {complianceTargetType === 'role' && (
+                <div className="space-y-2">
+                  <Label>Job Title</Label>
+                  <Select
+                    value={selectedCompliancePosition}
+                    onValueChange={(val) => setSelectedCompliancePosition(val)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a job title" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all" disabled>Select a job title</SelectItem>
+                      {positions.map((pos) => (
+                        <SelectItem key={pos.id} value={pos.name}>
+                          {pos.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               )}
+              {complianceTargetType === 'department' && (
+                <div className="space-y-2">
+                  <Label>Department</Label>
+                  <Select
+                    value={complianceTargetValue}
+                    onValueChange={setComplianceTargetValue}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a department" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {departments.map((dept) => (
+                        <SelectItem key={dept.id} value={dept.id}>
+                          {dept.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {complianceTargetType === 'location' && (
+                <div className="space-y-2">
+                  <Label>Work State</Label>
+                  <Select
+                    value={complianceTargetValue}
+                    onValueChange={setComplianceTargetValue}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOLIDAY_REGIONS.map((state) => (
+                        <SelectItem key={state} value={state}>
+                          {state}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {complianceTargetType === 'role' && positions.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add positions in the Positions tab to assign role-specific requirements.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Employment Types</Label>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(complianceEmploymentTypeLabels).map(([value, label]) => {
+                  const selected = complianceEmploymentTypes.includes(value);
+                  return (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      variant={selected ? 'default' : 'outline'}
+                      onClick={() =>
+                        setComplianceEmploymentTypes((prev) =>
+                          selected ? prev.filter((t) => t !== value) : [...prev, value],
+                        )
+                      }
+                    >
+                      {label}
+                    </Button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave all unselected to apply to every employment type.
+              </p>
             </div>
             <div className="space-y-2">
               <Label>Requirement Name *</Label>
@@ -2164,6 +2452,40 @@ export default function Settings() {
                 This will create a new document type for the requirement.
               </p>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Certificate Type</Label>
+                <Select
+                  value={complianceCertificationType}
+                  onValueChange={setComplianceCertificationType}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Document only</SelectItem>
+                    <SelectItem value="training">Training certificate (by name)</SelectItem>
+                    {CERTIFICATION_TYPE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Warning Window (days)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={complianceWarningDays}
+                  onChange={(e) => setComplianceWarningDays(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Employees show as expiring soon this many days before the certificate expires.
+            </p>
             <div className="space-y-2">
               <Label>Category</Label>
               <Select
@@ -2222,7 +2544,11 @@ export default function Settings() {
             </Button>
             <Button
               onClick={handleComplianceSubmit}
-              disabled={!complianceRequirementName.trim() || complianceSubmitting}
+              disabled={
+                !complianceRequirementName.trim() ||
+                isComplianceTargetIncomplete ||
+                complianceSubmitting
+              }
             >
               {complianceSubmitting ? (
                 <>
@@ -0,0 +1,334 @@
+import { useMemo, useState } from 'react';
+import { addWeeks, endOfWeek, format, startOfWeek, eachDayOfInterval } from 'date-fns';
+import {
+  Plus,
+  Clock,
+  CheckCircle,
+  XCircle,
+  Lock,
+  ChevronLeft,
+  ChevronRight,
+  Search,
+  Timer,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { MetricCard } from '@/components/ui/metric-card';
+import { useSupabaseTimesheets } from '@/hooks/useSupabaseTimesheets';
+import { useSupabaseEmployees } from '@/hooks/useSupabaseEmployees';
+import { useUserRole } from '@/hooks/useUserRole';
+import { TimesheetWeekGrid } from '@/components/timesheets/TimesheetWeekGrid';
+import { TimesheetDetailDialog } from '@/components/timesheets/TimesheetDetailDialog';
+import { UnlockTimesheetDialog } from '@/components/timesheets/UnlockTimesheetDialog';
+import { CreateTimesheetDialog } from '@/components/timesheets/CreateTimesheetDialog';
+import type { TimesheetDB } from '@/types/database';
+
+export default function Timesheets() {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [searchQuery, setSearchQuery] = useState('');
+  const [departmentFilter, setDepartmentFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected' | 'locked'>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [detailTimesheet, setDetailTimesheet] = useState<TimesheetDB | null>(null);
+  const [unlockTimesheetTarget, setUnlockTimesheetTarget] = useState<TimesheetDB | null>(null);
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+
+  const { isAdmin, isManager } = useUserRole();
+  const { employees, isLoading: employeesLoading } = useSupabaseEmployees();
+  const {
+    timesheets,
+    organisationId,
+    isLoading,
+    createTimesheet,
+    approveTimesheet,
+    rejectTimesheet,
+    deleteTimesheet,
+    bulkApproveTimesheets,
+    bulkRejectTimesheets,
+    unlockTimesheet,
+    isCreating,
+    isApproving,
+    isRejecting,
+    isDeleting,
+    isBulkUpdating,
+    isUnlocking,
+  } = useSupabaseTimesheets();
+
+  const weekEnd = useMemo(() => endOfWeek(weekStart, { weekStartsOn: 1 }), [weekStart]);
+  const weekDays = useMemo(
+    () => eachDayOfInterval({ start: weekStart, end: weekEnd }),
+    [weekStart, weekEnd]
+  );
+
+  const departments = useMemo(
+    () => [...new Set(employees.map(e => e.department).filter(Boolean))].sort() as string[],
+    [employees]
+  );
+
+  const weekTimesheets = useMemo(() => {
+    const start = format(weekStart, 'yyyy-MM-dd');
+    const end = format(weekEnd, 'yyyy-MM-dd');
+    return timesheets.filter(t => {
+      if (t.date < start || t.date > end) return false;
+      if (statusFilter === 'locked') return t.is_locked;
+      if (statusFilter !== 'all') return t.status === statusFilter;
+      return true;
+    });
+  }, [timesheets, weekStart, weekEnd, statusFilter]);
+
+  const visibleEmployees = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    const withEntries = new Set(weekTimesheets.map(t => t.employee_id));
+    return employees.filter(e => {
+      // Show active staff plus anyone with entries this week (e.g. recently terminated)
+      if (e.status !== 'active' && !withEntries.has(e.id)) return false;
+      if (statusFilter !== 'all' && !withEntries.has(e.id)) return false;
+      if (departmentFilter !== 'all' && e.department !== departmentFilter) return false;
+      if (query && !`${e.first_name} ${e.last_name}`.toLowerCase().includes(query)) return false;
+      return true;
+    });
+  }, [employees, weekTimesheets, searchQuery, departmentFilter, statusFilter]);
+
+  const gridTimesheets = useMemo(() => {
+    const visibleIds = new Set(visibleEmployees.map(e => e.id));
+    return weekTimesheets.filter(t => visibleIds.has(t.employee_id));
+  }, [weekTimesheets, visibleEmployees]);
+
+  const stats = useMemo(() => ({
+    pending: gridTimesheets.filter(t => t.status === 'pending').length,
+    approved: gridTimesheets.filter(t => t.status === 'approved').length,
+    locked: gridTimesheets.filter(t => t.is_locked).length,
+    totalHours: gridTimesheets.reduce((sum, t) => sum + (t.total_hours || 0), 0),
+  }), [gridTimesheets]);
+
+  const getEmployeeName = (employeeId?: string) => {
+    const emp = employees.find(e => e.id === employeeId);
+    return emp ? `${emp.first_name} ${emp.last_name}` : 'Unknown';
+  };
+
+  const changeWeek = (offset: number) => {
+    setWeekStart(prev => addWeeks(prev, offset));
+    setSelectedIds(new Set());
+  };
+
+  const handleToggleSelection = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleBulkAction = async (action: 'approve' | 'reject') => {
+    const ids = [...selectedIds];
+    if (ids.length === 0) return;
+    try {
+      if (action === 'approve') {
+        await bulkApproveTimesheets(ids);
+      } else {
+        await bulkRejectTimesheets(ids);
+      }
+    } catch {
+      // The mutation reports the failure; keep the selection so it can be retried
+      return;
+    }
+    setSelectedIds(new Set());
+  };
+
+  if (isLoading || employeesLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-40" />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-24" />
+          ))}
+        </div>
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Timesheets</h1>
+          <p className="text-muted-foreground mt-1">
+            Review, approve and lock worked hours ahead of each pay run.
+          </p>
+        </div>
+        {isManager && (
+          <Button className="gradient-primary" onClick={() => setCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Entry
+          </Button>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <MetricCard title="Pending Approval" value={stats.pending} icon={Clock} variant="warning" />
+        <MetricCard title="Approved" value={stats.approved} icon={CheckCircle} variant="success" />
+        <MetricCard title="Locked (Exported)" value={stats.locked} icon={Lock} variant="info" />
+        <MetricCard title="Total Hours" value={stats.totalHours.toFixed(1)} icon={Timer} />
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">
+                Week of {format(weekStart, 'dd MMM')} – {format(weekEnd, 'dd MMM yyyy')}
+              </CardTitle>
+              <CardDescription>
+                Click an entry to view details. Locked entries have been exported to payroll.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => changeWeek(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }));
+                  setSelectedIds(new Set());
+                }}
+              >
+                This Week
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => changeWeek(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search employees..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+              <SelectTrigger className="w-full sm:w-[200px]">
+                <SelectValue placeholder="Department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {departments.map(dept => (
+                  <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={statusFilter}
+              onValueChange={(v) => setStatusFilter(v as typeof statusFilter)}
+            >
+              <SelectTrigger className="w-full sm:w-[160px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="locked">Locked</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isManager && selectedIds.size > 0 && (
+            <div className="flex items-center justify-between rounded-lg border bg-muted/40 px-4 py-2">
+              <span className="text-sm font-medium">
+                {selectedIds.size} pending timesheet{selectedIds.size === 1 ? '' : 's'} selected
+              </span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  Clear
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive border-destructive hover:bg-destructive/10"
+                  onClick={() => handleBulkAction('reject')}
+                  disabled={isBulkUpdating}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-success hover:bg-success/90"
+                  onClick={() => handleBulkAction('approve')}
+                  disabled={isBulkUpdating}
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          <TimesheetWeekGrid
+            employees={visibleEmployees}
+            timesheets={gridTimesheets}
+            weekDays={weekDays}
+            selectedIds={selectedIds}
+            canApprove={isManager}
+            onToggleSelection={handleToggleSelection}
+            onSelectTimesheet={setDetailTimesheet}
+          />
+        </CardContent>
+      </Card>
+
+      <TimesheetDetailDialog
+        open={!!detailTimesheet}
+        onOpenChange={(open) => !open && setDetailTimesheet(null)}
+        timesheet={detailTimesheet}
+        employeeName={getEmployeeName(detailTimesheet?.employee_id)}
+        canApprove={isManager}
+        canUnlock={isAdmin}
+        onApprove={approveTimesheet}
+        onReject={rejectTimesheet}
+        onDelete={deleteTimesheet}
+        onRequestUnlock={(timesheet) => {
+          setDetailTimesheet(null);
+          setUnlockTimesheetTarget(timesheet);
+        }}
+        isProcessing={isApproving || isRejecting || isDeleting}
+      />
+
+      <UnlockTimesheetDialog
+        open={!!unlockTimesheetTarget}
+        onOpenChange={(open) => !open && setUnlockTimesheetTarget(null)}
+        timesheet={unlockTimesheetTarget}
+        employeeName={getEmployeeName(unlockTimesheetTarget?.employee_id)}
+        onUnlock={unlockTimesheet}
+        isUnlocking={isUnlocking}
+      />
+
+      <CreateTimesheetDialog
+        open={createDialogOpen}
+        onOpenChange={setCreateDialogOpen}
+        organisationId={organisationId}
+        employees={employees.filter(e => e.status === 'active')}
+        defaultDate={weekStart > new Date() ? weekStart : undefined}
+        onCreate={createTimesheet}
+        isCreating={isCreating}
+      />
+    </div>
+  );
+}
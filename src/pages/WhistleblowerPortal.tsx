@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Copy, KeyRound, Loader2, Send, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { whistleblowerService } from '@/services/whistleblowerService';
+import {
+  CASE_TYPE_LABELS,
+  WHISTLEBLOWER_STATUS_LABELS,
+  type WhistleblowerCredentials,
+  type WhistleblowerReport,
+  type WhistleblowerReportInput,
+} from '@/types/hrCases';
+
+const REPORT_TYPES: WhistleblowerReportInput['caseType'][] = ['incident', 'misconduct', 'grievance', 'complaint'];
+
+const EMPTY_REPORT: WhistleblowerReportInput = { caseType: 'incident', summary: '', description: '' };
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <div className="flex gap-2">
+        <Input readOnly value={value} className="font-mono" />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => {
+            navigator.clipboard.writeText(value);
+            toast({ title: `${label} copied` });
+          }}
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Public, unauthenticated reporting portal for an organisation. Reporters
+ * come back with the case key and passphrase issued when they report.
+ */
+export default function WhistleblowerPortal() {
+  const { organisationId = '' } = useParams<{ organisationId: string }>();
+  const [tab, setTab] = useState('report');
+  const [report, setReport] = useState<WhistleblowerReportInput>(EMPTY_REPORT);
+  const [issued, setIssued] = useState<WhistleblowerCredentials | null>(null);
+  const [credentials, setCredentials] = useState<WhistleblowerCredentials>({ caseKey: '', passphrase: '' });
+  const [status, setStatus] = useState<WhistleblowerReport | null>(null);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const { data: organisationName, isLoading, error } = useQuery({
+    queryKey: ['whistleblower-portal', organisationId],
+    queryFn: () => whistleblowerService.getPortalName(organisationId),
+    retry: false,
+  });
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await work();
+    } catch (err) {
+      toast({
+        title: 'Something went wrong',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = () =>
+    run(async () => {
+      setIssued(await whistleblowerService.submitReport(organisationId, report));
+      setReport(EMPTY_REPORT);
+    });
+
+  const handleCheck = (creds: WhistleblowerCredentials) =>
+    run(async () => {
+      setStatus(await whistleblowerService.checkReport(creds));
+    });
+
+  const handleSend = () =>
+    run(async () => {
+      setStatus(await whistleblowerService.sendMessage(credentials, message.trim()));
+      setMessage('');
+    });
+
+  const goToReport = () => {
+    if (!issued) return;
+    setCredentials(issued);
+    setIssued(null);
+    setTab('check');
+    handleCheck(issued);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !organisationName) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            This reporting portal is not available.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted py-10 px-4">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="text-center space-y-2">
+          <ShieldCheck className="h-10 w-10 mx-auto text-primary" />
+          <h1 className="text-2xl font-bold">{organisationName} Whistleblower Portal</h1>
+          <p className="text-muted-foreground">
+            Report a concern confidentially. This portal doesn't ask who you are and doesn't record it.
+            Leave your name out of the report unless you want to share it.
+          </p>
+        </div>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="report">Make a Report</TabsTrigger>
+            <TabsTrigger value="check">Check a Report</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="report">
+            {issued ? (
+              <Card className="border-primary">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    Save These Details
+                  </CardTitle>
+                  <CardDescription>
+                    Your report has been received. You need both of these to check on it or reply to
+                    the investigator. They are shown only once and can't be recovered.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <CopyField label="Case key" value={issued.caseKey} />
+                  <CopyField label="Passphrase" value={issued.passphrase} />
+                  <Button className="w-full" onClick={goToReport}>
+                    I've Saved Them, View My Report
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="case_type">What is it about?</Label>
+                    <Select
+                      value={report.caseType}
+                      onValueChange={(value) =>
+                        setReport({ ...report, caseType: value as WhistleblowerReportInput['caseType'] })
+                      }
+                    >
+                      <SelectTrigger id="case_type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPORT_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {CASE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="summary">Summary *</Label>
+                    <Input
+                      id="summary"
+                      maxLength={200}
+                      value={report.summary}
+                      onChange={(e) => setReport({ ...report, summary: e.target.value })}
+                      placeholder="A short description of the concern"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">What happened? *</Label>
+                    <Textarea
+                      id="description"
+                      maxLength={5000}
+                      rows={8}
+                      value={report.description}
+                      onChange={(e) => setReport({ ...report, description: e.target.value })}
+                      placeholder="When and where it happened, who was involved, and anything that would help an investigation"
+                    />
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={handleSubmit}
+                    disabled={busy || !report.summary.trim() || !report.description.trim()}
+                  >
+                    {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Submit Report
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="check">
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                {!status ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="case_key">Case key</Label>
+                      <Input
+                        id="case_key"
+                        className="font-mono"
+                        value={credentials.caseKey}
+                        onChange={(e) => setCredentials({ ...credentials, caseKey: e.target.value })}
+                        placeholder="WB-XXXX-XXXX-XXXX"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passphrase">Passphrase</Label>
+                      <Input
+                        id="passphrase"
+                        type="password"
+                        className="font-mono"
+                        value={credentials.passphrase}
+                        onChange={(e) => setCredentials({ ...credentials, passphrase: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      className="w-full"
+                      onClick={() => handleCheck(credentials)}
+                      disabled={busy || !credentials.caseKey.trim() || !credentials.passphrase.trim()}
+                    >
+                      {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      View Report
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{status.summary}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Submitted {format(new Date(status.submittedAt), 'dd MMM yyyy')}
+                        </p>
+                      </div>
+                      <Badge variant={status.status === 'closed' ? 'secondary' : 'default'}>
+                        {WHISTLEBLOWER_STATUS_LABELS[status.status]}
+                      </Badge>
+                    </div>
+
+                    <div className="space-y-3 border-t pt-4">
+                      {status.messages.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                          No messages yet. The investigator may contact you here with questions.
+                        </p>
+                      )}
+                      {status.messages.map((m) => (
+                        <div
+                          key={m.id}
+                          className={cn(
+                            'rounded-lg p-3 text-sm max-w-[85%]',
+                            m.sender === 'reporter' ? 'bg-primary/10 ml-auto' : 'bg-background border'
+                          )}
+                        >
+                          <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+                            <span className="font-medium">{m.sender === 'reporter' ? 'You' : 'Investigator'}</span>
+                            <span>{format(new Date(m.created_at), 'dd MMM yyyy HH:mm')}</span>
+                          </div>
+                          <p className="whitespace-pre-wrap">{m.body}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {status.status !== 'closed' && (
+                      <div className="flex gap-2">
+                        <Textarea
+                          value={message}
+                          maxLength={5000}
+                          rows={2}
+                          onChange={(e) => setMessage(e.target.value)}
+                          placeholder="Reply to the investigator..."
+                        />
+                        <Button onClick={handleSend} disabled={busy || !message.trim()} className="self-end">
+                          <Send className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+
+                    <div className="flex justify-between">
+                      <Button variant="ghost" size="sm" onClick={() => handleCheck(credentials)} disabled={busy}>
+                        Refresh
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setStatus(null);
+                          setCredentials({ caseKey: '', passphrase: '' });
+                        }}
+                      >
+                        Sign Out
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -197,6 +197,7 @@ class AuditPackService {
       date_range_end: input.date_range_end || null,
       include_restricted_content: input.include_restricted_content || false,
       include_attachments: input.include_attachments || false,
+      include_compliance_history: input.include_compliance_history || false,
       generated_by: user.id,
       generated_by_name: profile?.display_name || user.email,
       generated_by_email: user.email,
@@ -274,6 +275,7 @@ class AuditPackService {
       date_range_end: data.date_range_end as string | null,
       include_restricted_content: data.include_restricted_content as boolean,
       include_attachments: data.include_attachments as boolean,
+      include_compliance_history: (data.include_compliance_history as boolean) || false,
       generated_by: data.generated_by as string,
       generated_by_name: data.generated_by_name as string | null,
       generated_by_email: data.generated_by_email as string | null,
@@ -10,6 +10,8 @@ export type AuditAction =
   | 'certification.delete'
   | 'certification.approve'
   | 'certification.reject'
+  | 'certification.verify'
+  | 'certification.request'
   | 'timesheet.create'
   | 'timesheet.update'
   | 'timesheet.delete'
@@ -22,6 +24,19 @@ export type AuditAction =
   | 'leave.update'
   | 'leave.approve'
   | 'leave.reject'
+  | 'leave_type.update'
+  | 'leave_staffing_rule.create'
+  | 'leave_staffing_rule.update'
+  | 'leave_staffing_rule.delete'
+  | 'participant.create'
+  | 'participant.update'
+  | 'participant.assign_worker'
+  | 'participant.remove_worker'
+  | 'shift.create'
+  | 'shift.assign'
+  | 'shift.unassign'
+  | 'shift.cancel'
+  | 'course.assign'
   | 'role.assign'
   | 'role.remove'
   | 'document.upload'
@@ -30,24 +45,46 @@ export type AuditAction =
   | 'contract.create'
   | 'contract.sign'
   | 'contract.void'
+  | 'contract_template.create'
+  | 'contract_template.publish'
+  | 'contract_template.archive'
   | 'admin.override'
+  | 'compliance_override.request'
+  | 'compliance_override.approve'
+  | 'compliance_override.reject'
+  | 'compliance_override_limit.update'
+  | 'hr_case_sla_target.update'
+  | 'hr_case_intake_settings.update'
+  | 'hr_warning_validity.update'
   | 'pay_period.create'
   | 'pay_period.update'
   | 'pay_period.close'
   | 'payroll_export.generate'
-  | 'payroll_export.void';
+  | 'payroll_export.void'
+  | 'public_holiday.create'
+  | 'public_holiday.delete'
+  | 'public_holiday.import'
+  | 'employee_bank_account.update'
+  | 'payroll_bank_settings.update';
 
 export type EntityType = 
   | 'employee'
   | 'certification'
   | 'timesheet'
   | 'leave_request'
+  | 'leave_type'
+  | 'leave_staffing_rule'
+  | 'participant'
+  | 'shift'
   | 'document'
   | 'contract'
+  | 'contract_template'
   | 'role'
   | 'setting'
   | 'pay_period'
-  | 'payroll_export';
+  | 'payroll_export'
+  | 'public_holiday'
+  | 'employee_bank_account';
 
 interface AuditLogEntry {
   action: AuditAction;
@@ -118,6 +155,41 @@ class AuditService {
     }
   }
 
+  /**
+   * Logs several actions by the current user in one write, e.g. for a bulk
+   * action across many employees. Never throws, like log().
+   */
+  async logMany(entries: AuditLogEntry[]): Promise<boolean> {
+    if (entries.length === 0) return true;
+    try {
+      const user = await this.getCurrentUser();
+
+      const { error } = await supabase
+        .from('audit_logs')
+        .insert(entries.map(entry => ({
+          action: entry.action,
+          entity_type: entry.entityType,
+          entity_id: entry.entityId,
+          organisation_id: entry.organisationId || null,
+          user_id: user?.id || null,
+          user_email: user?.email || null,
+          user_name: user?.name || null,
+          old_values: entry.beforeState ? JSON.parse(JSON.stringify(entry.beforeState)) : null,
+          new_values: entry.afterState ? JSON.parse(JSON.stringify(entry.afterState)) : null,
+        })));
+
+      if (error) {
+        console.error('[AuditService] Failed to write audit logs:', error);
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      console.error('[AuditService] Unexpected error writing audit logs:', err);
+      return false;
+    }
+  }
+
   /**
    * Convenience method for employee-related actions
    */
@@ -142,7 +214,7 @@ class AuditService {
    * Convenience method for certification-related actions
    */
   async logCertificationAction(
-    action: 'create' | 'update' | 'delete' | 'approve' | 'reject',
+    action: 'create' | 'update' | 'delete' | 'approve' | 'reject' | 'verify',
     certificationId: string,
     organisationId?: string,
     beforeState?: Record<string, unknown>,
@@ -1,20 +1,19 @@
 import { supabase } from '@/integrations/supabase/client';
+import { endOfDay, format, parseISO } from 'date-fns';
 import { auditService } from './auditService';
-
-// Required certifications for NDIS compliance
-export const REQUIRED_CERTIFICATIONS = [
-  'police_check',
-  'ndis_screening',
-  'first_aid',
-  'cpr',
-  'wwcc',
-] as const;
-
-export type RequiredCertificationType = typeof REQUIRED_CERTIFICATIONS[number];
+import { resolveRequirements, type ResolvedRequirement } from '@/lib/complianceRules';
+import { requirementCodeLabel } from '@/lib/rostering';
+import { maxOverrideDays, overrideReviewBlocker } from '@/lib/complianceOverrides';
+import { verificationProblem, type VerificationMethod } from '@/lib/certificationVerification';
+import {
+  latestRecord,
+  type ComplianceSnapshotStatus,
+  type TrendSnapshot,
+} from '@/lib/complianceHistory';
 
 export interface CertificationStatus {
   type: string;
-  status: 'missing' | 'expired' | 'expiring_soon' | 'valid' | 'rejected' | 'pending';
+  status: 'missing' | 'expired' | 'expiring_soon' | 'valid' | 'rejected' | 'pending' | 'unverified';
   expiryDate?: string;
   daysUntilExpiry?: number;
 }
@@ -30,6 +29,7 @@ export interface ComplianceResult {
     reason: string;
     expiresAt: string;
     overrideBy: string;
+    approvedBy?: string;
   };
   evaluatedAt: string;
 }
@@ -39,6 +39,7 @@ export interface EvaluationContext {
   contextId?: string;
   requiresDriving?: boolean;
   additionalRequirements?: string[];
+  workerGender?: 'female' | 'male';
 }
 
 export interface OverrideRequest {
@@ -50,11 +51,80 @@ export interface OverrideRequest {
   blockedCertifications: CertificationStatus[];
 }
 
+export interface CertificationVerificationInput {
+  certificationId: string;
+  method: VerificationMethod;
+  referenceNumber?: string;
+  verifiedOn: string;
+  documentId?: string | null;
+  notes?: string;
+}
+
+export interface PointInTimeCompliance {
+  employeeId: string;
+  asAt: string;
+  status: ComplianceSnapshotStatus;
+  compliant: boolean;
+  overrideActive: boolean;
+  blockingReasons: CertificationStatus[];
+  expiringSoon: CertificationStatus[];
+  // When the underlying record was made, and whether it was the daily
+  // snapshot or a status change event
+  recordedAt: string;
+  source: 'snapshot' | 'event';
+}
+
 /**
  * Compliance Enforcement Service
  * Provides centralized compliance evaluation and override management
  */
 class ComplianceService {
+  /**
+   * Resolve the certificates each employee must hold from their
+   * organisation's compliance rules. Returns null if the rules can't be read.
+   */
+  async getRequirements(
+    employeeIds: string[],
+    context?: EvaluationContext
+  ): Promise<Map<string, ResolvedRequirement[]> | null> {
+    const requirements = new Map<string, ResolvedRequirement[]>();
+    if (employeeIds.length === 0) return requirements;
+
+    const { data: employees, error: employeeError } = await supabase
+      .from('employees')
+      .select('id, organisation_id, position, department, work_state, employment_type')
+      .in('id', employeeIds);
+
+    if (employeeError) {
+      console.error('[ComplianceService] Failed to fetch employees:', employeeError);
+      return null;
+    }
+
+    const organisationIds = [...new Set((employees || []).map(e => e.organisation_id))];
+    const [{ data: rules, error: rulesError }, { data: departments }] = await Promise.all([
+      supabase
+        .from('compliance_rules')
+        .select('*, document_type:document_types(name, is_active)')
+        .in('organisation_id', organisationIds),
+      supabase.from('departments').select('id, name'),
+    ]);
+
+    if (rulesError) {
+      console.error('[ComplianceService] Failed to fetch compliance rules:', rulesError);
+      return null;
+    }
+
+    for (const employee of employees || []) {
+      const employeeRules = (rules || []).filter(r => r.organisation_id === employee.organisation_id);
+      requirements.set(
+        employee.id,
+        resolveRequirements(employeeRules, employee, departments || [], context)
+      );
+    }
+
+    return requirements;
+  }
+
   /**
    * Evaluate employee compliance status
    * This calls the edge function for server-side validation
@@ -101,6 +171,93 @@ class ComplianceService {
     return data as ComplianceResult;
   }
 
+  /**
+   * Evaluate compliance on past dates, e.g. for shifts already worked.
+   * Mirrors the evaluate-compliance rules against each date instead of today:
+   * a certification counts if it was issued on or before the date, had not
+   * expired and has been verified, and an override counts if it was in force
+   * on the date.
+   * Returns blocking reasons keyed by `${employeeId}|${date}`; compliant
+   * (or overridden) employee-dates are omitted.
+   */
+  async evaluateComplianceOnDates(
+    checks: { employeeId: string; date: string }[]
+  ): Promise<Map<string, CertificationStatus[]>> {
+    const results = new Map<string, CertificationStatus[]>();
+    const employeeIds = [...new Set(checks.map(c => c.employeeId))];
+    if (employeeIds.length === 0) return results;
+
+    const [requirements, { data: certifications, error: certError }, { data: overrides }] = await Promise.all([
+      this.getRequirements(employeeIds, { contextType: 'shift' }),
+      supabase
+        .from('employee_certifications')
+        .select('employee_id, type, status, issue_date, expiry_date, verification_id')
+        .in('employee_id', employeeIds),
+      supabase
+        .from('compliance_overrides')
+        .select('employee_id, context_type, created_at, reviewed_at, expires_at')
+        .in('employee_id', employeeIds)
+        .eq('approval_status', 'approved')
+        .in('context_type', ['general', 'shift']),
+    ]);
+
+    if (certError || !requirements) {
+      console.error('[ComplianceService] Historical evaluation failed:', certError);
+      // Fail closed - flag every date as unverifiable
+      for (const check of checks) {
+        results.set(`${check.employeeId}|${check.date}`, [{ type: 'system_error', status: 'missing' }]);
+      }
+      return results;
+    }
+
+    for (const { employeeId, date } of checks) {
+      const overridden = (overrides || []).some(
+        o =>
+          o.employee_id === employeeId &&
+          (o.reviewed_at || o.created_at).slice(0, 10) <= date &&
+          o.expires_at.slice(0, 10) >= date
+      );
+      if (overridden) continue;
+
+      const employeeCerts = (certifications || []).filter(c => c.employee_id === employeeId);
+      const blockingReasons: CertificationStatus[] = [];
+
+      for (const { type: requiredType } of requirements.get(employeeId) || []) {
+        // Renewals leave several certificates of a type; any one valid on the date will do
+        const candidates = employeeCerts.filter(
+          c =>
+            c.type.toLowerCase() === requiredType &&
+            (!c.issue_date || c.issue_date <= date)
+        );
+        const current = candidates.filter(
+          c => c.status !== 'pending' && (!c.expiry_date || c.expiry_date >= date)
+        );
+        if (current.some(c => c.verification_id)) continue;
+
+        if (candidates.length === 0) {
+          blockingReasons.push({ type: requiredType, status: 'missing' });
+        } else if (candidates.every(c => c.status === 'pending')) {
+          blockingReasons.push({ type: requiredType, status: 'pending' });
+        } else if (current.length > 0) {
+          blockingReasons.push({ type: requiredType, status: 'unverified' });
+        } else {
+          const latestExpiry = candidates
+            .map(c => c.expiry_date)
+            .filter((d): d is string => !!d)
+            .sort()
+            .pop();
+          blockingReasons.push({ type: requiredType, status: 'expired', expiryDate: latestExpiry });
+        }
+      }
+
+      if (blockingReasons.length > 0) {
+        results.set(`${employeeId}|${date}`, blockingReasons);
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Check if assignment is allowed (considers overrides)
    */
@@ -119,7 +276,7 @@ class ComplianceService {
   /**
    * Create a compliance override (Admin/Director only)
    */
-  async createOverride(request: OverrideRequest): Promise<{ success: boolean; error?: string }> {
+  async createOverride(request: OverrideRequest): Promise<{ success: boolean; overrideId?: string; error?: string }> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
@@ -133,17 +290,10 @@ class ComplianceService {
         .eq('user_id', user.id)
         .maybeSingle();
 
-      // Verify user has admin or director role
+      // Coordinators request overrides; a second admin approves them
       const { data: roleData } = await supabase.rpc('get_user_role', { _user_id: user.id });
-      if (!roleData || !['admin', 'director'].includes(roleData)) {
-        return { success: false, error: 'Only Admin or Director can create compliance overrides' };
-      }
-
-      // Validate expiry is within 14 days
-      const maxExpiry = new Date();
-      maxExpiry.setDate(maxExpiry.getDate() + 14);
-      if (request.expiresAt > maxExpiry) {
-        return { success: false, error: 'Override expiry cannot exceed 14 days' };
+      if (!roleData || !['admin', 'director', 'manager'].includes(roleData)) {
+        return { success: false, error: 'Only coordinators and admins can request compliance overrides' };
       }
 
       // Get employee's organisation
@@ -157,7 +307,16 @@ class ComplianceService {
         return { success: false, error: 'Employee not found' };
       }
 
-      // Create the override using raw insert to bypass type issues with new table
+      // Validate expiry against the shortest limit of the certificates covered
+      const limits = await this.getOverrideLimits(employee.organisation_id);
+      const maxDays = maxOverrideDays(request.blockedCertifications.map(c => c.type), limits);
+      const maxExpiry = new Date();
+      maxExpiry.setDate(maxExpiry.getDate() + maxDays);
+      if (request.expiresAt > maxExpiry) {
+        return { success: false, error: `Override expiry cannot exceed ${maxDays} days for these certifications` };
+      }
+
+      // Create the override request using raw insert to bypass type issues with new table
       const { data: override, error: insertError } = await supabase
         .from('compliance_overrides')
         .insert([{
@@ -167,7 +326,7 @@ class ComplianceService {
           override_by_name: profile?.display_name || user.email || 'Unknown',
           override_by_email: user.email || '',
           reason: request.reason,
-          blocked_certifications: JSON.stringify(request.blockedCertifications),
+          blocked_certifications: request.blockedCertifications,
           context_type: request.contextType,
           context_id: request.contextId || null,
           expires_at: request.expiresAt.toISOString(),
@@ -180,14 +339,15 @@ class ComplianceService {
         return { success: false, error: insertError.message };
       }
 
-      // Audit log the override
+      // Audit log the request
       await auditService.log({
-        action: 'admin.override',
+        action: 'compliance_override.request',
         entityType: 'employee',
         entityId: request.employeeId,
         organisationId: employee.organisation_id,
         afterState: {
           override_id: override.id,
+          approval_status: 'pending',
           reason: request.reason,
           expires_at: request.expiresAt.toISOString(),
           blocked_certifications: request.blockedCertifications,
@@ -195,13 +355,199 @@ class ComplianceService {
         },
       });
 
-      return { success: true };
+      return { success: true, overrideId: override.id };
     } catch (err) {
       console.error('[ComplianceService] Override creation error:', err);
       return { success: false, error: 'Failed to create override' };
     }
   }
 
+  /**
+   * Approve or reject a pending override. The approver must be an admin
+   * other than the requester; the database enforces the same rule.
+   */
+  async reviewOverride(
+    overrideId: string,
+    decision: 'approved' | 'rejected',
+    notes?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const [{ data: roleData }, { data: profile }, { data: existingOverride }] = await Promise.all([
+        supabase.rpc('get_user_role', { _user_id: user.id }),
+        supabase.from('profiles').select('display_name').eq('user_id', user.id).maybeSingle(),
+        supabase.from('compliance_overrides').select('*').eq('id', overrideId).maybeSingle(),
+      ]);
+
+      if (!existingOverride) {
+        return { success: false, error: 'Override not found' };
+      }
+
+      const blocker = overrideReviewBlocker(existingOverride, {
+        userId: user.id,
+        isAdmin: !!roleData && ['admin', 'director'].includes(roleData),
+      });
+      if (blocker) {
+        return { success: false, error: blocker };
+      }
+
+      const { error: updateError } = await supabase
+        .from('compliance_overrides')
+        .update({
+          approval_status: decision,
+          reviewed_by: user.id,
+          reviewed_by_name: profile?.display_name || user.email || 'Unknown',
+          reviewed_by_email: user.email || '',
+          review_notes: notes?.trim() || null,
+          // A rejected request is closed for good
+          ...(decision === 'rejected' && { is_active: false }),
+        })
+        .eq('id', overrideId);
+
+      if (updateError) {
+        console.error('[ComplianceService] Override review failed:', updateError);
+        return { success: false, error: updateError.message };
+      }
+
+      await auditService.log({
+        action: decision === 'approved' ? 'compliance_override.approve' : 'compliance_override.reject',
+        entityType: 'employee',
+        entityId: existingOverride.employee_id,
+        organisationId: existingOverride.organisation_id,
+        beforeState: { override_id: overrideId, approval_status: 'pending' },
+        afterState: {
+          override_id: overrideId,
+          approval_status: decision,
+          requested_by: existingOverride.override_by_name,
+          reviewed_by: profile?.display_name || user.email,
+          review_notes: notes?.trim() || null,
+        },
+      });
+
+      return { success: true };
+    } catch (err) {
+      console.error('[ComplianceService] Override review error:', err);
+      return { success: false, error: 'Failed to review override' };
+    }
+  }
+
+  /**
+   * Get override requests waiting for approval, oldest first
+   */
+  async getPendingOverrides() {
+    const { data, error } = await supabase
+      .from('compliance_overrides')
+      .select('*, employee:employees(first_name, last_name)')
+      .eq('approval_status', 'pending')
+      .eq('is_active', true)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[ComplianceService] Failed to fetch pending overrides:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the live override request for an employee in a context, if any,
+   * whether or not it has been approved yet
+   */
+  async getOverrideRequest(
+    employeeId: string,
+    contextType: EvaluationContext['contextType'],
+    contextId?: string
+  ) {
+    let query = supabase
+      .from('compliance_overrides')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('context_type', contextType)
+      .eq('is_active', true)
+      .in('approval_status', ['pending', 'approved'])
+      .gt('expires_at', new Date().toISOString());
+    query = contextId ? query.eq('context_id', contextId) : query.is('context_id', null);
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(1).maybeSingle();
+
+    if (error) {
+      console.error('[ComplianceService] Failed to fetch override request:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the organisation's maximum override length per certificate type
+   */
+  async getOverrideLimits(organisationId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('compliance_override_limits')
+      .select('certification_type, max_days')
+      .eq('organisation_id', organisationId);
+
+    if (error) {
+      console.error('[ComplianceService] Failed to fetch override limits:', error);
+      throw error;
+    }
+
+    return Object.fromEntries((data || []).map(l => [l.certification_type.toLowerCase(), l.max_days]));
+  }
+
+  /**
+   * The longest override that may be requested for an employee covering the
+   * given certificate types
+   */
+  async getMaxOverrideDays(employeeId: string, blockedTypes: string[]): Promise<number> {
+    const { data: employee } = await supabase
+      .from('employees')
+      .select('organisation_id')
+      .eq('id', employeeId)
+      .maybeSingle();
+
+    if (!employee) return maxOverrideDays(blockedTypes, {});
+    return maxOverrideDays(blockedTypes, await this.getOverrideLimits(employee.organisation_id));
+  }
+
+  /**
+   * Set or clear (maxDays null) the maximum override length for a certificate type
+   */
+  async setOverrideLimit(organisationId: string, certificationType: string, maxDays: number | null) {
+    const type = certificationType.toLowerCase();
+    const { error } = maxDays === null
+      ? await supabase
+          .from('compliance_override_limits')
+          .delete()
+          .eq('organisation_id', organisationId)
+          .eq('certification_type', type)
+      : await supabase
+          .from('compliance_override_limits')
+          .upsert(
+            { organisation_id: organisationId, certification_type: type, max_days: maxDays },
+            { onConflict: 'organisation_id,certification_type' }
+          );
+
+    if (error) {
+      console.error('[ComplianceService] Failed to save override limit:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'compliance_override_limit.update',
+      entityType: 'setting',
+      entityId: organisationId,
+      organisationId,
+      afterState: { certification_type: type, max_days: maxDays },
+    });
+  }
+
   /**
    * Revoke an active override
    */
@@ -264,6 +610,7 @@ class ComplianceService {
       .select('*')
       .eq('employee_id', employeeId)
       .eq('is_active', true)
+      .eq('approval_status', 'approved')
       .gt('expires_at', new Date().toISOString())
       .order('created_at', { ascending: false });
 
@@ -275,6 +622,311 @@ class ComplianceService {
     return data || [];
   }
 
+  /**
+   * Verification trail for an employee's certifications, newest first
+   */
+  async getCertificationVerifications(employeeId: string) {
+    const { data, error } = await supabase
+      .from('certification_verifications')
+      .select('*, document:employee_documents(file_name, file_url)')
+      .eq('employee_id', employeeId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[ComplianceService] Failed to fetch certification verifications:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record that a certification was checked at its source. The certification
+   * counts towards compliance from then until its details change.
+   */
+  async verifyCertification(
+    input: CertificationVerificationInput
+  ): Promise<{ success: boolean; verificationId?: string; error?: string }> {
+    const problem = verificationProblem(input, format(new Date(), 'yyyy-MM-dd'));
+    if (problem) return { success: false, error: problem };
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const [{ data: profile }, { data: certification }] = await Promise.all([
+      supabase.from('profiles').select('display_name').eq('user_id', user.id).maybeSingle(),
+      supabase
+        .from('employee_certifications')
+        .select('id, organisation_id, employee_id, name, type, expiry_date')
+        .eq('id', input.certificationId)
+        .maybeSingle(),
+    ]);
+
+    if (!certification) {
+      return { success: false, error: 'Certification not found' };
+    }
+
+    const { data: verification, error } = await supabase
+      .from('certification_verifications')
+      .insert({
+        organisation_id: certification.organisation_id,
+        employee_id: certification.employee_id,
+        certification_id: certification.id,
+        method: input.method,
+        reference_number: input.referenceNumber?.trim() || null,
+        verified_on: input.verifiedOn,
+        verified_by: user.id,
+        verified_by_name: profile?.display_name || user.email || 'Unknown',
+        document_id: input.documentId || null,
+        notes: input.notes?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error || !verification) {
+      console.error('[ComplianceService] Failed to verify certification:', error);
+      return { success: false, error: error?.message || 'Failed to verify certification' };
+    }
+
+    await auditService.logCertificationAction(
+      'verify',
+      certification.id,
+      certification.organisation_id,
+      undefined,
+      {
+        name: certification.name,
+        type: certification.type,
+        expiry_date: certification.expiry_date,
+        method: verification.method,
+        reference_number: verification.reference_number,
+        verified_on: verification.verified_on,
+        document_id: verification.document_id,
+      }
+    );
+
+    return { success: true, verificationId: verification.id };
+  }
+
+  /**
+   * Whether an employee was compliant at a point in time, from the recorded
+   * history. A date without a time means the end of that day. Returns null
+   * when nothing had been recorded for the employee by then.
+   */
+  async getComplianceAt(employeeId: string, date: Date | string): Promise<PointInTimeCompliance | null> {
+    const asAt = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? endOfDay(parseISO(date))
+      : new Date(date);
+
+    const [{ data: snapshot, error: snapshotError }, { data: event, error: eventError }] = await Promise.all([
+      supabase
+        .from('compliance_snapshots')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .lte('evaluated_at', asAt.toISOString())
+        .order('evaluated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('compliance_status_events')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .lte('occurred_at', asAt.toISOString())
+        .order('occurred_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (snapshotError || eventError) {
+      console.error('[ComplianceService] Failed to fetch compliance history:', snapshotError || eventError);
+      throw snapshotError || eventError;
+    }
+
+    const record = latestRecord(
+      snapshot ? { ...snapshot, recordedAt: snapshot.evaluated_at, source: 'snapshot' as const } : null,
+      event ? { ...event, recordedAt: event.occurred_at, source: 'event' as const } : null
+    );
+    if (!record) return null;
+
+    return {
+      employeeId,
+      asAt: asAt.toISOString(),
+      status: record.status as ComplianceSnapshotStatus,
+      compliant: record.compliant,
+      overrideActive: record.override_active,
+      blockingReasons: record.blocking_reasons as unknown as CertificationStatus[],
+      expiringSoon: record.expiring_soon as unknown as CertificationStatus[],
+      recordedAt: record.recordedAt,
+      source: record.source,
+    };
+  }
+
+  /**
+   * Daily snapshots between two dates (inclusive) with each employee's
+   * department, for trend charts
+   */
+  async getComplianceTrend(from: string, to: string): Promise<TrendSnapshot[]> {
+    const { data, error } = await supabase
+      .from('compliance_snapshots')
+      .select('snapshot_date, status, employee:employees(department)')
+      .gte('snapshot_date', from)
+      .lte('snapshot_date', to)
+      .order('snapshot_date');
+
+    if (error) {
+      console.error('[ComplianceService] Failed to fetch compliance trend:', error);
+      throw error;
+    }
+
+    return (data || []).map((row) => ({
+      snapshot_date: row.snapshot_date,
+      status: row.status as ComplianceSnapshotStatus,
+      department: row.employee?.department ?? null,
+    }));
+  }
+
+  /**
+   * Get the expiry alerts sent by the nightly digest, newest first
+   */
+  async getExpiryAlerts(limit = 200) {
+    const { data, error } = await supabase
+      .from('compliance_alert_log')
+      .select('*, employee:employees(first_name, last_name, department)')
+      .order('sent_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[ComplianceService] Failed to fetch expiry alerts:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Login user ids for employees, keyed by employee id. Employees without a
+   * login are left out.
+   */
+  private async getEmployeeUserIds(employeeIds: string[]): Promise<Map<string, string>> {
+    const { data, error } = await supabase.rpc('get_employee_user_ids', { _employee_ids: employeeIds });
+    if (error) {
+      console.error('[ComplianceService] Failed to look up employee logins:', error);
+      throw error;
+    }
+    return new Map((data || []).map(row => [row.employee_id, row.user_id]));
+  }
+
+  /**
+   * Ask employees for the compliance documents they need to supply. Each
+   * employee with a login gets one notification listing the certificates.
+   * Returns the employees who couldn't be notified.
+   */
+  async requestComplianceDocuments(
+    requests: { employeeId: string; organisationId: string; certificates: string[] }[]
+  ): Promise<{ notified: number; withoutLogin: string[] }> {
+    const pending = requests.filter(r => r.certificates.length > 0);
+    if (pending.length === 0) return { notified: 0, withoutLogin: [] };
+
+    const userIds = await this.getEmployeeUserIds(pending.map(r => r.employeeId));
+    const reachable = pending.filter(r => userIds.has(r.employeeId));
+
+    if (reachable.length > 0) {
+      const { error } = await supabase.from('notifications').insert(
+        reachable.map(r => ({
+          user_id: userIds.get(r.employeeId)!,
+          title: 'Compliance documents needed',
+          message: `Please upload current copies of: ${r.certificates.join(', ')}.`,
+          type: 'compliance',
+          category: 'compliance',
+          link: '/portal/documents',
+          is_read: false,
+        }))
+      );
+      if (error) {
+        console.error('[ComplianceService] Failed to request documents:', error);
+        throw error;
+      }
+
+      await auditService.logMany(
+        reachable.map(r => ({
+          action: 'certification.request' as const,
+          entityType: 'employee' as const,
+          entityId: r.employeeId,
+          organisationId: r.organisationId,
+          afterState: { certificates: r.certificates },
+        }))
+      );
+    }
+
+    return {
+      notified: reachable.length,
+      withoutLogin: pending.filter(r => !userIds.has(r.employeeId)).map(r => r.employeeId),
+    };
+  }
+
+  /**
+   * Assign a renewal course to employees. Anyone already part-way through or
+   * yet to start the course is skipped. Returns how many were assigned and
+   * the employees without a login.
+   */
+  async assignRenewalCourse(
+    employees: { employeeId: string; organisationId: string }[],
+    courseId: string,
+    dueDate: string | null
+  ): Promise<{ assigned: number; alreadyAssigned: number; withoutLogin: string[] }> {
+    const userIds = await this.getEmployeeUserIds(employees.map(e => e.employeeId));
+    const reachable = employees.filter(e => userIds.has(e.employeeId));
+    const withoutLogin = employees.filter(e => !userIds.has(e.employeeId)).map(e => e.employeeId);
+    if (reachable.length === 0) return { assigned: 0, alreadyAssigned: 0, withoutLogin };
+
+    // Checked in batches to keep the request URL short for large selections
+    const busy = new Set<string>();
+    const reachableUserIds = reachable.map(e => userIds.get(e.employeeId)!);
+    for (let i = 0; i < reachableUserIds.length; i += 100) {
+      const { data: existing, error: existingError } = await supabase
+        .from('user_course_assignments')
+        .select('user_id')
+        .eq('course_id', courseId)
+        .in('status', ['assigned', 'in_progress'])
+        .in('user_id', reachableUserIds.slice(i, i + 100));
+
+      if (existingError) {
+        console.error('[ComplianceService] Failed to check course assignments:', existingError);
+        throw existingError;
+      }
+      for (const assignment of existing || []) busy.add(assignment.user_id);
+    }
+
+    const toAssign = reachable.filter(e => !busy.has(userIds.get(e.employeeId)!));
+
+    if (toAssign.length > 0) {
+      const { error } = await supabase.from('user_course_assignments').insert(
+        toAssign.map(e => ({
+          user_id: userIds.get(e.employeeId)!,
+          course_id: courseId,
+          due_date: dueDate,
+        }))
+      );
+      if (error) {
+        console.error('[ComplianceService] Failed to assign renewal course:', error);
+        throw error;
+      }
+
+      await auditService.logMany(
+        toAssign.map(e => ({
+          action: 'course.assign' as const,
+          entityType: 'employee' as const,
+          entityId: e.employeeId,
+          organisationId: e.organisationId,
+          afterState: { course_id: courseId, due_date: dueDate },
+        }))
+      );
+    }
+
+    return { assigned: toAssign.length, alreadyAssigned: reachable.length - toAssign.length, withoutLogin };
+  }
+
   /**
    * Get human-readable certification name
    */
@@ -288,8 +940,9 @@ class ComplianceService {
       drivers_license: "Driver's License",
       wwcc_vic: 'WWCC Victoria',
       wwcc_nsw: 'WWCC NSW',
+      worker_gender: 'Worker gender (participant requirement)',
     };
-    return names[type.toLowerCase()] || type;
+    return names[type.toLowerCase()] || requirementCodeLabel(type);
   }
 
   /**
@@ -305,6 +958,8 @@ class ComplianceService {
         return { label: 'Rejected', variant: 'destructive' };
       case 'pending':
         return { label: 'Pending Approval', variant: 'outline' };
+      case 'unverified':
+        return { label: 'Not Verified', variant: 'destructive' };
       case 'expiring_soon':
         return { label: 'Expiring Soon', variant: 'outline' };
       default:
@@ -0,0 +1,35 @@
+/**
+ * Contract Signing Service
+ * The public signing page, served by the contract-signing edge function so
+ * signers can sign from the link emailed to them without an account.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { SigningRequest } from '@/types/contracts';
+
+class ContractSigningService {
+  private async call(body: Record<string, unknown>): Promise<SigningRequest> {
+    const { data, error } = await supabase.functions.invoke('contract-signing', { body });
+
+    if (error) {
+      // The function explains rejections (invalid link, out of turn) in its body
+      const detail = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      throw new Error(detail?.error || 'The signing service is unavailable. Please try again.');
+    }
+
+    return data as SigningRequest;
+  }
+
+  async loadSigningRequest(token: string): Promise<SigningRequest> {
+    return this.call({ action: 'load', token });
+  }
+
+  async sign(token: string, signatureData: string, signatureType: 'drawn' | 'typed'): Promise<SigningRequest> {
+    return this.call({ action: 'sign', token, signatureData, signatureType });
+  }
+}
+
+export const contractSigningService = new ContractSigningService();
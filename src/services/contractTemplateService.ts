@@ -0,0 +1,223 @@
+/**
+ * Contract Template Service
+ * The organisation's contract template library. Templates are edited by
+ * publishing a new version; published versions are never changed.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { auditService } from '@/services/auditService';
+import { unknownMergeFields, type MergeSource } from '@/lib/contractTemplates';
+import type { ContractTemplate, ContractTemplateVersion } from '@/types/contracts';
+
+/**
+ * Everything a template's merge fields are filled from except the
+ * contract's own terms, which come from the contract form.
+ */
+export type MergeContext = Omit<MergeSource, 'contract' | 'today'>;
+
+class ContractTemplateService {
+  // =====================================================
+  // Templates
+  // =====================================================
+
+  async listTemplates(organisationId: string): Promise<ContractTemplate[]> {
+    const { data, error } = await supabase
+      .from('contract_templates')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('name');
+
+    if (error) throw error;
+    return (data || []) as ContractTemplate[];
+  }
+
+  async getVersions(templateId: string): Promise<ContractTemplateVersion[]> {
+    const { data, error } = await supabase
+      .from('contract_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as ContractTemplateVersion[];
+  }
+
+  async getLatestVersion(template: ContractTemplate): Promise<ContractTemplateVersion> {
+    const { data, error } = await supabase
+      .from('contract_template_versions')
+      .select('*')
+      .eq('template_id', template.id)
+      .eq('version_number', template.current_version)
+      .single();
+
+    if (error) throw error;
+    return data as ContractTemplateVersion;
+  }
+
+  /**
+   * Creates the template with its first version.
+   */
+  async createTemplate(
+    organisationId: string,
+    input: { name: string; description?: string; content: string }
+  ): Promise<ContractTemplate> {
+    this.assertMergeFields(input.content);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('contract_templates')
+      .insert({
+        organisation_id: organisationId,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        created_by_user_id: user?.id || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`There is already a template called ${input.name.trim()}`);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'contract_template.create',
+      entityType: 'contract_template',
+      entityId: data.id,
+      organisationId,
+      afterState: { name: data.name },
+    });
+
+    await this.publishVersion(data as ContractTemplate, input.content, 'First version');
+    return { ...(data as ContractTemplate), current_version: 1 };
+  }
+
+  /**
+   * Publishes new content as the template's next version. The database
+   * numbers it (number_contract_template_version).
+   */
+  async publishVersion(
+    template: ContractTemplate,
+    content: string,
+    changeNote?: string
+  ): Promise<ContractTemplateVersion> {
+    this.assertMergeFields(content);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data: profile } = user
+      ? await supabase.from('profiles').select('display_name').eq('user_id', user.id).maybeSingle()
+      : { data: null };
+
+    const { data, error } = await supabase
+      .from('contract_template_versions')
+      .insert({
+        template_id: template.id,
+        organisation_id: template.organisation_id,
+        content: content.trim(),
+        change_note: changeNote?.trim() || null,
+        created_by_user_id: user?.id || null,
+        created_by_name: profile?.display_name || user?.email || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[ContractTemplateService] Failed to publish version:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'contract_template.publish',
+      entityType: 'contract_template',
+      entityId: template.id,
+      organisationId: template.organisation_id,
+      afterState: { name: template.name, version_number: data.version_number, change_note: data.change_note },
+    });
+
+    return data as ContractTemplateVersion;
+  }
+
+  /**
+   * Archived templates can't be used for new contracts. Contracts already
+   * generated from them keep their version.
+   */
+  async archiveTemplate(template: ContractTemplate): Promise<void> {
+    const { error } = await supabase
+      .from('contract_templates')
+      .update({ is_archived: true })
+      .eq('id', template.id);
+
+    if (error) throw error;
+
+    await auditService.log({
+      action: 'contract_template.archive',
+      entityType: 'contract_template',
+      entityId: template.id,
+      organisationId: template.organisation_id,
+      afterState: { name: template.name, current_version: template.current_version },
+    });
+  }
+
+  // =====================================================
+  // Merge fields
+  // =====================================================
+
+  /**
+   * Looks up the employee by email, their award classification, the
+   * position by name and the organisation's name.
+   */
+  async getMergeContext(organisationId: string, employeeEmail: string, positionName: string): Promise<MergeContext> {
+    const [employeeResult, positionResult, organisationResult] = await Promise.all([
+      supabase
+        .from('employees')
+        .select('first_name, last_name, department, employment_type, start_date, pay_rate, award_classification_id')
+        .eq('organisation_id', organisationId)
+        .ilike('email', employeeEmail.trim())
+        .maybeSingle(),
+      supabase
+        .from('positions')
+        .select('description')
+        .ilike('name', positionName.trim())
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('organisations')
+        .select('legal_name, trading_name')
+        .eq('id', organisationId)
+        .maybeSingle(),
+    ]);
+
+    if (employeeResult.error) throw employeeResult.error;
+    if (positionResult.error) throw positionResult.error;
+    if (organisationResult.error) throw organisationResult.error;
+
+    const employee = employeeResult.data;
+    let award: MergeContext['award'] = null;
+    if (employee?.award_classification_id) {
+      const { data, error } = await supabase
+        .from('award_classifications')
+        .select('name, base_hourly_rate')
+        .eq('id', employee.award_classification_id)
+        .maybeSingle();
+      if (error) throw error;
+      award = data;
+    }
+
+    const organisation = organisationResult.data;
+    return {
+      employee,
+      position: positionResult.data,
+      award,
+      organisationName: organisation ? organisation.trading_name || organisation.legal_name : null,
+    };
+  }
+
+  private assertMergeFields(content: string) {
+    const unknown = unknownMergeFields(content);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown merge fields: ${unknown.map(f => `{{${f}}}`).join(', ')}`);
+    }
+  }
+}
+
+export const contractTemplateService = new ContractTemplateService();
@@ -1,9 +1,19 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { auditService } from './auditService';
+import { publicHolidayService } from './publicHolidayService';
+import { getHolidayDates } from '@/lib/publicHolidays';
+import { reportableIncidentDeadlines } from '@/lib/reportableIncidents';
+import { evaluateCaseSla, type CaseSla, type SlaStatus } from '@/lib/hrCaseSla';
+import { canTransition } from '@/lib/hrCaseTransitions';
+import { sha256Hex } from '@/lib/evidenceIntegrity';
 import type {
   HRCase,
   HRCaseTriage,
   HRCaseEvidence,
+  HRCaseEvidenceCustodyEvent,
+  EvidenceIntegrityCheck,
   HRCaseNote,
   HRCaseFindings,
   HRCaseAction,
@@ -18,8 +28,18 @@ import type {
   HRCaseStatus,
   HRCaseType,
   HRCaseSeverity,
+  HRCaseSlaTarget,
+  HRCaseStatusChange,
+  HRCaseReporterMessage,
+  HRWarningValidityPeriod,
+  EmployeeDisciplinaryAction,
+  WarningActionType,
+  ReportableIncidentInput,
 } from '@/types/hrCases';
 
+// Keeps .in() filters on case ids to a safe URL length
+const CASE_ID_BATCH = 100;
+
 /**
  * HR Cases Service
  * Handles all CRUD operations for HR incidents, misconduct, and disciplinary cases.
@@ -43,6 +63,31 @@ class HRCasesService {
     };
   }
 
+  /**
+   * Case columns for a reportable incident classification. Business days
+   * skip the organisation's national public holidays.
+   */
+  private async reportableIncidentFields(organisationId: string, input: ReportableIncidentInput) {
+    const awareDate = parseISO(input.aware_at);
+    const holidays = await publicHolidayService.getHolidays(organisationId, {
+      from: format(awareDate, 'yyyy-MM-dd'),
+      to: format(addDays(awareDate, 31), 'yyyy-MM-dd'),
+    });
+    const { notificationDueAt, reportDueAt } = reportableIncidentDeadlines(
+      input.category,
+      input.aware_at,
+      getHolidayDates(holidays)
+    );
+
+    return {
+      ndis_reportable: true,
+      ndis_incident_category: input.category,
+      ndis_aware_at: awareDate.toISOString(),
+      ndis_notification_due_at: notificationDueAt,
+      ndis_report_due_at: reportDueAt,
+    };
+  }
+
   // ============ CASES ============
 
   async getCases(filters?: {
@@ -133,6 +178,9 @@ class HRCasesService {
       confidentiality_level: input.confidentiality_level || 'standard',
       assigned_investigator_user_id: input.assigned_investigator_user_id || null,
       created_by_user_id: user?.id || null,
+      ...(input.reportable_incident
+        ? await this.reportableIncidentFields(input.organisation_id, input.reportable_incident)
+        : {}),
     } as const;
     
     const { data, error } = await supabase
@@ -160,6 +208,7 @@ class HRCasesService {
         case_number: data.case_number,
         case_type: input.case_type,
         severity: input.severity || 'medium',
+        ndis_incident_category: input.reportable_incident?.category ?? null,
       },
     });
 
@@ -174,15 +223,9 @@ class HRCasesService {
       .eq('id', caseId)
       .single();
 
-    // If closing, set closed_at
-    const updateData: Record<string, unknown> = { ...input };
-    if (input.status === 'closed' && before?.status !== 'closed') {
-      updateData.closed_at = new Date().toISOString();
-    }
-
     const { data, error } = await supabase
       .from('hr_cases')
-      .update(updateData)
+      .update(input)
       .eq('id', caseId)
       .select(`
         *,
@@ -207,22 +250,46 @@ class HRCasesService {
     return data as unknown as HRCase;
   }
 
-  async closeCase(caseId: string, closureNotes?: string): Promise<HRCase> {
-    // Validate closure requirements
-    const { data: findings } = await supabase
-      .from('hr_case_findings')
-      .select('id')
-      .eq('hr_case_id', caseId)
-      .limit(1);
+  /**
+   * Move a case to another status. The database checks the transition is
+   * allowed and that the case has what the new status needs, and its error
+   * lists anything missing.
+   */
+  async transitionCase(caseId: string, toStatus: HRCaseStatus, closureNotes?: string): Promise<HRCase> {
+    const { data: before } = await supabase
+      .from('hr_cases')
+      .select('status')
+      .eq('id', caseId)
+      .single();
 
-    if (!findings || findings.length === 0) {
-      throw new Error('Cannot close case without findings. Please record findings first.');
+    const { error } = await supabase.rpc('transition_hr_case', {
+      _case_id: caseId,
+      _to_status: toStatus,
+      _closure_notes: closureNotes,
+    });
+
+    if (error) {
+      console.error('[HRCasesService] Error moving case status:', error);
+      throw new Error(error.message);
     }
 
-    return this.updateCase(caseId, {
-      status: 'closed',
-      closure_notes: closureNotes,
+    await auditService.log({
+      action: 'document.upload' as const,
+      entityType: 'setting',
+      entityId: caseId,
+      beforeState: before ? { status: before.status, action: 'hr_case_status_changed' } : undefined,
+      afterState: { status: toStatus, action: 'hr_case_status_changed' },
     });
+
+    const hrCase = await this.getCaseById(caseId);
+    if (!hrCase) {
+      throw new Error('Case not found');
+    }
+    return hrCase;
+  }
+
+  async closeCase(caseId: string, closureNotes: string): Promise<HRCase> {
+    return this.transitionCase(caseId, 'closed', closureNotes);
   }
 
   // ============ TRIAGE ============
@@ -244,11 +311,30 @@ class HRCasesService {
 
   async createTriage(input: CreateTriageInput): Promise<HRCaseTriage> {
     const user = await this.getCurrentUser();
+    const { reportable_incident, ...triageInput } = input;
+
+    let classification: Awaited<ReturnType<HRCasesService['reportableIncidentFields']>> | null = null;
+    if (reportable_incident) {
+      const { data: hrCase, error: caseError } = await supabase
+        .from('hr_cases')
+        .select('organisation_id, ndis_reportable')
+        .eq('id', input.hr_case_id)
+        .single();
+
+      if (caseError) {
+        console.error('[HRCasesService] Error fetching case for triage:', caseError);
+        throw caseError;
+      }
+      // An existing classification keeps its original clock
+      if (!hrCase.ndis_reportable) {
+        classification = await this.reportableIncidentFields(hrCase.organisation_id, reportable_incident);
+      }
+    }
 
     const { data, error } = await supabase
       .from('hr_case_triage')
       .insert({
-        ...input,
+        ...triageInput,
         triaged_by_user_id: user?.id || '',
       })
       .select()
@@ -260,11 +346,16 @@ class HRCasesService {
     }
 
     // Update case status to triaged
-    await supabase
+    const { error: statusError } = await supabase
       .from('hr_cases')
-      .update({ status: 'triaged' })
+      .update({ status: 'triaged', ...classification })
       .eq('id', input.hr_case_id);
 
+    if (statusError) {
+      console.error('[HRCasesService] Error moving case to triaged:', statusError);
+      throw new Error(statusError.message);
+    }
+
     // Audit log
     await auditService.log({
       action: 'document.upload' as const,
@@ -274,12 +365,44 @@ class HRCasesService {
         action: 'hr_case_triaged',
         hr_case_id: input.hr_case_id,
         escalation_required: input.escalation_required,
+        ndis_incident_category: classification?.ndis_incident_category,
       },
     });
 
     return data as HRCaseTriage;
   }
 
+  // ============ REPORTABLE INCIDENTS ============
+
+  /**
+   * Record that the Commission was notified, with the reference it issued.
+   */
+  async recordNdisNotification(caseId: string, reference: string, notifiedAt?: string): Promise<HRCase> {
+    return this.updateCase(caseId, {
+      ndis_notified_at: notifiedAt || new Date().toISOString(),
+      ndis_commission_reference: reference.trim() || null,
+    });
+  }
+
+  /**
+   * Record that the 5-day report was submitted to the Commission.
+   */
+  async recordNdisReport(caseId: string, submittedAt?: string): Promise<HRCase> {
+    const { data: hrCase } = await supabase
+      .from('hr_cases')
+      .select('ndis_notified_at')
+      .eq('id', caseId)
+      .single();
+
+    if (!hrCase?.ndis_notified_at) {
+      throw new Error('Record the Commission notification before the 5-day report.');
+    }
+
+    return this.updateCase(caseId, {
+      ndis_report_submitted_at: submittedAt || new Date().toISOString(),
+    });
+  }
+
   // ============ NOTES ============
 
   async getNotes(caseId: string): Promise<HRCaseNote[]> {
@@ -330,6 +453,62 @@ class HRCasesService {
     return data as HRCaseNote;
   }
 
+  // ============ REPORTER THREAD ============
+
+  /**
+   * Messages with the anonymous reporter of a portal case. Restricted:
+   * only admins and the assigned investigator get any rows back.
+   */
+  async getReporterMessages(caseId: string): Promise<HRCaseReporterMessage[]> {
+    const { data, error } = await supabase
+      .from('hr_case_reporter_messages')
+      .select('*')
+      .eq('hr_case_id', caseId)
+      .order('created_at');
+
+    if (error) {
+      console.error('[HRCasesService] Error fetching reporter messages:', error);
+      throw error;
+    }
+
+    return (data || []) as HRCaseReporterMessage[];
+  }
+
+  async sendReporterMessage(hrCase: HRCase, body: string): Promise<HRCaseReporterMessage> {
+    const user = await this.getCurrentUser();
+
+    const { data, error } = await supabase
+      .from('hr_case_reporter_messages')
+      .insert({
+        hr_case_id: hrCase.id,
+        organisation_id: hrCase.organisation_id,
+        sender: 'investigator',
+        sender_user_id: user?.id || '',
+        sender_name: user?.name,
+        body,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[HRCasesService] Error sending reporter message:', error);
+      throw error;
+    }
+
+    // The message itself stays in the restricted thread
+    await auditService.log({
+      action: 'document.upload' as const,
+      entityType: 'setting',
+      entityId: data.id,
+      afterState: {
+        action: 'hr_case_reporter_message_sent',
+        hr_case_id: hrCase.id,
+      },
+    });
+
+    return data as HRCaseReporterMessage;
+  }
+
   // ============ EVIDENCE ============
 
   async getEvidence(caseId: string): Promise<HRCaseEvidence[]> {
@@ -355,11 +534,14 @@ class HRCasesService {
   ): Promise<HRCaseEvidence> {
     const user = await this.getCurrentUser();
 
+    // Fingerprint the exact bytes being stored, for later integrity checks
+    const sha256 = await sha256Hex(await file.arrayBuffer());
+
     // Upload file to storage
     const fileName = `${caseId}/${Date.now()}_${file.name}`;
     const { error: uploadError } = await supabase.storage
       .from('hr-case-evidence')
-      .upload(fileName, file);
+      .upload(fileName, file, { contentType: file.type || undefined });
 
     if (uploadError) {
       console.error('[HRCasesService] Error uploading file:', uploadError);
@@ -378,6 +560,9 @@ class HRCasesService {
         hr_case_id: caseId,
         file_url: urlData.publicUrl,
         file_name: file.name,
+        storage_path: fileName,
+        sha256,
+        file_size: file.size,
         description,
         uploaded_by_user_id: user?.id || '',
         uploaded_by_name: user?.name,
@@ -400,6 +585,7 @@ class HRCasesService {
         action: 'hr_case_evidence_uploaded',
         hr_case_id: caseId,
         file_name: file.name,
+        sha256,
         access_level: accessLevel,
       },
     });
@@ -407,6 +593,54 @@ class HRCasesService {
     return data as HRCaseEvidence;
   }
 
+  // ============ EVIDENCE CUSTODY ============
+
+  private async invokeCustody<T>(body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('hr-evidence-custody', { body });
+
+    if (error) {
+      // The function explains refusals (no access, missing file) in its body
+      const detail = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      console.error('[HRCasesService] Evidence custody error:', detail?.error || error);
+      throw new Error(detail?.error || 'The evidence service is unavailable. Please try again.');
+    }
+
+    return data as T;
+  }
+
+  async getCustodyEvents(caseId: string): Promise<HRCaseEvidenceCustodyEvent[]> {
+    const { data, error } = await supabase
+      .from('hr_case_evidence_custody_events')
+      .select('*')
+      .eq('hr_case_id', caseId)
+      .order('occurred_at');
+
+    if (error) {
+      console.error('[HRCasesService] Error fetching custody events:', error);
+      throw error;
+    }
+
+    return (data || []) as HRCaseEvidenceCustodyEvent[];
+  }
+
+  /**
+   * A short-lived link to an evidence file. Each call is recorded as a
+   * view or download in the chain of custody.
+   */
+  async openEvidence(evidenceId: string, disposition: 'view' | 'download'): Promise<string> {
+    const { url } = await this.invokeCustody<{ url: string }>({ action: disposition, evidenceId });
+    return url;
+  }
+
+  /**
+   * Re-hash the stored file against the hash taken at upload.
+   */
+  async verifyEvidence(evidenceId: string): Promise<EvidenceIntegrityCheck> {
+    return this.invokeCustody<EvidenceIntegrityCheck>({ action: 'verify', evidenceId });
+  }
+
   // ============ FINDINGS ============
 
   async getFindings(caseId: string): Promise<HRCaseFindings | null> {
@@ -427,6 +661,21 @@ class HRCasesService {
   async createFindings(input: CreateFindingsInput): Promise<HRCaseFindings> {
     const user = await this.getCurrentUser();
 
+    // Checked up front so findings aren't saved against a case that can't take them
+    const { data: hrCase, error: caseError } = await supabase
+      .from('hr_cases')
+      .select('status')
+      .eq('id', input.hr_case_id)
+      .single();
+
+    if (caseError) {
+      console.error('[HRCasesService] Error fetching case for findings:', caseError);
+      throw caseError;
+    }
+    if (!canTransition(hrCase.status, 'decision_made')) {
+      throw new Error('Findings can only be recorded while the case is being investigated.');
+    }
+
     const { data, error } = await supabase
       .from('hr_case_findings')
       .insert({
@@ -443,11 +692,16 @@ class HRCasesService {
     }
 
     // Update case status to decision_made
-    await supabase
+    const { error: statusError } = await supabase
       .from('hr_cases')
       .update({ status: 'decision_made' })
       .eq('id', input.hr_case_id);
 
+    if (statusError) {
+      console.error('[HRCasesService] Error moving case to decision made:', statusError);
+      throw new Error(statusError.message);
+    }
+
     // Audit log
     await auditService.log({
       action: 'document.upload' as const,
@@ -508,7 +762,7 @@ class HRCasesService {
         hr_case_id: input.hr_case_id,
         action_type: input.action_type,
         effective_date: input.effective_date,
-        expiry_date: input.expiry_date,
+        expiry_date: data.expiry_date,
       },
     });
 
@@ -546,12 +800,82 @@ class HRCasesService {
     return data as HRCaseAction;
   }
 
+  // ============ DISCIPLINARY HISTORY ============
+
+  /**
+   * Every action issued to an employee across the cases the user can see.
+   */
+  async getEmployeeDisciplinaryHistory(employeeId: string): Promise<EmployeeDisciplinaryAction[]> {
+    const { data, error } = await supabase
+      .from('hr_case_actions')
+      .select('*, hr_case:hr_cases!inner(id, case_number, case_type, status, summary, employee_id)')
+      .eq('hr_case.employee_id', employeeId)
+      .order('effective_date', { ascending: false });
+
+    if (error) {
+      console.error('[HRCasesService] Error fetching disciplinary history:', error);
+      throw error;
+    }
+
+    return (data || []) as unknown as EmployeeDisciplinaryAction[];
+  }
+
+  async getWarningValidityPeriods(organisationId: string): Promise<HRWarningValidityPeriod[]> {
+    const { data, error } = await supabase
+      .from('hr_warning_validity_periods')
+      .select('*')
+      .eq('organisation_id', organisationId);
+
+    if (error) {
+      console.error('[HRCasesService] Error fetching warning validity periods:', error);
+      throw error;
+    }
+
+    return (data || []) as HRWarningValidityPeriod[];
+  }
+
+  /**
+   * Set how many months a kind of warning stays live. Null reverts to the
+   * default. Applies to warnings issued from now on.
+   */
+  async setWarningValidityPeriod(
+    organisationId: string,
+    actionType: WarningActionType,
+    validityMonths: number | null
+  ): Promise<void> {
+    const { error } = validityMonths === null
+      ? await supabase
+          .from('hr_warning_validity_periods')
+          .delete()
+          .eq('organisation_id', organisationId)
+          .eq('action_type', actionType)
+      : await supabase
+          .from('hr_warning_validity_periods')
+          .upsert(
+            { organisation_id: organisationId, action_type: actionType, validity_months: validityMonths },
+            { onConflict: 'organisation_id,action_type' }
+          );
+
+    if (error) {
+      console.error('[HRCasesService] Error saving warning validity period:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'hr_warning_validity.update',
+      entityType: 'setting',
+      entityId: organisationId,
+      organisationId,
+      afterState: { action_type: actionType, validity_months: validityMonths },
+    });
+  }
+
   // ============ STATISTICS ============
 
   async getStats(): Promise<HRCaseStats> {
     const { data: cases, error } = await supabase
       .from('hr_cases')
-      .select('status, case_type, severity, safeguarding_flag');
+      .select('id, organisation_id, created_at, status, case_type, severity, safeguarding_flag, ndis_reportable, ndis_notified_at, ndis_report_submitted_at');
 
     if (error) {
       console.error('[HRCasesService] Error fetching stats:', error);
@@ -562,7 +886,8 @@ class HRCasesService {
       .from('hr_case_actions')
       .select('id')
       .in('action_type', ['verbal_warning', 'written_warning', 'final_warning'])
-      .eq('status', 'active')
+      // Delivered warnings stay live until they expire
+      .in('status', ['active', 'completed'])
       .gte('expiry_date', new Date().toISOString().split('T')[0]);
 
     const stats: HRCaseStats = {
@@ -592,6 +917,9 @@ class HRCasesService {
       closedCases: 0,
       safeguardingCases: 0,
       activeWarnings: activeWarnings?.length || 0,
+      reportableOutstanding: 0,
+      slaBreaches: 0,
+      slaBreachesByStatus: {},
     };
 
     cases?.forEach((c) => {
@@ -606,11 +934,175 @@ class HRCasesService {
       if (c.safeguarding_flag) {
         stats.safeguardingCases++;
       }
+      if (c.ndis_reportable && (!c.ndis_notified_at || !c.ndis_report_submitted_at)) {
+        stats.reportableOutstanding++;
+      }
     });
 
+    const openCases = (cases || []).filter(c => c.status !== 'closed');
+    if (openCases.length > 0) {
+      const [history, targets, holidays] = await Promise.all([
+        this.getStatusHistoryForCases(openCases.map(c => c.id)),
+        this.getSlaTargets(),
+        this.getHolidayDatesByOrganisation(
+          [...new Set(openCases.map(c => c.organisation_id))],
+          openCases.reduce((min, c) => (c.created_at < min ? c.created_at : min), openCases[0].created_at)
+        ),
+      ]);
+
+      const now = new Date();
+      for (const c of openCases) {
+        const sla = evaluateCaseSla(
+          c,
+          history.filter(h => h.hr_case_id === c.id),
+          targets.filter(t => t.organisation_id === c.organisation_id),
+          holidays.get(c.organisation_id) ?? new Set(),
+          now
+        );
+        if (sla?.breached) {
+          stats.slaBreaches++;
+          stats.slaBreachesByStatus[sla.status] = (stats.slaBreachesByStatus[sla.status] ?? 0) + 1;
+        }
+      }
+    }
+
     return stats;
   }
 
+  // ============ SLA ============
+
+  async getStatusHistory(caseId: string): Promise<HRCaseStatusChange[]> {
+    return this.getStatusHistoryForCases([caseId]);
+  }
+
+  /**
+   * Where a case stands against the SLA for its current status.
+   */
+  async getCaseSla(hrCase: HRCase, history: HRCaseStatusChange[]): Promise<CaseSla | null> {
+    if (hrCase.status === 'closed') return null;
+
+    const [targets, holidays] = await Promise.all([
+      this.getSlaTargets(hrCase.organisation_id),
+      this.getHolidayDatesByOrganisation([hrCase.organisation_id], hrCase.created_at),
+    ]);
+
+    return evaluateCaseSla(
+      hrCase,
+      history,
+      targets,
+      holidays.get(hrCase.organisation_id) ?? new Set(),
+      new Date()
+    );
+  }
+
+  private async getStatusHistoryForCases(caseIds: string[]): Promise<HRCaseStatusChange[]> {
+    const history: HRCaseStatusChange[] = [];
+    for (let i = 0; i < caseIds.length; i += CASE_ID_BATCH) {
+      const { data, error } = await supabase
+        .from('hr_case_status_history')
+        .select('*')
+        .in('hr_case_id', caseIds.slice(i, i + CASE_ID_BATCH))
+        .order('changed_at');
+
+      if (error) {
+        console.error('[HRCasesService] Error fetching status history:', error);
+        throw error;
+      }
+      history.push(...((data || []) as HRCaseStatusChange[]));
+    }
+    return history;
+  }
+
+  /**
+   * Configured SLA targets. Without an organisation, every target the user
+   * can see.
+   */
+  async getSlaTargets(organisationId?: string): Promise<HRCaseSlaTarget[]> {
+    let query = supabase.from('hr_case_sla_targets').select('*');
+    if (organisationId) {
+      query = query.eq('organisation_id', organisationId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[HRCasesService] Error fetching SLA targets:', error);
+      throw error;
+    }
+
+    return (data || []) as HRCaseSlaTarget[];
+  }
+
+  /**
+   * Set the target for a case type, severity and status. Null reverts to
+   * the default.
+   */
+  async setSlaTarget(
+    organisationId: string,
+    caseType: HRCaseType,
+    severity: HRCaseSeverity,
+    status: SlaStatus,
+    targetBusinessDays: number | null
+  ): Promise<void> {
+    const { error } = targetBusinessDays === null
+      ? await supabase
+          .from('hr_case_sla_targets')
+          .delete()
+          .eq('organisation_id', organisationId)
+          .eq('case_type', caseType)
+          .eq('severity', severity)
+          .eq('status', status)
+      : await supabase
+          .from('hr_case_sla_targets')
+          .upsert(
+            {
+              organisation_id: organisationId,
+              case_type: caseType,
+              severity,
+              status,
+              target_business_days: targetBusinessDays,
+            },
+            { onConflict: 'organisation_id,case_type,severity,status' }
+          );
+
+    if (error) {
+      console.error('[HRCasesService] Error saving SLA target:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'hr_case_sla_target.update',
+      entityType: 'setting',
+      entityId: organisationId,
+      organisationId,
+      afterState: { case_type: caseType, severity, status, target_business_days: targetBusinessDays },
+    });
+  }
+
+  /**
+   * National public holidays from a date onwards, per organisation, for
+   * counting business days.
+   */
+  private async getHolidayDatesByOrganisation(
+    organisationIds: string[],
+    from: string
+  ): Promise<Map<string, Set<string>>> {
+    const { data, error } = await supabase
+      .from('public_holidays')
+      .select('organisation_id, holiday_date, regions')
+      .in('organisation_id', organisationIds)
+      .gte('holiday_date', from.slice(0, 10));
+
+    if (error) {
+      console.error('[HRCasesService] Error fetching public holidays:', error);
+      throw error;
+    }
+
+    return new Map(
+      organisationIds.map(id => [id, getHolidayDates((data || []).filter(h => h.organisation_id === id))])
+    );
+  }
+
   // ============ AUDIT LOG ============
 
   async getCaseAuditLog(caseId: string) {
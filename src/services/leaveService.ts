@@ -1,14 +1,28 @@
 import { supabase } from '@/integrations/supabase/client';
 import { auditService } from '@/services/auditService';
+import { projectLeaveBalance } from '@/lib/leaveProjection';
+import { checkLeaveStaffing, describeStaffingRule } from '@/lib/leaveStaffing';
+import { format, subWeeks, differenceInCalendarDays, parseISO } from 'date-fns';
 import type { 
   LeaveType, 
   LeaveBalance, 
   LeaveRequest, 
   LeaveAdjustment,
   LeaveApprovalPayload,
-  LeaveAdjustmentPayload 
+  LeaveAdjustmentPayload,
+  LeaveAccrualRun,
+  LeaveAccrualLedgerEntry,
+  LeaveTypeAccrualSettings,
+  LeaveBalanceProjection,
+  LeaveProjectionCommitment,
+  LeaveStaffingRule,
+  LeaveStaffingCheck,
+  CreateLeaveStaffingRuleInput
 } from '@/types/leave';
 
+// Weeks of approved timesheets used to estimate future hours worked
+const PROJECTION_HISTORY_WEEKS = 8;
+
 /**
  * Leave & Entitlements Service
  * Handles leave types, balances, requests, and adjustments with full audit logging.
@@ -216,6 +230,38 @@ class LeaveService {
         }
       }
 
+      // Minimum staffing: blocking rules need an override with a reason
+      const staffing = await this.checkStaffing(organisationId, currentRequest);
+      if (staffing.requires_override) {
+        if (!payload.override_staffing_rules) {
+          const rules = staffing.breaches
+            .filter(b => b.rule.enforcement === 'block')
+            .map(b => `${describeStaffingRule(b.rule)} (min ${b.rule.min_staff})`)
+            .join(', ');
+          throw new Error(`Approving would break minimum staffing for ${rules}. Use override to approve anyway.`);
+        }
+        if (!payload.staffing_override_reason?.trim()) {
+          throw new Error('A reason is required to override minimum staffing.');
+        }
+      }
+      const staffingOverrideReason = staffing.requires_override ? payload.staffing_override_reason : null;
+
+      // What the approver was shown: balance on the start date once this request is taken
+      let projectedBalanceAfter: number | null = null;
+      if (currentRequest.leave_type_id) {
+        try {
+          const projection = await this.getBalanceProjection(
+            currentRequest.employee_id,
+            currentRequest.leave_type_id,
+            currentRequest.start_date,
+            { excludeRequestId: currentRequest.id }
+          );
+          projectedBalanceAfter = Math.round((projection.projected_balance - currentRequest.hours) * 100) / 100;
+        } catch (err) {
+          console.warn('[LeaveService] Could not project balance for approval:', err);
+        }
+      }
+
       // Update request
       const { data, error } = await supabase
         .from('leave_requests')
@@ -227,6 +273,7 @@ class LeaveService {
           decided_at: now,
           balance_deducted: !!currentRequest.leave_type_id,
           override_reason: payload.override_insufficient_balance ? payload.reason : null,
+          staffing_override_reason: staffingOverrideReason,
         })
         .eq('id', payload.request_id)
         .select()
@@ -248,6 +295,15 @@ class LeaveService {
         status: 'approved',
         approved_by: profile?.display_name,
         override_reason: payload.override_insufficient_balance ? payload.reason : null,
+        projected_balance_after: projectedBalanceAfter,
+        staffing_breaches: staffing.breaches.map(b => ({
+          rule_id: b.rule.id,
+          scope: describeStaffingRule(b.rule),
+          min_staff: b.rule.min_staff,
+          enforcement: b.rule.enforcement,
+          dates: b.dates,
+        })),
+        staffing_override_reason: staffingOverrideReason,
       });
 
       return data as LeaveRequest;
@@ -431,11 +487,13 @@ class LeaveService {
   }
 
   /**
-   * Run accruals for an organisation (typically called by scheduled job)
+   * Run accruals for an organisation now. The nightly run-leave-accruals
+   * edge function calls the same RPC for every organisation.
    */
   async runAccruals(organisationId: string): Promise<number> {
     const { data, error } = await supabase.rpc('run_leave_accruals', {
       _organisation_id: organisationId,
+      _triggered_by: 'manual',
     });
 
     if (error) {
@@ -446,6 +504,380 @@ class LeaveService {
     return data as number;
   }
 
+  /**
+   * Project an employee's balance for a leave type to a future date,
+   * including expected accruals and pending requests that haven't come
+   * off the balance yet.
+   */
+  async getBalanceProjection(
+    employeeId: string,
+    leaveTypeId: string,
+    targetDate: string,
+    options: { excludeRequestId?: string } = {}
+  ): Promise<LeaveBalanceProjection> {
+    const asOf = format(new Date(), 'yyyy-MM-dd');
+
+    const [balanceResult, leaveTypeResult, requestsResult, employeeResult] = await Promise.all([
+      supabase
+        .from('leave_balances')
+        .select('balance_hours, last_accrual_at')
+        .eq('employee_id', employeeId)
+        .eq('leave_type_id', leaveTypeId)
+        .maybeSingle(),
+      supabase
+        .from('leave_types')
+        .select('*')
+        .eq('id', leaveTypeId)
+        .single(),
+      supabase
+        .from('leave_requests')
+        .select('id, start_date, end_date, hours, status, balance_deducted')
+        .eq('employee_id', employeeId)
+        .eq('leave_type_id', leaveTypeId)
+        .in('status', ['pending', 'approved'])
+        .gte('end_date', asOf)
+        .order('start_date'),
+      supabase
+        .from('employees')
+        .select('start_date')
+        .eq('id', employeeId)
+        .single(),
+    ]);
+
+    if (leaveTypeResult.error) {
+      console.error('[LeaveService] Failed to fetch leave type for projection:', leaveTypeResult.error);
+      throw leaveTypeResult.error;
+    }
+    if (requestsResult.error) {
+      console.error('[LeaveService] Failed to fetch requests for projection:', requestsResult.error);
+      throw requestsResult.error;
+    }
+
+    const leaveType = leaveTypeResult.data as LeaveType;
+    const currentBalance = balanceResult.data?.balance_hours || 0;
+
+    const commitments: LeaveProjectionCommitment[] = (requestsResult.data || [])
+      .filter(r => r.id !== options.excludeRequestId)
+      .map(r => ({
+        request_id: r.id,
+        start_date: r.start_date,
+        end_date: r.end_date,
+        hours: r.hours,
+        status: r.status as LeaveProjectionCommitment['status'],
+        deducted: r.status === 'approved' && r.balance_deducted,
+      }));
+
+    // Hours-worked accruals assume the recent weekly average carries on
+    let averageWeeklyHours: number | null = null;
+    if (leaveType.accrues && leaveType.accrual_basis === 'hours_worked') {
+      const since = format(subWeeks(new Date(), PROJECTION_HISTORY_WEEKS), 'yyyy-MM-dd');
+      const { data: timesheets } = await supabase
+        .from('timesheets')
+        .select('total_hours')
+        .eq('employee_id', employeeId)
+        .eq('status', 'approved')
+        .gte('date', since)
+        .lte('date', asOf);
+
+      const startDate = employeeResult.data?.start_date;
+      const weeksEmployed = startDate && startDate > since
+        ? Math.max(1, differenceInCalendarDays(new Date(), parseISO(startDate)) / 7)
+        : PROJECTION_HISTORY_WEEKS;
+      const totalHours = (timesheets || []).reduce((sum, t) => sum + (t.total_hours || 0), 0);
+      averageWeeklyHours = Math.round((totalHours / weeksEmployed) * 100) / 100;
+    }
+
+    const result = projectLeaveBalance({
+      currentBalance,
+      leaveType,
+      lastAccrualAt: balanceResult.data?.last_accrual_at || null,
+      asOf,
+      targetDate,
+      averageWeeklyHours: averageWeeklyHours ?? undefined,
+      commitments,
+    });
+
+    return {
+      employee_id: employeeId,
+      leave_type_id: leaveTypeId,
+      as_of: asOf,
+      target_date: targetDate,
+      current_balance: currentBalance,
+      projected_balance: result.projectedBalance,
+      accrued_hours: result.accruedHours,
+      booked_hours: result.bookedHours,
+      average_weekly_hours: averageWeeklyHours,
+      points: result.points,
+      commitments,
+    };
+  }
+
+  /**
+   * Get minimum-staffing rules for an organisation
+   */
+  async getStaffingRules(organisationId: string): Promise<LeaveStaffingRule[]> {
+    const { data, error } = await supabase
+      .from('leave_staffing_rules')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('department')
+      .order('position');
+
+    if (error) {
+      console.error('[LeaveService] Failed to fetch staffing rules:', error);
+      throw error;
+    }
+
+    return (data || []) as LeaveStaffingRule[];
+  }
+
+  /**
+   * Create a minimum-staffing rule (admin only)
+   */
+  async createStaffingRule(
+    organisationId: string,
+    input: CreateLeaveStaffingRuleInput
+  ): Promise<LeaveStaffingRule> {
+    if (!input.department?.trim() && !input.position?.trim()) {
+      throw new Error('A staffing rule needs a department or position');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('leave_staffing_rules')
+      .insert({
+        organisation_id: organisationId,
+        department: input.department?.trim() || null,
+        position: input.position?.trim() || null,
+        min_staff: input.min_staff,
+        enforcement: input.enforcement,
+        created_by_user_id: user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[LeaveService] Failed to create staffing rule:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'leave_staffing_rule.create',
+      entityType: 'leave_staffing_rule',
+      entityId: data.id,
+      organisationId,
+      afterState: { ...input },
+    });
+
+    return data as LeaveStaffingRule;
+  }
+
+  /**
+   * Update a minimum-staffing rule (admin only)
+   */
+  async updateStaffingRule(
+    ruleId: string,
+    updates: Partial<Pick<LeaveStaffingRule, 'min_staff' | 'enforcement' | 'is_active'>>,
+    organisationId: string
+  ): Promise<LeaveStaffingRule> {
+    const { data: before } = await supabase
+      .from('leave_staffing_rules')
+      .select('min_staff, enforcement, is_active')
+      .eq('id', ruleId)
+      .single();
+
+    const { data, error } = await supabase
+      .from('leave_staffing_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[LeaveService] Failed to update staffing rule:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'leave_staffing_rule.update',
+      entityType: 'leave_staffing_rule',
+      entityId: ruleId,
+      organisationId,
+      beforeState: before || undefined,
+      afterState: { ...updates },
+    });
+
+    return data as LeaveStaffingRule;
+  }
+
+  /**
+   * Delete a minimum-staffing rule (admin only)
+   */
+  async deleteStaffingRule(ruleId: string, organisationId: string): Promise<void> {
+    const { data: before } = await supabase
+      .from('leave_staffing_rules')
+      .select('department, position, min_staff, enforcement')
+      .eq('id', ruleId)
+      .single();
+
+    const { error } = await supabase
+      .from('leave_staffing_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('[LeaveService] Failed to delete staffing rule:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'leave_staffing_rule.delete',
+      entityType: 'leave_staffing_rule',
+      entityId: ruleId,
+      organisationId,
+      beforeState: before || undefined,
+    });
+  }
+
+  /**
+   * Check a leave request against minimum-staffing rules and other leave
+   * in the same department over the same dates.
+   */
+  async checkStaffing(
+    organisationId: string,
+    request: Pick<LeaveRequest, 'id' | 'employee_id' | 'start_date' | 'end_date'>
+  ): Promise<LeaveStaffingCheck> {
+    const [rulesResult, employeesResult, bookingsResult] = await Promise.all([
+      supabase
+        .from('leave_staffing_rules')
+        .select('*')
+        .eq('organisation_id', organisationId)
+        .eq('is_active', true),
+      supabase
+        .from('employees')
+        .select('id, first_name, last_name, department, position, status')
+        .eq('organisation_id', organisationId),
+      supabase
+        .from('leave_requests')
+        .select('id, employee_id, start_date, end_date, status')
+        .eq('organisation_id', organisationId)
+        .in('status', ['pending', 'approved'])
+        .lte('start_date', request.end_date)
+        .gte('end_date', request.start_date),
+    ]);
+
+    const error = rulesResult.error || employeesResult.error || bookingsResult.error;
+    if (error) {
+      console.error('[LeaveService] Failed to check staffing:', error);
+      throw error;
+    }
+
+    return checkLeaveStaffing(
+      request,
+      employeesResult.data || [],
+      (bookingsResult.data || []) as LeaveRequest[],
+      (rulesResult.data || []) as LeaveStaffingRule[]
+    );
+  }
+
+  /**
+   * Get recent accrual runs for an organisation
+   */
+  async getAccrualRuns(organisationId: string, limit = 20): Promise<LeaveAccrualRun[]> {
+    const { data, error } = await supabase
+      .from('leave_accrual_runs')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[LeaveService] Failed to fetch accrual runs:', error);
+      throw error;
+    }
+
+    return (data || []) as LeaveAccrualRun[];
+  }
+
+  /**
+   * Get accrual ledger entries for an organisation, a run or an employee
+   */
+  async getAccrualLedger(
+    organisationId: string,
+    filters: { runId?: string; employeeId?: string } = {}
+  ): Promise<LeaveAccrualLedgerEntry[]> {
+    let query = supabase
+      .from('leave_accrual_ledger')
+      .select(`
+        *,
+        leave_type:leave_types(id, name),
+        employee:employees(id, first_name, last_name),
+        run:leave_accrual_runs(id, triggered_by)
+      `)
+      .eq('organisation_id', organisationId)
+      .order('created_at', { ascending: false })
+      .limit(500);
+
+    if (filters.runId) {
+      query = query.eq('run_id', filters.runId);
+    }
+    if (filters.employeeId) {
+      query = query.eq('employee_id', filters.employeeId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[LeaveService] Failed to fetch accrual ledger:', error);
+      throw error;
+    }
+
+    return (data || []) as unknown as LeaveAccrualLedgerEntry[];
+  }
+
+  /**
+   * Update how a leave type accrues (admin only)
+   */
+  async updateLeaveTypeAccrual(
+    leaveTypeId: string,
+    settings: LeaveTypeAccrualSettings,
+    organisationId: string
+  ): Promise<LeaveType> {
+    if (settings.accrual_basis === 'hours_worked' && !(settings.accrual_rate_per_hour > 0)) {
+      throw new Error('Hours-worked accrual needs a rate per hour');
+    }
+
+    const { data: before } = await supabase
+      .from('leave_types')
+      .select('accrual_basis, accrual_rate_hours, accrual_rate_per_hour, accrual_frequency, max_balance_hours')
+      .eq('id', leaveTypeId)
+      .single();
+
+    const { data, error } = await supabase
+      .from('leave_types')
+      .update(settings)
+      .eq('id', leaveTypeId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[LeaveService] Failed to update leave type accrual:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'leave_type.update',
+      entityType: 'leave_type',
+      entityId: leaveTypeId,
+      organisationId,
+      beforeState: before || undefined,
+      afterState: { ...settings },
+    });
+
+    return data as LeaveType;
+  }
+
   /**
    * Initialize balances for a new employee
    */
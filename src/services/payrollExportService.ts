@@ -5,11 +5,34 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { auditService } from '@/services/auditService';
+import {
+  buildAdjustmentLines,
+  buildEarningLines,
+  getAwardMultipliers,
+  getWeekStart,
+  sumBucketHoursByTimesheet,
+  type AwardRates,
+  type BucketHours,
+  type ExportedShift,
+} from '@/lib/awardInterpretation';
+import { buildAbaFile, type AbaPayment } from '@/lib/abaFile';
+import { buildPayslip, renderPayslipPdf } from '@/lib/payslips';
+import { planExportVoid, type PeriodExport } from '@/lib/payrollExportVoid';
+import {
+  findInactiveEmployeeTimesheets,
+  findLeaveOverlaps,
+  findMissingTimesheets,
+  type ReconciliationEmployee,
+} from '@/lib/payrollReconciliation';
+import { isPublicHoliday } from '@/lib/publicHolidays';
+import { publicHolidayService } from '@/services/publicHolidayService';
+import { complianceService } from '@/services/complianceService';
 import type {
   PayPeriod,
   PayrollMapping,
   PayrollExport,
   PayrollProvider,
+  PayrollExportType,
   TimesheetForExport,
   ExportValidationResult,
   ValidationError,
@@ -18,6 +41,14 @@ import type {
   CreatePayrollMappingInput,
   GenerateExportInput,
   PayrollExportSummary,
+  PayrollExportLine,
+  OvertimeRules,
+  PenaltyBucket,
+  ReconciliationIssue,
+  EmployeeBankAccount,
+  SaveEmployeeBankAccountInput,
+  PayrollBankSettings,
+  SavePayrollBankSettingsInput,
 } from '@/types/payroll';
 import type { Json } from '@/integrations/supabase/types';
 
@@ -176,7 +207,8 @@ class PayrollExportService {
   async validateExport(
     organisationId: string,
     payPeriodId: string,
-    mappings: PayrollMapping[]
+    mappings: PayrollMapping[],
+    provider?: PayrollProvider
   ): Promise<ExportValidationResult> {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
@@ -193,9 +225,23 @@ class PayrollExportService {
         type: 'invalid_dates',
         message: 'Pay period not found',
       });
-      return { isValid: false, errors, warnings, timesheets: [] };
+      return {
+        isValid: false,
+        errors,
+        warnings,
+        timesheets: [],
+        lines: [],
+        reconciliation: [],
+        exportType: 'full',
+        previousExportId: null,
+      };
     }
 
+    // Once the period has an export in force, this one is an adjustment
+    const activeExports = await this.getActiveExports(payPeriodId);
+    const previousExport = activeExports[0] || null;
+    const exportType: PayrollExportType = previousExport ? 'adjustment' : 'full';
+
     // Get approved timesheets in date range
     const { data: timesheets, error: tsError } = await supabase
       .from('timesheets')
@@ -223,18 +269,69 @@ class PayrollExportService {
     const employeeIds = [...new Set((timesheets || []).map(t => t.employee_id))];
     const { data: employees } = await supabase
       .from('employees')
-      .select('id, first_name, last_name, email')
+      .select('id, first_name, last_name, email, award_classification_id, work_state, status, end_date')
       .in('id', employeeIds);
 
-    const employeeMap = new Map(
-      (employees || []).map(e => [e.id, { name: `${e.first_name} ${e.last_name}`, email: e.email }])
+    // Weekly overtime counts the hours worked earlier in the period's first week
+    const earlierTimesheets = await this.getEarlierWeekTimesheets(
+      organisationId,
+      payPeriod.start_date,
+      employeeIds
+    );
+
+    // Shifts on a public holiday in the employee's state get the holiday rate
+    const publicHolidays = await publicHolidayService.getHolidays(organisationId, {
+      from: payPeriod.start_date,
+      to: payPeriod.end_date,
+    });
+
+    // Overtime thresholds and penalty multipliers come from each employee's
+    // award classification
+    const awardIds = [
+      ...new Set((employees || []).map(e => e.award_classification_id).filter(Boolean)),
+    ] as string[];
+    const { data: awards } = awardIds.length
+      ? await supabase
+          .from('award_classifications')
+          .select('*')
+          .in('id', awardIds)
+      : { data: [] };
+
+    const overtimeRulesMap = new Map<string, OvertimeRules>(
+      (awards || []).map(a => [
+        a.id,
+        {
+          daily_overtime_threshold_hours: a.daily_overtime_threshold_hours,
+          weekly_overtime_threshold_hours: a.weekly_overtime_threshold_hours,
+          overtime_tier1_hours: a.overtime_tier1_hours,
+        },
+      ])
     );
 
-    // Build mapping lookup
-    const mappingLookup = new Map(mappings.map(m => [m.shift_type, m.earning_code]));
+    const awardMultipliersMap = new Map(
+      (awards || []).map(a => [a.id, getAwardMultipliers(a)])
+    );
+
+    const employeeMap = new Map(
+      (employees || []).map(e => [
+        e.id,
+        {
+          name: `${e.first_name} ${e.last_name}`,
+          email: e.email,
+          workState: e.work_state,
+          overtimeRules: e.award_classification_id
+            ? overtimeRulesMap.get(e.award_classification_id) || null
+            : null,
+          awardMultipliers: e.award_classification_id
+            ? awardMultipliersMap.get(e.award_classification_id) || null
+            : null,
+        },
+      ])
+    );
 
     // Validate each timesheet
     const validatedTimesheets: TimesheetForExport[] = [];
+    const exportedTimesheets: TimesheetForExport[] = [];
     const seenEmployeeDates = new Map<string, string[]>();
 
     for (const ts of timesheets || []) {
@@ -242,6 +339,9 @@ class PayrollExportService {
       const employeeName = emp?.name || 'Unknown';
       const employeeEmail = emp?.email;
 
+      // A rejected timesheet isn't paid; an adjustment reverses it if it was
+      if (ts.status === 'rejected' && exportType === 'adjustment') continue;
+
       // Check if approved
       if (ts.status !== 'approved') {
         errors.push({
@@ -253,8 +353,32 @@ class PayrollExportService {
         continue;
       }
 
+      const forExport: TimesheetForExport = {
+        id: ts.id,
+        employee_id: ts.employee_id,
+        employee_name: employeeName,
+        employee_email: employeeEmail,
+        date: ts.date,
+        clock_in: ts.clock_in,
+        clock_out: ts.clock_out,
+        break_minutes: ts.break_minutes || 0,
+        total_hours: ts.total_hours,
+        status: ts.status,
+        notes: ts.notes,
+        is_locked: ts.is_locked || false,
+        exported_at: ts.exported_at,
+        overtime_rules: emp?.overtimeRules,
+        award_multipliers: emp?.awardMultipliers,
+        is_public_holiday: isPublicHoliday(ts.date, publicHolidays, emp?.workState),
+      };
+
       // Check if already exported
       if (ts.is_locked && ts.exported_at) {
+        if (exportType === 'adjustment') {
+          // Already paid, but still needed to interpret overtime across the period
+          exportedTimesheets.push(forExport);
+          continue;
+        }
         warnings.push({
           type: 'duplicate',
           message: `Timesheet for ${employeeName} on ${ts.date} was already exported`,
@@ -275,16 +399,6 @@ class PayrollExportService {
         });
       }
 
-      // Check for shift type mapping (default to 'standard')
-      const shiftType = 'standard'; // Could be enhanced to detect shift type
-      if (!mappingLookup.has(shiftType)) {
-        errors.push({
-          type: 'missing_mapping',
-          message: `No payroll mapping found for shift type: ${shiftType}`,
-          shiftType,
-        });
-      }
-
       // Check for duplicates on same day
       const key = `${ts.employee_id}-${ts.date}`;
       if (!seenEmployeeDates.has(key)) {
@@ -313,32 +427,216 @@ class PayrollExportService {
         });
       }
 
-      validatedTimesheets.push({
-        id: ts.id,
-        employee_id: ts.employee_id,
-        employee_name: employeeName,
-        employee_email: employeeEmail,
-        date: ts.date,
-        clock_in: ts.clock_in,
-        clock_out: ts.clock_out,
-        break_minutes: ts.break_minutes || 0,
-        total_hours: ts.total_hours,
-        status: ts.status,
-        notes: ts.notes,
-        shift_type: shiftType,
-        is_locked: ts.is_locked || false,
-        exported_at: ts.exported_at,
+      validatedTimesheets.push(forExport);
+    }
+
+    // An adjustment carries only the hours that differ from what the exports
+    // in force already paid, including knock-on overtime changes on
+    // timesheets that were exported before
+    let lines: PayrollExportLine[];
+    let exportTimesheets = validatedTimesheets;
+    if (exportType === 'adjustment') {
+      const periodTimesheets = [...validatedTimesheets, ...exportedTimesheets];
+      const paid = await this.getExportedPay(activeExports.map(e => e.id));
+      const employeeAwardMultipliers = new Map<string, Record<PenaltyBucket, number>>();
+      for (const [employeeId, emp] of employeeMap) {
+        if (emp.awardMultipliers) employeeAwardMultipliers.set(employeeId, emp.awardMultipliers);
+      }
+      lines = buildAdjustmentLines(
+        this.buildExportLines(periodTimesheets, mappings, earlierTimesheets),
+        paid.hours,
+        mappings,
+        paid.shifts,
+        employeeAwardMultipliers
+      );
+      const changedIds = new Set(lines.map(l => l.timesheet_id));
+      exportTimesheets = periodTimesheets.filter(t => changedIds.has(t.id));
+    } else {
+      lines = this.buildExportLines(validatedTimesheets, mappings, earlierTimesheets);
+    }
+
+    // Every penalty bucket the period falls into needs an earning code mapping
+    const mappedShiftTypes = new Set(
+      mappings.filter(m => m.is_active !== false).map(m => m.shift_type)
+    );
+    const missingShiftTypes = new Set(
+      lines.map(l => l.shift_type).filter(bucket => !mappedShiftTypes.has(bucket))
+    );
+
+    for (const bucket of missingShiftTypes) {
+      errors.push({
+        type: 'missing_mapping',
+        message: `No payroll mapping found for shift type: ${bucket}`,
+        shiftType: bucket,
       });
     }
 
+    if (provider === 'internal_payslips') {
+      errors.push(...(await this.validatePayslipDetails(organisationId, exportTimesheets, employees || [], lines)));
+    }
+
+    const reconciliation = await this.reconcilePayPeriod(
+      organisationId,
+      payPeriod,
+      timesheets || [],
+      exportTimesheets,
+      employees || []
+    );
+
     return {
       isValid: errors.length === 0,
       errors,
       warnings,
-      timesheets: validatedTimesheets,
+      timesheets: exportTimesheets,
+      lines,
+      reconciliation,
+      exportType,
+      previousExportId: previousExport?.id || null,
     };
   }
 
+  /**
+   * Paying employees directly needs an award to price their hours, a bank
+   * account to pay into and the organisation's direct entry details.
+   */
+  private async validatePayslipDetails(
+    organisationId: string,
+    timesheets: TimesheetForExport[],
+    employees: { id: string; first_name: string; last_name: string; award_classification_id: string | null }[],
+    lines: PayrollExportLine[]
+  ): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
+    const employeeIds = new Set(timesheets.map(t => t.employee_id));
+
+    const [settings, accounts] = await Promise.all([
+      this.getBankSettings(organisationId),
+      this.getBankAccounts([...employeeIds]),
+    ]);
+
+    if (!settings) {
+      errors.push({
+        type: 'missing_bank_details',
+        message: 'Bank file settings have not been set up for this organisation',
+      });
+    }
+
+    const accountEmployeeIds = new Set(accounts.map(a => a.employee_id));
+    for (const emp of employees) {
+      if (!employeeIds.has(emp.id)) continue;
+      const employeeName = `${emp.first_name} ${emp.last_name}`;
+
+      if (!emp.award_classification_id) {
+        errors.push({
+          type: 'missing_pay_rate',
+          message: `Employee ${employeeName} has no award classification to calculate pay from`,
+          employeeId: emp.id,
+          employeeName,
+        });
+      }
+      if (!accountEmployeeIds.has(emp.id)) {
+        errors.push({
+          type: 'missing_bank_details',
+          message: `Employee ${employeeName} has no bank account for payment`,
+          employeeId: emp.id,
+          employeeName,
+        });
+      }
+    }
+
+    errors.push(...(await this.validateNetPay(lines)));
+    return errors;
+  }
+
+  /**
+   * Adjustment lines taking pay back are netted against the rest of each
+   * employee's pay. A bank file can only pay money out, so an employee
+   * whose pay nets below zero blocks the export rather than being left out.
+   */
+  private async validateNetPay(lines: PayrollExportLine[]): Promise<ValidationError[]> {
+    if (!lines.some(l => l.hours < 0)) return [];
+
+    const employeeIds = [...new Set(lines.map(l => l.employee_id))];
+    const { data: employees, error } = await supabase
+      .from('employees')
+      .select('id, first_name, last_name, award_classifications(*)')
+      .in('id', employeeIds);
+
+    if (error) throw error;
+
+    const errors: ValidationError[] = [];
+    for (const emp of employees || []) {
+      if (!emp.award_classifications) continue;
+      const payslip = buildPayslip(lines.filter(l => l.employee_id === emp.id), emp.award_classifications);
+      if (payslip.gross_pay >= 0) continue;
+
+      const employeeName = `${emp.first_name} ${emp.last_name}`;
+      errors.push({
+        type: 'negative_pay',
+        message: `Corrections take $${Math.abs(payslip.gross_pay).toFixed(2)} more from ${employeeName} than this export pays them. Void the earlier export and export the period again, or recover the overpayment outside the bank file.`,
+        employeeId: emp.id,
+        employeeName,
+      });
+    }
+    return errors;
+  }
+
+  /**
+   * Cross-checks the pay period against leave, employee status and
+   * compliance. Findings are informational - they don't block the export.
+   */
+  private async reconcilePayPeriod(
+    organisationId: string,
+    payPeriod: { start_date: string; end_date: string },
+    allTimesheets: { employee_id: string }[],
+    exportTimesheets: TimesheetForExport[],
+    employees: ReconciliationEmployee[]
+  ): Promise<ReconciliationIssue[]> {
+    // Approved leave overlapping a worked day
+    const { data: leave } = await supabase
+      .from('leave_requests')
+      .select('id, employee_id, type, start_date, end_date')
+      .eq('organisation_id', organisationId)
+      .eq('status', 'approved')
+      .lte('start_date', payPeriod.end_date)
+      .gte('end_date', payPeriod.start_date);
+
+    // Active employees with no timesheets in the period
+    const { data: activeEmployees } = await supabase
+      .from('employees')
+      .select('id, first_name, last_name, status, start_date')
+      .eq('organisation_id', organisationId)
+      .eq('status', 'active');
+
+    const issues: ReconciliationIssue[] = [
+      ...findLeaveOverlaps(exportTimesheets, leave || []),
+      ...findMissingTimesheets(activeEmployees || [], allTimesheets, payPeriod.end_date),
+      // Timesheets dated after the employee was deactivated
+      ...findInactiveEmployeeTimesheets(exportTimesheets, employees),
+    ];
+
+    // Shifts worked while missing required certifications
+    const nonCompliant = await complianceService.evaluateComplianceOnDates(
+      exportTimesheets.map(ts => ({ employeeId: ts.employee_id, date: ts.date }))
+    );
+    for (const ts of exportTimesheets) {
+      const blocking = nonCompliant.get(`${ts.employee_id}|${ts.date}`);
+      if (!blocking) continue;
+      const reasons = blocking
+        .map(b => `${complianceService.getCertificationDisplayName(b.type)} ${complianceService.getStatusDisplay(b.status).label.toLowerCase()}`)
+        .join(', ');
+      issues.push({
+        type: 'non_compliant_shift',
+        message: `${ts.employee_name} worked on ${ts.date} while non-compliant: ${reasons}`,
+        employeeId: ts.employee_id,
+        employeeName: ts.employee_name || 'Unknown',
+        date: ts.date,
+        timesheetId: ts.id,
+      });
+    }
+
+    return issues;
+  }
+
   // =====================================================
   // Payroll Exports
   // =====================================================
@@ -374,6 +672,63 @@ class PayrollExportService {
     };
   }
 
+  /**
+   * Exports still in force for a pay period, most recent first.
+   */
+  private async getActiveExports(payPeriodId: string): Promise<{ id: string; created_at: string }[]> {
+    const { data, error } = await supabase
+      .from('payroll_exports')
+      .select('id, created_at')
+      .eq('pay_period_id', payPeriodId)
+      .eq('status', 'generated')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Hours per bucket already paid for each timesheet by the given exports,
+   * and the shift each was last paid for.
+   */
+  private async getExportedPay(
+    exportIds: string[]
+  ): Promise<{ hours: Map<string, Partial<BucketHours>>; shifts: Map<string, ExportedShift> }> {
+    const hours = new Map<string, Partial<BucketHours>>();
+    const shifts = new Map<string, ExportedShift>();
+    if (exportIds.length === 0) return { hours, shifts };
+
+    const { data, error } = await supabase
+      .from('payroll_export_timesheets')
+      .select('timesheet_id, employee_id, work_date, clock_in, clock_out, break_minutes, bucket_hours, employees(first_name, last_name, email)')
+      .in('payroll_export_id', exportIds)
+      .order('created_at');
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const totals = hours.get(row.timesheet_id) || {};
+      for (const [bucket, value] of Object.entries((row.bucket_hours || {}) as Record<string, number>)) {
+        totals[bucket as keyof BucketHours] = (totals[bucket as keyof BucketHours] || 0) + value;
+      }
+      hours.set(row.timesheet_id, totals);
+
+      shifts.set(row.timesheet_id, {
+        timesheet_id: row.timesheet_id,
+        employee_id: row.employee_id,
+        employee_name: row.employees ? `${row.employees.first_name} ${row.employees.last_name}` : undefined,
+        employee_email: row.employees?.email ?? undefined,
+        date: row.work_date,
+        clock_in: row.clock_in,
+        clock_out: row.clock_out,
+        break_minutes: row.break_minutes,
+        notes: null,
+      });
+    }
+
+    return { hours, shifts };
+  }
+
   async generateExport(
     organisationId: string,
     input: GenerateExportInput,
@@ -383,24 +738,91 @@ class PayrollExportService {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
-    // Generate CSV content
-    const csvContent = this.generateCSVContent(input.provider, timesheets, mappings);
-    
-    // Upload to storage
-    const fileName = `export_${input.pay_period_id}_${input.provider}_${Date.now()}.csv`;
-    const filePath = `${organisationId}/${fileName}`;
+    // Interpret each timesheet into one earning line per penalty bucket. An
+    // adjustment is re-derived against what's been paid at generation time.
+    const activeExports = await this.getActiveExports(input.pay_period_id);
+    const previousExport = activeExports[0] || null;
+    const exportType: PayrollExportType = previousExport ? 'adjustment' : 'full';
+
+    let lines: PayrollExportLine[];
+    let exportTimesheets = timesheets;
+    if (exportType === 'adjustment') {
+      const adjustment = await this.validateExport(
+        organisationId,
+        input.pay_period_id,
+        mappings,
+        input.provider
+      );
+      if (!adjustment.isValid) {
+        throw new Error(adjustment.errors[0]?.message || 'Export validation failed');
+      }
+      lines = adjustment.lines;
+      exportTimesheets = adjustment.timesheets;
+      if (lines.length === 0) {
+        throw new Error('No timesheets have changed since the previous export');
+      }
+    } else {
+      const { data: payPeriod, error: ppError } = await supabase
+        .from('pay_periods')
+        .select('start_date')
+        .eq('id', input.pay_period_id)
+        .single();
+
+      if (ppError) throw ppError;
+
+      const earlierTimesheets = await this.getEarlierWeekTimesheets(
+        organisationId,
+        payPeriod.start_date,
+        [...new Set(timesheets.map(t => t.employee_id))]
+      );
+      lines = this.buildExportLines(timesheets, mappings, earlierTimesheets);
+    }
 
-    const { error: uploadError } = await supabase.storage
-      .from('payroll-exports')
-      .upload(filePath, new Blob([csvContent], { type: 'text/csv' }));
+    // Generate the export files
+    const exportName = `export_${input.pay_period_id}_${input.provider}_${Date.now()}`;
+    let files: { path: string; blob: Blob }[];
+    let totalEarnings: number | undefined;
+
+    if (input.provider === 'internal_payslips') {
+      const payslipFiles = await this.generatePayslipFiles(
+        organisationId,
+        input.pay_period_id,
+        `${organisationId}/${exportName}`,
+        lines
+      );
+      files = payslipFiles.files;
+      totalEarnings = payslipFiles.totalEarnings;
+    } else {
+      const csvContent = this.generateCSVContent(input.provider, lines);
+      files = [
+        {
+          path: `${organisationId}/${exportName}.csv`,
+          blob: new Blob([csvContent], { type: 'text/csv' }),
+        },
+      ];
+    }
+
+    // Upload to storage
+    for (const file of files) {
+      const { error: uploadError } = await supabase.storage
+        .from('payroll-exports')
+        .upload(file.path, file.blob);
 
-    if (uploadError) throw uploadError;
+      if (uploadError) throw uploadError;
+    }
 
     // Calculate summary
     const summary: PayrollExportSummary = {
-      totalHours: timesheets.reduce((sum, t) => sum + (t.total_hours || 0), 0),
-      employeesCount: new Set(timesheets.map(t => t.employee_id)).size,
-      linesCount: timesheets.length,
+      totalHours:
+        exportType === 'adjustment'
+          ? Math.round(lines.reduce((sum, l) => sum + l.hours, 0) * 100) / 100
+          : exportTimesheets.reduce((sum, t) => sum + (t.total_hours || 0), 0),
+      employeesCount:
+        exportType === 'adjustment'
+          ? new Set(lines.map(l => l.employee_id)).size
+          : new Set(exportTimesheets.map(t => t.employee_id)).size,
+      linesCount: lines.length,
+      totalEarnings,
     };
 
     // Create export record
@@ -410,7 +832,9 @@ class PayrollExportService {
         organisation_id: organisationId,
         pay_period_id: input.pay_period_id,
         provider: input.provider,
-        file_urls: [filePath] as Json,
+        export_type: exportType,
+        previous_export_id: previousExport?.id || null,
+        file_urls: files.map(f => f.path) as Json,
         totals_summary: summary as unknown as Json,
         created_by_user_id: user.id,
         created_by_name: user.user_metadata?.display_name || user.email,
@@ -421,8 +845,37 @@ class PayrollExportService {
 
     if (exportError) throw exportError;
 
+    // Record what this export paid per timesheet, so later adjustments and
+    // voids know what's in force
+    const paidHours = sumBucketHoursByTimesheet(lines);
+    const shiftByTimesheet = new Map(lines.map(l => [l.timesheet_id, l]));
+    if (paidHours.size > 0) {
+      const { error: paidError } = await supabase
+        .from('payroll_export_timesheets')
+        .insert(
+          [...paidHours].map(([timesheetId, hours]) => {
+            const shift = shiftByTimesheet.get(timesheetId)!;
+            return {
+              organisation_id: organisationId,
+              payroll_export_id: exportRecord.id,
+              timesheet_id: timesheetId,
+              employee_id: shift.employee_id,
+              work_date: shift.date,
+              clock_in: shift.clock_in,
+              clock_out: shift.clock_out,
+              break_minutes: shift.break_minutes,
+              bucket_hours: Object.fromEntries(
+                Object.entries(hours).filter(([, value]) => value !== 0)
+              ) as Json,
+            };
+          })
+        );
+
+      if (paidError) throw paidError;
+    }
+
     // Lock timesheets
-    const timesheetIds = timesheets.map(t => t.id);
+    const timesheetIds = exportTimesheets.map(t => t.id);
     await supabase.rpc('lock_timesheets_for_export', {
       _timesheet_ids: timesheetIds,
       _pay_period_id: input.pay_period_id,
@@ -439,9 +892,13 @@ class PayrollExportService {
       organisationId,
       afterState: {
         provider: input.provider,
+        export_type: exportType,
+        previous_export_id: previousExport?.id || null,
         timesheets_count: timesheetIds.length,
         total_hours: summary.totalHours,
         employees_count: summary.employeesCount,
+        total_earnings: summary.totalEarnings,
+        files_count: files.length,
       },
     });
 
@@ -452,24 +909,191 @@ class PayrollExportService {
     } as PayrollExport;
   }
 
+  /**
+   * Splits approved timesheets into award earning lines (ordinary, evening,
+   * night, weekend, public holiday, overtime) using the shared interpreter.
+   * Each employee's timesheets are interpreted together so overtime
+   * thresholds apply across the whole pay period, counting the shifts from
+   * earlier in the first week towards the weekly threshold.
+   */
+  buildExportLines(
+    timesheets: TimesheetForExport[],
+    mappings: PayrollMapping[],
+    earlierTimesheets: TimesheetForExport[] = []
+  ): PayrollExportLine[] {
+    const byEmployee = new Map<string, TimesheetForExport[]>();
+    for (const ts of timesheets) {
+      if (!byEmployee.has(ts.employee_id)) {
+        byEmployee.set(ts.employee_id, []);
+      }
+      byEmployee.get(ts.employee_id)!.push(ts);
+    }
+
+    return [...byEmployee.values()].flatMap(employeeTimesheets =>
+      buildEarningLines(
+        employeeTimesheets,
+        mappings,
+        employeeTimesheets[0].overtime_rules,
+        earlierTimesheets.filter(t => t.employee_id === employeeTimesheets[0].employee_id)
+      )
+    );
+  }
+
+  /**
+   * Approved timesheets from the Monday of the week the pay period starts in
+   * up to the day before it starts. They were paid in the previous period
+   * but count towards this period's weekly overtime threshold.
+   */
+  private async getEarlierWeekTimesheets(
+    organisationId: string,
+    periodStart: string,
+    employeeIds: string[]
+  ): Promise<TimesheetForExport[]> {
+    const weekStart = getWeekStart(periodStart);
+    if (weekStart === periodStart || employeeIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('timesheets')
+      .select('id, employee_id, date, clock_in, clock_out, break_minutes, total_hours, status, notes, is_locked, exported_at')
+      .eq('organisation_id', organisationId)
+      .eq('status', 'approved')
+      .in('employee_id', employeeIds)
+      .gte('date', weekStart)
+      .lt('date', periodStart);
+
+    if (error) throw error;
+
+    return (data || []).map(ts => ({
+      ...ts,
+      break_minutes: ts.break_minutes || 0,
+      is_locked: ts.is_locked || false,
+    }));
+  }
+
+  /**
+   * Prices each employee's lines from their award and writes a PDF payslip
+   * per employee plus one ABA file paying everyone's gross pay.
+   */
+  private async generatePayslipFiles(
+    organisationId: string,
+    payPeriodId: string,
+    folder: string,
+    lines: PayrollExportLine[]
+  ): Promise<{ files: { path: string; blob: Blob }[]; totalEarnings: number }> {
+    const employeeIds = [...new Set(lines.map(l => l.employee_id))];
+
+    const [{ data: payPeriod, error: ppError }, { data: organisation }, { data: employees }, settings, accounts] =
+      await Promise.all([
+        supabase.from('pay_periods').select('start_date, end_date').eq('id', payPeriodId).single(),
+        supabase.from('organisations').select('legal_name, trading_name').eq('id', organisationId).maybeSingle(),
+        supabase.from('employees').select('id, last_name, award_classification_id').in('id', employeeIds),
+        this.getBankSettings(organisationId),
+        this.getBankAccounts(employeeIds),
+      ]);
+
+    if (ppError || !payPeriod) throw ppError || new Error('Pay period not found');
+    if (!settings) throw new Error('Bank file settings have not been set up');
+
+    const awardIds = [
+      ...new Set((employees || []).map(e => e.award_classification_id).filter(Boolean)),
+    ] as string[];
+    const { data: awards, error: awardError } = awardIds.length
+      ? await supabase.from('award_classifications').select('*').in('id', awardIds)
+      : { data: [], error: null };
+
+    if (awardError) throw awardError;
+
+    const awardMap = new Map<string, AwardRates>((awards || []).map(a => [a.id, a]));
+    const employeeMap = new Map((employees || []).map(e => [e.id, e]));
+    const accountMap = new Map(accounts.map(a => [a.employee_id, a]));
+    const paymentDate = new Date().toISOString().slice(0, 10);
+    const organisationName = organisation?.trading_name || organisation?.legal_name || '';
+
+    const files: { path: string; blob: Blob }[] = [];
+    const payments: AbaPayment[] = [];
+    let totalEarnings = 0;
+
+    for (const employeeId of employeeIds) {
+      const employee = employeeMap.get(employeeId);
+      const award = employee?.award_classification_id
+        ? awardMap.get(employee.award_classification_id)
+        : undefined;
+      const account = accountMap.get(employeeId);
+      if (!award || !account) {
+        throw new Error(`Employee ${employeeId} is missing an award classification or bank account`);
+      }
+
+      const payslip = buildPayslip(
+        lines.filter(l => l.employee_id === employeeId),
+        award
+      );
+      if (payslip.gross_pay < 0) {
+        throw new Error(`Corrections take more from ${payslip.employee_name} than this export pays them`);
+      }
+      totalEarnings += payslip.gross_pay;
+
+      const fileSlug = (employee?.last_name || 'employee').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      files.push({
+        path: `${folder}/payslip_${fileSlug}_${employeeId.slice(0, 8)}.pdf`,
+        blob: renderPayslipPdf(payslip, {
+          organisationName,
+          periodStart: payPeriod.start_date,
+          periodEnd: payPeriod.end_date,
+          paymentDate,
+          account: { bsb: account.bsb, account_number: account.account_number },
+        }),
+      });
+
+      payments.push({
+        bsb: account.bsb,
+        accountNumber: account.account_number,
+        accountName: account.account_name,
+        amountCents: Math.round(payslip.gross_pay * 100),
+        lodgementReference: `PAY ${payPeriod.end_date}`,
+      });
+    }
+
+    const abaContent = buildAbaFile({
+      header: {
+        financialInstitution: settings.financial_institution,
+        userName: settings.user_name,
+        apcaUserId: settings.apca_user_id,
+        description: 'PAYROLL',
+        processingDate: paymentDate,
+      },
+      payments,
+      funding: {
+        bsb: settings.bsb,
+        accountNumber: settings.account_number,
+        accountName: settings.account_name,
+      },
+      remitterName: settings.remitter_name,
+    });
+
+    // The bank file goes first so it's the default download
+    files.unshift({
+      path: `${folder}/bank_file.aba`,
+      blob: new Blob([abaContent], { type: 'text/plain' }),
+    });
+
+    return { files, totalEarnings: Math.round(totalEarnings * 100) / 100 };
+  }
+
   private generateCSVContent(
     provider: PayrollProvider,
-    timesheets: TimesheetForExport[],
-    mappings: PayrollMapping[]
+    lines: PayrollExportLine[]
   ): string {
-    const mappingLookup = new Map(mappings.map(m => [m.shift_type, m.earning_code]));
-
     switch (provider) {
       case 'generic_csv':
-        return this.generateGenericCSV(timesheets, mappingLookup);
+        return this.generateGenericCSV(lines);
       case 'keypay':
-        return this.generateKeyPayCSV(timesheets, mappingLookup);
+        return this.generateKeyPayCSV(lines);
       case 'xero':
-        return this.generateXeroCSV(timesheets, mappingLookup);
+        return this.generateXeroCSV(lines);
       case 'myob':
-        return this.generateMYOBCSV(timesheets, mappingLookup);
+        return this.generateMYOBCSV(lines);
       default:
-        return this.generateGenericCSV(timesheets, mappingLookup);
+        return this.generateGenericCSV(lines);
     }
   }
 
@@ -482,10 +1106,7 @@ class PayrollExportService {
     return str;
   }
 
-  private generateGenericCSV(
-    timesheets: TimesheetForExport[],
-    mappingLookup: Map<string, string>
-  ): string {
+  private generateGenericCSV(lines: PayrollExportLine[]): string {
     const headers = [
       'employee_email',
       'employee_name',
@@ -495,30 +1116,35 @@ class PayrollExportService {
       'break_minutes',
       'hours',
       'earning_code',
+      'multiplier',
       'cost_center',
       'notes',
     ];
 
-    const rows = timesheets.map(ts => [
-      this.escapeCSV(ts.employee_email),
-      this.escapeCSV(ts.employee_name),
-      this.escapeCSV(ts.date),
-      this.escapeCSV(ts.clock_in),
-      this.escapeCSV(ts.clock_out),
-      this.escapeCSV(ts.break_minutes),
-      this.escapeCSV(ts.total_hours?.toFixed(2)),
-      this.escapeCSV(mappingLookup.get(ts.shift_type || 'standard') || 'ORD'),
-      '', // cost_center
-      this.escapeCSV(ts.notes),
-    ]);
+    // Break minutes are reported once per timesheet so split shifts don't double count them
+    const seenTimesheets = new Set<string>();
+    const rows = lines.map(line => {
+      const isFirstLine = !seenTimesheets.has(line.timesheet_id);
+      seenTimesheets.add(line.timesheet_id);
+      return [
+        this.escapeCSV(line.employee_email),
+        this.escapeCSV(line.employee_name),
+        this.escapeCSV(line.date),
+        this.escapeCSV(line.clock_in),
+        this.escapeCSV(line.clock_out),
+        this.escapeCSV(isFirstLine ? line.break_minutes : 0),
+        this.escapeCSV(line.hours.toFixed(2)),
+        this.escapeCSV(line.earning_code),
+        this.escapeCSV(line.multiplier),
+        '', // cost_center
+        this.escapeCSV(line.notes),
+      ];
+    });
 
     return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
   }
 
-  private generateKeyPayCSV(
-    timesheets: TimesheetForExport[],
-    mappingLookup: Map<string, string>
-  ): string {
+  private generateKeyPayCSV(lines: PayrollExportLine[]): string {
     const headers = [
       'Employee Email',
       'Location',
@@ -528,22 +1154,19 @@ class PayrollExportService {
       'Notes',
     ];
 
-    const rows = timesheets.map(ts => [
-      this.escapeCSV(ts.employee_email),
+    const rows = lines.map(line => [
+      this.escapeCSV(line.employee_email),
       '', // Location
-      this.escapeCSV(ts.date),
-      this.escapeCSV(mappingLookup.get(ts.shift_type || 'standard') || 'Ordinary Hours'),
-      this.escapeCSV(ts.total_hours?.toFixed(2)),
-      this.escapeCSV(ts.notes),
+      this.escapeCSV(line.date),
+      this.escapeCSV(line.earning_code),
+      this.escapeCSV(line.hours.toFixed(2)),
+      this.escapeCSV(line.notes),
     ]);
 
     return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
   }
 
-  private generateXeroCSV(
-    timesheets: TimesheetForExport[],
-    mappingLookup: Map<string, string>
-  ): string {
+  private generateXeroCSV(lines: PayrollExportLine[]): string {
     const headers = [
       'Employee Email',
       'Earnings Rate Code',
@@ -551,20 +1174,17 @@ class PayrollExportService {
       'Date',
     ];
 
-    const rows = timesheets.map(ts => [
-      this.escapeCSV(ts.employee_email),
-      this.escapeCSV(mappingLookup.get(ts.shift_type || 'standard') || 'ORD'),
-      this.escapeCSV(ts.total_hours?.toFixed(2)),
-      this.escapeCSV(ts.date),
+    const rows = lines.map(line => [
+      this.escapeCSV(line.employee_email),
+      this.escapeCSV(line.earning_code),
+      this.escapeCSV(line.hours.toFixed(2)),
+      this.escapeCSV(line.date),
     ]);
 
     return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
   }
 
-  private generateMYOBCSV(
-    timesheets: TimesheetForExport[],
-    mappingLookup: Map<string, string>
-  ): string {
+  private generateMYOBCSV(lines: PayrollExportLine[]): string {
     const headers = [
       'Employee Email',
       'Payroll Category',
@@ -572,16 +1192,128 @@ class PayrollExportService {
       'Date',
     ];
 
-    const rows = timesheets.map(ts => [
-      this.escapeCSV(ts.employee_email),
-      this.escapeCSV(mappingLookup.get(ts.shift_type || 'standard') || 'Base Hourly'),
-      this.escapeCSV(ts.total_hours?.toFixed(2)),
-      this.escapeCSV(ts.date),
+    const rows = lines.map(line => [
+      this.escapeCSV(line.employee_email),
+      this.escapeCSV(line.earning_code),
+      this.escapeCSV(line.hours.toFixed(2)),
+      this.escapeCSV(line.date),
     ]);
 
     return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
   }
 
+  // =====================================================
+  // Bank Details
+  // =====================================================
+
+  async getBankSettings(organisationId: string): Promise<PayrollBankSettings | null> {
+    const { data, error } = await supabase
+      .from('payroll_bank_settings')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as PayrollBankSettings | null;
+  }
+
+  async saveBankSettings(
+    organisationId: string,
+    input: SavePayrollBankSettingsInput
+  ): Promise<PayrollBankSettings> {
+    const { data, error } = await supabase
+      .from('payroll_bank_settings')
+      .upsert(
+        {
+          organisation_id: organisationId,
+          ...input,
+          financial_institution: input.financial_institution.toUpperCase(),
+          bsb: input.bsb.replace(/\D/g, ''),
+        },
+        { onConflict: 'organisation_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await auditService.log({
+      action: 'payroll_bank_settings.update',
+      entityType: 'setting',
+      entityId: data.id,
+      organisationId,
+      afterState: {
+        financial_institution: data.financial_institution,
+        apca_user_id: data.apca_user_id,
+        bsb: data.bsb,
+        account_number_last3: data.account_number.slice(-3),
+      },
+    });
+
+    return data as PayrollBankSettings;
+  }
+
+  async getBankAccounts(employeeIds: string[]): Promise<EmployeeBankAccount[]> {
+    if (employeeIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('employee_bank_accounts')
+      .select('*')
+      .in('employee_id', employeeIds);
+
+    if (error) throw error;
+    return (data || []) as EmployeeBankAccount[];
+  }
+
+  /**
+   * Creates or replaces an employee's bank account. Only the last three
+   * digits of the account number go to the audit log.
+   */
+  async saveBankAccount(
+    organisationId: string,
+    employeeId: string,
+    input: SaveEmployeeBankAccountInput
+  ): Promise<EmployeeBankAccount> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const [existing] = await this.getBankAccounts([employeeId]);
+
+    const { data, error } = await supabase
+      .from('employee_bank_accounts')
+      .upsert(
+        {
+          organisation_id: organisationId,
+          employee_id: employeeId,
+          account_name: input.account_name,
+          bsb: input.bsb.replace(/\D/g, ''),
+          account_number: input.account_number.trim(),
+          updated_by_user_id: user?.id || null,
+        },
+        { onConflict: 'employee_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await auditService.log({
+      action: 'employee_bank_account.update',
+      entityType: 'employee_bank_account',
+      entityId: data.id,
+      organisationId,
+      beforeState: existing
+        ? { bsb: existing.bsb, account_number_last3: existing.account_number.slice(-3) }
+        : undefined,
+      afterState: {
+        employee_id: employeeId,
+        bsb: data.bsb,
+        account_number_last3: data.account_number.slice(-3),
+      },
+    });
+
+    return data as EmployeeBankAccount;
+  }
+
   // =====================================================
   // Export Download & Void
   // =====================================================
@@ -595,10 +1327,42 @@ class PayrollExportService {
     return data.signedUrl;
   }
 
+  /**
+   * Voids an export and releases the locks on the timesheets it paid, so
+   * they can be corrected and exported again. Adjustments have to be voided
+   * newest first. When nothing is left in force the pay period reopens.
+   */
   async voidExport(exportId: string, reason: string): Promise<PayrollExport> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
+    const { data: target, error: targetError } = await supabase
+      .from('payroll_exports')
+      .select('pay_period_id')
+      .eq('id', exportId)
+      .single();
+
+    if (targetError) throw targetError;
+
+    const { data: periodExports, error: periodError } = await supabase
+      .from('payroll_exports')
+      .select('id, status, previous_export_id')
+      .eq('pay_period_id', target.pay_period_id);
+
+    if (periodError) throw periodError;
+
+    const plan = planExportVoid(exportId, (periodExports || []) as PeriodExport[]);
+    if (plan.blockedReason) throw new Error(plan.blockedReason);
+
+    // Release the locks before voiding: if this fails the export is still in
+    // force and the void can be retried, and releasing twice is harmless
+    const { data: releasedCount, error: releaseError } = await supabase.rpc(
+      'release_export_timesheet_locks',
+      { _export_id: exportId }
+    );
+
+    if (releaseError) throw releaseError;
+
     const { data, error } = await supabase
       .from('payroll_exports')
       .update({
@@ -614,12 +1378,21 @@ class PayrollExportService {
 
     if (error) throw error;
 
+    if (plan.reopenPeriod) {
+      await this.updatePayPeriodStatus(data.pay_period_id, 'open');
+    }
+
     await auditService.log({
       action: 'payroll_export.void',
       entityType: 'payroll_export',
       entityId: exportId,
       organisationId: data.organisation_id,
-      afterState: { reason, voided_at: data.voided_at },
+      afterState: {
+        reason,
+        voided_at: data.voided_at,
+        export_type: data.export_type,
+        released_timesheets: releasedCount ?? 0,
+      },
     });
 
     return {
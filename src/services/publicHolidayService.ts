@@ -0,0 +1,136 @@
+/**
+ * Public Holiday Service
+ * Manages the organisation's public holiday calendar
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { auditService } from '@/services/auditService';
+import type {
+  CreatePublicHolidayInput,
+  ParsedPublicHoliday,
+  PublicHoliday,
+  PublicHolidaySource,
+} from '@/types/publicHolidays';
+
+class PublicHolidayService {
+  // =====================================================
+  // Calendar
+  // =====================================================
+
+  async getHolidays(
+    organisationId: string,
+    range?: { from: string; to: string }
+  ): Promise<PublicHoliday[]> {
+    let query = supabase
+      .from('public_holidays')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('holiday_date');
+
+    if (range) {
+      query = query.gte('holiday_date', range.from).lte('holiday_date', range.to);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as PublicHoliday[];
+  }
+
+  async createHoliday(
+    organisationId: string,
+    input: CreatePublicHolidayInput
+  ): Promise<PublicHoliday> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('public_holidays')
+      .insert({
+        organisation_id: organisationId,
+        holiday_date: input.holiday_date,
+        name: input.name,
+        regions: input.regions || [],
+        source: 'manual',
+        created_by_user_id: user?.id || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await auditService.log({
+      action: 'public_holiday.create',
+      entityType: 'public_holiday',
+      entityId: data.id,
+      organisationId,
+      afterState: { holiday_date: data.holiday_date, name: data.name, regions: data.regions },
+    });
+
+    return data as PublicHoliday;
+  }
+
+  async deleteHoliday(holiday: PublicHoliday): Promise<void> {
+    const { error } = await supabase
+      .from('public_holidays')
+      .delete()
+      .eq('id', holiday.id);
+
+    if (error) throw error;
+
+    await auditService.log({
+      action: 'public_holiday.delete',
+      entityType: 'public_holiday',
+      entityId: holiday.id,
+      organisationId: holiday.organisation_id,
+      beforeState: { holiday_date: holiday.holiday_date, name: holiday.name, regions: holiday.regions },
+    });
+  }
+
+  /**
+   * Saves parsed holidays. A holiday already in the calendar (same date and
+   * name) has its regions replaced by the imported ones.
+   */
+  async importHolidays(
+    organisationId: string,
+    holidays: ParsedPublicHoliday[],
+    source: Exclude<PublicHolidaySource, 'manual'>
+  ): Promise<number> {
+    if (holidays.length === 0) return 0;
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('public_holidays')
+      .upsert(
+        holidays.map(h => ({
+          organisation_id: organisationId,
+          holiday_date: h.holiday_date,
+          name: h.name,
+          regions: h.regions,
+          source,
+          created_by_user_id: user?.id || null,
+        })),
+        { onConflict: 'organisation_id,holiday_date,name' }
+      )
+      .select('id');
+
+    if (error) throw error;
+
+    const dates = holidays.map(h => h.holiday_date).sort();
+    await auditService.log({
+      action: 'public_holiday.import',
+      entityType: 'public_holiday',
+      entityId: organisationId,
+      organisationId,
+      afterState: {
+        source,
+        count: data?.length || 0,
+        from: dates[0],
+        to: dates[dates.length - 1],
+      },
+    });
+
+    return data?.length || 0;
+  }
+}
+
+export const publicHolidayService = new PublicHolidayService();
@@ -0,0 +1,419 @@
+import { supabase } from '@/integrations/supabase/client';
+import { auditService } from '@/services/auditService';
+import { complianceService, type ComplianceResult } from '@/services/complianceService';
+import { findShiftClashes, toRequirementCode } from '@/lib/rostering';
+import { format } from 'date-fns';
+import type {
+  Participant,
+  ParticipantWorker,
+  Shift,
+  CreateParticipantInput,
+  CreateShiftInput,
+} from '@/types/rostering';
+
+export interface AssignmentOutcome {
+  assigned: boolean;
+  // Compliance evaluation for the shift/client; check blockingReasons when not assigned
+  compliance: ComplianceResult;
+}
+
+const normaliseRequirements = (requirements?: string[]) =>
+  [...new Set((requirements || []).map(toRequirementCode).filter(Boolean))];
+
+/**
+ * Rostering Service
+ * Participants, their support teams and shifts. Every assignment is gated
+ * by complianceService.canAssign with the shift or participant as context.
+ */
+class RosteringService {
+  /**
+   * Get participants with their allocated workers
+   */
+  async getParticipants(organisationId: string): Promise<Participant[]> {
+    const { data, error } = await supabase
+      .from('participants')
+      .select(`
+        *,
+        workers:participant_workers(*, employee:employees(id, first_name, last_name))
+      `)
+      .eq('organisation_id', organisationId)
+      .order('last_name');
+
+    if (error) {
+      console.error('[RosteringService] Failed to fetch participants:', error);
+      throw error;
+    }
+
+    return (data || []) as unknown as Participant[];
+  }
+
+  /**
+   * Create a participant
+   */
+  async createParticipant(
+    organisationId: string,
+    input: CreateParticipantInput
+  ): Promise<Participant> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('participants')
+      .insert({
+        organisation_id: organisationId,
+        first_name: input.first_name.trim(),
+        last_name: input.last_name.trim(),
+        ndis_number: input.ndis_number?.trim() || null,
+        address: input.address?.trim() || null,
+        phone: input.phone?.trim() || null,
+        worker_gender: input.worker_gender || null,
+        required_certifications: normaliseRequirements(input.required_certifications),
+        requirement_notes: input.requirement_notes?.trim() || null,
+        created_by_user_id: user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[RosteringService] Failed to create participant:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'participant.create',
+      entityType: 'participant',
+      entityId: data.id,
+      organisationId,
+      afterState: { ...input },
+    });
+
+    return data as Participant;
+  }
+
+  /**
+   * Update a participant's details or requirements
+   */
+  async updateParticipant(
+    participantId: string,
+    updates: Partial<CreateParticipantInput> & { status?: Participant['status'] },
+    organisationId: string
+  ): Promise<Participant> {
+    const { data: before } = await supabase
+      .from('participants')
+      .select('*')
+      .eq('id', participantId)
+      .single();
+
+    const payload = {
+      ...updates,
+      ...(updates.required_certifications && {
+        required_certifications: normaliseRequirements(updates.required_certifications),
+      }),
+    };
+
+    const { data, error } = await supabase
+      .from('participants')
+      .update(payload)
+      .eq('id', participantId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[RosteringService] Failed to update participant:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'participant.update',
+      entityType: 'participant',
+      entityId: participantId,
+      organisationId,
+      beforeState: before as Record<string, unknown>,
+      afterState: payload,
+    });
+
+    return data as Participant;
+  }
+
+  /**
+   * Allocate a worker to a participant's support team. Blocked unless the
+   * worker is compliant for this participant or has an override for them.
+   */
+  async assignWorker(
+    participantId: string,
+    employeeId: string,
+    organisationId: string
+  ): Promise<AssignmentOutcome> {
+    const { allowed, result } = await complianceService.canAssign(employeeId, {
+      contextType: 'client',
+      contextId: participantId,
+    });
+
+    if (!allowed) {
+      return { assigned: false, compliance: result };
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const overrideId = result.overrideActive ? result.overrideDetails?.id || null : null;
+
+    const { data, error } = await supabase
+      .from('participant_workers')
+      .insert({
+        organisation_id: organisationId,
+        participant_id: participantId,
+        employee_id: employeeId,
+        compliance_override_id: overrideId,
+        assigned_by_user_id: user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[RosteringService] Failed to assign worker:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'participant.assign_worker',
+      entityType: 'participant',
+      entityId: participantId,
+      organisationId,
+      afterState: {
+        participant_worker_id: data.id,
+        employee_id: employeeId,
+        compliance_override_id: overrideId,
+        expiring_soon: result.expiringSoon,
+      },
+    });
+
+    return { assigned: true, compliance: result };
+  }
+
+  /**
+   * Remove a worker from a participant's support team
+   */
+  async removeWorker(worker: ParticipantWorker, organisationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('participant_workers')
+      .delete()
+      .eq('id', worker.id);
+
+    if (error) {
+      console.error('[RosteringService] Failed to remove worker:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'participant.remove_worker',
+      entityType: 'participant',
+      entityId: worker.participant_id,
+      organisationId,
+      beforeState: { employee_id: worker.employee_id },
+    });
+  }
+
+  /**
+   * Get shifts starting within a date range
+   */
+  async getShifts(organisationId: string, from: Date, to: Date): Promise<Shift[]> {
+    const { data, error } = await supabase
+      .from('shifts')
+      .select(`
+        *,
+        participant:participants(id, first_name, last_name, worker_gender, required_certifications),
+        employee:employees(id, first_name, last_name)
+      `)
+      .eq('organisation_id', organisationId)
+      .gte('start_time', from.toISOString())
+      .lt('start_time', to.toISOString())
+      .order('start_time');
+
+    if (error) {
+      console.error('[RosteringService] Failed to fetch shifts:', error);
+      throw error;
+    }
+
+    return (data || []) as unknown as Shift[];
+  }
+
+  /**
+   * Create an open shift
+   */
+  async createShift(organisationId: string, input: CreateShiftInput): Promise<Shift> {
+    if (new Date(input.end_time) <= new Date(input.start_time)) {
+      throw new Error('Shift must end after it starts');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('shifts')
+      .insert({
+        organisation_id: organisationId,
+        participant_id: input.participant_id || null,
+        start_time: input.start_time,
+        end_time: input.end_time,
+        location: input.location?.trim() || null,
+        notes: input.notes?.trim() || null,
+        requires_driving: input.requires_driving || false,
+        required_certifications: normaliseRequirements(input.required_certifications),
+        created_by_user_id: user?.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[RosteringService] Failed to create shift:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'shift.create',
+      entityType: 'shift',
+      entityId: data.id,
+      organisationId,
+      afterState: { ...input },
+    });
+
+    return data as Shift;
+  }
+
+  /**
+   * Assign an employee to a shift. Refuses double-bookings, then checks
+   * compliance against the shift and its participant. When blocked, the
+   * caller gets the evaluation back so an override can be requested.
+   */
+  async assignShift(
+    shiftId: string,
+    employeeId: string,
+    organisationId: string
+  ): Promise<AssignmentOutcome> {
+    const { data: shift, error: shiftError } = await supabase
+      .from('shifts')
+      .select('*')
+      .eq('id', shiftId)
+      .single();
+
+    if (shiftError) {
+      console.error('[RosteringService] Failed to fetch shift:', shiftError);
+      throw shiftError;
+    }
+    if (shift.status === 'cancelled' || shift.status === 'completed') {
+      throw new Error(`Cannot assign a ${shift.status} shift`);
+    }
+
+    const { data: employeeShifts } = await supabase
+      .from('shifts')
+      .select('id, employee_id, start_time, end_time, status')
+      .eq('employee_id', employeeId)
+      .lt('start_time', shift.end_time)
+      .gt('end_time', shift.start_time);
+
+    const clashes = findShiftClashes(shift, employeeId, (employeeShifts || []) as Shift[]);
+    if (clashes.length > 0) {
+      const times = clashes
+        .map(c => `${format(new Date(c.start_time), 'd MMM HH:mm')}–${format(new Date(c.end_time), 'HH:mm')}`)
+        .join(', ');
+      throw new Error(`Employee is already rostered on an overlapping shift (${times})`);
+    }
+
+    const { allowed, result } = await complianceService.canAssign(employeeId, {
+      contextType: 'shift',
+      contextId: shiftId,
+    });
+
+    if (!allowed) {
+      return { assigned: false, compliance: result };
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const overrideId = result.overrideActive ? result.overrideDetails?.id || null : null;
+
+    const { error } = await supabase
+      .from('shifts')
+      .update({
+        employee_id: employeeId,
+        status: 'assigned',
+        compliance_override_id: overrideId,
+        assigned_at: new Date().toISOString(),
+        assigned_by_user_id: user?.id,
+      })
+      .eq('id', shiftId);
+
+    if (error) {
+      console.error('[RosteringService] Failed to assign shift:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'shift.assign',
+      entityType: 'shift',
+      entityId: shiftId,
+      organisationId,
+      beforeState: { employee_id: shift.employee_id, status: shift.status },
+      afterState: {
+        employee_id: employeeId,
+        status: 'assigned',
+        compliance_override_id: overrideId,
+        expiring_soon: result.expiringSoon,
+      },
+    });
+
+    return { assigned: true, compliance: result };
+  }
+
+  /**
+   * Take the employee off a shift and reopen it
+   */
+  async unassignShift(shift: Shift, organisationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shifts')
+      .update({
+        employee_id: null,
+        status: 'open',
+        compliance_override_id: null,
+        assigned_at: null,
+        assigned_by_user_id: null,
+      })
+      .eq('id', shift.id);
+
+    if (error) {
+      console.error('[RosteringService] Failed to unassign shift:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'shift.unassign',
+      entityType: 'shift',
+      entityId: shift.id,
+      organisationId,
+      beforeState: { employee_id: shift.employee_id, status: shift.status },
+      afterState: { employee_id: null, status: 'open' },
+    });
+  }
+
+  /**
+   * Cancel a shift
+   */
+  async cancelShift(shift: Shift, organisationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shifts')
+      .update({ status: 'cancelled' })
+      .eq('id', shift.id);
+
+    if (error) {
+      console.error('[RosteringService] Failed to cancel shift:', error);
+      throw error;
+    }
+
+    await auditService.log({
+      action: 'shift.cancel',
+      entityType: 'shift',
+      entityId: shift.id,
+      organisationId,
+      beforeState: { status: shift.status, employee_id: shift.employee_id },
+      afterState: { status: 'cancelled' },
+    });
+  }
+}
+
+export const rosteringService = new RosteringService();
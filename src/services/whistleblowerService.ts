@@ -0,0 +1,91 @@
+/**
+ * Whistleblower Service
+ * The public reporting portal, served by the whistleblower-intake edge
+ * function so reporters never need an account, and the organisation's
+ * portal settings.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { auditService } from '@/services/auditService';
+import type {
+  WhistleblowerCredentials,
+  WhistleblowerReport,
+  WhistleblowerReportInput,
+} from '@/types/hrCases';
+
+class WhistleblowerService {
+  private async call<T>(body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('whistleblower-intake', { body });
+
+    if (error) {
+      // The function explains rejections (wrong passphrase, lockout) in its body
+      const detail = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      throw new Error(detail?.error || 'The reporting service is unavailable. Please try again.');
+    }
+
+    return data as T;
+  }
+
+  // =====================================================
+  // Public portal
+  // =====================================================
+
+  /**
+   * The organisation's display name, or an error if its portal is off.
+   */
+  async getPortalName(organisationId: string): Promise<string> {
+    const { name } = await this.call<{ name: string }>({ action: 'organisation', organisationId });
+    return name;
+  }
+
+  /**
+   * Submit a report. The credentials are shown once and can't be recovered.
+   */
+  async submitReport(organisationId: string, input: WhistleblowerReportInput): Promise<WhistleblowerCredentials> {
+    return this.call<WhistleblowerCredentials>({ action: 'submit', organisationId, ...input });
+  }
+
+  async checkReport(credentials: WhistleblowerCredentials): Promise<WhistleblowerReport> {
+    return this.call<WhistleblowerReport>({ action: 'check', ...credentials });
+  }
+
+  async sendMessage(credentials: WhistleblowerCredentials, message: string): Promise<WhistleblowerReport> {
+    return this.call<WhistleblowerReport>({ action: 'reply', ...credentials, message });
+  }
+
+  // =====================================================
+  // Settings
+  // =====================================================
+
+  async isPortalEnabled(organisationId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('hr_case_intake_settings')
+      .select('portal_enabled')
+      .eq('organisation_id', organisationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.portal_enabled ?? false;
+  }
+
+  async setPortalEnabled(organisationId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('hr_case_intake_settings')
+      .upsert({ organisation_id: organisationId, portal_enabled: enabled });
+
+    if (error) throw error;
+
+    await auditService.log({
+      action: 'hr_case_intake_settings.update',
+      entityType: 'setting',
+      entityId: organisationId,
+      organisationId,
+      afterState: { portal_enabled: enabled },
+    });
+  }
+}
+
+export const whistleblowerService = new WhistleblowerService();
@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import { buildAdjustmentLines, buildEarningLines, interpretShift, interpretShifts } from "@/lib/awardInterpretation";
+import type { PayrollMapping, TimesheetForExport } from "@/types/payroll";
+
+const mapping = (shift_type: string, earning_code: string, multiplier = 1): PayrollMapping => ({
+  id: shift_type,
+  organisation_id: "org",
+  shift_type,
+  earning_code,
+  description: null,
+  multiplier,
+  applies_when: null,
+  is_active: true,
+  created_at: "",
+  updated_at: "",
+});
+
+const timesheet = (overrides: Partial<TimesheetForExport>): TimesheetForExport => ({
+  id: "ts-1",
+  employee_id: "emp-1",
+  date: "2024-01-01", // Monday
+  clock_in: "09:00:00",
+  clock_out: "17:00:00",
+  break_minutes: 0,
+  total_hours: null,
+  status: "approved",
+  notes: null,
+  is_locked: false,
+  exported_at: null,
+  ...overrides,
+});
+
+describe("interpretShift", () => {
+  it("splits a weekday shift into ordinary and evening hours", () => {
+    const result = interpretShift({ date: "2024-01-01", startTime: "14:00", endTime: "20:00", breakMinutes: 30 });
+    expect(result.workedHours).toBe(5.5);
+    expect(result.hours.evening).toBe(2);
+    expect(result.hours.standard).toBe(3.5);
+  });
+
+  it("handles overnight shifts across the night range", () => {
+    const result = interpretShift({ date: "2024-01-02", startTime: "22:00", endTime: "07:00", breakMinutes: 0 });
+    expect(result.workedHours).toBe(9);
+    expect(result.hours.evening).toBe(1);
+    expect(result.hours.night).toBe(7);
+    expect(result.hours.standard).toBe(1);
+  });
+
+  it("pays weekend and public holiday shifts entirely at that rate", () => {
+    expect(interpretShift({ date: "2024-01-06", startTime: "09:00", endTime: "17:00", breakMinutes: 0 }).hours.weekend).toBe(8);
+    expect(interpretShift({ date: "2024-01-07", startTime: "09:00", endTime: "17:00", breakMinutes: 0 }).hours.sunday).toBe(8);
+    expect(
+      interpretShift({ date: "2024-01-01", startTime: "09:00", endTime: "17:00", breakMinutes: 0, isPublicHoliday: true }).hours.public_holiday
+    ).toBe(8);
+  });
+});
+
+describe("interpretShifts", () => {
+  const schads = {
+    daily_overtime_threshold_hours: 10,
+    weekly_overtime_threshold_hours: 38,
+    overtime_tier1_hours: 2,
+  };
+
+  it("pays hours past the daily threshold as tiered overtime", () => {
+    const [result] = interpretShifts(
+      [{ date: "2024-01-01", startTime: "06:00", endTime: "20:00", breakMinutes: 0 }],
+      schads
+    );
+    expect(result.hours.standard).toBe(10);
+    expect(result.hours.overtime).toBe(2);
+    expect(result.hours.overtime_double).toBe(2);
+    expect(result.hours.evening).toBe(0);
+  });
+
+  it("pays ordinary hours past the weekly threshold as overtime", () => {
+    const week = ["2024-01-01", "2024-01-02", "2024-01-03", "2024-01-04", "2024-01-05"].map(date => ({
+      date,
+      startTime: "08:00",
+      endTime: "16:00",
+      breakMinutes: 0,
+    }));
+    const results = interpretShifts(week, schads);
+    expect(results.slice(0, 4).every(r => r.hours.overtime === 0)).toBe(true);
+    expect(results[4].hours.standard).toBe(6);
+    expect(results[4].hours.overtime).toBe(2);
+  });
+});
+
+describe("buildEarningLines", () => {
+  const mappings = [mapping("standard", "ORD"), mapping("evening", "EVE", 1.125)];
+
+  it("creates one line per penalty bucket with the mapped earning code and multiplier", () => {
+    const lines = buildEarningLines([timesheet({ clock_in: "14:00:00", clock_out: "20:00:00" })], mappings);
+    expect(lines.map(l => [l.shift_type, l.earning_code, l.hours, l.multiplier])).toEqual([
+      ["standard", "ORD", 4, 1],
+      ["evening", "EVE", 2, 1.125],
+    ]);
+  });
+
+  it("takes the multiplier from the employee's award over the mapping", () => {
+    const award_multipliers = {
+      standard: 1,
+      evening: 1.15,
+      night: 1.25,
+      weekend: 1.5,
+      sunday: 2,
+      public_holiday: 2.5,
+      overtime: 1.5,
+      overtime_double: 2,
+    };
+    const lines = buildEarningLines(
+      [timesheet({ clock_in: "14:00:00", clock_out: "20:00:00", award_multipliers })],
+      [mapping("standard", "ORD"), mapping("evening", "EVE")]
+    );
+    expect(lines.map(l => [l.shift_type, l.multiplier])).toEqual([
+      ["standard", 1],
+      ["evening", 1.15],
+    ]);
+
+    const reversal = buildAdjustmentLines(
+      [],
+      new Map([["ts-1", { evening: 2 }]]),
+      mappings,
+      new Map([["ts-1", lines[0]]]),
+      new Map([["emp-1", award_multipliers]])
+    );
+    expect(reversal.map(l => [l.shift_type, l.hours, l.multiplier])).toEqual([["evening", -2, 1.15]]);
+  });
+
+  it("counts shifts from earlier in the week when the period starts mid-week", () => {
+    const rules = { daily_overtime_threshold_hours: 10, weekly_overtime_threshold_hours: 38, overtime_tier1_hours: 2 };
+    const tenHours = { clock_in: "08:00:00", clock_out: "18:00:00" };
+    // Paid in the previous period, which ended on the Tuesday
+    const earlier = [
+      timesheet({ id: "ts-mon", date: "2024-01-01", ...tenHours }),
+      timesheet({ id: "ts-tue", date: "2024-01-02", ...tenHours }),
+    ];
+    const period = [
+      timesheet({ id: "ts-wed", date: "2024-01-03", ...tenHours }),
+      timesheet({ id: "ts-thu", date: "2024-01-04", ...tenHours }),
+    ];
+
+    const lines = buildEarningLines(period, [mapping("standard", "ORD"), mapping("overtime", "OT1.5")], rules, earlier);
+    expect(lines.map(l => [l.timesheet_id, l.shift_type, l.hours])).toEqual([
+      ["ts-wed", "standard", 10],
+      ["ts-thu", "standard", 8],
+      ["ts-thu", "overtime", 2],
+    ]);
+  });
+
+  it("reconciles ordinary hours to the approved total", () => {
+    const lines = buildEarningLines([timesheet({ total_hours: 7.5 })], mappings);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].hours).toBe(7.5);
+  });
+});
+
+describe("buildAdjustmentLines", () => {
+  const mappings = [mapping("standard", "ORD"), mapping("evening", "EVE", 1.125)];
+
+  it("carries only the difference from hours already exported", () => {
+    const current = buildEarningLines(
+      [
+        timesheet({ id: "ts-1", clock_in: "09:00:00", clock_out: "17:00:00" }),
+        timesheet({ id: "ts-2", date: "2024-01-02", clock_in: "09:00:00", clock_out: "12:00:00" }),
+        timesheet({ id: "ts-3", date: "2024-01-03" }),
+      ],
+      mappings
+    );
+    const exported = new Map([
+      ["ts-1", { standard: 6, evening: 1 }], // Shortened and moved out of the evening
+      ["ts-2", { standard: 3 }], // Unchanged
+    ]);
+
+    const lines = buildAdjustmentLines(current, exported, mappings);
+    expect(lines.map(l => [l.timesheet_id, l.earning_code, l.hours])).toEqual([
+      ["ts-1", "ORD", 2],
+      ["ts-1", "EVE", -1],
+      ["ts-3", "ORD", 8],
+    ]);
+  });
+
+  it("reverses a paid timesheet that is no longer payable", () => {
+    const current = buildEarningLines([timesheet({ id: "ts-1", clock_in: "09:00:00", clock_out: "17:00:00" })], mappings);
+    const exported = new Map([
+      ["ts-1", { standard: 8 }],
+      ["ts-2", { standard: 2, evening: 1 }], // Since unapproved or deleted
+    ]);
+    const shifts = new Map([
+      ["ts-2", { ...current[0], timesheet_id: "ts-2", date: "2024-01-02", clock_in: "16:00:00", clock_out: "19:00:00" }],
+    ]);
+
+    const lines = buildAdjustmentLines(current, exported, mappings, shifts);
+    expect(lines.map(l => [l.timesheet_id, l.date, l.earning_code, l.hours])).toEqual([
+      ["ts-2", "2024-01-02", "ORD", -2],
+      ["ts-2", "2024-01-02", "EVE", -1],
+    ]);
+  });
+
+  it("refuses to drop a reversal it has no shift details for", () => {
+    expect(() => buildAdjustmentLines([], new Map([["ts-9", { standard: 4 }]]), mappings)).toThrow(/ts-9/);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultVerificationMethod,
+  verificationProblem,
+  verificationReferenceRequired,
+} from "@/lib/certificationVerification";
+
+describe("defaultVerificationMethod", () => {
+  it("offers the online lookup where there is one", () => {
+    expect(defaultVerificationMethod("ndis_screening")).toBe("ndis_screening_database");
+    expect(defaultVerificationMethod("WWCC_NSW")).toBe("wwcc_portal");
+    expect(defaultVerificationMethod("first_aid")).toBe("sighted_original");
+  });
+});
+
+describe("verificationProblem", () => {
+  const today = "2026-03-10";
+
+  it("needs a reference number for lookups but not for a sighted original", () => {
+    expect(verificationReferenceRequired("sighted_original")).toBe(false);
+    expect(
+      verificationProblem({ method: "wwcc_portal", referenceNumber: "  ", verifiedOn: today }, today)
+    ).toMatch(/reference number/);
+    expect(
+      verificationProblem({ method: "wwcc_portal", referenceNumber: "WWC123", verifiedOn: today }, today)
+    ).toBeNull();
+    expect(verificationProblem({ method: "sighted_original", verifiedOn: today }, today)).toBeNull();
+  });
+
+  it("rejects a missing or future verification date", () => {
+    expect(verificationProblem({ method: "sighted_original", verifiedOn: "" }, today)).toMatch(/required/);
+    expect(verificationProblem({ method: "sighted_original", verifiedOn: "2026-03-11" }, today)).toMatch(/future/);
+  });
+});
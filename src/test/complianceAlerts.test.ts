@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { alertStageFor, ALERT_STAGE_AUDIENCES } from "@/lib/complianceAlerts";
+
+describe("alertStageFor", () => {
+  it("returns the narrowest stage the certificate has reached", () => {
+    expect(alertStageFor(90)).toBeNull();
+    expect(alertStageFor(61)).toBeNull();
+    expect(alertStageFor(60)).toBe("60_days");
+    expect(alertStageFor(31)).toBe("60_days");
+    expect(alertStageFor(30)).toBe("30_days");
+    expect(alertStageFor(10)).toBe("14_days");
+    expect(alertStageFor(7)).toBe("7_days");
+    expect(alertStageFor(1)).toBe("7_days");
+  });
+
+  it("raises the expiry alert on the day and within the grace period only", () => {
+    expect(alertStageFor(0)).toBe("expired");
+    expect(alertStageFor(-7)).toBe("expired");
+    expect(alertStageFor(-8)).toBeNull();
+  });
+
+  it("copies managers at 14 days and alerts admins on expiry", () => {
+    expect(ALERT_STAGE_AUDIENCES["14_days"]).toContain("managers");
+    expect(ALERT_STAGE_AUDIENCES["30_days"]).not.toContain("managers");
+    expect(ALERT_STAGE_AUDIENCES.expired).toEqual(["admins"]);
+  });
+});
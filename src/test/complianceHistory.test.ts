@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { buildDepartmentTrend, latestRecord, snapshotStatus } from "@/lib/complianceHistory";
+
+describe("snapshotStatus", () => {
+  it("ranks blocking reasons above expiring certificates", () => {
+    expect(snapshotStatus({ blockingReasons: [{}], expiringSoon: [{}] })).toBe("non_compliant");
+    expect(snapshotStatus({ blockingReasons: [], expiringSoon: [{}] })).toBe("expiring");
+    expect(snapshotStatus({ blockingReasons: [], expiringSoon: [] })).toBe("compliant");
+  });
+});
+
+describe("latestRecord", () => {
+  it("prefers a status change made after the day's snapshot", () => {
+    const snapshot = { recordedAt: "2026-03-13T13:30:00Z", source: "snapshot" };
+    const event = { recordedAt: "2026-03-14T01:10:00Z", source: "event" };
+    expect(latestRecord(snapshot, event)).toBe(event);
+    expect(latestRecord(snapshot, { ...event, recordedAt: "2026-03-12T00:00:00Z" })).toBe(snapshot);
+    expect(latestRecord(null, event)).toBe(event);
+    expect(latestRecord(null, null)).toBeNull();
+  });
+});
+
+describe("buildDepartmentTrend", () => {
+  it("gives the share of each department not blocked on each date", () => {
+    const trend = buildDepartmentTrend([
+      { snapshot_date: "2026-03-02", status: "compliant", department: "Community" },
+      { snapshot_date: "2026-03-02", status: "non_compliant", department: "Community" },
+      { snapshot_date: "2026-03-01", status: "expiring", department: "Community" },
+      { snapshot_date: "2026-03-01", status: "compliant", department: null },
+    ]);
+
+    expect(trend.departments).toEqual(["Community", "Unassigned"]);
+    expect(trend.points).toEqual([
+      { date: "2026-03-01", Community: 100, Unassigned: 100 },
+      { date: "2026-03-02", Community: 50 },
+    ]);
+  });
+});
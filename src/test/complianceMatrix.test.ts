@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildComplianceMatrix,
+  matrixCell,
+  matrixExportRows,
+  visibleRowRange,
+} from "@/lib/complianceMatrix";
+
+const today = "2026-03-10";
+
+const cert = (overrides: Record<string, unknown> = {}) => ({
+  id: "c1",
+  employee_id: "e1",
+  type: "first_aid",
+  name: "First Aid",
+  status: "compliant",
+  expiry_date: "2027-01-01",
+  verification_id: "v1",
+  ...overrides,
+});
+
+describe("matrixCell", () => {
+  const requirement = { warningDays: 30 };
+
+  it("follows the evaluation order of pending, expired, unverified and expiring", () => {
+    expect(matrixCell([], requirement, today).status).toBe("missing");
+    expect(matrixCell([cert({ status: "pending" })], requirement, today).status).toBe("pending");
+    expect(matrixCell([cert({ expiry_date: "2026-03-09", verification_id: null })], requirement, today).status).toBe(
+      "expired"
+    );
+    expect(matrixCell([cert({ verification_id: null })], requirement, today).status).toBe("unverified");
+    expect(matrixCell([cert({ expiry_date: "2026-03-30" })], requirement, today).status).toBe("expiring");
+    expect(matrixCell([cert()], requirement, today).status).toBe("valid");
+  });
+
+  it("never counts a rejected certificate, even a verified one", () => {
+    expect(matrixCell([cert({ status: "rejected" })], requirement, today).status).toBe("missing");
+    expect(
+      matrixCell([cert({ status: "rejected" }), cert({ id: "c2", expiry_date: "2026-03-30" })], requirement, today)
+    ).toEqual({ status: "expiring", expiryDate: "2026-03-30", certificationId: "c2" });
+  });
+
+  it("uses the best of several certificates for a requirement", () => {
+    const cell = matrixCell(
+      [cert({ id: "old", expiry_date: "2026-01-01" }), cert({ id: "new" }), cert({ id: "draft", status: "pending" })],
+      requirement,
+      today
+    );
+    expect(cell).toEqual({ status: "valid", expiryDate: "2027-01-01", certificationId: "new" });
+  });
+});
+
+describe("buildComplianceMatrix", () => {
+  const employees = [
+    { id: "e2", first_name: "Zoe", last_name: "Ng", position: "Nurse", department: "Clinical", work_state: "NSW", employment_type: "full_time" },
+    { id: "e1", first_name: "Ava", last_name: "Lee", position: "Support Worker", department: "Community", work_state: "VIC", employment_type: "casual" },
+  ];
+  const rules = [
+    { id: "r1", target_type: "all" as const, target_value: null, is_required: true, certification_type: "first_aid", employment_types: null, warning_days: 30, document_type: { name: "First Aid" } },
+    { id: "r2", target_type: "role" as const, target_value: "Nurse", is_required: true, certification_type: "peg_feeding", employment_types: null, warning_days: 30, document_type: { name: "PEG Feeding" } },
+  ];
+
+  it("has a column per required certificate and leaves others without a cell", () => {
+    const matrix = buildComplianceMatrix(
+      employees,
+      rules,
+      [],
+      [cert(), cert({ id: "c2", employee_id: "e2", type: "training", name: "PEG Feeding" })],
+      today
+    );
+
+    expect(matrix.columns.map(c => c.type)).toEqual(["first_aid", "peg_feeding"]);
+    expect(matrix.rows.map(r => r.name)).toEqual(["Ava Lee", "Zoe Ng"]);
+    expect(matrix.rows[0].cells.first_aid.status).toBe("valid");
+    expect(matrix.rows[0].cells.peg_feeding).toBeUndefined();
+    expect(matrix.rows[1].cells.first_aid.status).toBe("missing");
+    expect(matrix.rows[1].cells.peg_feeding.status).toBe("valid");
+
+    expect(matrixExportRows(matrix)).toEqual([
+      ["Employee", "Department", "Position", "First Aid", "PEG Feeding"],
+      ["Ava Lee", "Community", "Support Worker", "Valid (2027-01-01)", ""],
+      ["Zoe Ng", "Clinical", "Nurse", "Missing", "Valid (2027-01-01)"],
+    ]);
+  });
+});
+
+describe("visibleRowRange", () => {
+  it("covers the viewport plus overscan, clamped to the rows", () => {
+    expect(visibleRowRange(0, 400, 40, 1000, 5)).toEqual({ start: 0, end: 15 });
+    expect(visibleRowRange(4000, 400, 40, 1000, 5)).toEqual({ start: 95, end: 115 });
+    expect(visibleRowRange(39800, 400, 40, 1000, 5)).toEqual({ start: 990, end: 1000 });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { maxOverrideDays, overrideReviewBlocker } from "@/lib/complianceOverrides";
+
+describe("maxOverrideDays", () => {
+  it("uses the shortest limit across the blocked certificates", () => {
+    const limits = { ndis_screening: 3, first_aid: 10 };
+    expect(maxOverrideDays(["first_aid", "NDIS_Screening"], limits)).toBe(3);
+    expect(maxOverrideDays(["first_aid", "cpr"], limits)).toBe(10);
+    expect(maxOverrideDays(["cpr"], limits)).toBe(14);
+    expect(maxOverrideDays([], limits)).toBe(14);
+  });
+});
+
+describe("overrideReviewBlocker", () => {
+  const now = new Date("2026-03-10T00:00:00Z");
+  const request = {
+    override_by: "requester",
+    approval_status: "pending",
+    is_active: true,
+    expires_at: "2026-03-15T00:00:00Z",
+  };
+
+  it("lets a second admin review a live request", () => {
+    expect(overrideReviewBlocker(request, { userId: "approver", isAdmin: true }, now)).toBeNull();
+  });
+
+  it("refuses the requester, non-admins and requests already decided or lapsed", () => {
+    expect(overrideReviewBlocker(request, { userId: "requester", isAdmin: true }, now)).toMatch(/different admin/);
+    expect(overrideReviewBlocker(request, { userId: "approver", isAdmin: false }, now)).toMatch(/Only an admin/);
+    expect(
+      overrideReviewBlocker({ ...request, approval_status: "approved" }, { userId: "approver", isAdmin: true }, now)
+    ).toMatch(/already been approved/);
+    expect(
+      overrideReviewBlocker({ ...request, expires_at: "2026-03-09T00:00:00Z" }, { userId: "approver", isAdmin: true }, now)
+    ).toMatch(/no longer active/);
+  });
+});
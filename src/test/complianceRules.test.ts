@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { resolveRequirements } from "@/lib/complianceRules";
+
+const rule = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  target_type: "all" as const,
+  target_value: null,
+  is_required: true,
+  certification_type: id,
+  employment_types: null,
+  warning_days: 30,
+  ...overrides,
+});
+
+const employee = {
+  id: "e1",
+  position: "Support Worker",
+  department: "Community",
+  work_state: "VIC",
+  employment_type: "casual",
+};
+
+describe("resolveRequirements", () => {
+  it("applies rules by position, department, location and employment type", () => {
+    const rules = [
+      rule("police_check"),
+      rule("wwcc_vic", { target_type: "location", target_value: "VIC" }),
+      rule("wwcc_nsw", { target_type: "location", target_value: "NSW" }),
+      rule("first_aid", { target_type: "role", target_value: "support worker", warning_days: 60 }),
+      rule("cpr", { target_type: "department", target_value: "d1" }),
+      rule("manual_handling", { employment_types: ["full_time"] }),
+      rule("ndis_screening", { is_required: false }),
+    ];
+
+    const requirements = resolveRequirements(rules, employee, [{ id: "d1", name: "Community" }], {
+      requiresDriving: true,
+    });
+
+    expect(requirements.map(r => r.type).sort()).toEqual(
+      ["cpr", "drivers_license", "first_aid", "police_check", "wwcc_vic"]
+    );
+    expect(requirements.find(r => r.type === "first_aid")?.warningDays).toBe(60);
+  });
+
+  it("keeps the widest warning window when rules overlap", () => {
+    const requirements = resolveRequirements(
+      [rule("police_check", { warning_days: 14 }), rule("police_check", { id: "p2", warning_days: 45 })],
+      employee
+    );
+
+    expect(requirements).toHaveLength(1);
+    expect(requirements[0].warningDays).toBe(45);
+    expect(requirements[0].ruleIds).toEqual(["police_check", "p2"]);
+  });
+
+  it("doesn't require a certificate for rules that only list a document", () => {
+    const requirements = resolveRequirements(
+      [rule("police_check"), rule("resume", { certification_type: null, document_type: { name: "Resume" } })],
+      employee
+    );
+
+    expect(requirements.map(r => r.type)).toEqual(["police_check"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSigningOrder,
+  currentSigner,
+  isFullySigned,
+  signingAuditAction,
+  validateSigners,
+} from "@/lib/contractSigning";
+
+const signer = (signing_order: number, status: "pending" | "signed") => ({ signing_order, status });
+
+describe("currentSigner", () => {
+  it("is the first pending signer in signing order", () => {
+    expect(currentSigner([signer(2, "pending"), signer(1, "signed"), signer(3, "pending")])).toEqual(signer(2, "pending"));
+  });
+
+  it("is null once everyone has signed", () => {
+    expect(currentSigner([signer(1, "signed"), signer(2, "signed")])).toBeNull();
+  });
+});
+
+describe("isFullySigned", () => {
+  it("needs every signer to have signed", () => {
+    expect(isFullySigned([signer(1, "signed"), signer(2, "pending")])).toBe(false);
+    expect(isFullySigned([signer(1, "signed"), signer(2, "signed")])).toBe(true);
+  });
+
+  it("is false for a contract with no signers", () => {
+    expect(isFullySigned([])).toBe(false);
+  });
+});
+
+describe("buildSigningOrder", () => {
+  it("puts the employee first and numbers the rest in order", () => {
+    const order = buildSigningOrder({ name: "Jane Doe", email: "jane@example.com" }, [
+      { role: "countersigner", name: " Chris CEO ", email: "ceo@example.com" },
+    ]);
+    expect(order).toEqual([
+      { role: "employee", name: "Jane Doe", email: "jane@example.com", signing_order: 1 },
+      { role: "countersigner", name: "Chris CEO", email: "ceo@example.com", signing_order: 2 },
+    ]);
+  });
+});
+
+describe("validateSigners", () => {
+  it("accepts distinct, complete signers", () => {
+    expect(validateSigners([
+      { name: "Jane Doe", email: "jane@example.com" },
+      { name: "Chris CEO", email: "ceo@example.com" },
+    ])).toBeNull();
+  });
+
+  it("rejects missing names, bad emails and duplicates", () => {
+    expect(validateSigners([{ name: " ", email: "a@example.com" }])).toBe("Every signer needs a name");
+    expect(validateSigners([{ name: "Chris", email: "chris" }])).toBe("Chris needs a valid email address");
+    expect(validateSigners([
+      { name: "Jane", email: "jane@example.com" },
+      { name: "Also Jane", email: "JANE@example.com" },
+    ])).toBe("jane@example.com is listed as a signer more than once");
+  });
+});
+
+describe("signingAuditAction", () => {
+  it("distinguishes countersignatures and witnesses", () => {
+    expect(signingAuditAction("employee")).toBe("signed");
+    expect(signingAuditAction("countersigner")).toBe("countersigned");
+    expect(signingAuditAction("witness")).toBe("witnessed");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildMergeValues,
+  diffLines,
+  findMergeFields,
+  renderTemplate,
+  unknownMergeFields,
+  type MergeSource,
+} from "@/lib/contractTemplates";
+
+const source = (overrides: Partial<MergeSource> = {}): MergeSource => ({
+  contract: {
+    employee_name: "Jane Doe",
+    employee_email: "jane@example.com",
+    position: "Support Worker",
+    employment_type: "part_time",
+    start_date: "2026-03-02",
+    pay_rate: 38.5,
+  },
+  employee: { first_name: "Jane", last_name: "Doe", department: "Disability Services" },
+  position: { description: "Supports participants in the community" },
+  award: { name: "SCHADS Level 2", base_hourly_rate: 34.21 },
+  organisationName: "Social Plus",
+  today: new Date(2026, 1, 20),
+  ...overrides,
+});
+
+describe("findMergeFields", () => {
+  it("lists each field once, allowing spaces inside the braces", () => {
+    expect(findMergeFields("{{ position }} and {{pay_rate}} then {{position}}")).toEqual(["position", "pay_rate"]);
+  });
+});
+
+describe("unknownMergeFields", () => {
+  it("flags fields that can't be filled", () => {
+    expect(unknownMergeFields("{{employee.first_name}} {{employee.nickname}}")).toEqual(["employee.nickname"]);
+  });
+});
+
+describe("buildMergeValues", () => {
+  it("fills fields from the contract terms, employee, award and organisation", () => {
+    const values = buildMergeValues(source());
+    expect(values["employee.full_name"]).toBe("Jane Doe");
+    expect(values["employee.department"]).toBe("Disability Services");
+    expect(values["employee.employment_type"]).toBe("Part-time");
+    expect(values["employee.start_date"]).toBe("2 March 2026");
+    expect(values.pay_rate).toBe("$38.50");
+    expect(values.award_classification).toBe("SCHADS Level 2");
+    expect(values["award_classification.base_hourly_rate"]).toBe("$34.21");
+    expect(values["organisation.name"]).toBe("Social Plus");
+    expect(values.today).toBe("20 February 2026");
+  });
+
+  it("splits the contract name for someone not yet in employees", () => {
+    const values = buildMergeValues(source({ employee: null, award: null }));
+    expect(values["employee.first_name"]).toBe("Jane");
+    expect(values["employee.last_name"]).toBe("Doe");
+    expect(values.award_classification).toBeUndefined();
+  });
+});
+
+describe("renderTemplate", () => {
+  it("replaces known fields and leaves missing ones in place", () => {
+    const result = renderTemplate("Dear {{employee.first_name}}, your award is {{award_classification}}.", {
+      "employee.first_name": "Jane",
+    });
+    expect(result.content).toBe("Dear Jane, your award is {{award_classification}}.");
+    expect(result.missing).toEqual(["award_classification"]);
+  });
+});
+
+describe("diffLines", () => {
+  it("marks removed and added lines around unchanged ones", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "B" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("is all unchanged for identical versions", () => {
+    expect(diffLines("x\ny", "x\ny").every(line => line.type === "same")).toBe(true);
+  });
+});
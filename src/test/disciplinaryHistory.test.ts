@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDisciplinaryTimeline,
+  findLiveFinalWarning,
+  resolveValidityMonths,
+  warningExpiryDate,
+  warningStanding,
+} from "@/lib/disciplinaryHistory";
+import type { HRActionStatus, HRActionType } from "@/types/hrCases";
+
+const action = (
+  action_type: HRActionType,
+  status: HRActionStatus,
+  effective_date: string,
+  expiry_date: string | null = null
+) => ({ action_type, status, effective_date, expiry_date, created_at: `${effective_date}T09:00:00.000Z` });
+
+describe("resolveValidityMonths", () => {
+  it("uses the organisation's period and falls back to the default", () => {
+    const periods = [{ action_type: "final_warning" as const, validity_months: 24 }];
+    expect(resolveValidityMonths(periods, "final_warning")).toBe(24);
+    expect(resolveValidityMonths(periods, "verbal_warning")).toBe(6);
+  });
+});
+
+describe("warningExpiryDate", () => {
+  it("adds calendar months, clamping to the end of shorter months", () => {
+    expect(warningExpiryDate("2026-03-10", 12)).toBe("2027-03-10");
+    expect(warningExpiryDate("2026-08-31", 6)).toBe("2027-02-28");
+  });
+});
+
+describe("warningStanding", () => {
+  it("keeps issued warnings live through their expiry date", () => {
+    expect(warningStanding(action("written_warning", "active", "2026-01-01", "2026-07-01"), "2026-07-01")).toBe("live");
+    expect(warningStanding(action("written_warning", "completed", "2026-01-01", "2026-07-01"), "2026-06-01")).toBe("live");
+  });
+
+  it("treats warnings past their expiry date as expired before the job runs", () => {
+    expect(warningStanding(action("written_warning", "active", "2026-01-01", "2026-07-01"), "2026-07-02")).toBe("expired");
+    expect(warningStanding(action("verbal_warning", "expired", "2026-01-01", "2026-07-01"), "2026-03-01")).toBe("expired");
+  });
+
+  it("separates withdrawn and planned warnings, and ignores other actions", () => {
+    expect(warningStanding(action("final_warning", "withdrawn", "2026-01-01", "2027-01-01"), "2026-03-01")).toBe("withdrawn");
+    expect(warningStanding(action("final_warning", "planned", "2026-01-01", "2027-01-01"), "2026-03-01")).toBe("pending");
+    expect(warningStanding(action("training", "active", "2026-01-01"), "2026-03-01")).toBeNull();
+  });
+});
+
+describe("buildDisciplinaryTimeline", () => {
+  it("orders actions most recent first", () => {
+    const timeline = buildDisciplinaryTimeline(
+      [
+        action("verbal_warning", "expired", "2025-01-10", "2025-07-10"),
+        action("final_warning", "active", "2026-02-01", "2027-02-01"),
+        action("training", "completed", "2025-06-01"),
+      ],
+      "2026-03-01"
+    );
+    expect(timeline.map(a => [a.action_type, a.standing])).toEqual([
+      ["final_warning", "live"],
+      ["training", null],
+      ["verbal_warning", "expired"],
+    ]);
+  });
+});
+
+describe("findLiveFinalWarning", () => {
+  it("returns the live final warning that runs longest", () => {
+    const actions = [
+      action("final_warning", "completed", "2025-09-01", "2026-09-01"),
+      action("final_warning", "active", "2026-01-01", "2027-01-01"),
+      action("final_warning", "withdrawn", "2026-02-01", "2027-02-01"),
+      action("written_warning", "active", "2026-02-01", "2027-06-01"),
+    ];
+    expect(findLiveFinalWarning(actions, "2026-03-01")?.expiry_date).toBe("2027-01-01");
+  });
+
+  it("returns null when every final warning has lapsed", () => {
+    expect(findLiveFinalWarning([action("final_warning", "active", "2025-01-01", "2026-01-01")], "2026-03-01")).toBeNull();
+  });
+});
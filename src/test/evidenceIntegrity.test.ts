@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { sha256Hex, shortHash } from "@/lib/evidenceIntegrity";
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe("sha256Hex", () => {
+  it("matches the standard SHA-256 digest as lowercase hex", async () => {
+    expect(await sha256Hex(bytes("abc"))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(await sha256Hex(bytes(""))).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+  });
+
+  it("changes when a single byte changes", async () => {
+    expect(await sha256Hex(bytes("statement v1"))).not.toBe(await sha256Hex(bytes("statement v2")));
+  });
+});
+
+describe("shortHash", () => {
+  it("keeps the first eight and last four characters", () => {
+    expect(shortHash("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad")).toBe("ba7816bf…15ad");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { evaluateCaseSla, resolveSlaTarget, timeInStatus } from "@/lib/hrCaseSla";
+
+const HOUR = 3_600_000;
+
+describe("resolveSlaTarget", () => {
+  const targets = [
+    { case_type: "misconduct" as const, severity: "high" as const, status: "investigating" as const, target_business_days: 8 },
+  ];
+
+  it("uses the organisation's target for the case type, severity and status", () => {
+    expect(resolveSlaTarget(targets, "misconduct", "high", "investigating")).toBe(8);
+  });
+
+  it("falls back to the default for the severity", () => {
+    expect(resolveSlaTarget(targets, "grievance", "high", "investigating")).toBe(15);
+    expect(resolveSlaTarget(targets, "misconduct", "critical", "new")).toBe(1);
+  });
+});
+
+describe("timeInStatus", () => {
+  it("adds up repeat stints and runs the current status to now", () => {
+    const history = [
+      { to_status: "new" as const, changed_at: "2026-03-02T09:00:00.000Z" },
+      { to_status: "investigating" as const, changed_at: "2026-03-02T11:00:00.000Z" },
+      { to_status: "awaiting_response" as const, changed_at: "2026-03-02T14:00:00.000Z" },
+      { to_status: "investigating" as const, changed_at: "2026-03-02T15:00:00.000Z" },
+    ];
+    expect(timeInStatus(history, new Date("2026-03-02T16:00:00.000Z"))).toEqual({
+      new: 2 * HOUR,
+      investigating: 4 * HOUR,
+      awaiting_response: HOUR,
+    });
+  });
+});
+
+describe("evaluateCaseSla", () => {
+  const hrCase = {
+    status: "new" as const,
+    case_type: "incident" as const,
+    severity: "medium" as const,
+    created_at: "2026-03-05T15:30:00.000Z",
+  };
+
+  it("times the current status from the latest move into it, skipping weekends and holidays", () => {
+    // Medium severity allows 3 business days to triage; Thursday + Fri, (weekend, holiday Mon), Tue, Wed
+    const sla = evaluateCaseSla(hrCase, [], [], new Set(["2026-03-09"]), new Date("2026-03-10T12:00:00.000Z"));
+    expect(sla).toMatchObject({
+      status: "new",
+      enteredAt: "2026-03-05T15:30:00.000Z",
+      dueAt: "2026-03-11T15:30:00.000Z",
+      targetBusinessDays: 3,
+      breached: false,
+    });
+  });
+
+  it("flags a breach once the target has passed", () => {
+    const history = [
+      { to_status: "new" as const, changed_at: "2026-03-05T15:30:00.000Z" },
+      { to_status: "investigating" as const, changed_at: "2026-03-06T09:00:00.000Z" },
+    ];
+    const sla = evaluateCaseSla(
+      { ...hrCase, status: "investigating", severity: "critical" },
+      history,
+      [],
+      new Set(),
+      new Date("2026-03-21T09:00:00.000Z")
+    );
+    expect(sla?.dueAt).toBe("2026-03-20T09:00:00.000Z");
+    expect(sla?.breached).toBe(true);
+  });
+
+  it("has no SLA once the case is closed", () => {
+    expect(evaluateCaseSla({ ...hrCase, status: "closed" }, [], [], new Set(), new Date())).toBeNull();
+  });
+});
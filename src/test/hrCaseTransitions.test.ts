@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, missingForTransition } from "@/lib/hrCaseTransitions";
+
+describe("canTransition", () => {
+  it("follows the case lifecycle", () => {
+    expect(canTransition("new", "triaged")).toBe(true);
+    expect(canTransition("investigating", "awaiting_response")).toBe(true);
+    expect(canTransition("awaiting_response", "investigating")).toBe(true);
+    expect(canTransition("decision_made", "closed")).toBe(true);
+  });
+
+  it("rejects skipped steps and reopening", () => {
+    expect(canTransition("new", "closed")).toBe(false);
+    expect(canTransition("triaged", "decision_made")).toBe(false);
+    expect(canTransition("closed", "investigating")).toBe(false);
+  });
+});
+
+describe("missingForTransition", () => {
+  const none = { hasTriage: false, hasFindings: false, actions: [] };
+
+  it("needs triage to investigate and findings to decide", () => {
+    expect(missingForTransition("investigating", none)).toEqual(["a triage assessment"]);
+    expect(missingForTransition("investigating", { ...none, hasTriage: true })).toEqual([]);
+    expect(missingForTransition("decision_made", { ...none, hasTriage: true })).toEqual(["recorded findings"]);
+  });
+
+  it("lists everything a case needs before it can close", () => {
+    expect(
+      missingForTransition("closed", {
+        hasTriage: true,
+        hasFindings: true,
+        actions: [{ status: "completed" }, { status: "active" }, { status: "planned" }],
+        closureNotes: "  ",
+      })
+    ).toEqual(["2 actions still planned or active (complete or withdraw them)", "closure notes"]);
+  });
+
+  it("closes once actions are settled and notes are given", () => {
+    expect(
+      missingForTransition("closed", {
+        hasTriage: true,
+        hasFindings: true,
+        actions: [{ status: "completed" }, { status: "withdrawn" }, { status: "expired" }],
+        closureNotes: "Written warning issued and acknowledged",
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { calculateFixedAccrual, calculateHoursWorkedAccrual, capAccrual } from "@/lib/leaveAccruals";
+
+describe("calculateFixedAccrual", () => {
+  const fortnightly = { rateHours: 5.85, frequency: "fortnightly" as const, employeeStartDate: "2023-07-01" };
+
+  it("accrues the full rate once an interval has passed", () => {
+    expect(calculateFixedAccrual({ ...fortnightly, lastAccrualAt: "2024-03-01T16:00:00Z", today: "2024-03-14" })).toBeNull();
+    expect(calculateFixedAccrual({ ...fortnightly, lastAccrualAt: "2024-03-01T16:00:00Z", today: "2024-03-15" })).toEqual({
+      periodStart: "2024-03-01",
+      hoursWorked: null,
+      proRataFactor: 1,
+      calculatedHours: 5.85,
+    });
+  });
+
+  it("pro-rates the first period when employment started part way through", () => {
+    const result = calculateFixedAccrual({
+      ...fortnightly,
+      employeeStartDate: "2024-03-08",
+      lastAccrualAt: null,
+      today: "2024-03-15",
+    });
+
+    expect(result).toEqual({ periodStart: "2024-03-08", hoursWorked: null, proRataFactor: 0.5, calculatedHours: 2.93 });
+  });
+
+  it("accrues nothing without a rate or on the day employment starts", () => {
+    expect(calculateFixedAccrual({ ...fortnightly, rateHours: null, lastAccrualAt: null, today: "2024-03-15" })).toBeNull();
+    expect(
+      calculateFixedAccrual({ ...fortnightly, employeeStartDate: "2024-03-15", lastAccrualAt: null, today: "2024-03-15" })
+    ).toBeNull();
+  });
+});
+
+describe("calculateHoursWorkedAccrual", () => {
+  const casual = { ratePerHour: 0.0769, lastAccrualAt: null, employeeStartDate: "2024-01-01", today: "2024-03-15" };
+
+  it("accrues per approved hour not yet counted", () => {
+    expect(calculateHoursWorkedAccrual({ ...casual, workedToDate: 38, countedToDate: 0, calculatedToDate: 0 })).toEqual({
+      periodStart: "2024-01-01",
+      hoursWorked: 38,
+      proRataFactor: null,
+      calculatedHours: 2.92,
+    });
+  });
+
+  it("picks up late approvals from the running total without double counting", () => {
+    const ledger = { countedToDate: 38, calculatedToDate: 2.92, lastAccrualAt: "2024-03-08T16:00:00Z" };
+
+    expect(calculateHoursWorkedAccrual({ ...casual, ...ledger, workedToDate: 38 })).toBeNull();
+    expect(calculateHoursWorkedAccrual({ ...casual, ...ledger, workedToDate: 50 })).toMatchObject({
+      periodStart: "2024-03-08",
+      hoursWorked: 12,
+      calculatedHours: 0.93,
+    });
+  });
+
+  it("rounds on the running total so repeated runs don't drift", () => {
+    let counted = 0;
+    let calculated = 0;
+    for (let run = 1; run <= 3; run++) {
+      const result = calculateHoursWorkedAccrual({ ...casual, workedToDate: run, countedToDate: counted, calculatedToDate: calculated });
+      counted += result!.hoursWorked!;
+      calculated += result!.calculatedHours;
+    }
+
+    // Rounding each hour separately would have credited 0.24
+    expect(Math.round(calculated * 100) / 100).toBe(0.23);
+  });
+});
+
+describe("capAccrual", () => {
+  it("credits up to the max balance and never reduces one already over it", () => {
+    expect(capAccrual(5, 30, null)).toBe(5);
+    expect(capAccrual(5, 30, 33)).toBe(3);
+    expect(capAccrual(5, 40, 33)).toBe(0);
+  });
+});
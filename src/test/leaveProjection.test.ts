@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { projectLeaveBalance } from "@/lib/leaveProjection";
+
+describe("projectLeaveBalance", () => {
+  it("caps fixed accruals and takes pending requests off on their start date", () => {
+    const result = projectLeaveBalance({
+      currentBalance: 30,
+      leaveType: {
+        accrues: true,
+        accrual_basis: "fixed",
+        accrual_rate_hours: 5,
+        accrual_rate_per_hour: null,
+        accrual_frequency: "fortnightly",
+        max_balance_hours: 33,
+      },
+      lastAccrualAt: "2024-03-01T14:00:00Z",
+      asOf: "2024-03-10",
+      targetDate: "2024-04-10",
+      commitments: [
+        { request_id: "r1", start_date: "2024-03-20", end_date: "2024-03-20", hours: 8, status: "pending", deducted: false },
+        // Already deducted at approval, so not counted again
+        { request_id: "r2", start_date: "2024-04-01", end_date: "2024-04-02", hours: 16, status: "approved", deducted: true },
+      ],
+    });
+
+    expect(result.points.map(p => [p.date, p.balance])).toEqual([
+      ["2024-03-10", 30],
+      ["2024-03-15", 33],
+      ["2024-03-20", 25],
+      ["2024-03-29", 30],
+      ["2024-04-10", 30],
+    ]);
+    expect(result.accruedHours).toBe(8);
+    expect(result.bookedHours).toBe(8);
+    expect(result.projectedBalance).toBe(30);
+  });
+
+  it("accrues weekly from average hours worked", () => {
+    const result = projectLeaveBalance({
+      currentBalance: 0,
+      leaveType: {
+        accrues: true,
+        accrual_basis: "hours_worked",
+        accrual_rate_hours: 0,
+        accrual_rate_per_hour: 0.0769,
+        accrual_frequency: "weekly",
+        max_balance_hours: null,
+      },
+      lastAccrualAt: null,
+      asOf: "2024-03-10",
+      targetDate: "2024-03-31",
+      averageWeeklyHours: 38,
+    });
+
+    expect(result.points.map(p => p.date)).toEqual(["2024-03-10", "2024-03-17", "2024-03-24", "2024-03-31"]);
+    expect(result.projectedBalance).toBe(8.76);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { checkLeaveStaffing } from "@/lib/leaveStaffing";
+import type { LeaveStaffingRule } from "@/types/leave";
+
+const staff = (id: string, department: string, position: string | null = "Support Worker") => ({
+  id,
+  first_name: id.toUpperCase(),
+  last_name: "Smith",
+  department,
+  position,
+  status: "active",
+});
+
+const rule: LeaveStaffingRule = {
+  id: "rule1",
+  organisation_id: "org1",
+  department: "Community",
+  position: null,
+  min_staff: 2,
+  enforcement: "block",
+  is_active: true,
+  created_by_user_id: null,
+  created_at: "",
+  updated_at: "",
+};
+
+describe("checkLeaveStaffing", () => {
+  it("flags days approving would take a team below its minimum, and clashing leave", () => {
+    const employees = [staff("a", "Community"), staff("b", "Community"), staff("c", "Community"), staff("d", "Office")];
+    const bookings = [
+      { id: "r2", employee_id: "b", start_date: "2024-05-07", end_date: "2024-05-08", status: "approved" as const },
+      { id: "r3", employee_id: "c", start_date: "2024-05-10", end_date: "2024-05-10", status: "pending" as const },
+      { id: "r4", employee_id: "d", start_date: "2024-05-06", end_date: "2024-05-06", status: "approved" as const },
+    ];
+
+    const check = checkLeaveStaffing(
+      { id: "r1", employee_id: "a", start_date: "2024-05-06", end_date: "2024-05-10" },
+      employees,
+      bookings,
+      [rule]
+    );
+
+    // Pending leave doesn't count against staffing, but is listed as a clash
+    expect(check.breaches).toHaveLength(1);
+    expect(check.breaches[0].dates).toEqual(["2024-05-07", "2024-05-08"]);
+    expect(check.breaches[0].min_available).toBe(1);
+    expect(check.requires_override).toBe(true);
+    expect(check.clashes.map(c => c.request_id)).toEqual(["r2", "r3"]);
+  });
+});
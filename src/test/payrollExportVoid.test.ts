@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { getTimesheetsReleasedOnVoid, planExportVoid, type PeriodExport } from "@/lib/payrollExportVoid";
+
+const full: PeriodExport = { id: "exp-1", status: "generated", previous_export_id: null };
+const adjustment: PeriodExport = { id: "exp-2", status: "generated", previous_export_id: "exp-1" };
+
+describe("planExportVoid", () => {
+  it("reopens the period once the last export in force is voided", () => {
+    expect(planExportVoid("exp-1", [full])).toEqual({ blockedReason: null, reopenPeriod: true });
+    expect(planExportVoid("exp-2", [full, adjustment])).toEqual({ blockedReason: null, reopenPeriod: false });
+  });
+
+  it("makes later adjustments be voided first", () => {
+    expect(planExportVoid("exp-1", [full, adjustment]).blockedReason).toMatch(/adjustment exports made after this one/);
+    expect(planExportVoid("exp-1", [full, { ...adjustment, status: "voided" }])).toEqual({
+      blockedReason: null,
+      reopenPeriod: true,
+    });
+  });
+
+  it("refuses an export that is already voided or isn't in the period", () => {
+    expect(planExportVoid("exp-1", [{ ...full, status: "voided" }]).blockedReason).toMatch(/already been voided/);
+    expect(planExportVoid("exp-9", [full]).blockedReason).toBe("Export not found");
+  });
+});
+
+describe("getTimesheetsReleasedOnVoid", () => {
+  it("unlocks exactly the timesheets the export paid", () => {
+    expect(getTimesheetsReleasedOnVoid("exp-2", [full, adjustment], ["ts-3"], ["ts-1", "ts-2", "ts-3"])).toEqual(["ts-3"]);
+  });
+
+  it("falls back to the period's locked timesheets only when no other export is in force", () => {
+    expect(getTimesheetsReleasedOnVoid("exp-1", [full], [], ["ts-1", "ts-2"])).toEqual(["ts-1", "ts-2"]);
+    expect(getTimesheetsReleasedOnVoid("exp-2", [full, adjustment], [], ["ts-1", "ts-2"])).toEqual([]);
+  });
+});
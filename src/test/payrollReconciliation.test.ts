@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  findInactiveEmployeeTimesheets,
+  findLeaveOverlaps,
+  findMissingTimesheets,
+} from "@/lib/payrollReconciliation";
+import type { TimesheetForExport } from "@/types/payroll";
+
+const timesheet = (overrides: Partial<TimesheetForExport>): TimesheetForExport => ({
+  id: "ts-1",
+  employee_id: "emp-1",
+  employee_name: "Jane Citizen",
+  date: "2024-03-05",
+  clock_in: "09:00:00",
+  clock_out: "17:00:00",
+  break_minutes: 0,
+  total_hours: 8,
+  status: "approved",
+  notes: null,
+  is_locked: false,
+  exported_at: null,
+  ...overrides,
+});
+
+const employee = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  first_name: "Jane",
+  last_name: id,
+  status: "active",
+  start_date: null,
+  end_date: null,
+  ...overrides,
+});
+
+describe("findLeaveOverlaps", () => {
+  it("flags worked days inside the employee's own approved leave", () => {
+    const leave = [
+      { employee_id: "emp-1", type: "annual", start_date: "2024-03-04", end_date: "2024-03-08" },
+      { employee_id: "emp-2", type: "sick", start_date: "2024-03-06", end_date: "2024-03-06" },
+    ];
+
+    const issues = findLeaveOverlaps(
+      [
+        timesheet({ id: "ts-1", date: "2024-03-08" }),
+        timesheet({ id: "ts-2", date: "2024-03-09" }),
+        timesheet({ id: "ts-3", employee_id: "emp-3", date: "2024-03-06" }),
+      ],
+      leave
+    );
+
+    expect(issues.map(i => [i.type, i.timesheetId])).toEqual([["leave_overlap", "ts-1"]]);
+    expect(issues[0].message).toContain("annual leave (2024-03-04 to 2024-03-08)");
+  });
+});
+
+describe("findMissingTimesheets", () => {
+  it("flags active employees with no timesheets unless they start after the period", () => {
+    const issues = findMissingTimesheets(
+      [employee("emp-1"), employee("emp-2"), employee("emp-3", { start_date: "2024-03-20" })],
+      [{ employee_id: "emp-1" }],
+      "2024-03-14"
+    );
+
+    expect(issues.map(i => [i.type, i.employeeId])).toEqual([["no_timesheets", "emp-2"]]);
+  });
+});
+
+describe("findInactiveEmployeeTimesheets", () => {
+  it("flags shifts after the end date and for employees made inactive without one", () => {
+    const issues = findInactiveEmployeeTimesheets(
+      [
+        timesheet({ id: "ts-1", employee_id: "emp-1", date: "2024-03-05" }),
+        timesheet({ id: "ts-2", employee_id: "emp-1", date: "2024-03-11" }),
+        timesheet({ id: "ts-3", employee_id: "emp-2" }),
+        timesheet({ id: "ts-4", employee_id: "emp-3" }),
+      ],
+      [
+        employee("emp-1", { status: "inactive", end_date: "2024-03-08" }),
+        employee("emp-2", { status: "inactive" }),
+        employee("emp-3"),
+      ]
+    );
+
+    expect(issues.map(i => [i.timesheetId, i.message])).toEqual([
+      ["ts-2", "Jane Citizen has a timesheet on 2024-03-11 after their end date (2024-03-08)"],
+      ["ts-3", "Jane Citizen is inactive but has a timesheet on 2024-03-05"],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { buildAbaFile } from "@/lib/abaFile";
+import { buildPayslip } from "@/lib/payslips";
+import type { PayrollExportLine } from "@/types/payroll";
+
+describe("buildAbaFile", () => {
+  it("writes fixed-width, self-balancing records", () => {
+    const file = buildAbaFile({
+      header: {
+        financialInstitution: "CBA",
+        userName: "Acme Care",
+        apcaUserId: "301500",
+        description: "PAYROLL",
+        processingDate: "2024-03-15",
+      },
+      payments: [
+        { bsb: "062-000", accountNumber: "12345678", accountName: "Jane Citizen", amountCents: 123456, lodgementReference: "PAY" },
+        { bsb: "082001", accountNumber: "987654", accountName: "John Smith", amountCents: 0, lodgementReference: "PAY" },
+      ],
+      funding: { bsb: "062111", accountNumber: "11112222", accountName: "Acme Care Pty Ltd" },
+      remitterName: "ACME CARE",
+    });
+
+    const records = file.split("\r\n").filter(Boolean);
+    expect(records.map(r => r.length)).toEqual([120, 120, 120, 120]);
+    expect(records[0].slice(74, 80)).toBe("150324");
+    // Zero payments are skipped; the credit is balanced by a debit from the funding account
+    expect(records[1].slice(0, 30)).toBe("1062-000 12345678 530000123456");
+    expect(records[2].slice(0, 30)).toBe("1062-111 11112222 130000123456");
+    expect(records[3].slice(20, 50)).toBe("000000000000001234560000123456");
+    expect(records[3].slice(74, 80)).toBe("000002");
+  });
+
+  it("refuses negative payments instead of leaving them out", () => {
+    expect(() =>
+      buildAbaFile({
+        header: {
+          financialInstitution: "CBA",
+          userName: "Acme Care",
+          apcaUserId: "301500",
+          description: "PAYROLL",
+          processingDate: "2024-03-15",
+        },
+        payments: [{ bsb: "062-000", accountNumber: "12345678", accountName: "Jane Citizen", amountCents: -500, lodgementReference: "PAY" }],
+        funding: { bsb: "062111", accountNumber: "11112222", accountName: "Acme Care Pty Ltd" },
+        remitterName: "ACME CARE",
+      })
+    ).toThrow(/Jane Citizen/);
+  });
+});
+
+describe("buildPayslip", () => {
+  const award = {
+    base_hourly_rate: 30,
+    saturday_multiplier: 1.5,
+    sunday_multiplier: 2,
+    public_holiday_multiplier: 2.5,
+    evening_multiplier: 1.125,
+    night_multiplier: 1.15,
+    overtime_multiplier: 1.5,
+    overtime_tier2_multiplier: 2,
+  };
+  const line = (shift_type: PayrollExportLine["shift_type"], hours: number): PayrollExportLine => ({
+    timesheet_id: "ts1",
+    employee_id: "emp1",
+    employee_name: "Jane Citizen",
+    date: "2024-03-09",
+    clock_in: "09:00",
+    clock_out: "17:00",
+    break_minutes: 0,
+    shift_type,
+    earning_code: shift_type.toUpperCase(),
+    hours,
+    multiplier: 1,
+    notes: null,
+  });
+
+  it("prices bucket hours from the employee's award", () => {
+    const payslip = buildPayslip([line("standard", 7.5), line("weekend", 8)], award);
+
+    expect(payslip.earnings.map(e => [e.bucket, e.rate, e.amount])).toEqual([
+      ["standard", 30, 225],
+      ["weekend", 45, 360],
+    ]);
+    expect(payslip.total_hours).toBe(15.5);
+    expect(payslip.gross_pay).toBe(585);
+  });
+
+  it("nets hours taken back by an adjustment against the rest of the pay", () => {
+    const payslip = buildPayslip([line("standard", 2), line("weekend", -1)], award);
+
+    expect(payslip.earnings.map(e => [e.bucket, e.hours, e.amount])).toEqual([
+      ["standard", 2, 60],
+      ["weekend", -1, -45],
+    ]);
+    expect(payslip.gross_pay).toBe(15);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { countLeaveDays, parseHolidayCsv, parseHolidayIcal } from "@/lib/publicHolidays";
+
+describe("parseHolidayCsv", () => {
+  it("merges per-jurisdiction rows from the data.gov.au format", () => {
+    const csv = [
+      "Date,Holiday Name,Information,Jurisdiction",
+      "20240101,New Year's Day,,nsw",
+      "20240101,New Year's Day,,vic",
+      "20240311,Labour Day,,vic",
+    ].join("\n");
+
+    const { holidays, errors } = parseHolidayCsv(csv);
+    expect(errors).toEqual([]);
+    expect(holidays).toEqual([
+      { holiday_date: "2024-01-01", name: "New Year's Day", regions: ["NSW", "VIC"] },
+      { holiday_date: "2024-03-11", name: "Labour Day", regions: ["VIC"] },
+    ]);
+  });
+});
+
+describe("parseHolidayIcal", () => {
+  it("reads all-day events and tags them with the given regions", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20241105",
+      "SUMMARY:Melbourne Cup",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const { holidays } = parseHolidayIcal(ics, ["VIC"]);
+    expect(holidays).toEqual([{ holiday_date: "2024-11-05", name: "Melbourne Cup", regions: ["VIC"] }]);
+  });
+});
+
+describe("countLeaveDays", () => {
+  it("skips weekends and holidays that apply in the employee's state", () => {
+    const holidays = [
+      { holiday_date: "2024-01-01", regions: [] },
+      { holiday_date: "2024-01-02", regions: ["VIC"] },
+    ];
+    // Mon 1 Jan - Sun 7 Jan 2024
+    expect(countLeaveDays("2024-01-01", "2024-01-07", holidays, "NSW")).toEqual({ workingDays: 4, holidayDays: 1 });
+    expect(countLeaveDays("2024-01-01", "2024-01-07", holidays, "VIC")).toEqual({ workingDays: 3, holidayDays: 2 });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { addBusinessDays } from "@/lib/publicHolidays";
+import {
+  buildNdisNotificationPack,
+  deadlineCountdown,
+  reportableIncidentDeadlines,
+} from "@/lib/reportableIncidents";
+import type { HRCase } from "@/types/hrCases";
+
+describe("reportableIncidentDeadlines", () => {
+  it("gives 24 hours to notify and 5 business days to report", () => {
+    // Thursday afternoon: the report skips the weekend
+    const deadlines = reportableIncidentDeadlines("serious_injury", "2026-03-05T15:30:00.000Z");
+    expect(deadlines.notificationDueAt).toBe("2026-03-06T15:30:00.000Z");
+    expect(deadlines.reportDueAt).toBe("2026-03-12T15:30:00.000Z");
+  });
+
+  it("skips public holidays and allows 5 business days to notify a restrictive practice", () => {
+    const deadlines = reportableIncidentDeadlines(
+      "restrictive_practice",
+      "2026-03-05T15:30:00.000Z",
+      new Set(["2026-03-09"])
+    );
+    expect(deadlines.notificationDueAt).toBe("2026-03-13T15:30:00.000Z");
+    expect(deadlines.reportDueAt).toBe("2026-03-13T15:30:00.000Z");
+  });
+
+  it("counts business days from a weekend to the following week", () => {
+    expect(addBusinessDays(new Date("2026-03-07T10:00:00"), 1, new Set()).getDate()).toBe(9);
+  });
+});
+
+describe("deadlineCountdown", () => {
+  const due = "2026-03-06T12:00:00.000Z";
+
+  it("reports time left, the warning window and overdue time", () => {
+    expect(deadlineCountdown(due, null, new Date("2026-03-05T12:00:00.000Z"), 6)).toEqual({
+      state: "pending",
+      label: "1d 0h left",
+    });
+    expect(deadlineCountdown(due, null, new Date("2026-03-06T08:15:00.000Z"), 6)).toEqual({
+      state: "due_soon",
+      label: "3h 45m left",
+    });
+    expect(deadlineCountdown(due, null, new Date("2026-03-06T14:00:00.000Z"), 6)).toEqual({
+      state: "overdue",
+      label: "Overdue 2h 0m",
+    });
+  });
+
+  it("is met once submitted, noting late submissions", () => {
+    const now = new Date("2026-03-07T00:00:00.000Z");
+    expect(deadlineCountdown(due, "2026-03-06T11:00:00.000Z", now, 6).label).toBe("Submitted");
+    expect(deadlineCountdown(due, "2026-03-06T13:00:00.000Z", now, 6).label).toBe("Submitted late");
+  });
+});
+
+describe("buildNdisNotificationPack", () => {
+  const hrCase = {
+    id: "case-1",
+    organisation_id: "org-1",
+    employee_id: "emp-1",
+    case_number: "HR-2026-0001",
+    case_type: "incident",
+    reported_by: "anonymous",
+    reporter_name: "Should not appear",
+    reporter_contact: "0400 000 000",
+    date_reported: "2026-03-05",
+    summary: "Participant fell during transfer",
+    detailed_description: null,
+    severity: "high",
+    safeguarding_flag: true,
+    status: "triaged",
+    assigned_investigator_user_id: null,
+    confidentiality_level: "standard",
+    created_by_user_id: null,
+    closed_at: null,
+    closure_notes: null,
+    ndis_reportable: true,
+    ndis_incident_category: "serious_injury",
+    ndis_aware_at: "2026-03-05T15:30:00.000Z",
+    ndis_notification_due_at: "2026-03-06T15:30:00.000Z",
+    ndis_report_due_at: "2026-03-12T15:30:00.000Z",
+    ndis_notified_at: null,
+    ndis_commission_reference: null,
+    ndis_report_submitted_at: null,
+    created_at: "2026-03-05T16:00:00.000Z",
+    updated_at: "2026-03-05T16:00:00.000Z",
+    employee: { id: "emp-1", first_name: "Sam", last_name: "Lee", email: "sam@example.com", position: "Support Worker", department: null },
+  } as HRCase;
+
+  it("lays the case out in the Commission's sections without identifying anonymous reporters", () => {
+    const pack = buildNdisNotificationPack({
+      hrCase,
+      triage: null,
+      evidence: [],
+      actions: [],
+      provider: { legal_name: "Acme Care Pty Ltd", trading_name: null },
+      preparedBy: "admin@example.com",
+      generatedAt: "2026-03-05T17:00:00.000Z",
+    });
+
+    expect(pack.notification.incident_category_label).toBe("Serious injury of a person with disability");
+    expect(pack.notification.notification_due_at).toBe("2026-03-06T15:30:00.000Z");
+    expect(pack.subject_of_allegation).toEqual({ name: "Sam Lee", position: "Support Worker", department: null });
+    expect(pack.reporter).toEqual({ type: "anonymous", name: null, contact: null });
+    expect(pack.immediate_response.escalation_required).toBe(false);
+  });
+
+  it("refuses cases that aren't reportable", () => {
+    expect(() =>
+      buildNdisNotificationPack({
+        hrCase: { ...hrCase, ndis_reportable: false },
+        triage: null,
+        evidence: [],
+        actions: [],
+        provider: { legal_name: "Acme Care Pty Ltd", trading_name: null },
+        preparedBy: "admin@example.com",
+        generatedAt: "2026-03-05T17:00:00.000Z",
+      })
+    ).toThrow("not classified");
+  });
+});
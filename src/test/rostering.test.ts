@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { findShiftClashes, toRequirementCode } from "@/lib/rostering";
+import type { ShiftStatus } from "@/types/rostering";
+
+const shift = (id: string, employeeId: string | null, start: string, end: string, status: ShiftStatus = "assigned") => ({
+  id,
+  employee_id: employeeId,
+  start_time: `2024-05-06T${start}:00Z`,
+  end_time: `2024-05-06T${end}:00Z`,
+  status,
+});
+
+describe("findShiftClashes", () => {
+  it("finds the employee's other live shifts that overlap", () => {
+    const target = shift("s1", null, "09:00", "13:00", "open");
+    const shifts = [
+      target,
+      shift("s2", "e1", "12:00", "15:00"),
+      shift("s3", "e1", "13:00", "17:00"),
+      shift("s4", "e2", "10:00", "11:00"),
+      shift("s5", "e1", "08:00", "10:00", "cancelled"),
+    ];
+
+    expect(findShiftClashes(target, "e1", shifts).map(s => s.id)).toEqual(["s2"]);
+  });
+});
+
+describe("toRequirementCode", () => {
+  it("turns free text requirements into certificate codes", () => {
+    expect(toRequirementCode("PEG feeding training")).toBe("peg_feeding_training");
+    expect(toRequirementCode(" Manual Handling ")).toBe("manual_handling");
+  });
+});
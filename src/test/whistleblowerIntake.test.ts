@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  KEY_ALPHABET,
+  LOCKOUT_MINUTES,
+  MAX_FAILED_ATTEMPTS,
+  afterFailedAttempt,
+  generateCaseKey,
+  generatePassphrase,
+  hashPassphrase,
+  isLocked,
+  normaliseCaseKey,
+  randomCode,
+  verifyPassphrase,
+} from "@/lib/whistleblowerIntake";
+
+// Few iterations keep the tests quick; the stored hash carries its own count
+const ITERATIONS = 1000;
+
+describe("case keys and passphrases", () => {
+  it("maps each byte onto the unambiguous alphabet in groups of four", () => {
+    expect(randomCode(2, new Uint8Array([0, 1, 2, 3, 32, 33, 62, 31]))).toBe("ABCD-AB89");
+    expect(KEY_ALPHABET).toHaveLength(32);
+    expect(KEY_ALPHABET).not.toMatch(/[IO01]/);
+  });
+
+  it("issues keys and passphrases in the expected shape", () => {
+    expect(generateCaseKey()).toMatch(/^WB-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    expect(generatePassphrase()).toMatch(/^([a-z2-9]{4}-){4}[a-z2-9]{4}$/);
+    expect(generateCaseKey()).not.toBe(generateCaseKey());
+  });
+
+  it("accepts a case key typed back in lower case", () => {
+    expect(normaliseCaseKey("  wb-abcd-efgh-jkmn ")).toBe("WB-ABCD-EFGH-JKMN");
+  });
+});
+
+describe("passphrase hashing", () => {
+  it("salts each hash and verifies the original passphrase", async () => {
+    const first = await hashPassphrase("abcd-efgh", ITERATIONS);
+    const second = await hashPassphrase("abcd-efgh", ITERATIONS);
+
+    expect(first).toMatch(/^pbkdf2-sha256\$1000\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassphrase("abcd-efgh", first)).toBe(true);
+  });
+
+  it("ignores case and spacing but nothing else", async () => {
+    const stored = await hashPassphrase("abcd-efgh", ITERATIONS);
+
+    expect(await verifyPassphrase(" ABCD - efgh ", stored)).toBe(true);
+    expect(await verifyPassphrase("abcd-efgj", stored)).toBe(false);
+    expect(await verifyPassphrase("", stored)).toBe(false);
+  });
+
+  it("never matches a hash in another format", async () => {
+    expect(await verifyPassphrase("abcd-efgh", "")).toBe(false);
+    expect(await verifyPassphrase("abcd-efgh", "sha1$1000$c2FsdA==$aGFzaA==")).toBe(false);
+    expect(await verifyPassphrase("abcd-efgh", "pbkdf2-sha256$0$c2FsdA==$aGFzaA==")).toBe(false);
+  });
+});
+
+describe("lockout", () => {
+  const now = new Date("2024-03-01T10:00:00Z");
+
+  it("counts failures and locks the channel on the fifth", () => {
+    let channel = { failed_attempts: 0, locked_until: null as string | null };
+    for (let attempt = 1; attempt < MAX_FAILED_ATTEMPTS; attempt++) {
+      channel = afterFailedAttempt(channel, now);
+      expect(channel).toEqual({ failed_attempts: attempt, locked_until: null });
+      expect(isLocked(channel, now)).toBe(false);
+    }
+
+    channel = afterFailedAttempt(channel, now);
+    expect(channel).toEqual({ failed_attempts: 0, locked_until: "2024-03-01T10:15:00.000Z" });
+    expect(LOCKOUT_MINUTES).toBe(15);
+  });
+
+  it("stays locked until the lockout has passed", () => {
+    const channel = { failed_attempts: 0, locked_until: "2024-03-01T10:15:00.000Z" };
+
+    expect(isLocked(channel, now)).toBe(true);
+    expect(isLocked(channel, new Date("2024-03-01T10:14:59Z"))).toBe(true);
+    expect(isLocked(channel, new Date("2024-03-01T10:15:01Z"))).toBe(false);
+  });
+});
@@ -26,6 +26,7 @@ export interface AuditPack {
   date_range_end: string | null;
   include_restricted_content: boolean;
   include_attachments: boolean;
+  include_compliance_history: boolean;
   generated_by: string;
   generated_by_name: string | null;
   generated_by_email: string | null;
@@ -61,6 +62,7 @@ export interface CreateAuditPackInput {
   date_range_end?: string | null;
   include_restricted_content?: boolean;
   include_attachments?: boolean;
+  include_compliance_history?: boolean;
 }
 
 export interface AuditPackPreview {
@@ -87,8 +89,8 @@ export const AUDIT_PACK_LABELS: Record<AuditPackType, string> = {
 };
 
 export const AUDIT_PACK_DESCRIPTIONS: Record<AuditPackType, string> = {
-  employee_compliance: 'Complete compliance history for a selected employee including certifications, overrides, and audit trail.',
-  organisation_compliance: 'Organisation-wide compliance snapshot including all employees, certifications, and enforcement events.',
+  employee_compliance: 'Complete compliance history for a selected employee including certifications and their verification trail, overrides, and audit trail.',
+  organisation_compliance: 'Organisation-wide compliance snapshot including all employees, certifications, and enforcement events, with optional point-in-time history.',
   hr_incidents: 'HR case register with findings, outcomes, disciplinary actions, and full audit trail.',
   payroll_verification: 'Timesheet verification including approvals, edits, and pay rate history.',
 };
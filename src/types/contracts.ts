@@ -18,11 +18,67 @@ export interface Contract {
   updated_at: string;
   expires_at?: string;
   signed_at?: string;
+  template_version_id?: string;
+  template_version?: {
+    version_number: number;
+    template: { name: string } | null;
+  } | null;
+}
+
+export interface ContractTemplate {
+  id: string;
+  organisation_id: string;
+  name: string;
+  description?: string;
+  current_version: number;
+  is_archived: boolean;
+  created_by_user_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Published versions are never edited; a change publishes the next one
+export interface ContractTemplateVersion {
+  id: string;
+  template_id: string;
+  organisation_id: string;
+  version_number: number;
+  content: string;
+  change_note?: string;
+  created_by_user_id?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+export type ContractSignerRole = 'employee' | 'countersigner' | 'witness';
+export type ContractSignerStatus = 'pending' | 'signed';
+
+export interface ContractSigner {
+  id: string;
+  contract_id: string;
+  signing_order: number;
+  role: ContractSignerRole;
+  name: string;
+  email: string;
+  status: ContractSignerStatus;
+  signed_at?: string;
+  notified_at?: string;
+  last_reminded_at?: string;
+  reminder_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContractSignerInput {
+  role: ContractSignerRole;
+  name: string;
+  email: string;
 }
 
 export interface Signature {
   id: string;
   contract_id: string;
+  signer_id: string;
   signer_name: string;
   signer_email: string;
   signature_data: string;
@@ -43,3 +99,22 @@ export interface ContractAuditLog {
   user_agent?: string;
   created_at: string;
 }
+
+// What the public signing page is shown for a signing link
+export type SigningLinkState = 'ready' | 'waiting' | 'signed' | 'closed';
+
+export interface SigningRequest {
+  state: SigningLinkState;
+  contract: Pick<
+    Contract,
+    'title' | 'content' | 'employee_name' | 'position' | 'department' | 'employment_type' | 'start_date' | 'pay_rate' | 'status' | 'expires_at'
+  >;
+  signer: Pick<ContractSigner, 'name' | 'email' | 'role' | 'status'>;
+  signers: Pick<ContractSigner, 'name' | 'role' | 'status' | 'signing_order' | 'signed_at'>[];
+}
+
+export const SIGNER_ROLE_LABELS: Record<ContractSignerRole, string> = {
+  employee: 'Employee',
+  countersigner: 'Countersigner',
+  witness: 'Witness',
+};
@@ -41,6 +41,8 @@ export interface EmployeeDB {
   compliance_status: ComplianceStatusDB;
   pay_rate: number | null;
   award_classification_id: string | null;
+  work_state: string | null;
+  gender: string | null;
   emergency_contact_name: string | null;
   emergency_contact_phone: string | null;
   emergency_contact_relationship: string | null;
@@ -58,6 +60,7 @@ export interface EmployeeCertificationDB {
   expiry_date: string | null;
   status: ComplianceStatusDB;
   document_id: string | null;
+  verification_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -75,6 +78,13 @@ export interface TimesheetDB {
   notes: string | null;
   approved_by: string | null;
   approved_at: string | null;
+  exported_at: string | null;
+  exported_in_pay_period_id: string | null;
+  is_locked: boolean;
+  locked_reason: string | null;
+  unlocked_at: string | null;
+  unlocked_by_user_id: string | null;
+  unlocked_reason: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -7,9 +7,17 @@ export type HRCaseReporterType = 'manager' | 'employee' | 'external' | 'anonymou
 export type HRCaseConfidentiality = 'standard' | 'restricted';
 export type HRCaseSubstantiation = 'yes' | 'no' | 'partially';
 export type HRActionType = 'verbal_warning' | 'written_warning' | 'final_warning' | 'training' | 'supervision' | 'termination' | 'no_action' | 'other';
-export type HRActionStatus = 'planned' | 'active' | 'completed' | 'withdrawn';
+export type HRActionStatus = 'planned' | 'active' | 'completed' | 'withdrawn' | 'expired';
+export type WarningActionType = Extract<HRActionType, 'verbal_warning' | 'written_warning' | 'final_warning'>;
 export type HRAccessLevel = 'normal' | 'restricted';
 export type HRNoteVisibility = 'standard' | 'restricted';
+export type NdisIncidentCategory =
+  | 'death'
+  | 'serious_injury'
+  | 'abuse_neglect'
+  | 'unlawful_contact'
+  | 'sexual_misconduct'
+  | 'restrictive_practice';
 
 export interface HRCase {
   id: string;
@@ -31,6 +39,17 @@ export interface HRCase {
   created_by_user_id: string | null;
   closed_at: string | null;
   closure_notes: string | null;
+  // NDIS reportable incident classification and deadlines
+  ndis_reportable: boolean;
+  ndis_incident_category: NdisIncidentCategory | null;
+  ndis_aware_at: string | null;
+  ndis_notification_due_at: string | null;
+  ndis_report_due_at: string | null;
+  ndis_notified_at: string | null;
+  ndis_commission_reference: string | null;
+  ndis_report_submitted_at: string | null;
+  // Came in through the whistleblower portal; has a reporter thread
+  submitted_via_portal: boolean;
   created_at: string;
   updated_at: string;
   // Joined data
@@ -66,10 +85,38 @@ export interface HRCaseEvidence {
   uploaded_by_user_id: string;
   uploaded_by_name: string | null;
   access_level: HRAccessLevel;
+  // Null for evidence uploaded before hashing
+  storage_path: string | null;
+  sha256: string | null;
+  file_size: number | null;
   uploaded_at: string;
   created_at: string;
 }
 
+export type EvidenceCustodyEventType = 'uploaded' | 'viewed' | 'downloaded' | 'verified' | 'verification_failed';
+
+export interface HRCaseEvidenceCustodyEvent {
+  id: string;
+  evidence_id: string;
+  hr_case_id: string;
+  event_type: EvidenceCustodyEventType;
+  actor_user_id: string | null;
+  actor_name: string | null;
+  sha256: string | null;
+  note: string | null;
+  occurred_at: string;
+}
+
+// Unhashed: uploaded before hashing, so there is nothing to compare with
+export type EvidenceIntegrityResult = 'intact' | 'altered' | 'missing' | 'unhashed';
+
+export interface EvidenceIntegrityCheck {
+  result: EvidenceIntegrityResult;
+  expectedSha256: string | null;
+  actualSha256: string | null;
+  checkedAt: string;
+}
+
 export interface HRCaseNote {
   id: string;
   hr_case_id: string;
@@ -109,7 +156,83 @@ export interface HRCaseAction {
   updated_at: string;
 }
 
+// An action with the case it was issued under, for an employee's history
+export interface EmployeeDisciplinaryAction extends HRCaseAction {
+  hr_case: Pick<HRCase, 'id' | 'case_number' | 'case_type' | 'status' | 'summary'>;
+}
+
+export interface HRWarningValidityPeriod {
+  id: string;
+  organisation_id: string;
+  action_type: WarningActionType;
+  validity_months: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HRCaseStatusChange {
+  id: string;
+  hr_case_id: string;
+  organisation_id: string;
+  from_status: HRCaseStatus | null;
+  to_status: HRCaseStatus;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export interface HRCaseSlaTarget {
+  id: string;
+  organisation_id: string;
+  case_type: HRCaseType;
+  severity: HRCaseSeverity;
+  status: HRCaseStatus;
+  target_business_days: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ReporterMessageSender = 'reporter' | 'investigator';
+
+export interface HRCaseReporterMessage {
+  id: string;
+  hr_case_id: string;
+  organisation_id: string;
+  sender: ReporterMessageSender;
+  // Always null for the reporter
+  sender_user_id: string | null;
+  sender_name: string | null;
+  body: string;
+  created_at: string;
+}
+
+// Whistleblower portal, as seen by the reporter
+export type WhistleblowerReportStatus = 'received' | 'under_review' | 'closed';
+
+export interface WhistleblowerCredentials {
+  caseKey: string;
+  passphrase: string;
+}
+
+export interface WhistleblowerReportInput {
+  caseType: Exclude<HRCaseType, 'performance'>;
+  summary: string;
+  description: string;
+}
+
+export interface WhistleblowerReport {
+  status: WhistleblowerReportStatus;
+  summary: string;
+  submittedAt: string;
+  messages: Pick<HRCaseReporterMessage, 'id' | 'sender' | 'body' | 'created_at'>[];
+}
+
 // Input types for creating/updating
+export interface ReportableIncidentInput {
+  category: NdisIncidentCategory;
+  // When the provider became aware of the incident - starts the clock
+  aware_at: string;
+}
+
 export interface CreateHRCaseInput {
   organisation_id: string;
   employee_id?: string | null;
@@ -124,8 +247,10 @@ export interface CreateHRCaseInput {
   safeguarding_flag?: boolean;
   confidentiality_level?: HRCaseConfidentiality;
   assigned_investigator_user_id?: string;
+  reportable_incident?: ReportableIncidentInput;
 }
 
+// Status changes go through hrCasesService.transitionCase
 export interface UpdateHRCaseInput {
   employee_id?: string | null;
   case_type?: HRCaseType;
@@ -133,10 +258,11 @@ export interface UpdateHRCaseInput {
   detailed_description?: string;
   severity?: HRCaseSeverity;
   safeguarding_flag?: boolean;
-  status?: HRCaseStatus;
   assigned_investigator_user_id?: string | null;
   confidentiality_level?: HRCaseConfidentiality;
-  closure_notes?: string;
+  ndis_notified_at?: string;
+  ndis_commission_reference?: string | null;
+  ndis_report_submitted_at?: string;
 }
 
 export interface CreateTriageInput {
@@ -145,6 +271,8 @@ export interface CreateTriageInput {
   immediate_actions_taken?: string;
   escalation_required?: boolean;
   escalated_to?: string;
+  // Classifies the case as a reportable incident if it wasn't already
+  reportable_incident?: ReportableIncidentInput;
 }
 
 export interface CreateNoteInput {
@@ -186,6 +314,11 @@ export interface HRCaseStats {
   closedCases: number;
   safeguardingCases: number;
   activeWarnings: number;
+  // Reportable incidents with a notification or 5-day report outstanding
+  reportableOutstanding: number;
+  // Open cases past the SLA target for their current status
+  slaBreaches: number;
+  slaBreachesByStatus: Partial<Record<HRCaseStatus, number>>;
 }
 
 // Labels for display
@@ -220,6 +353,12 @@ export const REPORTER_TYPE_LABELS: Record<HRCaseReporterType, string> = {
   anonymous: 'Anonymous',
 };
 
+export const WHISTLEBLOWER_STATUS_LABELS: Record<WhistleblowerReportStatus, string> = {
+  received: 'Received',
+  under_review: 'Under Review',
+  closed: 'Closed',
+};
+
 export const ACTION_TYPE_LABELS: Record<HRActionType, string> = {
   verbal_warning: 'Verbal Warning',
   written_warning: 'Written Warning',
@@ -236,6 +375,15 @@ export const ACTION_STATUS_LABELS: Record<HRActionStatus, string> = {
   active: 'Active',
   completed: 'Completed',
   withdrawn: 'Withdrawn',
+  expired: 'Expired',
+};
+
+export const CUSTODY_EVENT_LABELS: Record<EvidenceCustodyEventType, string> = {
+  uploaded: 'Uploaded',
+  viewed: 'Viewed',
+  downloaded: 'Downloaded',
+  verified: 'Verified intact',
+  verification_failed: 'Failed verification',
 };
 
 export const SUBSTANTIATION_LABELS: Record<HRCaseSubstantiation, string> = {
@@ -243,3 +391,12 @@ export const SUBSTANTIATION_LABELS: Record<HRCaseSubstantiation, string> = {
   no: 'Not Substantiated',
   partially: 'Partially Substantiated',
 };
+
+export const NDIS_INCIDENT_CATEGORY_LABELS: Record<NdisIncidentCategory, string> = {
+  death: 'Death of a person with disability',
+  serious_injury: 'Serious injury of a person with disability',
+  abuse_neglect: 'Abuse or neglect of a person with disability',
+  unlawful_contact: 'Unlawful sexual or physical contact with, or assault of, a person with disability',
+  sexual_misconduct: 'Sexual misconduct against, or in the presence of, a person with disability',
+  restrictive_practice: 'Unauthorised use of a restrictive practice',
+};
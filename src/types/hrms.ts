@@ -28,6 +28,8 @@ export interface Employee {
   complianceStatus: ComplianceStatus;
   payRate: number;
   awardClassification?: string;
+  workState?: string;
+  gender?: 'female' | 'male' | 'non_binary';
   emergencyContact?: {
     name: string;
     phone: string;
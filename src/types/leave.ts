@@ -1,6 +1,9 @@
 // Leave & Entitlements Types
 
 export type AccrualFrequency = 'weekly' | 'fortnightly' | 'monthly' | 'annually';
+export type AccrualBasis = 'fixed' | 'hours_worked';
+export type AccrualRunTrigger = 'schedule' | 'manual';
+export type StaffingEnforcement = 'warn' | 'block';
 export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
 
 export interface LeaveType {
@@ -11,6 +14,8 @@ export interface LeaveType {
   accrues: boolean;
   accrual_rate_hours: number;
   accrual_frequency: AccrualFrequency;
+  accrual_basis: AccrualBasis;
+  accrual_rate_per_hour: number | null;
   max_balance_hours: number | null;
   paid: boolean;
   applicable_employment_types: string[];
@@ -52,6 +57,7 @@ export interface LeaveRequest {
   cancellation_reason: string | null;
   balance_deducted: boolean;
   override_reason: string | null;
+  staffing_override_reason: string | null;
   created_at: string;
   updated_at: string;
   // Joined data
@@ -86,6 +92,119 @@ export interface LeaveAdjustment {
   };
 }
 
+export interface LeaveAccrualRun {
+  id: string;
+  organisation_id: string;
+  triggered_by: AccrualRunTrigger;
+  triggered_by_user_id: string | null;
+  balances_updated: number;
+  total_hours_accrued: number;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface LeaveAccrualLedgerEntry {
+  id: string;
+  organisation_id: string;
+  run_id: string;
+  employee_id: string;
+  leave_type_id: string;
+  accrual_basis: AccrualBasis;
+  period_start: string;
+  period_end: string;
+  hours_worked: number | null;
+  pro_rata_factor: number | null;
+  calculated_hours: number;
+  accrued_hours: number;
+  balance_before: number;
+  balance_after: number;
+  capped: boolean;
+  created_at: string;
+  // Joined data
+  leave_type?: Pick<LeaveType, 'id' | 'name'>;
+  employee?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+  run?: Pick<LeaveAccrualRun, 'id' | 'triggered_by'>;
+}
+
+export interface LeaveProjectionCommitment {
+  request_id: string;
+  start_date: string;
+  end_date: string;
+  hours: number;
+  status: LeaveRequestStatus;
+  // Approved requests come off the balance at approval, so they are
+  // already reflected in the current balance
+  deducted: boolean;
+}
+
+export interface LeaveProjectionPoint {
+  date: string;
+  balance: number;
+  accrued: number;
+  booked: number;
+}
+
+export interface LeaveBalanceProjection {
+  employee_id: string;
+  leave_type_id: string;
+  as_of: string;
+  target_date: string;
+  current_balance: number;
+  projected_balance: number;
+  accrued_hours: number;
+  booked_hours: number;
+  average_weekly_hours: number | null;
+  points: LeaveProjectionPoint[];
+  commitments: LeaveProjectionCommitment[];
+}
+
+export interface LeaveStaffingRule {
+  id: string;
+  organisation_id: string;
+  department: string | null;
+  position: string | null;
+  min_staff: number;
+  enforcement: StaffingEnforcement;
+  is_active: boolean;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateLeaveStaffingRuleInput {
+  department: string | null;
+  position: string | null;
+  min_staff: number;
+  enforcement: StaffingEnforcement;
+}
+
+export interface StaffingBreach {
+  rule: LeaveStaffingRule;
+  // Days the team would be below the minimum
+  dates: string[];
+  headcount: number;
+  min_available: number;
+}
+
+export interface LeaveClash {
+  request_id: string;
+  employee_id: string;
+  employee_name: string;
+  status: LeaveRequestStatus;
+  start_date: string;
+  end_date: string;
+}
+
+export interface LeaveStaffingCheck {
+  breaches: StaffingBreach[];
+  clashes: LeaveClash[];
+  requires_override: boolean;
+}
+
 export interface EmployeeLeaveOverview {
   employee_id: string;
   employee_name: string;
@@ -103,6 +222,8 @@ export interface LeaveApprovalPayload {
   action: 'approve' | 'reject' | 'cancel';
   reason?: string;
   override_insufficient_balance?: boolean;
+  override_staffing_rules?: boolean;
+  staffing_override_reason?: string;
 }
 
 export interface LeaveAdjustmentPayload {
@@ -111,3 +232,28 @@ export interface LeaveAdjustmentPayload {
   adjustment_hours: number;
   reason: string;
 }
+
+export interface LeaveTypeAccrualSettings {
+  accrual_basis: AccrualBasis;
+  accrual_rate_hours: number;
+  accrual_rate_per_hour: number | null;
+  accrual_frequency: AccrualFrequency;
+  max_balance_hours: number | null;
+}
+
+export const ACCRUAL_BASIS_LABELS: Record<AccrualBasis, string> = {
+  fixed: 'Fixed per period',
+  hours_worked: 'Per hour worked',
+};
+
+export const ACCRUAL_FREQUENCY_LABELS: Record<AccrualFrequency, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Fortnightly',
+  monthly: 'Monthly',
+  annually: 'Annually',
+};
+
+export const STAFFING_ENFORCEMENT_LABELS: Record<StaffingEnforcement, string> = {
+  warn: 'Warn approver',
+  block: 'Require override',
+};
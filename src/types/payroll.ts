@@ -4,9 +4,20 @@
  */
 
 export type PayPeriodStatus = 'open' | 'exported' | 'closed';
-export type PayrollProvider = 'generic_csv' | 'keypay' | 'xero' | 'myob';
+export type PayrollProvider = 'generic_csv' | 'keypay' | 'xero' | 'myob' | 'internal_payslips';
 export type PayrollExportStatus = 'generated' | 'voided';
 
+/**
+ * The first export of a pay period is a full export. Later exports for the
+ * same period are adjustments carrying only what changed since.
+ */
+export type PayrollExportType = 'full' | 'adjustment';
+
+export const PAYROLL_EXPORT_TYPE_LABELS: Record<PayrollExportType, string> = {
+  full: 'Full',
+  adjustment: 'Adjustment',
+};
+
 export interface PayPeriod {
   id: string;
   organisation_id: string;
@@ -46,6 +57,8 @@ export interface PayrollExport {
   created_by_name: string | null;
   created_by_email: string | null;
   status: PayrollExportStatus;
+  export_type: PayrollExportType;
+  previous_export_id: string | null;
   voided_at: string | null;
   voided_by_user_id: string | null;
   voided_by_name: string | null;
@@ -78,6 +91,77 @@ export interface TimesheetForExport {
   shift_type?: string;
   is_locked: boolean;
   exported_at: string | null;
+  overtime_rules?: OvertimeRules | null;
+  // Multiplier per penalty bucket from the employee's award classification
+  award_multipliers?: Record<PenaltyBucket, number> | null;
+  is_public_holiday?: boolean;
+}
+
+/**
+ * Award penalty buckets. Values match the seeded payroll_mappings.shift_type
+ * keys so each bucket resolves to an organisation's earning code.
+ */
+export type PenaltyBucket =
+  | 'standard'
+  | 'evening'
+  | 'night'
+  | 'weekend'
+  | 'sunday'
+  | 'public_holiday'
+  | 'overtime'
+  | 'overtime_double';
+
+export const PENALTY_BUCKETS: PenaltyBucket[] = [
+  'standard',
+  'evening',
+  'night',
+  'weekend',
+  'sunday',
+  'public_holiday',
+  'overtime',
+  'overtime_double',
+];
+
+export const PENALTY_BUCKET_LABELS: Record<PenaltyBucket, string> = {
+  standard: 'Ordinary Hours',
+  evening: 'Evening',
+  night: 'Night',
+  weekend: 'Saturday',
+  sunday: 'Sunday',
+  public_holiday: 'Public Holiday',
+  overtime: 'Overtime',
+  overtime_double: 'Overtime (Double Time)',
+};
+
+/**
+ * Overtime thresholds from an employee's award classification. Hours past
+ * either threshold are overtime; the first overtime_tier1_hours each day are
+ * paid at the overtime rate and the rest at double time.
+ */
+export interface OvertimeRules {
+  daily_overtime_threshold_hours: number | null;
+  weekly_overtime_threshold_hours: number | null;
+  overtime_tier1_hours: number;
+}
+
+/**
+ * A single earning line in a payroll export. One timesheet produces one
+ * line per penalty bucket that has hours.
+ */
+export interface PayrollExportLine {
+  timesheet_id: string;
+  employee_id: string;
+  employee_name?: string;
+  employee_email?: string;
+  date: string;
+  clock_in: string;
+  clock_out: string | null;
+  break_minutes: number;
+  shift_type: PenaltyBucket;
+  earning_code: string;
+  hours: number;
+  multiplier: number;
+  notes: string | null;
 }
 
 export interface ExportValidationResult {
@@ -85,10 +169,48 @@ export interface ExportValidationResult {
   errors: ValidationError[];
   warnings: ValidationWarning[];
   timesheets: TimesheetForExport[];
+  lines: PayrollExportLine[];
+  reconciliation: ReconciliationIssue[];
+  exportType: PayrollExportType;
+  previousExportId: string | null;
+}
+
+/**
+ * Pay period reconciliation findings. These don't block the export but are
+ * the cases that otherwise surface after the pay run as reversals.
+ */
+export type ReconciliationIssueType =
+  | 'leave_overlap'
+  | 'no_timesheets'
+  | 'inactive_employee'
+  | 'non_compliant_shift';
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  leave_overlap: 'Leave Overlaps Worked Time',
+  no_timesheets: 'No Timesheets',
+  inactive_employee: 'Worked After Deactivation',
+  non_compliant_shift: 'Worked While Non-Compliant',
+};
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  message: string;
+  employeeId: string;
+  employeeName: string;
+  date?: string;
+  timesheetId?: string;
 }
 
 export interface ValidationError {
-  type: 'missing_mapping' | 'missing_identifier' | 'unapproved' | 'already_exported' | 'invalid_dates';
+  type:
+    | 'missing_mapping'
+    | 'missing_identifier'
+    | 'unapproved'
+    | 'already_exported'
+    | 'invalid_dates'
+    | 'missing_bank_details'
+    | 'missing_pay_rate'
+    | 'negative_pay';
   message: string;
   employeeId?: string;
   employeeName?: string;
@@ -133,6 +255,7 @@ export const PROVIDER_COLUMNS: Record<PayrollProvider, string[]> = {
     'break_minutes',
     'hours',
     'earning_code',
+    'multiplier',
     'cost_center',
     'notes',
   ],
@@ -156,6 +279,13 @@ export const PROVIDER_COLUMNS: Record<PayrollProvider, string[]> = {
     'units',
     'date',
   ],
+  internal_payslips: [
+    'bsb',
+    'account_number',
+    'account_name',
+    'amount',
+    'lodgement_reference',
+  ],
 };
 
 export const PROVIDER_LABELS: Record<PayrollProvider, string> = {
@@ -163,6 +293,7 @@ export const PROVIDER_LABELS: Record<PayrollProvider, string> = {
   keypay: 'KeyPay Import',
   xero: 'Xero Payroll',
   myob: 'MYOB Payroll',
+  internal_payslips: 'Payslips & ABA Bank File',
 };
 
 export const PROVIDER_DESCRIPTIONS: Record<PayrollProvider, string> = {
@@ -170,4 +301,74 @@ export const PROVIDER_DESCRIPTIONS: Record<PayrollProvider, string> = {
   keypay: 'KeyPay timesheet/earnings lines import format',
   xero: 'Xero Payroll earnings import format',
   myob: 'MYOB Payroll categories import format',
+  internal_payslips: 'PDF payslips per employee plus an ABA direct entry file for your bank (gross pay, no tax withheld)',
 };
+
+// =====================================================
+// Internal Payslips
+// =====================================================
+
+/**
+ * Where an employee's pay is deposited. BSB is stored as six digits
+ * without the dash.
+ */
+export interface EmployeeBankAccount {
+  id: string;
+  organisation_id: string;
+  employee_id: string;
+  account_name: string;
+  bsb: string;
+  account_number: string;
+  updated_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveEmployeeBankAccountInput {
+  account_name: string;
+  bsb: string;
+  account_number: string;
+}
+
+/**
+ * The organisation's direct entry registration and funding account,
+ * written to the ABA file header and balancing record.
+ */
+export interface PayrollBankSettings {
+  id: string;
+  organisation_id: string;
+  financial_institution: string;
+  apca_user_id: string;
+  user_name: string;
+  remitter_name: string;
+  bsb: string;
+  account_number: string;
+  account_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavePayrollBankSettingsInput = Omit<
+  PayrollBankSettings,
+  'id' | 'organisation_id' | 'created_at' | 'updated_at'
+>;
+
+/**
+ * One employee's earnings for a pay period, priced from their award.
+ */
+export interface PayslipEarning {
+  bucket: PenaltyBucket;
+  earning_code: string;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export interface Payslip {
+  employee_id: string;
+  employee_name: string;
+  employee_email?: string;
+  earnings: PayslipEarning[];
+  total_hours: number;
+  gross_pay: number;
+}
@@ -62,6 +62,12 @@ export interface ComplianceRule {
   target_type: AssignmentTargetType;
   target_value: string | null;
   is_required: boolean;
+  // employee_certifications.type that satisfies the rule
+  certification_type: string | null;
+  // Limits the rule to these employment types; null applies to all
+  employment_types: string[] | null;
+  // Days before expiry that the certificate shows as expiring soon
+  warning_days: number;
   created_at: string;
   updated_at: string;
   document_type?: DocumentType;
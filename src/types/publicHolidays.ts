@@ -0,0 +1,55 @@
+// Public Holiday Calendar Types
+
+export type PublicHolidaySource = 'manual' | 'csv' | 'ical';
+
+// Australian states and territories used to tag regional holidays
+export type HolidayRegion = 'ACT' | 'NSW' | 'NT' | 'QLD' | 'SA' | 'TAS' | 'VIC' | 'WA';
+
+export const HOLIDAY_REGIONS: HolidayRegion[] = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'];
+
+export const HOLIDAY_REGION_LABELS: Record<HolidayRegion, string> = {
+  ACT: 'Australian Capital Territory',
+  NSW: 'New South Wales',
+  NT: 'Northern Territory',
+  QLD: 'Queensland',
+  SA: 'South Australia',
+  TAS: 'Tasmania',
+  VIC: 'Victoria',
+  WA: 'Western Australia',
+};
+
+export const PUBLIC_HOLIDAY_SOURCE_LABELS: Record<PublicHolidaySource, string> = {
+  manual: 'Manual',
+  csv: 'CSV Import',
+  ical: 'iCal Import',
+};
+
+export interface PublicHoliday {
+  id: string;
+  organisation_id: string;
+  holiday_date: string;
+  name: string;
+  regions: string[]; // Empty = national
+  source: PublicHolidaySource;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePublicHolidayInput {
+  holiday_date: string;
+  name: string;
+  regions?: string[];
+}
+
+// A holiday parsed from an import file, before it is saved
+export interface ParsedPublicHoliday {
+  holiday_date: string;
+  name: string;
+  regions: string[];
+}
+
+export interface PublicHolidayImportResult {
+  holidays: ParsedPublicHoliday[];
+  errors: string[];
+}
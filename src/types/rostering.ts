@@ -0,0 +1,107 @@
+// Rostering Types
+
+export type WorkerGender = 'female' | 'male';
+export type EmployeeGender = 'female' | 'male' | 'non_binary';
+export type ParticipantStatus = 'active' | 'inactive';
+export type ShiftStatus = 'open' | 'assigned' | 'completed' | 'cancelled';
+
+export interface Participant {
+  id: string;
+  organisation_id: string;
+  first_name: string;
+  last_name: string;
+  ndis_number: string | null;
+  address: string | null;
+  phone: string | null;
+  worker_gender: WorkerGender | null;
+  required_certifications: string[];
+  requirement_notes: string | null;
+  status: ParticipantStatus;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  workers?: ParticipantWorker[];
+}
+
+export interface ParticipantWorker {
+  id: string;
+  organisation_id: string;
+  participant_id: string;
+  employee_id: string;
+  compliance_override_id: string | null;
+  assigned_by_user_id: string | null;
+  created_at: string;
+  // Joined data
+  employee?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface Shift {
+  id: string;
+  organisation_id: string;
+  participant_id: string | null;
+  employee_id: string | null;
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  notes: string | null;
+  requires_driving: boolean;
+  required_certifications: string[];
+  status: ShiftStatus;
+  compliance_override_id: string | null;
+  assigned_at: string | null;
+  assigned_by_user_id: string | null;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  participant?: Pick<Participant, 'id' | 'first_name' | 'last_name' | 'worker_gender' | 'required_certifications'> | null;
+  employee?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  } | null;
+}
+
+export interface CreateParticipantInput {
+  first_name: string;
+  last_name: string;
+  ndis_number?: string;
+  address?: string;
+  phone?: string;
+  worker_gender?: WorkerGender | null;
+  required_certifications?: string[];
+  requirement_notes?: string;
+}
+
+export interface CreateShiftInput {
+  participant_id?: string | null;
+  start_time: string;
+  end_time: string;
+  location?: string;
+  notes?: string;
+  requires_driving?: boolean;
+  required_certifications?: string[];
+}
+
+export const WORKER_GENDER_LABELS: Record<WorkerGender, string> = {
+  female: 'Female worker only',
+  male: 'Male worker only',
+};
+
+export const EMPLOYEE_GENDER_LABELS: Record<EmployeeGender, string> = {
+  female: 'Female',
+  male: 'Male',
+  non_binary: 'Non-binary',
+};
+
+export const SHIFT_STATUS_LABELS: Record<ShiftStatus, string> = {
+  open: 'Open',
+  assigned: 'Assigned',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
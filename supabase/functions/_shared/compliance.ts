@@ -0,0 +1,480 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { localToday } from './dates.ts';
+
+/**
+ * Compliance evaluation shared by evaluate-compliance (on-demand checks) and
+ * snapshot-compliance (the nightly history run).
+ */
+
+export type SupabaseClient = ReturnType<typeof createClient>;
+
+const DEFAULT_WARNING_DAYS = 30;
+
+// Optional certifications based on context
+const CONTEXT_CERTIFICATIONS = {
+  driving: ['drivers_license'],
+};
+
+export interface CertificationStatus {
+  type: string;
+  status: 'missing' | 'expired' | 'expiring_soon' | 'valid' | 'rejected' | 'pending' | 'unverified';
+  expiryDate?: string;
+  daysUntilExpiry?: number;
+}
+
+export interface ComplianceResult {
+  employeeId: string;
+  compliant: boolean;
+  blockingReasons: CertificationStatus[];
+  expiringSoon: CertificationStatus[];
+  overrideActive: boolean;
+  overrideDetails?: {
+    id: string;
+    reason: string;
+    expiresAt: string;
+    overrideBy: string;
+    approvedBy?: string;
+  };
+  evaluatedAt: string;
+}
+
+export interface EvaluationContext {
+  contextType: 'shift' | 'client' | 'service' | 'general';
+  contextId?: string;
+  requiresDriving?: boolean;
+  additionalRequirements?: string[];
+  workerGender?: 'female' | 'male';
+}
+
+interface ComplianceRuleRow {
+  id: string;
+  target_type: string;
+  target_value: string | null;
+  is_required: boolean | null;
+  certification_type: string | null;
+  employment_types: string[] | null;
+  warning_days: number | null;
+  document_type: { name: string; is_active: boolean | null } | null;
+}
+
+interface EmployeeRow {
+  id: string;
+  gender?: string | null;
+  position: string | null;
+  department: string | null;
+  work_state: string | null;
+  employment_type: string | null;
+}
+
+// Mirrors src/lib/complianceRules.ts - keep the two in step
+const toCode = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const sameValue = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+// Null for a rule that only lists a required document
+function requirementType(rule: ComplianceRuleRow): string | null {
+  return rule.certification_type ? rule.certification_type.toLowerCase() : null;
+}
+
+function ruleAppliesToEmployee(
+  rule: ComplianceRuleRow,
+  employee: EmployeeRow,
+  departments: { id: string; name: string }[]
+): boolean {
+  if (rule.employment_types && rule.employment_types.length > 0) {
+    if (!rule.employment_types.some(t => sameValue(t, employee.employment_type))) return false;
+  }
+
+  switch (rule.target_type) {
+    case 'all':
+      return true;
+    case 'role':
+      return sameValue(rule.target_value, employee.position);
+    case 'department':
+    case 'team': {
+      if (sameValue(rule.target_value, employee.department)) return true;
+      const department = departments.find(d => d.id === rule.target_value);
+      return !!department && sameValue(department.name, employee.department);
+    }
+    case 'location':
+      return sameValue(rule.target_value, employee.work_state);
+    case 'individual':
+      return rule.target_value === employee.id;
+    default:
+      return false;
+  }
+}
+
+// Required certificate types with their warning windows; the widest window wins
+function resolveRequirements(
+  rules: ComplianceRuleRow[],
+  employee: EmployeeRow,
+  departments: { id: string; name: string }[],
+  context: EvaluationContext
+): Map<string, number> {
+  const requirements = new Map<string, number>();
+  const add = (type: string, warningDays: number) => {
+    requirements.set(type, Math.max(requirements.get(type) ?? 0, warningDays));
+  };
+
+  for (const rule of rules) {
+    if (rule.is_required === false) continue;
+    if (rule.document_type?.is_active === false) continue;
+    const type = requirementType(rule);
+    if (!type) continue;
+    if (!ruleAppliesToEmployee(rule, employee, departments)) continue;
+    add(type, rule.warning_days ?? DEFAULT_WARNING_DAYS);
+  }
+
+  if (context.requiresDriving) {
+    for (const type of CONTEXT_CERTIFICATIONS.driving) add(type, DEFAULT_WARNING_DAYS);
+  }
+  for (const type of context.additionalRequirements || []) {
+    add(type.toLowerCase(), DEFAULT_WARNING_DAYS);
+  }
+
+  return requirements;
+}
+
+/**
+ * Add the requirements of the shift or participant being assigned to. These
+ * are read here rather than trusted from the caller so they can't be left off.
+ */
+export async function withRosteringRequirements(
+  supabase: SupabaseClient,
+  context: EvaluationContext
+): Promise<EvaluationContext | null> {
+  if (!context.contextId || (context.contextType !== 'shift' && context.contextType !== 'client')) {
+    return context;
+  }
+
+  let participantId: string | null = context.contextId;
+  const additional = [...(context.additionalRequirements || [])];
+  let requiresDriving = context.requiresDriving || false;
+
+  if (context.contextType === 'shift') {
+    const { data: shift, error } = await supabase
+      .from('shifts')
+      .select('participant_id, requires_driving, required_certifications')
+      .eq('id', context.contextId)
+      .maybeSingle();
+    if (error || !shift) {
+      console.error('Error fetching shift:', error);
+      return null;
+    }
+    participantId = shift.participant_id;
+    requiresDriving = requiresDriving || shift.requires_driving;
+    additional.push(...(shift.required_certifications || []));
+  }
+
+  let workerGender = context.workerGender;
+  if (participantId) {
+    const { data: participant, error } = await supabase
+      .from('participants')
+      .select('worker_gender, required_certifications')
+      .eq('id', participantId)
+      .maybeSingle();
+    if (error || !participant) {
+      console.error('Error fetching participant:', error);
+      return null;
+    }
+    workerGender = participant.worker_gender || workerGender;
+    additional.push(...(participant.required_certifications || []));
+  }
+
+  return {
+    ...context,
+    requiresDriving,
+    additionalRequirements: [...new Set(additional)],
+    workerGender,
+  };
+}
+
+export interface EmployeeEvaluation {
+  organisationId: string;
+  timezone: string | null;
+  result: ComplianceResult;
+}
+
+/**
+ * Evaluate one employee against their organisation's rules and the context.
+ * Returns null when any of the data can't be read, so callers fail closed.
+ */
+export async function evaluateEmployeeCompliance(
+  supabase: SupabaseClient,
+  employeeId: string,
+  context: EvaluationContext
+): Promise<EmployeeEvaluation | null> {
+  const evaluationContext = await withRosteringRequirements(
+    supabase,
+    context
+  );
+  if (!evaluationContext) {
+    return null;
+  }
+
+  // Fetch the employee and their organisation's compliance rules
+  const { data: employee, error: employeeError } = await supabase
+    .from('employees')
+    .select('id, organisation_id, position, department, work_state, employment_type, gender, organisation:organisations(timezone)')
+    .eq('id', employeeId)
+    .maybeSingle();
+
+  if (employeeError || !employee) {
+    console.error('Error fetching employee:', employeeError);
+    // Fail closed - if we can't get compliance data, block assignment
+    return null;
+  }
+
+  const [
+    { data: rules, error: rulesError },
+    { data: departments },
+    { data: certifications, error: certError },
+  ] = await Promise.all([
+    supabase
+      .from('compliance_rules')
+      .select('id, target_type, target_value, is_required, certification_type, employment_types, warning_days, document_type:document_types(name, is_active)')
+      .eq('organisation_id', employee.organisation_id),
+    supabase.from('departments').select('id, name'),
+    supabase
+      .from('employee_certifications')
+      .select('*')
+      .eq('employee_id', employeeId),
+  ]);
+
+  if (rulesError || certError) {
+    console.error('Error fetching compliance data:', rulesError || certError);
+    return null;
+  }
+
+  const requirements = resolveRequirements(
+    (rules || []) as ComplianceRuleRow[],
+    employee,
+    departments || [],
+    evaluationContext
+  );
+
+  // Renewals leave several certificates of a type; prefer a current verified one.
+  // Training certificates are also matched on their name, e.g. "PEG Feeding".
+  type CertificationRow = {
+    type: string;
+    name: string | null;
+    status: string;
+    expiry_date: string | null;
+    verification_id: string | null;
+  };
+  const rank = (cert: CertificationRow) => {
+    if (cert.status === 'rejected') return 0;
+    if (cert.status === 'pending') return 1;
+    if (!cert.verification_id) return 2;
+    return 3;
+  };
+  const certMap = new Map<string, CertificationRow>();
+  for (const cert of (certifications || []) as CertificationRow[]) {
+    const keys = new Set([cert.type.toLowerCase(), ...(cert.name ? [toCode(cert.name)] : [])]);
+    for (const key of keys) {
+      const existing = certMap.get(key);
+      if (
+        !existing ||
+        rank(cert) > rank(existing) ||
+        (rank(cert) === rank(existing) && (cert.expiry_date ?? '9999') > (existing.expiry_date ?? '9999'))
+      ) {
+        certMap.set(key, cert);
+      }
+    }
+  }
+
+  const now = new Date();
+
+  const blockingReasons: CertificationStatus[] = [];
+  const expiringSoon: CertificationStatus[] = [];
+
+  for (const [requiredType, warningDays] of requirements) {
+    const cert = certMap.get(requiredType);
+
+    if (!cert) {
+      // Missing certification
+      blockingReasons.push({
+        type: requiredType,
+        status: 'missing',
+      });
+      continue;
+    }
+
+    // Check status
+    if (cert.status === 'rejected') {
+      blockingReasons.push({
+        type: requiredType,
+        status: 'rejected',
+      });
+      continue;
+    }
+
+    if (cert.status === 'pending') {
+      blockingReasons.push({
+        type: requiredType,
+        status: 'pending',
+      });
+      continue;
+    }
+
+    // Not checked at the source yet, so it can't be relied on. An expired
+    // certificate is reported as expired below instead.
+    if (!cert.verification_id && !(cert.expiry_date && new Date(cert.expiry_date) < now)) {
+      blockingReasons.push({
+        type: requiredType,
+        status: 'unverified',
+      });
+      continue;
+    }
+
+    // Check expiry against the requirement's warning window
+    if (cert.expiry_date) {
+      const expiryDate = new Date(cert.expiry_date);
+      const warnFrom = new Date(now.getTime() + warningDays * 24 * 60 * 60 * 1000);
+      
+      if (expiryDate < now) {
+        blockingReasons.push({
+          type: requiredType,
+          status: 'expired',
+          expiryDate: cert.expiry_date,
+        });
+      } else if (expiryDate < warnFrom) {
+        const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+        expiringSoon.push({
+          type: requiredType,
+          status: 'expiring_soon',
+          expiryDate: cert.expiry_date,
+          daysUntilExpiry,
+        });
+      }
+    }
+  }
+
+  // Participant asked for a worker of a particular gender
+  if (evaluationContext.workerGender && employee.gender !== evaluationContext.workerGender) {
+    blockingReasons.push({
+      type: 'worker_gender',
+      status: 'missing',
+    });
+  }
+
+  // Check for active override
+  let overrideActive = false;
+  let overrideDetails: ComplianceResult['overrideDetails'] = undefined;
+
+  if (blockingReasons.length > 0) {
+    const { data: overrides } = await supabase
+      .from('compliance_overrides')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('is_active', true)
+      // Requests awaiting their second signature don't count yet
+      .eq('approval_status', 'approved')
+      .gt('expires_at', now.toISOString())
+      .order('created_at', { ascending: false });
+
+    // An override for one shift or client doesn't cover another
+    const override = (overrides || []).find(o =>
+      o.context_type === 'general' ||
+      evaluationContext.contextType === 'general' ||
+      (o.context_type === evaluationContext.contextType &&
+        (!o.context_id || o.context_id === evaluationContext.contextId))
+    );
+
+    if (override) {
+      overrideActive = true;
+      overrideDetails = {
+        id: override.id,
+        reason: override.reason,
+        expiresAt: override.expires_at,
+        overrideBy: override.override_by_name,
+        approvedBy: override.reviewed_by_name,
+      };
+    }
+  }
+
+  const result: ComplianceResult = {
+    employeeId,
+    compliant: blockingReasons.length === 0,
+    blockingReasons,
+    expiringSoon,
+    overrideActive,
+    overrideDetails,
+    evaluatedAt: now.toISOString(),
+  };
+
+  return {
+    organisationId: employee.organisation_id,
+    timezone: employee.organisation?.timezone ?? null,
+    result,
+  };
+}
+
+export type ComplianceSnapshotStatus = 'compliant' | 'expiring' | 'non_compliant';
+
+// Mirrors src/lib/complianceHistory.ts
+export function snapshotStatus(result: ComplianceResult): ComplianceSnapshotStatus {
+  if (result.blockingReasons.length > 0) return 'non_compliant';
+  if (result.expiringSoon.length > 0) return 'expiring';
+  return 'compliant';
+}
+
+/**
+ * Store the employee's snapshot for today (the latest evaluation of the day
+ * wins) and, when their status differs from the last one recorded, a status
+ * change event. Only general evaluations belong here; a shift or participant
+ * check says nothing about the employee's standing overall.
+ */
+export async function recordComplianceSnapshot(
+  supabase: SupabaseClient,
+  evaluation: EmployeeEvaluation,
+  source: 'schedule' | 'evaluation'
+): Promise<{ changed: boolean }> {
+  const { result, organisationId, timezone } = evaluation;
+  const status = snapshotStatus(result);
+
+  const { data: previous, error: previousError } = await supabase
+    .from('compliance_snapshots')
+    .select('status')
+    .eq('employee_id', result.employeeId)
+    .order('evaluated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (previousError) throw previousError;
+
+  const record = {
+    organisation_id: organisationId,
+    employee_id: result.employeeId,
+    status,
+    compliant: result.compliant,
+    override_active: result.overrideActive,
+    blocking_reasons: result.blockingReasons,
+    expiring_soon: result.expiringSoon,
+  };
+
+  const { error: snapshotError } = await supabase
+    .from('compliance_snapshots')
+    .upsert(
+      { ...record, snapshot_date: localToday(timezone), evaluated_at: result.evaluatedAt, source },
+      { onConflict: 'employee_id,snapshot_date' }
+    );
+  if (snapshotError) throw snapshotError;
+
+  const previousStatus = previous?.status ?? null;
+  if (previousStatus === status) return { changed: false };
+
+  const { error: eventError } = await supabase
+    .from('compliance_status_events')
+    .insert({
+      ...record,
+      previous_status: previousStatus,
+      occurred_at: result.evaluatedAt,
+      source,
+    });
+  if (eventError) throw eventError;
+
+  return { changed: true };
+}
@@ -0,0 +1,206 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.93.1';
+import type { Mailer } from './mailer.ts';
+
+/**
+ * Contract signing links and requests, shared by contract-signing (the
+ * public signing page and sends from the app) and contract-signing-reminders
+ * (the daily chase).
+ */
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type SignerRole = 'employee' | 'countersigner' | 'witness';
+
+export interface SignerRow {
+  id: string;
+  contract_id: string;
+  signing_order: number;
+  role: SignerRole;
+  name: string;
+  email: string;
+  status: 'pending' | 'signed';
+  signed_at: string | null;
+  notified_at: string | null;
+  last_reminded_at: string | null;
+  reminder_count: number;
+}
+
+export interface ContractRow {
+  id: string;
+  title: string;
+  status: string;
+  expires_at: string | null;
+}
+
+export interface ContractActor {
+  name: string | null;
+  email: string | null;
+}
+
+// Invitation: the first time a signer is sent their link
+export type SigningRequestKind = 'invitation' | 'reminder';
+
+export const SIGNER_COLUMNS =
+  'id, contract_id, signing_order, role, name, email, status, signed_at, notified_at, last_reminded_at, reminder_count';
+
+const ROLE_VERBS: Record<SignerRole, string> = {
+  employee: 'sign',
+  countersigner: 'countersign',
+  witness: 'witness',
+};
+
+// Mirrors src/lib/contractSigning.ts
+export function currentSigner(signers: SignerRow[]): SignerRow | null {
+  return [...signers]
+    .sort((a, b) => a.signing_order - b.signing_order)
+    .find(s => s.status === 'pending') ?? null;
+}
+
+// Mirrors src/lib/contractSigning.ts
+export function signingAuditAction(role: SignerRole): 'signed' | 'countersigned' | 'witnessed' {
+  switch (role) {
+    case 'countersigner':
+      return 'countersigned';
+    case 'witness':
+      return 'witnessed';
+    default:
+      return 'signed';
+  }
+}
+
+export function isPastDeadline(contract: ContractRow, now = new Date()): boolean {
+  return !!contract.expires_at && new Date(contract.expires_at) <= now;
+}
+
+function signingLink(token: string): string {
+  const appUrl = Deno.env.get('APP_URL');
+  if (!appUrl) {
+    throw new Error('APP_URL is not set, so signing links cannot be built');
+  }
+  return `${appUrl.replace(/\/$/, '')}/sign/${token}`;
+}
+
+export async function loadSigners(supabase: SupabaseClient, contractId: string): Promise<SignerRow[]> {
+  const { data, error } = await supabase
+    .from('contract_signers')
+    .select(SIGNER_COLUMNS)
+    .eq('contract_id', contractId)
+    .order('signing_order');
+  if (error) throw error;
+  return (data || []) as SignerRow[];
+}
+
+// Logins are linked to signers by email
+export async function loadAuthUsers(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const byEmail = new Map<string, string>();
+  const perPage = 1000;
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+    if (error) throw error;
+    for (const user of data.users) {
+      if (user.email) byEmail.set(user.email.toLowerCase(), user.id);
+    }
+    if (data.users.length < perPage) break;
+  }
+  return byEmail;
+}
+
+/**
+ * Record the send on the signer before it goes out, so a rerun or
+ * overlapping run can't send it twice. False if someone else got there first.
+ */
+export async function claimSigningRequest(
+  supabase: SupabaseClient,
+  signer: SignerRow,
+  kind: SigningRequestKind
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const query = kind === 'invitation'
+    ? supabase
+        .from('contract_signers')
+        .update({ notified_at: now })
+        .eq('id', signer.id)
+        .is('notified_at', null)
+    : supabase
+        .from('contract_signers')
+        .update({ last_reminded_at: now, reminder_count: signer.reminder_count + 1 })
+        .eq('id', signer.id)
+        .eq('reminder_count', signer.reminder_count);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+/**
+ * Email the signer their link, and tell them in the app too if they have a
+ * login. The link itself only ever goes by email.
+ */
+export async function sendSigningRequest(
+  supabase: SupabaseClient,
+  mailer: Mailer,
+  contract: ContractRow,
+  signer: SignerRow,
+  kind: SigningRequestKind,
+  userId: string | null
+): Promise<void> {
+  const { data: token, error } = await supabase
+    .from('contract_signing_tokens')
+    .select('token')
+    .eq('signer_id', signer.id)
+    .single();
+  if (error) throw error;
+
+  const verb = ROLE_VERBS[signer.role];
+  const title = kind === 'invitation' ? `Please ${verb} ${contract.title}` : `Reminder: please ${verb} ${contract.title}`;
+  const deadline = contract.expires_at
+    ? ` It must be signed by ${new Date(contract.expires_at).toUTCString()}.`
+    : '';
+
+  await mailer.send({
+    to: signer.email,
+    subject: title,
+    text: `Hi ${signer.name},\n\n${contract.title} is ready for you to ${verb}.${deadline}\n\n` +
+      `Open your signing link to review and ${verb} it:\n${signingLink(token.token)}\n\n` +
+      'This link is personal to you. Please do not forward it.',
+  });
+
+  if (userId) {
+    const { error: notifyError } = await supabase.from('notifications').insert({
+      user_id: userId,
+      title,
+      message: `${contract.title} is waiting for you to ${verb}. Your signing link has been emailed to ${signer.email}.`,
+      type: 'contract',
+      category: 'contract',
+      link: '/contracts',
+    });
+    if (notifyError) {
+      console.error(`[contract-signing] Notification for ${userId} failed:`, notifyError);
+    }
+  }
+}
+
+/**
+ * For steps taken outside the app, where logAuditEvent isn't available.
+ */
+export async function logContractEvent(
+  supabase: SupabaseClient,
+  contractId: string,
+  action: string,
+  actor: ContractActor,
+  details: Record<string, string | number | boolean>,
+  request: { ipAddress?: string | null; userAgent?: string | null } = {}
+): Promise<void> {
+  const { error } = await supabase.from('contract_audit_log').insert({
+    contract_id: contractId,
+    action,
+    actor_name: actor.name,
+    actor_email: actor.email,
+    details,
+    ip_address: request.ipAddress ?? null,
+    user_agent: request.userAgent ?? null,
+  });
+  if (error) {
+    console.error(`[contract-signing] Audit entry ${action} for ${contractId} failed:`, error);
+  }
+}
@@ -0,0 +1,11 @@
+// Matches the organisations.timezone column default
+export const DEFAULT_TIMEZONE = 'Australia/Sydney';
+
+/** Today's date (YYYY-MM-DD) in the given timezone. */
+export function localToday(timezone: string | null): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone || DEFAULT_TIMEZONE }).format(new Date());
+  } catch {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: DEFAULT_TIMEZONE }).format(new Date());
+  }
+}
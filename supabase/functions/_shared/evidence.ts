@@ -0,0 +1,94 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.93.1';
+
+/**
+ * HR evidence integrity checks shared by hr-evidence-custody (on-demand
+ * checks from a case) and generate-audit-pack (the custody manifest).
+ */
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export const EVIDENCE_BUCKET = 'hr-case-evidence';
+
+export interface EvidenceRecord {
+  id: string;
+  hr_case_id: string;
+  file_name: string;
+  storage_path: string | null;
+  sha256: string | null;
+}
+
+export interface CustodyActor {
+  id: string | null;
+  name: string | null;
+}
+
+// Unhashed: uploaded before hashing, so there is nothing to compare with
+export type IntegrityResult = 'intact' | 'altered' | 'missing' | 'unhashed';
+
+export interface IntegrityCheck {
+  result: IntegrityResult;
+  expectedSha256: string | null;
+  actualSha256: string | null;
+  checkedAt: string;
+}
+
+const NOTES: Record<Exclude<IntegrityResult, 'intact' | 'unhashed'>, string> = {
+  altered: 'Stored file does not match the hash recorded at upload',
+  missing: 'Stored file is missing',
+};
+
+// Mirrors src/lib/evidenceIntegrity.ts
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function recordCustodyEvent(
+  supabase: SupabaseClient,
+  evidence: EvidenceRecord,
+  eventType: 'viewed' | 'downloaded' | 'verified' | 'verification_failed',
+  actor: CustodyActor,
+  details: { sha256?: string | null; note?: string | null } = {}
+): Promise<void> {
+  const { error } = await supabase.from('hr_case_evidence_custody_events').insert({
+    evidence_id: evidence.id,
+    hr_case_id: evidence.hr_case_id,
+    event_type: eventType,
+    actor_user_id: actor.id,
+    actor_name: actor.name,
+    sha256: details.sha256 ?? null,
+    note: details.note ?? null,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Re-hash the stored file against the hash taken at upload and record the
+ * outcome as a custody event.
+ */
+export async function verifyEvidence(
+  supabase: SupabaseClient,
+  evidence: EvidenceRecord,
+  actor: CustodyActor
+): Promise<IntegrityCheck> {
+  const checkedAt = new Date().toISOString();
+  if (!evidence.sha256 || !evidence.storage_path) {
+    return { result: 'unhashed', expectedSha256: null, actualSha256: null, checkedAt };
+  }
+
+  const { data: file, error } = await supabase.storage.from(EVIDENCE_BUCKET).download(evidence.storage_path);
+  const actualSha256 = file && !error ? await sha256Hex(await file.arrayBuffer()) : null;
+  const result: IntegrityResult = !actualSha256
+    ? 'missing'
+    : actualSha256 === evidence.sha256 ? 'intact' : 'altered';
+
+  await recordCustodyEvent(
+    supabase,
+    evidence,
+    result === 'intact' ? 'verified' : 'verification_failed',
+    actor,
+    { sha256: actualSha256, note: result === 'intact' ? null : NOTES[result] }
+  );
+
+  return { result, expectedSha256: evidence.sha256, actualSha256, checkedAt };
+}
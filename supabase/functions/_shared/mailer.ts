@@ -0,0 +1,62 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them. Used when no provider is
+ * configured, so scheduled jobs can be run locally without mail credentials.
+ */
+class LogMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mailer] To: ${message.to} | ${message.subject}\n${message.text}`);
+  }
+}
+
+class ResendMailer implements Mailer {
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Picks the mail provider from MAIL_PROVIDER. Anything other than 'resend'
+ * (including unset) falls back to the logging stub.
+ */
+export function createMailer(): Mailer {
+  const provider = Deno.env.get('MAIL_PROVIDER') ?? 'log';
+
+  if (provider === 'resend') {
+    const apiKey = Deno.env.get('RESEND_API_KEY');
+    const from = Deno.env.get('MAIL_FROM');
+    if (!apiKey || !from) {
+      throw new Error('MAIL_PROVIDER is resend but RESEND_API_KEY or MAIL_FROM is not set');
+    }
+    return new ResendMailer(apiKey, from);
+  }
+
+  return new LogMailer();
+}
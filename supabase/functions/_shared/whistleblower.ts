@@ -0,0 +1,85 @@
+/**
+ * Case keys, passphrase hashing and the lockout on repeated failed attempts,
+ * used by whistleblower-intake. A copy of src/lib/whistleblowerIntake.ts,
+ * where the tests live; keep the two in step.
+ */
+
+// Unambiguous characters; 32 of them so a random byte maps without bias
+export const KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const PBKDF2_ITERATIONS = 310_000;
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+/**
+ * Groups of four random characters joined by dashes, e.g. "K7QD-M2XA".
+ */
+export function randomCode(groups: number, bytes = crypto.getRandomValues(new Uint8Array(groups * 4))): string {
+  const chars = Array.from(bytes.slice(0, groups * 4), b => KEY_ALPHABET[b % KEY_ALPHABET.length]);
+  return Array.from({ length: groups }, (_, i) => chars.slice(i * 4, i * 4 + 4).join('')).join('-');
+}
+
+export const generateCaseKey = () => `WB-${randomCode(3)}`;
+
+export const generatePassphrase = () => randomCode(5).toLowerCase();
+
+// Reporters may type the key back in lower case or with stray spaces
+export const normaliseCaseKey = (value: string) => value.trim().toUpperCase();
+
+// Spacing and case don't matter when the reporter types it back in
+export const normalisePassphrase = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+async function derive(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Salted PBKDF2-SHA256 hash, stored as "pbkdf2-sha256$iterations$salt$hash"
+ * so the iteration count can be raised without invalidating older hashes.
+ */
+export async function hashPassphrase(passphrase: string, iterations = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(normalisePassphrase(passphrase), salt, iterations);
+  return `pbkdf2-sha256$${iterations}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/**
+ * Checks a passphrase against a stored hash in constant time. Anything not
+ * in the expected format never matches.
+ */
+export async function verifyPassphrase(passphrase: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2-sha256' || !(Number(iterations) > 0) || !salt || !expected) return false;
+  const actual = await derive(normalisePassphrase(passphrase), fromBase64(salt), Number(iterations));
+  const wanted = fromBase64(expected);
+  if (actual.length !== wanted.length) return false;
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ wanted[i];
+  return diff === 0;
+}
+
+export interface ChannelLockState {
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+export function isLocked(channel: ChannelLockState, now = new Date()): boolean {
+  return !!channel.locked_until && new Date(channel.locked_until) > now;
+}
+
+/**
+ * The channel's state after another wrong passphrase. The fifth failure in a
+ * row locks it for LOCKOUT_MINUTES and starts the count again.
+ */
+export function afterFailedAttempt(channel: ChannelLockState, now = new Date()): ChannelLockState {
+  const attempts = channel.failed_attempts + 1;
+  const locked = attempts >= MAX_FAILED_ATTEMPTS;
+  return {
+    failed_attempts: locked ? 0 : attempts,
+    locked_until: locked ? new Date(now.getTime() + LOCKOUT_MINUTES * 60_000).toISOString() : null,
+  };
+}
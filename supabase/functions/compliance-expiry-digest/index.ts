@@ -0,0 +1,393 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { createMailer, type Mailer } from '../_shared/mailer.ts';
+import { localToday } from '../_shared/dates.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Mirrors src/lib/complianceAlerts.ts
+type AlertStage = '60_days' | '30_days' | '14_days' | '7_days' | 'expired';
+type Audience = 'employee' | 'managers' | 'admins';
+
+const REMINDER_STAGES: { stage: AlertStage; days: number }[] = [
+  { stage: '60_days', days: 60 },
+  { stage: '30_days', days: 30 },
+  { stage: '14_days', days: 14 },
+  { stage: '7_days', days: 7 },
+];
+
+const EXPIRED_ALERT_GRACE_DAYS = 7;
+
+const ALERT_STAGE_AUDIENCES: Record<AlertStage, Audience[]> = {
+  '60_days': ['employee'],
+  '30_days': ['employee'],
+  '14_days': ['employee', 'managers'],
+  '7_days': ['employee'],
+  expired: ['admins'],
+};
+
+function alertStageFor(daysUntilExpiry: number): AlertStage | null {
+  if (daysUntilExpiry <= 0) {
+    return daysUntilExpiry >= -EXPIRED_ALERT_GRACE_DAYS ? 'expired' : null;
+  }
+  let current: AlertStage | null = null;
+  for (const { stage, days } of REMINDER_STAGES) {
+    if (daysUntilExpiry <= days) current = stage;
+  }
+  return current;
+}
+
+interface EmployeeRow {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  department: string | null;
+}
+
+interface CertificationRow {
+  id: string;
+  employee_id: string;
+  type: string;
+  name: string | null;
+  status: string;
+  expiry_date: string;
+}
+
+interface OrgUser {
+  userId: string;
+  email: string | null;
+  roles: string[];
+}
+
+interface Recipient {
+  userId: string | null;
+  email: string | null;
+}
+
+interface OrganisationRunResult {
+  organisationId: string;
+  alertsSent: number;
+  emailsSent: number;
+  error?: string;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/** Maps lower-cased email to auth user id, across every page of users. */
+async function loadAuthUsers(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const byEmail = new Map<string, string>();
+  const perPage = 1000;
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+    if (error) throw error;
+    for (const user of data.users) {
+      if (user.email) byEmail.set(user.email.toLowerCase(), user.id);
+    }
+    if (data.users.length < perPage) break;
+  }
+  return byEmail;
+}
+
+async function loadOrgUsers(
+  supabase: SupabaseClient,
+  organisationId: string,
+  emailByUserId: Map<string, string>
+): Promise<OrgUser[]> {
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('organisation_id', organisationId);
+  if (error) throw error;
+
+  const userIds = (profiles || []).map(p => p.user_id);
+  if (userIds.length === 0) return [];
+
+  const { data: roles, error: rolesError } = await supabase
+    .from('user_roles')
+    .select('user_id, role')
+    .in('user_id', userIds);
+  if (rolesError) throw rolesError;
+
+  return userIds.map(userId => ({
+    userId,
+    email: emailByUserId.get(userId) ?? null,
+    roles: (roles || []).filter(r => r.user_id === userId).map(r => r.role),
+  }));
+}
+
+/**
+ * Managers for an employee. Employees carry no reporting line, so this is
+ * the org's managers who work in the same department, or every manager
+ * when none do.
+ */
+function managersFor(
+  employee: EmployeeRow,
+  managers: OrgUser[],
+  departmentByEmail: Map<string, string | null>
+): OrgUser[] {
+  if (employee.department) {
+    const sameDepartment = managers.filter(
+      m => m.email && departmentByEmail.get(m.email.toLowerCase()) === employee.department
+    );
+    if (sameDepartment.length > 0) return sameDepartment;
+  }
+  return managers;
+}
+
+function buildMessage(
+  stage: AlertStage,
+  employee: EmployeeRow,
+  certName: string,
+  expiryDate: string,
+  daysUntilExpiry: number,
+  audience: Audience
+): { title: string; message: string } {
+  const employeeName = `${employee.first_name} ${employee.last_name}`;
+  const when = formatDate(expiryDate);
+
+  if (stage === 'expired') {
+    return {
+      title: 'Certification Expired',
+      message: `${employeeName}'s ${certName} expired on ${when}. They cannot be rostered on work that requires it until it is renewed.`,
+    };
+  }
+
+  if (audience === 'employee') {
+    return {
+      title: 'Certification Expiring',
+      message: `Your ${certName} expires in ${daysUntilExpiry} day${daysUntilExpiry === 1 ? '' : 's'} (${when}). Please upload your renewed certificate.`,
+    };
+  }
+
+  return {
+    title: 'Team Certification Expiring',
+    message: `${employeeName}'s ${certName} expires in ${daysUntilExpiry} days (${when}).`,
+  };
+}
+
+async function runOrganisation(
+  supabase: SupabaseClient,
+  mailer: Mailer,
+  organisation: { id: string; timezone: string | null },
+  userIdByEmail: Map<string, string>,
+  emailByUserId: Map<string, string>
+): Promise<OrganisationRunResult> {
+  const today = localToday(organisation.timezone);
+
+  const { data: employees, error: employeeError } = await supabase
+    .from('employees')
+    .select('id, first_name, last_name, email, department')
+    .eq('organisation_id', organisation.id)
+    .eq('status', 'active');
+  if (employeeError) throw employeeError;
+  if (!employees || employees.length === 0) {
+    return { organisationId: organisation.id, alertsSent: 0, emailsSent: 0 };
+  }
+
+  const employeeById = new Map((employees as EmployeeRow[]).map(e => [e.id, e]));
+
+  const { data: certifications, error: certError } = await supabase
+    .from('employee_certifications')
+    .select('id, employee_id, type, name, status, expiry_date')
+    .in('employee_id', [...employeeById.keys()])
+    .not('expiry_date', 'is', null);
+  if (certError) throw certError;
+
+  // A renewal supersedes the old certificate, so only the latest expiry of
+  // each type is chased.
+  const latest = new Map<string, CertificationRow>();
+  for (const cert of (certifications || []) as CertificationRow[]) {
+    if (cert.status === 'rejected') continue;
+    const key = `${cert.employee_id}:${cert.type}`;
+    const current = latest.get(key);
+    if (!current || cert.expiry_date > current.expiry_date) latest.set(key, cert);
+  }
+
+  const due = [...latest.values()]
+    .map(cert => {
+      const daysUntilExpiry = daysBetween(today, cert.expiry_date);
+      return { cert, daysUntilExpiry, stage: alertStageFor(daysUntilExpiry) };
+    })
+    .filter((d): d is { cert: CertificationRow; daysUntilExpiry: number; stage: AlertStage } => d.stage !== null);
+
+  if (due.length === 0) {
+    return { organisationId: organisation.id, alertsSent: 0, emailsSent: 0 };
+  }
+
+  const orgUsers = await loadOrgUsers(supabase, organisation.id, emailByUserId);
+  const admins = orgUsers.filter(u => u.roles.includes('admin'));
+  const managers = orgUsers.filter(u => u.roles.includes('manager'));
+  const departmentByEmail = new Map(
+    (employees as EmployeeRow[]).map(e => [e.email.toLowerCase(), e.department])
+  );
+
+  let alertsSent = 0;
+  let emailsSent = 0;
+
+  for (const { cert, daysUntilExpiry, stage } of due) {
+    const employee = employeeById.get(cert.employee_id)!;
+
+    // Claim the stage first so a rerun or overlapping run can't send it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('compliance_alert_log')
+      .upsert(
+        {
+          organisation_id: organisation.id,
+          employee_id: employee.id,
+          certification_id: cert.id,
+          certification_type: cert.type,
+          expiry_date: cert.expiry_date,
+          stage,
+          days_until_expiry: daysUntilExpiry,
+        },
+        { onConflict: 'certification_id,expiry_date,stage', ignoreDuplicates: true }
+      )
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    const certName = cert.name || cert.type;
+    const notifiedUserIds = new Set<string>();
+    const emailedAddresses = new Set<string>();
+
+    for (const audience of ALERT_STAGE_AUDIENCES[stage]) {
+      let recipients: Recipient[];
+      if (audience === 'employee') {
+        recipients = [{ userId: userIdByEmail.get(employee.email.toLowerCase()) ?? null, email: employee.email }];
+      } else if (audience === 'managers') {
+        recipients = managersFor(employee, managers, departmentByEmail);
+      } else {
+        recipients = admins;
+      }
+
+      const { title, message } = buildMessage(stage, employee, certName, cert.expiry_date, daysUntilExpiry, audience);
+      const link = audience === 'employee' ? '/portal/documents' : '/compliance';
+
+      for (const recipient of recipients) {
+        if (recipient.userId && !notifiedUserIds.has(recipient.userId)) {
+          const { error } = await supabase.from('notifications').insert({
+            user_id: recipient.userId,
+            title,
+            message,
+            type: 'compliance',
+            category: 'compliance',
+            link,
+          });
+          if (error) {
+            console.error(`[compliance-expiry-digest] Notification for ${recipient.userId} failed:`, error);
+          } else {
+            notifiedUserIds.add(recipient.userId);
+          }
+        }
+
+        const email = recipient.email?.toLowerCase();
+        if (email && !emailedAddresses.has(email)) {
+          try {
+            await mailer.send({ to: email, subject: title, text: message });
+            emailedAddresses.add(email);
+          } catch (error) {
+            console.error(`[compliance-expiry-digest] Email to ${email} failed:`, error);
+          }
+        }
+      }
+    }
+
+    await supabase
+      .from('compliance_alert_log')
+      .update({
+        notified_user_ids: [...notifiedUserIds],
+        emailed_addresses: [...emailedAddresses],
+      })
+      .eq('id', claimed[0].id);
+
+    alertsSent++;
+    emailsSent += emailedAddresses.size;
+  }
+
+  return { organisationId: organisation.id, alertsSent, emailsSent };
+}
+
+/**
+ * Nightly compliance expiry digest, called by pg_cron with the service role
+ * key. Each certificate moves through the 60/30/14/7 day reminders and the
+ * expiry alert; compliance_alert_log makes every stage fire once only.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const mailer = createMailer();
+
+    const { data: organisations, error: orgError } = await supabase
+      .from('organisations')
+      .select('id, timezone')
+      .in('status', ['active', 'trial']);
+
+    if (orgError) throw orgError;
+
+    // Employees are linked to their logins by email
+    const userIdByEmail = await loadAuthUsers(supabase);
+    const emailByUserId = new Map([...userIdByEmail].map(([email, id]) => [id, email]));
+
+    const results: OrganisationRunResult[] = [];
+
+    for (const org of organisations || []) {
+      try {
+        results.push(await runOrganisation(supabase, mailer, org, userIdByEmail, emailByUserId));
+      } catch (error) {
+        console.error(`[compliance-expiry-digest] Organisation ${org.id} failed:`, error);
+        results.push({
+          organisationId: org.id,
+          alertsSent: 0,
+          emailsSent: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        organisations: results.length,
+        alertsSent: results.reduce((sum, r) => sum + r.alertsSent, 0),
+        emailsSent: results.reduce((sum, r) => sum + r.emailsSent, 0),
+        failed: results.filter(r => r.error).length,
+        results,
+        completedAt: new Date().toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[compliance-expiry-digest] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
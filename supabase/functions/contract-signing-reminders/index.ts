@@ -0,0 +1,129 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.93.1';
+import { createMailer } from '../_shared/mailer.ts';
+import {
+  claimSigningRequest,
+  currentSigner,
+  isPastDeadline,
+  loadAuthUsers,
+  logContractEvent,
+  sendSigningRequest,
+  SIGNER_COLUMNS,
+  type ContractRow,
+  type SignerRow,
+  type SigningRequestKind,
+} from '../_shared/contractSigning.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const REMINDER_INTERVAL_DAYS = 3;
+// After this many reminders it's for an admin to follow up in person
+const MAX_REMINDERS = 5;
+
+const SYSTEM_ACTOR = { name: 'System', email: null };
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * What, if anything, the signer whose turn it is should be sent today.
+ */
+function dueRequest(signer: SignerRow, now: Date): SigningRequestKind | null {
+  if (!signer.notified_at) return 'invitation';
+  if (signer.reminder_count >= MAX_REMINDERS) return null;
+  const lastSent = new Date(signer.last_reminded_at ?? signer.notified_at);
+  return now.getTime() - lastSent.getTime() >= REMINDER_INTERVAL_DAYS * 86_400_000 ? 'reminder' : null;
+}
+
+/**
+ * Daily signing chase, called by pg_cron with the service role key. The
+ * signer whose turn it is on each contract awaiting signature gets their
+ * link if it was never sent, then a reminder every few days until they
+ * sign or the contract expires.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const mailer = createMailer();
+    const now = new Date();
+
+    const { data: contracts, error: contractError } = await supabase
+      .from('contracts')
+      .select('id, title, status, expires_at')
+      .eq('status', 'pending_signature');
+    if (contractError) throw contractError;
+
+    // Past the deadline but not yet expired by expire_contracts
+    const open = ((contracts || []) as ContractRow[]).filter(c => !isPastDeadline(c, now));
+    if (open.length === 0) {
+      return json({ contracts: 0, invitations: 0, reminders: 0, failed: 0, completedAt: now.toISOString() });
+    }
+
+    const { data: signers, error: signerError } = await supabase
+      .from('contract_signers')
+      .select(SIGNER_COLUMNS)
+      .in('contract_id', open.map(c => c.id));
+    if (signerError) throw signerError;
+
+    const userIdByEmail = await loadAuthUsers(supabase);
+    let invitations = 0;
+    let reminders = 0;
+    let failed = 0;
+
+    for (const contract of open) {
+      const next = currentSigner(((signers || []) as SignerRow[]).filter(s => s.contract_id === contract.id));
+      const kind = next && dueRequest(next, now);
+      if (!next || !kind) continue;
+
+      try {
+        if (!(await claimSigningRequest(supabase, next, kind))) continue;
+        await sendSigningRequest(
+          supabase,
+          mailer,
+          contract,
+          next,
+          kind,
+          userIdByEmail.get(next.email.toLowerCase()) ?? null
+        );
+        await logContractEvent(supabase, contract.id, kind === 'invitation' ? 'sent' : 'reminder_sent', SYSTEM_ACTOR, {
+          signer_name: next.name,
+          signer_email: next.email,
+          ...(kind === 'reminder' ? { reminder: next.reminder_count + 1 } : {}),
+        });
+        if (kind === 'invitation') invitations++;
+        else reminders++;
+      } catch (error) {
+        console.error(`[contract-signing-reminders] Contract ${contract.id} failed:`, error);
+        failed++;
+      }
+    }
+
+    return json({
+      contracts: open.length,
+      invitations,
+      reminders,
+      failed,
+      completedAt: now.toISOString(),
+    });
+  } catch (error) {
+    console.error('[contract-signing-reminders] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,272 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.93.1';
+import { createMailer } from '../_shared/mailer.ts';
+import {
+  claimSigningRequest,
+  currentSigner,
+  isPastDeadline,
+  loadAuthUsers,
+  loadSigners,
+  logContractEvent,
+  sendSigningRequest,
+  signingAuditAction,
+  type ContractRow,
+  type SignerRow,
+} from '../_shared/contractSigning.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// A drawn signature is a small PNG; anything much bigger isn't one
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+const CONTRACT_COLUMNS =
+  'id, title, content, employee_name, position, department, employment_type, start_date, pay_rate, status, expires_at';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+class SigningError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function openLink(supabase: SupabaseClient, token: unknown) {
+  const invalid = new SigningError('This signing link is not valid', 404);
+  if (typeof token !== 'string' || !token) throw invalid;
+
+  const { data: link, error } = await supabase
+    .from('contract_signing_tokens')
+    .select('signer_id')
+    .eq('token', token)
+    .maybeSingle();
+  if (error) throw error;
+  if (!link) throw invalid;
+
+  const { data: signer, error: signerError } = await supabase
+    .from('contract_signers')
+    .select('contract_id')
+    .eq('id', link.signer_id)
+    .single();
+  if (signerError) throw signerError;
+
+  const [{ data: contract, error: contractError }, signers] = await Promise.all([
+    supabase.from('contracts').select(CONTRACT_COLUMNS).eq('id', signer.contract_id).single(),
+    loadSigners(supabase, signer.contract_id as string),
+  ]);
+  if (contractError) throw contractError;
+
+  return {
+    contract: contract as ContractRow & Record<string, unknown>,
+    signer: signers.find(s => s.id === link.signer_id)!,
+    signers,
+  };
+}
+
+function describeLink(contract: ContractRow & Record<string, unknown>, signer: SignerRow, signers: SignerRow[]) {
+  let state: 'ready' | 'waiting' | 'signed' | 'closed';
+  if (signer.status === 'signed') {
+    state = 'signed';
+  } else if (contract.status !== 'pending_signature' || isPastDeadline(contract)) {
+    state = 'closed';
+  } else {
+    state = currentSigner(signers)?.id === signer.id ? 'ready' : 'waiting';
+  }
+
+  return {
+    state,
+    contract,
+    signer: { name: signer.name, email: signer.email, role: signer.role, status: signer.status },
+    // Other signers' email addresses stay private
+    signers: signers.map(s => ({
+      name: s.name,
+      role: s.role,
+      status: s.status,
+      signing_order: s.signing_order,
+      signed_at: s.signed_at,
+    })),
+  };
+}
+
+/**
+ * Invite whoever is next, if they haven't been sent their link yet.
+ */
+async function inviteNextSigner(supabase: SupabaseClient, contract: ContractRow, signers: SignerRow[]) {
+  const next = currentSigner(signers);
+  if (!next || next.notified_at) return null;
+  if (!(await claimSigningRequest(supabase, next, 'invitation'))) return null;
+
+  const users = await loadAuthUsers(supabase);
+  await sendSigningRequest(supabase, createMailer(), contract, next, 'invitation', users.get(next.email.toLowerCase()) ?? null);
+  return next;
+}
+
+async function signWithLink(supabase: SupabaseClient, req: Request, body: Record<string, unknown>) {
+  const { contract, signer, signers } = await openLink(supabase, body.token);
+  const signatureType = body.signatureType === 'typed' ? 'typed' : 'drawn';
+  const signatureData = body.signatureData;
+  if (
+    typeof signatureData !== 'string' ||
+    !signatureData.startsWith('data:image/png;base64,') ||
+    signatureData.length > MAX_SIGNATURE_LENGTH
+  ) {
+    throw new SigningError('Please draw or type your signature', 400);
+  }
+
+  const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+  const userAgent = req.headers.get('user-agent');
+
+  // Order, status and deadline are checked by enforce_contract_signing_order
+  const { error } = await supabase.from('signatures').insert({
+    contract_id: contract.id,
+    signer_id: signer.id,
+    signer_name: signer.name,
+    signer_email: signer.email,
+    signature_data: signatureData,
+    signature_type: signatureType,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+  });
+  if (error) {
+    if (error.code === 'P0001') throw new SigningError(error.message, 409);
+    throw error;
+  }
+
+  const actor = { name: signer.name, email: signer.email };
+  await logContractEvent(
+    supabase,
+    contract.id,
+    signingAuditAction(signer.role),
+    actor,
+    { signer_name: signer.name, signer_role: signer.role, signature_type: signatureType, via: 'signing link' },
+    { ipAddress, userAgent }
+  );
+
+  const after = await loadSigners(supabase, contract.id);
+  const next = currentSigner(after);
+  if (!next) {
+    await logContractEvent(supabase, contract.id, 'completed', actor, {
+      description: 'All signers have signed',
+    });
+  } else {
+    try {
+      const invited = await inviteNextSigner(supabase, contract, after);
+      if (invited) {
+        await logContractEvent(supabase, contract.id, 'sent', actor, {
+          signer_name: invited.name,
+          signer_email: invited.email,
+        });
+      }
+    } catch (inviteError) {
+      // The signature stands; the daily run sends the link instead
+      console.error('[contract-signing] Inviting the next signer failed:', inviteError);
+    }
+  }
+
+  const { data: refreshed } = await supabase.from('contracts').select(CONTRACT_COLUMNS).eq('id', contract.id).single();
+  return describeLink(
+    (refreshed ?? contract) as ContractRow & Record<string, unknown>,
+    after.find(s => s.id === signer.id)!,
+    after
+  );
+}
+
+/**
+ * Send the current signer their link from the app. Admins and managers can
+ * chase at any time; a signer can only pass the contract on to the next
+ * signer if the link hasn't been sent yet.
+ */
+async function sendFromApp(supabase: SupabaseClient, req: Request, body: Record<string, unknown>) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) throw new SigningError('Unauthorized', 401);
+
+  // The caller's own client, so contract RLS decides what they may send
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user }, error: userError } = await userClient.auth.getUser();
+  if (userError || !user) throw new SigningError('Unauthorized', 401);
+
+  if (typeof body.contractId !== 'string') throw new SigningError('contractId is required', 400);
+  const { data: contract } = await userClient
+    .from('contracts')
+    .select('id, title, status, expires_at')
+    .eq('id', body.contractId)
+    .maybeSingle();
+  if (!contract) throw new SigningError('Contract not found', 404);
+  if (contract.status !== 'pending_signature' || isPastDeadline(contract as ContractRow)) {
+    throw new SigningError(`${contract.title} is not awaiting signature`, 409);
+  }
+
+  const signers = await loadSigners(supabase, contract.id);
+  const next = currentSigner(signers);
+  if (!next) throw new SigningError('Everyone has already signed', 409);
+
+  const { data: roles } = await supabase.from('user_roles').select('role').eq('user_id', user.id);
+  const canChase = (roles || []).some(r => r.role === 'admin' || r.role === 'manager');
+  if (!canChase && next.notified_at) {
+    return { sent: false };
+  }
+
+  const kind = next.notified_at ? 'reminder' : 'invitation';
+  if (!(await claimSigningRequest(supabase, next, kind))) {
+    return { sent: false };
+  }
+
+  const users = await loadAuthUsers(supabase);
+  await sendSigningRequest(
+    supabase,
+    createMailer(),
+    contract as ContractRow,
+    next,
+    kind,
+    users.get(next.email.toLowerCase()) ?? null
+  );
+  return { sent: true, kind, signerName: next.name, signerEmail: next.email };
+}
+
+/**
+ * Contract signing links. Loading and signing are unauthenticated by
+ * design: the signer is identified by the private link emailed to them.
+ * Sending a link is done from the app by a signed-in user.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const body = await req.json() as Record<string, unknown>;
+
+    switch (body.action) {
+      case 'load': {
+        const { contract, signer, signers } = await openLink(supabase, body.token);
+        return json(describeLink(contract, signer, signers));
+      }
+      case 'sign':
+        return json(await signWithLink(supabase, req, body));
+      case 'send':
+        return json(await sendFromApp(supabase, req, body));
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof SigningError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('[contract-signing] Error:', error instanceof Error ? error.message : error);
+    return json({ error: 'Something went wrong. Please try again.' }, 500);
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.93.1';
+import { verifyEvidence, type EvidenceRecord, type IntegrityResult } from '../_shared/evidence.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,12 +15,38 @@ interface AuditPackData {
   date_range_end: string | null;
   include_restricted_content: boolean;
   include_attachments: boolean;
+  include_compliance_history: boolean;
   generated_by: string;
 }
 
 // deno-lint-ignore no-explicit-any
 type SupabaseClientAny = SupabaseClient<any, any, any>;
 
+interface CertificationVerificationRow {
+  id: string;
+  method: string;
+  reference_number: string | null;
+  verified_on: string;
+  verified_by_name: string;
+  notes: string | null;
+  created_at: string;
+  certification: { name: string; type: string; verification_id: string | null } | null;
+  document: { file_name: string } | null;
+}
+
+interface ComplianceHistoryRow {
+  snapshot_date?: string;
+  evaluated_at?: string;
+  occurred_at?: string;
+  previous_status?: string | null;
+  status: string;
+  compliant: boolean;
+  override_active: boolean;
+  blocking_reasons: { type: string; status: string }[] | null;
+  source: string;
+  employees: { first_name: string; last_name: string; department?: string | null } | null;
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -276,11 +303,37 @@ async function generateEmployeeCompliancePack(
         status: c.status,
         issue_date: c.issue_date,
         expiry_date: c.expiry_date,
+        verified: c.verification_id ? 'yes' : 'no',
         created_at: c.created_at,
       }))),
     });
   }
 
+  // Verification trail - every check recorded, including ones superseded by later edits
+  const { data: verifications } = await supabase
+    .from('certification_verifications')
+    .select('*, certification:employee_certifications!certification_verifications_certification_id_fkey(name, type, verification_id), document:employee_documents(file_name)')
+    .eq('employee_id', pack.employee_id)
+    .order('created_at', { ascending: false });
+
+  if (verifications && verifications.length > 0) {
+    csvFiles.push({
+      name: 'certification_verifications.csv',
+      content: arrayToCSV((verifications as CertificationVerificationRow[]).map((v) => ({
+        certification: v.certification?.name || '',
+        certification_type: v.certification?.type || '',
+        method: v.method,
+        reference_number: v.reference_number,
+        verified_on: v.verified_on,
+        verified_by_name: v.verified_by_name,
+        supporting_document: v.document?.file_name || '',
+        notes: v.notes,
+        current: v.certification?.verification_id === v.id ? 'yes' : 'no',
+        recorded_at: v.created_at,
+      }))),
+    });
+  }
+
   // Compliance overrides
   const { data: overrides } = await supabase
     .from('compliance_overrides')
@@ -297,6 +350,10 @@ async function generateEmployeeCompliancePack(
         context_type: o.context_type,
         override_by_name: o.override_by_name,
         override_by_email: o.override_by_email,
+        approval_status: o.approval_status,
+        reviewed_by_name: o.reviewed_by_name,
+        reviewed_at: o.reviewed_at,
+        review_notes: o.review_notes,
         expires_at: o.expires_at,
         is_active: o.is_active,
         created_at: o.created_at,
@@ -331,6 +388,7 @@ async function generateEmployeeCompliancePack(
   return {
     employee_name: `${employee.first_name} ${employee.last_name}`,
     certifications: certifications?.length || 0,
+    verifications: verifications?.length || 0,
     overrides: overrides?.length || 0,
     audit_entries: auditLogs?.length || 0,
   };
@@ -429,6 +487,9 @@ async function generateOrgCompliancePack(
           reason: o.reason,
           context_type: o.context_type,
           override_by_name: o.override_by_name,
+          approval_status: o.approval_status,
+          reviewed_by_name: o.reviewed_by_name,
+          reviewed_at: o.reviewed_at,
           expires_at: o.expires_at,
           is_active: o.is_active,
           created_at: o.created_at,
@@ -437,6 +498,67 @@ async function generateOrgCompliancePack(
     });
   }
 
+  // Point-in-time compliance history
+  let snapshotCount = 0;
+  let statusChangeCount = 0;
+  if (pack.include_compliance_history) {
+    const { data: snapshots } = await supabase
+      .from('compliance_snapshots')
+      .select('*, employees(first_name, last_name, department)')
+      .eq('organisation_id', pack.organisation_id)
+      .gte('snapshot_date', startDate)
+      .lte('snapshot_date', endDate)
+      .order('snapshot_date')
+      .limit(50000);
+
+    if (snapshots && snapshots.length > 0) {
+      snapshotCount = snapshots.length;
+      csvFiles.push({
+        name: 'compliance_snapshots.csv',
+        content: arrayToCSV((snapshots as ComplianceHistoryRow[]).map((s) => {
+          const emp = s.employees;
+          return {
+            snapshot_date: s.snapshot_date,
+            employee_name: emp ? `${emp.first_name} ${emp.last_name}` : 'Unknown',
+            department: emp?.department,
+            status: s.status,
+            compliant: s.compliant,
+            override_active: s.override_active,
+            blocking_reasons: (s.blocking_reasons || []).map(r => `${r.type}:${r.status}`).join('; '),
+            evaluated_at: s.evaluated_at,
+          };
+        })),
+      });
+    }
+
+    const { data: statusEvents } = await supabase
+      .from('compliance_status_events')
+      .select('*, employees(first_name, last_name)')
+      .eq('organisation_id', pack.organisation_id)
+      .gte('occurred_at', startDate)
+      .lte('occurred_at', endDate)
+      .order('occurred_at');
+
+    if (statusEvents && statusEvents.length > 0) {
+      statusChangeCount = statusEvents.length;
+      csvFiles.push({
+        name: 'compliance_status_changes.csv',
+        content: arrayToCSV((statusEvents as ComplianceHistoryRow[]).map((e) => {
+          const emp = e.employees;
+          return {
+            occurred_at: e.occurred_at,
+            employee_name: emp ? `${emp.first_name} ${emp.last_name}` : 'Unknown',
+            previous_status: e.previous_status,
+            status: e.status,
+            override_active: e.override_active,
+            blocking_reasons: (e.blocking_reasons || []).map(r => `${r.type}:${r.status}`).join('; '),
+            source: e.source,
+          };
+        })),
+      });
+    }
+  }
+
   // Audit summary
   const { count: auditCount } = await supabase
     .from('audit_logs')
@@ -452,6 +574,10 @@ async function generateOrgCompliancePack(
     expiring_soon: expiringSoon.length,
     overrides_in_period: overrides?.length || 0,
     audit_entries: auditCount || 0,
+    ...(pack.include_compliance_history && {
+      compliance_snapshots: snapshotCount,
+      compliance_status_changes: statusChangeCount,
+    }),
   };
 }
 
@@ -476,6 +602,7 @@ async function generateHRIncidentsPack(
   }
 
   const { data: cases } = await casesQuery;
+  let evidenceSummary: Record<string, number> = {};
 
   if (cases && cases.length > 0) {
     // Case register
@@ -493,6 +620,12 @@ async function generateHRIncidentsPack(
           summary: c.summary,
           date_reported: c.date_reported,
           safeguarding_flag: c.safeguarding_flag,
+          ndis_incident_category: c.ndis_reportable ? c.ndis_incident_category : '',
+          ndis_notification_due_at: c.ndis_notification_due_at,
+          ndis_notified_at: c.ndis_notified_at,
+          ndis_commission_reference: c.ndis_commission_reference,
+          ndis_report_due_at: c.ndis_report_due_at,
+          ndis_report_submitted_at: c.ndis_report_submitted_at,
           confidentiality_level: c.confidentiality_level,
           created_at: c.created_at,
           closed_at: c.closed_at,
@@ -552,22 +685,28 @@ async function generateHRIncidentsPack(
       .select('*')
       .in('hr_case_id', caseIds);
 
-    if (evidence && evidence.length > 0) {
+    const includedEvidence = (evidence || [])
+      .filter((e: { access_level: string }) => pack.include_restricted_content || e.access_level === 'normal');
+
+    if (includedEvidence.length > 0) {
       csvFiles.push({
         name: 'evidence_metadata.csv',
-        content: arrayToCSV(evidence
-          // deno-lint-ignore no-explicit-any
-          .filter((e: any) => pack.include_restricted_content || e.access_level === 'normal')
-          // deno-lint-ignore no-explicit-any
-          .map((e: any) => ({
-            case_id: e.hr_case_id,
-            file_name: e.file_name,
-            description: e.description,
-            access_level: e.access_level,
-            uploaded_by_name: e.uploaded_by_name,
-            uploaded_at: e.uploaded_at,
-          }))),
+        // deno-lint-ignore no-explicit-any
+        content: arrayToCSV(includedEvidence.map((e: any) => ({
+          case_id: e.hr_case_id,
+          file_name: e.file_name,
+          description: e.description,
+          access_level: e.access_level,
+          uploaded_by_name: e.uploaded_by_name,
+          uploaded_at: e.uploaded_at,
+        }))),
       });
+
+      const integrityFailures = await addCustodyManifest(supabase, pack, cases, includedEvidence, csvFiles);
+      evidenceSummary = {
+        evidence_items: includedEvidence.length,
+        evidence_integrity_failures: integrityFailures,
+      };
     }
   }
 
@@ -579,9 +718,103 @@ async function generateHRIncidentsPack(
     closed_cases: cases?.filter((c: any) => c.status === 'closed').length || 0,
     // deno-lint-ignore no-explicit-any
     safeguarding_cases: cases?.filter((c: any) => c.safeguarding_flag).length || 0,
+    reportable_incidents: cases?.filter((c: { ndis_reportable: boolean }) => c.ndis_reportable).length || 0,
+    ...evidenceSummary,
   };
 }
 
+interface CustodyEventRow {
+  evidence_id: string;
+  event_type: string;
+  actor_name: string | null;
+  sha256: string | null;
+  note: string | null;
+  occurred_at: string;
+}
+
+/**
+ * Chain of custody for the pack's evidence: every file re-hashed at export
+ * against its upload hash, with its access history. Returns how many files
+ * failed the check.
+ */
+async function addCustodyManifest(
+  supabase: SupabaseClientAny,
+  pack: AuditPackData,
+  cases: { id: string; case_number: string }[],
+  evidence: (EvidenceRecord & {
+    access_level: string;
+    file_size: number | null;
+    uploaded_by_name: string | null;
+    uploaded_at: string;
+  })[],
+  csvFiles: { name: string; content: string }[]
+): Promise<number> {
+  if (evidence.length === 0) return 0;
+
+  const caseNumbers = new Map(cases.map(c => [c.id, c.case_number]));
+  const fileNames = new Map(evidence.map(e => [e.id, e.file_name]));
+
+  const { data: generator } = await supabase
+    .from('profiles')
+    .select('display_name')
+    .eq('user_id', pack.generated_by)
+    .maybeSingle();
+  const actor = { id: pack.generated_by, name: generator?.display_name || 'Audit pack export' };
+
+  // Sequential to keep one file in memory at a time
+  const checks = new Map<string, { result: IntegrityResult; actualSha256: string | null; checkedAt: string }>();
+  for (const item of evidence) {
+    checks.set(item.id, await verifyEvidence(supabase, item, actor));
+  }
+
+  const { data: events } = await supabase
+    .from('hr_case_evidence_custody_events')
+    .select('evidence_id, event_type, actor_name, sha256, note, occurred_at')
+    .in('evidence_id', evidence.map(e => e.id))
+    .order('occurred_at');
+  const custodyEvents = (events || []) as CustodyEventRow[];
+
+  const countEvents = (evidenceId: string, eventType: string) =>
+    custodyEvents.filter(ev => ev.evidence_id === evidenceId && ev.event_type === eventType).length;
+
+  csvFiles.push({
+    name: 'evidence_custody_manifest.csv',
+    content: arrayToCSV(evidence.map(e => {
+      const check = checks.get(e.id)!;
+      return {
+        case_number: caseNumbers.get(e.hr_case_id) || e.hr_case_id,
+        evidence_id: e.id,
+        file_name: e.file_name,
+        access_level: e.access_level,
+        file_size: e.file_size,
+        uploaded_by_name: e.uploaded_by_name,
+        uploaded_at: e.uploaded_at,
+        sha256_at_upload: e.sha256 || '',
+        sha256_at_export: check.actualSha256 || '',
+        integrity_at_export: check.result,
+        checked_at: check.checkedAt,
+        views: countEvents(e.id, 'viewed'),
+        downloads: countEvents(e.id, 'downloaded'),
+      };
+    })),
+  });
+
+  csvFiles.push({
+    name: 'evidence_custody_events.csv',
+    content: arrayToCSV(custodyEvents.map(ev => ({
+      evidence_id: ev.evidence_id,
+      file_name: fileNames.get(ev.evidence_id) || '',
+      event: ev.event_type,
+      actor_name: ev.actor_name,
+      sha256: ev.sha256 || '',
+      note: ev.note || '',
+      occurred_at: ev.occurred_at,
+    }))),
+  });
+
+  return [...checks.values()].filter(c => c.result === 'altered' || c.result === 'missing').length;
+}
+
 async function generatePayrollPack(
   supabase: SupabaseClientAny,
   pack: AuditPackData,
@@ -0,0 +1,276 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { DEFAULT_TIMEZONE } from '../_shared/dates.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Mirrors src/lib/hrCaseSla.ts
+type Severity = 'low' | 'medium' | 'high' | 'critical';
+type SlaStatus = 'new' | 'triaged' | 'investigating' | 'awaiting_response' | 'decision_made';
+
+const DEFAULT_SLA_TARGETS: Record<SlaStatus, Record<Severity, number>> = {
+  new: { critical: 1, high: 2, medium: 3, low: 5 },
+  triaged: { critical: 1, high: 3, medium: 5, low: 10 },
+  investigating: { critical: 10, high: 15, medium: 20, low: 30 },
+  awaiting_response: { critical: 3, high: 5, medium: 7, low: 10 },
+  decision_made: { critical: 3, high: 5, medium: 5, low: 10 },
+};
+
+const STATUS_LABELS: Record<SlaStatus, string> = {
+  new: 'New',
+  triaged: 'Triaged',
+  investigating: 'Investigating',
+  awaiting_response: 'Awaiting Response',
+  decision_made: 'Decision Made',
+};
+
+interface CaseRow {
+  id: string;
+  case_number: string;
+  case_type: string;
+  severity: Severity;
+  status: SlaStatus;
+  assigned_investigator_user_id: string | null;
+  created_at: string;
+}
+
+interface TargetRow {
+  case_type: string;
+  severity: string;
+  status: string;
+  target_business_days: number;
+}
+
+interface HistoryRow {
+  hr_case_id: string;
+  to_status: string;
+  changed_at: string;
+}
+
+interface OrganisationRunResult {
+  organisationId: string;
+  overdue: number;
+  escalated: number;
+  error?: string;
+}
+
+/**
+ * Moves forward a number of business days in the organisation's timezone,
+ * skipping weekends and holidays. The time of day is kept.
+ */
+function addBusinessDays(from: Date, days: number, holidayDates: Set<string>, timezone: string): Date {
+  const dateKey = new Intl.DateTimeFormat('en-CA', { timeZone: timezone });
+  const weekday = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' });
+  let date = from;
+  let remaining = days;
+  while (remaining > 0) {
+    date = new Date(date.getTime() + 86_400_000);
+    const day = weekday.format(date);
+    if (day !== 'Sat' && day !== 'Sun' && !holidayDates.has(dateKey.format(date))) {
+      remaining--;
+    }
+  }
+  return date;
+}
+
+async function runOrganisation(
+  supabase: SupabaseClient,
+  organisation: { id: string; timezone: string | null },
+  now: Date
+): Promise<OrganisationRunResult> {
+  const timezone = organisation.timezone || DEFAULT_TIMEZONE;
+
+  const { data: cases, error: caseError } = await supabase
+    .from('hr_cases')
+    .select('id, case_number, case_type, severity, status, assigned_investigator_user_id, created_at')
+    .eq('organisation_id', organisation.id)
+    .neq('status', 'closed');
+  if (caseError) throw caseError;
+  if (!cases || cases.length === 0) {
+    return { organisationId: organisation.id, overdue: 0, escalated: 0 };
+  }
+
+  const openCases = cases as CaseRow[];
+  const earliest = openCases.reduce((min, c) => (c.created_at < min ? c.created_at : min), openCases[0].created_at);
+
+  const [{ data: targets, error: targetError }, { data: holidays, error: holidayError }, { data: history, error: historyError }] =
+    await Promise.all([
+      supabase
+        .from('hr_case_sla_targets')
+        .select('case_type, severity, status, target_business_days')
+        .eq('organisation_id', organisation.id),
+      supabase
+        .from('public_holidays')
+        .select('holiday_date, regions')
+        .eq('organisation_id', organisation.id)
+        .gte('holiday_date', earliest.slice(0, 10)),
+      supabase
+        .from('hr_case_status_history')
+        .select('hr_case_id, to_status, changed_at')
+        .eq('organisation_id', organisation.id)
+        .in('hr_case_id', openCases.map(c => c.id))
+        .order('changed_at', { ascending: false }),
+    ]);
+  if (targetError) throw targetError;
+  if (holidayError) throw holidayError;
+  if (historyError) throw historyError;
+
+  // National holidays only; cases aren't tied to a state
+  const holidayDates = new Set(
+    (holidays || []).filter(h => (h.regions as string[]).length === 0).map(h => h.holiday_date as string)
+  );
+
+  const overdue = openCases
+    .map(c => {
+      const configured = ((targets || []) as TargetRow[]).find(
+        t => t.case_type === c.case_type && t.severity === c.severity && t.status === c.status
+      );
+      const targetBusinessDays = configured?.target_business_days ?? DEFAULT_SLA_TARGETS[c.status][c.severity];
+      // History is newest first, so this is the latest move into the status
+      const entered = ((history || []) as HistoryRow[]).find(h => h.hr_case_id === c.id && h.to_status === c.status);
+      const enteredAt = entered?.changed_at ?? c.created_at;
+      const dueAt = addBusinessDays(new Date(enteredAt), targetBusinessDays, holidayDates, timezone);
+      return { hrCase: c, enteredAt, dueAt, targetBusinessDays };
+    })
+    .filter(o => now > o.dueAt);
+
+  if (overdue.length === 0) {
+    return { organisationId: organisation.id, overdue: 0, escalated: 0 };
+  }
+
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('organisation_id', organisation.id);
+  if (profileError) throw profileError;
+
+  const { data: adminRoles, error: roleError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'admin')
+    .in('user_id', (profiles || []).map(p => p.user_id));
+  if (roleError) throw roleError;
+  const adminIds = (adminRoles || []).map(r => r.user_id as string);
+
+  let escalated = 0;
+
+  for (const { hrCase, enteredAt, dueAt, targetBusinessDays } of overdue) {
+    // Claim the breach first so a rerun or overlapping run can't send it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('hr_case_sla_escalations')
+      .upsert(
+        {
+          hr_case_id: hrCase.id,
+          organisation_id: organisation.id,
+          status: hrCase.status,
+          entered_status_at: enteredAt,
+          due_at: dueAt.toISOString(),
+          target_business_days: targetBusinessDays,
+        },
+        { onConflict: 'hr_case_id,status,entered_status_at', ignoreDuplicates: true }
+      )
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    const recipients = new Set(adminIds);
+    if (hrCase.assigned_investigator_user_id) recipients.add(hrCase.assigned_investigator_user_id);
+
+    const notifiedUserIds: string[] = [];
+    for (const userId of recipients) {
+      // Case details stay in the case; the notification only says it is overdue
+      const { error } = await supabase.from('notifications').insert({
+        user_id: userId,
+        title: 'HR Case Overdue',
+        message: `${hrCase.case_number} has been ${STATUS_LABELS[hrCase.status]} for longer than its ${targetBusinessDays} business day target.`,
+        type: 'hr_case',
+        category: 'hr_case',
+        link: '/hr-cases',
+      });
+      if (error) {
+        console.error(`[hr-case-sla-escalations] Notification for ${userId} failed:`, error);
+      } else {
+        notifiedUserIds.push(userId);
+      }
+    }
+
+    await supabase
+      .from('hr_case_sla_escalations')
+      .update({ notified_user_ids: notifiedUserIds })
+      .eq('id', claimed[0].id);
+
+    escalated++;
+  }
+
+  return { organisationId: organisation.id, overdue: overdue.length, escalated };
+}
+
+/**
+ * Hourly HR case SLA check, called by pg_cron with the service role key.
+ * Open cases past the target for their current status are escalated to the
+ * assigned investigator and the organisation's admins, once per stint in
+ * that status.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const { data: organisations, error: orgError } = await supabase
+      .from('organisations')
+      .select('id, timezone')
+      .in('status', ['active', 'trial']);
+
+    if (orgError) throw orgError;
+
+    const now = new Date();
+    const results: OrganisationRunResult[] = [];
+
+    for (const org of organisations || []) {
+      try {
+        results.push(await runOrganisation(supabase, org, now));
+      } catch (error) {
+        console.error(`[hr-case-sla-escalations] Organisation ${org.id} failed:`, error);
+        results.push({
+          organisationId: org.id,
+          overdue: 0,
+          escalated: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        organisations: results.length,
+        overdue: results.reduce((sum, r) => sum + r.overdue, 0),
+        escalated: results.reduce((sum, r) => sum + r.escalated, 0),
+        failed: results.filter(r => r.error).length,
+        results,
+        completedAt: now.toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[hr-case-sla-escalations] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
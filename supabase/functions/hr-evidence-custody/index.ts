@@ -0,0 +1,104 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.93.1';
+import {
+  EVIDENCE_BUCKET,
+  recordCustodyEvent,
+  verifyEvidence,
+  type EvidenceRecord,
+} from '../_shared/evidence.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Long enough to start a download, short enough that a shared link is useless
+const SIGNED_URL_SECONDS = 60;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * The only way to read HR case evidence files. Opens a file or re-checks its
+ * hash for a user who can see the evidence, recording each as a
+ * chain-of-custody event.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    // The caller's own client, so evidence RLS decides what they may open
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { action, evidenceId } = await req.json() as { action?: string; evidenceId?: string };
+    if (!evidenceId) {
+      return json({ error: 'evidenceId is required' }, 400);
+    }
+
+    const { data: evidence } = await userClient
+      .from('hr_case_evidence')
+      .select('id, hr_case_id, file_name, storage_path, sha256')
+      .eq('id', evidenceId)
+      .maybeSingle();
+    if (!evidence) {
+      return json({ error: 'Evidence not found' }, 404);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('display_name')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const actor = { id: user.id, name: profile?.display_name || user.email || null };
+
+    switch (action) {
+      case 'view':
+      case 'download': {
+        const record = evidence as EvidenceRecord;
+        if (!record.storage_path) {
+          return json({ error: 'The stored file for this evidence could not be found' }, 404);
+        }
+        const { data: signed, error: signError } = await supabase.storage
+          .from(EVIDENCE_BUCKET)
+          .createSignedUrl(
+            record.storage_path,
+            SIGNED_URL_SECONDS,
+            action === 'download' ? { download: record.file_name } : undefined
+          );
+        if (signError || !signed) {
+          return json({ error: 'The stored file for this evidence could not be found' }, 404);
+        }
+        await recordCustodyEvent(supabase, record, action === 'view' ? 'viewed' : 'downloaded', actor);
+        return json({ url: signed.signedUrl });
+      }
+      case 'verify':
+        return json(await verifyEvidence(supabase, evidence as EvidenceRecord, actor));
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('[hr-evidence-custody] Error:', error instanceof Error ? error.message : error);
+    return json({ error: 'Something went wrong. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,77 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+interface OrganisationRunResult {
+  organisationId: string;
+  balancesUpdated: number;
+  error?: string;
+}
+
+/**
+ * Nightly leave accrual run, called by pg_cron with the service role key.
+ * Each organisation is run separately so one failure doesn't stop the rest;
+ * run_leave_accruals writes its own run and ledger rows.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const { data: organisations, error: orgError } = await supabase
+      .from('organisations')
+      .select('id')
+      .in('status', ['active', 'trial']);
+
+    if (orgError) throw orgError;
+
+    const results: OrganisationRunResult[] = [];
+
+    for (const org of organisations || []) {
+      const { data, error } = await supabase.rpc('run_leave_accruals', {
+        _organisation_id: org.id,
+        _triggered_by: 'schedule',
+      });
+
+      if (error) {
+        console.error(`[run-leave-accruals] Organisation ${org.id} failed:`, error);
+        results.push({ organisationId: org.id, balancesUpdated: 0, error: error.message });
+      } else {
+        results.push({ organisationId: org.id, balancesUpdated: data ?? 0 });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        organisations: results.length,
+        balancesUpdated: results.reduce((sum, r) => sum + r.balancesUpdated, 0),
+        failed: results.filter(r => r.error).length,
+        results,
+        completedAt: new Date().toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[run-leave-accruals] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
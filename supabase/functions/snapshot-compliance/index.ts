@@ -0,0 +1,103 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import { evaluateEmployeeCompliance, recordComplianceSnapshot } from '../_shared/compliance.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+interface OrganisationRunResult {
+  organisationId: string;
+  snapshots: number;
+  statusChanges: number;
+  failed: number;
+  error?: string;
+}
+
+/**
+ * Nightly compliance snapshot, called by pg_cron with the service role key.
+ * Every active employee is evaluated in the general context and the result
+ * stored, so point-in-time questions can be answered later.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    await supabase.rpc('expire_compliance_overrides');
+
+    const { data: organisations, error: orgError } = await supabase
+      .from('organisations')
+      .select('id')
+      .in('status', ['active', 'trial']);
+
+    if (orgError) throw orgError;
+
+    const results: OrganisationRunResult[] = [];
+
+    for (const org of organisations || []) {
+      const result: OrganisationRunResult = { organisationId: org.id, snapshots: 0, statusChanges: 0, failed: 0 };
+
+      const { data: employees, error } = await supabase
+        .from('employees')
+        .select('id')
+        .eq('organisation_id', org.id)
+        .eq('status', 'active');
+
+      if (error) {
+        console.error(`[snapshot-compliance] Organisation ${org.id} failed:`, error);
+        results.push({ ...result, error: error.message });
+        continue;
+      }
+
+      for (const employee of employees || []) {
+        try {
+          const evaluation = await evaluateEmployeeCompliance(supabase, employee.id, { contextType: 'general' });
+          if (!evaluation) {
+            result.failed++;
+            continue;
+          }
+          const { changed } = await recordComplianceSnapshot(supabase, evaluation, 'schedule');
+          result.snapshots++;
+          if (changed) result.statusChanges++;
+        } catch (employeeError) {
+          console.error(`[snapshot-compliance] Employee ${employee.id} failed:`, employeeError);
+          result.failed++;
+        }
+      }
+
+      results.push(result);
+    }
+
+    return new Response(
+      JSON.stringify({
+        organisations: results.length,
+        snapshots: results.reduce((sum, r) => sum + r.snapshots, 0),
+        statusChanges: results.reduce((sum, r) => sum + r.statusChanges, 0),
+        failed: results.reduce((sum, r) => sum + r.failed, 0),
+        results,
+        completedAt: new Date().toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[snapshot-compliance] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,301 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
+import {
+  LOCKOUT_MINUTES,
+  afterFailedAttempt,
+  generateCaseKey,
+  generatePassphrase,
+  hashPassphrase,
+  isLocked,
+  normaliseCaseKey,
+  verifyPassphrase,
+} from '../_shared/whistleblower.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const CASE_TYPES = ['incident', 'misconduct', 'grievance', 'complaint'];
+const MAX_SUMMARY_LENGTH = 200;
+const MAX_TEXT_LENGTH = 5000;
+
+// What the reporter is told; internal stages stay internal
+const REPORTER_STATUS: Record<string, string> = {
+  new: 'received',
+  triaged: 'under_review',
+  investigating: 'under_review',
+  awaiting_response: 'under_review',
+  decision_made: 'under_review',
+  closed: 'closed',
+};
+
+interface ChannelRow {
+  id: string;
+  hr_case_id: string;
+  organisation_id: string;
+  passphrase_hash: string;
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+class IntakeError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function requireText(value: unknown, field: string, maxLength: number): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) throw new IntakeError(`${field} is required`, 400);
+  if (text.length > maxLength) throw new IntakeError(`${field} must be ${maxLength} characters or fewer`, 400);
+  return text;
+}
+
+async function getPortalOrganisation(supabase: SupabaseClient, organisationId: unknown) {
+  if (typeof organisationId !== 'string' || !organisationId) {
+    throw new IntakeError('This reporting portal is not available', 404);
+  }
+
+  const { data, error } = await supabase
+    .from('organisations')
+    .select('id, legal_name, trading_name, status, hr_case_intake_settings(portal_enabled)')
+    .eq('id', organisationId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const settings = data?.hr_case_intake_settings as { portal_enabled: boolean } | { portal_enabled: boolean }[] | null;
+  const enabled = Array.isArray(settings) ? settings[0]?.portal_enabled : settings?.portal_enabled;
+  if (!data || !enabled || !['active', 'trial'].includes(data.status)) {
+    throw new IntakeError('This reporting portal is not available', 404);
+  }
+  return data;
+}
+
+/**
+ * Finds the channel for a case key and checks the passphrase. Repeated
+ * failures lock the channel for a while, whoever is trying.
+ */
+async function openChannel(supabase: SupabaseClient, caseKey: unknown, passphrase: unknown): Promise<ChannelRow> {
+  const invalid = new IntakeError('The case key or passphrase is incorrect', 401);
+  if (typeof caseKey !== 'string' || typeof passphrase !== 'string') throw invalid;
+
+  const { data: channel, error } = await supabase
+    .from('hr_case_reporter_channels')
+    .select('id, hr_case_id, organisation_id, passphrase_hash, failed_attempts, locked_until')
+    .eq('case_key', normaliseCaseKey(caseKey))
+    .maybeSingle();
+  if (error) throw error;
+  if (!channel) throw invalid;
+
+  if (isLocked(channel)) {
+    throw new IntakeError(`Too many attempts. Try again in ${LOCKOUT_MINUTES} minutes.`, 429);
+  }
+
+  if (!(await verifyPassphrase(passphrase, channel.passphrase_hash))) {
+    await supabase
+      .from('hr_case_reporter_channels')
+      .update(afterFailedAttempt(channel))
+      .eq('id', channel.id);
+    throw invalid;
+  }
+
+  if (channel.failed_attempts > 0) {
+    await supabase
+      .from('hr_case_reporter_channels')
+      .update({ failed_attempts: 0, locked_until: null })
+      .eq('id', channel.id);
+  }
+
+  return channel as ChannelRow;
+}
+
+async function notifyUsers(supabase: SupabaseClient, userIds: string[], title: string, message: string) {
+  for (const userId of new Set(userIds)) {
+    const { error } = await supabase.from('notifications').insert({
+      user_id: userId,
+      title,
+      message,
+      type: 'hr_case',
+      category: 'hr_case',
+      link: '/hr-cases',
+    });
+    if (error) console.error(`[whistleblower-intake] Notification for ${userId} failed:`, error);
+  }
+}
+
+async function getAdminIds(supabase: SupabaseClient, organisationId: string): Promise<string[]> {
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('organisation_id', organisationId);
+  if (profileError) throw profileError;
+
+  const { data: adminRoles, error: roleError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'admin')
+    .in('user_id', (profiles || []).map(p => p.user_id));
+  if (roleError) throw roleError;
+
+  return (adminRoles || []).map(r => r.user_id as string);
+}
+
+async function submitReport(supabase: SupabaseClient, body: Record<string, unknown>) {
+  const organisation = await getPortalOrganisation(supabase, body.organisationId);
+  const caseType = typeof body.caseType === 'string' && CASE_TYPES.includes(body.caseType) ? body.caseType : 'incident';
+  const summary = requireText(body.summary, 'Summary', MAX_SUMMARY_LENGTH);
+  const description = requireText(body.description, 'Description', MAX_TEXT_LENGTH);
+  const passphrase = generatePassphrase();
+
+  // Reporter identity is never stored: no name, contact or creator
+  const { data: hrCase, error: caseError } = await supabase
+    .from('hr_cases')
+    .insert({
+      organisation_id: organisation.id,
+      case_number: 'TEMP',
+      case_type: caseType,
+      reported_by: 'anonymous',
+      reporter_name: null,
+      reporter_contact: null,
+      summary,
+      detailed_description: description,
+      confidentiality_level: 'restricted',
+      created_by_user_id: null,
+      submitted_via_portal: true,
+    })
+    .select('id, case_number')
+    .single();
+  if (caseError) throw caseError;
+
+  let caseKey = '';
+  for (let attempt = 0; !caseKey && attempt < 3; attempt++) {
+    const candidate = generateCaseKey();
+    const { error } = await supabase.from('hr_case_reporter_channels').insert({
+      hr_case_id: hrCase.id,
+      organisation_id: organisation.id,
+      case_key: candidate,
+      passphrase_hash: await hashPassphrase(passphrase),
+    });
+    if (!error) {
+      caseKey = candidate;
+    } else if (error.code !== '23505') {
+      await supabase.from('hr_cases').delete().eq('id', hrCase.id);
+      throw error;
+    }
+  }
+  if (!caseKey) {
+    await supabase.from('hr_cases').delete().eq('id', hrCase.id);
+    throw new Error('Could not allocate a case key');
+  }
+
+  await notifyUsers(
+    supabase,
+    await getAdminIds(supabase, organisation.id),
+    'New Anonymous Report',
+    `${hrCase.case_number} was submitted through the whistleblower portal.`
+  );
+
+  return { caseKey, passphrase };
+}
+
+async function checkReport(supabase: SupabaseClient, body: Record<string, unknown>) {
+  const channel = await openChannel(supabase, body.caseKey, body.passphrase);
+
+  const [{ data: hrCase, error: caseError }, { data: messages, error: messageError }] = await Promise.all([
+    supabase.from('hr_cases').select('status, summary, created_at').eq('id', channel.hr_case_id).single(),
+    supabase
+      .from('hr_case_reporter_messages')
+      .select('id, sender, body, created_at')
+      .eq('hr_case_id', channel.hr_case_id)
+      .order('created_at'),
+  ]);
+  if (caseError) throw caseError;
+  if (messageError) throw messageError;
+
+  // Staff names aren't shared with the reporter
+  return {
+    status: REPORTER_STATUS[hrCase.status] ?? 'under_review',
+    summary: hrCase.summary,
+    submittedAt: hrCase.created_at,
+    messages: messages || [],
+  };
+}
+
+async function replyToReport(supabase: SupabaseClient, body: Record<string, unknown>) {
+  const channel = await openChannel(supabase, body.caseKey, body.passphrase);
+  const message = requireText(body.message, 'Message', MAX_TEXT_LENGTH);
+
+  const { data: hrCase, error: caseError } = await supabase
+    .from('hr_cases')
+    .select('case_number, status, assigned_investigator_user_id')
+    .eq('id', channel.hr_case_id)
+    .single();
+  if (caseError) throw caseError;
+  if (hrCase.status === 'closed') {
+    throw new IntakeError('This case is closed and no longer accepts messages', 409);
+  }
+
+  const { error } = await supabase.from('hr_case_reporter_messages').insert({
+    hr_case_id: channel.hr_case_id,
+    organisation_id: channel.organisation_id,
+    sender: 'reporter',
+    body: message,
+  });
+  if (error) throw error;
+
+  await notifyUsers(
+    supabase,
+    hrCase.assigned_investigator_user_id
+      ? [hrCase.assigned_investigator_user_id]
+      : await getAdminIds(supabase, channel.organisation_id),
+    'New Reporter Message',
+    `The anonymous reporter on ${hrCase.case_number} has sent a message.`
+  );
+
+  return checkReport(supabase, body);
+}
+
+/**
+ * Public whistleblower portal. Unauthenticated by design: reporters are
+ * identified only by the case key and passphrase issued when they report,
+ * and nothing about the request is recorded.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const body = await req.json() as Record<string, unknown>;
+
+    switch (body.action) {
+      case 'organisation': {
+        const organisation = await getPortalOrganisation(supabase, body.organisationId);
+        return json({ name: organisation.trading_name || organisation.legal_name });
+      }
+      case 'submit':
+        return json(await submitReport(supabase, body));
+      case 'check':
+        return json(await checkReport(supabase, body));
+      case 'reply':
+        return json(await replyToReport(supabase, body));
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof IntakeError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('[whistleblower-intake] Error:', error instanceof Error ? error.message : error);
+    return json({ error: 'Something went wrong. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,32 @@
+-- =====================================================
+-- Award Overtime Thresholds
+-- Daily/weekly ordinary-hours thresholds and tiered overtime
+-- multipliers per award classification (e.g. SCHADS: overtime
+-- after 38h/week or 10h/day, 150% for 2 hours then 200%).
+-- =====================================================
+
+ALTER TABLE public.award_classifications
+  ADD COLUMN IF NOT EXISTS daily_overtime_threshold_hours NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS weekly_overtime_threshold_hours NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS overtime_tier1_hours NUMERIC(5,2) NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS overtime_tier2_multiplier NUMERIC(4,2) NOT NULL DEFAULT 2.0;
+
+COMMENT ON COLUMN public.award_classifications.daily_overtime_threshold_hours IS
+  'Hours worked in a day after which overtime applies. NULL disables the daily threshold.';
+COMMENT ON COLUMN public.award_classifications.weekly_overtime_threshold_hours IS
+  'Ordinary hours in a Monday-Sunday week after which overtime applies. NULL disables the weekly threshold.';
+COMMENT ON COLUMN public.award_classifications.overtime_tier1_hours IS
+  'Overtime hours per day paid at overtime_multiplier before overtime_tier2_multiplier applies.';
+
+ALTER TABLE public.award_classifications
+  ADD CONSTRAINT award_classifications_overtime_thresholds_positive CHECK (
+    (daily_overtime_threshold_hours IS NULL OR daily_overtime_threshold_hours > 0)
+    AND (weekly_overtime_threshold_hours IS NULL OR weekly_overtime_threshold_hours > 0)
+    AND overtime_tier1_hours >= 0
+  );
+
+-- Seed the double-time earning code alongside the existing OT1.5 mapping
+INSERT INTO public.payroll_mappings (organisation_id, shift_type, earning_code, description, multiplier)
+SELECT o.id, 'overtime_double', 'OT2.0', 'Overtime 2.0x', 2.0
+FROM public.organisations o
+ON CONFLICT (organisation_id, shift_type) DO NOTHING;
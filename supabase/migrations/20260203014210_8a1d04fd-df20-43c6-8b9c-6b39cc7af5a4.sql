@@ -0,0 +1,68 @@
+-- =====================================================
+-- Public Holiday Calendar
+-- Holidays per organisation, tagged with the states/regions they apply
+-- to. Used by the payroll calculator, export line builder and leave
+-- hours so holidays get the public holiday rate and don't count
+-- against leave balances.
+-- =====================================================
+
+CREATE TABLE public.public_holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  -- Empty means the holiday applies in every state (national holiday)
+  regions TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv', 'ical')),
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT public_holidays_unique_day UNIQUE (organisation_id, holiday_date, name)
+);
+
+CREATE INDEX idx_public_holidays_org_date
+  ON public.public_holidays (organisation_id, holiday_date);
+
+ALTER TABLE public.public_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view public holidays in their organisation"
+  ON public.public_holidays FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can create public holidays"
+  ON public.public_holidays FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can update public holidays"
+  ON public.public_holidays FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can delete public holidays"
+  ON public.public_holidays FOR DELETE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE TRIGGER update_public_holidays_updated_at
+  BEFORE UPDATE ON public.public_holidays
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Employee work state
+-- Decides which regional holidays apply to an employee
+-- =====================================================
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS work_state TEXT;
+
+COMMENT ON COLUMN public.employees.work_state IS
+  'State/region code (NSW, VIC, QLD...) used to match regional public holidays. NULL applies national holidays only.';
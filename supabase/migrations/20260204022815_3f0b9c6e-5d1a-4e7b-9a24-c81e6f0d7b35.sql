@@ -0,0 +1,115 @@
+-- =====================================================
+-- Internal Payslips Provider
+-- Pays employees directly from the app: an ABA (Cemtex) direct entry
+-- file for the bank plus a PDF payslip per employee, built from the
+-- same award interpretation as the other export formats.
+-- =====================================================
+
+ALTER TYPE public.payroll_provider ADD VALUE IF NOT EXISTS 'internal_payslips';
+
+-- =====================================================
+-- Employee Bank Accounts
+-- Where each employee's pay is deposited. Admin only - managers and
+-- the employee's colleagues can't read account numbers.
+-- =====================================================
+
+CREATE TABLE public.employee_bank_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  account_name TEXT NOT NULL,
+  bsb TEXT NOT NULL CHECK (bsb ~ '^[0-9]{6}$'),
+  account_number TEXT NOT NULL CHECK (account_number ~ '^[0-9]{1,9}$'),
+  updated_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT employee_bank_accounts_one_per_employee UNIQUE (employee_id)
+);
+
+CREATE INDEX idx_employee_bank_accounts_org
+  ON public.employee_bank_accounts (organisation_id);
+
+ALTER TABLE public.employee_bank_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view employee bank accounts"
+  ON public.employee_bank_accounts FOR SELECT
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can create employee bank accounts"
+  ON public.employee_bank_accounts FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can update employee bank accounts"
+  ON public.employee_bank_accounts FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can delete employee bank accounts"
+  ON public.employee_bank_accounts FOR DELETE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE TRIGGER update_employee_bank_accounts_updated_at
+  BEFORE UPDATE ON public.employee_bank_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Payroll Bank Settings
+-- The organisation's direct entry registration, used for the ABA
+-- descriptive record and the self-balancing debit from the funding
+-- account.
+-- =====================================================
+
+CREATE TABLE public.payroll_bank_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  -- Three letter APCA abbreviation of the funding bank, e.g. CBA, NAB, WBC
+  financial_institution TEXT NOT NULL CHECK (financial_institution ~ '^[A-Z]{3}$'),
+  -- Direct entry user ID issued by the bank
+  apca_user_id TEXT NOT NULL CHECK (apca_user_id ~ '^[0-9]{6}$'),
+  user_name TEXT NOT NULL,
+  remitter_name TEXT NOT NULL,
+  bsb TEXT NOT NULL CHECK (bsb ~ '^[0-9]{6}$'),
+  account_number TEXT NOT NULL CHECK (account_number ~ '^[0-9]{1,9}$'),
+  account_name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT payroll_bank_settings_one_per_org UNIQUE (organisation_id)
+);
+
+ALTER TABLE public.payroll_bank_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payroll bank settings"
+  ON public.payroll_bank_settings FOR SELECT
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can create payroll bank settings"
+  ON public.payroll_bank_settings FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can update payroll bank settings"
+  ON public.payroll_bank_settings FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE TRIGGER update_payroll_bank_settings_updated_at
+  BEFORE UPDATE ON public.payroll_bank_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
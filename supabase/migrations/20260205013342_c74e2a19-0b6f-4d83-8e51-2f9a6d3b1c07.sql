@@ -0,0 +1,126 @@
+-- =====================================================
+-- Adjustment Exports
+-- Once a pay period has been exported, later exports for it are
+-- adjustments: they carry only the hours that changed since the
+-- exports still in force, and link back to the export they follow.
+-- =====================================================
+
+ALTER TABLE public.payroll_exports
+  ADD COLUMN IF NOT EXISTS export_type TEXT NOT NULL DEFAULT 'full'
+    CHECK (export_type IN ('full', 'adjustment')),
+  ADD COLUMN IF NOT EXISTS previous_export_id UUID REFERENCES public.payroll_exports(id);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_exports_pay_period
+  ON public.payroll_exports (pay_period_id, created_at);
+
+-- =====================================================
+-- Payroll Export Timesheets
+-- Hours per penalty bucket each export paid for each timesheet. For an
+-- adjustment these are the differences, so summing the rows of the
+-- exports still in force gives what has been paid so far.
+-- =====================================================
+
+CREATE TABLE public.payroll_export_timesheets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  payroll_export_id UUID NOT NULL REFERENCES public.payroll_exports(id) ON DELETE CASCADE,
+  -- Not a foreign key: what was paid outlives the timesheet, so a later
+  -- adjustment can reverse a timesheet that has since been deleted
+  timesheet_id UUID NOT NULL,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  -- The shift as paid
+  work_date DATE NOT NULL,
+  clock_in TIME NOT NULL,
+  clock_out TIME,
+  break_minutes INTEGER NOT NULL DEFAULT 0,
+  -- { "standard": 7.5, "evening": 1.0, ... }
+  bucket_hours JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT payroll_export_timesheets_unique UNIQUE (payroll_export_id, timesheet_id)
+);
+
+CREATE INDEX idx_payroll_export_timesheets_timesheet
+  ON public.payroll_export_timesheets (timesheet_id);
+
+ALTER TABLE public.payroll_export_timesheets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view payroll export timesheets"
+  ON public.payroll_export_timesheets FOR SELECT
+  USING (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can create payroll export timesheets"
+  ON public.payroll_export_timesheets FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+-- =====================================================
+-- Release locks when an export is voided
+-- Timesheets the export paid go back to unlocked and un-exported so
+-- they can be corrected and picked up by the next export. Exports made
+-- before per-timesheet tracking fall back to the pay period, as long as
+-- no other export for it is still in force. Mirrored in
+-- src/lib/payrollExportVoid.ts; keep the two in step.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.release_export_timesheet_locks(_export_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pay_period_id UUID;
+  _organisation_id UUID;
+  released_count INTEGER := 0;
+BEGIN
+  SELECT pay_period_id, organisation_id INTO _pay_period_id, _organisation_id
+  FROM public.payroll_exports
+  WHERE id = _export_id;
+
+  -- Only an admin of the organisation that made the export
+  IF NOT (
+    is_platform_user(auth.uid())
+    OR (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), _organisation_id))
+  ) THEN
+    RAISE EXCEPTION 'Only admins can release export locks';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payroll_export_timesheets WHERE payroll_export_id = _export_id
+  ) THEN
+    UPDATE public.timesheets
+    SET
+      is_locked = false,
+      locked_reason = NULL,
+      exported_at = NULL,
+      exported_in_pay_period_id = NULL,
+      updated_at = now()
+    WHERE id IN (
+      SELECT timesheet_id FROM public.payroll_export_timesheets WHERE payroll_export_id = _export_id
+    );
+    GET DIAGNOSTICS released_count = ROW_COUNT;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.payroll_exports
+    WHERE pay_period_id = _pay_period_id
+      AND id <> _export_id
+      AND status = 'generated'
+  ) THEN
+    UPDATE public.timesheets
+    SET
+      is_locked = false,
+      locked_reason = NULL,
+      exported_at = NULL,
+      exported_in_pay_period_id = NULL,
+      updated_at = now()
+    WHERE exported_in_pay_period_id = _pay_period_id;
+    GET DIAGNOSTICS released_count = ROW_COUNT;
+  END IF;
+
+  RETURN released_count;
+END;
+$$;
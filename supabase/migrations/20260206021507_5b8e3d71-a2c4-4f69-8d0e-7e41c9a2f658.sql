@@ -0,0 +1,286 @@
+-- =====================================================
+-- Leave Accrual Engine
+-- Leave types accrue either a fixed amount per period (pro-rated when
+-- employment starts part way through) or per approved hour worked, for
+-- casuals and part-timers. Every run and every balance it touches is
+-- written to an immutable ledger. Runs nightly from the
+-- run-leave-accruals edge function.
+-- =====================================================
+
+ALTER TABLE public.leave_types
+  ADD COLUMN IF NOT EXISTS accrual_basis TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (accrual_basis IN ('fixed', 'hours_worked')),
+  ADD COLUMN IF NOT EXISTS accrual_rate_per_hour NUMERIC(8,5)
+    CHECK (accrual_rate_per_hour IS NULL OR accrual_rate_per_hour >= 0);
+
+COMMENT ON COLUMN public.leave_types.accrual_rate_per_hour IS
+  'Hours accrued per approved hour worked when accrual_basis = hours_worked, e.g. 0.0769 for 4 weeks annual leave.';
+
+-- =====================================================
+-- Accrual Runs
+-- =====================================================
+
+CREATE TABLE public.leave_accrual_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  triggered_by TEXT NOT NULL CHECK (triggered_by IN ('schedule', 'manual')),
+  triggered_by_user_id UUID,
+  balances_updated INTEGER NOT NULL DEFAULT 0,
+  total_hours_accrued NUMERIC(10,2) NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_leave_accrual_runs_org
+  ON public.leave_accrual_runs (organisation_id, started_at DESC);
+
+-- =====================================================
+-- Accrual Ledger
+-- One row per balance credited in a run. For hours-worked accruals,
+-- hours_worked and calculated_hours are running differences: summing
+-- them gives the totals to date, which is how later runs pick up
+-- timesheets approved late without double counting.
+-- =====================================================
+
+CREATE TABLE public.leave_accrual_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  run_id UUID NOT NULL REFERENCES public.leave_accrual_runs(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  leave_type_id UUID NOT NULL REFERENCES public.leave_types(id) ON DELETE CASCADE,
+  accrual_basis TEXT NOT NULL CHECK (accrual_basis IN ('fixed', 'hours_worked')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  hours_worked NUMERIC(10,2),
+  pro_rata_factor NUMERIC(6,4),
+  -- Before the max balance cap
+  calculated_hours NUMERIC(10,2) NOT NULL,
+  accrued_hours NUMERIC(10,2) NOT NULL,
+  balance_before NUMERIC(8,2) NOT NULL,
+  balance_after NUMERIC(8,2) NOT NULL,
+  capped BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_leave_accrual_ledger_balance
+  ON public.leave_accrual_ledger (employee_id, leave_type_id);
+
+CREATE INDEX idx_leave_accrual_ledger_run
+  ON public.leave_accrual_ledger (run_id);
+
+ALTER TABLE public.leave_accrual_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_accrual_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Written only by run_leave_accruals; no insert, update or delete policies
+CREATE POLICY "Admins and managers can view accrual runs"
+  ON public.leave_accrual_runs FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can view accrual ledger"
+  ON public.leave_accrual_ledger FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+-- =====================================================
+-- run_leave_accruals
+-- Replaces the flat-rate version. Callable by admins from the app, and
+-- by the scheduled edge function with the service role. The amounts
+-- credited are mirrored in src/lib/leaveAccruals.ts; keep the two in step.
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.run_leave_accruals(UUID);
+
+CREATE OR REPLACE FUNCTION public.run_leave_accruals(
+  _organisation_id UUID,
+  _triggered_by TEXT DEFAULT 'manual'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run_id UUID;
+  accrued_count INTEGER := 0;
+  total_accrued NUMERIC := 0;
+  emp RECORD;
+  lt RECORD;
+  bal RECORD;
+  interval_days INTEGER;
+  _period_start DATE;
+  _factor NUMERIC;
+  _hours_worked NUMERIC;
+  _worked_to_date NUMERIC;
+  _counted_to_date NUMERIC;
+  _calculated_to_date NUMERIC;
+  _calculated NUMERIC;
+  _accrued NUMERIC;
+BEGIN
+  -- Scheduled runs come from the edge function with the service role;
+  -- anyone else must be a signed-in admin of the organisation
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT (
+      auth.uid() IS NOT NULL AND (
+        is_platform_user(auth.uid())
+        OR (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), _organisation_id))
+      )
+    )
+  THEN
+    RAISE EXCEPTION 'Only admins can run leave accruals';
+  END IF;
+
+  INSERT INTO public.leave_accrual_runs (organisation_id, triggered_by, triggered_by_user_id)
+  VALUES (_organisation_id, _triggered_by, auth.uid())
+  RETURNING id INTO _run_id;
+
+  -- Loop through active employees who have started
+  FOR emp IN
+    SELECT id, employment_type, start_date
+    FROM public.employees
+    WHERE organisation_id = _organisation_id
+      AND status = 'active'
+      AND (start_date IS NULL OR start_date <= CURRENT_DATE)
+  LOOP
+    -- Loop through applicable leave types
+    FOR lt IN
+      SELECT id, accrual_basis, accrual_rate_hours, accrual_rate_per_hour, accrual_frequency, max_balance_hours
+      FROM public.leave_types
+      WHERE organisation_id = _organisation_id
+        AND accrues = true
+        AND is_active = true
+        AND emp.employment_type::text = ANY(applicable_employment_types)
+    LOOP
+      -- Get or create balance record
+      INSERT INTO public.leave_balances (organisation_id, employee_id, leave_type_id, balance_hours)
+      VALUES (_organisation_id, emp.id, lt.id, 0)
+      ON CONFLICT (employee_id, leave_type_id) DO NOTHING;
+
+      SELECT balance_hours, last_accrual_at INTO bal
+      FROM public.leave_balances
+      WHERE employee_id = emp.id AND leave_type_id = lt.id;
+
+      _hours_worked := NULL;
+      _factor := NULL;
+
+      IF lt.accrual_basis = 'hours_worked' THEN
+        CONTINUE WHEN COALESCE(lt.accrual_rate_per_hour, 0) <= 0;
+
+        -- Everything approved since starting, less what earlier runs counted
+        SELECT COALESCE(SUM(total_hours), 0) INTO _worked_to_date
+        FROM public.timesheets
+        WHERE employee_id = emp.id
+          AND status = 'approved'
+          AND date <= CURRENT_DATE
+          AND (emp.start_date IS NULL OR date >= emp.start_date);
+
+        SELECT COALESCE(SUM(hours_worked), 0), COALESCE(SUM(calculated_hours), 0)
+        INTO _counted_to_date, _calculated_to_date
+        FROM public.leave_accrual_ledger
+        WHERE employee_id = emp.id AND leave_type_id = lt.id;
+
+        _hours_worked := _worked_to_date - _counted_to_date;
+        CONTINUE WHEN _hours_worked <= 0;
+
+        -- Rounded on the running total so repeated runs don't drift
+        _calculated := ROUND(_worked_to_date * lt.accrual_rate_per_hour, 2) - _calculated_to_date;
+        _period_start := COALESCE(bal.last_accrual_at::date, emp.start_date, CURRENT_DATE);
+      ELSE
+        interval_days := CASE lt.accrual_frequency
+          WHEN 'weekly' THEN 7
+          WHEN 'fortnightly' THEN 14
+          WHEN 'monthly' THEN 30
+          WHEN 'annually' THEN 365
+          ELSE 14
+        END;
+
+        -- Check if enough time has passed
+        CONTINUE WHEN bal.last_accrual_at IS NOT NULL
+          AND (now() - bal.last_accrual_at) < (interval_days || ' days')::interval;
+
+        _period_start := COALESCE(bal.last_accrual_at::date, CURRENT_DATE - interval_days);
+
+        -- Pro-rata when employment started part way through the period
+        IF emp.start_date IS NOT NULL AND emp.start_date > _period_start THEN
+          _factor := LEAST(1, (CURRENT_DATE - emp.start_date)::numeric / interval_days);
+          _period_start := emp.start_date;
+        ELSE
+          _factor := 1;
+        END IF;
+
+        _calculated := ROUND(COALESCE(lt.accrual_rate_hours, 0) * _factor, 2);
+      END IF;
+
+      CONTINUE WHEN _calculated <= 0;
+
+      -- Respect max balance; a balance already over the cap isn't reduced
+      IF lt.max_balance_hours IS NOT NULL THEN
+        _accrued := GREATEST(0, LEAST(_calculated, lt.max_balance_hours - bal.balance_hours));
+      ELSE
+        _accrued := _calculated;
+      END IF;
+
+      UPDATE public.leave_balances
+      SET balance_hours = balance_hours + _accrued,
+          last_accrual_at = now(),
+          updated_at = now()
+      WHERE employee_id = emp.id AND leave_type_id = lt.id;
+
+      INSERT INTO public.leave_accrual_ledger (
+        organisation_id, run_id, employee_id, leave_type_id, accrual_basis,
+        period_start, period_end, hours_worked, pro_rata_factor,
+        calculated_hours, accrued_hours, balance_before, balance_after, capped
+      ) VALUES (
+        _organisation_id, _run_id, emp.id, lt.id, lt.accrual_basis,
+        _period_start, CURRENT_DATE, _hours_worked, _factor,
+        _calculated, _accrued, bal.balance_hours, bal.balance_hours + _accrued, _accrued < _calculated
+      );
+
+      accrued_count := accrued_count + 1;
+      total_accrued := total_accrued + _accrued;
+    END LOOP;
+  END LOOP;
+
+  UPDATE public.leave_accrual_runs
+  SET balances_updated = accrued_count,
+      total_hours_accrued = total_accrued,
+      completed_at = now()
+  WHERE id = _run_id;
+
+  RETURN accrued_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_leave_accruals(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.run_leave_accruals(UUID, TEXT) TO authenticated, service_role;
+
+-- =====================================================
+-- Nightly schedule
+-- Calls the edge function at 02:00 AEST. The project URL and service
+-- role key are read from Vault so they aren't stored in the migration.
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'run-leave-accruals-nightly',
+  '0 16 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/run-leave-accruals',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('triggered_at', now())
+  );
+  $$
+);
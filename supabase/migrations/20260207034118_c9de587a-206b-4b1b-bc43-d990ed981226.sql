@@ -0,0 +1,53 @@
+-- =====================================================
+-- Leave Staffing Rules
+-- Minimum number of staff who must be working in a department and/or
+-- position. Approving leave that would take a team below its minimum
+-- either warns the approver or needs an audited override.
+-- =====================================================
+
+CREATE TABLE public.leave_staffing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  department TEXT,
+  position TEXT,
+  min_staff INTEGER NOT NULL CHECK (min_staff >= 1),
+  enforcement TEXT NOT NULL DEFAULT 'warn' CHECK (enforcement IN ('warn', 'block')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT leave_staffing_rules_scope CHECK (department IS NOT NULL OR position IS NOT NULL)
+);
+
+CREATE INDEX idx_leave_staffing_rules_org
+  ON public.leave_staffing_rules (organisation_id);
+
+ALTER TABLE public.leave_staffing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view staffing rules"
+  ON public.leave_staffing_rules FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can manage staffing rules"
+  ON public.leave_staffing_rules FOR ALL
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  )
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE TRIGGER update_leave_staffing_rules_updated_at
+  BEFORE UPDATE ON public.leave_staffing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reason given when leave is approved despite breaking a staffing rule
+ALTER TABLE public.leave_requests
+  ADD COLUMN IF NOT EXISTS staffing_override_reason TEXT;
@@ -0,0 +1,106 @@
+-- =====================================================
+-- Data-driven compliance requirements
+-- evaluate-compliance now resolves what each employee needs from
+-- compliance_rules instead of a hard-coded certificate list. A rule
+-- targets everyone, a position (role), department or location (work
+-- state), can be narrowed to employment types, names the certificate
+-- type that satisfies it, and sets how early it starts warning.
+-- =====================================================
+
+-- Tenant columns already exist on the hosted schema; keep local resets in step
+ALTER TABLE public.document_types
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.compliance_rules
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS certification_type TEXT,
+  ADD COLUMN IF NOT EXISTS employment_types TEXT[],
+  ADD COLUMN IF NOT EXISTS warning_days INTEGER NOT NULL DEFAULT 30
+    CHECK (warning_days >= 0);
+
+COMMENT ON COLUMN public.compliance_rules.certification_type IS
+  'employee_certifications.type that satisfies the rule, e.g. wwcc_vic. Null for rules that only list a required document.';
+COMMENT ON COLUMN public.compliance_rules.employment_types IS
+  'Employment types the rule applies to; null or empty applies to all.';
+
+CREATE INDEX IF NOT EXISTS idx_compliance_rules_org
+  ON public.compliance_rules (organisation_id);
+
+-- =====================================================
+-- Default requirements
+-- Carries the old hard-coded list over as rules for every organisation,
+-- and gives new organisations the same rules when they are created so
+-- their checks don't start out passing everyone. The generic 'wwcc' type
+-- was never recorded against employees, so WWCC becomes per-state rules
+-- for the checks the app records.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.seed_default_compliance_rules(_organisation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CREATE TEMPORARY TABLE IF NOT EXISTS _default_compliance_rules (
+    certification_type TEXT,
+    name TEXT,
+    target_type assignment_target_type,
+    target_value TEXT
+  ) ON COMMIT DROP;
+  TRUNCATE _default_compliance_rules;
+
+  INSERT INTO _default_compliance_rules VALUES
+    ('police_check', 'Police Check', 'all', NULL),
+    ('ndis_screening', 'NDIS Worker Screening', 'all', NULL),
+    ('first_aid', 'First Aid Certificate', 'all', NULL),
+    ('cpr', 'CPR Certificate', 'all', NULL),
+    ('wwcc_vic', 'Working With Children Check (VIC)', 'location', 'VIC'),
+    ('wwcc_nsw', 'Working With Children Check (NSW)', 'location', 'NSW');
+
+  INSERT INTO public.document_types (organisation_id, name, category, is_required, is_active)
+  SELECT _organisation_id, d.name, 'Compliance', true, true
+  FROM _default_compliance_rules d
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.document_types dt
+    WHERE dt.organisation_id = _organisation_id AND lower(dt.name) = lower(d.name)
+  );
+
+  INSERT INTO public.compliance_rules (
+    organisation_id, document_type_id, target_type, target_value, is_required, certification_type
+  )
+  SELECT _organisation_id, dt.id, d.target_type, d.target_value, true, d.certification_type
+  FROM _default_compliance_rules d
+  JOIN LATERAL (
+    SELECT id FROM public.document_types
+    WHERE organisation_id = _organisation_id AND lower(name) = lower(d.name)
+    ORDER BY created_at
+    LIMIT 1
+  ) dt ON true
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.compliance_rules cr
+    WHERE cr.organisation_id = _organisation_id AND cr.certification_type = d.certification_type
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_compliance_rules(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.seed_organisation_compliance_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_default_compliance_rules(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_organisation_compliance_rules
+  AFTER INSERT ON public.organisations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.seed_organisation_compliance_rules();
+
+SELECT public.seed_default_compliance_rules(id) FROM public.organisations;
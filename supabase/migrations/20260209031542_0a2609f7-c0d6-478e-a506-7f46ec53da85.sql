@@ -0,0 +1,147 @@
+-- =====================================================
+-- Rostering
+-- Participants (clients) with their own support requirements, the
+-- workers allocated to each participant, and shifts assigned to
+-- employees. Assigning a worker to a shift or a participant goes
+-- through evaluate-compliance with that shift/client as context, so
+-- the participant's requirements are checked on top of the
+-- organisation's compliance rules.
+-- =====================================================
+
+-- Worker gender, for participants who need a worker of a given gender
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS gender TEXT
+    CHECK (gender IN ('female', 'male', 'non_binary'));
+
+CREATE TABLE public.participants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  ndis_number TEXT,
+  address TEXT,
+  phone TEXT,
+  -- Worker requirements: gender (null = any) and certificate/training types
+  worker_gender TEXT CHECK (worker_gender IN ('female', 'male')),
+  required_certifications TEXT[] NOT NULL DEFAULT '{}',
+  requirement_notes TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_participants_org ON public.participants (organisation_id);
+
+-- Workers allocated to a participant's support team
+CREATE TABLE public.participant_workers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  -- Set when the worker was allocated under a compliance override
+  compliance_override_id UUID REFERENCES public.compliance_overrides(id) ON DELETE SET NULL,
+  assigned_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (participant_id, employee_id)
+);
+
+CREATE INDEX idx_participant_workers_employee ON public.participant_workers (employee_id);
+
+CREATE TABLE public.shifts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES public.participants(id) ON DELETE SET NULL,
+  employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  location TEXT,
+  notes TEXT,
+  requires_driving BOOLEAN NOT NULL DEFAULT false,
+  -- Extra certificate/training types for this shift only
+  required_certifications TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'assigned', 'completed', 'cancelled')),
+  compliance_override_id UUID REFERENCES public.compliance_overrides(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ,
+  assigned_by_user_id UUID,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT shifts_time_order CHECK (end_time > start_time),
+  CONSTRAINT shifts_assigned_employee CHECK (status <> 'assigned' OR employee_id IS NOT NULL)
+);
+
+CREATE INDEX idx_shifts_org_start ON public.shifts (organisation_id, start_time);
+CREATE INDEX idx_shifts_employee ON public.shifts (employee_id, start_time);
+
+ALTER TABLE public.participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.participant_workers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view participants"
+  ON public.participants FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can manage participants"
+  ON public.participants FOR ALL
+  USING (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  )
+  WITH CHECK (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins and managers can view participant workers"
+  ON public.participant_workers FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can manage participant workers"
+  ON public.participant_workers FOR ALL
+  USING (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  )
+  WITH CHECK (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins and managers can view shifts"
+  ON public.shifts FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can manage shifts"
+  ON public.shifts FOR ALL
+  USING (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  )
+  WITH CHECK (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE TRIGGER update_participants_updated_at
+  BEFORE UPDATE ON public.participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_shifts_updated_at
+  BEFORE UPDATE ON public.shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
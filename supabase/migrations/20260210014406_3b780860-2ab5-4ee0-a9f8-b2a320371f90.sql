@@ -0,0 +1,60 @@
+-- =====================================================
+-- Compliance Expiry Alerts
+-- The nightly compliance-expiry-digest job walks every active employee's
+-- certifications and sends an escalating series of alerts:
+--   60, 30, 14 and 7 days out - the employee
+--   14 days out               - also the employee's manager(s)
+--   expiry day                - organisation admins
+-- Each stage is recorded here once per certification and expiry date,
+-- so re-runs never repeat an alert and a renewal starts a fresh ladder.
+-- =====================================================
+
+CREATE TABLE public.compliance_alert_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  certification_id UUID NOT NULL REFERENCES public.employee_certifications(id) ON DELETE CASCADE,
+  certification_type TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('60_days', '30_days', '14_days', '7_days', 'expired')),
+  days_until_expiry INTEGER NOT NULL,
+  notified_user_ids UUID[] NOT NULL DEFAULT '{}',
+  emailed_addresses TEXT[] NOT NULL DEFAULT '{}',
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (certification_id, expiry_date, stage)
+);
+
+CREATE INDEX idx_compliance_alert_log_org_sent
+  ON public.compliance_alert_log (organisation_id, sent_at DESC);
+
+ALTER TABLE public.compliance_alert_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the scheduled job (service role)
+CREATE POLICY "Admins and managers can view compliance alerts"
+  ON public.compliance_alert_log FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+-- =====================================================
+-- Nightly schedule
+-- Runs at 06:00 AEST so alerts are waiting at the start of the day.
+-- =====================================================
+
+SELECT cron.schedule(
+  'compliance-expiry-digest-nightly',
+  '0 20 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/compliance-expiry-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('triggered_at', now())
+  );
+  $$
+);
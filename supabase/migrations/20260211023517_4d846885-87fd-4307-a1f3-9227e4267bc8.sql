@@ -0,0 +1,100 @@
+-- =====================================================
+-- Compliance History
+-- evaluate-compliance works a result out on demand and used to discard it,
+-- so there was no answering "was this worker compliant on the day of that
+-- shift?". Results are now kept:
+--   compliance_snapshots      - one row per employee per day, the latest
+--                               general evaluation of that day
+--   compliance_status_events  - a row each time an employee's status moves
+--                               between compliant, expiring and non_compliant
+-- Both are written by the edge functions with the service role.
+-- =====================================================
+
+CREATE TABLE public.compliance_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('compliant', 'expiring', 'non_compliant')),
+  compliant BOOLEAN NOT NULL,
+  override_active BOOLEAN NOT NULL DEFAULT false,
+  blocking_reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  expiring_soon JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL CHECK (source IN ('schedule', 'evaluation')),
+  evaluated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (employee_id, snapshot_date)
+);
+
+CREATE INDEX idx_compliance_snapshots_org_date
+  ON public.compliance_snapshots (organisation_id, snapshot_date);
+CREATE INDEX idx_compliance_snapshots_employee_evaluated
+  ON public.compliance_snapshots (employee_id, evaluated_at DESC);
+
+CREATE TABLE public.compliance_status_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  previous_status TEXT CHECK (previous_status IN ('compliant', 'expiring', 'non_compliant')),
+  status TEXT NOT NULL CHECK (status IN ('compliant', 'expiring', 'non_compliant')),
+  compliant BOOLEAN NOT NULL,
+  override_active BOOLEAN NOT NULL DEFAULT false,
+  blocking_reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  expiring_soon JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL CHECK (source IN ('schedule', 'evaluation')),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_compliance_status_events_employee_occurred
+  ON public.compliance_status_events (employee_id, occurred_at DESC);
+CREATE INDEX idx_compliance_status_events_org_occurred
+  ON public.compliance_status_events (organisation_id, occurred_at);
+
+COMMENT ON COLUMN public.compliance_status_events.previous_status IS
+  'NULL for the first status recorded for an employee';
+
+ALTER TABLE public.compliance_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view compliance snapshots"
+  ON public.compliance_snapshots FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can view compliance status events"
+  ON public.compliance_status_events FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+-- =====================================================
+-- Audit packs can carry the history
+-- =====================================================
+
+ALTER TABLE public.audit_packs
+  ADD COLUMN include_compliance_history BOOLEAN NOT NULL DEFAULT false;
+
+-- =====================================================
+-- Nightly schedule
+-- Runs at 23:30 AEST so each day's snapshot reflects the end of that day.
+-- =====================================================
+
+SELECT cron.schedule(
+  'snapshot-compliance-nightly',
+  '30 13 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/snapshot-compliance',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('triggered_at', now())
+  );
+  $$
+);
@@ -0,0 +1,204 @@
+-- =====================================================
+-- Compliance Override Approval
+-- Overrides used to take effect the moment they were created. For NDIS
+-- quality audits they now follow a two-person rule: a coordinator (manager
+-- or admin) requests the override and a different admin approves it. Only
+-- approved overrides are honoured by evaluate-compliance.
+-- Each certificate type can also carry a shorter maximum override length
+-- than the overall 14 days.
+-- =====================================================
+
+ALTER TABLE public.compliance_overrides
+  ADD COLUMN approval_status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (approval_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN reviewed_by UUID,
+  ADD COLUMN reviewed_by_name TEXT,
+  ADD COLUMN reviewed_by_email TEXT,
+  ADD COLUMN reviewed_at TIMESTAMPTZ,
+  ADD COLUMN review_notes TEXT,
+  ADD CONSTRAINT override_two_person CHECK (reviewed_by IS NULL OR reviewed_by <> override_by);
+
+-- Existing overrides were in effect as soon as they were made; new ones wait
+ALTER TABLE public.compliance_overrides ALTER COLUMN approval_status SET DEFAULT 'pending';
+
+COMMENT ON COLUMN public.compliance_overrides.override_by IS 'The user who requested the override';
+COMMENT ON COLUMN public.compliance_overrides.reviewed_by IS 'The admin who approved or rejected the request; never the requester';
+
+CREATE INDEX idx_compliance_overrides_pending
+  ON public.compliance_overrides (organisation_id, created_at)
+  WHERE approval_status = 'pending';
+
+-- =====================================================
+-- Maximum override length per certificate type
+-- =====================================================
+
+CREATE TABLE public.compliance_override_limits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  certification_type TEXT NOT NULL,
+  max_days INTEGER NOT NULL CHECK (max_days BETWEEN 1 AND 14),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, certification_type)
+);
+
+ALTER TABLE public.compliance_override_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view override limits"
+  ON public.compliance_override_limits FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can manage override limits"
+  ON public.compliance_override_limits FOR ALL
+  USING (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  )
+  WITH CHECK (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE TRIGGER update_compliance_override_limits_updated_at
+  BEFORE UPDATE ON public.compliance_override_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Who can request and who can approve
+-- =====================================================
+
+DROP POLICY IF EXISTS "Admins can view compliance overrides" ON public.compliance_overrides;
+DROP POLICY IF EXISTS "Admins can create compliance overrides" ON public.compliance_overrides;
+DROP POLICY IF EXISTS "Admins can update compliance overrides" ON public.compliance_overrides;
+
+CREATE POLICY "Coordinators can view compliance overrides"
+  ON public.compliance_overrides FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'director'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Coordinators can request compliance overrides"
+  ON public.compliance_overrides FOR INSERT
+  WITH CHECK (
+    override_by = auth.uid() AND
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'director'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+CREATE POLICY "Admins can review compliance overrides"
+  ON public.compliance_overrides FOR UPDATE
+  USING (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'director'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+-- =====================================================
+-- Enforce the workflow whichever way the row is written
+-- New requests always start pending and within the shortest limit of the
+-- certificates they cover. Approval or rejection happens once, by an admin
+-- who isn't the requester, and the request itself can't be edited after.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_compliance_override_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _blocked JSONB;
+  _max_days INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.approval_status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_by_name := NULL;
+    NEW.reviewed_by_email := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.review_notes := NULL;
+
+    -- Older clients stored the list as a JSON string
+    _blocked := CASE jsonb_typeof(NEW.blocked_certifications)
+      WHEN 'array' THEN NEW.blocked_certifications
+      WHEN 'string' THEN (NEW.blocked_certifications #>> '{}')::jsonb
+      ELSE '[]'::jsonb
+    END;
+
+    SELECT COALESCE(MIN(l.max_days), 14) INTO _max_days
+    FROM jsonb_array_elements(_blocked) AS b(cert)
+    JOIN public.compliance_override_limits l
+      ON l.organisation_id = NEW.organisation_id
+     AND l.certification_type = lower(b.cert->>'type');
+
+    IF NEW.expires_at > now() + make_interval(days => _max_days) THEN
+      RAISE EXCEPTION 'Override cannot last more than % days for these certifications', _max_days;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.expires_at IS DISTINCT FROM OLD.expires_at
+     OR NEW.override_by IS DISTINCT FROM OLD.override_by
+     OR NEW.blocked_certifications IS DISTINCT FROM OLD.blocked_certifications
+     OR NEW.context_type IS DISTINCT FROM OLD.context_type
+     OR NEW.context_id IS DISTINCT FROM OLD.context_id
+     OR NEW.employee_id IS DISTINCT FROM OLD.employee_id THEN
+    RAISE EXCEPTION 'Override requests cannot be edited; revoke it and request a new one';
+  END IF;
+
+  IF NEW.approval_status IS DISTINCT FROM OLD.approval_status THEN
+    IF OLD.approval_status <> 'pending' THEN
+      RAISE EXCEPTION 'Override has already been %', OLD.approval_status;
+    END IF;
+    IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'director'::app_role)) THEN
+      RAISE EXCEPTION 'Only an admin can approve or reject compliance overrides';
+    END IF;
+    IF auth.uid() = OLD.override_by THEN
+      RAISE EXCEPTION 'Overrides must be approved by a different admin to the one who requested them';
+    END IF;
+    IF NEW.approval_status = 'approved' AND (OLD.expires_at <= now() OR NOT OLD.is_active) THEN
+      RAISE EXCEPTION 'Override request is no longer active';
+    END IF;
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSIF NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Review details can only be set when approving or rejecting an override';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_compliance_override_approval
+  BEFORE INSERT OR UPDATE ON public.compliance_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_compliance_override_approval();
+
+-- Pending and rejected requests don't count
+CREATE OR REPLACE FUNCTION public.has_active_compliance_override(
+  _employee_id UUID,
+  _context_type TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.compliance_overrides
+    WHERE employee_id = _employee_id
+      AND is_active = true
+      AND approval_status = 'approved'
+      AND expires_at > now()
+      AND (_context_type IS NULL OR context_type = _context_type)
+  )
+$$;
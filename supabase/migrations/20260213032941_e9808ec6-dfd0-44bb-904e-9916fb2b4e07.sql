@@ -0,0 +1,144 @@
+-- =====================================================
+-- Certification Verification
+-- A certificate entered by hand proves nothing until someone has checked it
+-- at the source. Each check is recorded here: how it was verified (NDIS
+-- Worker Screening Database, a WWCC portal lookup or sighting the original),
+-- who did it, when, the reference number returned and the supporting file.
+-- Records are never edited or removed, so together they form the trail that
+-- goes into employee compliance audit packs.
+-- employee_certifications.verification_id points at the check that stands
+-- for the certificate as it is now. Changing the certificate's details
+-- clears it, and evaluate-compliance doesn't count a certificate as valid
+-- without one. Existing certificates start unverified.
+-- =====================================================
+
+CREATE TABLE public.certification_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  certification_id UUID NOT NULL REFERENCES public.employee_certifications(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('ndis_screening_database', 'wwcc_portal', 'sighted_original')),
+  reference_number TEXT,
+  verified_on DATE NOT NULL,
+  verified_by UUID NOT NULL,
+  verified_by_name TEXT NOT NULL,
+  document_id UUID REFERENCES public.employee_documents(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT verification_reference_required
+    CHECK (method = 'sighted_original' OR nullif(trim(reference_number), '') IS NOT NULL)
+);
+
+CREATE INDEX idx_certification_verifications_certification
+  ON public.certification_verifications (certification_id, created_at DESC);
+CREATE INDEX idx_certification_verifications_employee
+  ON public.certification_verifications (employee_id);
+
+ALTER TABLE public.employee_certifications
+  ADD COLUMN verification_id UUID REFERENCES public.certification_verifications(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.employee_certifications.verification_id IS
+  'The verification covering the certificate as currently recorded; NULL until verified';
+
+ALTER TABLE public.certification_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view certification verifications"
+  ON public.certification_verifications FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can verify certifications"
+  ON public.certification_verifications FOR INSERT
+  WITH CHECK (
+    verified_by = auth.uid() AND
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), organisation_id)
+  );
+
+-- =====================================================
+-- Keep verifications attached to the right certificate
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.prepare_certification_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cert public.employee_certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO _cert FROM public.employee_certifications WHERE id = NEW.certification_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certification not found';
+  END IF;
+
+  NEW.organisation_id := _cert.organisation_id;
+  NEW.employee_id := _cert.employee_id;
+
+  IF NEW.verified_on > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Verification date cannot be in the future';
+  END IF;
+
+  IF NEW.document_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.employee_documents
+    WHERE id = NEW.document_id AND employee_id = _cert.employee_id
+  ) THEN
+    RAISE EXCEPTION 'Supporting document must belong to the same employee';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_certification_verification
+  BEFORE INSERT ON public.certification_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_certification_verification();
+
+CREATE OR REPLACE FUNCTION public.apply_certification_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.employee_certifications
+  SET verification_id = NEW.id
+  WHERE id = NEW.certification_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_certification_verification
+  AFTER INSERT ON public.certification_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_certification_verification();
+
+-- A verification vouches for the details that were checked, not later edits
+CREATE OR REPLACE FUNCTION public.reset_certification_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.verification_id IS NOT DISTINCT FROM OLD.verification_id AND (
+    NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+    OR NEW.expiry_date IS DISTINCT FROM OLD.expiry_date
+    OR NEW.document_id IS DISTINCT FROM OLD.document_id
+  ) THEN
+    NEW.verification_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_certification_verification
+  BEFORE UPDATE ON public.employee_certifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_certification_verification();
@@ -0,0 +1,25 @@
+-- =====================================================
+-- Employee Logins
+-- Employees are linked to their login by email address, which lives in
+-- auth.users and can't be read from the browser. The compliance matrix
+-- needs the link to notify employees about missing documents and to assign
+-- them renewal courses, so admins and managers can look it up for
+-- employees in their own organisation. Employees without a login are left
+-- out of the result.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_employee_user_ids(_employee_ids UUID[])
+RETURNS TABLE (employee_id UUID, user_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, u.id
+  FROM public.employees e
+  JOIN auth.users u ON lower(u.email) = lower(e.email)
+  JOIN public.profiles p ON p.user_id = u.id AND p.organisation_id = e.organisation_id
+  WHERE e.id = ANY(_employee_ids)
+    AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+    AND user_belongs_to_org(auth.uid(), e.organisation_id)
+$$;
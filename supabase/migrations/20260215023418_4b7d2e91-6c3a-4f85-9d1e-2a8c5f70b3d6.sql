@@ -0,0 +1,40 @@
+-- =====================================================
+-- NDIS REPORTABLE INCIDENTS
+-- =====================================================
+-- Under the NDIS (Incident Management and Reportable Incidents) Rules a
+-- reportable incident must be notified to the Commission within 24 hours of
+-- the provider becoming aware of it (5 business days for an unauthorised
+-- restrictive practice), followed by a report within 5 business days.
+-- HR cases carry the classification, the deadlines worked out when it was
+-- made, and when each submission went in.
+
+ALTER TABLE public.hr_cases
+  ADD COLUMN ndis_reportable BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN ndis_incident_category TEXT
+    CHECK (ndis_incident_category IN (
+      'death',
+      'serious_injury',
+      'abuse_neglect',
+      'unlawful_contact',
+      'sexual_misconduct',
+      'restrictive_practice'
+    )),
+  ADD COLUMN ndis_aware_at TIMESTAMPTZ,
+  ADD COLUMN ndis_notification_due_at TIMESTAMPTZ,
+  ADD COLUMN ndis_report_due_at TIMESTAMPTZ,
+  ADD COLUMN ndis_notified_at TIMESTAMPTZ,
+  ADD COLUMN ndis_commission_reference TEXT,
+  ADD COLUMN ndis_report_submitted_at TIMESTAMPTZ,
+  ADD CONSTRAINT hr_cases_ndis_classification_complete CHECK (
+    NOT ndis_reportable OR (
+      ndis_incident_category IS NOT NULL
+      AND ndis_aware_at IS NOT NULL
+      AND ndis_notification_due_at IS NOT NULL
+      AND ndis_report_due_at IS NOT NULL
+    )
+  );
+
+-- Open reportable incidents are listed by their next deadline
+CREATE INDEX idx_hr_cases_ndis_deadlines
+  ON public.hr_cases(ndis_notification_due_at, ndis_report_due_at)
+  WHERE ndis_reportable;
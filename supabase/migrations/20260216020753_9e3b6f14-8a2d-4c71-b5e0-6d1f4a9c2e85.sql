@@ -0,0 +1,154 @@
+-- =====================================================
+-- HR CASE SLA TARGETS
+-- =====================================================
+-- How many business days a case may spend in each status before it is
+-- overdue, per case type and severity. Combinations without a row use the
+-- built-in defaults (see src/lib/hrCaseSla.ts).
+
+CREATE TABLE public.hr_case_sla_targets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  case_type hr_case_type NOT NULL,
+  severity hr_case_severity NOT NULL,
+  status hr_case_status NOT NULL CHECK (status <> 'closed'),
+  target_business_days INTEGER NOT NULL CHECK (target_business_days BETWEEN 1 AND 90),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, case_type, severity, status)
+);
+
+ALTER TABLE public.hr_case_sla_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view HR case SLA targets"
+  ON public.hr_case_sla_targets FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can manage HR case SLA targets"
+  ON public.hr_case_sla_targets FOR ALL
+  USING (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  )
+  WITH CHECK (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE TRIGGER update_hr_case_sla_targets_updated_at
+  BEFORE UPDATE ON public.hr_case_sla_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- HR CASE STATUS HISTORY
+-- =====================================================
+-- Every status a case has been in and when it moved, written by trigger so
+-- status changes made anywhere are captured. Time in status is the gap
+-- between consecutive rows.
+
+CREATE TABLE public.hr_case_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hr_case_id UUID NOT NULL REFERENCES public.hr_cases(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  from_status hr_case_status,
+  to_status hr_case_status NOT NULL,
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_hr_case_status_history_case
+  ON public.hr_case_status_history(hr_case_id, changed_at);
+
+ALTER TABLE public.hr_case_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; history can't be edited
+CREATE POLICY "Users can view status history for accessible cases"
+  ON public.hr_case_status_history FOR SELECT
+  USING (can_access_hr_case(auth.uid(), hr_case_id));
+
+CREATE OR REPLACE FUNCTION public.record_hr_case_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.hr_case_status_history (hr_case_id, organisation_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      NEW.organisation_id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_hr_case_status_change
+  AFTER INSERT OR UPDATE OF status ON public.hr_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_hr_case_status_change();
+
+-- Existing cases: opened at creation, and in their current status since
+-- their last update
+INSERT INTO public.hr_case_status_history (hr_case_id, organisation_id, from_status, to_status, changed_by, changed_at)
+SELECT id, organisation_id, NULL, 'new', created_by_user_id, created_at
+FROM public.hr_cases;
+
+INSERT INTO public.hr_case_status_history (hr_case_id, organisation_id, from_status, to_status, changed_by, changed_at)
+SELECT id, organisation_id, 'new', status, NULL, COALESCE(closed_at, updated_at)
+FROM public.hr_cases
+WHERE status <> 'new';
+
+-- =====================================================
+-- SLA ESCALATIONS
+-- =====================================================
+-- One row per overdue stint in a status, claimed before notifying so an
+-- overdue case is escalated once rather than on every run.
+
+CREATE TABLE public.hr_case_sla_escalations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hr_case_id UUID NOT NULL REFERENCES public.hr_cases(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  status hr_case_status NOT NULL,
+  entered_status_at TIMESTAMPTZ NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  target_business_days INTEGER NOT NULL,
+  notified_user_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (hr_case_id, status, entered_status_at)
+);
+
+ALTER TABLE public.hr_case_sla_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view SLA escalations for accessible cases"
+  ON public.hr_case_sla_escalations FOR SELECT
+  USING (can_access_hr_case(auth.uid(), hr_case_id));
+
+-- =====================================================
+-- Hourly escalation run. Critical cases have 1 business day targets, so a
+-- nightly run would be too coarse.
+-- =====================================================
+
+SELECT cron.schedule(
+  'hr-case-sla-escalations-hourly',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/hr-case-sla-escalations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('triggered_at', now())
+  );
+  $$
+);
@@ -0,0 +1,135 @@
+-- =====================================================
+-- HR case state machine
+-- Cases move through a fixed lifecycle, and each step needs the work that
+-- justifies it: triage before an investigation, findings before a decision,
+-- and settled actions plus closure notes before the case is closed. The
+-- rules are enforced on the table so no client can skip them;
+-- transition_hr_case is the entry point the app uses.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.hr_case_status_label(_status hr_case_status)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT initcap(replace(_status::text, '_', ' '))
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_hr_case_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed hr_case_status[];
+  _missing TEXT[] := '{}';
+  _open_actions INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'new' THEN
+      RAISE EXCEPTION 'New cases must start as New, not %', hr_case_status_label(NEW.status);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mirrored in src/lib/hrCaseTransitions.ts
+  _allowed := CASE OLD.status
+    WHEN 'new' THEN ARRAY['triaged']
+    WHEN 'triaged' THEN ARRAY['investigating']
+    WHEN 'investigating' THEN ARRAY['awaiting_response', 'decision_made']
+    WHEN 'awaiting_response' THEN ARRAY['investigating', 'decision_made']
+    WHEN 'decision_made' THEN ARRAY['closed']
+    ELSE ARRAY[]::TEXT[]
+  END::hr_case_status[];
+
+  IF NOT NEW.status = ANY(_allowed) THEN
+    IF cardinality(_allowed) = 0 THEN
+      RAISE EXCEPTION 'Case % is closed and cannot be moved to %',
+        OLD.case_number, hr_case_status_label(NEW.status);
+    END IF;
+    RAISE EXCEPTION 'Case % cannot move from % to %. Next allowed: %',
+      OLD.case_number,
+      hr_case_status_label(OLD.status),
+      hr_case_status_label(NEW.status),
+      (SELECT string_agg(hr_case_status_label(s), ', ') FROM unnest(_allowed) AS s);
+  END IF;
+
+  IF NEW.status IN ('triaged', 'investigating', 'awaiting_response')
+     AND NOT EXISTS (SELECT 1 FROM public.hr_case_triage WHERE hr_case_id = NEW.id) THEN
+    _missing := _missing || 'a triage assessment'::TEXT;
+  END IF;
+
+  IF NEW.status IN ('decision_made', 'closed')
+     AND NOT EXISTS (SELECT 1 FROM public.hr_case_findings WHERE hr_case_id = NEW.id) THEN
+    _missing := _missing || 'recorded findings'::TEXT;
+  END IF;
+
+  IF NEW.status = 'closed' THEN
+    SELECT count(*) INTO _open_actions
+    FROM public.hr_case_actions
+    WHERE hr_case_id = NEW.id
+      AND status NOT IN ('completed', 'withdrawn');
+
+    IF _open_actions > 0 THEN
+      _missing := _missing || format(
+        '%s action%s still planned or active (complete or withdraw %s)',
+        _open_actions,
+        CASE WHEN _open_actions = 1 THEN '' ELSE 's' END,
+        CASE WHEN _open_actions = 1 THEN 'it' ELSE 'them' END
+      );
+    END IF;
+
+    IF coalesce(btrim(NEW.closure_notes), '') = '' THEN
+      _missing := _missing || 'closure notes'::TEXT;
+    END IF;
+  END IF;
+
+  IF cardinality(_missing) > 0 THEN
+    RAISE EXCEPTION 'Case % cannot move to % without: %',
+      OLD.case_number,
+      hr_case_status_label(NEW.status),
+      array_to_string(_missing, '; ');
+  END IF;
+
+  NEW.closed_at := CASE WHEN NEW.status = 'closed' THEN now() END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_hr_case_transition
+  BEFORE INSERT OR UPDATE OF status ON public.hr_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_hr_case_transition();
+
+-- Runs as the caller, so the hr_cases update policies still decide who may
+-- move a case
+CREATE OR REPLACE FUNCTION public.transition_hr_case(
+  _case_id UUID,
+  _to_status hr_case_status,
+  _closure_notes TEXT DEFAULT NULL
+)
+RETURNS public.hr_cases
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _case public.hr_cases;
+BEGIN
+  UPDATE public.hr_cases
+  SET status = _to_status,
+      closure_notes = CASE WHEN _to_status = 'closed' THEN _closure_notes ELSE closure_notes END
+  WHERE id = _case_id
+  RETURNING * INTO _case;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Case not found, or you do not have permission to update it';
+  END IF;
+
+  RETURN _case;
+END;
+$$;
@@ -0,0 +1,124 @@
+-- =====================================================
+-- WHISTLEBLOWER INTAKE
+-- =====================================================
+-- A public form per organisation where anyone can report a concern without
+-- signing in. The report becomes a new restricted HR case, and the reporter
+-- gets a random case key and passphrase to check its status and message the
+-- investigator. Nothing about the reporter is stored: the case has no
+-- reporter name, contact or creator, and the channel holds only a hash of
+-- the passphrase. The public side is served by the whistleblower-intake
+-- edge function with the service role, so the channel table has no client
+-- policies at all.
+
+CREATE TABLE public.hr_case_intake_settings (
+  organisation_id UUID NOT NULL PRIMARY KEY REFERENCES public.organisations(id) ON DELETE CASCADE,
+  portal_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.hr_case_intake_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view HR case intake settings"
+  ON public.hr_case_intake_settings FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can manage HR case intake settings"
+  ON public.hr_case_intake_settings FOR ALL
+  USING (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  )
+  WITH CHECK (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE TRIGGER update_hr_case_intake_settings_updated_at
+  BEFORE UPDATE ON public.hr_case_intake_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Cases that came in through the portal and have a reporter channel
+ALTER TABLE public.hr_cases
+  ADD COLUMN submitted_via_portal BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.hr_case_reporter_channels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hr_case_id UUID NOT NULL UNIQUE REFERENCES public.hr_cases(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  case_key TEXT NOT NULL UNIQUE,
+  -- pbkdf2-sha256$<iterations>$<salt>$<hash>
+  passphrase_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.hr_case_reporter_channels ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- REPORTER MESSAGES
+-- =====================================================
+-- The two-way thread between the anonymous reporter and the investigator.
+-- It's restricted content: only admins and the assigned investigator see it.
+-- Reporter messages are written by the edge function; staff reply here.
+
+CREATE TABLE public.hr_case_reporter_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hr_case_id UUID NOT NULL REFERENCES public.hr_cases(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  sender TEXT NOT NULL CHECK (sender IN ('reporter', 'investigator')),
+  sender_user_id UUID,
+  sender_name TEXT,
+  body TEXT NOT NULL CHECK (length(btrim(body)) BETWEEN 1 AND 5000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT reporter_messages_are_anonymous CHECK (
+    sender = 'investigator' OR (sender_user_id IS NULL AND sender_name IS NULL)
+  )
+);
+
+CREATE INDEX idx_hr_case_reporter_messages_case
+  ON public.hr_case_reporter_messages(hr_case_id, created_at);
+
+ALTER TABLE public.hr_case_reporter_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.can_access_reporter_thread(_user_id UUID, _case_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT can_access_hr_case(_user_id, _case_id) AND (
+    can_access_restricted_hr_content(_user_id)
+    OR EXISTS (
+      SELECT 1 FROM public.hr_cases
+      WHERE id = _case_id
+      AND assigned_investigator_user_id = _user_id
+    )
+  )
+$$;
+
+CREATE POLICY "Restricted case viewers can view reporter messages"
+  ON public.hr_case_reporter_messages FOR SELECT
+  USING (can_access_reporter_thread(auth.uid(), hr_case_id));
+
+CREATE POLICY "Restricted case viewers can reply to reporters"
+  ON public.hr_case_reporter_messages FOR INSERT
+  WITH CHECK (
+    sender = 'investigator'
+    AND sender_user_id = auth.uid()
+    AND can_access_reporter_thread(auth.uid(), hr_case_id)
+    AND EXISTS (
+      SELECT 1 FROM public.hr_cases
+      WHERE id = hr_case_id
+      AND submitted_via_portal
+      AND organisation_id = hr_case_reporter_messages.organisation_id
+    )
+  );
+
+-- NO UPDATE OR DELETE POLICIES - the thread is a permanent record
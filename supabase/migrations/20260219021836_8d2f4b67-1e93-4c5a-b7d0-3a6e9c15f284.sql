@@ -0,0 +1,207 @@
+-- =====================================================
+-- WARNING VALIDITY PERIODS
+-- =====================================================
+-- How long each kind of warning stays live once it takes effect. Warnings
+-- without a row use the built-in defaults (see src/lib/disciplinaryHistory.ts).
+
+ALTER TYPE public.hr_action_status ADD VALUE IF NOT EXISTS 'expired';
+
+CREATE TABLE public.hr_warning_validity_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  action_type hr_action_type NOT NULL
+    CHECK (action_type IN ('verbal_warning', 'written_warning', 'final_warning')),
+  validity_months INTEGER NOT NULL CHECK (validity_months BETWEEN 1 AND 60),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, action_type)
+);
+
+ALTER TABLE public.hr_warning_validity_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view warning validity periods"
+  ON public.hr_warning_validity_periods FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can manage warning validity periods"
+  ON public.hr_warning_validity_periods FOR ALL
+  USING (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  )
+  WITH CHECK (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE TRIGGER update_hr_warning_validity_periods_updated_at
+  BEFORE UPDATE ON public.hr_warning_validity_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A warning recorded without an expiry date gets one from its validity period
+CREATE OR REPLACE FUNCTION public.default_hr_warning_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _months INTEGER;
+BEGIN
+  IF NEW.action_type NOT IN ('verbal_warning', 'written_warning', 'final_warning')
+     OR NEW.expiry_date IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT v.validity_months INTO _months
+  FROM public.hr_warning_validity_periods v
+  JOIN public.hr_cases c ON c.organisation_id = v.organisation_id
+  WHERE c.id = NEW.hr_case_id
+    AND v.action_type = NEW.action_type;
+
+  -- Mirrored in src/lib/disciplinaryHistory.ts
+  _months := COALESCE(_months, CASE NEW.action_type WHEN 'verbal_warning' THEN 6 ELSE 12 END);
+
+  NEW.expiry_date := (NEW.effective_date + make_interval(months => _months))::DATE;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER default_hr_warning_expiry
+  BEFORE INSERT ON public.hr_case_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.default_hr_warning_expiry();
+
+-- =====================================================
+-- WARNING EXPIRY
+-- =====================================================
+-- Issued warnings (active, or completed once delivered) lapse the day after
+-- their expiry date in the organisation's timezone. Runs hourly so each
+-- organisation's midnight is picked up.
+
+CREATE OR REPLACE FUNCTION public.expire_hr_warnings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired INTEGER;
+BEGIN
+  UPDATE public.hr_case_actions a
+  SET status = 'expired'
+  FROM public.hr_cases c
+  JOIN public.organisations o ON o.id = c.organisation_id
+  WHERE a.hr_case_id = c.id
+    AND a.action_type IN ('verbal_warning', 'written_warning', 'final_warning')
+    AND a.status IN ('active', 'completed')
+    AND a.expiry_date < (now() AT TIME ZONE COALESCE(o.timezone, 'Australia/Sydney'))::DATE;
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_hr_warnings() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-hr-warnings-hourly',
+  '5 * * * *',
+  $$ SELECT public.expire_hr_warnings(); $$
+);
+
+-- =====================================================
+-- Expired warnings are settled for closure
+-- As before, except a warning that has lapsed no longer holds its case open.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_hr_case_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed hr_case_status[];
+  _missing TEXT[] := '{}';
+  _open_actions INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'new' THEN
+      RAISE EXCEPTION 'New cases must start as New, not %', hr_case_status_label(NEW.status);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mirrored in src/lib/hrCaseTransitions.ts
+  _allowed := CASE OLD.status
+    WHEN 'new' THEN ARRAY['triaged']
+    WHEN 'triaged' THEN ARRAY['investigating']
+    WHEN 'investigating' THEN ARRAY['awaiting_response', 'decision_made']
+    WHEN 'awaiting_response' THEN ARRAY['investigating', 'decision_made']
+    WHEN 'decision_made' THEN ARRAY['closed']
+    ELSE ARRAY[]::TEXT[]
+  END::hr_case_status[];
+
+  IF NOT NEW.status = ANY(_allowed) THEN
+    IF cardinality(_allowed) = 0 THEN
+      RAISE EXCEPTION 'Case % is closed and cannot be moved to %',
+        OLD.case_number, hr_case_status_label(NEW.status);
+    END IF;
+    RAISE EXCEPTION 'Case % cannot move from % to %. Next allowed: %',
+      OLD.case_number,
+      hr_case_status_label(OLD.status),
+      hr_case_status_label(NEW.status),
+      (SELECT string_agg(hr_case_status_label(s), ', ') FROM unnest(_allowed) AS s);
+  END IF;
+
+  IF NEW.status IN ('triaged', 'investigating', 'awaiting_response')
+     AND NOT EXISTS (SELECT 1 FROM public.hr_case_triage WHERE hr_case_id = NEW.id) THEN
+    _missing := _missing || 'a triage assessment'::TEXT;
+  END IF;
+
+  IF NEW.status IN ('decision_made', 'closed')
+     AND NOT EXISTS (SELECT 1 FROM public.hr_case_findings WHERE hr_case_id = NEW.id) THEN
+    _missing := _missing || 'recorded findings'::TEXT;
+  END IF;
+
+  IF NEW.status = 'closed' THEN
+    SELECT count(*) INTO _open_actions
+    FROM public.hr_case_actions
+    WHERE hr_case_id = NEW.id
+      AND status NOT IN ('completed', 'withdrawn', 'expired');
+
+    IF _open_actions > 0 THEN
+      _missing := _missing || format(
+        '%s action%s still planned or active (complete or withdraw %s)',
+        _open_actions,
+        CASE WHEN _open_actions = 1 THEN '' ELSE 's' END,
+        CASE WHEN _open_actions = 1 THEN 'it' ELSE 'them' END
+      );
+    END IF;
+
+    IF coalesce(btrim(NEW.closure_notes), '') = '' THEN
+      _missing := _missing || 'closure notes'::TEXT;
+    END IF;
+  END IF;
+
+  IF cardinality(_missing) > 0 THEN
+    RAISE EXCEPTION 'Case % cannot move to % without: %',
+      OLD.case_number,
+      hr_case_status_label(NEW.status),
+      array_to_string(_missing, '; ');
+  END IF;
+
+  NEW.closed_at := CASE WHEN NEW.status = 'closed' THEN now() END;
+  RETURN NEW;
+END;
+$$;
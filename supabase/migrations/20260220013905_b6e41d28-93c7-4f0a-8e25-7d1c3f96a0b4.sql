@@ -0,0 +1,118 @@
+-- =====================================================
+-- HR EVIDENCE CHAIN OF CUSTODY
+-- =====================================================
+-- Evidence is hashed (SHA-256) when it is uploaded, and every view,
+-- download and integrity check afterwards is recorded, so the organisation
+-- can show a tribunal that a file is the one that was collected and who
+-- has handled it since.
+
+CREATE TYPE public.hr_evidence_custody_event AS ENUM (
+  'uploaded',
+  'viewed',
+  'downloaded',
+  'verified',
+  'verification_failed'
+);
+
+ALTER TABLE public.hr_case_evidence
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN sha256 TEXT CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN file_size BIGINT CHECK (file_size >= 0);
+
+-- Earlier uploads recorded only a public URL; recover the object path from
+-- it. They have no hash and can't be verified.
+UPDATE public.hr_case_evidence
+SET storage_path = replace(substring(file_url FROM '/hr-case-evidence/(.+)$'), '%20', ' ')
+WHERE storage_path IS NULL;
+
+-- New evidence must arrive with its hash, and the hash and file it points to
+-- can never change afterwards
+CREATE OR REPLACE FUNCTION public.protect_hr_evidence_integrity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.sha256 IS NULL OR NEW.storage_path IS NULL THEN
+      RAISE EXCEPTION 'Evidence must be recorded with its storage path and SHA-256 hash';
+    END IF;
+  ELSIF NEW.sha256 IS DISTINCT FROM OLD.sha256
+     OR NEW.storage_path IS DISTINCT FROM OLD.storage_path
+     OR NEW.file_size IS DISTINCT FROM OLD.file_size THEN
+    RAISE EXCEPTION 'The file, hash and size of evidence % cannot be changed', OLD.file_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_hr_evidence_integrity
+  BEFORE INSERT OR UPDATE ON public.hr_case_evidence
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_hr_evidence_integrity();
+
+-- =====================================================
+-- Custody events
+-- Append-only. Uploads are recorded by trigger; views, downloads and checks
+-- by the hr-evidence-custody edge function, which is the only way to read
+-- the files.
+-- =====================================================
+
+CREATE TABLE public.hr_case_evidence_custody_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  evidence_id UUID NOT NULL REFERENCES public.hr_case_evidence(id) ON DELETE CASCADE,
+  hr_case_id UUID NOT NULL REFERENCES public.hr_cases(id) ON DELETE CASCADE,
+  event_type hr_evidence_custody_event NOT NULL,
+  actor_user_id UUID,
+  actor_name TEXT,
+  -- The hash recorded at upload, or computed by an integrity check
+  sha256 TEXT CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  note TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_hr_case_evidence_custody_events_evidence
+  ON public.hr_case_evidence_custody_events(evidence_id, occurred_at);
+
+CREATE INDEX idx_hr_case_evidence_custody_events_case
+  ON public.hr_case_evidence_custody_events(hr_case_id);
+
+ALTER TABLE public.hr_case_evidence_custody_events ENABLE ROW LEVEL SECURITY;
+
+-- Visible to whoever can see the evidence itself
+CREATE POLICY "Users can view custody events for accessible evidence"
+  ON public.hr_case_evidence_custody_events FOR SELECT
+  USING (
+    can_access_hr_case(auth.uid(), hr_case_id) AND
+    EXISTS (
+      SELECT 1 FROM public.hr_case_evidence e
+      WHERE e.id = evidence_id
+        AND (e.access_level = 'normal' OR can_access_restricted_hr_content(auth.uid()))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.record_hr_evidence_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.hr_case_evidence_custody_events
+    (evidence_id, hr_case_id, event_type, actor_user_id, actor_name, sha256, occurred_at)
+  VALUES
+    (NEW.id, NEW.hr_case_id, 'uploaded', NEW.uploaded_by_user_id, NEW.uploaded_by_name, NEW.sha256, NEW.uploaded_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_hr_evidence_upload
+  AFTER INSERT ON public.hr_case_evidence
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_hr_evidence_upload();
+
+-- =====================================================
+-- Files are read only through the custody function
+-- =====================================================
+
+DROP POLICY IF EXISTS "Admins and managers can view HR evidence" ON storage.objects;
@@ -0,0 +1,402 @@
+-- =====================================================
+-- MULTI-SIGNER CONTRACTS
+-- =====================================================
+-- A contract is signed by an ordered list of participants (the employee
+-- first, then the CEO countersigning, for example). Each signer gets a
+-- private signing link, only the signer whose turn it is can sign, and the
+-- contract becomes 'signed' with the last signature. Contracts still
+-- awaiting signatures expire at expires_at.
+
+CREATE TYPE public.contract_signer_role AS ENUM ('employee', 'countersigner', 'witness');
+CREATE TYPE public.contract_signer_status AS ENUM ('pending', 'signed');
+
+CREATE TABLE public.contract_signers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  signing_order INTEGER NOT NULL CHECK (signing_order >= 1),
+  role contract_signer_role NOT NULL,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  status contract_signer_status NOT NULL DEFAULT 'pending',
+  signed_at TIMESTAMPTZ,
+  -- Set by the contract-signing functions when the link is first sent and
+  -- each time it is chased
+  notified_at TIMESTAMPTZ,
+  last_reminded_at TIMESTAMPTZ,
+  reminder_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, signing_order)
+);
+
+CREATE INDEX idx_contract_signers_email ON public.contract_signers(lower(email));
+
+ALTER TABLE public.contract_signers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view contract signers"
+  ON public.contract_signers FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+-- Everyone signing a contract can follow its progress. A function, so
+-- policies on contracts and signers can use it without recursing.
+CREATE OR REPLACE FUNCTION public.is_contract_signer(_user_id UUID, _contract_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.contract_signers cs
+    JOIN auth.users u ON lower(u.email) = lower(cs.email)
+    WHERE u.id = _user_id AND cs.contract_id = _contract_id
+  )
+$$;
+
+CREATE POLICY "Signers can view signers on their contracts"
+  ON public.contract_signers FOR SELECT
+  TO authenticated
+  USING (public.is_contract_signer(auth.uid(), contract_id));
+
+CREATE POLICY "Admins and managers can add contract signers"
+  ON public.contract_signers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Admins and managers can remove contract signers"
+  ON public.contract_signers FOR DELETE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE TRIGGER update_contract_signers_updated_at
+  BEFORE UPDATE ON public.contract_signers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Signing links
+-- Kept apart from the signers so no one, admins included, can read another
+-- signer's link. Only the contract-signing functions (service role) use
+-- them; they are emailed to the signer and never returned to the app.
+-- =====================================================
+
+CREATE TABLE public.contract_signing_tokens (
+  signer_id UUID NOT NULL PRIMARY KEY REFERENCES public.contract_signers(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.contract_signing_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.issue_contract_signing_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.contract_signing_tokens (signer_id) VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issue_contract_signing_token
+  AFTER INSERT ON public.contract_signers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.issue_contract_signing_token();
+
+-- =====================================================
+-- Existing contracts
+-- Each becomes a single-signer contract for its employee. Employees could
+-- sign but not update the contract, so some signed contracts were left
+-- pending; they are marked signed here.
+-- =====================================================
+
+ALTER TABLE public.signatures DROP CONSTRAINT IF EXISTS signatures_contract_id_unique;
+ALTER TABLE public.signatures ADD COLUMN signer_id UUID REFERENCES public.contract_signers(id) ON DELETE CASCADE;
+
+INSERT INTO public.contract_signers (contract_id, signing_order, role, name, email, status, signed_at, notified_at)
+SELECT
+  c.id,
+  1,
+  'employee',
+  c.employee_name,
+  c.employee_email,
+  CASE WHEN s.id IS NOT NULL OR c.status = 'signed' THEN 'signed' ELSE 'pending' END::contract_signer_status,
+  COALESCE(s.signed_at, c.signed_at),
+  CASE WHEN c.status <> 'draft' THEN c.created_at END
+FROM public.contracts c
+LEFT JOIN public.signatures s ON s.contract_id = c.id;
+
+UPDATE public.signatures s
+SET signer_id = cs.id
+FROM public.contract_signers cs
+WHERE cs.contract_id = s.contract_id;
+
+UPDATE public.contracts c
+SET status = 'signed', signed_at = s.signed_at
+FROM public.signatures s
+WHERE s.contract_id = c.id AND c.status = 'pending_signature';
+
+ALTER TABLE public.signatures
+  ALTER COLUMN signer_id SET NOT NULL,
+  ADD CONSTRAINT signatures_signer_id_unique UNIQUE (signer_id);
+
+-- =====================================================
+-- Signing rules
+-- =====================================================
+
+-- The signer list is fixed once the contract is sent
+CREATE OR REPLACE FUNCTION public.lock_contract_signers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _contract_id UUID := COALESCE(NEW.contract_id, OLD.contract_id);
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.contracts WHERE id = _contract_id AND status <> 'draft') THEN
+    RAISE EXCEPTION 'Signers can only be changed while the contract is a draft';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER lock_contract_signers
+  BEFORE INSERT OR DELETE ON public.contract_signers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_contract_signers();
+
+-- Contracts start as drafts, are sent once they have signers, and are only
+-- signed when every signer has signed
+CREATE OR REPLACE FUNCTION public.enforce_contract_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'Contracts are created as drafts and sent once their signers are added';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'pending_signature'
+     AND NOT EXISTS (SELECT 1 FROM public.contract_signers WHERE contract_id = NEW.id) THEN
+    RAISE EXCEPTION 'Add at least one signer before sending % for signature', NEW.title;
+  END IF;
+
+  IF NEW.status = 'signed'
+     AND EXISTS (SELECT 1 FROM public.contract_signers WHERE contract_id = NEW.id AND status = 'pending') THEN
+    RAISE EXCEPTION '% cannot be marked signed until every signer has signed', NEW.title;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_contract_status
+  BEFORE INSERT OR UPDATE ON public.contracts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_contract_status();
+
+-- Only the next signer in order may sign, and only while the contract is
+-- awaiting signature and before its deadline
+CREATE OR REPLACE FUNCTION public.enforce_contract_signing_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _contract public.contracts%ROWTYPE;
+  _signer public.contract_signers%ROWTYPE;
+  _next UUID;
+BEGIN
+  -- Serialises signers of the same contract
+  SELECT * INTO _contract FROM public.contracts WHERE id = NEW.contract_id FOR UPDATE;
+  SELECT * INTO _signer FROM public.contract_signers WHERE id = NEW.signer_id;
+
+  IF NOT FOUND OR _signer.contract_id <> NEW.contract_id THEN
+    RAISE EXCEPTION 'Signatures must be made by one of the contract''s signers';
+  END IF;
+  IF lower(NEW.signer_email) <> lower(_signer.email) THEN
+    RAISE EXCEPTION 'This signature is not from %', _signer.name;
+  END IF;
+  IF _contract.status <> 'pending_signature' THEN
+    RAISE EXCEPTION '% is not awaiting signature', _contract.title;
+  END IF;
+  IF _contract.expires_at IS NOT NULL AND _contract.expires_at <= now() THEN
+    RAISE EXCEPTION '% expired on %', _contract.title, _contract.expires_at;
+  END IF;
+  IF _signer.status = 'signed' THEN
+    RAISE EXCEPTION '% has already signed', _signer.name;
+  END IF;
+
+  SELECT id INTO _next
+  FROM public.contract_signers
+  WHERE contract_id = NEW.contract_id AND status = 'pending'
+  ORDER BY signing_order
+  LIMIT 1;
+  IF _next <> _signer.id THEN
+    RAISE EXCEPTION 'It is not % turn to sign yet', _signer.name || '''s';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_contract_signing_order
+  BEFORE INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_contract_signing_order();
+
+CREATE OR REPLACE FUNCTION public.complete_contract_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.contract_signers
+  SET status = 'signed', signed_at = NEW.signed_at
+  WHERE id = NEW.signer_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_signers WHERE contract_id = NEW.contract_id AND status = 'pending'
+  ) THEN
+    UPDATE public.contracts
+    SET status = 'signed', signed_at = NEW.signed_at
+    WHERE id = NEW.contract_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER complete_contract_signature
+  AFTER INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_contract_signature();
+
+-- =====================================================
+-- Signing in the app
+-- Any signer can sign as themselves; order and status are checked by the
+-- trigger above.
+-- =====================================================
+
+DROP POLICY IF EXISTS "Users can sign their own contracts" ON public.signatures;
+
+CREATE POLICY "Signers can sign contracts as themselves"
+  ON public.signatures FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    signer_email = (SELECT email FROM auth.users WHERE id = auth.uid())::text
+    AND signer_id IN (
+      SELECT id FROM public.contract_signers
+      WHERE lower(email) = lower((SELECT email FROM auth.users WHERE id = auth.uid())::text)
+    )
+  );
+
+-- The employee sees the countersignature on their contract as well as
+-- their own
+CREATE POLICY "Employees can view signatures on own contracts"
+  ON public.signatures FOR SELECT
+  TO authenticated
+  USING (
+    contract_id IN (
+      SELECT id FROM public.contracts
+      WHERE employee_email = (SELECT email FROM auth.users WHERE id = auth.uid())::text
+    )
+  );
+
+CREATE POLICY "Signers can view contracts they sign"
+  ON public.contracts FOR SELECT
+  TO authenticated
+  USING (public.is_contract_signer(auth.uid(), id));
+
+CREATE POLICY "Signers can create audit entries for contracts they sign"
+  ON public.contract_audit_log FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_contract_signer(auth.uid(), contract_id));
+
+-- =====================================================
+-- Expiry
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.expire_contracts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE public.contracts
+    SET status = 'expired'
+    WHERE status = 'pending_signature' AND expires_at <= now()
+    RETURNING id, expires_at
+  ), logged AS (
+    INSERT INTO public.contract_audit_log (contract_id, action, actor_name, details)
+    SELECT
+      id,
+      'expired',
+      'System',
+      jsonb_build_object('description', 'Signing deadline passed before every signer had signed', 'expires_at', expires_at)
+    FROM expired
+    RETURNING 1
+  )
+  SELECT count(*) INTO _count FROM logged;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_contracts() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-contracts-every-15-minutes',
+  '*/15 * * * *',
+  $$ SELECT public.expire_contracts(); $$
+);
+
+-- =====================================================
+-- Reminders
+-- Sends signing links that haven't gone out yet and chases signers who
+-- haven't signed. See contract-signing-reminders. 23:00 UTC is morning
+-- in Australia.
+-- =====================================================
+
+SELECT cron.schedule(
+  'contract-signing-reminders-daily',
+  '0 23 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/contract-signing-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('triggered_at', now())
+  );
+  $$
+);
@@ -0,0 +1,161 @@
+-- =====================================================
+-- CONTRACT TEMPLATES
+-- =====================================================
+-- A library of standard contracts with merge fields ({{employee.first_name}},
+-- {{pay_rate}} ...) that are filled in when a contract is created. Each
+-- edit publishes a new numbered version; published versions never change,
+-- and every contract records the version it was generated from.
+
+CREATE TABLE public.contract_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 200),
+  description TEXT,
+  -- Kept up to date by trigger; 0 until the first version is published
+  current_version INTEGER NOT NULL DEFAULT 0,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, name)
+);
+
+CREATE TABLE public.contract_template_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.contract_templates(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  -- Assigned by number_contract_template_version
+  version_number INTEGER NOT NULL DEFAULT 0,
+  content TEXT NOT NULL CHECK (length(content) BETWEEN 10 AND 50000),
+  change_note TEXT,
+  created_by_user_id UUID,
+  created_by_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version_number)
+);
+
+CREATE INDEX idx_contract_templates_org ON public.contract_templates(organisation_id);
+
+ALTER TABLE public.contract_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Managers create contracts from templates; only admins maintain them
+CREATE POLICY "Admins and managers can view contract templates"
+  ON public.contract_templates FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can create contract templates"
+  ON public.contract_templates FOR INSERT
+  WITH CHECK (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins can update contract templates"
+  ON public.contract_templates FOR UPDATE
+  USING (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE POLICY "Admins and managers can view contract template versions"
+  ON public.contract_template_versions FOR SELECT
+  USING (
+    is_platform_user(auth.uid()) OR
+    ((has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+      AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+-- Versions are append-only: no update or delete policies
+CREATE POLICY "Admins can publish contract template versions"
+  ON public.contract_template_versions FOR INSERT
+  WITH CHECK (
+    is_platform_user(auth.uid()) OR
+    (has_role(auth.uid(), 'admin'::app_role) AND user_belongs_to_org(auth.uid(), organisation_id))
+  );
+
+CREATE TRIGGER update_contract_templates_updated_at
+  BEFORE UPDATE ON public.contract_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Numbers each version after the template's latest and keeps it in the
+-- template's organisation
+CREATE OR REPLACE FUNCTION public.number_contract_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _template public.contract_templates%ROWTYPE;
+BEGIN
+  -- Serialises publishing on the same template
+  SELECT * INTO _template FROM public.contract_templates WHERE id = NEW.template_id FOR UPDATE;
+  IF _template.is_archived THEN
+    RAISE EXCEPTION 'Template % is archived', _template.name;
+  END IF;
+
+  NEW.organisation_id := _template.organisation_id;
+  NEW.version_number := _template.current_version + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER number_contract_template_version
+  BEFORE INSERT ON public.contract_template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_contract_template_version();
+
+CREATE OR REPLACE FUNCTION public.set_contract_template_current_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.contract_templates
+  SET current_version = NEW.version_number
+  WHERE id = NEW.template_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_contract_template_current_version
+  AFTER INSERT ON public.contract_template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_contract_template_current_version();
+
+-- current_version only ever moves forward with a published version
+CREATE OR REPLACE FUNCTION public.protect_contract_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_version <> OLD.current_version
+     AND NOT EXISTS (
+       SELECT 1 FROM public.contract_template_versions
+       WHERE template_id = NEW.id AND version_number = NEW.current_version
+     ) THEN
+    RAISE EXCEPTION 'current_version is set by publishing a new version of %', NEW.name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_contract_template_version
+  BEFORE UPDATE ON public.contract_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_contract_template_version();
+
+-- =====================================================
+-- Contracts record the version they came from
+-- =====================================================
+
+ALTER TABLE public.contracts
+  ADD COLUMN template_version_id UUID REFERENCES public.contract_template_versions(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_contracts_template_version ON public.contracts(template_version_id);